@@ -8,6 +8,7 @@ import { ThemeProvider } from "@/components/theme-provider";
 import { AppProvider } from "@/contexts/AppContext";
 import { useAuth } from "@/hooks/useAuth";
 import LoginForm from "@/components/LoginForm";
+import VenuePartnerPortal from "@/components/VenuePartnerPortal";
 import Index from "./pages/Index";
 import Reports from "./pages/Reports";
 import PayoutIssuesPage from "./pages/PayoutIssues";
@@ -55,7 +56,8 @@ const AppContent = () => {
     logout, 
     userProfile, 
     hasPermission, 
-    canAccessView 
+    canAccessView,
+    isVenuePartner
   } = useAuth();
 
   const [appReady, setAppReady] = useState(false);
@@ -162,6 +164,12 @@ const AppContent = () => {
     return <LoginForm onLogin={handleLogin} />;
   }
 
+  // Venue partners only ever see their own statements
+  if (shouldShowMainApp && isVenuePartner) {
+    console.log('🏢 App: Showing partner portal for user:', userProfile?.email);
+    return <VenuePartnerPortal onLogout={handleLogout} userProfile={userProfile!} />;
+  }
+
   // Show main app
   if (shouldShowMainApp) {
     console.log('🏠 App: Showing main app for user:', userProfile?.email);
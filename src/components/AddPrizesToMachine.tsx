@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useCallback } from 'react';
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
@@ -7,7 +7,9 @@ import { Textarea } from '@/components/ui/textarea';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { useAppContext } from '@/contexts/AppContext';
 import { useToast } from '@/hooks/use-toast';
-import { Search, X, Gift } from 'lucide-react';
+import { Search, X, Gift, Truck } from 'lucide-react';
+import { repositories, type StockLocationRow } from '@/lib/repositories';
+import { buildLocationQuantities, describeLocation, loadStockLocations, primaryLocation, quantityAt } from '@/lib/stockLocations';
 
 interface AddPrizesToMachineProps {
   machineId: string;
@@ -22,7 +24,7 @@ const AddPrizesToMachine: React.FC<AddPrizesToMachineProps> = ({
   isOpen,
   onClose
 }) => {
-  const { prizes, addMachineStock, updatePrizeStock } = useAppContext();
+  const { prizes, refreshData } = useAppContext();
   const { toast } = useToast();
   const [selectedPrizeId, setSelectedPrizeId] = useState('');
   const [quantity, setQuantity] = useState('');
@@ -30,11 +32,36 @@ const AddPrizesToMachine: React.FC<AddPrizesToMachineProps> = ({
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [searchTerm, setSearchTerm] = useState('');
   const [filteredPrizes, setFilteredPrizes] = useState(prizes);
+  const [locations, setLocations] = useState<StockLocationRow[]>([]);
+  const [quantities, setQuantities] = useState<Map<string, number>>(new Map());
+  const [sourceId, setSourceId] = useState('');
+
+  // Prizes come out of the technician's van when they have one, otherwise the main warehouse
+  const loadLocations = useCallback(async () => {
+    try {
+      const [{ locations: active, rows }, myVehicle] = await Promise.all([
+        loadStockLocations(),
+        repositories.stockLocations.findMyVehicle()
+      ]);
+      setLocations(active);
+      setQuantities(buildLocationQuantities(prizes, active, rows));
+      setSourceId(prev => prev || myVehicle?.id || primaryLocation(active)?.id || '');
+    } catch (error) {
+      console.error('❌ Error loading stock locations:', error);
+    }
+  }, [prizes]);
+
+  useEffect(() => {
+    if (isOpen) loadLocations();
+  }, [isOpen, loadLocations]);
+
+  const available = (prizeId: string) => quantityAt(quantities, sourceId, prizeId);
+  const source = locations.find(location => location.id === sourceId);
 
   // Filter prizes based on search term and stock availability
   useEffect(() => {
     const filtered = prizes.filter(prize => {
-      const hasStock = prize.stock_quantity > 0;
+      const hasStock = quantityAt(quantities, sourceId, prize.id) > 0;
       const matchesSearch = searchTerm === '' || 
         prize.name.toLowerCase().includes(searchTerm.toLowerCase()) ||
         (prize.barcode && prize.barcode.toLowerCase().includes(searchTerm.toLowerCase()));
@@ -42,7 +69,7 @@ const AddPrizesToMachine: React.FC<AddPrizesToMachineProps> = ({
       return hasStock && matchesSearch;
     });
     setFilteredPrizes(filtered);
-  }, [prizes, searchTerm]);
+  }, [prizes, searchTerm, quantities, sourceId]);
 
   // Reset form when dialog opens/closes
   useEffect(() => {
@@ -69,27 +96,20 @@ const AddPrizesToMachine: React.FC<AddPrizesToMachineProps> = ({
     }
 
     const selectedPrize = prizes.find(p => p.id === selectedPrizeId);
-    if (!selectedPrize || selectedPrize.stock_quantity < qty) {
-      toast({ title: 'Error', description: 'Not enough stock available', variant: 'destructive' });
+    if (!selectedPrize || !source || available(selectedPrizeId) < qty) {
+      toast({ title: 'Error', description: `Not enough stock available${source ? ` in ${source.name}` : ''}`, variant: 'destructive' });
       return;
     }
 
     setIsSubmitting(true);
     try {
-      // Add to machine stock with notes
-      await addMachineStock({
-        machine_id: machineId,
-        prize_id: selectedPrizeId,
-        quantity: qty,
-        notes: notes.trim() || null
-      });
-
-      // Update prize stock
-      await updatePrizeStock(selectedPrizeId, selectedPrize.stock_quantity - qty);
+      // Machine stock row, the location's stock and the movement all change together
+      await repositories.locationStock.issueToMachine(sourceId, machineId, selectedPrizeId, qty, notes.trim() || null);
+      await refreshData();
 
       toast({ 
         title: 'Success', 
-        description: `Added ${qty} ${selectedPrize.name} to ${machineName}${notes ? ' with notes' : ''}` 
+        description: `Added ${qty} ${selectedPrize.name} to ${machineName} from ${source.name}${notes ? ' with notes' : ''}` 
       });
       
       // Reset form
@@ -100,7 +120,7 @@ const AddPrizesToMachine: React.FC<AddPrizesToMachineProps> = ({
       onClose();
     } catch (error) {
       console.error('Error adding prizes to machine:', error);
-      toast({ title: 'Error', description: 'Failed to add prizes to machine', variant: 'destructive' });
+      toast({ title: 'Error', description: (error as Error).message || 'Failed to add prizes to machine', variant: 'destructive' });
     } finally {
       setIsSubmitting(false);
     }
@@ -125,6 +145,30 @@ const AddPrizesToMachine: React.FC<AddPrizesToMachineProps> = ({
           </DialogTitle>
         </DialogHeader>
         <form onSubmit={handleSubmit} className="space-y-4">
+          {/* Source Location */}
+          <div>
+            <Label htmlFor="source" className="text-red-700 font-medium flex items-center gap-1">
+              <Truck className="h-4 w-4" />
+              Take From
+            </Label>
+            <Select
+              value={sourceId}
+              onValueChange={(value) => {
+                setSourceId(value);
+                setSelectedPrizeId('');
+              }}
+            >
+              <SelectTrigger id="source" className="border-red-300">
+                <SelectValue placeholder="Choose where the prizes come from" />
+              </SelectTrigger>
+              <SelectContent>
+                {locations.map(location => (
+                  <SelectItem key={location.id} value={location.id}>{describeLocation(location)}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
           {/* Search Section */}
           <div>
             <Label htmlFor="search" className="text-red-700 font-medium">Search Prizes</Label>
@@ -170,7 +214,7 @@ const AddPrizesToMachine: React.FC<AddPrizesToMachineProps> = ({
                   >
                     <div className="font-medium text-gray-900">{prize.name}</div>
                     <div className="text-sm text-gray-600">
-                      Stock: {prize.stock_quantity} • ${prize.cost?.toFixed(2) || '0.00'}
+                      Stock: {available(prize.id)} • ${prize.cost?.toFixed(2) || '0.00'}
                     </div>
                     {prize.barcode && (
                       <div className="text-xs text-gray-500">Barcode: {prize.barcode}</div>
@@ -221,7 +265,7 @@ const AddPrizesToMachine: React.FC<AddPrizesToMachineProps> = ({
                       <div className="flex flex-col">
                         <span className="font-medium">{prize.name}</span>
                         <span className="text-xs text-gray-500">
-                          Stock: {prize.stock_quantity} • ${prize.cost?.toFixed(2) || '0.00'}
+                          Stock: {available(prize.id)} • ${prize.cost?.toFixed(2) || '0.00'}
                         </span>
                       </div>
                     </SelectItem>
@@ -240,7 +284,7 @@ const AddPrizesToMachine: React.FC<AddPrizesToMachineProps> = ({
                   <div>
                     <div className="font-medium text-blue-800">{prize.name}</div>
                     <div className="text-sm text-blue-600">
-                      Available Stock: {prize.stock_quantity} • Cost: ${prize.cost?.toFixed(2) || '0.00'}
+                      Available in {source?.name || 'stock'}: {available(prize.id)} • Cost: ${prize.cost?.toFixed(2) || '0.00'}
                     </div>
                     {prize.barcode && (
                       <div className="text-xs text-blue-500 font-mono">
@@ -306,13 +350,13 @@ const AddPrizesToMachine: React.FC<AddPrizesToMachineProps> = ({
         </form>
 
         {/* No Stock Warning */}
-        {prizes.filter(p => p.stock_quantity > 0).length === 0 && (
+        {sourceId && prizes.filter(p => available(p.id) > 0).length === 0 && (
           <div className="mt-4 p-3 bg-yellow-50 border border-yellow-200 rounded-lg">
             <p className="text-yellow-800 text-sm font-medium">
-              ⚠️ No prizes have stock available
+              ⚠️ No prizes in {source?.name || 'this location'}
             </p>
             <p className="text-yellow-700 text-xs mt-1">
-              Add stock to prizes before assigning them to machines
+              Load stock into this location, or take it from another, before assigning prizes to machines
             </p>
           </div>
         )}
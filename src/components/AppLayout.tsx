@@ -25,12 +25,20 @@ import EquipmentHireManager from './EquipmentHireManager'; // Add this import
 import RunsManager from './RunsManager';
 import MachineMoves from './MachineMoves';
 import UnifiedCalendar from './UnifiedCalendar';
+import CounterReviewQueue from './CounterReviewQueue';
+import CashReconciliationQueue from './CashReconciliationQueue';
+import PurchasingManager from './PurchasingManager';
+import StockLocationsManager from './StockLocationsManager';
+import StocktakeManager from './StocktakeManager';
+import VenueCapacityPlanner from './VenueCapacityPlanner';
+import FleetValuationReport from './FleetValuationReport';
 
 
 interface AppLayoutProps {
   children?: React.ReactNode;
   onLogout: () => void;
   userProfile: {
+    id?: string;
     role: string;
     username?: string;
     full_name?: string;
@@ -73,6 +81,14 @@ const RoleBasedReports: React.FC<{
   userProfile: { role: string };
   hasPermission: (permission: string) => boolean;
 }> = ({ userProfile, hasPermission }) => {
+  // Flagged toy counter jumps are settled by whoever can edit earnings; cash variances by reconcilers
+  const reviewQueues = (
+    <>
+      {hasPermission('edit_earnings') && <CounterReviewQueue />}
+      {hasPermission('reconcile_cash') && <CashReconciliationQueue canEditSettings={hasPermission('manage_settings')} />}
+    </>
+  );
+
   // For technicians, show a simplified report interface
   if (userProfile.role === 'technician') {
     return (
@@ -85,6 +101,7 @@ const RoleBasedReports: React.FC<{
             As a technician, you can create and view maintenance reports for machines you service.
           </p>
         </div>
+        {reviewQueues}
         <ReportGenerator restrictedMode="maintenance_only" />
       </div>
     );
@@ -102,13 +119,19 @@ const RoleBasedReports: React.FC<{
             You can view earnings and operational reports but cannot edit financial data.
           </p>
         </div>
+        {reviewQueues}
         <ReportGenerator restrictedMode="manager" />
       </div>
     );
   }
 
   // Full access for admins and super admins
-  return <ReportGenerator />;
+  return (
+    <div className="space-y-6">
+      {reviewQueues}
+      <ReportGenerator />
+    </div>
+  );
 };
 
 const AppLayout: React.FC<AppLayoutProps> = ({ 
@@ -197,6 +220,18 @@ const AppLayout: React.FC<AppLayoutProps> = ({
           );
         }
         return <VenuesManager readOnly={!hasPermission('manage_venues')} />;
+
+      case 'venue-capacity':
+        if (!canAccessView('venue-capacity')) {
+          return (
+            <AccessDenied 
+              viewName="Venue Capacity" 
+              userRole={userProfile.role}
+              onBackToDashboard={() => setCurrentView('dashboard')}
+            />
+          );
+        }
+        return <VenueCapacityPlanner canManage={hasPermission('manage_venues')} />;
         
       case 'prizes':
         if (!canAccessView('prizes')) {
@@ -209,6 +244,18 @@ const AppLayout: React.FC<AppLayoutProps> = ({
           );
         }
         return <PrizesManager readOnly={!hasPermission('manage_prizes')} />;
+
+      case 'stock_locations':
+        if (!canAccessView('stock_locations')) {
+          return (
+            <AccessDenied 
+              viewName="Stock Locations" 
+              userRole={userProfile.role}
+              onBackToDashboard={() => setCurrentView('dashboard')}
+            />
+          );
+        }
+        return <StockLocationsManager currentUserId={userProfile.id} canManage={hasPermission('manage_stock')} />;
         
       case 'parts':
         if (!hasPermission('manage_stock')) {
@@ -222,6 +269,30 @@ const AppLayout: React.FC<AppLayoutProps> = ({
         }
         return <PartsManager />;
 
+      case 'purchasing':
+        if (!hasPermission('manage_stock') || !canAccessView('purchasing')) {
+          return (
+            <AccessDenied 
+              viewName="Purchasing" 
+              userRole={userProfile.role}
+              onBackToDashboard={() => setCurrentView('dashboard')}
+            />
+          );
+        }
+        return <PurchasingManager currentUserId={userProfile.id} />;
+
+      case 'stocktake':
+        if (!hasPermission('manage_stock') || !canAccessView('stocktake')) {
+          return (
+            <AccessDenied 
+              viewName="Stocktake" 
+              userRole={userProfile.role}
+              onBackToDashboard={() => setCurrentView('dashboard')}
+            />
+          );
+        }
+        return <StocktakeManager currentUserId={userProfile.id} />;
+
       // ADD THIS NEW CASE FOR EQUIPMENT HIRE
       case 'equipment-hire':
         if (!canAccessView('equipment-hire')) {
@@ -233,7 +304,7 @@ const AppLayout: React.FC<AppLayoutProps> = ({
             />
           );
         }
-        return <EquipmentHireManager />;
+        return <EquipmentHireManager canManage={hasPermission('manage_equipment')} />;
 
       case 'runs':
         if (!canAccessView('runs')) {
@@ -245,7 +316,7 @@ const AppLayout: React.FC<AppLayoutProps> = ({
             />
           );
         }
-        return <RunsManager userRole={userProfile.role} hasPermission={hasPermission} />;
+        return <RunsManager userRole={userProfile.role} hasPermission={hasPermission} currentUserId={userProfile.id} />;
 
       case 'machine-moves':
         return <MachineMoves />;
@@ -275,7 +346,7 @@ const AppLayout: React.FC<AppLayoutProps> = ({
             />
           );
         }
-        return <JobsManager userRole={userProfile.role} hasPermission={hasPermission} />;
+        return <JobsManager userRole={userProfile.role} hasPermission={hasPermission} currentUserId={userProfile.id} />;
         
       case 'users':
         if (!canAccessView('users')) {
@@ -301,6 +372,18 @@ const AppLayout: React.FC<AppLayoutProps> = ({
         }
         return <StockAnalytics />;
         
+      case 'fleet-valuation':
+        if (!canAccessView('fleet-valuation')) {
+          return (
+            <AccessDenied 
+              viewName="Fleet Valuation" 
+              userRole={userProfile.role}
+              onBackToDashboard={() => setCurrentView('dashboard')}
+            />
+          );
+        }
+        return <FleetValuationReport />;
+        
       case 'history':
         if (!canAccessView('machines')) {
           return (
@@ -0,0 +1,220 @@
+// src/components/CashReconciliationQueue.tsx
+// Machine reports whose cash collected was outside tolerance of the expected takings.
+// Each stays here until a manager approves it with a reason.
+import React, { useCallback, useEffect, useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Check, Scale, Settings } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { repositories, type CashReconciliationRow, type CashReconciliationSettingsRow } from '@/lib/repositories';
+
+interface CashReconciliationQueueProps {
+  canEditSettings: boolean;
+}
+
+type SettingKey = 'tolerance_percent' | 'min_variance_amount' | 'token_price' | 'history_days';
+
+const SETTING_FIELDS: Array<{ key: SettingKey; label: string }> = [
+  { key: 'tolerance_percent', label: 'Tolerance %' },
+  { key: 'min_variance_amount', label: 'Min variance ($)' },
+  { key: 'token_price', label: 'Token price ($)' },
+  { key: 'history_days', label: 'History (days)' }
+];
+
+const formatMoney = (value: number | null | undefined) =>
+  value === null || value === undefined ? '—' : `$${Number(value).toFixed(2)}`;
+
+const describeBasis = (basis: CashReconciliationRow['expected_basis']) => {
+  const parts: string[] = [];
+  if (basis?.fromPrizes !== null && basis?.fromPrizes !== undefined) {
+    parts.push(`prizes ${formatMoney(basis.fromPrizes)} at ${basis.targetPayoutPercent}% payout`);
+  }
+  if (basis?.fromHistory !== null && basis?.fromHistory !== undefined) {
+    parts.push(`usual ${formatMoney(basis.takingsPerDay)}/day × ${basis.daysSinceLastReport} days`);
+  }
+  if (basis?.tokenValue) parts.push(`less tokens ${formatMoney(basis.tokenValue)}`);
+  return parts.join(', ');
+};
+
+const CashReconciliationQueue: React.FC<CashReconciliationQueueProps> = ({ canEditSettings }) => {
+  const { toast } = useToast();
+  const [items, setItems] = useState<CashReconciliationRow[]>([]);
+  const [reasons, setReasons] = useState<Record<string, string>>({});
+  const [savingId, setSavingId] = useState<string | null>(null);
+  const [settings, setSettings] = useState<CashReconciliationSettingsRow | null>(null);
+  const [settingsDraft, setSettingsDraft] = useState<Record<SettingKey, string> | null>(null);
+
+  const loadQueue = useCallback(async () => {
+    try {
+      const [pending, [settingsRow]] = await Promise.all([
+        repositories.cashReconciliations.listPending(),
+        repositories.cashReconciliationSettings.list({ limit: 1 })
+      ]);
+      setItems(pending);
+      setSettings(settingsRow || null);
+    } catch (error) {
+      console.error('❌ Error loading cash reconciliations:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadQueue();
+  }, [loadQueue]);
+
+  const handleApprove = async (item: CashReconciliationRow) => {
+    const reason = (reasons[item.id] || '').trim();
+    if (!reason) {
+      toast({ title: 'Reason Required', description: 'Say why this collection is accepted', variant: 'destructive' });
+      return;
+    }
+
+    setSavingId(item.id);
+    try {
+      await repositories.cashReconciliations.approve(item.id, reason);
+      toast({ title: 'Collection Approved', description: `${item.machines?.name || 'Machine'} reconciled` });
+      setItems(prev => prev.filter(row => row.id !== item.id));
+    } catch (error) {
+      console.error('❌ Error approving reconciliation:', error);
+      toast({ title: 'Error', description: (error as Error).message || 'Failed to approve', variant: 'destructive' });
+    } finally {
+      setSavingId(null);
+    }
+  };
+
+  const toggleSettings = () => {
+    setSettingsDraft(settingsDraft || !settings ? null : {
+      tolerance_percent: String(settings.tolerance_percent),
+      min_variance_amount: String(settings.min_variance_amount),
+      token_price: String(settings.token_price),
+      history_days: String(settings.history_days)
+    });
+  };
+
+  const handleSaveSettings = async () => {
+    if (!settings || !settingsDraft) return;
+    const values = {
+      tolerance_percent: parseFloat(settingsDraft.tolerance_percent),
+      min_variance_amount: parseFloat(settingsDraft.min_variance_amount),
+      token_price: parseFloat(settingsDraft.token_price),
+      history_days: parseInt(settingsDraft.history_days)
+    };
+    if (Object.values(values).some(value => isNaN(value) || value < 0) || values.tolerance_percent <= 0 || values.history_days <= 0) {
+      toast({ title: 'Validation Error', description: 'Enter positive numbers for every setting', variant: 'destructive' });
+      return;
+    }
+
+    try {
+      const saved = await repositories.cashReconciliationSettings.update(settings.id, { ...values, updated_at: new Date().toISOString() });
+      toast({ title: 'Settings Saved', description: 'New collections will be checked with these settings' });
+      setSettings(saved || settings);
+      setSettingsDraft(null);
+    } catch (error) {
+      console.error('❌ Error saving reconciliation settings:', error);
+      toast({ title: 'Error', description: (error as Error).message || 'Failed to save settings', variant: 'destructive' });
+    }
+  };
+
+  if (items.length === 0 && !canEditSettings) return null;
+
+  return (
+    <Card className="border-orange-200">
+      <CardHeader className="bg-orange-50">
+        <div className="flex items-center justify-between">
+          <CardTitle className="flex items-center gap-2 text-orange-900">
+            <Scale className="h-5 w-5" />
+            Cash Reconciliation
+            <Badge variant="outline" className="border-orange-300 text-orange-800">{items.length}</Badge>
+          </CardTitle>
+          {canEditSettings && settings && (
+            <Button size="sm" variant="outline" onClick={toggleSettings}>
+              <Settings className="h-4 w-4 mr-1" />
+              Tolerance
+            </Button>
+          )}
+        </div>
+        {settings && (
+          <p className="text-sm text-orange-800">
+            Collections more than {settings.tolerance_percent}% and {formatMoney(settings.min_variance_amount)} away from expected are held here.
+          </p>
+        )}
+      </CardHeader>
+      <CardContent className="p-4 space-y-4">
+        {settingsDraft && (
+          <div className="grid grid-cols-2 md:grid-cols-5 gap-3 items-end p-4 bg-gray-50 border rounded-lg">
+            {SETTING_FIELDS.map(field => (
+              <div key={field.key}>
+                <Label htmlFor={`reconcile-${field.key}`}>{field.label}</Label>
+                <Input
+                  id={`reconcile-${field.key}`}
+                  type="number"
+                  value={settingsDraft[field.key]}
+                  onChange={(e) => setSettingsDraft({ ...settingsDraft, [field.key]: e.target.value })}
+                />
+              </div>
+            ))}
+            <Button onClick={handleSaveSettings}>Save</Button>
+          </div>
+        )}
+
+        {items.length === 0 ? (
+          <p className="text-sm text-gray-500 text-center py-4">No collections waiting to be reconciled</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Machine</TableHead>
+                <TableHead>Date</TableHead>
+                <TableHead className="text-right">Collected</TableHead>
+                <TableHead className="text-right">Expected</TableHead>
+                <TableHead className="text-right">Variance</TableHead>
+                <TableHead>Reason</TableHead>
+                <TableHead />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {items.map(item => (
+                <TableRow key={item.id}>
+                  <TableCell className="font-medium">{item.machines?.name || 'Unknown machine'}</TableCell>
+                  <TableCell>
+                    {new Date(item.machine_reports?.report_date || item.created_at).toLocaleDateString()}
+                  </TableCell>
+                  <TableCell className="text-right">{formatMoney(item.collected_amount)}</TableCell>
+                  <TableCell className="text-right">
+                    {formatMoney(item.expected_amount)}
+                    <span className="block text-xs text-gray-500">{describeBasis(item.expected_basis)}</span>
+                  </TableCell>
+                  <TableCell className={`text-right font-semibold ${item.variance_amount < 0 ? 'text-red-600' : 'text-amber-600'}`}>
+                    {item.variance_amount > 0 ? '+' : ''}{formatMoney(item.variance_amount)}
+                    {item.variance_percent !== null && (
+                      <span className="block text-xs font-normal">{item.variance_percent > 0 ? '+' : ''}{item.variance_percent}%</span>
+                    )}
+                  </TableCell>
+                  <TableCell>
+                    <Input
+                      value={reasons[item.id] || ''}
+                      onChange={(e) => setReasons(prev => ({ ...prev, [item.id]: e.target.value }))}
+                      placeholder="e.g. venue emptied the cash box"
+                      disabled={savingId === item.id}
+                    />
+                  </TableCell>
+                  <TableCell>
+                    <Button size="sm" onClick={() => handleApprove(item)} disabled={savingId === item.id}>
+                      <Check className="h-4 w-4 mr-1" />
+                      Approve
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default CashReconciliationQueue;
@@ -0,0 +1,267 @@
+// src/components/CommissionLedger.tsx
+// Outstanding commission aging by venue and a per-venue statement with running balance
+import React, { useMemo, useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Clock, FileText, Plus, Printer } from 'lucide-react';
+import type { CommissionPaymentRow, VenueReportRow } from '@/lib/repositories';
+import { buildAgingSummary, buildVenueStatement, type StatementLine } from '@/lib/commissionLedger';
+import { openStatementWindow } from '@/lib/venueStatements';
+import type { PaymentTarget } from './RecordPaymentDialog';
+
+interface CommissionLedgerProps {
+  venueReports: VenueReportRow[];
+  payments: CommissionPaymentRow[];
+  companyLogo?: string;
+  canRecordPayments: boolean;
+  onRecordPayment: (target: PaymentTarget) => void;
+}
+
+const money = (amount: number) => `$${amount.toFixed(2)}`;
+
+const statementHTML = (venueName: string, lines: StatementLine[], period: { from: string; to: string }, companyLogo?: string) => {
+  const closing = lines.length > 0 ? lines[lines.length - 1].balance : 0;
+  const rows = lines.map(line => `
+    <tr>
+      <td>${new Date(line.date).toLocaleDateString()}</td>
+      <td>${line.description}</td>
+      <td class="num">${line.charge ? money(line.charge) : ''}</td>
+      <td class="num">${line.payment ? money(line.payment) : ''}</td>
+      <td class="num"><strong>${money(line.balance)}</strong></td>
+    </tr>`).join('');
+
+  return `<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="utf-8" />
+  <title>Commission Statement - ${venueName}</title>
+  <style>
+    body { font-family: Arial, sans-serif; margin: 32px; color: #212529; }
+    h1 { margin: 0 0 4px; font-size: 22px; }
+    table { width: 100%; border-collapse: collapse; margin-top: 24px; font-size: 13px; }
+    th, td { padding: 8px; border-bottom: 1px solid #e9ecef; text-align: left; }
+    th { background: #f8f9fa; }
+    .num { text-align: right; }
+    .total { margin-top: 16px; text-align: right; font-size: 16px; }
+  </style>
+</head>
+<body>
+  ${companyLogo ? `<img src="${companyLogo}" alt="Logo" style="height: 60px; object-fit: contain;" />` : ''}
+  <h1>Commission Statement</h1>
+  <div><strong>${venueName}</strong></div>
+  <div>${period.from ? new Date(period.from).toLocaleDateString() : 'All time'} – ${period.to ? new Date(period.to).toLocaleDateString() : 'today'}</div>
+  <table>
+    <thead>
+      <tr><th>Date</th><th>Description</th><th class="num">Commission</th><th class="num">Paid</th><th class="num">Balance</th></tr>
+    </thead>
+    <tbody>${rows}</tbody>
+  </table>
+  <div class="total">${closing >= 0 ? 'Balance owing to venue' : 'Credit held for venue'}: <strong>${money(Math.abs(closing))}</strong></div>
+</body>
+</html>`;
+};
+
+const CommissionLedger: React.FC<CommissionLedgerProps> = ({
+  venueReports, payments, companyLogo, canRecordPayments, onRecordPayment
+}) => {
+  const [statementVenueId, setStatementVenueId] = useState<string | null>(null);
+  const [period, setPeriod] = useState({ from: '', to: '' });
+
+  const aging = useMemo(() => buildAgingSummary(venueReports, payments), [venueReports, payments]);
+
+  const totals = useMemo(() => aging.reduce(
+    (sum, row) => ({
+      current: sum.current + row.current,
+      days31to60: sum.days31to60 + row.days31to60,
+      over60: sum.over60 + row.over60,
+      total: sum.total + row.total
+    }),
+    { current: 0, days31to60: 0, over60: 0, total: 0 }
+  ), [aging]);
+
+  const statementVenue = aging.find(row => row.venue_id === statementVenueId) || null;
+
+  const statementLines = useMemo(() => {
+    if (!statementVenueId) return [];
+    return buildVenueStatement(
+      venueReports.filter(report => report.venue_id === statementVenueId),
+      payments.filter(payment => payment.venue_id === statementVenueId),
+      { from: period.from || undefined, to: period.to || undefined }
+    );
+  }, [statementVenueId, venueReports, payments, period]);
+
+  const printStatement = () => {
+    if (!statementVenue) return;
+    openStatementWindow(
+      statementHTML(statementVenue.venue_name, statementLines, period, companyLogo),
+      `commission-statement-${statementVenue.venue_name}-${period.from || 'all'}-${period.to || 'today'}.html`
+    );
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+        <Card>
+          <CardContent className="p-4">
+            <div className="text-2xl font-bold text-green-600">{money(totals.current)}</div>
+            <div className="text-sm text-gray-600">0–30 days</div>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardContent className="p-4">
+            <div className="text-2xl font-bold text-orange-600">{money(totals.days31to60)}</div>
+            <div className="text-sm text-gray-600">31–60 days</div>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardContent className="p-4">
+            <div className="text-2xl font-bold text-red-600">{money(totals.over60)}</div>
+            <div className="text-sm text-gray-600">60+ days</div>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardContent className="p-4">
+            <div className="text-2xl font-bold text-purple-600">{money(totals.total)}</div>
+            <div className="text-sm text-gray-600">Total Outstanding</div>
+          </CardContent>
+        </Card>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Clock className="h-5 w-5" />
+            Outstanding Commission by Venue
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          {aging.length === 0 ? (
+            <p className="text-center text-gray-500 py-6">No venue reports yet</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Venue</TableHead>
+                  <TableHead className="text-right">0–30</TableHead>
+                  <TableHead className="text-right">31–60</TableHead>
+                  <TableHead className="text-right">60+</TableHead>
+                  <TableHead className="text-right">Total</TableHead>
+                  <TableHead />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {aging.map(row => (
+                  <TableRow key={row.venue_id} className={row.venue_id === statementVenueId ? 'bg-blue-50' : ''}>
+                    <TableCell>
+                      <div className="font-medium">{row.venue_name}</div>
+                      {row.credit > 0 && (
+                        <Badge variant="outline" className="text-xs text-green-700 border-green-300">
+                          {money(row.credit)} credit
+                        </Badge>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-right">{row.current ? money(row.current) : '—'}</TableCell>
+                    <TableCell className="text-right text-orange-600">{row.days31to60 ? money(row.days31to60) : '—'}</TableCell>
+                    <TableCell className="text-right text-red-600">{row.over60 ? money(row.over60) : '—'}</TableCell>
+                    <TableCell className="text-right font-semibold">{money(row.total)}</TableCell>
+                    <TableCell className="text-right">
+                      <div className="flex justify-end gap-2">
+                        <Button size="sm" variant="outline" onClick={() => setStatementVenueId(row.venue_id)}>
+                          <FileText className="h-4 w-4 mr-1" />
+                          Statement
+                        </Button>
+                        {canRecordPayments && (
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            onClick={() => onRecordPayment({ venueId: row.venue_id, venueName: row.venue_name, outstanding: row.total })}
+                            title="Record a payment on account"
+                          >
+                            <Plus className="h-4 w-4" />
+                          </Button>
+                        )}
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      {statementVenue && (
+        <Card>
+          <CardHeader>
+            <div className="flex flex-col md:flex-row md:items-end justify-between gap-4">
+              <CardTitle className="flex items-center gap-2">
+                <FileText className="h-5 w-5" />
+                Statement — {statementVenue.venue_name}
+              </CardTitle>
+              <div className="flex items-end gap-2">
+                <div>
+                  <Label htmlFor="statement-from" className="text-xs">From</Label>
+                  <Input
+                    id="statement-from"
+                    type="date"
+                    value={period.from}
+                    onChange={(e) => setPeriod({ ...period, from: e.target.value })}
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="statement-to" className="text-xs">To</Label>
+                  <Input
+                    id="statement-to"
+                    type="date"
+                    value={period.to}
+                    onChange={(e) => setPeriod({ ...period, to: e.target.value })}
+                  />
+                </div>
+                <Button variant="outline" onClick={printStatement}>
+                  <Printer className="h-4 w-4 mr-1" />
+                  Print
+                </Button>
+              </div>
+            </div>
+          </CardHeader>
+          <CardContent>
+            {statementLines.length === 0 ? (
+              <p className="text-center text-gray-500 py-6">No activity in this period</p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Date</TableHead>
+                    <TableHead>Description</TableHead>
+                    <TableHead className="text-right">Commission</TableHead>
+                    <TableHead className="text-right">Paid</TableHead>
+                    <TableHead className="text-right">Balance</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {statementLines.map((line, index) => (
+                    <TableRow key={`${line.date}-${index}`} className={line.type === 'opening' ? 'bg-gray-50 italic' : ''}>
+                      <TableCell>{new Date(line.date).toLocaleDateString()}</TableCell>
+                      <TableCell>{line.description}</TableCell>
+                      <TableCell className="text-right text-blue-600">{line.charge ? money(line.charge) : ''}</TableCell>
+                      <TableCell className="text-right text-green-600">{line.payment ? money(line.payment) : ''}</TableCell>
+                      <TableCell className={`text-right font-semibold ${line.balance < 0 ? 'text-green-700' : ''}`}>
+                        {money(line.balance)}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+};
+
+export default CommissionLedger;
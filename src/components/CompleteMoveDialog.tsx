@@ -0,0 +1,162 @@
+// src/components/CompleteMoveDialog.tsx
+// Finishes a relocation: closing reading and cash at the old venue, opening reading at the new one
+import React, { useEffect, useState } from 'react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { ArrowRight, CheckCircle } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { useAppContext } from '@/contexts/AppContext';
+import { repositories } from '@/lib/repositories';
+
+interface CompletableMove {
+  id: string;
+  machine_id?: string | null;
+  machine_name?: string;
+  from_venue_name?: string;
+  to_venue_name?: string;
+}
+
+interface CompleteMoveDialogProps {
+  move: CompletableMove | null;
+  onClose: () => void;
+  onCompleted: () => void;
+}
+
+const CompleteMoveDialog: React.FC<CompleteMoveDialogProps> = ({ move, onClose, onCompleted }) => {
+  const { getLatestReport, refreshData } = useAppContext();
+  const { toast } = useToast();
+  const [closing, setClosing] = useState('');
+  const [opening, setOpening] = useState('');
+  const [openingEdited, setOpeningEdited] = useState(false);
+  const [money, setMoney] = useState('');
+  const [notes, setNotes] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  const lastReading = move?.machine_id ? getLatestReport(move.machine_id)?.current_toy_count ?? null : null;
+
+  useEffect(() => {
+    setClosing('');
+    setOpening('');
+    setOpeningEdited(false);
+    setMoney('');
+    setNotes('');
+  }, [move?.id]);
+
+  // The meter normally reads the same after the move
+  const handleClosingChange = (value: string) => {
+    setClosing(value);
+    if (!openingEdited) setOpening(value);
+  };
+
+  const handleComplete = async () => {
+    if (!move) return;
+    const closingToyCount = parseInt(closing);
+    const openingToyCount = parseInt(opening);
+    const moneyCollected = money.trim() ? parseFloat(money) : 0;
+    if (isNaN(closingToyCount) || isNaN(openingToyCount) || closingToyCount < 0 || openingToyCount < 0) {
+      toast({ title: 'Validation Error', description: 'Enter the toy counter reading before and after the move', variant: 'destructive' });
+      return;
+    }
+    if (isNaN(moneyCollected) || moneyCollected < 0) {
+      toast({ title: 'Validation Error', description: 'Enter the cash collected, or leave it blank', variant: 'destructive' });
+      return;
+    }
+    if (lastReading !== null && closingToyCount < lastReading) {
+      toast({
+        title: 'Validation Error',
+        description: `Closing reading is below the last reading of ${lastReading}. Record the counter reset on a machine report first.`,
+        variant: 'destructive'
+      });
+      return;
+    }
+
+    setSaving(true);
+    try {
+      await repositories.machineMoves.complete(move.id, {
+        closingToyCount,
+        moneyCollected,
+        openingToyCount,
+        notes: notes.trim() || undefined
+      });
+      toast({
+        title: 'Move Completed',
+        description: `${move.machine_name || 'Machine'} is now at ${move.to_venue_name || 'its new venue'}`
+      });
+      await refreshData();
+      onCompleted();
+    } catch (error) {
+      console.error('❌ Error completing machine move:', error);
+      toast({ title: 'Error', description: (error as Error).message || 'Failed to complete move', variant: 'destructive' });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={!!move} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Complete Move</DialogTitle>
+        </DialogHeader>
+        {move && (
+          <div className="space-y-4">
+            <div className="flex items-center gap-2 text-sm flex-wrap">
+              <strong>{move.machine_name || 'Unknown machine'}</strong>
+              <span className="text-gray-500">{move.from_venue_name || 'storage'}</span>
+              <ArrowRight className="h-3.5 w-3.5 text-gray-400" />
+              <span className="font-medium text-blue-700">{move.to_venue_name || '—'}</span>
+            </div>
+
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <Label>Closing Toy Count *</Label>
+                <Input type="number" min="0" value={closing} onChange={(e) => handleClosingChange(e.target.value)} />
+                {lastReading !== null && <p className="text-xs text-gray-500 mt-1">Last reading: {lastReading}</p>}
+              </div>
+              <div>
+                <Label>Cash Collected ($)</Label>
+                <Input type="number" min="0" step="0.01" value={money} onChange={(e) => setMoney(e.target.value)} placeholder="0.00" />
+              </div>
+            </div>
+            <p className="text-xs text-gray-500">
+              Saved as a machine report at {move.from_venue_name || 'the old venue'}, so takings up to the move count towards its commission.
+            </p>
+
+            <div>
+              <Label>Opening Toy Count *</Label>
+              <Input
+                type="number"
+                min="0"
+                value={opening}
+                onChange={(e) => { setOpening(e.target.value); setOpeningEdited(true); }}
+              />
+              {opening !== '' && closing !== '' && opening !== closing && (
+                <p className="text-xs text-orange-600 mt-1">
+                  Differs from the closing reading; it's recorded as a meter reset at {move.to_venue_name || 'the new venue'}.
+                </p>
+              )}
+            </div>
+
+            <div>
+              <Label>Notes</Label>
+              <Textarea value={notes} onChange={(e) => setNotes(e.target.value)} rows={2} placeholder="Anything that happened during the move" />
+            </div>
+
+            <div className="flex gap-2 pt-2">
+              <Button className="bg-green-600 hover:bg-green-700" onClick={handleComplete} disabled={saving}>
+                <CheckCircle className="h-4 w-4 mr-1" />
+                {saving ? 'Completing...' : 'Complete Move'}
+              </Button>
+              <Button variant="outline" onClick={onClose}>Cancel</Button>
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default CompleteMoveDialog;
@@ -0,0 +1,148 @@
+// src/components/CounterReviewQueue.tsx
+// Machine reports whose toy counter jumped further than a machine can dispense. They were
+// saved with no toys; approving one saves the toys (edited if need be), rejecting keeps zero.
+import React, { useCallback, useEffect, useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Check, Gauge, X } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { useAppContext } from '@/contexts/AppContext';
+import { repositories, type MachineReportRow } from '@/lib/repositories';
+import { currentPrizeCost } from '@/lib/payoutCalculations';
+import { getCounterEventLabel, resolveToyCount } from '@/lib/toyCounter';
+
+const impliedToys = (report: MachineReportRow) =>
+  resolveToyCount(
+    {
+      previous: report.previous_toy_count || 0,
+      current: report.current_toy_count || 0,
+      event: report.counter_event,
+      finalReading: report.counter_final_reading
+    },
+    Infinity
+  ).toys;
+
+const CounterReviewQueue: React.FC = () => {
+  const { machines = [], refreshData } = useAppContext();
+  const { toast } = useToast();
+  const [reports, setReports] = useState<MachineReportRow[]>([]);
+  const [toys, setToys] = useState<Record<string, string>>({});
+  const [savingId, setSavingId] = useState<string | null>(null);
+
+  const loadReports = useCallback(async () => {
+    try {
+      setReports(await repositories.machineReports.listAwaitingCounterReview());
+    } catch (error) {
+      console.error('❌ Error loading counter reviews:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadReports();
+  }, [loadReports]);
+
+  const handleReview = async (report: MachineReportRow, approved: boolean) => {
+    const toysDispensed = parseInt(toys[report.id] ?? String(impliedToys(report)));
+    if (approved && (isNaN(toysDispensed) || toysDispensed < 0)) {
+      toast({ title: 'Validation Error', description: 'Enter the number of toys to count', variant: 'destructive' });
+      return;
+    }
+
+    setSavingId(report.id);
+    try {
+      // Valued at the unit cost stamped on the report when it was saved
+      const prizeCost = report.prize_unit_cost ?? currentPrizeCost(machines)(report.machine_id) ?? 0;
+      await repositories.machineReports.reviewCounterJump(report.id, {
+        approved,
+        toysDispensed,
+        prizeValue: Math.round(toysDispensed * prizeCost * 100) / 100
+      });
+      toast({
+        title: approved ? 'Reading Approved' : 'Reading Rejected',
+        description: approved ? `${toysDispensed} toys counted for this report` : 'No toys will be counted for this report'
+      });
+      setReports(prev => prev.filter(item => item.id !== report.id));
+      await refreshData();
+    } catch (error) {
+      console.error('❌ Error reviewing counter reading:', error);
+      toast({ title: 'Error', description: (error as Error).message || 'Failed to save review', variant: 'destructive' });
+    } finally {
+      setSavingId(null);
+    }
+  };
+
+  if (reports.length === 0) return null;
+
+  return (
+    <Card className="border-amber-200">
+      <CardHeader className="bg-amber-50">
+        <CardTitle className="flex items-center gap-2 text-amber-900">
+          <Gauge className="h-5 w-5" />
+          Toy Counter Readings to Review
+          <Badge variant="outline" className="border-amber-300 text-amber-800">{reports.length}</Badge>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="p-4">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Machine</TableHead>
+              <TableHead>Date</TableHead>
+              <TableHead>Readings</TableHead>
+              <TableHead>Event</TableHead>
+              <TableHead>Reason</TableHead>
+              <TableHead className="w-28">Toys</TableHead>
+              <TableHead />
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {reports.map(report => (
+              <TableRow key={report.id}>
+                <TableCell className="font-medium">{report.machines?.name || report.machine_name || 'Unknown machine'}</TableCell>
+                <TableCell>{new Date(report.report_date || report.created_at).toLocaleDateString()}</TableCell>
+                <TableCell className="text-sm">
+                  {report.previous_toy_count} → {report.current_toy_count}
+                  {report.counter_final_reading !== null && report.counter_final_reading !== undefined && (
+                    <span className="block text-xs text-gray-500">old meter ended at {report.counter_final_reading}</span>
+                  )}
+                </TableCell>
+                <TableCell>{getCounterEventLabel(report.counter_event)}</TableCell>
+                <TableCell className="text-sm text-gray-600">{report.counter_review_reason}</TableCell>
+                <TableCell>
+                  <Input
+                    type="number"
+                    min="0"
+                    value={toys[report.id] ?? String(impliedToys(report))}
+                    onChange={(e) => setToys(prev => ({ ...prev, [report.id]: e.target.value }))}
+                    disabled={savingId === report.id}
+                  />
+                </TableCell>
+                <TableCell>
+                  <div className="flex justify-end gap-2">
+                    <Button size="sm" onClick={() => handleReview(report, true)} disabled={savingId === report.id}>
+                      <Check className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      className="text-red-600 hover:text-red-700"
+                      onClick={() => handleReview(report, false)}
+                      disabled={savingId === report.id}
+                    >
+                      <X className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default CounterReviewQueue;
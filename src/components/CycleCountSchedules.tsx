@@ -0,0 +1,160 @@
+// src/components/CycleCountSchedules.tsx
+// Partial counts that come round on a timetable, e.g. one prize category every fortnight
+import React, { useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { CalendarClock, Play, Plus, Trash2 } from 'lucide-react';
+import { format } from 'date-fns';
+import { useToast } from '@/hooks/use-toast';
+import { repositories, type CycleCountScheduleRow } from '@/lib/repositories';
+import { SCOPE_OPTIONS, describeScope, isScheduleDue, scopeFromKey } from '@/lib/stocktakes';
+
+interface CycleCountSchedulesProps {
+  schedules: CycleCountScheduleRow[];
+  categories: string[];
+  runningScheduleIds: string[];
+  currentUserId?: string;
+  onStart: (schedule: CycleCountScheduleRow) => void;
+  onChanged: () => void;
+}
+
+const EMPTY_SCHEDULE = { name: '', scope: 'prize', interval_days: '30', next_due_date: format(new Date(), 'yyyy-MM-dd') };
+
+const CycleCountSchedules: React.FC<CycleCountSchedulesProps> = ({
+  schedules,
+  categories,
+  runningScheduleIds,
+  currentUserId,
+  onStart,
+  onChanged
+}) => {
+  const { toast } = useToast();
+  const [form, setForm] = useState(EMPTY_SCHEDULE);
+  const [adding, setAdding] = useState(false);
+
+  const handleAdd = async () => {
+    const intervalDays = parseInt(form.interval_days);
+    if (!form.name.trim() || !(intervalDays > 0)) {
+      toast({ title: 'Validation Error', description: 'Give the count a name and how often it repeats', variant: 'destructive' });
+      return;
+    }
+    try {
+      await repositories.cycleCountSchedules.create({
+        name: form.name.trim(),
+        ...scopeFromKey(form.scope),
+        interval_days: intervalDays,
+        next_due_date: form.next_due_date,
+        created_by: currentUserId || null
+      });
+      setForm(EMPTY_SCHEDULE);
+      setAdding(false);
+      onChanged();
+    } catch (error) {
+      console.error('❌ Error saving cycle count:', error);
+      toast({ title: 'Error', description: (error as Error).message || 'Failed to save cycle count', variant: 'destructive' });
+    }
+  };
+
+  const handleRemove = async (schedule: CycleCountScheduleRow) => {
+    if (!confirm(`Stop the ${schedule.name} cycle count?`)) return;
+    try {
+      await repositories.cycleCountSchedules.update(schedule.id, { is_active: false });
+      onChanged();
+    } catch (error) {
+      console.error('❌ Error stopping cycle count:', error);
+      toast({ title: 'Error', description: (error as Error).message || 'Failed to stop cycle count', variant: 'destructive' });
+    }
+  };
+
+  const active = schedules.filter(schedule => schedule.is_active);
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between">
+        <CardTitle className="text-sm flex items-center gap-2">
+          <CalendarClock className="h-4 w-4" />
+          Cycle Counts
+        </CardTitle>
+        <Button size="sm" variant="outline" onClick={() => setAdding(!adding)}>
+          <Plus className="h-4 w-4" />
+        </Button>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {adding && (
+          <div className="space-y-2 p-3 border rounded">
+            <Input
+              placeholder="e.g. Plush monthly"
+              value={form.name}
+              onChange={(e) => setForm(prev => ({ ...prev, name: e.target.value }))}
+            />
+            <Select value={form.scope} onValueChange={(scope) => setForm(prev => ({ ...prev, scope }))}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {SCOPE_OPTIONS.map(option => <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>)}
+                {categories.map(category => (
+                  <SelectItem key={category} value={`category:${category}`}>{category} prizes</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <div className="grid grid-cols-2 gap-2">
+              <Input
+                type="number"
+                min="1"
+                title="Every how many days"
+                value={form.interval_days}
+                onChange={(e) => setForm(prev => ({ ...prev, interval_days: e.target.value }))}
+              />
+              <Input
+                type="date"
+                title="First due"
+                value={form.next_due_date}
+                onChange={(e) => setForm(prev => ({ ...prev, next_due_date: e.target.value }))}
+              />
+            </div>
+            <Button size="sm" className="w-full" onClick={handleAdd}>Add Cycle Count</Button>
+          </div>
+        )}
+
+        {active.length === 0 ? (
+          <p className="text-sm text-gray-500">No cycle counts scheduled</p>
+        ) : (
+          <div className="divide-y border rounded">
+            {active.map(schedule => {
+              const running = runningScheduleIds.includes(schedule.id);
+              const due = isScheduleDue(schedule);
+              return (
+                <div key={schedule.id} className="px-3 py-2 text-sm flex items-center justify-between gap-2">
+                  <div className="min-w-0">
+                    <div className="font-medium flex items-center gap-2">
+                      {schedule.name}
+                      {running ? <Badge variant="outline">Counting</Badge> : due && <Badge className="bg-orange-100 text-orange-800">Due</Badge>}
+                    </div>
+                    <div className="text-xs text-gray-500">
+                      {describeScope(schedule.item_type, schedule.category)} · every {schedule.interval_days} days · next{' '}
+                      {new Date(`${schedule.next_due_date}T00:00:00`).toLocaleDateString()}
+                    </div>
+                  </div>
+                  <div className="flex gap-1">
+                    <Button size="sm" variant={due ? 'default' : 'outline'} disabled={running} onClick={() => onStart(schedule)} title="Start this count now">
+                      <Play className="h-3 w-3" />
+                    </Button>
+                    <Button size="sm" variant="ghost" className="text-red-600" onClick={() => handleRemove(schedule)}>
+                      <Trash2 className="h-3 w-3" />
+                    </Button>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default CycleCountSchedules;
@@ -5,10 +5,15 @@ import { Button } from '@/components/ui/button';
 import {
   Building2, Cog, Gift, DollarSign, AlertTriangle,
   ChevronLeft, ChevronRight, Trophy, TrendingUp, Package,
-  Clock, Wrench, MapPin
+  Clock, Wrench, MapPin, Truck
 } from 'lucide-react';
 import { useAppContext } from '@/contexts/AppContext';
 import { supabase } from '@/lib/supabase';
+import { usePayoutTargets } from '@/hooks/usePayoutTargets';
+import { assessPayout, type PayoutSeverity } from '@/lib/payoutTargets';
+import { summariseByMachine } from '@/lib/payoutCalculations';
+import { repositories } from '@/lib/repositories';
+import { hireRevenue, isEquipmentOverdue } from '@/lib/equipmentHire';
 
 interface DashboardProps {
   onNavigate?: (view: string) => void;
@@ -74,18 +79,23 @@ const STATUS_COLOR: Record<string, string> = {
 };
 
 const Dashboard: React.FC<DashboardProps> = ({ onNavigate, userProfile }) => {
-  const { venues, machines } = useAppContext();
+  const { venues, machines, equipment } = useAppContext();
+  const { bandFor } = usePayoutTargets();
 
   const [pendingJobs, setPendingJobs] = useState<Job[]>([]);
   const [topMachines, setTopMachines] = useState<TopMachine[]>([]);
   const [topVenues, setTopVenues] = useState<TopVenue[]>([]);
   const [topPrizes, setTopPrizes] = useState<TopPrize[]>([]);
+  const [payoutAlerts, setPayoutAlerts] = useState<Array<{ machine_id: string; severity: PayoutSeverity }>>([]);
+  const [hireRevenue30d, setHireRevenue30d] = useState(0);
   const [jobIndex, setJobIndex] = useState(0);
   const [loading, setLoading] = useState(true);
 
   // Quick stats
   const activeMachines = machines.filter(m => m.status === 'active').length;
   const maintenanceMachines = machines.filter(m => m.status === 'maintenance').length;
+  const equipmentOnHire = equipment.filter(e => e.status === 'hired').length;
+  const equipmentOverdue = equipment.filter(e => isEquipmentOverdue(e)).length;
 
   const fetchData = useCallback(async () => {
     setLoading(true);
@@ -140,23 +150,18 @@ const Dashboard: React.FC<DashboardProps> = ({ onNavigate, userProfile }) => {
 
       const { data: tokenReports } = await supabase
         .from('machine_reports')
-        .select('machine_id, money_collected, tokens_in_game')
+        .select('machine_id, money_collected, tokens_in_game, prize_value')
         .gte('report_date', cutoff);
 
       if (machineRows) {
         const venueLookup = Object.fromEntries(venues.map(v => [v.id, v.name]));
 
-        const adjustedEarningsMap: Record<string, number> = {};
-        (tokenReports || []).forEach(r => {
-          const tokenVal = (r.tokens_in_game || 0) * TOKEN_VALUE;
-          const cash = r.money_collected || 0;
-          adjustedEarningsMap[r.machine_id] = (adjustedEarningsMap[r.machine_id] || 0) + cash + tokenVal;
-        });
+        const earningsByMachine = summariseByMachine(tokenReports || [], { tokenValue: TOKEN_VALUE });
 
         const sorted = machineRows
           .map(m => ({
             ...m,
-            total_earnings: adjustedEarningsMap[m.id] || 0,
+            total_earnings: earningsByMachine.get(m.id)?.earnings || 0,
             venue_name: m.venue_id ? venueLookup[m.venue_id] : undefined,
           }))
           .filter(m => m.total_earnings > 0)
@@ -164,6 +169,19 @@ const Dashboard: React.FC<DashboardProps> = ({ onNavigate, userProfile }) => {
           .slice(0, 10);
 
         setTopMachines(sorted);
+
+        // --- Machines paying out outside their target band over the last 30 days ---
+        // Cash only, as on the payout screens
+        const payoutByMachine = summariseByMachine(tokenReports || []);
+
+        setPayoutAlerts(
+          machineRows.flatMap(m => {
+            const payout = payoutByMachine.get(m.id)?.payoutPercent;
+            if (payout === null || payout === undefined) return [];
+            const { severity } = assessPayout(payout, bandFor(m));
+            return severity ? [{ machine_id: m.id, severity }] : [];
+          })
+        );
       }
 
       // --- Top 10 Venues — last 30 days revenue from machine_reports ---
@@ -247,12 +265,16 @@ const Dashboard: React.FC<DashboardProps> = ({ onNavigate, userProfile }) => {
 
         setTopPrizes(ranked);
       }
+
+      // --- Equipment hire revenue invoiced in the last 30 days ---
+      const hireInvoices = await repositories.hireInvoices.listIssuedSince(cutoff);
+      setHireRevenue30d(hireRevenue(hireInvoices));
     } catch (err) {
       console.error('Dashboard fetch error:', err);
     } finally {
       setLoading(false);
     }
-  }, [venues]);
+  }, [venues, bandFor]);
 
   useEffect(() => {
     fetchData();
@@ -294,7 +316,7 @@ const Dashboard: React.FC<DashboardProps> = ({ onNavigate, userProfile }) => {
       </div>
 
       {/* Quick Stats Row */}
-      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+      <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
         <Card
           className="cursor-pointer hover:shadow-md transition-shadow border-l-4 border-l-blue-500"
           onClick={() => navigate('venues')}
@@ -352,7 +374,7 @@ const Dashboard: React.FC<DashboardProps> = ({ onNavigate, userProfile }) => {
 
         <Card
           className={`cursor-pointer hover:shadow-md transition-shadow border-l-4 ${
-            maintenanceMachines > 0 ? 'border-l-red-400' : 'border-l-gray-300'
+            maintenanceMachines > 0 || payoutAlerts.length > 0 ? 'border-l-red-400' : 'border-l-gray-300'
           }`}
           onClick={() => navigate('machines')}
         >
@@ -361,14 +383,41 @@ const Dashboard: React.FC<DashboardProps> = ({ onNavigate, userProfile }) => {
               <div>
                 <p className="text-xs text-gray-500 font-medium uppercase tracking-wide">Alerts</p>
                 <p className="text-2xl font-bold text-gray-900">
-                  {maintenanceMachines + pendingJobs.filter(j => j.priority === 'urgent').length}
+                  {maintenanceMachines + pendingJobs.filter(j => j.priority === 'urgent').length + payoutAlerts.length}
                 </p>
-                <p className="text-xs text-gray-400">machines + urgent jobs</p>
+                <p className="text-xs text-gray-400">machines + urgent jobs + payouts</p>
+                {payoutAlerts.length > 0 && (
+                  <p className="text-xs text-red-500">
+                    {payoutAlerts.length} payout{payoutAlerts.length === 1 ? '' : 's'} off target
+                    {payoutAlerts.some(a => a.severity === 'high') && ` (${payoutAlerts.filter(a => a.severity === 'high').length} high)`}
+                  </p>
+                )}
               </div>
               <AlertTriangle className="h-8 w-8 text-red-400 opacity-60" />
             </div>
           </CardContent>
         </Card>
+
+        <Card
+          className="cursor-pointer hover:shadow-md transition-shadow border-l-4 border-l-purple-500"
+          onClick={() => navigate('equipment-hire')}
+        >
+          <CardContent className="pt-4 pb-4">
+            <div className="flex items-center justify-between">
+              <div>
+                <p className="text-xs text-gray-500 font-medium uppercase tracking-wide">Hire Revenue</p>
+                <p className="text-2xl font-bold text-gray-900">${hireRevenue30d.toFixed(0)}</p>
+                <p className="text-xs text-gray-400">
+                  last 30 days{equipmentOnHire > 0 ? ` · ${equipmentOnHire} on hire` : ''}
+                </p>
+                {equipmentOverdue > 0 && (
+                  <p className="text-xs text-red-500">{equipmentOverdue} overdue</p>
+                )}
+              </div>
+              <Truck className="h-8 w-8 text-purple-400 opacity-60" />
+            </div>
+          </CardContent>
+        </Card>
       </div>
 
       {/* Outstanding Jobs Rotator */}
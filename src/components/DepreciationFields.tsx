@@ -0,0 +1,86 @@
+// src/components/DepreciationFields.tsx
+// Depreciation method, useful life and residual value, with the book value they give today
+import React from 'react';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import type { DepreciationMethod } from '@/lib/repositories';
+import { DEPRECIATION_METHODS, accumulatedDepreciation, bookValue, isDepreciating, type DepreciableAsset } from '@/lib/depreciation';
+
+export type DepreciationField = 'depreciation_method' | 'useful_life_years' | 'residual_value';
+
+interface DepreciationFieldsProps {
+  // The form's values as typed, cost and purchase date included
+  asset: Omit<DepreciableAsset, 'depreciation_method'> & { depreciation_method: DepreciationMethod | '' };
+  onChange: (field: DepreciationField, value: string) => void;
+}
+
+const NOT_DEPRECIATED = 'none';
+
+const DepreciationFields: React.FC<DepreciationFieldsProps> = ({ asset, onChange }) => {
+  const depreciable = { ...asset, depreciation_method: asset.depreciation_method || null };
+  const value = isDepreciating(depreciable) ? bookValue(depreciable) : null;
+  const accumulated = isDepreciating(depreciable) ? accumulatedDepreciation(depreciable) : null;
+
+  return (
+    <div className="space-y-3">
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <div>
+          <Label>Depreciation Method</Label>
+          <Select
+            value={asset.depreciation_method || NOT_DEPRECIATED}
+            onValueChange={(method) => onChange('depreciation_method', method === NOT_DEPRECIATED ? '' : method)}
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={NOT_DEPRECIATED}>Not depreciated</SelectItem>
+              {DEPRECIATION_METHODS.map(method => (
+                <SelectItem key={method.value} value={method.value}>{method.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div>
+          <Label htmlFor="useful_life_years">Useful Life (years)</Label>
+          <Input
+            id="useful_life_years"
+            type="number"
+            step="0.5"
+            min="0"
+            value={asset.useful_life_years ?? ''}
+            onChange={(e) => onChange('useful_life_years', e.target.value)}
+            disabled={!asset.depreciation_method}
+          />
+        </div>
+        <div>
+          <Label htmlFor="residual_value">Residual Value ($)</Label>
+          <Input
+            id="residual_value"
+            type="number"
+            step="0.01"
+            min="0"
+            value={asset.residual_value ?? ''}
+            onChange={(e) => onChange('residual_value', e.target.value)}
+            placeholder="0.00"
+            disabled={!asset.depreciation_method}
+          />
+        </div>
+      </div>
+      {asset.depreciation_method && (
+        value !== null ? (
+          <p className="text-sm text-gray-600">
+            Book value today <span className="font-semibold">${value.toFixed(2)}</span>
+            {accumulated !== null && ` · $${accumulated.toFixed(2)} depreciated`}
+            {asset.written_down_on && ` · revalued on ${asset.written_down_on}`}
+          </p>
+        ) : (
+          <p className="text-sm text-amber-700">Needs a purchase cost, purchase date and useful life to work out the book value</p>
+        )
+      )}
+    </div>
+  );
+};
+
+export default DepreciationFields;
@@ -14,9 +14,12 @@ import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover
 import { useAppContext } from '@/contexts/AppContext';
 import { useToast } from '@/hooks/use-toast';
 import ImageUpload from '@/components/ImageUpload';
+import DepreciationFields from '@/components/DepreciationFields';
 import { supabase } from '@/lib/supabase';
 import { format, parseISO } from 'date-fns';
 import { cn } from '@/lib/utils';
+import type { DepreciationMethod } from '@/lib/repositories';
+import { bookValue, depreciationProblem } from '@/lib/depreciation';
 
 interface Equipment {
   id: string;
@@ -30,6 +33,11 @@ interface Equipment {
   purchase_date?: string;
   purchase_cost?: number;
   current_value?: number;
+  depreciation_method?: DepreciationMethod;
+  useful_life_years?: number;
+  residual_value?: number;
+  written_down_value?: number;
+  written_down_on?: string;
   condition: string;
   status: string;
   venue_id?: string;
@@ -67,6 +75,9 @@ export const EquipmentEditDialog: React.FC<EquipmentEditDialogProps> = ({
     purchase_date: '',
     purchase_cost: '',
     current_value: '',
+    depreciation_method: '' as DepreciationMethod | '',
+    useful_life_years: '',
+    residual_value: '',
     condition: 'good',
     status: 'available',
     venue_id: '',
@@ -119,6 +130,9 @@ export const EquipmentEditDialog: React.FC<EquipmentEditDialogProps> = ({
           purchase_date: equipment.purchase_date || '',
           purchase_cost: equipment.purchase_cost?.toString() || '',
           current_value: equipment.current_value?.toString() || '',
+          depreciation_method: equipment.depreciation_method || '',
+          useful_life_years: equipment.useful_life_years?.toString() || '',
+          residual_value: equipment.residual_value?.toString() || '',
           condition: equipment.condition || 'good',
           status: equipment.status || 'available',
           venue_id: equipment.venue_id || '',
@@ -141,6 +155,9 @@ export const EquipmentEditDialog: React.FC<EquipmentEditDialogProps> = ({
           purchase_date: '',
           purchase_cost: '',
           current_value: '',
+          depreciation_method: '',
+          useful_life_years: '',
+          residual_value: '',
           condition: 'good',
           status: 'available',
           venue_id: '',
@@ -177,6 +194,14 @@ export const EquipmentEditDialog: React.FC<EquipmentEditDialogProps> = ({
     }
   };
 
+  // The form as typed, with the write-down a return inspection may have set
+  const depreciable = {
+    ...formData,
+    depreciation_method: formData.depreciation_method || null,
+    written_down_value: equipment?.written_down_value,
+    written_down_on: equipment?.written_down_on
+  };
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
 
@@ -185,8 +210,15 @@ export const EquipmentEditDialog: React.FC<EquipmentEditDialogProps> = ({
       return;
     }
 
+    const financialProblem = depreciationProblem(depreciable);
+    if (financialProblem) {
+      toast({ title: 'Validation Error', description: financialProblem, variant: 'destructive' });
+      return;
+    }
+
     setIsSubmitting(true);
     try {
+      const depreciating = !!formData.depreciation_method;
       const equipmentData = {
         name: formData.name.trim(),
         description: formData.description.trim() || null,
@@ -197,7 +229,11 @@ export const EquipmentEditDialog: React.FC<EquipmentEditDialogProps> = ({
         model: formData.model.trim() || null,
         purchase_date: formData.purchase_date || null,
         purchase_cost: formData.purchase_cost ? parseFloat(formData.purchase_cost) : null,
-        current_value: formData.current_value ? parseFloat(formData.current_value) : null,
+        // Saved as worked out today when it's depreciated, so anything reading it directly isn't stale
+        current_value: depreciating ? bookValue(depreciable) : formData.current_value ? parseFloat(formData.current_value) : null,
+        depreciation_method: formData.depreciation_method || null,
+        useful_life_years: depreciating && formData.useful_life_years ? parseFloat(formData.useful_life_years) : null,
+        residual_value: depreciating && formData.residual_value ? parseFloat(formData.residual_value) : null,
         condition: formData.condition,
         status: formData.status,
         venue_id: formData.venue_id || null,
@@ -269,6 +305,8 @@ export const EquipmentEditDialog: React.FC<EquipmentEditDialogProps> = ({
     switch (action.toLowerCase()) {
       case 'hired': return '📤';
       case 'returned': return '📥';
+      case 'inspected': return '🔍';
+      case 'damaged': return '⚠️';
       case 'transferred': return '🔄';
       case 'maintenance': return '🔧';
       case 'created': return '✨';
@@ -442,13 +480,20 @@ export const EquipmentEditDialog: React.FC<EquipmentEditDialogProps> = ({
                   type="number"
                   step="0.01"
                   min="0"
-                  value={formData.current_value}
+                  value={formData.depreciation_method ? bookValue(depreciable)?.toFixed(2) ?? '' : formData.current_value}
                   onChange={(e) => setFormData({ ...formData, current_value: e.target.value })}
                   placeholder="0.00"
+                  readOnly={!!formData.depreciation_method}
+                  className={formData.depreciation_method ? 'bg-gray-50' : ''}
                 />
               </div>
             </div>
 
+            <DepreciationFields
+              asset={{ ...formData, written_down_value: equipment?.written_down_value, written_down_on: equipment?.written_down_on }}
+              onChange={(field, value) => setFormData(prev => ({ ...prev, [field]: value }))}
+            />
+
             <div>
               <Label htmlFor="condition">Condition</Label>
               <Select value={formData.condition} onValueChange={(value) => setFormData({ ...formData, condition: value })}>
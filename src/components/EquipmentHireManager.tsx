@@ -3,14 +3,20 @@ import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Input } from '@/components/ui/input';
 import { Badge } from '@/components/ui/badge';
-import { Plus, Search, Edit, Trash2, Eye, Package, MapPin, Calendar, AlertTriangle } from 'lucide-react';
+import { Plus, Search, Edit, Trash2, Eye, Package, MapPin, Calendar, AlertTriangle, Send } from 'lucide-react';
 import { useAppContext } from '@/contexts/AppContext';
 import { EquipmentEditDialog } from '@/components/EquipmentEditDialog';
 import EquipmentProfile from '@/components/EquipmentProfile';
 import ConfirmDeleteDialog from '@/components/ConfirmDeleteDialog';
+import HireContractDialog from '@/components/HireContractDialog';
+import HireContractsPanel from '@/components/HireContractsPanel';
+import OverdueHireWatchlist from '@/components/OverdueHireWatchlist';
 import { useToast } from '@/hooks/use-toast';
 import { createImageWithFallback } from '@/lib/imageUtils';
 import { supabase } from '@/lib/supabase';
+import { repositories, type DepreciationMethod, type HireContractRow } from '@/lib/repositories';
+import { isEquipmentOverdue } from '@/lib/equipmentHire';
+import { bookValue } from '@/lib/depreciation';
 
 interface Equipment {
   id: string;
@@ -24,6 +30,11 @@ interface Equipment {
   purchase_date?: string;
   purchase_cost?: number;
   current_value?: number;
+  depreciation_method?: DepreciationMethod;
+  useful_life_years?: number;
+  residual_value?: number;
+  written_down_value?: number;
+  written_down_on?: string;
   condition: string;
   status: string;
   venue_id?: string;
@@ -40,7 +51,11 @@ interface Equipment {
   };
 }
 
-const EquipmentHireManager: React.FC = () => {
+interface EquipmentHireManagerProps {
+  canManage?: boolean;
+}
+
+const EquipmentHireManager: React.FC<EquipmentHireManagerProps> = ({ canManage }) => {
   const { venues, refreshData } = useAppContext();
   const { toast } = useToast();
   const [equipment, setEquipment] = useState<Equipment[]>([]);
@@ -51,6 +66,8 @@ const EquipmentHireManager: React.FC = () => {
   const [selectedEquipment, setSelectedEquipment] = useState<Equipment | null>(null);
   const [loading, setLoading] = useState(true);
   const [isRefreshing, setIsRefreshing] = useState(false);
+  const [contracts, setContracts] = useState<HireContractRow[]>([]);
+  const [hiringEquipment, setHiringEquipment] = useState<Equipment | null>(null);
 
   // Enhanced filtering
   const filteredEquipment = equipment.filter(item => {
@@ -72,8 +89,31 @@ const EquipmentHireManager: React.FC = () => {
 
   useEffect(() => {
     fetchEquipment();
+    fetchContracts();
   }, []);
 
+  const fetchContracts = async (): Promise<HireContractRow[]> => {
+    try {
+      const rows = await repositories.hireContracts.listLatestFirst();
+      setContracts(rows);
+      return rows;
+    } catch (error) {
+      console.error('❌ Error fetching hire contracts:', error);
+      toast({
+        title: 'Error',
+        description: (error as Error).message || 'Failed to load hire contracts',
+        variant: 'destructive'
+      });
+      return [];
+    }
+  };
+
+  // Contracts change the equipment's status, so reload both
+  const handleContractsChanged = async () => {
+    const [rows] = await Promise.all([fetchContracts(), fetchEquipment()]);
+    return rows;
+  };
+
   const fetchEquipment = async () => {
     try {
       setLoading(true);
@@ -168,7 +208,7 @@ const EquipmentHireManager: React.FC = () => {
   const handleManualRefresh = async () => {
     setIsRefreshing(true);
     try {
-      await fetchEquipment();
+      await Promise.all([fetchEquipment(), fetchContracts()]);
       toast({
         title: 'Refreshed',
         description: 'Equipment data has been updated'
@@ -234,12 +274,17 @@ const EquipmentHireManager: React.FC = () => {
     return equipment.venue?.name || 'Not assigned';
   };
 
+  const activeContractFor = (equipmentId: string) =>
+    contracts.find(contract => contract.equipment_id === equipmentId && contract.status === 'active');
+
+  const untrackedOverdue = equipment.filter(item => isEquipmentOverdue(item) && !activeContractFor(item.id));
+
   // Calculate statistics
   const totalEquipment = equipment.length;
   const hiredEquipment = equipment.filter(e => e.status === 'hired').length;
   const availableEquipment = equipment.filter(e => e.status === 'available').length;
   const maintenanceEquipment = equipment.filter(e => e.status === 'maintenance').length;
-  const totalValue = equipment.reduce((sum, e) => sum + (e.current_value || e.purchase_cost || 0), 0);
+  const totalValue = equipment.reduce((sum, e) => sum + (bookValue(e) || 0), 0);
 
   if (loading) {
     return (
@@ -358,6 +403,15 @@ const EquipmentHireManager: React.FC = () => {
         </Card>
       </div>
 
+      <OverdueHireWatchlist
+        contracts={contracts}
+        untrackedOverdue={untrackedOverdue}
+        canManage={canManage}
+        onChanged={fetchContracts}
+      />
+
+      <HireContractsPanel contracts={contracts} canManage={canManage} onChanged={handleContractsChanged} />
+
       {/* Search */}
       <div className="relative">
         <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 h-4 w-4" />
@@ -405,6 +459,9 @@ const EquipmentHireManager: React.FC = () => {
                       <Badge className={getConditionColor(item.condition)} variant="outline">
                         {item.condition.replace('_', ' ').toUpperCase()}
                       </Badge>
+                      {isEquipmentOverdue(item) && (
+                        <Badge className="bg-red-100 text-red-800">OVERDUE</Badge>
+                      )}
                     </div>
                   </div>
                 </div>
@@ -445,13 +502,17 @@ const EquipmentHireManager: React.FC = () => {
                 {item.status === 'hired' && item.hired_date && (
                   <p><strong>Hired:</strong> {formatDate(item.hired_date)}</p>
                 )}
+
+                {item.status === 'hired' && activeContractFor(item.id) && (
+                  <p><strong>Hired To:</strong> {activeContractFor(item.id)?.customer_name}</p>
+                )}
                 
                 {item.expected_return_date && (
                   <p><strong>Expected Return:</strong> {formatDate(item.expected_return_date)}</p>
                 )}
                 
-                {(item.current_value || item.purchase_cost) && (
-                  <p><strong>Value:</strong> {formatCurrency(item.current_value || item.purchase_cost)}</p>
+                {bookValue(item) > 0 && (
+                  <p><strong>Value:</strong> {formatCurrency(bookValue(item))}</p>
                 )}
               </div>
 
@@ -465,6 +526,16 @@ const EquipmentHireManager: React.FC = () => {
                   <Eye className="h-3 w-3 mr-1" />
                   View Details
                 </Button>
+                {canManage && item.status === 'available' && (
+                  <Button
+                    size="sm"
+                    onClick={() => setHiringEquipment(item)}
+                    className="flex-1"
+                  >
+                    <Send className="h-3 w-3 mr-1" />
+                    Hire Out
+                  </Button>
+                )}
               </div>
             </CardContent>
           </Card>
@@ -506,6 +577,15 @@ const EquipmentHireManager: React.FC = () => {
         description={`Are you sure you want to delete ${selectedEquipment?.name}? This action cannot be undone and will also delete all associated history.`}
       />
 
+      <HireContractDialog
+        equipment={hiringEquipment}
+        onClose={() => setHiringEquipment(null)}
+        onCreated={() => {
+          setHiringEquipment(null);
+          handleContractsChanged();
+        }}
+      />
+
       {showProfile && selectedEquipment && (
         <EquipmentProfile
           equipment={selectedEquipment}
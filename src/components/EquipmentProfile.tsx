@@ -8,6 +8,9 @@ import { EquipmentEditDialog } from './EquipmentEditDialog';
 import { createImageWithFallback } from '@/lib/imageUtils';
 import { supabase } from '@/lib/supabase';
 import { useToast } from '@/hooks/use-toast';
+import { repositories, type DepreciationMethod, type EquipmentInspectionRow } from '@/lib/repositories';
+import { failedChecks } from '@/lib/equipmentInspection';
+import { bookValue, depreciationLabel } from '@/lib/depreciation';
 
 interface Equipment {
   id: string;
@@ -21,6 +24,11 @@ interface Equipment {
   purchase_date?: string;
   purchase_cost?: number;
   current_value?: number;
+  depreciation_method?: DepreciationMethod;
+  useful_life_years?: number;
+  residual_value?: number;
+  written_down_value?: number;
+  written_down_on?: string;
   condition: string;
   status: string;
   venue_id?: string;
@@ -56,6 +64,7 @@ export const EquipmentProfile: React.FC<EquipmentProfileProps> = ({ equipment, o
   const { toast } = useToast();
   const [showEditDialog, setShowEditDialog] = useState(false);
   const [equipmentHistory, setEquipmentHistory] = useState<EquipmentHistory[]>([]);
+  const [inspections, setInspections] = useState<EquipmentInspectionRow[]>([]);
   const [loading, setLoading] = useState(true);
 
   useEffect(() => {
@@ -84,6 +93,7 @@ export const EquipmentProfile: React.FC<EquipmentProfileProps> = ({ equipment, o
 
       console.log('✅ Equipment history loaded:', data?.length || 0, 'records');
       setEquipmentHistory(data || []);
+      setInspections(await repositories.equipmentInspections.listForEquipment(equipment.id));
 
     } catch (error) {
       console.error('❌ Error fetching equipment history:', error);
@@ -145,6 +155,8 @@ export const EquipmentProfile: React.FC<EquipmentProfileProps> = ({ equipment, o
     switch (action.toLowerCase()) {
       case 'hired': return '📤';
       case 'returned': return '📥';
+      case 'inspected': return '🔍';
+      case 'damaged': return '⚠️';
       case 'transferred': return '🔄';
       case 'maintenance': return '🔧';
       case 'created': return '✨';
@@ -351,9 +363,9 @@ export const EquipmentProfile: React.FC<EquipmentProfileProps> = ({ equipment, o
                       </div>
                       <div className="text-center p-3 bg-blue-50 rounded-lg">
                         <div className="text-lg font-bold text-blue-600">
-                          {formatCurrency(equipment.current_value)}
+                          {formatCurrency(bookValue(equipment))}
                         </div>
-                        <div className="text-sm text-blue-700">Current Value</div>
+                        <div className="text-sm text-blue-700">{equipment.depreciation_method ? 'Book Value' : 'Current Value'}</div>
                       </div>
                     </div>
                     {equipment.purchase_date && (
@@ -361,6 +373,12 @@ export const EquipmentProfile: React.FC<EquipmentProfileProps> = ({ equipment, o
                         <strong>Purchase Date:</strong> {formatDate(equipment.purchase_date)}
                       </div>
                     )}
+                    {equipment.depreciation_method && (
+                      <div className="mt-1 text-sm text-gray-600">
+                        <strong>Depreciation:</strong> {depreciationLabel(equipment.depreciation_method)} over {equipment.useful_life_years} years
+                        {equipment.written_down_on && `, revalued ${formatDate(equipment.written_down_on)}`}
+                      </div>
+                    )}
                   </CardContent>
                 </Card>
               </div>
@@ -464,6 +482,42 @@ export const EquipmentProfile: React.FC<EquipmentProfileProps> = ({ equipment, o
                     )}
                   </CardContent>
                 </Card>
+
+                {inspections.length > 0 && (
+                  <Card>
+                    <CardHeader>
+                      <CardTitle className="flex items-center gap-2">
+                        <FileText className="h-5 w-5" />
+                        Return Inspections
+                      </CardTitle>
+                    </CardHeader>
+                    <CardContent className="space-y-3 max-h-64 overflow-y-auto">
+                      {inspections.map(inspection => (
+                        <div key={inspection.id} className={`border rounded-lg p-3 ${inspection.damage_found ? 'border-red-200 bg-red-50' : ''}`}>
+                          <div className="flex items-center justify-between gap-2">
+                            <span className="text-sm font-medium capitalize">
+                              {(inspection.condition_before || 'unknown').replace('_', ' ')} → {inspection.condition_after.replace('_', ' ')}
+                            </span>
+                            <span className="text-xs text-gray-500">{formatDateTime(inspection.inspected_at)}</span>
+                          </div>
+                          {failedChecks(inspection.checklist).length > 0 && (
+                            <p className="text-xs text-red-700">Failed: {failedChecks(inspection.checklist).join(', ')}</p>
+                          )}
+                          {inspection.damage_notes && <p className="text-sm text-gray-700 mt-1">{inspection.damage_notes}</p>}
+                          {inspection.photo_urls.length > 0 && (
+                            <div className="flex gap-2 flex-wrap mt-2">
+                              {inspection.photo_urls.map(url => (
+                                <a key={url} href={url} target="_blank" rel="noreferrer">
+                                  <img src={url} alt="Inspection" className="w-14 h-14 object-cover rounded border" />
+                                </a>
+                              ))}
+                            </div>
+                          )}
+                        </div>
+                      ))}
+                    </CardContent>
+                  </Card>
+                )}
               </div>
             </div>
 
@@ -0,0 +1,195 @@
+// src/components/FleetValuationReport.tsx
+// Book value of every machine and piece of hire equipment on a date, per venue and per category
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { format } from 'date-fns';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Download, FileText, Landmark } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { depreciationLabel } from '@/lib/depreciation';
+import { downloadFleetValuationCsv, fleetTotals, groupFleet, loadFleetValuation, type FleetAsset, type FleetValuationGroup } from '@/lib/fleetValuation';
+import { downloadFleetValuationPdf } from '@/lib/fleetValuationPdf';
+
+const money = (value: number) => `$${value.toLocaleString('en-AU', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+const GroupTable: React.FC<{ heading: string; groups: FleetValuationGroup[]; total: FleetValuationGroup }> = ({ heading, groups, total }) => (
+  <Table>
+    <TableHeader>
+      <TableRow>
+        <TableHead>{heading}</TableHead>
+        <TableHead className="text-right">Assets</TableHead>
+        <TableHead className="text-right">Cost</TableHead>
+        <TableHead className="text-right">Accumulated Depreciation</TableHead>
+        <TableHead className="text-right">Book Value</TableHead>
+      </TableRow>
+    </TableHeader>
+    <TableBody>
+      {[...groups, total].map(group => (
+        <TableRow key={group.label} className={group === total ? 'font-semibold bg-gray-50' : ''}>
+          <TableCell>{group.label}</TableCell>
+          <TableCell className="text-right">{group.count}</TableCell>
+          <TableCell className="text-right">{money(group.cost)}</TableCell>
+          <TableCell className="text-right">{money(group.accumulated)}</TableCell>
+          <TableCell className="text-right">{money(group.bookValue)}</TableCell>
+        </TableRow>
+      ))}
+    </TableBody>
+  </Table>
+);
+
+const FleetValuationReport: React.FC = () => {
+  const { toast } = useToast();
+  const [asOf, setAsOf] = useState(format(new Date(), 'yyyy-MM-dd'));
+  const [assets, setAssets] = useState<FleetAsset[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const loadData = useCallback(async () => {
+    if (!asOf) return;
+    setLoading(true);
+    try {
+      setAssets(await loadFleetValuation(asOf));
+    } catch (error) {
+      console.error('❌ Error loading fleet valuation:', error);
+      toast({ title: 'Error', description: (error as Error).message || 'Failed to load fleet valuation', variant: 'destructive' });
+    } finally {
+      setLoading(false);
+    }
+  }, [asOf, toast]);
+
+  useEffect(() => {
+    loadData();
+  }, [loadData]);
+
+  const byVenue = useMemo(() => groupFleet(assets, 'venue'), [assets]);
+  const byCategory = useMemo(() => groupFleet(assets, 'category'), [assets]);
+  const total = useMemo(() => fleetTotals(assets), [assets]);
+  const unvalued = assets.filter(entry => !entry.method).length;
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-end justify-between gap-4 flex-wrap">
+        <div>
+          <h2 className="text-2xl font-bold text-gray-900 flex items-center gap-2">
+            <Landmark className="h-6 w-6" />
+            Fleet Valuation
+          </h2>
+          <p className="text-sm text-gray-500 mt-1">Machines and hire equipment at their depreciated book value</p>
+        </div>
+        <div className="flex items-end gap-2 flex-wrap">
+          <div>
+            <Label htmlFor="valuation-date">As at</Label>
+            <Input id="valuation-date" type="date" value={asOf} onChange={(e) => setAsOf(e.target.value)} className="w-40" />
+          </div>
+          <Button variant="outline" disabled={loading || assets.length === 0} onClick={() => downloadFleetValuationCsv(assets, asOf)}>
+            <Download className="h-4 w-4 mr-1" />
+            CSV
+          </Button>
+          <Button disabled={loading || assets.length === 0} onClick={() => downloadFleetValuationPdf(assets, asOf)}>
+            <FileText className="h-4 w-4 mr-1" />
+            PDF
+          </Button>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <Card>
+          <CardContent className="p-4">
+            <div className="text-2xl font-bold text-blue-600">{money(total.bookValue)}</div>
+            <p className="text-sm text-gray-600">Book value of {total.count} assets</p>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardContent className="p-4">
+            <div className="text-2xl font-bold text-gray-900">{money(total.cost)}</div>
+            <p className="text-sm text-gray-600">Purchase cost</p>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardContent className="p-4">
+            <div className="text-2xl font-bold text-orange-600">{money(total.accumulated)}</div>
+            <p className="text-sm text-gray-600">Accumulated depreciation</p>
+          </CardContent>
+        </Card>
+      </div>
+
+      {unvalued > 0 && (
+        <p className="text-sm text-amber-700">
+          {unvalued} asset{unvalued === 1 ? ' has' : 's have'} no depreciation method and {unvalued === 1 ? 'is' : 'are'} included at the value entered by hand
+        </p>
+      )}
+
+      {loading ? (
+        <p className="text-center text-gray-500 py-8">Loading fleet valuation...</p>
+      ) : (
+        <Tabs defaultValue="venue">
+          <TabsList>
+            <TabsTrigger value="venue">By Venue</TabsTrigger>
+            <TabsTrigger value="category">By Category</TabsTrigger>
+            <TabsTrigger value="register">Asset Register</TabsTrigger>
+          </TabsList>
+          <TabsContent value="venue">
+            <Card>
+              <CardContent className="p-0">
+                <GroupTable heading="Venue" groups={byVenue} total={total} />
+              </CardContent>
+            </Card>
+          </TabsContent>
+          <TabsContent value="category">
+            <Card>
+              <CardContent className="p-0">
+                <GroupTable heading="Category" groups={byCategory} total={total} />
+              </CardContent>
+            </Card>
+          </TabsContent>
+          <TabsContent value="register">
+            <Card>
+              <CardHeader className="pb-3">
+                <CardTitle className="text-base">All assets</CardTitle>
+              </CardHeader>
+              <CardContent className="p-0">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Asset</TableHead>
+                      <TableHead>Category</TableHead>
+                      <TableHead>Venue</TableHead>
+                      <TableHead>Depreciation</TableHead>
+                      <TableHead className="text-right">Cost</TableHead>
+                      <TableHead className="text-right">Book Value</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {assets.map(entry => (
+                      <TableRow key={`${entry.kind}-${entry.id}`}>
+                        <TableCell>
+                          <span className="font-medium">{entry.name}</span>
+                          {entry.reference && <span className="text-xs text-gray-500"> · {entry.reference}</span>}
+                        </TableCell>
+                        <TableCell>{entry.category}</TableCell>
+                        <TableCell>{entry.venue}</TableCell>
+                        <TableCell>
+                          {entry.method
+                            ? `${depreciationLabel(entry.method)}, ${entry.usefulLifeYears} yrs`
+                            : <Badge variant="secondary">Not depreciated</Badge>}
+                        </TableCell>
+                        <TableCell className="text-right">{money(entry.cost)}</TableCell>
+                        <TableCell className="text-right">{money(entry.bookValue)}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </CardContent>
+            </Card>
+          </TabsContent>
+        </Tabs>
+      )}
+    </div>
+  );
+};
+
+export default FleetValuationReport;
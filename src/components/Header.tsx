@@ -9,7 +9,7 @@ import {
   ChevronDown, Database, Users,
   Home, BarChart3, LogOut, Map, Mail, Shield,
   Crown, Eye, User, Loader2, Cog, Truck, CalendarDays,
-  Route, Package
+  Route, Package, ShoppingCart, Warehouse, ClipboardList, LayoutGrid, Landmark
 } from 'lucide-react';
 
 interface HeaderProps {
@@ -129,7 +129,7 @@ const Header: React.FC<HeaderProps> = ({
           <DropdownMenu>
             <DropdownMenuTrigger asChild>
               <Button size="sm" variant="ghost" disabled={loggingOut}
-                className={`shrink-0 gap-1.5 text-sm ${active(['machines','venues','prizes','parts','runs','analytics','users','email-notifications'])}`}>
+                className={`shrink-0 gap-1.5 text-sm ${active(['machines','venues','venue-capacity','prizes','stock_locations','parts','purchasing','stocktake','runs','analytics','fleet-valuation','users','email-notifications'])}`}>
                 <Database className="h-3.5 w-3.5" />Manage<ChevronDown className="h-3 w-3 opacity-60" />
               </Button>
             </DropdownMenuTrigger>
@@ -144,6 +144,11 @@ const Header: React.FC<HeaderProps> = ({
                   <MapPin className="h-4 w-4 mr-2 text-gray-500" />Venues
                 </DropdownMenuItem>
               )}
+              {canAccessView('venue-capacity') && (
+                <DropdownMenuItem onClick={nav('venue-capacity','Venue Capacity')}>
+                  <LayoutGrid className="h-4 w-4 mr-2 text-gray-500" />Venue Capacity
+                </DropdownMenuItem>
+              )}
               {canAccessView('runs') && (
                 <DropdownMenuItem onClick={nav('runs','Runs')}>
                   <Route className="h-4 w-4 mr-2 text-gray-500" />Runs
@@ -154,17 +159,37 @@ const Header: React.FC<HeaderProps> = ({
                   <Gift className="h-4 w-4 mr-2 text-gray-500" />Prizes
                 </DropdownMenuItem>
               )}
+              {canAccessView('stock_locations') && (
+                <DropdownMenuItem onClick={nav('stock_locations','Stock Locations')}>
+                  <Warehouse className="h-4 w-4 mr-2 text-gray-500" />Stock Locations
+                </DropdownMenuItem>
+              )}
               {hasPermission('manage_stock') && canAccessView('parts') && (
                 <DropdownMenuItem onClick={nav('parts','Parts')}>
                   <Cog className="h-4 w-4 mr-2 text-gray-500" />Parts
                 </DropdownMenuItem>
               )}
+              {hasPermission('manage_stock') && canAccessView('purchasing') && (
+                <DropdownMenuItem onClick={nav('purchasing','Purchasing')}>
+                  <ShoppingCart className="h-4 w-4 mr-2 text-gray-500" />Purchasing
+                </DropdownMenuItem>
+              )}
+              {hasPermission('manage_stock') && canAccessView('stocktake') && (
+                <DropdownMenuItem onClick={nav('stocktake','Stocktake')}>
+                  <ClipboardList className="h-4 w-4 mr-2 text-gray-500" />Stocktake
+                </DropdownMenuItem>
+              )}
               <DropdownMenuSeparator />
               {canAccessView('analytics') && (
                 <DropdownMenuItem onClick={nav('analytics','Analytics')}>
                   <BarChart3 className="h-4 w-4 mr-2 text-gray-500" />Stock Analytics
                 </DropdownMenuItem>
               )}
+              {canAccessView('fleet-valuation') && (
+                <DropdownMenuItem onClick={nav('fleet-valuation','Fleet Valuation')}>
+                  <Landmark className="h-4 w-4 mr-2 text-gray-500" />Fleet Valuation
+                </DropdownMenuItem>
+              )}
               {canAccessView('users') && (
                 <DropdownMenuItem onClick={nav('users','Users')}>
                   <Users className="h-4 w-4 mr-2 text-gray-500" />Users
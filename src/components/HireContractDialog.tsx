@@ -0,0 +1,214 @@
+// src/components/HireContractDialog.tsx
+// Opens a hire contract for a piece of equipment: customer, rates, deposit and return date
+import React, { useEffect, useState } from 'react';
+import { format, addDays } from 'date-fns';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import { useAppContext } from '@/contexts/AppContext';
+import { repositories } from '@/lib/repositories';
+import { hireCharges } from '@/lib/equipmentHire';
+
+interface HireableEquipment {
+  id: string;
+  name: string;
+}
+
+interface HireContractDialogProps {
+  equipment: HireableEquipment | null;
+  onClose: () => void;
+  onCreated: () => void;
+}
+
+const NO_VENUE = 'none';
+
+const emptyForm = () => ({
+  customer_name: '',
+  customer_company: '',
+  customer_email: '',
+  customer_phone: '',
+  customer_address: '',
+  venue_id: NO_VENUE,
+  daily_rate: '',
+  weekly_rate: '',
+  monthly_rate: '',
+  late_fee_per_day: '',
+  deposit_amount: '',
+  start_date: format(new Date(), 'yyyy-MM-dd'),
+  expected_return_date: format(addDays(new Date(), 6), 'yyyy-MM-dd'),
+  notes: ''
+});
+
+const toNumber = (value: string) => (value.trim() ? Number(value) : null);
+
+const HireContractDialog: React.FC<HireContractDialogProps> = ({ equipment, onClose, onCreated }) => {
+  const { venues } = useAppContext();
+  const { toast } = useToast();
+  const [form, setForm] = useState(emptyForm);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    setForm(emptyForm());
+  }, [equipment?.id]);
+
+  const set = (field: keyof ReturnType<typeof emptyForm>) => (value: string) =>
+    setForm(prev => ({ ...prev, [field]: value }));
+
+  const rates = {
+    daily_rate: toNumber(form.daily_rate) ?? 0,
+    weekly_rate: toNumber(form.weekly_rate),
+    monthly_rate: toNumber(form.monthly_rate),
+    late_fee_per_day: toNumber(form.late_fee_per_day)
+  };
+  const datesValid = !!form.start_date && !!form.expected_return_date && form.expected_return_date >= form.start_date;
+  const quote = datesValid ? hireCharges({ ...rates, start_date: form.start_date, expected_return_date: form.expected_return_date }, form.expected_return_date) : null;
+
+  const handleSave = async () => {
+    if (!equipment) return;
+    if (!form.customer_name.trim()) {
+      toast({ title: 'Validation Error', description: 'Customer name is required', variant: 'destructive' });
+      return;
+    }
+    const amounts = [rates.daily_rate, rates.weekly_rate, rates.monthly_rate, rates.late_fee_per_day, toNumber(form.deposit_amount)];
+    if (!form.daily_rate.trim() || amounts.some(value => value !== null && (isNaN(value) || value < 0))) {
+      toast({ title: 'Validation Error', description: 'Enter a daily rate; rates and deposit must be positive amounts', variant: 'destructive' });
+      return;
+    }
+    if (!datesValid) {
+      toast({ title: 'Validation Error', description: 'The return date must be on or after the start date', variant: 'destructive' });
+      return;
+    }
+
+    setSaving(true);
+    try {
+      await repositories.hireContracts.create({
+        equipment_id: equipment.id,
+        customer_name: form.customer_name.trim(),
+        customer_company: form.customer_company.trim() || null,
+        customer_email: form.customer_email.trim() || null,
+        customer_phone: form.customer_phone.trim() || null,
+        customer_address: form.customer_address.trim() || null,
+        venue_id: form.venue_id === NO_VENUE ? null : form.venue_id,
+        ...rates,
+        deposit_amount: toNumber(form.deposit_amount) ?? 0,
+        start_date: form.start_date,
+        expected_return_date: form.expected_return_date,
+        notes: form.notes.trim() || null
+      });
+      toast({ title: 'Success', description: `${equipment.name} is on hire to ${form.customer_name.trim()}` });
+      onCreated();
+    } catch (error) {
+      console.error('❌ Error creating hire contract:', error);
+      toast({ title: 'Error', description: (error as Error).message || 'Failed to create hire contract', variant: 'destructive' });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={!!equipment} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Hire Out · {equipment?.name}</DialogTitle>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <Label>Customer Name *</Label>
+              <Input value={form.customer_name} onChange={(e) => set('customer_name')(e.target.value)} />
+            </div>
+            <div>
+              <Label>Company</Label>
+              <Input value={form.customer_company} onChange={(e) => set('customer_company')(e.target.value)} />
+            </div>
+            <div>
+              <Label>Email</Label>
+              <Input type="email" value={form.customer_email} onChange={(e) => set('customer_email')(e.target.value)} />
+            </div>
+            <div>
+              <Label>Phone</Label>
+              <Input value={form.customer_phone} onChange={(e) => set('customer_phone')(e.target.value)} />
+            </div>
+          </div>
+          <div>
+            <Label>Address</Label>
+            <Textarea rows={2} value={form.customer_address} onChange={(e) => set('customer_address')(e.target.value)} />
+          </div>
+          <div>
+            <Label>Going to Venue</Label>
+            <Select value={form.venue_id} onValueChange={set('venue_id')}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={NO_VENUE}>Not one of our venues</SelectItem>
+                {venues.map(venue => (
+                  <SelectItem key={venue.id} value={venue.id}>{venue.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="grid grid-cols-3 gap-3">
+            <div>
+              <Label>Daily Rate ($) *</Label>
+              <Input type="number" min="0" step="0.01" value={form.daily_rate} onChange={(e) => set('daily_rate')(e.target.value)} />
+            </div>
+            <div>
+              <Label>Weekly Rate ($)</Label>
+              <Input type="number" min="0" step="0.01" value={form.weekly_rate} onChange={(e) => set('weekly_rate')(e.target.value)} />
+            </div>
+            <div>
+              <Label>Monthly Rate ($)</Label>
+              <Input type="number" min="0" step="0.01" value={form.monthly_rate} onChange={(e) => set('monthly_rate')(e.target.value)} />
+            </div>
+            <div>
+              <Label>Late Fee ($/day)</Label>
+              <Input type="number" min="0" step="0.01" value={form.late_fee_per_day} onChange={(e) => set('late_fee_per_day')(e.target.value)} placeholder="Daily rate" />
+            </div>
+            <div>
+              <Label>Deposit ($)</Label>
+              <Input type="number" min="0" step="0.01" value={form.deposit_amount} onChange={(e) => set('deposit_amount')(e.target.value)} placeholder="0.00" />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <Label>Start Date *</Label>
+              <Input type="date" value={form.start_date} onChange={(e) => set('start_date')(e.target.value)} />
+            </div>
+            <div>
+              <Label>Expected Return *</Label>
+              <Input type="date" value={form.expected_return_date} onChange={(e) => set('expected_return_date')(e.target.value)} />
+            </div>
+          </div>
+
+          {quote && form.daily_rate.trim() && (
+            <div className="rounded border bg-gray-50 p-3 text-sm">
+              <p className="font-medium">Quote for {quote.hireDays} day{quote.hireDays === 1 ? '' : 's'}: ${quote.subtotal.toFixed(2)}</p>
+              {quote.lines.map(line => (
+                <p key={line.description} className="text-xs text-gray-600">{line.description}</p>
+              ))}
+            </div>
+          )}
+
+          <div>
+            <Label>Notes</Label>
+            <Textarea rows={2} value={form.notes} onChange={(e) => set('notes')(e.target.value)} />
+          </div>
+
+          <div className="flex gap-2">
+            <Button onClick={handleSave} disabled={saving}>{saving ? 'Saving...' : 'Start Hire'}</Button>
+            <Button variant="outline" onClick={onClose}>Cancel</Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default HireContractDialog;
@@ -0,0 +1,127 @@
+// src/components/HireContractsPanel.tsx
+// Open and recent hire contracts with what they've cost so far, returns and invoice PDFs
+import React, { useState } from 'react';
+import { format, parseISO } from 'date-fns';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Download, FileText, Undo2, X } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { repositories, type HireContractRow, type HireInvoiceRow } from '@/lib/repositories';
+import { accruedCharges, isOverdue } from '@/lib/equipmentHire';
+import { downloadHireInvoicePdf } from '@/lib/hireInvoicePdf';
+import ReturnHireDialog from '@/components/ReturnHireDialog';
+
+interface HireContractsPanelProps {
+  contracts: HireContractRow[];
+  canManage?: boolean;
+  onChanged: () => Promise<HireContractRow[]>;
+}
+
+const RECENT_RETURNS = 10;
+
+const day = (date: string) => format(parseISO(date), 'd MMM yyyy');
+
+const HireContractsPanel: React.FC<HireContractsPanelProps> = ({ contracts, canManage, onChanged }) => {
+  const { toast } = useToast();
+  const [returning, setReturning] = useState<HireContractRow | null>(null);
+
+  const active = contracts.filter(contract => contract.status === 'active');
+  const returned = contracts.filter(contract => contract.status === 'returned').slice(0, RECENT_RETURNS);
+
+  const handleReturned = async (invoice: HireInvoiceRow) => {
+    setReturning(null);
+    const refreshed = await onChanged();
+    const contract = refreshed.find(row => row.id === invoice.contract_id);
+    if (contract) downloadHireInvoicePdf(invoice, contract);
+  };
+
+  const handleCancel = async (contract: HireContractRow) => {
+    if (!confirm(`Cancel ${contract.contract_number} for ${contract.customer_name}? The equipment goes back to available with nothing invoiced.`)) return;
+    try {
+      await repositories.hireContracts.update(contract.id, { status: 'cancelled' });
+      toast({ title: 'Success', description: `${contract.contract_number} cancelled` });
+      await onChanged();
+    } catch (error) {
+      console.error('❌ Error cancelling hire contract:', error);
+      toast({ title: 'Error', description: (error as Error).message || 'Failed to cancel hire contract', variant: 'destructive' });
+    }
+  };
+
+  if (active.length === 0 && returned.length === 0) return null;
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <CardTitle className="text-base flex items-center gap-2">
+          <FileText className="h-5 w-5" />
+          Hire Contracts
+          {active.length > 0 && <Badge variant="secondary">{active.length} out</Badge>}
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-2">
+        {active.map(contract => {
+          const charges = accruedCharges(contract);
+          const overdue = isOverdue(contract);
+          return (
+            <div key={contract.id} className={`border rounded p-3 flex items-center justify-between gap-3 flex-wrap ${overdue ? 'border-red-300 bg-red-50' : ''}`}>
+              <div className="min-w-0">
+                <div className="flex items-center gap-2 flex-wrap">
+                  <span className="font-medium">{contract.equipment_hire?.name || 'Equipment'}</span>
+                  <span className="text-xs text-gray-500">{contract.contract_number}</span>
+                  {overdue && <Badge className="bg-red-100 text-red-800">Overdue</Badge>}
+                </div>
+                <p className="text-sm text-gray-600">
+                  {contract.customer_name}{contract.customer_company ? ` (${contract.customer_company})` : ''} · {day(contract.start_date)} to {day(contract.expected_return_date)}
+                </p>
+                <p className="text-xs text-gray-500">
+                  ${charges.subtotal.toFixed(2)} so far{charges.lateFee > 0 ? `, incl. $${charges.lateFee.toFixed(2)} late fees` : ''}
+                  {Number(contract.deposit_amount) > 0 ? ` · $${Number(contract.deposit_amount).toFixed(2)} deposit held` : ''}
+                </p>
+              </div>
+              {canManage && (
+                <div className="flex gap-2">
+                  <Button size="sm" onClick={() => setReturning(contract)}>
+                    <Undo2 className="h-3 w-3 mr-1" />
+                    Return
+                  </Button>
+                  <Button size="sm" variant="outline" onClick={() => handleCancel(contract)} title="Cancel contract">
+                    <X className="h-3 w-3" />
+                  </Button>
+                </div>
+              )}
+            </div>
+          );
+        })}
+
+        {returned.length > 0 && (
+          <div className="pt-2">
+            <p className="text-xs font-medium text-gray-500 uppercase tracking-wide mb-1">Recently returned</p>
+            <div className="divide-y border rounded">
+              {returned.map(contract => (
+                <div key={contract.id} className="px-3 py-2 text-sm flex items-center justify-between gap-2">
+                  <span className="truncate">
+                    {contract.equipment_hire?.name || 'Equipment'} · {contract.customer_name}
+                    <span className="text-gray-400"> · returned {contract.returned_date ? day(contract.returned_date) : '—'}</span>
+                  </span>
+                  <div className="flex gap-1 shrink-0">
+                    {(contract.equipment_hire_invoices || []).map(invoice => (
+                      <Button key={invoice.id} size="sm" variant="ghost" onClick={() => downloadHireInvoicePdf(invoice, contract)}>
+                        <Download className="h-3 w-3 mr-1" />
+                        {invoice.invoice_number} · ${Number(invoice.total_due).toFixed(2)}
+                      </Button>
+                    ))}
+                  </div>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+      </CardContent>
+
+      <ReturnHireDialog contract={returning} onClose={() => setReturning(null)} onReturned={handleReturned} />
+    </Card>
+  );
+};
+
+export default HireContractsPanel;
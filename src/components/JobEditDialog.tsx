@@ -14,6 +14,7 @@ import { format, parseISO } from 'date-fns';
 import { supabase } from '@/lib/supabase';
 import { useToast } from '@/hooks/use-toast';
 import { cn } from '@/lib/utils';
+import JobPartsUsed from './JobPartsUsed';
 
 interface Job {
   id: string;
@@ -123,7 +124,11 @@ export const JobEditDialog: React.FC<JobEditDialogProps> = ({ job, open, onClose
         priority: formData.priority,
         status: formData.status,
         scheduled_date: formData.scheduled_date,
-        assigned_to: formData.assigned_to || null
+        assigned_to: formData.assigned_to || null,
+        // Maintenance plan compliance is judged on when the job was completed
+        ...(formData.status === 'completed' && normalizeStatus(job.status) !== 'completed'
+          ? { completed_at: new Date().toISOString() }
+          : {})
       };
 
       console.log('💾 Updating job with data:', updateData);
@@ -447,6 +452,10 @@ export const JobEditDialog: React.FC<JobEditDialogProps> = ({ job, open, onClose
 
           <Separator />
 
+          <JobPartsUsed jobId={job.id} onChanged={onUpdate} />
+
+          <Separator />
+
           {/* Job Photos */}
           <div>
             <div className="flex justify-between items-center mb-3">
@@ -0,0 +1,142 @@
+// src/components/JobPartsUsed.tsx
+// Parts used on a job: recording one takes it out of stock and adds its cost to the job
+import React, { useCallback, useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Package, Plus, Undo2 } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { repositories, type JobPartRow, type PartRow } from '@/lib/repositories';
+
+interface JobPartsUsedProps {
+  jobId: string;
+  // Called after parts are recorded or returned so the job's cost can be reloaded
+  onChanged?: () => void;
+}
+
+const JobPartsUsed: React.FC<JobPartsUsedProps> = ({ jobId, onChanged }) => {
+  const { toast } = useToast();
+  const [usedParts, setUsedParts] = useState<JobPartRow[]>([]);
+  const [parts, setParts] = useState<PartRow[]>([]);
+  const [partId, setPartId] = useState('');
+  const [quantity, setQuantity] = useState('1');
+  const [saving, setSaving] = useState(false);
+
+  const loadParts = useCallback(async () => {
+    try {
+      const [used, stock] = await Promise.all([
+        repositories.jobParts.listForJobs([jobId]),
+        repositories.parts.list({ orderBy: [{ column: 'name', ascending: true }] })
+      ]);
+      setUsedParts(used);
+      setParts(stock);
+    } catch (error) {
+      console.error('❌ Error loading job parts:', error);
+    }
+  }, [jobId]);
+
+  useEffect(() => {
+    loadParts();
+  }, [loadParts]);
+
+  const selectedPart = parts.find(part => part.id === partId);
+  const totalCost = usedParts.reduce((sum, row) => sum + row.quantity * Number(row.unit_cost || 0), 0);
+
+  const handleRecord = async () => {
+    const amount = parseInt(quantity);
+    if (!selectedPart || !(amount > 0)) {
+      toast({ title: 'Validation Error', description: 'Choose a part and how many were used', variant: 'destructive' });
+      return;
+    }
+
+    setSaving(true);
+    try {
+      await repositories.jobParts.record(jobId, selectedPart.id, amount);
+      console.log('✅ Recorded part on job:', selectedPart.name, amount);
+      toast({ title: 'Part Recorded', description: `${amount} × ${selectedPart.name} taken from stock` });
+      setPartId('');
+      setQuantity('1');
+      await loadParts();
+      onChanged?.();
+    } catch (error) {
+      console.error('❌ Error recording job part:', error);
+      toast({ title: 'Error', description: (error as Error).message || 'Failed to record part', variant: 'destructive' });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleUndo = async (row: JobPartRow) => {
+    if (!confirm(`Return ${row.quantity} × ${row.part_name} to stock?`)) return;
+    try {
+      await repositories.jobParts.undo(row.id);
+      await loadParts();
+      onChanged?.();
+    } catch (error) {
+      console.error('❌ Error returning job part:', error);
+      toast({ title: 'Error', description: (error as Error).message || 'Failed to return part', variant: 'destructive' });
+    }
+  };
+
+  return (
+    <div>
+      <div className="flex justify-between items-center mb-3">
+        <h3 className="font-semibold flex items-center gap-1.5">
+          <Package className="h-4 w-4 text-orange-500" />
+          Parts Used
+        </h3>
+        {totalCost > 0 && <span className="text-sm font-medium">${totalCost.toFixed(2)}</span>}
+      </div>
+
+      <div className="flex gap-2 mb-3">
+        <Select value={partId} onValueChange={setPartId}>
+          <SelectTrigger className="flex-1">
+            <SelectValue placeholder="Select part" />
+          </SelectTrigger>
+          <SelectContent>
+            {parts.map(part => (
+              <SelectItem key={part.id} value={part.id} disabled={part.stock_quantity <= 0}>
+                {part.name} ({part.stock_quantity} in stock)
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Input
+          type="number"
+          min="1"
+          max={selectedPart?.stock_quantity}
+          value={quantity}
+          onChange={(e) => setQuantity(e.target.value)}
+          className="w-20"
+        />
+        <Button size="sm" onClick={handleRecord} disabled={saving || !partId} className="h-10">
+          <Plus className="h-4 w-4 mr-1" />
+          Use
+        </Button>
+      </div>
+
+      {usedParts.length === 0 ? (
+        <p className="text-gray-500 text-sm">No parts recorded on this job</p>
+      ) : (
+        <div className="divide-y border rounded">
+          {usedParts.map(row => (
+            <div key={row.id} className="flex items-center justify-between px-3 py-2 text-sm">
+              <span>
+                {row.quantity} × {row.part_name}
+                <span className="text-gray-500"> @ ${Number(row.unit_cost).toFixed(2)}</span>
+              </span>
+              <div className="flex items-center gap-2">
+                <span className="font-medium">${(row.quantity * Number(row.unit_cost)).toFixed(2)}</span>
+                <Button variant="ghost" size="sm" onClick={() => handleUndo(row)} title="Return to stock">
+                  <Undo2 className="h-3 w-3" />
+                </Button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default JobPartsUsed;
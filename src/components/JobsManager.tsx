@@ -7,13 +7,16 @@ import { Textarea } from '@/components/ui/textarea';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Badge } from '@/components/ui/badge';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
-import { Plus, AlertTriangle, Clock, CheckCircle, Edit, Scan, List, CalendarDays, Archive, History, Check, Search, Camera, Trash2, Loader2, User } from 'lucide-react';
+import { Plus, AlertTriangle, Clock, CheckCircle, Edit, Scan, List, CalendarDays, Archive, History, Check, Search, Camera, Trash2, Loader2, User, CalendarClock, Package } from 'lucide-react';
 import { MachineSerialSearch } from './MachineSerialSearch';
 import { AutoBarcodeScanner } from './AutoBarcodeScanner';
 import JobEditDialog from './JobEditDialog';
 import JobsCalendar from './JobsCalendar';
+import MaintenancePlansManager from './MaintenancePlansManager';
 import { useAppContext } from '@/contexts/AppContext';
 import { supabase } from '@/lib/supabase';
+import { repositories } from '@/lib/repositories';
+import { runMaintenanceScheduler } from '@/lib/maintenancePlans';
 import { useToast } from '@/hooks/use-toast';
 import { format, parseISO } from 'date-fns';
  
@@ -31,21 +34,25 @@ interface Job {
   completed_by?: string;
   assigned_to?: string | null;
   archived?: boolean;
+  parts_cost?: number | null;
   machine?: {
     name: string;
     type: string;
     venue?: { name: string };
   };
+  equipment?: { name: string } | null;
 }
  
 interface JobsManagerProps {
   userRole?: string;
   hasPermission?: (permission: string) => boolean;
+  currentUserId?: string;
 }
  
 const JobsManager: React.FC<JobsManagerProps> = ({ 
   userRole = 'technician', 
-  hasPermission = () => true 
+  hasPermission = () => true,
+  currentUserId
 }) => {
   const { machines, findMachineByBarcode } = useAppContext();
   const { toast } = useToast();
@@ -88,18 +95,13 @@ const JobsManager: React.FC<JobsManagerProps> = ({
   };
  
   useEffect(() => {
-    fetchJobs();
+    openDueMaintenanceJobs().finally(() => fetchJobs());
   }, []);
  
   useEffect(() => {
     const fetchStaff = async () => {
       try {
-        const { data } = await supabase
-          .from('users')
-          .select('id, full_name, username, role')
-          .eq('is_active', true)
-          .order('full_name', { ascending: true });
-        if (data) setStaffMembers(data);
+        setStaffMembers(await repositories.users.listActiveStaff());
       } catch (err) {
         console.warn('Could not fetch staff members:', err);
       }
@@ -110,34 +112,18 @@ const JobsManager: React.FC<JobsManagerProps> = ({
   const fetchJobs = async (keepEditingJobClosed = false) => {
     try {
       console.log('📋 Fetching jobs...');
-      const { data, error } = await supabase
-        .from('jobs')
-        .select(`
-          *,
-          machine:machines(
-            name,
-            type,
-            venue:venues(name)
-          )
-        `)
-        .order('scheduled_date', { ascending: true })
-        .order('created_at', { ascending: false });
+      const data: Job[] = await repositories.jobs.listForBoard();
  
-      if (error) {
-        console.error('❌ Error fetching jobs:', error);
-        throw error;
-      }
- 
-      console.log('✅ Jobs fetched:', data?.length || 0);
+      console.log('✅ Jobs fetched:', data.length);
       
       // Separate active jobs from archived jobs
-      const activeJobs = data?.filter(job => !job.archived) || [];
-      const archived = data?.filter(job => job.archived) || [];
+      const activeJobs = data.filter(job => !job.archived);
+      const archived = data.filter(job => job.archived);
       
       setJobs(activeJobs);
       setArchivedJobs(archived);
  
-      if (editingJob && data && !keepEditingJobClosed) {
+      if (editingJob && !keepEditingJobClosed) {
         const updatedEditingJob = data.find(job => job.id === editingJob.id);
         if (updatedEditingJob) {
           console.log('🔄 Updating editing job with fresh data');
@@ -154,6 +140,19 @@ const JobsManager: React.FC<JobsManagerProps> = ({
     }
   };
  
+  // Opens jobs for maintenance plans that have come due; a failure shouldn't stop the board loading
+  const openDueMaintenanceJobs = async () => {
+    if (!hasPermission('create_jobs')) return;
+    try {
+      const opened = await runMaintenanceScheduler();
+      if (opened > 0) {
+        toast({ title: 'Maintenance Due', description: `${opened} preventive maintenance job${opened === 1 ? '' : 's'} opened` });
+      }
+    } catch (error) {
+      console.warn('⚠️ Maintenance scheduler failed:', error);
+    }
+  };
+ 
   const handleCompleteJob = async (job: Job) => {
     setCompletingJobId(job.id);
     
@@ -167,21 +166,13 @@ const JobsManager: React.FC<JobsManagerProps> = ({
         archived: true // Automatically archive when completed
       };
  
-      const { error } = await supabase
-        .from('jobs')
-        .update(updateData)
-        .eq('id', job.id);
- 
-      if (error) throw error;
+      await repositories.jobs.update(job.id, updateData);
  
       // Add completion note to progress updates
       const completionUpdate = `${new Date().toISOString()}: Job marked as completed and archived`;
       const updatedProgressUpdates = [...(job.progress_updates || []), completionUpdate];
       
-      await supabase
-        .from('jobs')
-        .update({ progress_updates: updatedProgressUpdates })
-        .eq('id', job.id);
+      await repositories.jobs.update(job.id, { progress_updates: updatedProgressUpdates });
  
       toast({
         title: 'Job Completed',
@@ -226,15 +217,7 @@ const JobsManager: React.FC<JobsManagerProps> = ({
         }
       }
       
-      const { error } = await supabase
-        .from('jobs')
-        .update(updateData)
-        .eq('id', job.id);
- 
-      if (error) {
-        console.error('❌ Restore error details:', error);
-        throw error;
-      }
+      await repositories.jobs.update(job.id, updateData);
  
       const message = updateData.scheduled_date === null 
         ? `${job.title} has been restored to active jobs (past schedule date was cleared)`
@@ -361,28 +344,13 @@ const JobsManager: React.FC<JobsManagerProps> = ({
  
       console.log('📝 Job data to insert:', jobData);
  
-      const { data, error } = await supabase
-        .from('jobs')
-        .insert([jobData])
-        .select(`
-          *,
-          machine:machines(
-            name,
-            type,
-            venue:venues(name, address)
-          )
-        `);
- 
-      if (error) {
-        console.error('❌ Database error:', error);
-        throw error;
-      }
+      const created = await repositories.jobs.create(jobData);
  
-      console.log('✅ Job created successfully:', data);
+      console.log('✅ Job created successfully:', created);
  
-      if (data && data[0]) {
+      if (created) {
         console.log('📧 Attempting to send notification...');
-        await sendJobNotification(data[0], data[0].machine, data[0].machine?.venue);
+        await sendJobNotification(created, created.machine, created.machine?.venue);
  
         // Upload any pending photos
         if (pendingPhotos.length > 0) {
@@ -391,7 +359,7 @@ const JobsManager: React.FC<JobsManagerProps> = ({
           for (const file of pendingPhotos) {
             try {
               const ext = file.name.split('.').pop()?.toLowerCase() || 'jpg';
-              const path = `job-photos/${data[0].id}/${Date.now()}-${Math.random().toString(36).slice(2)}.${ext}`;
+              const path = `job-photos/${created.id}/${Date.now()}-${Math.random().toString(36).slice(2)}.${ext}`;
               const { data: uploadData, error: uploadErr } = await supabase.storage
                 .from('venues')
                 .upload(path, file, { cacheControl: '3600', upsert: false });
@@ -404,7 +372,7 @@ const JobsManager: React.FC<JobsManagerProps> = ({
             }
           }
           if (uploadedUrls.length > 0) {
-            await supabase.from('jobs').update({ photo_urls: uploadedUrls }).eq('id', data[0].id);
+            await repositories.jobs.update(created.id, { photo_urls: uploadedUrls });
           }
           setUploadingPhoto(false);
         }
@@ -492,6 +460,12 @@ const JobsManager: React.FC<JobsManagerProps> = ({
                     📅 {scheduledDate}
                   </Badge>
                 )}
+                {Number(job.parts_cost) > 0 && (
+                  <Badge variant="outline" className="bg-orange-50 text-orange-700 border-orange-200">
+                    <Package className="h-3 w-3 mr-1" />
+                    ${Number(job.parts_cost).toFixed(2)} parts
+                  </Badge>
+                )}
                 {isArchived && (
                   <Badge variant="outline" className="bg-purple-50 text-purple-700 border-purple-200">
                     <Archive className="h-3 w-3 mr-1" />
@@ -500,7 +474,7 @@ const JobsManager: React.FC<JobsManagerProps> = ({
                 )}
               </div>
               <p className="text-sm text-gray-600">
-                {job.machine?.name} - {job.machine?.type}
+                {job.machine ? `${job.machine.name} - ${job.machine.type}` : job.equipment && `Hire equipment: ${job.equipment.name}`}
                 {job.machine?.venue?.name && ` @ ${job.machine.venue.name}`}
               </p>
             </div>
@@ -587,6 +561,8 @@ const JobsManager: React.FC<JobsManagerProps> = ({
     );
   };
  
+  const canManagePlans = hasPermission('manage_jobs');
+ 
   return (
     <div className="space-y-6">
       <div className="flex justify-between items-center">
@@ -773,7 +749,7 @@ const JobsManager: React.FC<JobsManagerProps> = ({
       )}
  
       <Tabs value={activeTab} onValueChange={setActiveTab} className="w-full">
-        <TabsList className="grid w-full grid-cols-4">
+        <TabsList className={`grid w-full ${canManagePlans ? 'grid-cols-5' : 'grid-cols-4'}`}>
           <TabsTrigger value="list" className="flex items-center gap-2">
             <List className="h-4 w-4" />
             Active Jobs ({jobs.length})
@@ -790,6 +766,12 @@ const JobsManager: React.FC<JobsManagerProps> = ({
             <History className="h-4 w-4" />
             Job History
           </TabsTrigger>
+          {canManagePlans && (
+            <TabsTrigger value="plans" className="flex items-center gap-2">
+              <CalendarClock className="h-4 w-4" />
+              Maintenance Plans
+            </TabsTrigger>
+          )}
         </TabsList>
  
         <TabsContent value="list" className="space-y-4">
@@ -876,6 +858,7 @@ const JobsManager: React.FC<JobsManagerProps> = ({
                   job.title?.toLowerCase().includes(q) ||
                   job.description?.toLowerCase().includes(q) ||
                   job.machine?.name?.toLowerCase().includes(q) ||
+                  job.equipment?.name?.toLowerCase().includes(q) ||
                   job.machine?.venue?.name?.toLowerCase().includes(q)
                 );
               })
@@ -903,6 +886,15 @@ const JobsManager: React.FC<JobsManagerProps> = ({
             );
           })()}
         </TabsContent>
+ 
+        {canManagePlans && (
+          <TabsContent value="plans">
+            <MaintenancePlansManager
+              currentUserId={currentUserId}
+              onChanged={() => openDueMaintenanceJobs().finally(() => fetchJobs())}
+            />
+          </TabsContent>
+        )}
       </Tabs>
  
       <JobEditDialog
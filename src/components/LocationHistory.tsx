@@ -22,8 +22,21 @@ interface LocationRecord {
   moved_from_venue_name: string;
   reason: string;
   moved_by: string;
+  // Set when the move was completed from Machine Moves
+  move_id?: string | null;
+  closing_toy_count?: number | null;
+  opening_toy_count?: number | null;
 }
 
+// Closing reading, and the opening reading when the meter didn't read the same afterwards
+const formatReadings = (record: LocationRecord) => {
+  if (record.closing_toy_count === null || record.closing_toy_count === undefined) return '—';
+  if (record.opening_toy_count === null || record.opening_toy_count === undefined || record.opening_toy_count === record.closing_toy_count) {
+    return String(record.closing_toy_count);
+  }
+  return `${record.closing_toy_count} → ${record.opening_toy_count}`;
+};
+
 interface LocationHistoryProps {
   machineId: string;
   machineName: string;
@@ -168,6 +181,7 @@ const LocationHistory: React.FC<LocationHistoryProps> = ({ machineId, machineNam
               <TableHead>Date</TableHead>
               <TableHead>From</TableHead>
               <TableHead>To</TableHead>
+              <TableHead>Toy Counter</TableHead>
               <TableHead>Reason</TableHead>
               <TableHead>Moved By</TableHead>
             </TableRow>
@@ -182,6 +196,9 @@ const LocationHistory: React.FC<LocationHistoryProps> = ({ machineId, machineNam
                 <TableCell>
                   <Badge variant="default">{record.venue_name}</Badge>
                 </TableCell>
+                <TableCell className="text-sm">
+                  {formatReadings(record)}
+                </TableCell>
                 <TableCell>{record.reason}</TableCell>
                 <TableCell>{record.moved_by}</TableCell>
               </TableRow>
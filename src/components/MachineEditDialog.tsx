@@ -7,11 +7,13 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
-import { Plus, Trash2, Package, Wrench, CreditCard, X, Search } from 'lucide-react';
+import { Plus, Trash2, Package, Wrench, CreditCard, X, Search, DollarSign } from 'lucide-react';
 import { useAppContext } from '@/contexts/AppContext';
 import { useToast } from '@/hooks/use-toast';
 import ImageUpload from '@/components/ImageUpload';
-import { supabase } from '@/lib/supabase';
+import DepreciationFields from '@/components/DepreciationFields';
+import { repositories, type DepreciationMethod } from '@/lib/repositories';
+import { depreciationProblem } from '@/lib/depreciation';
 
 interface MachineEditDialogProps {
   isOpen: boolean;
@@ -66,7 +68,12 @@ export const MachineEditDialog: React.FC<MachineEditDialogProps> = ({
     image_url: '',
     serial_number: '',
     rotation_period: '' as '' | 'none' | '3' | '6' | '12', // NEW: Rotation period
-    rotation_threshold: '300' // NEW: Earnings threshold
+    rotation_threshold: '300', // NEW: Earnings threshold
+    purchase_cost: '',
+    purchase_date: '',
+    depreciation_method: '' as DepreciationMethod | '',
+    useful_life_years: '',
+    residual_value: ''
   });
 
   useEffect(() => {
@@ -80,7 +87,12 @@ export const MachineEditDialog: React.FC<MachineEditDialogProps> = ({
           image_url: machine.image_url || '',
           serial_number: machine.serial_number || '',
           rotation_period: machine.rotation_period?.toString() || 'none',
-          rotation_threshold: machine.rotation_threshold?.toString() || '300'
+          rotation_threshold: machine.rotation_threshold?.toString() || '300',
+          purchase_cost: machine.purchase_cost?.toString() || '',
+          purchase_date: machine.purchase_date || '',
+          depreciation_method: machine.depreciation_method || '',
+          useful_life_years: machine.useful_life_years?.toString() || '',
+          residual_value: machine.residual_value?.toString() || ''
         });
         fetchMachineStock();
         fetchMachineParts();
@@ -95,7 +107,12 @@ export const MachineEditDialog: React.FC<MachineEditDialogProps> = ({
           image_url: '',
           serial_number: '',
           rotation_period: 'none',
-          rotation_threshold: '300'
+          rotation_threshold: '300',
+          purchase_cost: '',
+          purchase_date: '',
+          depreciation_method: '',
+          useful_life_years: '',
+          residual_value: ''
         });
         setMachineStock([]);
         setMachineParts([]);
@@ -109,21 +126,12 @@ export const MachineEditDialog: React.FC<MachineEditDialogProps> = ({
     if (!machine?.id) return;
     
     try {
-      const { data, error } = await supabase
-        .from('machine_rotations')
-        .select('rotation_period, rotation_threshold')
-        .eq('machine_id', machine.id)
-        .single();
-
-      if (error && error.code !== 'PGRST116') {
-        console.error('Error fetching rotation settings:', error);
-        return;
-      }
+      const data = await repositories.machineRotations.getForMachine(machine.id);
 
       if (data) {
         setFormData(prev => ({
           ...prev,
-          rotation_period: data.rotation_period?.toString() || 'none',
+          rotation_period: (data.rotation_period?.toString() || 'none') as typeof prev.rotation_period,
           rotation_threshold: data.rotation_threshold?.toString() || '300'
         }));
       }
@@ -136,19 +144,9 @@ export const MachineEditDialog: React.FC<MachineEditDialogProps> = ({
     if (!machine?.id) return;
     
     try {
-      const { data, error } = await supabase
-        .from('machine_paywave_terminals')
-        .select('*')
-        .eq('machine_id', machine.id)
-        .order('created_at', { ascending: true });
-
-      if (error) {
-        console.error('❌ Error fetching PayWave terminals:', error);
-        setPayWaveTerminals([{ name: '', terminal_number: '' }]);
-        return;
-      }
+      const data = await repositories.payWaveTerminals.listForMachine(machine.id);
 
-      if (data && data.length > 0) {
+      if (data.length > 0) {
         setPayWaveTerminals(data.map(terminal => ({
           id: terminal.id,
           name: terminal.name || '',
@@ -191,40 +189,16 @@ export const MachineEditDialog: React.FC<MachineEditDialogProps> = ({
 
   const savePayWaveTerminalsLocal = async (machineId: string) => {
     try {
-      if (machine?.id) {
-        await supabase
-          .from('machine_paywave_terminals')
-          .delete()
-          .eq('machine_id', machineId);
-      }
-
       const validTerminals = payWaveTerminals.filter(terminal => 
         terminal.name.trim() || terminal.terminal_number.trim()
       );
 
-      if (validTerminals.length === 0) {
-        console.log('No PayWave terminals to save');
-        return;
-      }
-
-      const terminalsToInsert = validTerminals.map(terminal => ({
-        machine_id: machineId,
+      // Replacing with an empty list clears the machine's terminals
+      await repositories.payWaveTerminals.replaceForMachine(machineId, validTerminals.map(terminal => ({
         name: terminal.name.trim(),
         terminal_number: terminal.terminal_number.trim()
-      }));
-
-      const { error } = await supabase
-        .from('machine_paywave_terminals')
-        .insert(terminalsToInsert);
-
-      if (error) {
-        console.error('❌ Error saving PayWave terminals:', error);
-        if (!error.message.includes('does not exist')) {
-          throw error;
-        }
-      } else {
-        console.log('✅ PayWave terminals saved successfully');
-      }
+      })));
+      console.log('✅ PayWave terminals saved successfully');
     } catch (error) {
       console.error('❌ Error in savePayWaveTerminalsLocal:', error);
     }
@@ -238,28 +212,13 @@ export const MachineEditDialog: React.FC<MachineEditDialogProps> = ({
         return;
       }
 
-      const rotationData = {
+      await repositories.machineRotations.saveSettings({
         machine_id: machineId,
         rotation_period: parseInt(formData.rotation_period),
         rotation_threshold: parseInt(formData.rotation_threshold) || 300,
         last_rotation_date: new Date().toISOString() // Set current date as last rotation
-      };
-
-      const { error } = await supabase
-        .from('machine_rotations')
-        .upsert(rotationData, { 
-          onConflict: 'machine_id',
-          ignoreDuplicates: false 
-        });
-
-      if (error) {
-        console.error('❌ Error saving rotation settings:', error);
-        if (!error.message.includes('does not exist')) {
-          throw error;
-        }
-      } else {
-        console.log('✅ Rotation settings saved successfully');
-      }
+      });
+      console.log('✅ Rotation settings saved successfully');
     } catch (error) {
       console.error('❌ Error in saveRotationSettings:', error);
     }
@@ -269,31 +228,9 @@ export const MachineEditDialog: React.FC<MachineEditDialogProps> = ({
     if (!machine?.id) return;
     
     try {
-      const { data, error } = await supabase
-        .from('machine_stock')
-        .select(`
-          id,
-          machine_id,
-          prize_id,
-          quantity,
-          notes,
-          prizes!inner(
-            id,
-            name,
-            cost,
-            stock_quantity,
-            image_url,
-            barcode
-          )
-        `)
-        .eq('machine_id', machine.id);
-
-      if (error) {
-        console.error('❌ Error fetching machine stock:', error);
-        throw error;
-      }
-      setMachineStock(data || []);
+      setMachineStock(await repositories.machineStock.listForMachine(machine.id));
     } catch (error) {
+      console.error('❌ Error fetching machine stock:', error);
       toast({
         title: 'Error',
         description: 'Failed to load machine stock',
@@ -306,31 +243,9 @@ export const MachineEditDialog: React.FC<MachineEditDialogProps> = ({
     if (!machine?.id) return;
 
     try {
-      const { data, error } = await supabase
-        .from('machine_parts')
-        .select(`
-          id,
-          machine_id,
-          part_id,
-          quantity,
-          notes,
-          parts!inner(
-            id,
-            name,
-            cost_price,
-            stock_quantity,
-            image_url,
-            barcode
-          )
-        `)
-        .eq('machine_id', machine.id);
-
-      if (error) {
-        console.error('❌ Error fetching machine parts:', error);
-        throw error;
-      }
-      setMachineParts(data || []);
+      setMachineParts(await repositories.machineParts.listForMachine(machine.id));
     } catch (error) {
+      console.error('❌ Error fetching machine parts:', error);
       toast({
         title: 'Error',
         description: 'Failed to load machine parts',
@@ -390,27 +305,34 @@ export const MachineEditDialog: React.FC<MachineEditDialogProps> = ({
       return;
     }
 
+    const financialProblem = depreciationProblem({ ...formData, depreciation_method: formData.depreciation_method || null });
+    if (financialProblem) {
+      toast({ title: 'Validation Error', description: financialProblem, variant: 'destructive' });
+      return;
+    }
+
     setIsSubmitting(true);
     try {
+      const depreciating = !!formData.depreciation_method;
       const machineData = {
         name: formData.name.trim(),
         type: formData.type.trim(),
         venue_id: formData.venue_id === 'none' ? null : formData.venue_id,
         status: formData.status,
         image_url: formData.image_url || null,
-        serial_number: formData.serial_number.trim() || null
+        serial_number: formData.serial_number.trim() || null,
+        purchase_cost: formData.purchase_cost ? parseFloat(formData.purchase_cost) : null,
+        purchase_date: formData.purchase_date || null,
+        depreciation_method: formData.depreciation_method || null,
+        useful_life_years: depreciating && formData.useful_life_years ? parseFloat(formData.useful_life_years) : null,
+        residual_value: depreciating && formData.residual_value ? parseFloat(formData.residual_value) : null
       };
 
       let machineId: string;
 
       if (machine) {
         // Updating existing machine
-        const { error } = await supabase
-          .from('machines')
-          .update(machineData)
-          .eq('id', machine.id);
-
-        if (error) throw new Error(`Failed to update machine: ${error.message}`);
+        await repositories.machines.update(machine.id, machineData);
         machineId = machine.id;
         
         // Save PayWave terminals for existing machine
@@ -495,13 +417,10 @@ export const MachineEditDialog: React.FC<MachineEditDialogProps> = ({
 
       setMachineStock(prev => [...prev, optimisticStock]);
 
-      const { data, error } = await supabase
-        .from('machine_stock')
-        .insert([{ machine_id: machine.id, prize_id: prizeId, quantity, notes }])
-        .select('*')
-        .single();
-
-      if (error) {
+      let data: { id: string };
+      try {
+        data = await repositories.machineStock.create({ machine_id: machine.id, prize_id: prizeId, quantity, notes });
+      } catch (error) {
         setMachineStock(prev => prev.filter(stock => stock.id !== optimisticStock.id));
         throw error;
       }
@@ -516,7 +435,7 @@ export const MachineEditDialog: React.FC<MachineEditDialogProps> = ({
 
       if (prize) {
         const newStock = Math.max(0, prize.stock_quantity - quantity);
-        await supabase.from('prizes').update({ stock_quantity: newStock }).eq('id', prizeId);
+        await repositories.prizes.setStock(prizeId, newStock);
       }
 
       refreshData();
@@ -550,13 +469,10 @@ export const MachineEditDialog: React.FC<MachineEditDialogProps> = ({
 
       setMachineParts(prev => [...prev, optimisticPart]);
 
-      const { data, error } = await supabase
-        .from('machine_parts')
-        .insert([{ machine_id: machine.id, part_id: partId, quantity, notes }])
-        .select('*')
-        .single();
-
-      if (error) {
+      let data: { id: string };
+      try {
+        data = await repositories.machineParts.create({ machine_id: machine.id, part_id: partId, quantity, notes });
+      } catch (error) {
         setMachineParts(prev => prev.filter(part => part.id !== optimisticPart.id));
         throw error;
       }
@@ -571,7 +487,7 @@ export const MachineEditDialog: React.FC<MachineEditDialogProps> = ({
 
       if (part) {
         const newStock = Math.max(0, part.stock_quantity - quantity);
-        await supabase.from('parts').update({ stock_quantity: newStock }).eq('id', partId);
+        await repositories.parts.setStock(partId, newStock);
       }
 
       refreshData();
@@ -592,9 +508,9 @@ export const MachineEditDialog: React.FC<MachineEditDialogProps> = ({
       const stockToRemove = machineStock.find(stock => stock.id === stockId);
       setMachineStock(prev => prev.filter(stock => stock.id !== stockId));
 
-      const { error } = await supabase.from('machine_stock').delete().eq('id', stockId);
-      
-      if (error) {
+      try {
+        await repositories.machineStock.remove(stockId);
+      } catch (error) {
         if (stockToRemove) {
           setMachineStock(prev => [...prev, stockToRemove]);
         }
@@ -619,12 +535,9 @@ export const MachineEditDialog: React.FC<MachineEditDialogProps> = ({
       const partToRemove = machineParts.find(part => part.id === partStockId);
       setMachineParts(prev => prev.filter(part => part.id !== partStockId));
 
-      const { error } = await supabase
-        .from('machine_parts')
-        .delete()
-        .eq('id', partStockId);
-
-      if (error) {
+      try {
+        await repositories.machineParts.remove(partStockId);
+      } catch (error) {
         if (partToRemove) {
           setMachineParts(prev => [...prev, partToRemove]);
         }
@@ -775,6 +688,7 @@ export const MachineEditDialog: React.FC<MachineEditDialogProps> = ({
                     <TabsTrigger value="basic">Basic Info</TabsTrigger>
                     <TabsTrigger value="rotation">Rotation Schedule</TabsTrigger>
                     <TabsTrigger value="paywave">PayWave Terminals</TabsTrigger>
+                    <TabsTrigger value="financial">Financial</TabsTrigger>
                     {machine && <TabsTrigger value="prizes">Prizes</TabsTrigger>}
                     {machine && <TabsTrigger value="parts">Parts</TabsTrigger>}
                 </TabsList>
@@ -956,6 +870,52 @@ export const MachineEditDialog: React.FC<MachineEditDialogProps> = ({
                     </Card>
                 </TabsContent>
 
+                <TabsContent value="financial" className="space-y-4">
+                    <Card>
+                        <CardHeader>
+                            <CardTitle className="flex items-center gap-2">
+                                <DollarSign className="h-5 w-5" />
+                                Purchase & Depreciation
+                            </CardTitle>
+                            <p className="text-sm text-gray-600">
+                                The book value in the fleet valuation is worked out from these
+                            </p>
+                        </CardHeader>
+                        <CardContent className="space-y-4">
+                            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                                <div>
+                                    <Label htmlFor="purchase_date">Purchase Date</Label>
+                                    <Input
+                                        id="purchase_date"
+                                        type="date"
+                                        value={formData.purchase_date}
+                                        onChange={(e) => setFormData({ ...formData, purchase_date: e.target.value })}
+                                    />
+                                </div>
+                                <div>
+                                    <Label htmlFor="purchase_cost">Purchase Cost ($)</Label>
+                                    <Input
+                                        id="purchase_cost"
+                                        type="number"
+                                        step="0.01"
+                                        min="0"
+                                        value={formData.purchase_cost}
+                                        onChange={(e) => setFormData({ ...formData, purchase_cost: e.target.value })}
+                                        placeholder="0.00"
+                                    />
+                                </div>
+                            </div>
+                            <DepreciationFields
+                                asset={formData}
+                                onChange={(field, value) => setFormData(prev => ({
+                                    ...prev,
+                                    [field]: value
+                                }))}
+                            />
+                        </CardContent>
+                    </Card>
+                </TabsContent>
+
                 <TabsContent value="paywave" className="space-y-4">
                     <Card>
                         <CardHeader>
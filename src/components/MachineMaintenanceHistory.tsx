@@ -25,8 +25,10 @@ import {
   Settings
 } from 'lucide-react';
 import { supabase } from '@/lib/supabase';
+import { repositories } from '@/lib/repositories';
 import { useToast } from '@/hooks/use-toast';
 import { useAppContext } from '@/contexts/AppContext';
+import MaintenancePlanCompliance from './MaintenancePlanCompliance';
 
 interface MaintenanceRecord {
   id: string;
@@ -99,7 +101,14 @@ const MachineMaintenanceHistory: React.FC<MachineMaintenanceHistoryProps> = ({
       if (jobsError) {
         console.error('Error fetching jobs:', jobsError);
       } else if (jobs) {
+        // Parts recorded on each job, for what was used and what it cost
+        const jobParts = await repositories.jobParts.listForJobs(jobs.map(job => job.id)).catch(partsError => {
+          console.error('Error fetching job parts:', partsError);
+          return [];
+        });
+
         jobs.forEach(job => {
+          const partsUsed = jobParts.filter(row => row.job_id === job.id);
           allRecords.push({
             id: `job-${job.id}`,
             machine_id: machineId,
@@ -109,7 +118,8 @@ const MachineMaintenanceHistory: React.FC<MachineMaintenanceHistoryProps> = ({
             title: job.title,
             description: job.description || '',
             technician: job.completed_by || 'Unknown',
-            cost: 0, // Could be calculated from parts used
+            cost: Number(job.parts_cost) || 0,
+            parts_used: partsUsed.length > 0 ? partsUsed : undefined,
             status: job.status,
             priority: job.priority,
             source_id: job.id
@@ -309,6 +319,19 @@ const MachineMaintenanceHistory: React.FC<MachineMaintenanceHistoryProps> = ({
 
   // Calculate statistics
   const totalCost = records.reduce((sum, record) => sum + record.cost, 0);
+  // Last six months that had any cost, newest first
+  const costByMonth = Object.entries(
+    records.reduce((acc, record) => {
+      if (record.cost > 0) {
+        const month = record.date.slice(0, 7);
+        acc[month] = (acc[month] || 0) + record.cost;
+      }
+      return acc;
+    }, {} as Record<string, number>)
+  )
+    .sort(([a], [b]) => b.localeCompare(a))
+    .slice(0, 6)
+    .map(([month, cost]) => ({ month, cost }));
   const jobsCompleted = records.filter(r => r.type === 'job' && r.status === 'completed').length;
   const partsInstallations = records.filter(r => r.type === 'parts').length;
   const manualEntries = records.filter(r => r.type === 'manual').length;
@@ -409,10 +432,11 @@ const MachineMaintenanceHistory: React.FC<MachineMaintenanceHistoryProps> = ({
         </CardHeader>
         <CardContent>
           <Tabs value={activeTab} onValueChange={setActiveTab}>
-            <TabsList className="grid w-full grid-cols-3">
+            <TabsList className="grid w-full grid-cols-4">
               <TabsTrigger value="timeline">Timeline View</TabsTrigger>
               <TabsTrigger value="table">Table View</TabsTrigger>
               <TabsTrigger value="analytics">Analytics</TabsTrigger>
+              <TabsTrigger value="plans">Plans</TabsTrigger>
             </TabsList>
 
             <TabsContent value="timeline" className="space-y-4 mt-6">
@@ -640,11 +664,31 @@ const MachineMaintenanceHistory: React.FC<MachineMaintenanceHistoryProps> = ({
                           </div>
                         </div>
                       </div>
+
+                      <div>
+                        <h4 className="font-medium mb-2">Cost by Month</h4>
+                        <div className="space-y-1 text-sm">
+                          {costByMonth.length === 0 ? (
+                            <p className="text-gray-500">No costs recorded</p>
+                          ) : (
+                            costByMonth.map(({ month, cost }) => (
+                              <div key={month} className="flex justify-between">
+                                <span>{new Date(`${month}-01T00:00:00`).toLocaleDateString(undefined, { month: 'short', year: 'numeric' })}</span>
+                                <span className="font-medium">${cost.toFixed(2)}</span>
+                              </div>
+                            ))
+                          )}
+                        </div>
+                      </div>
                     </div>
                   </CardContent>
                 </Card>
               </div>
             </TabsContent>
+
+            <TabsContent value="plans" className="mt-6">
+              <MaintenancePlanCompliance machineId={machineId} />
+            </TabsContent>
           </Tabs>
         </CardContent>
       </Card>
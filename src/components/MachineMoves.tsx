@@ -12,13 +12,16 @@ import { Calendar } from '@/components/ui/calendar';
 import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
 import {
   Plus, Truck, ArrowRight, Package, CalendarIcon, X, Edit, CheckCircle,
-  Clock, Search, Filter, XCircle, RotateCcw
+  Clock, Search, Filter, XCircle, RotateCcw, AlertTriangle
 } from 'lucide-react';
 import { format, parseISO } from 'date-fns';
 import { supabase } from '@/lib/supabase';
 import { useAppContext } from '@/contexts/AppContext';
 import { useToast } from '@/hooks/use-toast';
 import { cn } from '@/lib/utils';
+import CompleteMoveDialog from './CompleteMoveDialog';
+import type { MachineMeasurementRow, VenueCapacityRow } from '@/lib/repositories';
+import { loadCapacityData, placementWarnings, typicalSize, venueUtilisation } from '@/lib/venueCapacity';
 
 interface MachineMove {
   id: string;
@@ -78,6 +81,7 @@ const MachineMoves: React.FC = () => {
   const [formType, setFormType] = useState<'request' | 'relocation'>('request');
   const [submitting, setSubmitting] = useState(false);
   const [editingMove, setEditingMove] = useState<MachineMove | null>(null);
+  const [completingMove, setCompletingMove] = useState<MachineMove | null>(null);
   const [activeTab, setActiveTab] = useState('active');
   const [searchTerm, setSearchTerm] = useState('');
   const [statusFilter, setStatusFilter] = useState<string>('all');
@@ -85,6 +89,8 @@ const MachineMoves: React.FC = () => {
   const [requestForm, setRequestForm] = useState({ ...BLANK_REQUEST });
   const [relocationForm, setRelocationForm] = useState({ ...BLANK_RELOCATION });
   const [machineSearch, setMachineSearch] = useState('');
+  const [capacityByVenue, setCapacityByVenue] = useState<Map<string, VenueCapacityRow>>(new Map());
+  const [measurements, setMeasurements] = useState<Map<string, MachineMeasurementRow>>(new Map());
 
   // ── Fetch ───────────────────────────────────────────────────────────────────
   const fetchMoves = async () => {
@@ -119,9 +125,50 @@ const MachineMoves: React.FC = () => {
 
   useEffect(() => { fetchMoves(); }, [venues, machines]);
 
+  useEffect(() => {
+    loadCapacityData()
+      .then(data => {
+        setCapacityByVenue(data.capacityByVenue);
+        setMeasurements(data.measurements);
+      })
+      .catch(err => console.warn('⚠️ Could not load venue capacity:', err));
+  }, []);
+
+  // ── Capacity checks ─────────────────────────────────────────────────────────
+  const capacityWarnings = useMemo(() => {
+    const venueId = formType === 'request' ? requestForm.requested_venue_id : relocationForm.to_venue_id;
+    if (!venueId) return [];
+    const capacity = capacityByVenue.get(venueId);
+    const utilisation = venueUtilisation(venueId, capacity, machines, measurements);
+    if (formType === 'request') {
+      if (!requestForm.machine_type.trim()) return [];
+      const size = typicalSize(requestForm.machine_type, machines, measurements);
+      return placementWarnings(Array(Math.max(parseInt(requestForm.quantity) || 1, 1)).fill(size), capacity, utilisation);
+    }
+    const incoming = relocationForm.machine_ids.filter(id => machines.find(m => m.id === id)?.venue_id !== venueId);
+    return placementWarnings(incoming.map(id => measurements.get(id)), capacity, utilisation);
+  }, [formType, requestForm, relocationForm, capacityByVenue, measurements, machines]);
+
+  // Same checks for a move that hasn't happened yet
+  const moveWarnings = (move: MachineMove) => {
+    if (move.status === 'completed' || move.status === 'cancelled') return [];
+    const venueId = move.type === 'request' ? move.requested_venue_id : move.to_venue_id;
+    if (!venueId) return [];
+    const capacity = capacityByVenue.get(venueId);
+    const utilisation = venueUtilisation(venueId, capacity, machines, measurements);
+    if (move.type === 'request') {
+      const size = move.machine_type ? typicalSize(move.machine_type, machines, measurements) : null;
+      return placementWarnings(Array(Math.max(move.quantity || 1, 1)).fill(size), capacity, utilisation);
+    }
+    return move.machine_id ? placementWarnings([measurements.get(move.machine_id)], capacity, utilisation) : [];
+  };
+
   // ── Submit ──────────────────────────────────────────────────────────────────
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
+    if (capacityWarnings.length > 0 && !confirm(`This venue may not take it:\n\n${capacityWarnings.join('\n')}\n\nCreate anyway?`)) {
+      return;
+    }
     setSubmitting(true);
     try {
       if (formType === 'request') {
@@ -291,6 +338,11 @@ const MachineMoves: React.FC = () => {
                 </div>
               )}
 
+              {moveWarnings(move).map(warning => (
+                <p key={warning} className="text-xs text-orange-700 mt-1 flex items-center gap-1">
+                  <AlertTriangle className="h-3 w-3 shrink-0" />{warning}
+                </p>
+              ))}
               {move.reason && <p className="text-xs text-gray-500 mt-1">Reason: {move.reason}</p>}
               {move.notes && <p className="text-xs text-gray-400 mt-0.5 italic">{move.notes}</p>}
 
@@ -318,7 +370,7 @@ const MachineMoves: React.FC = () => {
                   )}
                   {(move.status === 'approved' || move.status === 'in_progress') && (
                     <Button size="sm" className="text-xs bg-green-600 hover:bg-green-700"
-                      onClick={() => updateStatus(move.id, 'completed')}>
+                      onClick={() => isRequest ? updateStatus(move.id, 'completed') : setCompletingMove(move)}>
                       <CheckCircle className="h-3 w-3 mr-1" />Complete
                     </Button>
                   )}
@@ -332,7 +384,8 @@ const MachineMoves: React.FC = () => {
                   </Button>
                 </>
               )}
-              {(move.status === 'completed' || move.status === 'cancelled') && (
+              {/* A completed relocation has moved the machine, so it can't be reopened */}
+              {(move.status === 'cancelled' || (move.status === 'completed' && isRequest)) && (
                 <Button size="sm" variant="ghost" className="text-xs text-gray-500"
                   onClick={() => updateStatus(move.id, 'pending')}>
                   <RotateCcw className="h-3 w-3 mr-1" />Reopen
@@ -498,6 +551,16 @@ const MachineMoves: React.FC = () => {
                 </>
               )}
 
+              {capacityWarnings.length > 0 && (
+                <div className="rounded-md border border-orange-200 bg-orange-50 p-3 text-sm text-orange-800 space-y-1">
+                  {capacityWarnings.map(warning => (
+                    <p key={warning} className="flex items-center gap-2">
+                      <AlertTriangle className="h-4 w-4 shrink-0" />{warning}
+                    </p>
+                  ))}
+                </div>
+              )}
+
               {/* Common fields */}
               <div>
                 <Label>Reason</Label>
@@ -628,6 +691,12 @@ const MachineMoves: React.FC = () => {
         ))}
       </Tabs>
 
+      <CompleteMoveDialog
+        move={completingMove}
+        onClose={() => setCompletingMove(null)}
+        onCompleted={() => { setCompletingMove(null); fetchMoves(); }}
+      />
+
       {/* Edit dialog */}
       <Dialog open={!!editingMove} onOpenChange={() => setEditingMove(null)}>
         <DialogContent>
@@ -638,12 +707,19 @@ const MachineMoves: React.FC = () => {
             <div className="space-y-4">
               <div>
                 <Label>Status</Label>
-                <Select value={editingMove.status} onValueChange={v => setEditingMove(m => m ? { ...m, status: v as any } : m)}>
+                <Select
+                  value={editingMove.status}
+                  onValueChange={v => setEditingMove(m => m ? { ...m, status: v as any } : m)}
+                  disabled={editingMove.type === 'relocation' && !!editingMove.completed_at}
+                >
                   <SelectTrigger><SelectValue /></SelectTrigger>
                   <SelectContent>
-                    {Object.entries(STATUS_CONFIG).map(([k, v]) => (
-                      <SelectItem key={k} value={k}>{v.label}</SelectItem>
-                    ))}
+                    {/* Relocations are completed with their readings, from the Complete button */}
+                    {Object.entries(STATUS_CONFIG)
+                      .filter(([k]) => k !== 'completed' || editingMove.type !== 'relocation' || editingMove.completed_at)
+                      .map(([k, v]) => (
+                        <SelectItem key={k} value={k}>{v.label}</SelectItem>
+                      ))}
                   </SelectContent>
                 </Select>
               </div>
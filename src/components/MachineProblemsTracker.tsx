@@ -8,6 +8,10 @@ import { supabase } from '@/lib/supabase';
 import { useAppContext } from '@/contexts/AppContext';
 import { useToast } from '@/hooks/use-toast';
 import ServiceScheduleDialog from './ServiceScheduleDialog';
+import { usePayoutTargets } from '@/hooks/usePayoutTargets';
+import { assessPayout, formatPayoutBand, type PayoutBand } from '@/lib/payoutTargets';
+import { PAYOUT_REPORT_COLUMNS, summariseByMachine } from '@/lib/payoutCalculations';
+import { loadHistoricalPrizeCost } from '@/lib/prizeCosting';
 
 interface MachinePart {
   id: string;
@@ -41,6 +45,7 @@ interface MachinePayoutIssue {
   venue_name?: string;
   average_payout: number;
   payout_type: 'too_high' | 'too_low';
+  target_band: PayoutBand;
   reports_count: number;
   problem_severity: 'high' | 'medium' | 'low';
 }
@@ -62,12 +67,16 @@ const MachineProblemsTracker: React.FC = () => {
   const [showServiceDialog, setShowServiceDialog] = useState(false);
   const [selectedMachine, setSelectedMachine] = useState<any>(null);
   const [dismissedAlerts, setDismissedAlerts] = useState<Set<string>>(new Set());
+  const { targets: payoutTargets, bandFor } = usePayoutTargets();
 
   useEffect(() => {
     analyzeMachinePartUsage();
-    analyzePayoutIssues(); // NEW
   }, [machines]);
 
+  useEffect(() => {
+    analyzePayoutIssues(); // NEW
+  }, [machines, payoutTargets]);
+
   // NEW: Analyze payout issues
   const analyzePayoutIssues = async () => {
     try {
@@ -78,7 +87,7 @@ const MachineProblemsTracker: React.FC = () => {
 
       const { data: recentReports, error } = await supabase
         .from('machine_reports')
-        .select('machine_id, money_collected, prize_value, created_at')
+        .select(PAYOUT_REPORT_COLUMNS)
         .gte('created_at', thirtyDaysAgo.toISOString());
 
       if (error) {
@@ -91,60 +100,39 @@ const MachineProblemsTracker: React.FC = () => {
         return;
       }
 
-      // Group by machine and calculate average payout
-      const machinePayouts = new Map<string, { payouts: number[], totalReports: number }>();
-      
-      recentReports.forEach(report => {
-        if (report.money_collected > 0 && report.prize_value > 0) {
-          const payout = (report.prize_value / report.money_collected) * 100;
-          
-          if (!machinePayouts.has(report.machine_id)) {
-            machinePayouts.set(report.machine_id, { payouts: [], totalReports: 0 });
-          }
-          
-          const machineData = machinePayouts.get(report.machine_id)!;
-          machineData.payouts.push(payout);
-          machineData.totalReports++;
-        }
-      });
+      // Payout over the period per machine: total prize value over total takings
+      const prizeCost = await loadHistoricalPrizeCost(machines);
+      const machinePayouts = summariseByMachine(recentReports, { prizeCost });
 
       const payoutIssues: MachinePayoutIssue[] = [];
 
-      machinePayouts.forEach((data, machineId) => {
+      machinePayouts.forEach((summary, machineId) => {
         const machine = machines.find(m => m.id === machineId);
-        if (!machine || data.payouts.length < 3) return; // Need at least 3 reports
+        if (!machine || summary.pricedReportCount < 3) return; // Need at least 3 reports
 
         const venue = venues.find(v => v.id === machine.venue_id);
-        const averagePayout = data.payouts.reduce((sum, p) => sum + p, 0) / data.payouts.length;
+        const averagePayout = summary.payoutPercent;
 
         // Check if dismissed
         const highPayoutKey = `${machineId}_payout_high`;
         const lowPayoutKey = `${machineId}_payout_low`;
         
-        let issueType: 'too_high' | 'too_low' | null = null;
-        let severity: 'high' | 'medium' | 'low' = 'medium';
-
-        if (averagePayout > 30) {
-          if (!dismissedAlerts.has(highPayoutKey)) {
-            issueType = 'too_high';
-            severity = averagePayout > 40 ? 'high' : 'medium';
-          }
-        } else if (averagePayout < 10) {
-          if (!dismissedAlerts.has(lowPayoutKey)) {
-            issueType = 'too_low';
-            severity = averagePayout < 5 ? 'high' : 'medium';
-          }
-        }
+        // Severity grows with how far outside the machine's own target band it is
+        const assessment = assessPayout(averagePayout, bandFor(machine));
+        const dismissed = assessment.status === 'too_high'
+          ? dismissedAlerts.has(highPayoutKey)
+          : dismissedAlerts.has(lowPayoutKey);
 
-        if (issueType) {
+        if (assessment.status !== 'ok' && !dismissed) {
           payoutIssues.push({
             machine_id: machineId,
             machine_name: machine.name,
             venue_name: venue?.name,
             average_payout: averagePayout,
-            payout_type: issueType,
-            reports_count: data.totalReports,
-            problem_severity: severity
+            payout_type: assessment.status,
+            target_band: assessment.band,
+            reports_count: summary.pricedReportCount,
+            problem_severity: assessment.severity
           });
         }
       });
@@ -634,7 +622,7 @@ const MachineProblemsTracker: React.FC = () => {
                   <div>
                     <span className="text-gray-500">Target Range:</span>
                     <div className="font-semibold text-green-600">
-                      10% - 30%
+                      {formatPayoutBand(machine.target_band)}
                     </div>
                   </div>
                   <div>
@@ -6,21 +6,48 @@ import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Textarea } from '@/components/ui/textarea';
 import { Badge } from '@/components/ui/badge';
 import { useAppContext } from '@/contexts/AppContext';
-import { supabase } from '@/lib/supabase';
 import { useToast } from '@/hooks/use-toast';
-import { Calculator, TrendingUp, TrendingDown, Minus } from 'lucide-react';
+import { useOfflineReports } from '@/hooks/useOfflineReports';
+import { enqueueReport, type PendingReport, type QueuedReportPayload } from '@/lib/offlineReportQueue';
+import {
+  discardPendingReport,
+  fetchLatestToyCount,
+  isNetworkError,
+  isOnline,
+  resolveConflictBySubmitting,
+  submitMachineReport,
+  type LatestToyCount
+} from '@/lib/reportSync';
+import { Calculator, TrendingUp, TrendingDown, Minus, CloudOff, RefreshCw, AlertTriangle } from 'lucide-react';
+import { resolveToyCount, type CounterEvent, type CounterResolution } from '@/lib/toyCounter';
+import { checkCashCollection, loadCashCheckContext, type CashCheckContext } from '@/lib/cashReconciliation';
 import MachineSelectInput from './MachineSelectInput';
+import ToyCounterEventFields from './ToyCounterEventFields';
 
-const MachineReportForm: React.FC = () => {
+interface MachineReportFormProps {
+  // Fixes the form to one machine, e.g. when collecting from a run sheet
+  machineId?: string;
+  // reportId is null when the report was queued offline
+  onSubmitted?: (machineId: string, reportId: string | null) => void;
+}
+
+const MachineReportForm: React.FC<MachineReportFormProps> = ({ machineId, onSubmitted }) => {
   const { machines, refreshData } = useAppContext();
   const { toast } = useToast();
-  const [selectedMachine, setSelectedMachine] = useState('');
+  const { online, pendingReports, syncing, syncNow } = useOfflineReports(refreshData);
+  const [baselineReportId, setBaselineReportId] = useState<string | null>(null);
+  const [toyCountSource, setToyCountSource] = useState<LatestToyCount['source'] | null>(null);
+  const [selectedMachine, setSelectedMachine] = useState(machineId || '');
   const [tokensInGame, setTokensInGame] = useState('');
   const [moneyCollected, setMoneyCollected] = useState('');
   const [currentToyCount, setCurrentToyCount] = useState('');
   const [notes, setNotes] = useState('');
   const [previousToyCount, setPreviousToyCount] = useState<number | null>(null);
   const [calculatedToys, setCalculatedToys] = useState<number | null>(null);
+  const [counterEvent, setCounterEvent] = useState<CounterEvent | null>(null);
+  const [finalReading, setFinalReading] = useState('');
+  const [counterResolution, setCounterResolution] = useState<CounterResolution | null>(null);
+  const [cashContext, setCashContext] = useState<CashCheckContext | null>(null);
   const [loading, setLoading] = useState(false);
 
   useEffect(() => {
@@ -29,49 +56,46 @@ const MachineReportForm: React.FC = () => {
     }
   }, [selectedMachine]);
 
+  useEffect(() => {
+    setCashContext(null);
+    const machine = machines.find(m => m.id === selectedMachine);
+    if (!machine || !isOnline()) return;
+
+    let cancelled = false;
+    loadCashCheckContext(machine, new Date().toISOString().split('T')[0])
+      .then(context => { if (!cancelled) setCashContext(context); })
+      .catch(error => console.warn('⚠️ Could not load expected takings:', error));
+    return () => { cancelled = true; };
+  }, [selectedMachine, machines]);
+
   useEffect(() => {
     if (currentToyCount && previousToyCount !== null) {
-      const current = parseInt(currentToyCount);
-      const diff = current - previousToyCount;
-      setCalculatedToys(diff >= 0 ? diff : 0);
+      const resolution = resolveToyCount({
+        previous: previousToyCount,
+        current: parseInt(currentToyCount),
+        event: counterEvent,
+        finalReading: finalReading ? parseInt(finalReading) : null
+      });
+      setCounterResolution(resolution);
+      // Flagged readings are saved with no toys until someone reviews them
+      setCalculatedToys(resolution.error || resolution.flagReason ? 0 : resolution.toys);
     } else {
+      setCounterResolution(null);
       setCalculatedToys(null);
     }
-  }, [currentToyCount, previousToyCount]);
+  }, [currentToyCount, previousToyCount, counterEvent, finalReading]);
 
   const fetchLastToyCount = async (machineId: string) => {
     try {
-      let { data, error } = await supabase
-        .from('machine_reports')
-        .select('current_toy_count')
-        .eq('machine_id', machineId)
-        .order('created_at', { ascending: false })
-        .limit(1);
-
-      if (!data || data.length === 0) {
-        const { data: reportsData, error: reportsError } = await supabase
-          .from('reports')
-          .select('toy_counter_reading')
-          .eq('machine_id', machineId)
-          .order('created_at', { ascending: false })
-          .limit(1);
-
-        if (!reportsError && reportsData && reportsData.length > 0) {
-          setPreviousToyCount(reportsData[0].toy_counter_reading || 0);
-          return;
-        }
-      }
-
-      if (error) {
-        console.warn('Error fetching last toy count:', error);
-        setPreviousToyCount(0);
-        return;
-      }
-
-      setPreviousToyCount(data && data.length > 0 ? (data[0].current_toy_count || 0) : 0);
+      const latest = await fetchLatestToyCount(machineId);
+      setPreviousToyCount(latest.current_toy_count);
+      setBaselineReportId(latest.report_id);
+      setToyCountSource(latest.source);
     } catch (error) {
       console.error('Error fetching last toy count:', error);
       setPreviousToyCount(0);
+      setBaselineReportId(null);
+      setToyCountSource(null);
     }
   };
 
@@ -93,71 +117,98 @@ const MachineReportForm: React.FC = () => {
       return;
     }
 
+    if (counterResolution?.error) {
+      toast({ title: 'Check Toy Counter', description: counterResolution.error, variant: 'destructive' });
+      return;
+    }
+
     const prizeValue = calculatePrizeValue();
     const toysDispensed = calculatedToys || 0;
+    const machine = machines.find(m => m.id === selectedMachine);
 
-    const reportData = {
+    const reportData: QueuedReportPayload = {
       machine_id: selectedMachine,
+      venue_id: machine?.venue_id,
       money_collected: parseFloat(moneyCollected) || 0,
       current_toy_count: parseInt(currentToyCount) || 0,
       previous_toy_count: previousToyCount || 0,
       toys_dispensed: toysDispensed,
       prize_value: prizeValue,
-      report_date: new Date().toISOString().split('T')[0]
+      report_date: new Date().toISOString().split('T')[0],
+      commission_percentage: machine?.venue?.commission_percentage || 30
     };
 
+    if (counterEvent) {
+      reportData.counter_event = counterEvent;
+      if (counterEvent !== 'rollover') {
+        reportData.counter_final_reading = parseInt(finalReading);
+      }
+    }
+    if (counterResolution?.flagReason) {
+      reportData.counter_review_status = 'pending';
+      reportData.counter_review_reason = counterResolution.flagReason;
+    }
+
     if (tokensInGame) {
-      (reportData as any).tokens_in_game = parseInt(tokensInGame);
+      reportData.tokens_in_game = parseInt(tokensInGame);
     }
     if (notes.trim()) {
-      (reportData as any).notes = notes.trim();
+      reportData.notes = notes.trim();
     }
 
-    setLoading(true);
-    try {
-      const { data, error } = await supabase
-        .from('machine_reports')
-        .insert([reportData])
-        .select();
-
-      if (error) throw new Error(`Database error: ${error.message}`);
-
-      try {
-        const machine = machines.find(m => m.id === selectedMachine);
-        const mainReportData = {
-          machine_id: selectedMachine,
-          venue_id: machine?.venue_id,
-          revenue: parseFloat(moneyCollected) || 0,
-          toy_counter_reading: parseInt(currentToyCount) || 0,
-          toys_dispensed: toysDispensed,
-          tokens_in_game: parseFloat(tokensInGame) || 0,
-          commission_rate: machine?.venue?.commission_percentage || 30,
-          commission_amount: (parseFloat(moneyCollected) || 0) * ((machine?.venue?.commission_percentage || 30) / 100),
-          net_revenue: (parseFloat(moneyCollected) || 0) * (1 - ((machine?.venue?.commission_percentage || 30) / 100)),
-          payout_percentage: moneyCollected ? (prizeValue / parseFloat(moneyCollected) * 100) : 0,
-          report_date: new Date().toISOString().split('T')[0],
-          notes: notes.trim() || null
-        };
-        await supabase.from('reports').insert([mainReportData]);
-      } catch (mainReportError) {
-        console.warn('Failed to create main report entry:', mainReportError);
-      }
-
-      toast({
-        title: 'Report Created',
-        description: `Toys dispensed: ${toysDispensed}, Prize value: $${prizeValue.toFixed(2)}`
-      });
-
-      setSelectedMachine('');
+    const resetForm = () => {
+      setSelectedMachine(machineId || '');
       setTokensInGame('');
       setMoneyCollected('');
       setCurrentToyCount('');
       setNotes('');
       setPreviousToyCount(null);
       setCalculatedToys(null);
+      setCounterEvent(null);
+      setFinalReading('');
+      setCashContext(null);
+      setBaselineReportId(null);
+      setToyCountSource(null);
+    };
+
+    const queueForSync = async () => {
+      await enqueueReport(reportData, baselineReportId, machine?.name);
+      toast({
+        title: 'Saved Offline',
+        description: `No connection — report for ${machine?.name || 'machine'} will sync automatically`
+      });
+      resetForm();
+      onSubmitted?.(reportData.machine_id, null);
+    };
+
+    setLoading(true);
+    try {
+      if (!isOnline()) {
+        await queueForSync();
+        return;
+      }
+
+      const inserted = await submitMachineReport(reportData);
+
+      toast({
+        title: reportData.counter_review_status ? 'Report Sent for Review' : 'Report Created',
+        description: reportData.counter_review_status
+          ? 'The toy counter jump needs checking before toys dispensed are counted'
+          : `Toys dispensed: ${toysDispensed}, Prize value: $${prizeValue.toFixed(2)}`
+      });
 
+      resetForm();
+      onSubmitted?.(reportData.machine_id, inserted?.id || null);
       await refreshData();
     } catch (error: any) {
+      if (isNetworkError(error)) {
+        try {
+          await queueForSync();
+          return;
+        } catch (queueError) {
+          console.error('Failed to queue offline report:', queueError);
+        }
+      }
       toast({
         title: 'Error',
         description: error.message || 'Failed to create report',
@@ -168,6 +219,36 @@ const MachineReportForm: React.FC = () => {
     }
   };
 
+  const handleSubmitConflict = async (report: PendingReport) => {
+    try {
+      const machine = machines.find(m => m.id === report.payload.machine_id);
+      const prizeCost = machine?.current_prize ? parseFloat(machine.current_prize.cost.toString()) : 0;
+      await resolveConflictBySubmitting(report, prizeCost);
+      await refreshData();
+    } catch (error) {
+      console.error('❌ Error submitting offline report:', error);
+      toast({
+        title: 'Error',
+        description: (error as Error).message || 'Failed to submit offline report',
+        variant: 'destructive'
+      });
+    }
+  };
+
+  const handleDiscardPending = async (report: PendingReport) => {
+    if (!confirm(`Discard the offline report for ${report.machine_name || 'this machine'}?`)) return;
+    try {
+      await discardPendingReport(report);
+    } catch (error) {
+      console.error('❌ Error discarding offline report:', error);
+      toast({
+        title: 'Error',
+        description: (error as Error).message || 'Failed to discard offline report',
+        variant: 'destructive'
+      });
+    }
+  };
+
   const selectedMachineData = machines.find(m => m.id === selectedMachine);
   const prizeValue = calculatePrizeValue();
   const money = parseFloat(moneyCollected) || 0;
@@ -175,6 +256,14 @@ const MachineReportForm: React.FC = () => {
   // Payout % = prize value / money collected × 100
   const payoutPct = money > 0 && prizeValue > 0 ? (prizeValue / money) * 100 : null;
 
+  const cashCheck = cashContext && money > 0
+    ? checkCashCollection(cashContext, {
+        collected: money,
+        prizeValue,
+        tokensInGame: parseInt(tokensInGame) || 0
+      })
+    : null;
+
   // COGS = prize cost per unit × toys dispensed (same as prizeValue)
   const cogs = prizeValue;
 
@@ -191,18 +280,87 @@ const MachineReportForm: React.FC = () => {
         <CardTitle className="flex items-center gap-2">
           <Calculator className="h-5 w-5" />
           Create Machine Report
+          {!online && (
+            <Badge className="ml-auto bg-orange-100 text-orange-700 border-orange-200 border">
+              <CloudOff className="h-3 w-3 mr-1" />
+              Offline
+            </Badge>
+          )}
         </CardTitle>
       </CardHeader>
       <CardContent>
+        {pendingReports.length > 0 && (
+          <div className="mb-6 rounded-lg border border-orange-200 bg-orange-50">
+            <div className="flex items-center justify-between px-4 py-2 border-b border-orange-200">
+              <p className="text-sm font-semibold text-orange-800">
+                Pending sync ({pendingReports.length})
+              </p>
+              <Button
+                type="button"
+                size="sm"
+                variant="outline"
+                onClick={syncNow}
+                disabled={!online || syncing}
+              >
+                <RefreshCw className={`h-3 w-3 mr-1 ${syncing ? 'animate-spin' : ''}`} />
+                Sync now
+              </Button>
+            </div>
+            <div className="divide-y divide-orange-100">
+              {pendingReports.map(report => (
+                <div key={report.local_id} className="px-4 py-2 text-sm">
+                  <div className="flex items-center justify-between gap-2">
+                    <div>
+                      <p className="font-medium text-gray-900">{report.machine_name || 'Unknown machine'}</p>
+                      <p className="text-xs text-gray-600">
+                        ${report.payload.money_collected.toFixed(2)} · counter {report.payload.current_toy_count} · queued {new Date(report.queued_at).toLocaleString()}
+                      </p>
+                    </div>
+                    <Badge variant={report.status === 'conflict' || report.status === 'error' ? 'destructive' : 'secondary'}>
+                      {report.status === 'pending' && 'Pending sync'}
+                      {report.status === 'syncing' && 'Syncing...'}
+                      {report.status === 'conflict' && 'Conflict'}
+                      {report.status === 'error' && 'Retrying'}
+                    </Badge>
+                  </div>
+                  {report.status === 'error' && report.last_error && (
+                    <p className="text-xs text-red-600 mt-1">{report.last_error}</p>
+                  )}
+                  {report.status === 'conflict' && report.conflict_report && (
+                    <div className="mt-2 p-2 bg-white border border-red-200 rounded">
+                      <p className="text-xs text-red-700 flex items-center gap-1">
+                        <AlertTriangle className="h-3 w-3" />
+                        Another report (counter {report.conflict_report.current_toy_count}) was saved for this machine on {new Date(report.conflict_report.created_at).toLocaleString()}.
+                      </p>
+                      <div className="flex gap-2 mt-2">
+                        <Button type="button" size="sm" onClick={() => handleSubmitConflict(report)} disabled={!online}>
+                          Submit against newer reading
+                        </Button>
+                        <Button type="button" size="sm" variant="outline" onClick={() => handleDiscardPending(report)}>
+                          Discard
+                        </Button>
+                      </div>
+                    </div>
+                  )}
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
         <form onSubmit={handleSubmit} className="space-y-6">
           {/* Machine Selection */}
           <div className="space-y-2">
-            <MachineSelectInput
-              value={selectedMachine}
-              onChange={setSelectedMachine}
-              label="Select Machine"
-              required
-            />
+            {machineId ? (
+              <p className="font-semibold text-lg">{selectedMachineData?.name || 'Machine'}</p>
+            ) : (
+              <MachineSelectInput
+                value={selectedMachine}
+                onChange={setSelectedMachine}
+                label="Select Machine"
+                required
+              />
+            )}
             {selectedMachineData?.current_prize && (
               <div className="p-3 bg-blue-50 border border-blue-200 rounded-lg">
                 <p className="text-sm font-semibold text-blue-800">
@@ -225,9 +383,22 @@ const MachineReportForm: React.FC = () => {
               required
             />
             {previousToyCount !== null && (
-              <p className="text-sm text-gray-600">Previous reading: {previousToyCount}</p>
+              <p className="text-sm text-gray-600">
+                Previous reading: {previousToyCount}
+                {toyCountSource === 'cache' && ' (cached — offline)'}
+                {toyCountSource === 'queue' && ' (from a report pending sync)'}
+              </p>
             )}
-            {calculatedToys !== null && (
+            {currentToyCount && previousToyCount !== null && (
+              <ToyCounterEventFields
+                event={counterEvent}
+                onEventChange={setCounterEvent}
+                finalReading={finalReading}
+                onFinalReadingChange={setFinalReading}
+                resolution={counterResolution}
+              />
+            )}
+            {calculatedToys !== null && !counterResolution?.error && !counterResolution?.flagReason && (
               <div className="mt-2 p-3 bg-blue-50 border border-blue-200 rounded-lg">
                 <p className="text-sm font-semibold text-blue-800">
                   🎁 Toys dispensed: {calculatedToys}
@@ -249,6 +420,20 @@ const MachineReportForm: React.FC = () => {
               className="text-lg font-semibold"
               required
             />
+            {cashCheck?.expectedCash !== null && cashCheck?.expectedCash !== undefined && (
+              <p className="text-sm text-gray-600">
+                Expected about ${cashCheck.expectedCash.toFixed(2)} in cash
+              </p>
+            )}
+            {cashCheck?.outOfTolerance && (
+              <div className="p-3 bg-amber-50 border border-amber-200 rounded-lg flex items-start gap-2">
+                <AlertTriangle className="h-4 w-4 text-amber-600 mt-0.5 shrink-0" />
+                <p className="text-sm text-amber-800">
+                  This is ${Math.abs(cashCheck.variance).toFixed(2)} {cashCheck.variance > 0 ? 'more' : 'less'} than expected.
+                  Please recount; if it is right, the report will go to a manager to reconcile.
+                </p>
+              </div>
+            )}
           </div>
 
           {/* Payout % and COGS summary box — shown as soon as we have enough data */}
@@ -335,7 +520,7 @@ const MachineReportForm: React.FC = () => {
           </div>
 
           <Button type="submit" disabled={loading} className="w-full text-lg py-4 bg-green-600 hover:bg-green-700">
-            {loading ? 'Creating Report...' : '✅ Create Report'}
+            {loading ? 'Creating Report...' : online ? '✅ Create Report' : '💾 Save Report Offline'}
           </Button>
         </form>
       </CardContent>
@@ -0,0 +1,151 @@
+// src/components/MaintenancePlanCompliance.tsx
+// A machine's preventive maintenance plans: when each is next due, and whether past jobs were done on time
+import React, { useEffect, useState } from 'react';
+import { Badge } from '@/components/ui/badge';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { repositories, type MaintenancePlanJobRow, type MaintenancePlanRow } from '@/lib/repositories';
+import {
+  describeTrigger,
+  linkCompliance,
+  loadMaintenanceStatus,
+  type MaintenanceCompliance,
+  type MaintenanceStatus
+} from '@/lib/maintenancePlans';
+
+interface MaintenancePlanComplianceProps {
+  machineId: string;
+}
+
+const COMPLIANCE_BADGES: Record<MaintenanceCompliance, { label: string; className: string }> = {
+  on_time: { label: 'On Time', className: 'bg-green-100 text-green-800' },
+  late: { label: 'Late', className: 'bg-orange-100 text-orange-800' },
+  open: { label: 'Open', className: 'bg-blue-100 text-blue-800' },
+  overdue: { label: 'Overdue', className: 'bg-red-100 text-red-800' },
+  skipped: { label: 'Skipped', className: 'bg-gray-100 text-gray-800' }
+};
+
+const formatDate = (value?: string | null) =>
+  value ? new Date(value.length === 10 ? `${value}T00:00:00` : value).toLocaleDateString() : '—';
+
+const MaintenancePlanCompliance: React.FC<MaintenancePlanComplianceProps> = ({ machineId }) => {
+  const [statuses, setStatuses] = useState<MaintenanceStatus[]>([]);
+  const [links, setLinks] = useState<MaintenancePlanJobRow[]>([]);
+  const [plans, setPlans] = useState<MaintenancePlanRow[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+    Promise.all([
+      loadMaintenanceStatus([machineId]),
+      repositories.maintenancePlanJobs.listForMachines([machineId]),
+      repositories.maintenancePlans.list()
+    ])
+      .then(([statusRows, linkRows, planRows]) => {
+        if (cancelled) return;
+        setStatuses(statusRows);
+        setLinks([...linkRows].reverse());
+        setPlans(planRows);
+      })
+      .catch(error => console.error('❌ Error loading maintenance compliance:', error))
+      .finally(() => { if (!cancelled) setLoading(false); });
+    return () => { cancelled = true; };
+  }, [machineId]);
+
+  if (loading) {
+    return <div className="text-center py-8 text-gray-500">Loading maintenance plans...</div>;
+  }
+
+  const scored = links.map(link => linkCompliance(link)).filter(result => result === 'on_time' || result === 'late');
+  const onTimeRate = scored.length > 0 ? (scored.filter(result => result === 'on_time').length / scored.length) * 100 : null;
+
+  const nextDue = (status: MaintenanceStatus) => {
+    if (status.dueDate) return formatDate(status.dueDate);
+    const remaining = (status.plan.interval_plays || 0) - (status.playsSince || 0);
+    return `in ${remaining.toLocaleString()} plays`;
+  };
+
+  return (
+    <div className="space-y-6">
+      {statuses.length === 0 ? (
+        <p className="text-center py-8 text-gray-500">No maintenance plans cover this machine's type</p>
+      ) : (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Task</TableHead>
+              <TableHead>Trigger</TableHead>
+              <TableHead>Last Done</TableHead>
+              <TableHead>Next Due</TableHead>
+              <TableHead>Status</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {statuses.map(status => (
+              <TableRow key={status.plan.id}>
+                <TableCell className="font-medium">{status.plan.title}</TableCell>
+                <TableCell>
+                  {describeTrigger(status.plan)}
+                  {status.playsSince !== null && (
+                    <div className="text-xs text-gray-500">{status.playsSince.toLocaleString()} plays since last done</div>
+                  )}
+                </TableCell>
+                <TableCell>{formatDate(status.lastDoneAt)}</TableCell>
+                <TableCell>{nextDue(status)}</TableCell>
+                <TableCell>
+                  {status.state === 'overdue' ? (
+                    <Badge className="bg-red-100 text-red-800">Overdue</Badge>
+                  ) : status.openLink ? (
+                    <Badge className="bg-blue-100 text-blue-800">Job Open</Badge>
+                  ) : status.state === 'due' ? (
+                    <Badge className="bg-yellow-100 text-yellow-800">Due</Badge>
+                  ) : (
+                    <Badge className="bg-green-100 text-green-800">OK</Badge>
+                  )}
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      )}
+
+      {links.length > 0 && (
+        <div className="space-y-2">
+          <div className="flex items-center justify-between">
+            <h4 className="font-medium">Plan Jobs</h4>
+            {onTimeRate !== null && (
+              <span className="text-sm text-gray-600">{onTimeRate.toFixed(0)}% done on time ({scored.length} completed)</span>
+            )}
+          </div>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Task</TableHead>
+                <TableHead>Due By</TableHead>
+                <TableHead>Completed</TableHead>
+                <TableHead>Compliance</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {links.map(link => {
+                const compliance = COMPLIANCE_BADGES[linkCompliance(link)];
+                return (
+                  <TableRow key={link.id}>
+                    <TableCell>{link.jobs?.title || plans.find(plan => plan.id === link.plan_id)?.title || 'Maintenance'}</TableCell>
+                    <TableCell>{formatDate(link.due_date)}</TableCell>
+                    <TableCell>{link.jobs?.status === 'completed' ? formatDate(link.jobs.completed_at) : '—'}</TableCell>
+                    <TableCell>
+                      <Badge className={compliance.className}>{compliance.label}</Badge>
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default MaintenancePlanCompliance;
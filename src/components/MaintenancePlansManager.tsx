@@ -0,0 +1,282 @@
+// src/components/MaintenancePlansManager.tsx
+// Preventive maintenance plans per machine type, and which machines have a plan due or overdue
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { CalendarClock, Gauge, Plus, Trash2 } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { useAppContext } from '@/contexts/AppContext';
+import { repositories, type JobPriority, type MaintenancePlanRow, type MaintenanceTrigger } from '@/lib/repositories';
+import { describeTrigger, loadMaintenanceStatus, type MaintenanceStatus } from '@/lib/maintenancePlans';
+
+interface MaintenancePlansManagerProps {
+  currentUserId?: string;
+  // Called after a change so the scheduler can open any jobs that are now due
+  onChanged: () => void;
+}
+
+interface PlanDraft {
+  machine_type: string;
+  title: string;
+  trigger_type: MaintenanceTrigger;
+  interval: string;
+  lead_days: string;
+  grace_days: string;
+  priority: JobPriority;
+}
+
+const EMPTY_DRAFT: PlanDraft = {
+  machine_type: '',
+  title: '',
+  trigger_type: 'days',
+  interval: '',
+  lead_days: '0',
+  grace_days: '7',
+  priority: 'medium'
+};
+
+const STATE_BADGES: Record<MaintenanceStatus['state'], { label: string; className: string }> = {
+  ok: { label: 'OK', className: 'bg-green-100 text-green-800' },
+  due: { label: 'Due', className: 'bg-yellow-100 text-yellow-800' },
+  scheduled: { label: 'Job Open', className: 'bg-blue-100 text-blue-800' },
+  overdue: { label: 'Overdue', className: 'bg-red-100 text-red-800' }
+};
+
+const MaintenancePlansManager: React.FC<MaintenancePlansManagerProps> = ({ currentUserId, onChanged }) => {
+  const { machines = [] } = useAppContext();
+  const { toast } = useToast();
+  const [plans, setPlans] = useState<MaintenancePlanRow[]>([]);
+  const [statuses, setStatuses] = useState<MaintenanceStatus[]>([]);
+  const [draft, setDraft] = useState<PlanDraft>(EMPTY_DRAFT);
+  const [saving, setSaving] = useState(false);
+
+  const machineTypes = useMemo(
+    () => Array.from(new Set(machines.map(machine => machine.type?.trim()).filter(Boolean))).sort(),
+    [machines]
+  );
+
+  const loadPlans = useCallback(async () => {
+    try {
+      const [planRows, statusRows] = await Promise.all([
+        repositories.maintenancePlans.list({ orderBy: [{ column: 'machine_type', ascending: true }] }),
+        loadMaintenanceStatus()
+      ]);
+      setPlans(planRows);
+      setStatuses(statusRows);
+    } catch (error) {
+      console.error('❌ Error loading maintenance plans:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadPlans();
+  }, [loadPlans]);
+
+  const update = (changes: Partial<PlanDraft>) => setDraft(prev => ({ ...prev, ...changes }));
+
+  const handleAdd = async () => {
+    const interval = parseInt(draft.interval);
+    if (!draft.machine_type || !draft.title.trim() || !(interval > 0)) {
+      toast({ title: 'Validation Error', description: 'Choose a machine type, name the task and give an interval', variant: 'destructive' });
+      return;
+    }
+
+    setSaving(true);
+    try {
+      await repositories.maintenancePlans.create({
+        machine_type: draft.machine_type,
+        title: draft.title.trim(),
+        trigger_type: draft.trigger_type,
+        interval_days: draft.trigger_type === 'days' ? interval : null,
+        interval_plays: draft.trigger_type === 'plays' ? interval : null,
+        lead_days: Math.max(0, parseInt(draft.lead_days) || 0),
+        grace_days: Math.max(0, parseInt(draft.grace_days) || 0),
+        priority: draft.priority,
+        created_by: currentUserId || null
+      });
+      toast({ title: 'Plan Added', description: `${draft.title.trim()} for ${draft.machine_type} machines` });
+      setDraft(EMPTY_DRAFT);
+      await loadPlans();
+      onChanged();
+    } catch (error) {
+      console.error('❌ Error adding maintenance plan:', error);
+      toast({ title: 'Error', description: (error as Error).message || 'Failed to add plan', variant: 'destructive' });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleToggle = async (plan: MaintenancePlanRow, isActive: boolean) => {
+    try {
+      await repositories.maintenancePlans.update(plan.id, { is_active: isActive });
+      await loadPlans();
+      if (isActive) onChanged();
+    } catch (error) {
+      console.error('❌ Error updating maintenance plan:', error);
+      toast({ title: 'Error', description: (error as Error).message || 'Failed to update plan', variant: 'destructive' });
+    }
+  };
+
+  const handleRemove = async (plan: MaintenancePlanRow) => {
+    if (!confirm(`Delete "${plan.title}"? Its compliance history goes with it; jobs already opened are kept.`)) return;
+    try {
+      await repositories.maintenancePlans.remove(plan.id);
+      await loadPlans();
+    } catch (error) {
+      console.error('❌ Error deleting maintenance plan:', error);
+      toast({ title: 'Error', description: (error as Error).message || 'Failed to delete plan', variant: 'destructive' });
+    }
+  };
+
+  const machineName = (id: string) => machines.find(machine => machine.id === id)?.name || 'Machine';
+  const attention = statuses.filter(status => status.state !== 'ok');
+
+  return (
+    <div className="space-y-4">
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-sm flex items-center gap-2">
+            <CalendarClock className="h-4 w-4" />
+            Maintenance Plans
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+            <div>
+              <Label>Machine Type</Label>
+              <Select value={draft.machine_type} onValueChange={(machine_type) => update({ machine_type })}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Select type" />
+                </SelectTrigger>
+                <SelectContent>
+                  {machineTypes.map(type => <SelectItem key={type} value={type}>{type}</SelectItem>)}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="md:col-span-2">
+              <Label htmlFor="plan_title">Task</Label>
+              <Input
+                id="plan_title"
+                value={draft.title}
+                onChange={(e) => update({ title: e.target.value })}
+                placeholder="e.g. Clean claw"
+              />
+            </div>
+            <div>
+              <Label>Trigger</Label>
+              <Select value={draft.trigger_type} onValueChange={(trigger) => update({ trigger_type: trigger as MaintenanceTrigger })}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="days">Every N days</SelectItem>
+                  <SelectItem value="plays">Every N plays</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label htmlFor="plan_interval">{draft.trigger_type === 'days' ? 'Days' : 'Plays'}</Label>
+              <Input
+                id="plan_interval"
+                type="number"
+                min="1"
+                value={draft.interval}
+                onChange={(e) => update({ interval: e.target.value })}
+                placeholder={draft.trigger_type === 'days' ? '30' : '20000'}
+              />
+            </div>
+            {draft.trigger_type === 'days' ? (
+              <div>
+                <Label htmlFor="plan_lead">Open job days early</Label>
+                <Input id="plan_lead" type="number" min="0" value={draft.lead_days} onChange={(e) => update({ lead_days: e.target.value })} />
+              </div>
+            ) : (
+              <div>
+                <Label htmlFor="plan_grace">Days to do it once due</Label>
+                <Input id="plan_grace" type="number" min="0" value={draft.grace_days} onChange={(e) => update({ grace_days: e.target.value })} />
+              </div>
+            )}
+            <div>
+              <Label>Priority</Label>
+              <Select value={draft.priority} onValueChange={(priority) => update({ priority: priority as JobPriority })}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="low">Low</SelectItem>
+                  <SelectItem value="medium">Medium</SelectItem>
+                  <SelectItem value="urgent">Urgent</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="flex items-end">
+              <Button onClick={handleAdd} disabled={saving} className="w-full">
+                <Plus className="h-4 w-4 mr-1" />
+                Add Plan
+              </Button>
+            </div>
+          </div>
+
+          {plans.length === 0 ? (
+            <p className="text-sm text-gray-500">No maintenance plans yet</p>
+          ) : (
+            <div className="divide-y border rounded">
+              {plans.map(plan => (
+                <div key={plan.id} className="flex items-center justify-between gap-3 px-3 py-2 text-sm">
+                  <div className="min-w-0">
+                    <div className="font-medium flex items-center gap-2">
+                      {plan.trigger_type === 'plays' ? <Gauge className="h-3 w-3" /> : <CalendarClock className="h-3 w-3" />}
+                      {plan.title}
+                    </div>
+                    <div className="text-xs text-gray-500">
+                      {plan.machine_type} · {describeTrigger(plan)} · {plan.priority} priority
+                    </div>
+                  </div>
+                  <div className="flex items-center gap-2 shrink-0">
+                    <Switch checked={plan.is_active} onCheckedChange={(checked) => handleToggle(plan, checked)} />
+                    <Button variant="ghost" size="sm" onClick={() => handleRemove(plan)} className="text-red-600">
+                      <Trash2 className="h-3 w-3" />
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-sm">Needs Attention ({attention.length})</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {attention.length === 0 ? (
+            <p className="text-sm text-gray-500">Every machine is up to date with its plans</p>
+          ) : (
+            <div className="divide-y border rounded">
+              {attention.map(status => (
+                <div key={`${status.plan.id}:${status.machineId}`} className="flex items-center justify-between px-3 py-2 text-sm">
+                  <span>
+                    <span className="font-medium">{machineName(status.machineId)}</span>
+                    {' '}{status.plan.title}
+                    {status.dueDate && (
+                      <span className="text-gray-500"> · due {new Date(`${status.dueDate}T00:00:00`).toLocaleDateString()}</span>
+                    )}
+                  </span>
+                  <Badge className={STATE_BADGES[status.state].className}>{STATE_BADGES[status.state].label}</Badge>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default MaintenancePlansManager;
@@ -0,0 +1,141 @@
+// src/components/OverdueHireWatchlist.tsx
+// Hires past their return date, longest overdue first, with the reminder that's due next
+import React, { useMemo, useState } from 'react';
+import { format, parseISO } from 'date-fns';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { AlertTriangle, Mail, Phone } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import type { HireContractRow, HireReminderChannel } from '@/lib/repositories';
+import { REMINDER_LEVELS, overdueWatchlist, type OverdueHire } from '@/lib/equipmentHire';
+import { sendHireReminder } from '@/lib/hireReminders';
+
+interface LegacyOverdueEquipment {
+  id: string;
+  name: string;
+  expected_return_date?: string;
+}
+
+interface OverdueHireWatchlistProps {
+  contracts: HireContractRow[];
+  // Marked hired by hand, with no contract to chase
+  untrackedOverdue: LegacyOverdueEquipment[];
+  canManage?: boolean;
+  onChanged: () => void;
+}
+
+const LEVEL_COLOR: Record<number, string> = {
+  1: 'bg-yellow-100 text-yellow-800',
+  2: 'bg-orange-100 text-orange-800',
+  3: 'bg-red-100 text-red-800'
+};
+
+const day = (date: string) => format(parseISO(date), 'd MMM yyyy');
+const levelLabel = (level: number) => REMINDER_LEVELS.find(entry => entry.level === level)?.label || `Level ${level}`;
+
+const OverdueHireWatchlist: React.FC<OverdueHireWatchlistProps> = ({ contracts, untrackedOverdue, canManage, onChanged }) => {
+  const { toast } = useToast();
+  const [sendingId, setSendingId] = useState<string | null>(null);
+
+  const watchlist = useMemo(() => overdueWatchlist(contracts), [contracts]);
+
+  const sendReminder = async (entry: OverdueHire, channel: HireReminderChannel) => {
+    const { contract, reminderDue } = entry;
+    if (!reminderDue) return;
+    setSendingId(contract.id);
+    try {
+      const reminder = await sendHireReminder(entry, channel);
+      if (reminder.delivery_error) {
+        toast({
+          title: 'Reminder Not Sent',
+          description: `${reminderDue.label} could not be emailed to ${contract.customer_name}: ${reminder.delivery_error}`,
+          variant: 'destructive'
+        });
+      } else {
+        toast({
+          title: 'Reminder Recorded',
+          description: `${reminderDue.label} ${channel === 'email' ? 'emailed to' : 'logged for'} ${contract.customer_name}`
+        });
+      }
+      onChanged();
+    } catch (error) {
+      console.error('❌ Error recording hire reminder:', error);
+      toast({ title: 'Error', description: (error as Error).message || 'Failed to record reminder', variant: 'destructive' });
+    } finally {
+      setSendingId(null);
+    }
+  };
+
+  if (watchlist.length === 0 && untrackedOverdue.length === 0) return null;
+
+  return (
+    <Card className="border-red-200">
+      <CardHeader className="pb-3">
+        <CardTitle className="text-base flex items-center gap-2 text-red-700">
+          <AlertTriangle className="h-5 w-5" />
+          Overdue Returns
+          <Badge className="bg-red-100 text-red-800">{watchlist.length + untrackedOverdue.length}</Badge>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-2">
+        {watchlist.map(entry => {
+          const { contract, daysOverdue, lateFee, lastReminder, reminderDue } = entry;
+          return (
+            <div key={contract.id} className="border rounded p-3 flex items-center justify-between gap-3 flex-wrap">
+              <div className="min-w-0">
+                <div className="flex items-center gap-2 flex-wrap">
+                  <span className="font-medium">{contract.equipment_hire?.name || 'Equipment'}</span>
+                  <span className="text-sm text-red-700">{daysOverdue} day{daysOverdue === 1 ? '' : 's'} overdue</span>
+                  {lastReminder && (
+                    <Badge className={LEVEL_COLOR[lastReminder.level] || ''}>{levelLabel(lastReminder.level)} sent</Badge>
+                  )}
+                </div>
+                <p className="text-sm text-gray-600">
+                  {contract.customer_name}
+                  {contract.customer_phone ? ` · ${contract.customer_phone}` : ''}
+                  {contract.customer_email ? ` · ${contract.customer_email}` : ''}
+                </p>
+                <p className="text-xs text-gray-500">
+                  Due back {day(contract.expected_return_date)} · ${lateFee.toFixed(2)} late fees so far
+                  {lastReminder ? ` · last chased ${format(parseISO(lastReminder.sent_at), 'd MMM')} by ${lastReminder.channel}` : ' · not chased yet'}
+                </p>
+                {lastReminder?.delivery_error && (
+                  <p className="text-xs text-red-600">Last email failed: {lastReminder.delivery_error}</p>
+                )}
+              </div>
+              {canManage && reminderDue && (
+                <div className="flex gap-2">
+                  {contract.customer_email && (
+                    <Button size="sm" disabled={sendingId === contract.id} onClick={() => sendReminder(entry, 'email')}>
+                      <Mail className="h-3 w-3 mr-1" />
+                      Email {reminderDue.label.toLowerCase()}
+                    </Button>
+                  )}
+                  <Button size="sm" variant="outline" disabled={sendingId === contract.id} onClick={() => sendReminder(entry, 'phone')}>
+                    <Phone className="h-3 w-3 mr-1" />
+                    Log call
+                  </Button>
+                </div>
+              )}
+              {reminderDue === null && lastReminder && (
+                <span className="text-xs text-gray-400">Up to date</span>
+              )}
+            </div>
+          );
+        })}
+
+        {untrackedOverdue.map(item => (
+          <div key={item.id} className="border rounded p-3 text-sm flex justify-between gap-2">
+            <span>
+              <span className="font-medium">{item.name}</span>
+              <span className="text-gray-500"> · hired without a contract, due back {item.expected_return_date ? day(item.expected_return_date) : '—'}</span>
+            </span>
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default OverdueHireWatchlist;
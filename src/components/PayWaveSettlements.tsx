@@ -0,0 +1,285 @@
+// src/components/PayWaveSettlements.tsx
+// Import PayWave settlement files and register the terminals their unmatched transactions came from
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { AlertTriangle, CreditCard, Link2, Upload } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { useAppContext } from '@/contexts/AppContext';
+import { repositories, type PayWaveSettlementImportRow, type PayWaveTransactionRow } from '@/lib/repositories';
+import { importSettlementFile, parseSettlementFile, totalCashless, type ParsedSettlementFile } from '@/lib/paywaveSettlements';
+
+interface PayWaveSettlementsProps {
+  canImport: boolean;
+}
+
+interface UnmatchedTerminal {
+  terminal_number: string;
+  count: number;
+  total: number;
+  first: string;
+  last: string;
+}
+
+const PayWaveSettlements: React.FC<PayWaveSettlementsProps> = ({ canImport }) => {
+  const { machines = [], refreshData } = useAppContext();
+  const { toast } = useToast();
+  const [imports, setImports] = useState<PayWaveSettlementImportRow[]>([]);
+  const [unmatched, setUnmatched] = useState<PayWaveTransactionRow[]>([]);
+  const [preview, setPreview] = useState<{ fileName: string; parsed: ParsedSettlementFile } | null>(null);
+  const [importing, setImporting] = useState(false);
+  const [assignments, setAssignments] = useState<Record<string, string>>({});
+
+  const loadData = useCallback(async () => {
+    try {
+      const [importRows, unmatchedRows] = await Promise.all([
+        repositories.payWaveImports.list({ orderBy: [{ column: 'imported_at', ascending: false }], limit: 20 }),
+        repositories.payWaveTransactions.listUnmatched()
+      ]);
+      setImports(importRows);
+      setUnmatched(unmatchedRows);
+    } catch (error) {
+      console.error('❌ Error loading PayWave settlements:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadData();
+  }, [loadData]);
+
+  const unmatchedTerminals = useMemo(() => {
+    const byTerminal = new Map<string, UnmatchedTerminal>();
+    unmatched.forEach(transaction => {
+      const entry = byTerminal.get(transaction.terminal_number) || {
+        terminal_number: transaction.terminal_number,
+        count: 0,
+        total: 0,
+        first: transaction.transacted_at,
+        last: transaction.transacted_at
+      };
+      entry.count++;
+      entry.total += Number(transaction.amount);
+      if (transaction.transacted_at < entry.first) entry.first = transaction.transacted_at;
+      if (transaction.transacted_at > entry.last) entry.last = transaction.transacted_at;
+      byTerminal.set(transaction.terminal_number, entry);
+    });
+    return Array.from(byTerminal.values()).sort((a, b) => b.total - a.total);
+  }, [unmatched]);
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    try {
+      const parsed = parseSettlementFile(file.name, await file.text());
+      setPreview({ fileName: file.name, parsed });
+    } catch (error) {
+      console.error('❌ Error reading settlement file:', error);
+      toast({ title: 'Error', description: 'Could not read that file', variant: 'destructive' });
+    }
+  };
+
+  const handleImport = async () => {
+    if (!preview || preview.parsed.transactions.length === 0) return;
+    setImporting(true);
+    try {
+      const result = await importSettlementFile(preview.fileName, preview.parsed);
+      toast({
+        title: 'Settlement Imported',
+        description: `${result.imported} transactions imported` +
+          (result.duplicates ? `, ${result.duplicates} already imported` : '') +
+          (result.unmatched ? `, ${result.unmatched} from unregistered terminals` : '')
+      });
+      setPreview(null);
+      await loadData();
+    } catch (error) {
+      console.error('❌ Error importing settlement:', error);
+      toast({ title: 'Error', description: (error as Error).message || 'Failed to import settlement', variant: 'destructive' });
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  const handleRegister = async (terminal: UnmatchedTerminal) => {
+    const machineId = assignments[terminal.terminal_number];
+    if (!machineId) {
+      toast({ title: 'Validation Error', description: 'Choose the machine this terminal is fitted to', variant: 'destructive' });
+      return;
+    }
+
+    try {
+      // Existing transactions for the terminal are matched by a database trigger
+      await repositories.payWaveTerminals.create({
+        machine_id: machineId,
+        name: 'PayWave',
+        terminal_number: terminal.terminal_number
+      });
+      const machine = machines.find(m => m.id === machineId);
+      toast({ title: 'Terminal Registered', description: `${terminal.terminal_number} linked to ${machine?.name || 'machine'}` });
+      await Promise.all([loadData(), refreshData()]);
+    } catch (error) {
+      console.error('❌ Error registering terminal:', error);
+      toast({ title: 'Error', description: (error as Error).message || 'Failed to register terminal', variant: 'destructive' });
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      {canImport && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Upload className="h-5 w-5" />
+              Import Settlement File
+            </CardTitle>
+            <p className="text-sm text-gray-600">
+              CSV or OFX exports from the payment provider. Files can be imported again safely; transactions already imported are skipped.
+            </p>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <Input
+              type="file"
+              accept=".csv,.ofx,.qfx,text/csv"
+              onChange={(e) => handleFile(e.target.files?.[0])}
+              disabled={importing}
+            />
+            {preview && (
+              <div className="p-4 bg-gray-50 border rounded-lg space-y-2">
+                <div className="flex items-center justify-between">
+                  <div>
+                    <div className="font-medium">{preview.fileName}</div>
+                    <div className="text-sm text-gray-600">
+                      {preview.parsed.format.toUpperCase()} · {preview.parsed.transactions.length} transactions ·
+                      ${totalCashless(preview.parsed.transactions).toFixed(2)}
+                    </div>
+                  </div>
+                  <Button onClick={handleImport} disabled={importing || preview.parsed.transactions.length === 0}>
+                    {importing ? 'Importing...' : 'Import'}
+                  </Button>
+                </div>
+                {preview.parsed.errors.length > 0 && (
+                  <div className="text-sm text-amber-800 flex items-start gap-2">
+                    <AlertTriangle className="h-4 w-4 mt-0.5 shrink-0" />
+                    <div>
+                      {preview.parsed.errors.length} line{preview.parsed.errors.length === 1 ? '' : 's'} skipped:
+                      <ul className="list-disc ml-4">
+                        {preview.parsed.errors.slice(0, 5).map(message => <li key={message}>{message}</li>)}
+                      </ul>
+                    </div>
+                  </div>
+                )}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
+      <Card className={unmatchedTerminals.length > 0 ? 'border-amber-200' : ''}>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Link2 className="h-5 w-5" />
+            Unmatched Terminals
+            <Badge variant="outline">{unmatchedTerminals.length}</Badge>
+          </CardTitle>
+          <p className="text-sm text-gray-600">
+            Card takings from terminals not registered to any machine. They are not in any machine's revenue until the terminal is registered.
+          </p>
+        </CardHeader>
+        <CardContent>
+          {unmatchedTerminals.length === 0 ? (
+            <p className="text-sm text-gray-500 text-center py-4">Every imported transaction is matched to a machine</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Terminal</TableHead>
+                  <TableHead className="text-right">Transactions</TableHead>
+                  <TableHead className="text-right">Total</TableHead>
+                  <TableHead>Dates</TableHead>
+                  {canImport && <TableHead>Register To</TableHead>}
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {unmatchedTerminals.map(terminal => (
+                  <TableRow key={terminal.terminal_number}>
+                    <TableCell className="font-mono">{terminal.terminal_number}</TableCell>
+                    <TableCell className="text-right">{terminal.count}</TableCell>
+                    <TableCell className="text-right">${terminal.total.toFixed(2)}</TableCell>
+                    <TableCell className="text-sm">
+                      {new Date(terminal.first).toLocaleDateString()} – {new Date(terminal.last).toLocaleDateString()}
+                    </TableCell>
+                    {canImport && (
+                      <TableCell>
+                        <div className="flex gap-2">
+                          <Select
+                            value={assignments[terminal.terminal_number] || ''}
+                            onValueChange={(value) => setAssignments(prev => ({ ...prev, [terminal.terminal_number]: value }))}
+                          >
+                            <SelectTrigger className="w-56">
+                              <SelectValue placeholder="Select machine" />
+                            </SelectTrigger>
+                            <SelectContent>
+                              {machines.map(machine => (
+                                <SelectItem key={machine.id} value={machine.id}>
+                                  {machine.name}{machine.venue?.name ? ` (${machine.venue.name})` : ''}
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                          <Button size="sm" onClick={() => handleRegister(terminal)}>Register</Button>
+                        </div>
+                      </TableCell>
+                    )}
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <CreditCard className="h-5 w-5" />
+            Recent Imports
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          {imports.length === 0 ? (
+            <p className="text-sm text-gray-500 text-center py-4">No settlement files imported yet</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>File</TableHead>
+                  <TableHead>Imported</TableHead>
+                  <TableHead className="text-right">Transactions</TableHead>
+                  <TableHead className="text-right">Skipped</TableHead>
+                  <TableHead className="text-right">Total</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {imports.map(row => (
+                  <TableRow key={row.id}>
+                    <TableCell>
+                      {row.file_name} <Badge variant="outline" className="ml-1">{row.format.toUpperCase()}</Badge>
+                    </TableCell>
+                    <TableCell>{new Date(row.imported_at).toLocaleString()}</TableCell>
+                    <TableCell className="text-right">{row.transaction_count}</TableCell>
+                    <TableCell className="text-right">{row.duplicate_count}</TableCell>
+                    <TableCell className="text-right">${Number(row.total_amount).toFixed(2)}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default PayWaveSettlements;
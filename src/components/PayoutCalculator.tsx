@@ -2,6 +2,12 @@ import React, { useState, useEffect } from 'react';
 import { supabase } from '@/lib/supabase';
 import { useAppContext } from '@/contexts/AppContext';
 import { Loader2, TrendingUp, TrendingDown, AlertTriangle } from 'lucide-react';
+import { usePayoutTargets } from '@/hooks/usePayoutTargets';
+import { assessPayout, formatPayoutBand } from '@/lib/payoutTargets';
+import { PAYOUT_REPORT_COLUMNS, calculateReport, summarisePayout } from '@/lib/payoutCalculations';
+import { loadHistoricalPrizeCost } from '@/lib/prizeCosting';
+import { allocateCashlessToReports } from '@/lib/paywaveSettlements';
+import { repositories } from '@/lib/repositories';
 
 interface PayoutCalculatorProps {
   machineId: string;
@@ -9,9 +15,11 @@ interface PayoutCalculatorProps {
 
 const PayoutCalculator: React.FC<PayoutCalculatorProps> = ({ machineId }) => {
   const { machines } = useAppContext();
+  const { bandFor } = usePayoutTargets();
   const [payoutData, setPayoutData] = useState<{
     percentage: number | null;
     earnings: number;
+    cashless: number;
     prizeValue: number;
     toysDispensed: number;
     loading: boolean;
@@ -20,6 +28,7 @@ const PayoutCalculator: React.FC<PayoutCalculatorProps> = ({ machineId }) => {
   }>({ 
     percentage: null, 
     earnings: 0, 
+    cashless: 0,
     prizeValue: 0, 
     toysDispensed: 0, 
     loading: true,
@@ -40,7 +49,7 @@ const PayoutCalculator: React.FC<PayoutCalculatorProps> = ({ machineId }) => {
       // Get all reports for this machine to calculate comprehensive data
       const { data: reportData, error: reportError } = await supabase
         .from('machine_reports')
-        .select('money_collected, prize_value, toys_dispensed, current_toy_count, previous_toy_count, report_date, created_at')
+        .select(PAYOUT_REPORT_COLUMNS)
         .eq('machine_id', machineId)
         .order('created_at', { ascending: false });
       
@@ -54,6 +63,7 @@ const PayoutCalculator: React.FC<PayoutCalculatorProps> = ({ machineId }) => {
         setPayoutData({ 
           percentage: null, 
           earnings: 0, 
+          cashless: 0,
           prizeValue: 0, 
           toysDispensed: 0, 
           loading: false,
@@ -65,59 +75,45 @@ const PayoutCalculator: React.FC<PayoutCalculatorProps> = ({ machineId }) => {
       
       console.log('📈 Found', reportData.length, 'reports for machine');
       
-      // Get the latest report for current payout calculation
-      const latestReport = reportData[0];
-      
-      // Calculate totals from all reports
-      const totalEarnings = reportData.reduce((sum, report) => sum + (report.money_collected || 0), 0);
-      const totalToysDispensed = reportData.reduce((sum, report) => {
-        // Calculate toys dispensed if not already calculated
-        let toys = report.toys_dispensed || 0;
-        if (toys === 0 && report.current_toy_count !== null && report.previous_toy_count !== null) {
-          toys = Math.max(0, report.current_toy_count - report.previous_toy_count);
-        }
-        return sum + toys;
-      }, 0);
-      
-      // Calculate prize value from latest report or estimate from machine's current prize
-      let prizeValue = latestReport.prize_value || 0;
-      let toysDispensed = latestReport.toys_dispensed || 0;
-      
-      // If toys_dispensed is 0, try to calculate from counter difference
-      if (toysDispensed === 0 && latestReport.current_toy_count !== null && latestReport.previous_toy_count !== null) {
-        toysDispensed = Math.max(0, latestReport.current_toy_count - latestReport.previous_toy_count);
-      }
-      
-      // If prize_value is 0 but toys were dispensed, calculate it
-      if (prizeValue === 0 && toysDispensed > 0) {
-        const machine = machines.find(m => m.id === machineId);
-        if (machine?.current_prize) {
-          prizeValue = toysDispensed * parseFloat(machine.current_prize.cost.toString());
-        }
-      }
-      
-      // Calculate payout percentage from latest report
-      const earnings = latestReport.money_collected || 0;
-      const percentage = earnings > 0 && prizeValue > 0 ? (prizeValue / earnings) * 100 : 0;
-      
+      // Reports without a saved prize value are valued at the prize cost of their day
+      const options = { prizeCost: await loadHistoricalPrizeCost(machines.filter(machine => machine.id === machineId)) };
+
+      // Card takings count towards the report whose collection period they fall in
+      const cardTransactions = await repositories.payWaveTransactions.listForMachines([machineId])
+        .catch(error => {
+          console.warn('⚠️ Could not load PayWave transactions:', error);
+          return [];
+        });
+      const reports = allocateCashlessToReports(
+        reportData.map(report => ({ ...report, machine_id: machineId })),
+        cardTransactions
+      );
+
+      // Payout % is from the latest report; earnings and toys are totals across all reports
+      const latest = calculateReport(reports[0], options);
+      const totals = summarisePayout(reports, options);
+
       // Format last report date
-      const lastReportDate = latestReport.report_date || latestReport.created_at;
+      const lastReportDate = reportData[0].report_date || reportData[0].created_at;
       
       setPayoutData({
-        percentage: percentage > 0 ? Math.round(percentage * 100) / 100 : null,
-        earnings: totalEarnings, // Show total earnings, not just latest
-        prizeValue,
-        toysDispensed: totalToysDispensed, // Show total toys dispensed
+        percentage: latest.payoutPercent,
+        earnings: totals.earnings, // Show total earnings, not just latest
+        cashless: totals.cashless,
+        prizeValue: latest.prizeValue,
+        toysDispensed: totals.toysDispensed, // Show total toys dispensed
         loading: false,
         reportCount: reportData.length,
         lastReport: lastReportDate ? new Date(lastReportDate).toLocaleDateString() : null
       });
       
       console.log('✅ Payout calculated:', {
-        percentage: percentage.toFixed(2) + '%',
-        totalEarnings,
-        prizeValue,
-        totalToysDispensed,
+        percentage: latest.payoutPercent,
+        totalEarnings: totals.earnings,
+        prizeValue: latest.prizeValue,
+        totalToysDispensed: totals.toysDispensed,
+        resets: totals.resets,
+        rollovers: totals.rollovers,
         reportCount: reportData.length
       });
       
@@ -126,6 +122,7 @@ const PayoutCalculator: React.FC<PayoutCalculatorProps> = ({ machineId }) => {
       setPayoutData({ 
         percentage: null, 
         earnings: 0, 
+        cashless: 0,
         prizeValue: 0, 
         toysDispensed: 0, 
         loading: false,
@@ -158,8 +155,10 @@ const PayoutCalculator: React.FC<PayoutCalculatorProps> = ({ machineId }) => {
     );
   }
 
-  const isHighPayout = payoutData.percentage && payoutData.percentage > 30;
-  const isLowPayout = payoutData.percentage && payoutData.percentage < 10;
+  const band = bandFor(machines.find(m => m.id === machineId));
+  const assessment = payoutData.percentage ? assessPayout(payoutData.percentage, band) : null;
+  const isHighPayout = assessment?.status === 'too_high';
+  const isLowPayout = assessment?.status === 'too_low';
   const hasIssue = isHighPayout || isLowPayout;
 
   return (
@@ -188,12 +187,13 @@ const PayoutCalculator: React.FC<PayoutCalculatorProps> = ({ machineId }) => {
               Payout %:
             </strong>
           </div>
-          <div className={`text-xl font-bold ${
+          <div className={`text-xl font-bold text-right ${
             hasIssue 
               ? isHighPayout ? 'text-red-600' : 'text-yellow-600'
               : 'text-green-600'
           }`}>
             {payoutData.percentage ? `${payoutData.percentage}%` : 'N/A'}
+            <div className="text-xs font-normal text-gray-500">target {formatPayoutBand(band)}</div>
           </div>
         </div>
         
@@ -205,6 +205,7 @@ const PayoutCalculator: React.FC<PayoutCalculatorProps> = ({ machineId }) => {
               ? '⚠️ PAYOUT TOO HIGH - Check prize cost or claw settings'
               : '⚠️ PAYOUT TOO LOW - May need easier gameplay or cheaper prizes'
             }
+            {assessment?.severity === 'high' && ' (well outside target)'}
           </div>
         )}
       </div>
@@ -213,6 +214,9 @@ const PayoutCalculator: React.FC<PayoutCalculatorProps> = ({ machineId }) => {
         <div className="bg-blue-50 border border-blue-200 rounded p-2">
           <div className="font-medium text-blue-700">Total Earnings</div>
           <div className="text-blue-600 font-bold">${payoutData.earnings.toFixed(2)}</div>
+          {payoutData.cashless !== 0 && (
+            <div className="text-blue-500">incl. ${payoutData.cashless.toFixed(2)} PayWave</div>
+          )}
         </div>
         <div className="bg-purple-50 border border-purple-200 rounded p-2">
           <div className="font-medium text-purple-700">Toys Dispensed</div>
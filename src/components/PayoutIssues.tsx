@@ -5,9 +5,14 @@ import { Badge } from '@/components/ui/badge';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { useAppContext } from '@/contexts/AppContext';
 import { useNavigate } from 'react-router-dom';
-import { AlertTriangle, RefreshCw, CheckCircle, Home, TrendingDown, TrendingUp, Filter } from 'lucide-react';
+import { AlertTriangle, RefreshCw, CheckCircle, Home, TrendingDown, TrendingUp, Filter, Target } from 'lucide-react';
 import { toast } from 'sonner';
 import { supabase } from '@/lib/supabase';
+import { usePayoutTargets } from '@/hooks/usePayoutTargets';
+import { assessPayout, formatPayoutBand, type PayoutBand, type PayoutSeverity } from '@/lib/payoutTargets';
+import { PAYOUT_REPORT_COLUMNS, calculateReport, type PayoutOptions } from '@/lib/payoutCalculations';
+import { loadHistoricalPrizeCost } from '@/lib/prizeCosting';
+import PayoutTargetsManager from './PayoutTargetsManager';
 
 interface PayoutIssue {
   machineId: string;
@@ -15,9 +20,19 @@ interface PayoutIssue {
   venue: string;
   currentPayout: number;
   issue: 'too_low' | 'too_high';
+  band: PayoutBand;
+  severity: PayoutSeverity;
   description: string;
 }
 
+const SEVERITY_ORDER: Record<PayoutSeverity, number> = { high: 3, medium: 2, low: 1 };
+
+const SEVERITY_BADGE: Record<PayoutSeverity, string> = {
+  high: 'bg-red-600 text-white',
+  medium: 'bg-orange-500 text-white',
+  low: 'bg-yellow-400 text-yellow-900'
+};
+
 const PayoutIssues: React.FC = () => {
   const { machines = [] } = useAppContext();
   const navigate = useNavigate();
@@ -26,17 +41,21 @@ const PayoutIssues: React.FC = () => {
   const [lastChecked, setLastChecked] = useState<Date | null>(null);
   const [filterType, setFilterType] = useState<'all' | 'too_low' | 'too_high'>('all');
   const [filterVenue, setFilterVenue] = useState<string>('all');
+  const [showTargets, setShowTargets] = useState(false);
+  const { targets, loaded: targetsLoaded, bandFor } = usePayoutTargets();
 
   const handleBackToDashboard = () => {
     navigate('/');
   };
 
-  const calculateMachinePayout = async (machineId: string): Promise<number> => {
+  const calculateMachinePayout = async (machineId: string, prizeCost: PayoutOptions['prizeCost']): Promise<number> => {
     try {
       const { data: reportData } = await supabase
         .from('machine_reports')
-        .select('money_collected, prize_value, toys_dispensed, current_toy_count, previous_toy_count')
+        .select(PAYOUT_REPORT_COLUMNS)
         .eq('machine_id', machineId)
+        // A counter jump waiting for review (or rejected) has no prize value to judge payout by
+        .or('counter_review_status.is.null,counter_review_status.eq.approved')
         .order('created_at', { ascending: false })
         .limit(1);
       
@@ -44,31 +63,11 @@ const PayoutIssues: React.FC = () => {
         return 0;
       }
       
-      const report = reportData[0];
-      const earnings = report.money_collected || 0;
-      let prizeValue = report.prize_value || 0;
-      let toysDispensed = report.toys_dispensed || 0;
-      
-      if (prizeValue === 0 && toysDispensed > 0) {
-        const machine = machines.find(m => m.id === machineId);
-        if (machine?.current_prize) {
-          prizeValue = toysDispensed * parseFloat(machine.current_prize.cost.toString());
-        }
-      }
-      
-      if (toysDispensed === 0 && report.current_toy_count !== null && report.previous_toy_count !== null) {
-        toysDispensed = Math.max(0, report.current_toy_count - report.previous_toy_count);
-        
-        if (toysDispensed > 0) {
-          const machine = machines.find(m => m.id === machineId);
-          if (machine?.current_prize) {
-            prizeValue = toysDispensed * parseFloat(machine.current_prize.cost.toString());
-          }
-        }
-      }
-      
-      const percentage = earnings > 0 && prizeValue > 0 ? (prizeValue / earnings) * 100 : 0;
-      return percentage > 0 ? Math.round(percentage * 100) / 100 : 0;
+      const latest = calculateReport(
+        { ...reportData[0], machine_id: machineId },
+        { prizeCost }
+      );
+      return latest.payoutPercent ?? 0;
       
     } catch (error) {
       return 0;
@@ -80,33 +79,32 @@ const PayoutIssues: React.FC = () => {
     
     try {
       const foundIssues: PayoutIssue[] = [];
+      const prizeCost = await loadHistoricalPrizeCost(machines);
       
       for (const machine of machines) {
-        const payout = await calculateMachinePayout(machine.id);
+        const payout = await calculateMachinePayout(machine.id, prizeCost);
         
         if (payout > 0) {
-          if (payout < 10) {
+          const assessment = assessPayout(payout, bandFor(machine));
+          if (assessment.status !== 'ok') {
+            const tooLow = assessment.status === 'too_low';
             foundIssues.push({
               machineId: machine.id,
               machineName: machine.name,
               venue: machine.venue?.name || 'Unknown',
               currentPayout: payout,
-              issue: 'too_low',
-              description: `Payout is ${payout.toFixed(1)}% (below 10% minimum)`
-            });
-          } else if (payout > 30) {
-            foundIssues.push({
-              machineId: machine.id,
-              machineName: machine.name,
-              venue: machine.venue?.name || 'Unknown',
-              currentPayout: payout,
-              issue: 'too_high',
-              description: `Payout is ${payout.toFixed(1)}% (above 30% maximum)`
+              issue: assessment.status,
+              band: assessment.band,
+              severity: assessment.severity,
+              description: tooLow
+                ? `Payout is ${payout.toFixed(1)}% (below ${assessment.band.min}% minimum)`
+                : `Payout is ${payout.toFixed(1)}% (above ${assessment.band.max}% maximum)`
             });
           }
         }
       }
-      
+
+      foundIssues.sort((a, b) => SEVERITY_ORDER[b.severity] - SEVERITY_ORDER[a.severity]);
       setIssues(foundIssues);
       setLastChecked(new Date());
       
@@ -123,10 +121,10 @@ const PayoutIssues: React.FC = () => {
   };
 
   useEffect(() => {
-    if (machines.length > 0) {
+    if (machines.length > 0 && targetsLoaded) {
       checkPayoutIssues();
     }
-  }, [machines]);
+  }, [machines, targetsLoaded, targets]);
 
   // Unique venues from issues for the venue filter
   const venueOptions = useMemo(() => {
@@ -160,7 +158,7 @@ const PayoutIssues: React.FC = () => {
               Payout Issues
             </h2>
             <p className="text-gray-600 mt-1">
-              Machines with payout percentages outside the 10-30% range
+              Machines with payout percentages outside their target band
             </p>
             {lastChecked && (
               <p className="text-sm text-gray-500 mt-1">
@@ -169,17 +167,30 @@ const PayoutIssues: React.FC = () => {
             )}
           </div>
         </div>
-        <Button 
-          onClick={checkPayoutIssues} 
-          disabled={isLoading}
-          className="flex items-center gap-2"
-          type="button"
-        >
-          <RefreshCw className={`h-4 w-4 ${isLoading ? 'animate-spin' : ''}`} />
-          {isLoading ? 'Checking...' : 'Refresh'}
-        </Button>
+        <div className="flex gap-2">
+          <Button
+            variant={showTargets ? 'default' : 'outline'}
+            onClick={() => setShowTargets(!showTargets)}
+            className="flex items-center gap-2"
+            type="button"
+          >
+            <Target className="h-4 w-4" />
+            Targets
+          </Button>
+          <Button 
+            onClick={checkPayoutIssues} 
+            disabled={isLoading}
+            className="flex items-center gap-2"
+            type="button"
+          >
+            <RefreshCw className={`h-4 w-4 ${isLoading ? 'animate-spin' : ''}`} />
+            {isLoading ? 'Checking...' : 'Refresh'}
+          </Button>
+        </div>
       </div>
 
+      {showTargets && <PayoutTargetsManager targets={targets} />}
+
       {isLoading ? (
         <Card>
           <CardContent className="flex items-center justify-center py-12">
@@ -195,7 +206,7 @@ const PayoutIssues: React.FC = () => {
             <div className="text-center">
               <CheckCircle className="h-12 w-12 text-green-500 mx-auto mb-4" />
               <h3 className="text-lg font-semibold text-gray-900 mb-2">All Good!</h3>
-              <p className="text-gray-600">No payout issues detected. All machines are within the acceptable range.</p>
+              <p className="text-gray-600">No payout issues detected. All machines are within their target bands.</p>
             </div>
           </CardContent>
         </Card>
@@ -277,15 +288,20 @@ const PayoutIssues: React.FC = () => {
                         <AlertTriangle className={`h-5 w-5 ${issue.issue === 'too_low' ? 'text-blue-500' : 'text-red-500'}`} />
                         {issue.machineName}
                       </CardTitle>
-                      <Badge
-                        className={issue.issue === 'too_low'
-                          ? 'bg-blue-100 text-blue-800 border-blue-200'
-                          : 'bg-red-100 text-red-800 border-red-200'}
-                      >
-                        {issue.issue === 'too_low'
-                          ? <><TrendingDown className="h-3 w-3 mr-1 inline" />Too Low</>
-                          : <><TrendingUp className="h-3 w-3 mr-1 inline" />Too High</>}
-                      </Badge>
+                      <div className="flex items-center gap-2">
+                        <Badge className={SEVERITY_BADGE[issue.severity]}>
+                          {issue.severity.toUpperCase()}
+                        </Badge>
+                        <Badge
+                          className={issue.issue === 'too_low'
+                            ? 'bg-blue-100 text-blue-800 border-blue-200'
+                            : 'bg-red-100 text-red-800 border-red-200'}
+                        >
+                          {issue.issue === 'too_low'
+                            ? <><TrendingDown className="h-3 w-3 mr-1 inline" />Too Low</>
+                            : <><TrendingUp className="h-3 w-3 mr-1 inline" />Too High</>}
+                        </Badge>
+                      </div>
                     </div>
                   </CardHeader>
                   <CardContent>
@@ -296,7 +312,9 @@ const PayoutIssues: React.FC = () => {
                         <span className={`font-semibold ${issue.issue === 'too_low' ? 'text-blue-700' : 'text-red-700'}`}>
                           {issue.currentPayout.toFixed(1)}%
                         </span>
-                        <span className="text-gray-400 ml-2">(target: 10–30%)</span>
+                        <span className="text-gray-400 ml-2">
+                          (target: {formatPayoutBand(issue.band)}{issue.band.source === 'machine' ? ', machine override' : issue.band.source === 'default' ? ', default' : ''})
+                        </span>
                       </p>
                       <p className={`text-sm ${issue.issue === 'too_low' ? 'text-blue-700' : 'text-red-700'}`}>
                         {issue.description}
@@ -0,0 +1,256 @@
+// src/components/PayoutTargetsManager.tsx
+// Edit payout target bands per machine type, with per-machine overrides
+import React, { useMemo, useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Plus, Save, Target, Trash2 } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { useAppContext } from '@/contexts/AppContext';
+import { repositories, type PayoutTargetRow } from '@/lib/repositories';
+import { DEFAULT_PAYOUT_BAND, formatPayoutBand, notifyPayoutTargetsChanged } from '@/lib/payoutTargets';
+
+interface PayoutTargetsManagerProps {
+  targets: PayoutTargetRow[];
+}
+
+interface TargetDraft {
+  scope: 'type' | 'machine';
+  key: string;
+  min: string;
+  max: string;
+  notes: string;
+}
+
+const EMPTY_DRAFT: TargetDraft = { scope: 'type', key: '', min: '', max: '', notes: '' };
+
+const PayoutTargetsManager: React.FC<PayoutTargetsManagerProps> = ({ targets }) => {
+  const { machines = [] } = useAppContext();
+  const { toast } = useToast();
+  const [draft, setDraft] = useState<TargetDraft>(EMPTY_DRAFT);
+  const [editing, setEditing] = useState<Record<string, { min: string; max: string }>>({});
+  const [saving, setSaving] = useState(false);
+
+  const machineTypes = useMemo(
+    () => Array.from(new Set(machines.map(machine => machine.type?.trim()).filter(Boolean))).sort(),
+    [machines]
+  );
+
+  const describeTarget = (target: PayoutTargetRow) => {
+    if (target.machine_type) return target.machine_type;
+    const machine = machines.find(item => item.id === target.machine_id);
+    return machine ? `${machine.name}${machine.venue?.name ? ` (${machine.venue.name})` : ''}` : 'Removed machine';
+  };
+
+  const sortedTargets = [...targets].sort((a, b) =>
+    Number(!!a.machine_id) - Number(!!b.machine_id) || describeTarget(a).localeCompare(describeTarget(b))
+  );
+
+  const parseBand = (min: string, max: string) => {
+    const minValue = parseFloat(min);
+    const maxValue = parseFloat(max);
+    if (isNaN(minValue) || isNaN(maxValue) || minValue < 0 || maxValue > 100 || minValue >= maxValue) {
+      toast({ title: 'Validation Error', description: 'Enter a minimum below the maximum, between 0 and 100', variant: 'destructive' });
+      return null;
+    }
+    return { min_percent: minValue, max_percent: maxValue };
+  };
+
+  const runSave = async (action: () => Promise<unknown>, success: string) => {
+    setSaving(true);
+    try {
+      await action();
+      toast({ title: 'Payout Targets Saved', description: success });
+      notifyPayoutTargetsChanged();
+      return true;
+    } catch (error) {
+      console.error('❌ Error saving payout target:', error);
+      toast({ title: 'Error', description: (error as Error).message || 'Failed to save payout target', variant: 'destructive' });
+      return false;
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleAdd = async () => {
+    if (!draft.key) {
+      toast({ title: 'Validation Error', description: `Choose a machine ${draft.scope}`, variant: 'destructive' });
+      return;
+    }
+    const band = parseBand(draft.min, draft.max);
+    if (!band) return;
+
+    const saved = await runSave(
+      () => repositories.payoutTargets.create({
+        machine_type: draft.scope === 'type' ? draft.key : null,
+        machine_id: draft.scope === 'machine' ? draft.key : null,
+        notes: draft.notes.trim() || null,
+        ...band
+      }),
+      'New payout band added'
+    );
+    if (saved) setDraft(EMPTY_DRAFT);
+  };
+
+  const handleUpdate = async (target: PayoutTargetRow) => {
+    const values = editing[target.id];
+    const band = values && parseBand(values.min, values.max);
+    if (!band) return;
+
+    const saved = await runSave(
+      () => repositories.payoutTargets.update(target.id, { ...band, updated_at: new Date().toISOString() }),
+      `${describeTarget(target)} is now ${formatPayoutBand({ min: band.min_percent, max: band.max_percent, source: 'type' })}`
+    );
+    if (saved) setEditing(prev => {
+      const next = { ...prev };
+      delete next[target.id];
+      return next;
+    });
+  };
+
+  const handleDelete = (target: PayoutTargetRow) =>
+    runSave(() => repositories.payoutTargets.remove(target.id), `${describeTarget(target)} band removed`);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Target className="h-5 w-5" />
+          Payout Targets
+        </CardTitle>
+        <p className="text-sm text-gray-600">
+          Machines without a band of their own use their type's band, or {formatPayoutBand(DEFAULT_PAYOUT_BAND)} if their type has none.
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Applies To</TableHead>
+              <TableHead className="w-28">Min %</TableHead>
+              <TableHead className="w-28">Max %</TableHead>
+              <TableHead>Notes</TableHead>
+              <TableHead />
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {sortedTargets.length === 0 && (
+              <TableRow>
+                <TableCell colSpan={5} className="text-center text-gray-500">No payout bands configured</TableCell>
+              </TableRow>
+            )}
+            {sortedTargets.map(target => {
+              const values = editing[target.id] || { min: String(target.min_percent), max: String(target.max_percent) };
+              const changed = !!editing[target.id];
+              return (
+                <TableRow key={target.id}>
+                  <TableCell>
+                    <div className="flex items-center gap-2">
+                      <Badge variant="outline">{target.machine_id ? 'Machine' : 'Type'}</Badge>
+                      {describeTarget(target)}
+                    </div>
+                  </TableCell>
+                  <TableCell>
+                    <Input
+                      type="number"
+                      value={values.min}
+                      onChange={(e) => setEditing(prev => ({ ...prev, [target.id]: { ...values, min: e.target.value } }))}
+                      disabled={saving}
+                    />
+                  </TableCell>
+                  <TableCell>
+                    <Input
+                      type="number"
+                      value={values.max}
+                      onChange={(e) => setEditing(prev => ({ ...prev, [target.id]: { ...values, max: e.target.value } }))}
+                      disabled={saving}
+                    />
+                  </TableCell>
+                  <TableCell className="text-sm text-gray-600">{target.notes}</TableCell>
+                  <TableCell>
+                    <div className="flex justify-end gap-2">
+                      {changed && (
+                        <Button size="sm" onClick={() => handleUpdate(target)} disabled={saving}>
+                          <Save className="h-4 w-4" />
+                        </Button>
+                      )}
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        className="text-red-600 hover:text-red-700"
+                        onClick={() => handleDelete(target)}
+                        disabled={saving}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </TableCell>
+                </TableRow>
+              );
+            })}
+          </TableBody>
+        </Table>
+
+        <div className="grid grid-cols-1 md:grid-cols-6 gap-3 items-end p-4 bg-gray-50 border rounded-lg">
+          <div>
+            <Label>Scope</Label>
+            <Select
+              value={draft.scope}
+              onValueChange={(value) => setDraft({ ...draft, scope: value as TargetDraft['scope'], key: '' })}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="type">Machine type</SelectItem>
+                <SelectItem value="machine">Single machine</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="md:col-span-2">
+            <Label>{draft.scope === 'type' ? 'Type' : 'Machine'}</Label>
+            <Select value={draft.key} onValueChange={(value) => setDraft({ ...draft, key: value })}>
+              <SelectTrigger>
+                <SelectValue placeholder={draft.scope === 'type' ? 'Select type' : 'Select machine'} />
+              </SelectTrigger>
+              <SelectContent>
+                {draft.scope === 'type'
+                  ? machineTypes.map(type => <SelectItem key={type} value={type}>{type}</SelectItem>)
+                  : machines.map(machine => (
+                      <SelectItem key={machine.id} value={machine.id}>
+                        {machine.name}{machine.venue?.name ? ` (${machine.venue.name})` : ''}
+                      </SelectItem>
+                    ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div>
+            <Label htmlFor="target-min">Min %</Label>
+            <Input id="target-min" type="number" value={draft.min} onChange={(e) => setDraft({ ...draft, min: e.target.value })} />
+          </div>
+          <div>
+            <Label htmlFor="target-max">Max %</Label>
+            <Input id="target-max" type="number" value={draft.max} onChange={(e) => setDraft({ ...draft, max: e.target.value })} />
+          </div>
+          <Button onClick={handleAdd} disabled={saving}>
+            <Plus className="h-4 w-4 mr-1" />
+            Add Band
+          </Button>
+          <div className="md:col-span-6">
+            <Input
+              value={draft.notes}
+              onChange={(e) => setDraft({ ...draft, notes: e.target.value })}
+              placeholder="Notes (optional), e.g. why this machine differs"
+            />
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default PayoutTargetsManager;
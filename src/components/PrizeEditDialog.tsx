@@ -5,6 +5,8 @@ import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { useAppContext } from '@/contexts/AppContext';
 import ImageUpload from '@/components/ImageUpload';
+import type { PrizeCostHistoryRow } from '@/lib/repositories';
+import { COST_SOURCE_LABELS, loadPrizeCostHistory } from '@/lib/prizeCosting';
 
 interface PrizeEditDialogProps {
   isOpen: boolean;
@@ -20,6 +22,7 @@ const PrizeEditDialog: React.FC<PrizeEditDialogProps> = ({ isOpen, onClose, priz
     stock_quantity: '',
     image_url: ''
   });
+  const [costHistory, setCostHistory] = useState<PrizeCostHistoryRow[]>([]);
 
   const prize = prizes.find(p => p.id === prizeId);
 
@@ -34,6 +37,13 @@ const PrizeEditDialog: React.FC<PrizeEditDialogProps> = ({ isOpen, onClose, priz
     }
   }, [prize]);
 
+  useEffect(() => {
+    if (!isOpen || !prizeId) return;
+    loadPrizeCostHistory([prizeId])
+      .then(rows => setCostHistory(rows.slice().reverse()))
+      .catch(error => console.error('❌ Error loading prize cost history:', error));
+  }, [isOpen, prizeId]);
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     try {
@@ -77,6 +87,19 @@ const PrizeEditDialog: React.FC<PrizeEditDialogProps> = ({ isOpen, onClose, priz
               placeholder="Enter cost"
               required
             />
+            <p className="text-xs text-gray-500 mt-1">
+              Received orders keep this at the weighted average. A new cost applies from now on; past reports keep theirs.
+            </p>
+            {costHistory.length > 0 && (
+              <div className="mt-2 border rounded divide-y max-h-32 overflow-y-auto text-xs">
+                {costHistory.map(row => (
+                  <div key={row.id} className="flex justify-between px-2 py-1">
+                    <span>{new Date(row.effective_from).toLocaleDateString()} · {COST_SOURCE_LABELS[row.source]}</span>
+                    <span className="font-medium">${Number(row.unit_cost).toFixed(2)}</span>
+                  </div>
+                ))}
+              </div>
+            )}
           </div>
           <div>
             <Label htmlFor="stock">Stock Quantity</Label>
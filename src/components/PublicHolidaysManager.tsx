@@ -0,0 +1,108 @@
+// src/components/PublicHolidaysManager.tsx
+// The public holidays runs skip or move around, depending on each run's holiday rule
+import React, { useCallback, useEffect, useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { CalendarOff, Plus, Trash2 } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { repositories, type PublicHolidayRow } from '@/lib/repositories';
+
+interface PublicHolidaysManagerProps {
+  // Called after a change so run schedules can be regenerated around it
+  onChanged: () => void;
+}
+
+const PublicHolidaysManager: React.FC<PublicHolidaysManagerProps> = ({ onChanged }) => {
+  const { toast } = useToast();
+  const [holidays, setHolidays] = useState<PublicHolidayRow[]>([]);
+  const [date, setDate] = useState('');
+  const [name, setName] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  const loadHolidays = useCallback(async () => {
+    try {
+      const today = new Date().toISOString().slice(0, 10);
+      setHolidays(await repositories.publicHolidays.listBetween(today, '9999-12-31'));
+    } catch (error) {
+      console.error('❌ Error loading public holidays:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadHolidays();
+  }, [loadHolidays]);
+
+  const handleAdd = async () => {
+    if (!date || !name.trim()) {
+      toast({ title: 'Validation Error', description: 'Enter the date and name of the holiday', variant: 'destructive' });
+      return;
+    }
+
+    setSaving(true);
+    try {
+      await repositories.publicHolidays.create({ holiday_date: date, name: name.trim() });
+      toast({ title: 'Holiday Added', description: `${name.trim()} on ${new Date(`${date}T00:00:00`).toLocaleDateString()}` });
+      setDate('');
+      setName('');
+      await loadHolidays();
+      onChanged();
+    } catch (error) {
+      console.error('❌ Error adding public holiday:', error);
+      toast({ title: 'Error', description: (error as Error).message || 'Failed to add holiday', variant: 'destructive' });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleRemove = async (holiday: PublicHolidayRow) => {
+    try {
+      await repositories.publicHolidays.remove(holiday.id);
+      setHolidays(prev => prev.filter(row => row.id !== holiday.id));
+      onChanged();
+    } catch (error) {
+      console.error('❌ Error removing public holiday:', error);
+      toast({ title: 'Error', description: (error as Error).message || 'Failed to remove holiday', variant: 'destructive' });
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-sm flex items-center gap-2">
+          <CalendarOff className="h-4 w-4" />
+          Public Holidays
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <div className="flex flex-col sm:flex-row gap-2">
+          <Input type="date" value={date} onChange={(e) => setDate(e.target.value)} className="sm:w-44" />
+          <Input value={name} onChange={(e) => setName(e.target.value)} placeholder="e.g. Proclamation Day" />
+          <Button onClick={handleAdd} disabled={saving}>
+            <Plus className="h-4 w-4 mr-1" />
+            Add
+          </Button>
+        </div>
+        {holidays.length === 0 ? (
+          <p className="text-sm text-gray-500">No upcoming public holidays entered</p>
+        ) : (
+          <div className="divide-y border rounded">
+            {holidays.map(holiday => (
+              <div key={holiday.id} className="flex items-center justify-between px-3 py-2 text-sm">
+                <span>
+                  <span className="font-medium">{new Date(`${holiday.holiday_date}T00:00:00`).toLocaleDateString()}</span>
+                  {' '}{holiday.name}
+                </span>
+                <Button variant="ghost" size="sm" onClick={() => handleRemove(holiday)} className="text-red-600">
+                  <Trash2 className="h-3 w-3" />
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default PublicHolidaysManager;
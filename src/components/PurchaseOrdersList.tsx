@@ -0,0 +1,292 @@
+// src/components/PurchaseOrdersList.tsx
+// Purchase orders: build up drafts, send them, receive deliveries against them
+import React, { useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Mail, PackageCheck, Plus, Send, Trash2, X } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { useAppContext } from '@/contexts/AppContext';
+import {
+  repositories,
+  eq,
+  type PurchaseOrderRow,
+  type PurchaseOrderStatus,
+  type StockItemType,
+  type SupplierRow
+} from '@/lib/repositories';
+import { markOrdered, orderTotal } from '@/lib/purchasing';
+import ReceiveGoodsDialog from './ReceiveGoodsDialog';
+
+interface PurchaseOrdersListProps {
+  orders: PurchaseOrderRow[];
+  suppliers: SupplierRow[];
+  currentUserId?: string;
+  onChanged: () => void;
+}
+
+const STATUS_BADGES: Record<PurchaseOrderStatus, { label: string; className: string }> = {
+  draft: { label: 'Draft', className: 'bg-gray-100 text-gray-800' },
+  ordered: { label: 'Ordered', className: 'bg-blue-100 text-blue-800' },
+  partially_received: { label: 'Part Received', className: 'bg-yellow-100 text-yellow-800' },
+  received: { label: 'Received', className: 'bg-green-100 text-green-800' },
+  cancelled: { label: 'Cancelled', className: 'bg-red-100 text-red-800' }
+};
+
+const EMPTY_LINE = { item_key: '', quantity: '1', unit_cost: '' };
+
+const orderEmail = (order: PurchaseOrderRow) => {
+  const lines = (order.purchase_order_lines || [])
+    .map(line => `${line.quantity_ordered} x ${line.item_name} @ $${Number(line.unit_cost).toFixed(2)}`)
+    .join('\n');
+  const body = `Hi,\n\nPlease supply the following for order ${order.po_number}:\n\n${lines}\n\nTotal: $${orderTotal(order.purchase_order_lines).toFixed(2)}\n\nThanks`;
+  return `mailto:${order.suppliers?.email}?subject=${encodeURIComponent(`Purchase order ${order.po_number}`)}&body=${encodeURIComponent(body)}`;
+};
+
+const PurchaseOrdersList: React.FC<PurchaseOrdersListProps> = ({ orders, suppliers, currentUserId, onChanged }) => {
+  const { prizes = [], parts = [] } = useAppContext();
+  const { toast } = useToast();
+  const [newSupplierId, setNewSupplierId] = useState('');
+  const [lineDrafts, setLineDrafts] = useState<Record<string, typeof EMPTY_LINE>>({});
+  const [receiving, setReceiving] = useState<PurchaseOrderRow | null>(null);
+  const [statusFilter, setStatusFilter] = useState<'open' | 'all'>('open');
+
+  const visible = statusFilter === 'all'
+    ? orders
+    : orders.filter(order => !['received', 'cancelled'].includes(order.status));
+
+  const run = async (action: () => Promise<unknown>, failure: string) => {
+    try {
+      await action();
+      onChanged();
+    } catch (error) {
+      console.error(`❌ ${failure}:`, error);
+      toast({ title: 'Error', description: (error as Error).message || failure, variant: 'destructive' });
+    }
+  };
+
+  const handleNewOrder = () => {
+    if (!newSupplierId) return;
+    run(async () => {
+      await repositories.purchaseOrders.create({ supplier_id: newSupplierId, status: 'draft', created_by: currentUserId || null });
+      setNewSupplierId('');
+    }, 'Failed to create order');
+  };
+
+  const handleAddLine = (order: PurchaseOrderRow) => {
+    const draft = lineDrafts[order.id] || EMPTY_LINE;
+    const [itemType, itemId] = draft.item_key.split(':') as [StockItemType, string];
+    const quantity = parseInt(draft.quantity);
+    if (!itemId || !(quantity > 0)) {
+      toast({ title: 'Validation Error', description: 'Choose an item and a quantity', variant: 'destructive' });
+      return;
+    }
+    const prize = itemType === 'prize' ? prizes.find(row => row.id === itemId) : undefined;
+    const part = itemType === 'part' ? parts.find(row => row.id === itemId) : undefined;
+    const fallbackCost = prize ? Number(prize.cost) : Number(part?.cost_price);
+
+    run(async () => {
+      // Unless a price is typed in, use the supplier's list price, then our own cost
+      const listed = await repositories.supplierItems.findOne([
+        eq('supplier_id', order.supplier_id),
+        eq('item_type', itemType),
+        eq('item_id', itemId)
+      ]);
+      await repositories.purchaseOrderLines.create({
+        purchase_order_id: order.id,
+        item_type: itemType,
+        item_id: itemId,
+        item_name: prize?.name || part?.name || 'Item',
+        quantity_ordered: quantity,
+        unit_cost: draft.unit_cost !== '' ? parseFloat(draft.unit_cost) || 0 : Number(listed?.unit_cost ?? fallbackCost) || 0
+      });
+      setLineDrafts(prev => ({ ...prev, [order.id]: EMPTY_LINE }));
+    }, 'Failed to add line');
+  };
+
+  const handleSend = (order: PurchaseOrderRow) => {
+    if (!order.purchase_order_lines?.length) {
+      toast({ title: 'Empty Order', description: 'Add at least one line before sending', variant: 'destructive' });
+      return;
+    }
+    run(() => markOrdered(order), 'Failed to mark order as sent');
+  };
+
+  const handleCancel = (order: PurchaseOrderRow) => {
+    if (!confirm(`Cancel ${order.po_number}? Anything already received stays in stock.`)) return;
+    run(() => repositories.purchaseOrders.update(order.id, { status: 'cancelled' }), 'Failed to cancel order');
+  };
+
+  const handleDelete = (order: PurchaseOrderRow) => {
+    if (!confirm(`Delete draft ${order.po_number}?`)) return;
+    run(() => repositories.purchaseOrders.remove(order.id), 'Failed to delete order');
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-col sm:flex-row gap-2 justify-between">
+        <div className="flex gap-2">
+          <Select value={newSupplierId} onValueChange={setNewSupplierId}>
+            <SelectTrigger className="w-56">
+              <SelectValue placeholder="Supplier for a new order" />
+            </SelectTrigger>
+            <SelectContent>
+              {suppliers.filter(supplier => supplier.is_active).map(supplier => (
+                <SelectItem key={supplier.id} value={supplier.id}>{supplier.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button onClick={handleNewOrder} disabled={!newSupplierId}>
+            <Plus className="h-4 w-4 mr-1" />
+            New Order
+          </Button>
+        </div>
+        <Select value={statusFilter} onValueChange={(value) => setStatusFilter(value as 'open' | 'all')}>
+          <SelectTrigger className="w-40">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="open">Open orders</SelectItem>
+            <SelectItem value="all">All orders</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+
+      {visible.length === 0 && (
+        <p className="text-sm text-gray-500 text-center py-6">No purchase orders</p>
+      )}
+
+      {visible.map(order => {
+        const status = STATUS_BADGES[order.status];
+        const lines = order.purchase_order_lines || [];
+        const draft = lineDrafts[order.id] || EMPTY_LINE;
+        const isDraft = order.status === 'draft';
+        return (
+          <Card key={order.id}>
+            <CardHeader className="pb-2">
+              <CardTitle className="text-base flex flex-wrap items-center justify-between gap-2">
+                <span className="flex items-center gap-2">
+                  {order.po_number}
+                  <span className="font-normal text-gray-600">{order.suppliers?.name}</span>
+                  <Badge className={status.className}>{status.label}</Badge>
+                </span>
+                <span className="text-sm font-medium">${orderTotal(lines).toFixed(2)}</span>
+              </CardTitle>
+              <p className="text-xs text-gray-500">
+                Created {new Date(order.created_at).toLocaleDateString()}
+                {order.ordered_at && ` · sent ${new Date(order.ordered_at).toLocaleDateString()}`}
+                {order.expected_date && order.status !== 'received' && ` · expected ${new Date(`${order.expected_date}T00:00:00`).toLocaleDateString()}`}
+                {order.notes && ` · ${order.notes}`}
+              </p>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              {lines.length > 0 && (
+                <div className="divide-y border rounded">
+                  {lines.map(line => (
+                    <div key={line.id} className="flex items-center justify-between px-3 py-2 text-sm">
+                      <span>
+                        {line.quantity_ordered} × {line.item_name}
+                        {line.quantity_received > 0 && (
+                          <span className="text-gray-500"> · {line.quantity_received} received</span>
+                        )}
+                      </span>
+                      <div className="flex items-center gap-2">
+                        <span>${(line.quantity_ordered * Number(line.unit_cost)).toFixed(2)}</span>
+                        {isDraft && (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            className="text-red-600"
+                            onClick={() => run(() => repositories.purchaseOrderLines.remove(line.id), 'Failed to remove line')}
+                          >
+                            <X className="h-3 w-3" />
+                          </Button>
+                        )}
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
+
+              {isDraft && (
+                <div className="flex gap-2">
+                  <Select
+                    value={draft.item_key}
+                    onValueChange={(item_key) => setLineDrafts(prev => ({ ...prev, [order.id]: { ...draft, item_key } }))}
+                  >
+                    <SelectTrigger className="flex-1">
+                      <SelectValue placeholder="Add prize or part" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {prizes.map(prize => <SelectItem key={`prize:${prize.id}`} value={`prize:${prize.id}`}>🎁 {prize.name}</SelectItem>)}
+                      {parts.map(part => <SelectItem key={`part:${part.id}`} value={`part:${part.id}`}>⚙️ {part.name}</SelectItem>)}
+                    </SelectContent>
+                  </Select>
+                  <Input
+                    type="number"
+                    min="1"
+                    className="w-20"
+                    value={draft.quantity}
+                    onChange={(e) => setLineDrafts(prev => ({ ...prev, [order.id]: { ...draft, quantity: e.target.value } }))}
+                  />
+                  <Input
+                    type="number"
+                    step="0.01"
+                    min="0"
+                    placeholder="List $"
+                    className="w-24"
+                    value={draft.unit_cost}
+                    onChange={(e) => setLineDrafts(prev => ({ ...prev, [order.id]: { ...draft, unit_cost: e.target.value } }))}
+                  />
+                  <Button size="sm" className="h-10" onClick={() => handleAddLine(order)}>
+                    <Plus className="h-4 w-4" />
+                  </Button>
+                </div>
+              )}
+
+              <div className="flex flex-wrap gap-2">
+                {isDraft && (
+                  <>
+                    <Button size="sm" onClick={() => handleSend(order)}>
+                      <Send className="h-4 w-4 mr-1" />
+                      Mark Sent
+                    </Button>
+                    <Button size="sm" variant="outline" className="text-red-600" onClick={() => handleDelete(order)}>
+                      <Trash2 className="h-4 w-4 mr-1" />
+                      Delete
+                    </Button>
+                  </>
+                )}
+                {(order.status === 'ordered' || order.status === 'partially_received') && (
+                  <>
+                    <Button size="sm" onClick={() => setReceiving(order)}>
+                      <PackageCheck className="h-4 w-4 mr-1" />
+                      Receive Goods
+                    </Button>
+                    <Button size="sm" variant="outline" onClick={() => handleCancel(order)}>
+                      Cancel Order
+                    </Button>
+                  </>
+                )}
+                {order.suppliers?.email && lines.length > 0 && order.status !== 'cancelled' && (
+                  <Button size="sm" variant="outline" asChild>
+                    <a href={orderEmail(order)}>
+                      <Mail className="h-4 w-4 mr-1" />
+                      Email Supplier
+                    </a>
+                  </Button>
+                )}
+              </div>
+            </CardContent>
+          </Card>
+        );
+      })}
+
+      <ReceiveGoodsDialog order={receiving} onClose={() => setReceiving(null)} onReceived={onChanged} />
+    </div>
+  );
+};
+
+export default PurchaseOrdersList;
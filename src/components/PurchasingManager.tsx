@@ -0,0 +1,101 @@
+// src/components/PurchasingManager.tsx
+// Purchasing: what to reorder, the purchase orders placed, and the suppliers they go to
+import React, { useCallback, useEffect, useState } from 'react';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Building2, ClipboardList, ShoppingCart } from 'lucide-react';
+import { useAppContext } from '@/contexts/AppContext';
+import { repositories, type PurchaseOrderRow, type SupplierRow } from '@/lib/repositories';
+import ReorderSuggestions from './ReorderSuggestions';
+import PurchaseOrdersList from './PurchaseOrdersList';
+import SuppliersManager from './SuppliersManager';
+
+interface PurchasingManagerProps {
+  currentUserId?: string;
+}
+
+const PurchasingManager: React.FC<PurchasingManagerProps> = ({ currentUserId }) => {
+  const { refreshData } = useAppContext();
+  const [suppliers, setSuppliers] = useState<SupplierRow[]>([]);
+  const [orders, setOrders] = useState<PurchaseOrderRow[]>([]);
+  const [activeTab, setActiveTab] = useState('reorder');
+
+  const loadSuppliers = useCallback(async () => {
+    try {
+      setSuppliers(await repositories.suppliers.list({ orderBy: [{ column: 'name', ascending: true }] }));
+    } catch (error) {
+      console.error('❌ Error loading suppliers:', error);
+    }
+  }, []);
+
+  const loadOrders = useCallback(async () => {
+    try {
+      setOrders(await repositories.purchaseOrders.listLatestFirst());
+    } catch (error) {
+      console.error('❌ Error loading purchase orders:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadSuppliers();
+    loadOrders();
+  }, [loadSuppliers, loadOrders]);
+
+  // Receiving changes stock levels shown everywhere else
+  const handleOrdersChanged = async () => {
+    await loadOrders();
+    refreshData();
+  };
+
+  const openOrders = orders.filter(order => !['received', 'cancelled'].includes(order.status)).length;
+
+  return (
+    <div className="space-y-6">
+      <h2 className="text-2xl font-bold text-gray-900 flex items-center gap-2">
+        <ShoppingCart className="h-6 w-6" />
+        Purchasing
+      </h2>
+
+      <Tabs value={activeTab} onValueChange={setActiveTab} className="w-full">
+        <TabsList className="grid w-full grid-cols-3">
+          <TabsTrigger value="reorder" className="flex items-center gap-2">
+            <ClipboardList className="h-4 w-4" />
+            Reorder
+          </TabsTrigger>
+          <TabsTrigger value="orders" className="flex items-center gap-2">
+            <ShoppingCart className="h-4 w-4" />
+            Orders ({openOrders})
+          </TabsTrigger>
+          <TabsTrigger value="suppliers" className="flex items-center gap-2">
+            <Building2 className="h-4 w-4" />
+            Suppliers
+          </TabsTrigger>
+        </TabsList>
+
+        <TabsContent value="reorder">
+          <ReorderSuggestions
+            currentUserId={currentUserId}
+            onOrdersCreated={() => {
+              loadOrders();
+              setActiveTab('orders');
+            }}
+          />
+        </TabsContent>
+
+        <TabsContent value="orders">
+          <PurchaseOrdersList
+            orders={orders}
+            suppliers={suppliers}
+            currentUserId={currentUserId}
+            onChanged={handleOrdersChanged}
+          />
+        </TabsContent>
+
+        <TabsContent value="suppliers">
+          <SuppliersManager suppliers={suppliers} onChanged={loadSuppliers} />
+        </TabsContent>
+      </Tabs>
+    </div>
+  );
+};
+
+export default PurchasingManager;
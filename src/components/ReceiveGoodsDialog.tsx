@@ -0,0 +1,99 @@
+// src/components/ReceiveGoodsDialog.tsx
+// Books a delivery against a purchase order: each line's arrived quantity goes into stock
+import React, { useEffect, useState } from 'react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { PackageCheck } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { repositories, type PurchaseOrderRow } from '@/lib/repositories';
+
+interface ReceiveGoodsDialogProps {
+  order: PurchaseOrderRow | null;
+  onClose: () => void;
+  onReceived: () => void;
+}
+
+const ReceiveGoodsDialog: React.FC<ReceiveGoodsDialogProps> = ({ order, onClose, onReceived }) => {
+  const { toast } = useToast();
+  const [quantities, setQuantities] = useState<Record<string, string>>({});
+  const [saving, setSaving] = useState(false);
+
+  const lines = (order?.purchase_order_lines || []).filter(line => line.quantity_received < line.quantity_ordered);
+
+  // Defaults to everything still due having arrived
+  useEffect(() => {
+    setQuantities(Object.fromEntries(
+      (order?.purchase_order_lines || []).map(line => [line.id, String(line.quantity_ordered - line.quantity_received)])
+    ));
+  }, [order]);
+
+  const handleReceive = async () => {
+    if (!order) return;
+    const received = lines
+      .map(line => ({ line_id: line.id, quantity: parseInt(quantities[line.id]) || 0 }))
+      .filter(line => line.quantity > 0);
+    if (received.length === 0) {
+      toast({ title: 'Nothing Received', description: 'Enter how many arrived for at least one line', variant: 'destructive' });
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const saved = await repositories.purchaseOrders.receive(order.id, received);
+      const total = received.reduce((sum, line) => sum + line.quantity, 0);
+      toast({
+        title: 'Goods Received',
+        description: `${total} item${total === 1 ? '' : 's'} added to stock · ${order.po_number} ${saved?.status === 'received' ? 'complete' : 'part received'}`
+      });
+      onReceived();
+      onClose();
+    } catch (error) {
+      console.error('❌ Error receiving purchase order:', error);
+      toast({ title: 'Error', description: (error as Error).message || 'Failed to receive goods', variant: 'destructive' });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={!!order} onOpenChange={(open) => { if (!open) onClose(); }}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <PackageCheck className="h-5 w-5" />
+            Receive {order?.po_number}
+          </DialogTitle>
+        </DialogHeader>
+        <div className="space-y-2">
+          {lines.map(line => (
+            <div key={line.id} className="flex items-center justify-between gap-3 text-sm">
+              <div className="min-w-0">
+                <div className="font-medium truncate">{line.item_name}</div>
+                <div className="text-xs text-gray-500">
+                  {line.quantity_received} of {line.quantity_ordered} received
+                </div>
+              </div>
+              <Input
+                type="number"
+                min="0"
+                max={line.quantity_ordered - line.quantity_received}
+                className="w-24"
+                value={quantities[line.id] ?? ''}
+                onChange={(e) => setQuantities(prev => ({ ...prev, [line.id]: e.target.value }))}
+              />
+            </div>
+          ))}
+        </div>
+        <div className="flex justify-end gap-2 pt-2">
+          <Button variant="outline" onClick={onClose} disabled={saving}>Cancel</Button>
+          <Button onClick={handleReceive} disabled={saving}>
+            {saving ? 'Receiving...' : 'Receive into Stock'}
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ReceiveGoodsDialog;
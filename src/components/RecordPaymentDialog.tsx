@@ -0,0 +1,180 @@
+// src/components/RecordPaymentDialog.tsx
+import React, { useEffect, useState } from 'react';
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Loader2 } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { repositories, type CommissionPaymentMethod, type VenueReportRow } from '@/lib/repositories';
+import { PAYMENT_METHODS } from '@/lib/commissionLedger';
+
+export interface PaymentTarget {
+  venueId: string;
+  venueName: string;
+  // Omitted for a payment on account
+  report?: VenueReportRow | null;
+  outstanding: number;
+}
+
+interface RecordPaymentDialogProps {
+  target: PaymentTarget | null;
+  onClose: () => void;
+  onRecorded: (report?: VenueReportRow | null, settled?: boolean) => void;
+}
+
+const today = () => new Date().toISOString().split('T')[0];
+
+const RecordPaymentDialog: React.FC<RecordPaymentDialogProps> = ({ target, onClose, onRecorded }) => {
+  const [amount, setAmount] = useState('');
+  const [paidAt, setPaidAt] = useState(today());
+  const [method, setMethod] = useState<CommissionPaymentMethod>('bank_transfer');
+  const [reference, setReference] = useState('');
+  const [notes, setNotes] = useState('');
+  const [saving, setSaving] = useState(false);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    if (!target) return;
+    setAmount(target.outstanding > 0 ? target.outstanding.toFixed(2) : '');
+    setPaidAt(today());
+    setMethod('bank_transfer');
+    setReference('');
+    setNotes('');
+  }, [target]);
+
+  const handleSave = async () => {
+    if (!target) return;
+    const value = parseFloat(amount);
+    if (!value || value <= 0) {
+      toast({ title: 'Validation Error', description: 'Enter an amount greater than zero', variant: 'destructive' });
+      return;
+    }
+
+    setSaving(true);
+    try {
+      await repositories.commissionPayments.create({
+        venue_id: target.venueId,
+        venue_report_id: target.report?.id || null,
+        amount: Math.round(value * 100) / 100,
+        paid_at: paidAt,
+        method,
+        reference: reference.trim() || null,
+        notes: notes.trim() || null
+      });
+
+      const settled = !!target.report && value >= target.outstanding - 0.005;
+      toast({
+        title: 'Payment Recorded',
+        description: `$${value.toFixed(2)} to ${target.venueName}${settled ? ' — commission fully paid' : ''}`
+      });
+      onRecorded(target.report, settled);
+      onClose();
+    } catch (error) {
+      console.error('❌ Error recording payment:', error);
+      toast({
+        title: 'Error',
+        description: (error as Error).message || 'Failed to record payment',
+        variant: 'destructive'
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={!!target} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Record Payment — {target?.venueName}</DialogTitle>
+        </DialogHeader>
+
+        {target && (
+          <div className="space-y-4">
+            <p className="text-sm text-gray-600">
+              {target.report
+                ? `For ${new Date(target.report.date_range_start).toLocaleDateString()} – ${new Date(target.report.date_range_end).toLocaleDateString()}. Outstanding: $${target.outstanding.toFixed(2)}`
+                : `On account, applied to the oldest outstanding commission. Outstanding: $${target.outstanding.toFixed(2)}`}
+            </p>
+
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <Label htmlFor="payment-amount">Amount ($)</Label>
+                <Input
+                  id="payment-amount"
+                  type="number"
+                  step="0.01"
+                  min="0"
+                  value={amount}
+                  onChange={(e) => setAmount(e.target.value)}
+                  disabled={saving}
+                />
+              </div>
+              <div>
+                <Label htmlFor="payment-date">Date Paid</Label>
+                <Input
+                  id="payment-date"
+                  type="date"
+                  value={paidAt}
+                  onChange={(e) => setPaidAt(e.target.value)}
+                  disabled={saving}
+                />
+              </div>
+            </div>
+
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <Label>Method</Label>
+                <Select value={method} onValueChange={(value) => setMethod(value as CommissionPaymentMethod)} disabled={saving}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {PAYMENT_METHODS.map(item => (
+                      <SelectItem key={item.value} value={item.value}>{item.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label htmlFor="payment-reference">Reference</Label>
+                <Input
+                  id="payment-reference"
+                  value={reference}
+                  onChange={(e) => setReference(e.target.value)}
+                  placeholder="Bank ref, cheque no."
+                  disabled={saving}
+                />
+              </div>
+            </div>
+
+            <div>
+              <Label htmlFor="payment-notes">Notes</Label>
+              <Textarea
+                id="payment-notes"
+                value={notes}
+                onChange={(e) => setNotes(e.target.value)}
+                rows={2}
+                disabled={saving}
+              />
+            </div>
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose} disabled={saving}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={saving}>
+            {saving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Record Payment
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default RecordPaymentDialog;
@@ -0,0 +1,170 @@
+// src/components/ReorderSuggestions.tsx
+// Low-stock prizes and parts with a suggested order quantity, turned into draft purchase orders
+import React, { useCallback, useEffect, useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { ClipboardList, RefreshCw } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import {
+  COVER_DAYS,
+  USAGE_WINDOW_DAYS,
+  createDraftOrders,
+  loadReorderSuggestions,
+  stockKey,
+  type ReorderSuggestion
+} from '@/lib/purchasing';
+
+interface ReorderSuggestionsProps {
+  currentUserId?: string;
+  onOrdersCreated: () => void;
+}
+
+const keyOf = (suggestion: ReorderSuggestion) => stockKey(suggestion.item.item_type, suggestion.item.item_id);
+
+const ReorderSuggestions: React.FC<ReorderSuggestionsProps> = ({ currentUserId, onOrdersCreated }) => {
+  const { toast } = useToast();
+  const [suggestions, setSuggestions] = useState<ReorderSuggestion[]>([]);
+  const [chosen, setChosen] = useState<Set<string>>(new Set());
+  const [quantities, setQuantities] = useState<Record<string, string>>({});
+  const [loading, setLoading] = useState(true);
+  const [creating, setCreating] = useState(false);
+
+  const loadSuggestions = useCallback(async () => {
+    setLoading(true);
+    try {
+      const rows = await loadReorderSuggestions();
+      setSuggestions(rows);
+      setChosen(new Set(rows.filter(row => row.supplier).map(keyOf)));
+      setQuantities(Object.fromEntries(rows.map(row => [keyOf(row), String(row.quantity)])));
+    } catch (error) {
+      console.error('❌ Error building reorder suggestions:', error);
+      toast({ title: 'Error', description: (error as Error).message || 'Failed to work out what to reorder', variant: 'destructive' });
+    } finally {
+      setLoading(false);
+    }
+  }, [toast]);
+
+  useEffect(() => {
+    loadSuggestions();
+  }, [loadSuggestions]);
+
+  const toggle = (key: string, checked: boolean) => {
+    setChosen(prev => {
+      const next = new Set(prev);
+      if (checked) next.add(key);
+      else next.delete(key);
+      return next;
+    });
+  };
+
+  const handleCreate = async () => {
+    const picked = suggestions
+      .filter(row => chosen.has(keyOf(row)) && row.supplier)
+      .map(row => ({ ...row, quantity: parseInt(quantities[keyOf(row)]) || 0 }))
+      .filter(row => row.quantity > 0);
+    if (picked.length === 0) {
+      toast({ title: 'Nothing Selected', description: 'Tick the items to order', variant: 'destructive' });
+      return;
+    }
+
+    setCreating(true);
+    try {
+      const orders = await createDraftOrders(picked, currentUserId || null);
+      toast({ title: 'Draft Orders Created', description: `${orders.length} draft purchase order${orders.length === 1 ? '' : 's'} ready to check and send` });
+      onOrdersCreated();
+      await loadSuggestions();
+    } catch (error) {
+      console.error('❌ Error creating draft orders:', error);
+      toast({ title: 'Error', description: (error as Error).message || 'Failed to create orders', variant: 'destructive' });
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between">
+        <div>
+          <CardTitle className="text-sm flex items-center gap-2">
+            <ClipboardList className="h-4 w-4" />
+            Reorder Suggestions
+          </CardTitle>
+          <p className="text-xs text-gray-500 mt-1">
+            Usage over the last {USAGE_WINDOW_DAYS} days; quantities cover lead time plus {COVER_DAYS} days
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <Button size="sm" variant="outline" onClick={loadSuggestions} disabled={loading}>
+            <RefreshCw className={`h-4 w-4 ${loading ? 'animate-spin' : ''}`} />
+          </Button>
+          <Button size="sm" onClick={handleCreate} disabled={creating || loading || chosen.size === 0}>
+            {creating ? 'Creating...' : 'Create Draft Orders'}
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <p className="text-sm text-gray-500 text-center py-6">Working out what's running low...</p>
+        ) : suggestions.length === 0 ? (
+          <p className="text-sm text-gray-500 text-center py-6">Nothing needs reordering</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead className="w-8" />
+                <TableHead>Item</TableHead>
+                <TableHead className="text-right">In Stock</TableHead>
+                <TableHead className="text-right">On Order</TableHead>
+                <TableHead className="text-right">Used / Day</TableHead>
+                <TableHead>Order</TableHead>
+                <TableHead>Supplier</TableHead>
+                <TableHead className="text-right">Cost</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {suggestions.map(row => {
+                const key = keyOf(row);
+                const quantity = parseInt(quantities[key]) || 0;
+                return (
+                  <TableRow key={key}>
+                    <TableCell>
+                      <Checkbox
+                        checked={chosen.has(key)}
+                        disabled={!row.supplier}
+                        onCheckedChange={(checked) => toggle(key, checked === true)}
+                      />
+                    </TableCell>
+                    <TableCell>
+                      {row.item.item_type === 'prize' ? '🎁' : '⚙️'} {row.item.name}
+                    </TableCell>
+                    <TableCell className="text-right">{row.item.stock_quantity}</TableCell>
+                    <TableCell className="text-right">{row.onOrder || '—'}</TableCell>
+                    <TableCell className="text-right">{row.dailyUsage > 0 ? row.dailyUsage.toFixed(1) : '—'}</TableCell>
+                    <TableCell>
+                      <Input
+                        type="number"
+                        min="0"
+                        className="w-20 h-8"
+                        value={quantities[key] ?? ''}
+                        onChange={(e) => setQuantities(prev => ({ ...prev, [key]: e.target.value }))}
+                      />
+                    </TableCell>
+                    <TableCell>
+                      {row.supplier?.name || <span className="text-orange-600 text-xs">Not on any price list</span>}
+                    </TableCell>
+                    <TableCell className="text-right">${(quantity * row.unitCost).toFixed(2)}</TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default ReorderSuggestions;
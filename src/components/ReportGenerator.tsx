@@ -11,6 +11,9 @@ import { useToast } from '@/hooks/use-toast';
 import { Calculator, ArrowLeft, FileText, Building2 } from 'lucide-react';
 import MachineSelectInput from '@/components/MachineSelectInput';
 import { VenueReportTemplate, type MachineReportData } from '@/components/VenueReportTemplate';
+import ToyCounterEventFields from '@/components/ToyCounterEventFields';
+import { resolveToyCount, type CounterEvent } from '@/lib/toyCounter';
+import { reconcileMachineReport } from '@/lib/cashReconciliation';
 
 interface ReportGeneratorProps {
   restrictedMode?: 'maintenance_only' | 'manager';
@@ -29,7 +32,8 @@ const ReportGenerator: React.FC<ReportGeneratorProps> = ({ restrictedMode }) =>
   const [notes, setNotes] = useState('');
   const [loading, setLoading] = useState(false);
   const [lastMeterReading, setLastMeterReading] = useState(0);
-  const [calculatedToysDispensed, setCalculatedToysDispensed] = useState(0);
+  const [counterEvent, setCounterEvent] = useState<CounterEvent | null>(null);
+  const [finalReading, setFinalReading] = useState('');
   const [dateRange, setDateRange] = useState({ 
     start: new Date(Date.now() - 30 * 24 * 60 * 60 * 1000).toISOString().split('T')[0],
     end: new Date().toISOString().split('T')[0]
@@ -41,15 +45,18 @@ const ReportGenerator: React.FC<ReportGeneratorProps> = ({ restrictedMode }) =>
     }
   }, [selectedMachine]);
 
-  useEffect(() => {
-    if (toyMeterReading && lastMeterReading >= 0) {
-      const current = parseInt(toyMeterReading) || 0;
-      const previous = lastMeterReading || 0;
-      const difference = current - previous;
-      const dispensed = difference >= 0 ? difference : 0;
-      setCalculatedToysDispensed(dispensed);
-    }
-  }, [toyMeterReading, lastMeterReading]);
+  const counterResolution = toyMeterReading && lastMeterReading >= 0
+    ? resolveToyCount({
+        previous: lastMeterReading || 0,
+        current: parseInt(toyMeterReading) || 0,
+        event: counterEvent,
+        finalReading: finalReading ? parseInt(finalReading) : null
+      })
+    : null;
+  // Flagged readings are saved with no toys until someone reviews them
+  const calculatedToysDispensed = counterResolution && !counterResolution.error && !counterResolution.flagReason
+    ? counterResolution.toys
+    : 0;
 
   const fetchLastMeterReading = async () => {
     try {
@@ -88,6 +95,11 @@ const ReportGenerator: React.FC<ReportGeneratorProps> = ({ restrictedMode }) =>
       return;
     }
 
+    if (counterResolution?.error) {
+      toast({ title: 'Error', description: counterResolution.error, variant: 'destructive' });
+      return;
+    }
+
     setLoading(true);
     try {
       const currentToyCount = parseInt(toyMeterReading) || 0;
@@ -98,18 +110,31 @@ const ReportGenerator: React.FC<ReportGeneratorProps> = ({ restrictedMode }) =>
         money_collected: parseFloat(machineTurnover) || 0,
         current_toy_count: currentToyCount,
         previous_toy_count: previousToyCount,
+        toys_dispensed: calculatedToysDispensed,
         tokens_in_game: parseInt(tokensInGame) || 0,
         notes: notes.trim() || null,
-        report_date: new Date().toISOString().split('T')[0]
+        report_date: new Date().toISOString().split('T')[0],
+        counter_event: counterEvent,
+        counter_final_reading: counterEvent && counterEvent !== 'rollover' ? parseInt(finalReading) : null,
+        counter_review_status: counterResolution?.flagReason ? 'pending' : null,
+        counter_review_reason: counterResolution?.flagReason || null
       };
 
-      const { error } = await supabase.from('machine_reports').insert([reportData]);
+      const { data: inserted, error } = await supabase.from('machine_reports').insert([reportData]).select();
       if (error) {
         console.error('Database error:', error);
         throw new Error(`Database error: ${error.message}`);
       }
-
-      toast({ title: 'Success', description: 'Machine report generated successfully!' });
+      const cashCheck = inserted?.[0] ? await reconcileMachineReport(inserted[0]) : null;
+
+      toast({
+        title: 'Success',
+        description: reportData.counter_review_status
+          ? 'Machine report saved. The toy counter jump has been sent for review.'
+          : cashCheck?.outOfTolerance
+            ? `Machine report saved. Cash is $${Math.abs(cashCheck.variance).toFixed(2)} ${cashCheck.variance > 0 ? 'over' : 'under'} expected and needs reconciling.`
+            : 'Machine report generated successfully!'
+      });
       
       // Refresh data to update the reports list
       await refreshData();
@@ -121,7 +146,8 @@ const ReportGenerator: React.FC<ReportGeneratorProps> = ({ restrictedMode }) =>
       setMachineTurnover('');
       setNotes('');
       setLastMeterReading(0);
-      setCalculatedToysDispensed(0);
+      setCounterEvent(null);
+      setFinalReading('');
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : 'Unknown error';
       console.error('Report generation error:', error);
@@ -344,6 +370,16 @@ const ReportGenerator: React.FC<ReportGeneratorProps> = ({ restrictedMode }) =>
                     required 
                   />
                 </div>
+
+                {counterResolution && (
+                  <ToyCounterEventFields
+                    event={counterEvent}
+                    onEventChange={setCounterEvent}
+                    finalReading={finalReading}
+                    onFinalReadingChange={setFinalReading}
+                    resolution={counterResolution}
+                  />
+                )}
                 
                 <div>
                   <Label htmlFor="toys" className="text-red-700 font-semibold">Toys Dispensed (Auto-calculated)</Label>
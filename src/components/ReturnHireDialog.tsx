@@ -0,0 +1,268 @@
+// src/components/ReturnHireDialog.tsx
+// Takes hired equipment back: check-in inspection, return date, late fees, the deposit, and the invoice
+import React, { useEffect, useState } from 'react';
+import { format } from 'date-fns';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Checkbox } from '@/components/ui/checkbox';
+import { AlertTriangle, FileText, X } from 'lucide-react';
+import ImageUpload from '@/components/ImageUpload';
+import { useToast } from '@/hooks/use-toast';
+import { repositories, type HireContractRow, type HireInvoiceRow, type InspectionChecklistItem } from '@/lib/repositories';
+import { hireCharges } from '@/lib/equipmentHire';
+import { EQUIPMENT_CONDITIONS, damageSuspected, freshChecklist } from '@/lib/equipmentInspection';
+import { bookValue, isDepreciating } from '@/lib/depreciation';
+
+type DepositOutcome = 'refunded' | 'applied' | 'forfeited';
+
+interface ReturnHireDialogProps {
+  contract: HireContractRow | null;
+  onClose: () => void;
+  onReturned: (invoice: HireInvoiceRow) => void;
+}
+
+const ReturnHireDialog: React.FC<ReturnHireDialogProps> = ({ contract, onClose, onReturned }) => {
+  const { toast } = useToast();
+  const [returnedDate, setReturnedDate] = useState(format(new Date(), 'yyyy-MM-dd'));
+  const [deposit, setDeposit] = useState<DepositOutcome>('refunded');
+  const [notes, setNotes] = useState('');
+  const [checklist, setChecklist] = useState<InspectionChecklistItem[]>(freshChecklist);
+  const [condition, setCondition] = useState('good');
+  const [currentValue, setCurrentValue] = useState('');
+  const [damageFound, setDamageFound] = useState(false);
+  const [damageEdited, setDamageEdited] = useState(false);
+  const [damageNotes, setDamageNotes] = useState('');
+  const [photos, setPhotos] = useState<string[]>([]);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    setReturnedDate(format(new Date(), 'yyyy-MM-dd'));
+    setDeposit('refunded');
+    setNotes('');
+    setChecklist(freshChecklist());
+    setCondition(contract?.equipment_hire?.condition || 'good');
+    setCurrentValue('');
+    setDamageFound(false);
+    setDamageEdited(false);
+    setDamageNotes('');
+    setPhotos([]);
+  }, [contract]);
+
+  // Follow the checklist until the inspector decides for themselves
+  useEffect(() => {
+    if (!damageEdited) setDamageFound(damageSuspected(checklist, condition));
+  }, [checklist, condition, damageEdited]);
+
+  const toggleCheck = (index: number, passed: boolean) =>
+    setChecklist(prev => prev.map((check, i) => (i === index ? { ...check, passed } : check)));
+
+  const validDate = !!contract && !!returnedDate && returnedDate >= contract.start_date;
+  const charges = contract && validDate ? hireCharges(contract, returnedDate) : null;
+  const depositAmount = Number(contract?.deposit_amount || 0);
+  const depositApplied = charges && deposit === 'applied' ? Math.min(depositAmount, charges.subtotal) : 0;
+  const equipment = contract?.equipment_hire;
+  const book = equipment ? bookValue(equipment, validDate ? returnedDate : new Date()) : null;
+
+  const handleReturn = async () => {
+    if (!contract || !charges) {
+      toast({ title: 'Validation Error', description: 'The return date can\'t be before the hire started', variant: 'destructive' });
+      return;
+    }
+    if (charges.lines.length === 0) {
+      toast({ title: 'Validation Error', description: 'Nothing to invoice for this period', variant: 'destructive' });
+      return;
+    }
+    const value = currentValue.trim() ? parseFloat(currentValue) : null;
+    if (value !== null && (isNaN(value) || value < 0)) {
+      toast({ title: 'Validation Error', description: 'Current value must be a positive amount', variant: 'destructive' });
+      return;
+    }
+    if (damageFound && !damageNotes.trim()) {
+      toast({ title: 'Validation Error', description: 'Describe the damage for the repair job', variant: 'destructive' });
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const invoice = await repositories.hireContracts.returnEquipment(contract.id, {
+        returnedDate,
+        lineItems: charges.lines,
+        inspection: {
+          checklist,
+          condition,
+          current_value: value,
+          book_value: book,
+          damage_found: damageFound,
+          damage_notes: damageNotes.trim() || null,
+          photo_urls: photos
+        },
+        depositStatus: depositAmount > 0 ? deposit : 'refunded',
+        notes: notes.trim() || undefined
+      });
+      toast({
+        title: 'Equipment Returned',
+        description: `Invoice ${invoice.invoice_number} raised for $${Number(invoice.total_due).toFixed(2)}${damageFound ? '; repair job opened' : ''}`
+      });
+      onReturned(invoice);
+    } catch (error) {
+      console.error('❌ Error returning hired equipment:', error);
+      toast({ title: 'Error', description: (error as Error).message || 'Failed to return equipment', variant: 'destructive' });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={!!contract} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Return · {contract?.equipment_hire?.name || 'Equipment'}</DialogTitle>
+        </DialogHeader>
+        {contract && (
+          <div className="space-y-4">
+            <p className="text-sm text-gray-600">
+              {contract.contract_number} · {contract.customer_name} · due back {format(new Date(`${contract.expected_return_date}T00:00:00`), 'd MMM yyyy')}
+            </p>
+            <div>
+              <Label>Returned On</Label>
+              <Input type="date" value={returnedDate} onChange={(e) => setReturnedDate(e.target.value)} />
+            </div>
+
+            <div className="space-y-3 rounded border p-3">
+              <p className="font-medium text-sm">Check-in Inspection</p>
+              <div className="space-y-2">
+                {checklist.map((check, index) => (
+                  <label key={check.item} className="flex items-center gap-2 text-sm">
+                    <Checkbox checked={check.passed} onCheckedChange={(checked) => toggleCheck(index, checked === true)} />
+                    <span className={check.passed ? '' : 'text-red-700'}>{check.item}</span>
+                  </label>
+                ))}
+              </div>
+              <div className="grid grid-cols-2 gap-3">
+                <div>
+                  <Label>Condition</Label>
+                  <Select value={condition} onValueChange={setCondition}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {EQUIPMENT_CONDITIONS.map(option => (
+                        <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div>
+                  <Label>Current Value ($)</Label>
+                  <Input
+                    type="number"
+                    min="0"
+                    step="0.01"
+                    value={currentValue}
+                    onChange={(e) => setCurrentValue(e.target.value)}
+                    placeholder={book !== null ? book.toFixed(2) : '0.00'}
+                  />
+                  {book !== null && (
+                    <p className="text-xs text-gray-500 mt-1">
+                      {isDepreciating(equipment) ? 'Book value' : 'Currently'} ${book.toFixed(2)}; enter a value only if it's changed
+                    </p>
+                  )}
+                </div>
+              </div>
+              <label className="flex items-center gap-2 text-sm font-medium">
+                <Checkbox
+                  checked={damageFound}
+                  onCheckedChange={(checked) => { setDamageFound(checked === true); setDamageEdited(true); }}
+                />
+                <AlertTriangle className={`h-4 w-4 ${damageFound ? 'text-red-600' : 'text-gray-400'}`} />
+                Damage found: open a repair job and hold it in maintenance
+              </label>
+              {damageFound && (
+                <div>
+                  <Label>Damage Notes *</Label>
+                  <Textarea rows={2} value={damageNotes} onChange={(e) => setDamageNotes(e.target.value)} placeholder="What's damaged and how" />
+                </div>
+              )}
+              <div>
+                <Label>Photos</Label>
+                {photos.length > 0 && (
+                  <div className="flex gap-2 flex-wrap mb-2">
+                    {photos.map(url => (
+                      <div key={url} className="relative">
+                        <img src={url} alt="Inspection" className="w-16 h-16 object-cover rounded border" />
+                        <button
+                          type="button"
+                          className="absolute -top-1 -right-1 bg-white rounded-full border p-0.5"
+                          onClick={() => setPhotos(prev => prev.filter(photo => photo !== url))}
+                        >
+                          <X className="h-3 w-3" />
+                        </button>
+                      </div>
+                    ))}
+                  </div>
+                )}
+                <ImageUpload folder="equipment-inspections" onImageUploaded={(url) => setPhotos(prev => [...prev, url])} />
+              </div>
+            </div>
+
+            {charges && (
+              <div className="rounded border divide-y text-sm">
+                {charges.lines.map(line => (
+                  <div key={line.description} className={`flex justify-between gap-2 px-3 py-1.5 ${line.kind === 'late_fee' ? 'text-red-700' : ''}`}>
+                    <span>{line.description}</span>
+                    <span className="shrink-0">${line.amount.toFixed(2)}</span>
+                  </div>
+                ))}
+                {depositApplied > 0 && (
+                  <div className="flex justify-between px-3 py-1.5 text-gray-600">
+                    <span>Less deposit</span>
+                    <span>-${depositApplied.toFixed(2)}</span>
+                  </div>
+                )}
+                <div className="flex justify-between px-3 py-1.5 font-semibold">
+                  <span>Total due</span>
+                  <span>${(charges.subtotal - depositApplied).toFixed(2)}</span>
+                </div>
+              </div>
+            )}
+
+            {depositAmount > 0 && (
+              <div>
+                <Label>Deposit of ${depositAmount.toFixed(2)}</Label>
+                <Select value={deposit} onValueChange={(value) => setDeposit(value as DepositOutcome)}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="refunded">Refund to customer</SelectItem>
+                    <SelectItem value="applied">Apply to this invoice</SelectItem>
+                    <SelectItem value="forfeited">Retain (damage or loss)</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+
+            <div>
+              <Label>Notes</Label>
+              <Textarea rows={2} value={notes} onChange={(e) => setNotes(e.target.value)} />
+            </div>
+
+            <div className="flex gap-2">
+              <Button onClick={handleReturn} disabled={saving || !charges}>
+                <FileText className="h-4 w-4 mr-1" />
+                {saving ? 'Saving...' : 'Return & Invoice'}
+              </Button>
+              <Button variant="outline" onClick={onClose}>Cancel</Button>
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ReturnHireDialog;
@@ -0,0 +1,489 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { KeyRound, Loader2, Lock, Plus, Save, Shield, Trash2, UserCog } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { repositories, type PermissionRow, type RoleRow, type UserPermissionOverrideRow } from '@/lib/repositories';
+import { ALL_PERMISSIONS, notifyAccessControlChanged } from '@/lib/permissions';
+
+interface ManagedUser {
+  id: string;
+  email: string;
+  username?: string;
+  full_name?: string;
+  role?: string;
+}
+
+interface RolePermissionsManagerProps {
+  users: ManagedUser[];
+  onRolesChanged?: (roles: RoleRow[]) => void;
+}
+
+interface RoleDraft {
+  name: string;
+  description: string;
+  manages: string[];
+  permissions: string[];
+  venue_scoped: boolean;
+}
+
+const toRoleKey = (name: string) =>
+  name.trim().toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_+|_+$/g, '');
+
+const RolePermissionsManager: React.FC<RolePermissionsManagerProps> = ({ users, onRolesChanged }) => {
+  const [roles, setRoles] = useState<RoleRow[]>([]);
+  const [permissions, setPermissions] = useState<PermissionRow[]>([]);
+  const [rolePermissions, setRolePermissions] = useState<Record<string, string[]>>({});
+  const [selectedRoleKey, setSelectedRoleKey] = useState<string>('');
+  const [draft, setDraft] = useState<RoleDraft | null>(null);
+  const [newRoleName, setNewRoleName] = useState('');
+  const [newRoleDescription, setNewRoleDescription] = useState('');
+  const [overrideUserId, setOverrideUserId] = useState<string>('');
+  const [overrides, setOverrides] = useState<UserPermissionOverrideRow[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const { toast } = useToast();
+
+  const selectedRole = roles.find(role => role.key === selectedRoleKey) || null;
+
+  const permissionsByCategory = useMemo(() => {
+    return permissions.reduce<Record<string, PermissionRow[]>>((groups, permission) => {
+      (groups[permission.category] = groups[permission.category] || []).push(permission);
+      return groups;
+    }, {});
+  }, [permissions]);
+
+  const fetchData = async () => {
+    try {
+      const [roleRows, permissionRows, rolePermissionRows] = await Promise.all([
+        repositories.roles.listAll(),
+        repositories.permissions.list({ orderBy: [{ column: 'category', ascending: true }, { column: 'key', ascending: true }] }),
+        repositories.rolePermissions.list()
+      ]);
+
+      const grouped: Record<string, string[]> = {};
+      rolePermissionRows.forEach(row => {
+        (grouped[row.role_key] = grouped[row.role_key] || []).push(row.permission_key);
+      });
+
+      setRoles(roleRows);
+      setPermissions(permissionRows);
+      setRolePermissions(grouped);
+      setSelectedRoleKey(prev => prev || roleRows[0]?.key || '');
+      onRolesChanged?.(roleRows);
+    } catch (error) {
+      console.error('❌ Error loading roles and permissions:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to load roles and permissions',
+        variant: 'destructive'
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchData();
+  }, []);
+
+  useEffect(() => {
+    if (!selectedRole) {
+      setDraft(null);
+      return;
+    }
+    setDraft({
+      name: selectedRole.name,
+      description: selectedRole.description || '',
+      manages: selectedRole.manages || [],
+      permissions: rolePermissions[selectedRole.key] || [],
+      venue_scoped: selectedRole.venue_scoped || false
+    });
+  }, [selectedRole, rolePermissions]);
+
+  useEffect(() => {
+    if (!overrideUserId) {
+      setOverrides([]);
+      return;
+    }
+    repositories.userPermissionOverrides.listForUser(overrideUserId)
+      .then(setOverrides)
+      .catch(error => console.error('❌ Error loading permission overrides:', error));
+  }, [overrideUserId]);
+
+  const toggleDraftList = (field: 'manages' | 'permissions', value: string, checked: boolean) => {
+    setDraft(prev => prev && {
+      ...prev,
+      [field]: checked ? [...prev[field], value] : prev[field].filter(item => item !== value)
+    });
+  };
+
+  const handleSaveRole = async () => {
+    if (!selectedRole || !draft) return;
+    if (!draft.name.trim()) {
+      toast({ title: 'Validation Error', description: 'Role name is required', variant: 'destructive' });
+      return;
+    }
+
+    setSaving(true);
+    try {
+      await repositories.roles.update(selectedRole.id, {
+        name: draft.name.trim(),
+        description: draft.description.trim() || null,
+        manages: draft.manages,
+        venue_scoped: draft.venue_scoped
+      });
+      await repositories.rolePermissions.replaceForRole(selectedRole.key, draft.permissions);
+
+      toast({ title: 'Role Saved', description: `${draft.name} permissions updated` });
+      notifyAccessControlChanged();
+      await fetchData();
+    } catch (error) {
+      console.error('❌ Error saving role:', error);
+      toast({ title: 'Error', description: (error as Error).message || 'Failed to save role', variant: 'destructive' });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleCreateRole = async () => {
+    const key = toRoleKey(newRoleName);
+    if (!key) {
+      toast({ title: 'Validation Error', description: 'Enter a role name', variant: 'destructive' });
+      return;
+    }
+    if (roles.some(role => role.key === key)) {
+      toast({ title: 'Validation Error', description: `A role with key "${key}" already exists`, variant: 'destructive' });
+      return;
+    }
+
+    setSaving(true);
+    try {
+      await repositories.roles.create({
+        key,
+        name: newRoleName.trim(),
+        description: newRoleDescription.trim() || null,
+        manages: [],
+        is_system: false,
+        venue_scoped: false
+      });
+
+      // Roles that can manage every built-in role can also manage the new one
+      const superRoles = roles.filter(role => role.manages.includes('super_admin'));
+      await Promise.all(superRoles.map(role => repositories.roles.update(role.id, { manages: [...role.manages, key] })));
+
+      toast({ title: 'Role Created', description: `${newRoleName.trim()} created. Choose its permissions below.` });
+      setNewRoleName('');
+      setNewRoleDescription('');
+      setSelectedRoleKey(key);
+      notifyAccessControlChanged();
+      await fetchData();
+    } catch (error) {
+      console.error('❌ Error creating role:', error);
+      toast({ title: 'Error', description: (error as Error).message || 'Failed to create role', variant: 'destructive' });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDeleteRole = async () => {
+    if (!selectedRole || selectedRole.is_system) return;
+
+    const assigned = users.filter(user => user.role === selectedRole.key).length;
+    if (assigned > 0) {
+      toast({
+        title: 'Role In Use',
+        description: `${assigned} user(s) still have the ${selectedRole.name} role. Reassign them first.`,
+        variant: 'destructive'
+      });
+      return;
+    }
+
+    setSaving(true);
+    try {
+      await repositories.roles.remove(selectedRole.id);
+      await Promise.all(roles
+        .filter(role => role.manages.includes(selectedRole.key))
+        .map(role => repositories.roles.update(role.id, { manages: role.manages.filter(key => key !== selectedRole.key) })));
+
+      toast({ title: 'Role Deleted', description: `${selectedRole.name} has been removed` });
+      setSelectedRoleKey('');
+      notifyAccessControlChanged();
+      await fetchData();
+    } catch (error) {
+      console.error('❌ Error deleting role:', error);
+      toast({ title: 'Error', description: (error as Error).message || 'Failed to delete role', variant: 'destructive' });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleOverrideChange = async (permissionKey: string, value: string) => {
+    const granted = value === 'inherit' ? null : value === 'grant';
+    try {
+      await repositories.userPermissionOverrides.setOverride(overrideUserId, permissionKey, granted);
+      setOverrides(await repositories.userPermissionOverrides.listForUser(overrideUserId));
+      notifyAccessControlChanged();
+    } catch (error) {
+      console.error('❌ Error saving permission override:', error);
+      toast({ title: 'Error', description: 'Failed to save permission override', variant: 'destructive' });
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex justify-center p-8">
+        <Loader2 className="h-8 w-8 animate-spin text-blue-600" />
+      </div>
+    );
+  }
+
+  const overrideUser = users.find(user => user.id === overrideUserId);
+  const hasAllPermissions = draft?.permissions.includes(ALL_PERMISSIONS);
+
+  return (
+    <div className="space-y-6">
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        {/* Role list and new role form */}
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg flex items-center gap-2">
+              <Shield className="h-5 w-5" />
+              Roles
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="space-y-2">
+              {roles.map(role => (
+                <button
+                  key={role.key}
+                  type="button"
+                  onClick={() => setSelectedRoleKey(role.key)}
+                  className={`w-full text-left p-3 rounded-lg border transition-colors ${
+                    role.key === selectedRoleKey ? 'border-blue-500 bg-blue-50' : 'border-gray-200 hover:bg-gray-50'
+                  }`}
+                >
+                  <div className="flex items-center justify-between">
+                    <span className="font-medium">{role.name}</span>
+                    {role.is_system && <Lock className="h-3 w-3 text-gray-400" />}
+                  </div>
+                  <div className="text-xs text-gray-500">
+                    {users.filter(user => user.role === role.key).length} user(s) · {(rolePermissions[role.key] || []).length} permission(s)
+                  </div>
+                </button>
+              ))}
+            </div>
+
+            <div className="border-t pt-4 space-y-2">
+              <Label htmlFor="new-role-name">New Role</Label>
+              <Input
+                id="new-role-name"
+                value={newRoleName}
+                onChange={(e) => setNewRoleName(e.target.value)}
+                placeholder="e.g. Venue Partner"
+                disabled={saving}
+              />
+              <Input
+                value={newRoleDescription}
+                onChange={(e) => setNewRoleDescription(e.target.value)}
+                placeholder="Description (optional)"
+                disabled={saving}
+              />
+              {newRoleName && (
+                <p className="text-xs text-gray-500">Key: <code>{toRoleKey(newRoleName) || '—'}</code></p>
+              )}
+              <Button onClick={handleCreateRole} disabled={saving || !newRoleName.trim()} className="w-full flex items-center gap-2">
+                <Plus className="h-4 w-4" />
+                Add Role
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+
+        {/* Selected role editor */}
+        <Card className="lg:col-span-2">
+          <CardHeader>
+            <CardTitle className="text-lg flex items-center gap-2">
+              <KeyRound className="h-5 w-5" />
+              {selectedRole ? `${selectedRole.name} Permissions` : 'Select a role'}
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            {selectedRole && draft ? (
+              <div className="space-y-6">
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  <div>
+                    <Label htmlFor="role-name">Name</Label>
+                    <Input
+                      id="role-name"
+                      value={draft.name}
+                      onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                      disabled={saving}
+                    />
+                  </div>
+                  <div>
+                    <Label htmlFor="role-description">Description</Label>
+                    <Input
+                      id="role-description"
+                      value={draft.description}
+                      onChange={(e) => setDraft({ ...draft, description: e.target.value })}
+                      disabled={saving}
+                    />
+                  </div>
+                </div>
+
+                <div>
+                  <Label className="mb-2 block">Can create and manage users with role</Label>
+                  <div className="flex flex-wrap gap-4">
+                    {roles.map(role => (
+                      <label key={role.key} className="flex items-center gap-2 text-sm">
+                        <Checkbox
+                          checked={draft.manages.includes(role.key)}
+                          onCheckedChange={(checked) => toggleDraftList('manages', role.key, checked === true)}
+                          disabled={saving}
+                        />
+                        {role.name}
+                      </label>
+                    ))}
+                  </div>
+                </div>
+
+                <label className="flex items-start gap-2 text-sm">
+                  <Checkbox
+                    checked={draft.venue_scoped}
+                    onCheckedChange={(checked) => setDraft({ ...draft, venue_scoped: checked === true })}
+                    disabled={saving}
+                    className="mt-0.5"
+                  />
+                  <span>
+                    Venue partner role
+                    <span className="block text-xs text-gray-500">
+                      Users only see statements for venues linked to them in the partner portal and cannot change any data
+                    </span>
+                  </span>
+                </label>
+
+                {hasAllPermissions && (
+                  <div className="p-3 bg-purple-50 border border-purple-200 rounded-lg text-sm text-purple-800">
+                    This role has all permissions, including any added later.
+                  </div>
+                )}
+
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                  {Object.entries(permissionsByCategory).map(([category, categoryPermissions]) => (
+                    <div key={category}>
+                      <h4 className="font-medium text-sm text-gray-700 mb-2">{category}</h4>
+                      <div className="space-y-2">
+                        {categoryPermissions.map(permission => (
+                          <label key={permission.key} className="flex items-start gap-2 text-sm">
+                            <Checkbox
+                              checked={draft.permissions.includes(permission.key)}
+                              onCheckedChange={(checked) => toggleDraftList('permissions', permission.key, checked === true)}
+                              disabled={saving || (hasAllPermissions && permission.key !== ALL_PERMISSIONS)}
+                              className="mt-0.5"
+                            />
+                            <span>
+                              <code className="text-xs">{permission.key}</code>
+                              {permission.description && (
+                                <span className="block text-xs text-gray-500">{permission.description}</span>
+                              )}
+                            </span>
+                          </label>
+                        ))}
+                      </div>
+                    </div>
+                  ))}
+                </div>
+
+                <div className="flex justify-between border-t pt-4">
+                  <Button
+                    variant="outline"
+                    onClick={handleDeleteRole}
+                    disabled={saving || selectedRole.is_system}
+                    className="text-red-600 border-red-600 hover:bg-red-50 flex items-center gap-2"
+                    title={selectedRole.is_system ? 'Built-in roles cannot be deleted' : 'Delete role'}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                    Delete Role
+                  </Button>
+                  <Button onClick={handleSaveRole} disabled={saving} className="flex items-center gap-2">
+                    {saving ? <Loader2 className="h-4 w-4 animate-spin" /> : <Save className="h-4 w-4" />}
+                    Save Changes
+                  </Button>
+                </div>
+              </div>
+            ) : (
+              <p className="text-center text-gray-500 py-8">Choose a role to edit its permissions</p>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      {/* Per-user overrides */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg flex items-center gap-2">
+            <UserCog className="h-5 w-5" />
+            User Overrides
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <p className="text-sm text-gray-600">
+            Grant or revoke individual permissions for one user on top of their role.
+          </p>
+          <Select value={overrideUserId} onValueChange={setOverrideUserId}>
+            <SelectTrigger className="max-w-md">
+              <SelectValue placeholder="Select a user" />
+            </SelectTrigger>
+            <SelectContent>
+              {users.map(user => (
+                <SelectItem key={user.id} value={user.id}>
+                  {user.full_name || user.username || user.email}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+
+          {overrideUser && (
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+              {permissions.filter(permission => permission.key !== ALL_PERMISSIONS).map(permission => {
+                const override = overrides.find(item => item.permission_key === permission.key);
+                const fromRole = (rolePermissions[overrideUser.role || ''] || [])
+                  .some(key => key === permission.key || key === ALL_PERMISSIONS);
+                const value = override ? (override.granted ? 'grant' : 'revoke') : 'inherit';
+
+                return (
+                  <div key={permission.key} className="flex items-center justify-between gap-2 p-2 border rounded">
+                    <div className="text-sm">
+                      <code className="text-xs">{permission.key}</code>
+                      <Badge variant="outline" className="ml-2 text-xs">
+                        role: {fromRole ? 'yes' : 'no'}
+                      </Badge>
+                    </div>
+                    <Select value={value} onValueChange={(next) => handleOverrideChange(permission.key, next)}>
+                      <SelectTrigger className="h-8 w-28">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="inherit">Inherit</SelectItem>
+                        <SelectItem value="grant">Grant</SelectItem>
+                        <SelectItem value="revoke">Revoke</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default RolePermissionsManager;
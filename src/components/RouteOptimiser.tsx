@@ -0,0 +1,300 @@
+// src/components/RouteOptimiser.tsx
+// Proposes the best visiting order for a run (or one scheduled day of it) and lets the run's owner save it
+import React, { useEffect, useMemo, useState } from 'react';
+import { format, addDays } from 'date-fns';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { AlertTriangle, Check, Route, WifiOff } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { repositories, type RunRow, type RunScheduleRow, type RunVenueRow } from '@/lib/repositories';
+import {
+  formatDuration,
+  formatTimeOfDay,
+  optimiseRoute,
+  parseTimeOfDay,
+  type RoutePlan,
+  type RouteStop
+} from '@/lib/routeOptimiser';
+import { buildDistanceMatrix } from '@/lib/routeDistances';
+
+interface RouteOptimiserProps {
+  runs: RunRow[];
+  currentUserId?: string;
+  canEdit: boolean;
+  onAccepted: () => void;
+}
+
+interface OptimisedRoute {
+  runId: string;
+  current: RoutePlan;
+  proposed: RoutePlan;
+  venueIds: string[];
+  // Venues without coordinates keep their place at the end of the run
+  unplaced: RunVenueRow[];
+  source: 'straight-line' | 'road' | 'mixed';
+  changed: boolean;
+}
+
+const DEFAULT_START_MINUTES = 8 * 60;
+const DEFAULT_SERVICE_MINUTES = 30;
+const SCHEDULE_LOOKAHEAD_DAYS = 14;
+
+const SOURCE_LABELS = {
+  'straight-line': 'Straight-line estimate',
+  road: 'Road distances',
+  mixed: 'Road distances (some estimated)'
+};
+
+const RouteOptimiser: React.FC<RouteOptimiserProps> = ({ runs, currentUserId, canEdit, onAccepted }) => {
+  const { toast } = useToast();
+  const [schedules, setSchedules] = useState<RunScheduleRow[]>([]);
+  const [selection, setSelection] = useState('');
+  const [useRoads, setUseRoads] = useState(true);
+  const [optimising, setOptimising] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [result, setResult] = useState<OptimisedRoute | null>(null);
+
+  useEffect(() => {
+    const today = format(new Date(), 'yyyy-MM-dd');
+    const until = format(addDays(new Date(), SCHEDULE_LOOKAHEAD_DAYS), 'yyyy-MM-dd');
+    repositories.runSchedules.listBetween(today, until)
+      .then(rows => setSchedules(rows.filter(schedule => !schedule.completed)))
+      .catch(error => console.error('❌ Error loading run schedules:', error));
+  }, []);
+
+  const activeRuns = runs.filter(run => run.is_active);
+
+  const selected = useMemo(() => {
+    const [kind, id] = selection.split(':');
+    if (kind === 'run') return { run: runs.find(run => run.id === id), schedule: null };
+    const schedule = schedules.find(item => item.id === id) || null;
+    return { run: runs.find(run => run.id === schedule?.run_id), schedule };
+  }, [selection, runs, schedules]);
+
+  const run = selected.run;
+  const canAccept = !!run && (canEdit || (!!currentUserId && run.assigned_to === currentUserId));
+  const hasDepot = run?.depot_latitude != null && run?.depot_longitude != null;
+
+  const handleOptimise = async () => {
+    if (!run) return;
+    setOptimising(true);
+    setResult(null);
+    try {
+      const runVenues = await repositories.runVenues.listForRun(run.id);
+      const placed = runVenues.filter(rv => rv.venues?.latitude != null && rv.venues?.longitude != null);
+      const unplaced = runVenues.filter(rv => !placed.includes(rv));
+
+      const stops: RouteStop[] = placed.map(rv => ({
+        id: rv.venue_id,
+        name: rv.venues?.name || 'Venue',
+        latitude: Number(rv.venues?.latitude),
+        longitude: Number(rv.venues?.longitude),
+        serviceMinutes: rv.estimated_time_minutes || DEFAULT_SERVICE_MINUTES,
+        windowStart: parseTimeOfDay(rv.venues?.service_window_start),
+        windowEnd: parseTimeOfDay(rv.venues?.service_window_end)
+      }));
+      const depot = hasDepot ? { latitude: Number(run.depot_latitude), longitude: Number(run.depot_longitude) } : null;
+
+      const matrix = await buildDistanceMatrix(depot, stops, { fetchRoads: useRoads });
+      const { current, proposed, order } = optimiseRoute(stops, matrix, {
+        startMinutes: parseTimeOfDay(run.start_time) ?? DEFAULT_START_MINUTES,
+        returnToDepot: !!depot
+      });
+
+      setResult({
+        runId: run.id,
+        current,
+        proposed,
+        venueIds: order.map(index => stops[index].id),
+        unplaced,
+        source: matrix.source,
+        changed: order.some((stopIndex, position) => stopIndex !== position)
+      });
+    } catch (error) {
+      console.error('❌ Error optimising route:', error);
+      toast({ title: 'Error', description: (error as Error).message || 'Failed to optimise route', variant: 'destructive' });
+    } finally {
+      setOptimising(false);
+    }
+  };
+
+  const handleAccept = async () => {
+    if (!result) return;
+    setSaving(true);
+    try {
+      await repositories.runVenues.reorder(result.runId, [
+        ...result.venueIds,
+        ...result.unplaced.map(rv => rv.venue_id)
+      ]);
+      toast({ title: 'Route Saved', description: `${run?.name || 'Run'} will now visit venues in the proposed order` });
+      setResult({ ...result, current: result.proposed, changed: false });
+      onAccepted();
+    } catch (error) {
+      console.error('❌ Error saving route order:', error);
+      toast({ title: 'Error', description: (error as Error).message || 'Failed to save the new order', variant: 'destructive' });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const renderSummary = (label: string, plan: RoutePlan, highlight: boolean) => (
+    <div className={`p-3 rounded border ${highlight ? 'bg-blue-50 border-blue-200' : 'bg-gray-50'}`}>
+      <div className="text-xs font-semibold text-gray-600 mb-1">{label}</div>
+      <div className="text-lg font-bold">{plan.totalKm.toFixed(1)} km</div>
+      <div className="text-sm text-gray-700">
+        {formatDuration(plan.finishMinutes - plan.startMinutes)} total · {formatDuration(plan.driveMinutes)} driving
+      </div>
+      <div className="text-xs text-gray-500">
+        {formatTimeOfDay(plan.startMinutes)} – {formatTimeOfDay(plan.finishMinutes)}
+        {plan.waitMinutes > 0 && ` · ${formatDuration(plan.waitMinutes)} waiting`}
+      </div>
+      {plan.lateStops > 0 && (
+        <div className="text-xs text-red-600 mt-1">
+          {plan.lateStops} venue{plan.lateStops === 1 ? '' : 's'} reached after closing
+        </div>
+      )}
+    </div>
+  );
+
+  return (
+    <div className="space-y-4">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Route className="h-5 w-5 text-blue-600" />
+            Route Optimiser
+          </CardTitle>
+          <p className="text-sm text-gray-600">
+            Finds the quickest order to visit a run's venues from its depot, keeping to each venue's service window.
+          </p>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex flex-col md:flex-row gap-3">
+            <Select value={selection} onValueChange={(value) => { setSelection(value); setResult(null); }}>
+              <SelectTrigger className="md:w-96">
+                <SelectValue placeholder="Select a run or scheduled day" />
+              </SelectTrigger>
+              <SelectContent>
+                {activeRuns.map(item => (
+                  <SelectItem key={`run:${item.id}`} value={`run:${item.id}`}>{item.name}</SelectItem>
+                ))}
+                {schedules.map(schedule => {
+                  const scheduledRun = runs.find(item => item.id === schedule.run_id);
+                  if (!scheduledRun) return null;
+                  return (
+                    <SelectItem key={`schedule:${schedule.id}`} value={`schedule:${schedule.id}`}>
+                      {scheduledRun.name} — {format(new Date(`${schedule.scheduled_date}T00:00:00`), 'EEE d MMM')}
+                    </SelectItem>
+                  );
+                })}
+              </SelectContent>
+            </Select>
+            <label className="flex items-center gap-2 text-sm">
+              <input
+                type="checkbox"
+                checked={useRoads}
+                onChange={(e) => setUseRoads(e.target.checked)}
+                className="rounded"
+              />
+              Use road distances when online
+            </label>
+            <Button onClick={handleOptimise} disabled={!run || optimising}>
+              {optimising ? 'Optimising...' : 'Optimise'}
+            </Button>
+          </div>
+
+          {run && !hasDepot && (
+            <div className="text-sm text-amber-800 bg-amber-50 border border-amber-200 rounded p-3 flex items-start gap-2">
+              <AlertTriangle className="h-4 w-4 mt-0.5 shrink-0" />
+              This run has no depot, so the route may start at any venue. Set one when editing the run.
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {result && (
+        <Card>
+          <CardHeader>
+            <div className="flex items-center justify-between gap-2">
+              <CardTitle className="text-base">
+                {run?.name}
+                {selected.schedule && ` — ${format(new Date(`${selected.schedule.scheduled_date}T00:00:00`), 'EEEE d MMMM')}`}
+              </CardTitle>
+              <Badge variant="outline" className="flex items-center gap-1">
+                {result.source === 'straight-line' && <WifiOff className="h-3 w-3" />}
+                {SOURCE_LABELS[result.source]}
+              </Badge>
+            </div>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+              {renderSummary('Current order', result.current, false)}
+              {renderSummary(result.changed ? 'Proposed order' : 'Current order is already the best found', result.proposed, result.changed)}
+            </div>
+
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>#</TableHead>
+                  <TableHead>Venue</TableHead>
+                  <TableHead className="text-right">Drive</TableHead>
+                  <TableHead>Arrive</TableHead>
+                  <TableHead>Window</TableHead>
+                  <TableHead>Leave</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {result.proposed.visits.map((visit, index) => (
+                  <TableRow key={visit.stop.id}>
+                    <TableCell>{index + 1}</TableCell>
+                    <TableCell className="font-medium">{visit.stop.name}</TableCell>
+                    <TableCell className="text-right text-sm">
+                      {visit.legKm.toFixed(1)} km · {Math.round(visit.legMinutes)} min
+                    </TableCell>
+                    <TableCell>
+                      {formatTimeOfDay(visit.arrival)}
+                      {visit.waitMinutes > 0 && (
+                        <span className="block text-xs text-amber-700">waits {Math.round(visit.waitMinutes)} min</span>
+                      )}
+                      {visit.lateMinutes > 0 && (
+                        <span className="block text-xs text-red-600">{Math.round(visit.lateMinutes)} min late</span>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-sm text-gray-600">
+                      {visit.stop.windowStart === null && visit.stop.windowEnd === null
+                        ? 'Any time'
+                        : `${visit.stop.windowStart !== null ? formatTimeOfDay(visit.stop.windowStart) : '…'} – ${visit.stop.windowEnd !== null ? formatTimeOfDay(visit.stop.windowEnd) : '…'}`}
+                    </TableCell>
+                    <TableCell>{formatTimeOfDay(visit.departure)}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+
+            {result.unplaced.length > 0 && (
+              <p className="text-sm text-amber-800">
+                Not on the map (no coordinates), kept at the end: {result.unplaced.map(rv => rv.venues?.name || 'Venue').join(', ')}
+              </p>
+            )}
+
+            {result.changed && (
+              canAccept ? (
+                <Button onClick={handleAccept} disabled={saving} className="bg-green-600 hover:bg-green-700">
+                  <Check className="h-4 w-4 mr-2" />
+                  {saving ? 'Saving...' : 'Accept Proposed Order'}
+                </Button>
+              ) : (
+                <p className="text-sm text-gray-500">Only the run's owner or a venue manager can change its order.</p>
+              )
+            )}
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+};
+
+export default RouteOptimiser;
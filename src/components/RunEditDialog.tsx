@@ -13,6 +13,9 @@ import { supabase } from '@/lib/supabase';
 import { useToast } from '@/hooks/use-toast';
 import { useAppContext } from '@/contexts/AppContext';
 import ImageUpload from './ImageUpload';
+import AddressAutocomplete from './AddressAutocomplete';
+import RunRecurrenceFields from './RunRecurrenceFields';
+import { draftFromRun, draftToRecurrence, syncRunSchedules, type RecurrenceDraft } from '@/lib/runRecurrence';
 
 interface Run {
   id: string;
@@ -23,6 +26,10 @@ interface Run {
   frequency_details?: any;
   assigned_to?: string;
   is_active: boolean;
+  depot_name?: string | null;
+  depot_latitude?: number | null;
+  depot_longitude?: number | null;
+  start_time?: string | null;
 }
 
 interface RunVenue {
@@ -40,80 +47,6 @@ interface RunEditDialogProps {
   onSave: () => void;
 }
 
-// Helper function to generate schedules based on frequency
-const generateSchedules = async (runId: string, frequency: string, startDate: Date = new Date()) => {
-  try {
-    console.log('🗓️ Generating schedules for run:', runId, 'Frequency:', frequency);
-
-    // First, delete existing schedules for this run
-    const { error: deleteError } = await supabase
-      .from('run_schedules')
-      .delete()
-      .eq('run_id', runId);
-
-    if (deleteError) {
-      console.error('Error deleting old schedules:', deleteError);
-    }
-
-    const schedules = [];
-    const today = new Date(startDate);
-    today.setHours(0, 0, 0, 0); // Reset to start of day
-
-    // Determine how many schedules to generate and interval
-    let numberOfSchedules = 0;
-    let dayInterval = 0;
-
-    switch (frequency) {
-      case 'weekly':
-        numberOfSchedules = 12; // 3 months worth of weekly schedules
-        dayInterval = 7;
-        break;
-      case 'biweekly':
-        numberOfSchedules = 6; // 3 months worth of biweekly schedules
-        dayInterval = 14;
-        break;
-      case 'monthly':
-        numberOfSchedules = 3; // 3 months worth of monthly schedules
-        dayInterval = 30; // Approximate
-        break;
-      default:
-        console.log('Custom or invalid frequency, skipping schedule generation');
-        return;
-    }
-
-    // Generate schedule entries
-    for (let i = 0; i < numberOfSchedules; i++) {
-      const scheduleDate = new Date(today);
-      scheduleDate.setDate(today.getDate() + (i * dayInterval));
-
-      schedules.push({
-        run_id: runId,
-        scheduled_date: scheduleDate.toISOString().split('T')[0],
-        completed: false,
-        run_number: i + 1,
-        notes: null
-      });
-    }
-
-    if (schedules.length > 0) {
-      console.log(`📅 Creating ${schedules.length} schedule entries`);
-      const { error } = await supabase
-        .from('run_schedules')
-        .insert(schedules);
-
-      if (error) {
-        console.error('❌ Error creating schedules:', error);
-        throw error;
-      }
-
-      console.log('✅ Schedules created successfully');
-    }
-  } catch (error) {
-    console.error('❌ Error in generateSchedules:', error);
-    throw error;
-  }
-};
-
 const RunEditDialog: React.FC<RunEditDialogProps> = ({ isOpen, onClose, run, onSave }) => {
   const { toast } = useToast();
   const { venues, machines } = useAppContext();
@@ -121,14 +54,18 @@ const RunEditDialog: React.FC<RunEditDialogProps> = ({ isOpen, onClose, run, onS
   const [users, setUsers] = useState<any[]>([]);
   const [runVenues, setRunVenues] = useState<RunVenue[]>([]);
   const [draggedIndex, setDraggedIndex] = useState<number | null>(null);
+  const [recurrence, setRecurrence] = useState<RecurrenceDraft>(() => draftFromRun(null));
   
   const [formData, setFormData] = useState({
     name: '',
     description: '',
     image_url: '',
-    frequency: 'weekly',
     assigned_to: '',
-    is_active: true
+    is_active: true,
+    depot_name: '',
+    depot_latitude: null as number | null,
+    depot_longitude: null as number | null,
+    start_time: '08:00'
   });
 
   useEffect(() => {
@@ -142,10 +79,14 @@ const RunEditDialog: React.FC<RunEditDialogProps> = ({ isOpen, onClose, run, onS
           name: run.name || '',
           description: run.description || '',
           image_url: run.image_url || '',
-          frequency: run.frequency || 'weekly',
           assigned_to: run.assigned_to || '',
-          is_active: run.is_active ?? true
+          is_active: run.is_active ?? true,
+          depot_name: run.depot_name || '',
+          depot_latitude: run.depot_latitude ?? null,
+          depot_longitude: run.depot_longitude ?? null,
+          start_time: run.start_time?.slice(0, 5) || '08:00'
         });
+        setRecurrence(draftFromRun(run));
         fetchRunVenues();
       } else {
         resetForm();
@@ -158,11 +99,15 @@ const RunEditDialog: React.FC<RunEditDialogProps> = ({ isOpen, onClose, run, onS
       name: '',
       description: '',
       image_url: '',
-      frequency: 'weekly',
       assigned_to: '',
-      is_active: true
+      is_active: true,
+      depot_name: '',
+      depot_latitude: null,
+      depot_longitude: null,
+      start_time: '08:00'
     });
     setRunVenues([]);
+    setRecurrence(draftFromRun(null));
   };
 
   const fetchUsers = async () => {
@@ -209,6 +154,18 @@ const RunEditDialog: React.FC<RunEditDialogProps> = ({ isOpen, onClose, run, onS
       return;
     }
 
+    let rule: ReturnType<typeof draftToRecurrence>;
+    try {
+      rule = draftToRecurrence(recurrence);
+    } catch (error) {
+      toast({
+        title: 'Validation Error',
+        description: (error as Error).message,
+        variant: 'destructive'
+      });
+      return;
+    }
+
     setLoading(true);
 
     try {
@@ -216,9 +173,14 @@ const RunEditDialog: React.FC<RunEditDialogProps> = ({ isOpen, onClose, run, onS
         name: formData.name.trim(),
         description: formData.description.trim() || null,
         image_url: formData.image_url || null,
-        frequency: formData.frequency,
+        frequency: recurrence.preset,
+        frequency_details: rule,
         assigned_to: formData.assigned_to || null,
         is_active: formData.is_active,
+        depot_name: formData.depot_name.trim() || null,
+        depot_latitude: formData.depot_latitude,
+        depot_longitude: formData.depot_longitude,
+        start_time: formData.start_time || '08:00',
         updated_at: new Date().toISOString()
       };
 
@@ -275,9 +237,14 @@ const RunEditDialog: React.FC<RunEditDialogProps> = ({ isOpen, onClose, run, onS
           console.log('✅ Run venues saved:', venuesToInsert.length);
         }
 
-        // Generate schedules based on frequency
+        // Bring future schedules in line with the rule; completed, started and moved ones are kept
         try {
-          await generateSchedules(runId, formData.frequency);
+          await syncRunSchedules({
+            id: runId,
+            frequency: recurrence.preset,
+            frequency_details: rule,
+            is_active: formData.is_active
+          });
           console.log('✅ Schedules generated for run');
         } catch (scheduleError) {
           console.error('⚠️ Error generating schedules:', scheduleError);
@@ -414,26 +381,10 @@ const RunEditDialog: React.FC<RunEditDialogProps> = ({ isOpen, onClose, run, onS
                 />
               </div>
 
-              <div>
-                <Label>Frequency</Label>
-                <Select
-                  value={formData.frequency}
-                  onValueChange={(value) => setFormData({ ...formData, frequency: value })}
-                >
-                  <SelectTrigger>
-                    <SelectValue />
-                  </SelectTrigger>
-                  <SelectContent>
-                    <SelectItem value="weekly">Weekly</SelectItem>
-                    <SelectItem value="biweekly">Every 2 Weeks</SelectItem>
-                    <SelectItem value="monthly">Monthly</SelectItem>
-                    <SelectItem value="custom">Custom Schedule</SelectItem>
-                  </SelectContent>
-                </Select>
-                <p className="text-xs text-gray-500 mt-1">
-                  Schedules will be automatically generated for the next 3 months
-                </p>
-              </div>
+              <RunRecurrenceFields value={recurrence} onChange={setRecurrence} />
+              <p className="text-xs text-gray-500 -mt-2">
+                Schedules are kept filled for the next 3 months. Changing the rule replaces future schedules that haven't been started.
+              </p>
 
               <div>
                 <Label>Assign To Staff Member (Optional)</Label>
@@ -458,6 +409,37 @@ const RunEditDialog: React.FC<RunEditDialogProps> = ({ isOpen, onClose, run, onS
                 </Select>
               </div>
 
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                <div className="md:col-span-2">
+                  <Label htmlFor="depot">Start Depot</Label>
+                  <AddressAutocomplete
+                    id="depot"
+                    value={formData.depot_name}
+                    onChange={(address, placeDetails) => setFormData({
+                      ...formData,
+                      depot_name: address,
+                      depot_latitude: placeDetails?.geometry?.location?.lat() ?? (address ? formData.depot_latitude : null),
+                      depot_longitude: placeDetails?.geometry?.location?.lng() ?? (address ? formData.depot_longitude : null)
+                    })}
+                    placeholder="Where the run starts and finishes"
+                  />
+                  <p className="text-xs text-gray-500 mt-1">
+                    {formData.depot_latitude !== null
+                      ? 'The route optimiser starts and finishes here'
+                      : 'Pick an address from the list so the route optimiser can use it'}
+                  </p>
+                </div>
+                <div>
+                  <Label htmlFor="start_time">Start Time</Label>
+                  <Input
+                    id="start_time"
+                    type="time"
+                    value={formData.start_time}
+                    onChange={(e) => setFormData({ ...formData, start_time: e.target.value })}
+                  />
+                </div>
+              </div>
+
               <div className="flex items-center gap-2">
                 <input
                   type="checkbox"
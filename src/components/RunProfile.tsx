@@ -3,11 +3,12 @@ import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/u
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
-import { X, MapPin, Users, Clock, Edit, Calendar, CheckCircle, ArrowRight } from 'lucide-react';
+import { X, MapPin, Users, Clock, Edit, Calendar, CheckCircle, ArrowRight, PlayCircle } from 'lucide-react';
 import { supabase } from '@/lib/supabase';
 import { useToast } from '@/hooks/use-toast';
 import { useAppContext } from '@/contexts/AppContext';
 import { createImageWithFallback } from '@/lib/imageUtils';
+import { describeRecurrence, recurrenceOf } from '@/lib/runRecurrence';
 
 interface RunProfileProps {
   run: any;
@@ -16,6 +17,8 @@ interface RunProfileProps {
   canEdit: boolean;
   onEdit: () => void;
   onRefresh: () => void;
+  // Opens the run sheet; without a schedule id it uses (or records) today's run
+  onStartRun?: (scheduleId?: string) => void;
 }
 
 const RunProfile: React.FC<RunProfileProps> = ({ 
@@ -24,7 +27,8 @@ const RunProfile: React.FC<RunProfileProps> = ({
   onClose, 
   canEdit, 
   onEdit,
-  onRefresh 
+  onRefresh,
+  onStartRun
 }) => {
   const { toast } = useToast();
   const { venues, machines } = useAppContext();
@@ -115,15 +119,6 @@ const RunProfile: React.FC<RunProfileProps> = ({
     }
   };
 
-  const getFrequencyText = (frequency: string) => {
-    const map = {
-      weekly: 'Every Week',
-      biweekly: 'Every 2 Weeks',
-      monthly: 'Every Month',
-      custom: 'Custom Schedule'
-    };
-    return map[frequency as keyof typeof map] || frequency;
-  };
 
   const getMachinesForVenue = (venueId: string) => {
     return machines.filter(m => m.venue_id === venueId);
@@ -147,7 +142,7 @@ const RunProfile: React.FC<RunProfileProps> = ({
             <div className="flex-1">
               <DialogTitle className="text-2xl">{run.name}</DialogTitle>
               <div className="flex items-center gap-2 mt-2">
-                <Badge>{getFrequencyText(run.frequency)}</Badge>
+                <Badge>{describeRecurrence(recurrenceOf(run))}</Badge>
                 {run.assigned_user && (
                   <Badge variant="outline">
                     <Users className="h-3 w-3 mr-1" />
@@ -160,6 +155,12 @@ const RunProfile: React.FC<RunProfileProps> = ({
               </div>
             </div>
             <div className="flex gap-2">
+              {onStartRun && run.is_active && (
+                <Button size="sm" onClick={() => onStartRun()} className="bg-green-600 hover:bg-green-700">
+                  <PlayCircle className="h-4 w-4 mr-2" />
+                  Start Run
+                </Button>
+              )}
               {canEdit && (
                 <Button variant="outline" size="sm" onClick={onEdit}>
                   <Edit className="h-4 w-4 mr-2" />
@@ -352,6 +353,12 @@ const RunProfile: React.FC<RunProfileProps> = ({
                           <p className="text-sm text-gray-600">{schedule.notes}</p>
                         )}
                       </div>
+                      {!schedule.completed && onStartRun && schedule.started_at && (
+                        <Button size="sm" variant="outline" onClick={() => onStartRun(schedule.id)}>
+                          <PlayCircle className="h-4 w-4 mr-1" />
+                          Continue
+                        </Button>
+                      )}
                       {!schedule.completed && (
                         <Button
                           size="sm"
@@ -0,0 +1,186 @@
+// src/components/RunRecurrenceFields.tsx
+// Picks when a run repeats: a weekly, fortnightly or monthly preset, or a custom RRULE
+import React, { useMemo } from 'react';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  HOLIDAY_RULES,
+  WEEKDAY_NAMES,
+  addDaysTo,
+  describeRecurrence,
+  draftToRecurrence,
+  expandRecurrence,
+  type HolidayRule,
+  type RecurrenceDraft,
+  type RecurrencePreset
+} from '@/lib/runRecurrence';
+
+interface RunRecurrenceFieldsProps {
+  value: RecurrenceDraft;
+  onChange: (value: RecurrenceDraft) => void;
+}
+
+// Monday first, as the week is shown everywhere else
+const WEEK_ORDER = [1, 2, 3, 4, 5, 6, 0];
+const ORDINALS = [
+  { value: 1, label: 'First' },
+  { value: 2, label: 'Second' },
+  { value: 3, label: 'Third' },
+  { value: 4, label: 'Fourth' },
+  { value: -1, label: 'Last' }
+];
+const PREVIEW_COUNT = 4;
+
+const RunRecurrenceFields: React.FC<RunRecurrenceFieldsProps> = ({ value, onChange }) => {
+  const update = (changes: Partial<RecurrenceDraft>) => onChange({ ...value, ...changes });
+
+  const toggleWeekday = (weekday: number) => {
+    update({
+      weekdays: value.weekdays.includes(weekday)
+        ? value.weekdays.filter(day => day !== weekday)
+        : [...value.weekdays, weekday]
+    });
+  };
+
+  // Shows the next few dates, or why the rule can't be used
+  const preview = useMemo(() => {
+    try {
+      const recurrence = draftToRecurrence(value);
+      if (!recurrence) return { text: 'No rule: add schedules by hand', dates: [] as string[], error: null };
+      const today = new Date().toISOString().slice(0, 10);
+      const dates = expandRecurrence(recurrence.rrule, recurrence.starts_on, today, addDaysTo(today, 400)).slice(0, PREVIEW_COUNT);
+      return { text: describeRecurrence(recurrence), dates, error: null };
+    } catch (error) {
+      return { text: '', dates: [] as string[], error: (error as Error).message };
+    }
+  }, [value]);
+
+  return (
+    <div className="space-y-3">
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+        <div>
+          <Label>Frequency</Label>
+          <Select value={value.preset} onValueChange={(preset) => update({ preset: preset as RecurrencePreset })}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="weekly">Weekly</SelectItem>
+              <SelectItem value="biweekly">Every 2 Weeks</SelectItem>
+              <SelectItem value="monthly">Monthly</SelectItem>
+              <SelectItem value="custom">Custom Schedule</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+        <div>
+          <Label htmlFor="starts_on">Starting</Label>
+          <Input
+            id="starts_on"
+            type="date"
+            value={value.startsOn}
+            onChange={(e) => update({ startsOn: e.target.value })}
+          />
+        </div>
+      </div>
+
+      {(value.preset === 'weekly' || value.preset === 'biweekly') && (
+        <div>
+          <Label>On</Label>
+          <div className="flex flex-wrap gap-1 mt-1">
+            {WEEK_ORDER.map(weekday => (
+              <button
+                key={weekday}
+                type="button"
+                onClick={() => toggleWeekday(weekday)}
+                className={`px-3 py-1 rounded border text-sm ${
+                  value.weekdays.includes(weekday) ? 'bg-blue-600 text-white border-blue-600' : 'bg-white text-gray-700'
+                }`}
+              >
+                {WEEKDAY_NAMES[weekday].slice(0, 3)}
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {value.preset === 'monthly' && (
+        <div className="grid grid-cols-2 gap-3">
+          <div>
+            <Label>On the</Label>
+            <Select value={String(value.monthlyOrdinal)} onValueChange={(ordinal) => update({ monthlyOrdinal: parseInt(ordinal) })}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {ORDINALS.map(ordinal => (
+                  <SelectItem key={ordinal.value} value={String(ordinal.value)}>{ordinal.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div>
+            <Label>Day</Label>
+            <Select value={String(value.monthlyWeekday)} onValueChange={(weekday) => update({ monthlyWeekday: parseInt(weekday) })}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {WEEK_ORDER.map(weekday => (
+                  <SelectItem key={weekday} value={String(weekday)}>{WEEKDAY_NAMES[weekday]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+      )}
+
+      {value.preset === 'custom' && (
+        <div>
+          <Label htmlFor="custom_rrule">Rule (RRULE)</Label>
+          <Input
+            id="custom_rrule"
+            value={value.customRRule}
+            onChange={(e) => update({ customRRule: e.target.value })}
+            placeholder="e.g. FREQ=MONTHLY;BYDAY=1MO,3MO"
+            className="font-mono"
+          />
+          <p className="text-xs text-gray-500 mt-1">
+            FREQ=DAILY, WEEKLY or MONTHLY with INTERVAL, BYDAY, BYMONTHDAY, COUNT and UNTIL. Leave blank to schedule by hand.
+          </p>
+        </div>
+      )}
+
+      <div>
+        <Label>Public Holidays</Label>
+        <Select value={value.holidayRule} onValueChange={(rule) => update({ holidayRule: rule as HolidayRule })}>
+          <SelectTrigger>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {HOLIDAY_RULES.map(rule => (
+              <SelectItem key={rule.value} value={rule.value}>{rule.label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="text-xs bg-gray-50 border rounded p-2">
+        {preview.error ? (
+          <span className="text-red-600">{preview.error}</span>
+        ) : (
+          <>
+            <span className="font-medium">{preview.text}</span>
+            {preview.dates.length > 0 && (
+              <span className="text-gray-600">
+                {' '}· next {preview.dates.map(date => new Date(`${date}T00:00:00`).toLocaleDateString()).join(', ')}
+              </span>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default RunRecurrenceFields;
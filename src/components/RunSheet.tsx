@@ -0,0 +1,237 @@
+// src/components/RunSheet.tsx
+// Run-execution mode: a phone-sized checklist of every venue, collection, task and job on today's run
+import React, { useEffect, useMemo, useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { ArrowLeft, CheckCircle, Circle, ClipboardList, DollarSign, MapPin, Wrench } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { useAppContext } from '@/contexts/AppContext';
+import type { RunScheduleRow, RunSheetItemRow, RunSheetItemKind } from '@/lib/repositories';
+import { completeRunSheet, setRunSheetItemDone, startRunSheet } from '@/lib/runSheets';
+import MachineReportForm from './MachineReportForm';
+
+interface RunSheetProps {
+  run: { id: string; name: string };
+  scheduleId?: string;
+  currentUserId?: string;
+  onClose: () => void;
+  onCompleted: () => void;
+}
+
+const KIND_ICONS: Record<RunSheetItemKind, React.ElementType> = {
+  visit: MapPin,
+  collection: DollarSign,
+  task: ClipboardList,
+  job: Wrench
+};
+
+const formatTime = (value?: string | null) =>
+  value ? new Date(value).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' }) : '—';
+
+const RunSheet: React.FC<RunSheetProps> = ({ run, scheduleId, currentUserId, onClose, onCompleted }) => {
+  const { toast } = useToast();
+  const { venues } = useAppContext();
+  const [schedule, setSchedule] = useState<RunScheduleRow | null>(null);
+  const [items, setItems] = useState<RunSheetItemRow[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [savingId, setSavingId] = useState<string | null>(null);
+  const [readingItemId, setReadingItemId] = useState<string | null>(null);
+  const [completing, setCompleting] = useState(false);
+
+  const userId = currentUserId || null;
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+    startRunSheet(run.id, userId, scheduleId)
+      .then(result => {
+        if (cancelled) return;
+        setSchedule(result.schedule);
+        setItems(result.items);
+      })
+      .catch(error => {
+        console.error('❌ Error starting run sheet:', error);
+        toast({ title: 'Error', description: (error as Error).message || 'Failed to start the run', variant: 'destructive' });
+      })
+      .finally(() => { if (!cancelled) setLoading(false); });
+    return () => { cancelled = true; };
+  }, [run.id, scheduleId, userId, toast]);
+
+  const groups = useMemo(() => {
+    const byVenue: Array<{ venueId: string | null; items: RunSheetItemRow[] }> = [];
+    items.forEach(item => {
+      const group = byVenue.find(entry => entry.venueId === item.venue_id);
+      if (group) group.items.push(item);
+      else byVenue.push({ venueId: item.venue_id, items: [item] });
+    });
+    return byVenue;
+  }, [items]);
+
+  const doneCount = items.filter(item => item.completed_at).length;
+  const readOnly = !!schedule?.completed;
+
+  const handleToggle = async (
+    item: RunSheetItemRow,
+    done: boolean,
+    extras?: { machineReportId?: string | null }
+  ) => {
+    setSavingId(item.id);
+    try {
+      const updated = await setRunSheetItemDone(item, done, userId, extras);
+      setItems(prev => prev.map(row => (row.id === item.id ? updated : row)));
+    } catch (error) {
+      console.error('❌ Error updating run sheet item:', error);
+      toast({ title: 'Error', description: (error as Error).message || 'Failed to update the item', variant: 'destructive' });
+    } finally {
+      setSavingId(null);
+    }
+  };
+
+  const handleReadingSaved = (item: RunSheetItemRow, reportId: string | null) => {
+    setReadingItemId(null);
+    handleToggle(item, true, { machineReportId: reportId });
+  };
+
+  const handleComplete = async () => {
+    if (!schedule) return;
+    const outstanding = items.length - doneCount;
+    if (outstanding > 0 && !confirm(`${outstanding} item${outstanding === 1 ? ' is' : 's are'} not ticked off. Complete the run anyway?`)) {
+      return;
+    }
+
+    setCompleting(true);
+    try {
+      const saved = await completeRunSheet(schedule.id, userId);
+      setSchedule(saved || { ...schedule, completed: true, completed_at: new Date().toISOString() });
+      toast({ title: 'Run Completed', description: `${run.name} finished at ${formatTime(new Date().toISOString())}` });
+      onCompleted();
+    } catch (error) {
+      console.error('❌ Error completing run:', error);
+      toast({ title: 'Error', description: (error as Error).message || 'Failed to complete the run', variant: 'destructive' });
+    } finally {
+      setCompleting(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4 max-w-2xl mx-auto">
+      <div className="flex items-center gap-2">
+        <Button variant="ghost" size="sm" onClick={onClose}>
+          <ArrowLeft className="h-4 w-4 mr-1" />
+          Runs
+        </Button>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center justify-between gap-2">
+            <span>{run.name}</span>
+            {readOnly ? (
+              <Badge className="bg-green-100 text-green-800">Completed</Badge>
+            ) : (
+              <Badge variant="outline">{doneCount}/{items.length} done</Badge>
+            )}
+          </CardTitle>
+          {schedule && (
+            <p className="text-sm text-gray-600">
+              {new Date(`${schedule.scheduled_date}T00:00:00`).toLocaleDateString()} · started {formatTime(schedule.started_at)}
+              {schedule.completed_at && ` · finished ${formatTime(schedule.completed_at)}`}
+            </p>
+          )}
+          <div className="h-2 bg-gray-100 rounded-full overflow-hidden">
+            <div
+              className="h-full bg-green-500 transition-all"
+              style={{ width: `${items.length > 0 ? (doneCount / items.length) * 100 : 0}%` }}
+            />
+          </div>
+        </CardHeader>
+      </Card>
+
+      {loading ? (
+        <div className="text-center py-8">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600 mx-auto"></div>
+          <p className="mt-2 text-gray-600">Preparing run sheet...</p>
+        </div>
+      ) : (
+        groups.map(group => {
+          const venue = venues.find(v => v.id === group.venueId);
+          return (
+            <Card key={group.venueId || 'other'}>
+              <CardHeader className="pb-2">
+                <CardTitle className="text-base flex items-center gap-2">
+                  <MapPin className="h-4 w-4 text-red-500" />
+                  {venue?.name || 'Other'}
+                </CardTitle>
+                {venue?.address && <p className="text-xs text-gray-500">{venue.address}</p>}
+              </CardHeader>
+              <CardContent className="space-y-2">
+                {group.items.map(item => {
+                  const Icon = KIND_ICONS[item.kind];
+                  const done = !!item.completed_at;
+                  return (
+                    <div key={item.id} className={`border rounded-lg ${done ? 'bg-green-50 border-green-200' : ''}`}>
+                      <div className="flex items-center gap-3 p-3">
+                        <button
+                          type="button"
+                          className="shrink-0"
+                          onClick={() => handleToggle(item, !done)}
+                          disabled={readOnly || savingId === item.id}
+                          aria-label={done ? 'Mark not done' : 'Mark done'}
+                        >
+                          {done
+                            ? <CheckCircle className="h-7 w-7 text-green-600" />
+                            : <Circle className="h-7 w-7 text-gray-400" />}
+                        </button>
+                        <Icon className="h-4 w-4 text-gray-500 shrink-0" />
+                        <div className="flex-1 min-w-0">
+                          <div className={`text-sm font-medium ${done ? 'line-through text-gray-500' : ''}`}>{item.label}</div>
+                          {done && (
+                            <div className="text-xs text-gray-500">
+                              {formatTime(item.completed_at)}
+                              {item.kind === 'collection' && !item.machine_report_id && ' · no reading saved'}
+                            </div>
+                          )}
+                        </div>
+                        {item.kind === 'collection' && item.machine_id && !done && !readOnly && (
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            onClick={() => setReadingItemId(readingItemId === item.id ? null : item.id)}
+                          >
+                            {readingItemId === item.id ? 'Close' : 'Enter Reading'}
+                          </Button>
+                        )}
+                      </div>
+                      {readingItemId === item.id && item.machine_id && (
+                        <div className="border-t p-2">
+                          <MachineReportForm
+                            machineId={item.machine_id}
+                            onSubmitted={(_, reportId) => handleReadingSaved(item, reportId)}
+                          />
+                        </div>
+                      )}
+                    </div>
+                  );
+                })}
+              </CardContent>
+            </Card>
+          );
+        })
+      )}
+
+      {!loading && !readOnly && schedule && (
+        <Button
+          className="w-full h-12 bg-green-600 hover:bg-green-700"
+          onClick={handleComplete}
+          disabled={completing}
+        >
+          <CheckCircle className="h-5 w-5 mr-2" />
+          {completing ? 'Completing...' : 'Complete Run'}
+        </Button>
+      )}
+    </div>
+  );
+};
+
+export default RunSheet;
@@ -4,7 +4,7 @@ import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Input } from '@/components/ui/input';
 import { Badge } from '@/components/ui/badge';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
-import { Plus, Search, Edit, Trash2, Eye, Calendar, Map, List, Users } from 'lucide-react';
+import { Plus, Search, Edit, Trash2, Eye, Calendar, Map, List, Users, Route } from 'lucide-react';
 import { supabase } from '@/lib/supabase';
 import { useToast } from '@/hooks/use-toast';
 import { useAppContext } from '@/contexts/AppContext';
@@ -12,8 +12,12 @@ import RunEditDialog from './RunEditDialog';
 import RunProfile from './RunProfile';
 import RunCalendar from './RunCalendar';
 import RunMap from './RunMap';
+import RouteOptimiser from './RouteOptimiser';
+import RunSheet from './RunSheet';
+import PublicHolidaysManager from './PublicHolidaysManager';
 import ConfirmDeleteDialog from './ConfirmDeleteDialog';
 import { createImageWithFallback } from '@/lib/imageUtils';
+import { syncAllRunSchedules } from '@/lib/runRecurrence';
 
 interface Run {
   id: string;
@@ -24,6 +28,10 @@ interface Run {
   frequency_details?: any;
   assigned_to?: string;
   is_active: boolean;
+  depot_name?: string;
+  depot_latitude?: number;
+  depot_longitude?: number;
+  start_time?: string;
   created_at: string;
   updated_at: string;
   assigned_user?: {
@@ -38,9 +46,10 @@ interface Run {
 interface RunsManagerProps {
   userRole: string;
   hasPermission: (permission: string) => boolean;
+  currentUserId?: string;
 }
 
-const RunsManager: React.FC<RunsManagerProps> = ({ userRole, hasPermission }) => {
+const RunsManager: React.FC<RunsManagerProps> = ({ userRole, hasPermission, currentUserId }) => {
   const { toast } = useToast();
   const { venues, machines } = useAppContext();
   const [runs, setRuns] = useState<Run[]>([]);
@@ -51,6 +60,7 @@ const RunsManager: React.FC<RunsManagerProps> = ({ userRole, hasPermission }) =>
   const [showProfile, setShowProfile] = useState(false);
   const [showDeleteDialog, setShowDeleteDialog] = useState(false);
   const [selectedRun, setSelectedRun] = useState<Run | null>(null);
+  const [activeSheet, setActiveSheet] = useState<{ run: Run; scheduleId?: string } | null>(null);
 
   // Permission checks
   const canEdit = hasPermission('manage_venues') || ['admin', 'super_admin', 'manager'].includes(userRole);
@@ -104,6 +114,13 @@ const RunsManager: React.FC<RunsManagerProps> = ({ userRole, hasPermission }) =>
 
       setRuns(runsWithCounts);
       console.log('✅ Runs fetched:', runsWithCounts.length);
+
+      // Roll each run's schedules forward to the horizon; only editors may write schedules
+      if (canEdit) {
+        syncAllRunSchedules(runsWithCounts).catch(error =>
+          console.warn('⚠️ Could not roll run schedules forward:', error)
+        );
+      }
     } catch (error) {
       console.error('❌ Error fetching runs:', error);
       toast({
@@ -262,6 +279,18 @@ const RunsManager: React.FC<RunsManagerProps> = ({ userRole, hasPermission }) =>
     );
   };
 
+  if (activeSheet) {
+    return (
+      <RunSheet
+        run={activeSheet.run}
+        scheduleId={activeSheet.scheduleId}
+        currentUserId={currentUserId}
+        onClose={() => setActiveSheet(null)}
+        onCompleted={fetchRuns}
+      />
+    );
+  }
+
   return (
     <div className="space-y-6">
       <div className="flex justify-between items-center">
@@ -296,7 +325,7 @@ const RunsManager: React.FC<RunsManagerProps> = ({ userRole, hasPermission }) =>
       </div>
 
       <Tabs value={activeTab} onValueChange={setActiveTab} className="w-full">
-        <TabsList className="grid w-full grid-cols-3">
+        <TabsList className="grid w-full grid-cols-4">
           <TabsTrigger value="list" className="flex items-center gap-2">
             <List className="h-4 w-4" />
             List View
@@ -309,6 +338,10 @@ const RunsManager: React.FC<RunsManagerProps> = ({ userRole, hasPermission }) =>
             <Map className="h-4 w-4" />
             Map View
           </TabsTrigger>
+          <TabsTrigger value="optimise" className="flex items-center gap-2">
+            <Route className="h-4 w-4" />
+            Optimise
+          </TabsTrigger>
         </TabsList>
 
         <TabsContent value="list" className="space-y-4">
@@ -338,16 +371,23 @@ const RunsManager: React.FC<RunsManagerProps> = ({ userRole, hasPermission }) =>
           )}
         </TabsContent>
 
-        <TabsContent value="calendar">
+        <TabsContent value="calendar" className="space-y-4">
           <RunCalendar runs={runs} onRunSelect={(run) => {
             setSelectedRun(run);
             setShowProfile(true);
           }} />
+          {hasPermission('manage_settings') && (
+            <PublicHolidaysManager onChanged={fetchRuns} />
+          )}
         </TabsContent>
 
         <TabsContent value="map">
           <RunMap runs={runs} venues={venues} machines={machines} />
         </TabsContent>
+
+        <TabsContent value="optimise">
+          <RouteOptimiser runs={runs} currentUserId={currentUserId} canEdit={canEdit} onAccepted={fetchRuns} />
+        </TabsContent>
       </Tabs>
 
       {/* Dialogs */}
@@ -379,6 +419,11 @@ const RunsManager: React.FC<RunsManagerProps> = ({ userRole, hasPermission }) =>
             setShowEditDialog(true);
           }}
           onRefresh={fetchRuns}
+          onStartRun={(scheduleId) => {
+            setShowProfile(false);
+            setActiveSheet({ run: selectedRun, scheduleId });
+            setSelectedRun(null);
+          }}
         />
       )}
 
@@ -9,6 +9,8 @@ import { TrendingUp, Package, RefreshCw, BarChart3, Calendar, Trophy, DollarSign
 import { supabase } from '@/lib/supabase';
 import { useToast } from '@/hooks/use-toast';
 import { useAppContext } from '@/contexts/AppContext';
+import { calculateReport } from '@/lib/payoutCalculations';
+import { costAt, groupHistoryByPrize, loadPrizeCostHistory, loadedCostAt } from '@/lib/prizeCosting';
 
 interface PerformanceData {
   id: string;
@@ -106,8 +108,7 @@ const StockAnalytics: React.FC = () => {
         if (!machine) return;
 
         const machineId = machine.id;
-        const revenue = report.money_collected || 0;
-        const toys = report.toys_dispensed || 0;
+        const { earnings: revenue, toysDispensed: toys } = calculateReport(report);
         const reportDate = report.report_date;
 
         if (!machinePerformance.has(machineId)) {
@@ -151,6 +152,14 @@ const StockAnalytics: React.FC = () => {
         toysDispensed: number;
       }>();
 
+      // Reports without a saved prize value are valued at what the machine's prizes were loaded
+      // at, or the prize's cost on the day
+      const stockedPrizeIds = (stockMovements || []).map(stock => stock.prizes?.id).filter(Boolean);
+      const costHistory = groupHistoryByPrize(await loadPrizeCostHistory(stockedPrizeIds).catch(error => {
+        console.warn('⚠️ Could not load prize cost history:', error);
+        return [];
+      }));
+
       // Calculate prize performance based on machine reports and prize assignments
       reports?.forEach(report => {
         const machine = report.machines;
@@ -164,8 +173,10 @@ const StockAnalytics: React.FC = () => {
         if (machineStock?.prizes) {
           const prize = machineStock.prizes;
           const prizeId = prize.id;
-          const toys = report.toys_dispensed || 0;
-          const prizeValue = toys * (prize.cost || 0);
+          const { toysDispensed: toys, prizeValue } = calculateReport(report, {
+            prizeCost: (_machineId, reportDate) =>
+              loadedCostAt(stockMovements, machine.id, prizeId, reportDate) ?? costAt(costHistory.get(prizeId) || [], reportDate) ?? prize.cost
+          });
 
           if (!prizePerformance.has(prizeId)) {
             prizePerformance.set(prizeId, {
@@ -619,7 +630,7 @@ const StockAnalytics: React.FC = () => {
               <h4 className="font-semibold text-blue-800 mb-2">📊 Analysis Notes</h4>
               <ul className="text-blue-700 text-sm space-y-1">
                 <li>• Performance scores weight daily revenue by activity level</li>
-                <li>• Prize revenue is calculated from toys dispensed × prize cost</li>
+                <li>• Prize revenue is calculated from toys dispensed × the prize cost on the report date</li>
                 <li>• Machine performance includes all cash/paywave collected</li>
                 <li>• Use longer time periods for more reliable trend analysis</li>
               </ul>
@@ -0,0 +1,384 @@
+// src/components/StockLocationsManager.tsx
+// Stock locations: how many of each prize is in each warehouse, van and machine, moving stock
+// between them, counting vans, and setting up the locations themselves
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { ArrowRightLeft, MapPin, Plus, RefreshCw, Save, Truck, Warehouse } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { useAppContext } from '@/contexts/AppContext';
+import {
+  repositories,
+  type LocationStockRow,
+  type StaffMemberRow,
+  type StockLocationKind,
+  type StockLocationRow
+} from '@/lib/repositories';
+import {
+  buildLocationQuantities,
+  buildStockOverview,
+  loadStockLocations,
+  prizesInMachines,
+  primaryLocation
+} from '@/lib/stockLocations';
+import StockTransferDialog from './StockTransferDialog';
+import VanStocktake from './VanStocktake';
+
+interface StockLocationsManagerProps {
+  currentUserId?: string;
+  canManage: boolean;
+}
+
+const EMPTY_LOCATION = { name: '', kind: 'vehicle' as StockLocationKind, assigned_to: '', notes: '' };
+const UNASSIGNED = 'unassigned';
+
+const StockLocationsManager: React.FC<StockLocationsManagerProps> = ({ currentUserId, canManage }) => {
+  const { prizes = [], machines = [], getLatestReport, refreshData } = useAppContext();
+  const { toast } = useToast();
+  const [locations, setLocations] = useState<StockLocationRow[]>([]);
+  const [allLocations, setAllLocations] = useState<StockLocationRow[]>([]);
+  const [rows, setRows] = useState<LocationStockRow[]>([]);
+  const [staff, setStaff] = useState<StaffMemberRow[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [showTransfer, setShowTransfer] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [form, setForm] = useState(EMPTY_LOCATION);
+  const [saving, setSaving] = useState(false);
+
+  const loadLocations = useCallback(async () => {
+    setLoading(true);
+    try {
+      const loaded = await loadStockLocations();
+      setLocations(loaded.locations);
+      setRows(loaded.rows);
+      if (canManage) {
+        setAllLocations(await repositories.stockLocations.list({ orderBy: [{ column: 'name', ascending: true }] }));
+      }
+    } catch (error) {
+      console.error('❌ Error loading stock locations:', error);
+      toast({ title: 'Error', description: (error as Error).message || 'Failed to load stock locations', variant: 'destructive' });
+    } finally {
+      setLoading(false);
+    }
+  }, [canManage, toast]);
+
+  useEffect(() => {
+    loadLocations();
+  }, [loadLocations]);
+
+  useEffect(() => {
+    if (!canManage) return;
+    repositories.users.listActiveStaff()
+      .then(setStaff)
+      .catch(error => console.error('❌ Error loading staff:', error));
+  }, [canManage]);
+
+  const quantities = useMemo(() => buildLocationQuantities(prizes, locations, rows), [prizes, locations, rows]);
+  const overview = useMemo(() => buildStockOverview(
+    prizes,
+    locations,
+    quantities,
+    prizesInMachines(machines, machineId => getLatestReport(machineId)?.current_toy_count ?? null)
+  ), [prizes, locations, quantities, machines, getLatestReport]);
+
+  const myVan = locations.find(location => location.kind === 'vehicle' && location.assigned_to === currentUserId);
+
+  // Moving or counting stock changes prizes.stock_quantity, which the rest of the app reads
+  const handleStockChanged = async () => {
+    await refreshData();
+    await loadLocations();
+  };
+
+  const editLocation = (location: StockLocationRow | null) => {
+    setEditingId(location?.id || null);
+    setForm(location ? {
+      name: location.name,
+      kind: location.kind,
+      assigned_to: location.assigned_to || '',
+      notes: location.notes || ''
+    } : EMPTY_LOCATION);
+  };
+
+  const handleSave = async () => {
+    if (!form.name.trim()) {
+      toast({ title: 'Validation Error', description: 'Location name is required', variant: 'destructive' });
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const values = {
+        name: form.name.trim(),
+        kind: form.kind,
+        assigned_to: form.kind === 'vehicle' ? form.assigned_to || null : null,
+        notes: form.notes.trim() || null
+      };
+      if (editingId) {
+        await repositories.stockLocations.update(editingId, values);
+      } else {
+        const created = await repositories.stockLocations.create(values);
+        setEditingId(created.id);
+      }
+      toast({ title: 'Location Saved', description: values.name });
+      await loadLocations();
+    } catch (error) {
+      console.error('❌ Error saving stock location:', error);
+      toast({ title: 'Error', description: (error as Error).message || 'Failed to save location', variant: 'destructive' });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleToggleActive = async (location: StockLocationRow) => {
+    const held = rows.filter(row => row.location_id === location.id).reduce((sum, row) => sum + row.quantity, 0);
+    if (location.is_active && held > 0) {
+      toast({ title: 'Location Not Empty', description: `Move the ${held} prizes in ${location.name} somewhere else first`, variant: 'destructive' });
+      return;
+    }
+    try {
+      await repositories.stockLocations.update(location.id, { is_active: !location.is_active });
+      await loadLocations();
+    } catch (error) {
+      console.error('❌ Error updating stock location:', error);
+      toast({ title: 'Error', description: (error as Error).message || 'Failed to update location', variant: 'destructive' });
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <h2 className="text-2xl font-bold text-gray-900 flex items-center gap-2">
+          <Warehouse className="h-6 w-6" />
+          Stock Locations
+        </h2>
+        <div className="flex gap-2">
+          <Button variant="outline" onClick={loadLocations} disabled={loading}>
+            <RefreshCw className={`h-4 w-4 ${loading ? 'animate-spin' : ''}`} />
+          </Button>
+          <Button onClick={() => setShowTransfer(true)} disabled={locations.length < 2}>
+            <ArrowRightLeft className="h-4 w-4 mr-1" />
+            Move Stock
+          </Button>
+        </div>
+      </div>
+
+      <Tabs defaultValue="overview" className="w-full">
+        <TabsList className={`grid w-full ${canManage ? 'grid-cols-3' : 'grid-cols-2'}`}>
+          <TabsTrigger value="overview" className="flex items-center gap-2">
+            <MapPin className="h-4 w-4" />
+            Where It Is
+          </TabsTrigger>
+          <TabsTrigger value="stocktake" className="flex items-center gap-2">
+            <Truck className="h-4 w-4" />
+            Van Stocktake
+          </TabsTrigger>
+          {canManage && (
+            <TabsTrigger value="locations" className="flex items-center gap-2">
+              <Warehouse className="h-4 w-4" />
+              Locations
+            </TabsTrigger>
+          )}
+        </TabsList>
+
+        <TabsContent value="overview">
+          <Card>
+            <CardContent className="pt-6 overflow-x-auto">
+              {overview.length === 0 ? (
+                <p className="text-sm text-gray-500 text-center py-6">No prizes in stock</p>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Prize</TableHead>
+                      {locations.map(location => (
+                        <TableHead key={location.id} className="text-right whitespace-nowrap">
+                          {location.name}
+                        </TableHead>
+                      ))}
+                      <TableHead className="text-right">In Stock</TableHead>
+                      <TableHead className="text-right whitespace-nowrap" title="From each machine's latest toy count">
+                        In Machines
+                      </TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {overview.map(row => (
+                      <TableRow key={row.prize.id}>
+                        <TableCell className="font-medium">{row.prize.name}</TableCell>
+                        {locations.map(location => {
+                          const quantity = row.byLocation[location.id];
+                          return (
+                            <TableCell
+                              key={location.id}
+                              className={`text-right ${quantity < 0 ? 'text-red-600' : quantity === 0 ? 'text-gray-400' : ''}`}
+                            >
+                              {quantity}
+                            </TableCell>
+                          );
+                        })}
+                        <TableCell className="text-right font-medium">{row.inStock}</TableCell>
+                        <TableCell className="text-right text-gray-600">{row.inMachines || '—'}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </CardContent>
+          </Card>
+        </TabsContent>
+
+        <TabsContent value="stocktake">
+          <VanStocktake
+            locations={locations}
+            quantities={quantities}
+            currentUserId={currentUserId}
+            canManage={canManage}
+            onCounted={handleStockChanged}
+          />
+        </TabsContent>
+
+        {canManage && (
+          <TabsContent value="locations">
+            <div className="grid grid-cols-1 lg:grid-cols-3 gap-4">
+              <Card>
+                <CardHeader className="flex flex-row items-center justify-between">
+                  <CardTitle className="text-sm">Locations</CardTitle>
+                  <Button size="sm" variant="outline" onClick={() => editLocation(null)}>
+                    <Plus className="h-4 w-4 mr-1" />
+                    New
+                  </Button>
+                </CardHeader>
+                <CardContent>
+                  <div className="divide-y border rounded">
+                    {allLocations.map(location => (
+                      <button
+                        key={location.id}
+                        type="button"
+                        onClick={() => editLocation(location)}
+                        className={`w-full text-left px-3 py-2 text-sm ${location.id === editingId ? 'bg-blue-50' : 'hover:bg-gray-50'}`}
+                      >
+                        <div className="font-medium flex items-center gap-2">
+                          {location.kind === 'vehicle' ? <Truck className="h-3 w-3" /> : <Warehouse className="h-3 w-3" />}
+                          {location.name}
+                          {location.is_primary && <Badge variant="outline">Main</Badge>}
+                          {!location.is_active && <Badge variant="outline">Inactive</Badge>}
+                        </div>
+                        {location.kind === 'vehicle' && (
+                          <div className="text-xs text-gray-500">
+                            {location.users?.full_name || location.users?.username || 'Not assigned'}
+                          </div>
+                        )}
+                      </button>
+                    ))}
+                  </div>
+                </CardContent>
+              </Card>
+
+              <Card className="lg:col-span-2">
+                <CardHeader>
+                  <CardTitle className="text-sm">{editingId ? form.name || 'Location' : 'New Location'}</CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                    <div>
+                      <Label htmlFor="location_name">Name</Label>
+                      <Input
+                        id="location_name"
+                        value={form.name}
+                        onChange={(e) => setForm(prev => ({ ...prev, name: e.target.value }))}
+                        placeholder="e.g. Van 2"
+                      />
+                    </div>
+                    <div>
+                      <Label>Type</Label>
+                      <Select
+                        value={form.kind}
+                        onValueChange={(kind) => setForm(prev => ({ ...prev, kind: kind as StockLocationKind }))}
+                        disabled={allLocations.find(location => location.id === editingId)?.is_primary}
+                      >
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="warehouse">Warehouse</SelectItem>
+                          <SelectItem value="vehicle">Vehicle</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    {form.kind === 'vehicle' && (
+                      <div>
+                        <Label>Technician</Label>
+                        <Select
+                          value={form.assigned_to || UNASSIGNED}
+                          onValueChange={(value) => setForm(prev => ({ ...prev, assigned_to: value === UNASSIGNED ? '' : value }))}
+                        >
+                          <SelectTrigger>
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value={UNASSIGNED}>Not assigned</SelectItem>
+                            {staff.map(person => (
+                              <SelectItem key={person.id} value={person.id}>{person.full_name || person.username}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </div>
+                    )}
+                    <div className={form.kind === 'vehicle' ? '' : 'md:col-span-2'}>
+                      <Label htmlFor="location_notes">Notes</Label>
+                      <Input
+                        id="location_notes"
+                        value={form.notes}
+                        onChange={(e) => setForm(prev => ({ ...prev, notes: e.target.value }))}
+                      />
+                    </div>
+                  </div>
+                  <div className="flex gap-2">
+                    <Button onClick={handleSave} disabled={saving}>
+                      <Save className="h-4 w-4 mr-1" />
+                      {saving ? 'Saving...' : 'Save Location'}
+                    </Button>
+                    {editingId && !allLocations.find(location => location.id === editingId)?.is_primary && (
+                      <Button
+                        variant="outline"
+                        onClick={() => {
+                          const location = allLocations.find(row => row.id === editingId);
+                          if (location) handleToggleActive(location);
+                        }}
+                      >
+                        {allLocations.find(location => location.id === editingId)?.is_active ? 'Mark Inactive' : 'Mark Active'}
+                      </Button>
+                    )}
+                  </div>
+                  {primaryLocation(locations)?.id === editingId && (
+                    <p className="text-xs text-gray-500">
+                      The main warehouse holds any stock that isn't in another location, including deliveries and manual stock changes.
+                    </p>
+                  )}
+                </CardContent>
+              </Card>
+            </div>
+          </TabsContent>
+        )}
+      </Tabs>
+
+      <StockTransferDialog
+        isOpen={showTransfer}
+        locations={locations}
+        quantities={quantities}
+        defaultFromId={primaryLocation(locations)?.id}
+        defaultToId={myVan?.id}
+        onClose={() => setShowTransfer(false)}
+        onTransferred={handleStockChanged}
+      />
+    </div>
+  );
+};
+
+export default StockLocationsManager;
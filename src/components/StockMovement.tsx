@@ -267,8 +267,10 @@ const StockMovement: React.FC = () => {
                       </div>
                       <div className="text-right">
                         <span className="font-bold">
-                          {movement.movement_type === 'out' ? '-' : '+'}
-                          {movement.quantity}
+                          {/* Stocktake adjustments carry their own sign */}
+                          {movement.movement_type === 'adjustment'
+                            ? `${movement.quantity > 0 ? '+' : ''}${movement.quantity}`
+                            : `${movement.movement_type === 'out' ? '-' : '+'}${movement.quantity}`}
                         </span>
                       </div>
                     </div>
@@ -0,0 +1,171 @@
+// src/components/StockTransferDialog.tsx
+// Moves prizes between stock locations, e.g. loading a technician's van from the warehouse
+import React, { useEffect, useState } from 'react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ArrowRightLeft } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { useAppContext } from '@/contexts/AppContext';
+import { repositories, type StockLocationRow } from '@/lib/repositories';
+import { describeLocation, quantityAt } from '@/lib/stockLocations';
+
+interface StockTransferDialogProps {
+  isOpen: boolean;
+  locations: StockLocationRow[];
+  quantities: Map<string, number>;
+  defaultFromId?: string;
+  defaultToId?: string;
+  onClose: () => void;
+  onTransferred: () => void;
+}
+
+const StockTransferDialog: React.FC<StockTransferDialogProps> = ({
+  isOpen,
+  locations,
+  quantities,
+  defaultFromId,
+  defaultToId,
+  onClose,
+  onTransferred
+}) => {
+  const { prizes = [] } = useAppContext();
+  const { toast } = useToast();
+  const [fromId, setFromId] = useState('');
+  const [toId, setToId] = useState('');
+  const [prizeId, setPrizeId] = useState('');
+  const [quantity, setQuantity] = useState('');
+  const [notes, setNotes] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setFromId(defaultFromId || '');
+    setToId(defaultToId || '');
+    setPrizeId('');
+    setQuantity('');
+    setNotes('');
+  }, [isOpen, defaultFromId, defaultToId]);
+
+  const available = prizes.filter(prize => fromId && quantityAt(quantities, fromId, prize.id) > 0);
+  const onHand = fromId && prizeId ? quantityAt(quantities, fromId, prizeId) : 0;
+
+  const handleTransfer = async () => {
+    const qty = parseInt(quantity);
+    if (!fromId || !toId || !prizeId || !(qty > 0)) {
+      toast({ title: 'Validation Error', description: 'Choose both locations, a prize and a quantity', variant: 'destructive' });
+      return;
+    }
+    if (fromId === toId) {
+      toast({ title: 'Validation Error', description: 'Choose two different locations', variant: 'destructive' });
+      return;
+    }
+    if (qty > onHand) {
+      toast({ title: 'Validation Error', description: `Only ${onHand} available to move`, variant: 'destructive' });
+      return;
+    }
+
+    setSaving(true);
+    try {
+      await repositories.locationStock.transfer(fromId, toId, prizeId, qty, notes.trim() || null);
+      const from = locations.find(location => location.id === fromId);
+      const to = locations.find(location => location.id === toId);
+      toast({
+        title: 'Stock Moved',
+        description: `${qty} ${prizes.find(prize => prize.id === prizeId)?.name || 'prizes'} from ${from?.name} to ${to?.name}`
+      });
+      onTransferred();
+      onClose();
+    } catch (error) {
+      console.error('❌ Error moving stock:', error);
+      toast({ title: 'Error', description: (error as Error).message || 'Failed to move stock', variant: 'destructive' });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => { if (!open) onClose(); }}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <ArrowRightLeft className="h-5 w-5" />
+            Move Stock
+          </DialogTitle>
+        </DialogHeader>
+        <div className="space-y-3">
+          <div className="grid grid-cols-2 gap-2">
+            <div>
+              <Label>From</Label>
+              <Select value={fromId} onValueChange={(value) => { setFromId(value); setPrizeId(''); }}>
+                <SelectTrigger>
+                  <SelectValue placeholder="From" />
+                </SelectTrigger>
+                <SelectContent>
+                  {locations.map(location => (
+                    <SelectItem key={location.id} value={location.id}>{describeLocation(location)}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label>To</Label>
+              <Select value={toId} onValueChange={setToId}>
+                <SelectTrigger>
+                  <SelectValue placeholder="To" />
+                </SelectTrigger>
+                <SelectContent>
+                  {locations.filter(location => location.id !== fromId).map(location => (
+                    <SelectItem key={location.id} value={location.id}>{describeLocation(location)}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          <div>
+            <Label>Prize</Label>
+            <Select value={prizeId} onValueChange={setPrizeId} disabled={!fromId}>
+              <SelectTrigger>
+                <SelectValue placeholder={fromId ? 'Choose a prize' : 'Choose where it comes from first'} />
+              </SelectTrigger>
+              <SelectContent>
+                {available.map(prize => (
+                  <SelectItem key={prize.id} value={prize.id}>
+                    {prize.name} ({quantityAt(quantities, fromId, prize.id)})
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="grid grid-cols-2 gap-2">
+            <div>
+              <Label htmlFor="transfer_quantity">Quantity</Label>
+              <Input
+                id="transfer_quantity"
+                type="number"
+                min="1"
+                max={onHand || undefined}
+                value={quantity}
+                onChange={(e) => setQuantity(e.target.value)}
+              />
+            </div>
+            <div>
+              <Label htmlFor="transfer_notes">Notes</Label>
+              <Input id="transfer_notes" value={notes} onChange={(e) => setNotes(e.target.value)} />
+            </div>
+          </div>
+        </div>
+        <div className="flex justify-end gap-2 pt-2">
+          <Button variant="outline" onClick={onClose} disabled={saving}>Cancel</Button>
+          <Button onClick={handleTransfer} disabled={saving}>
+            {saving ? 'Moving...' : 'Move Stock'}
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default StockTransferDialog;
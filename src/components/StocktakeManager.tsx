@@ -0,0 +1,205 @@
+// src/components/StocktakeManager.tsx
+// Stocktakes: start a full or partial count, work through the sheet, and keep cycle counts on schedule
+import React, { useCallback, useEffect, useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ClipboardList, Play } from 'lucide-react';
+import { format } from 'date-fns';
+import { useToast } from '@/hooks/use-toast';
+import { useAppContext } from '@/contexts/AppContext';
+import { repositories, type CycleCountScheduleRow, type StocktakeRow } from '@/lib/repositories';
+import { SCOPE_OPTIONS, describeScope, scopeFromKey } from '@/lib/stocktakes';
+import StocktakeSession from './StocktakeSession';
+import CycleCountSchedules from './CycleCountSchedules';
+
+interface StocktakeManagerProps {
+  currentUserId?: string;
+}
+
+const STATUS_BADGES: Record<StocktakeRow['status'], { label: string; className: string }> = {
+  counting: { label: 'Counting', className: 'bg-blue-100 text-blue-800' },
+  approved: { label: 'Approved', className: 'bg-green-100 text-green-800' },
+  cancelled: { label: 'Cancelled', className: 'bg-gray-100 text-gray-800' }
+};
+
+const StocktakeManager: React.FC<StocktakeManagerProps> = ({ currentUserId }) => {
+  const { refreshData } = useAppContext();
+  const { toast } = useToast();
+  const [stocktakes, setStocktakes] = useState<StocktakeRow[]>([]);
+  const [schedules, setSchedules] = useState<CycleCountScheduleRow[]>([]);
+  const [categories, setCategories] = useState<string[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [title, setTitle] = useState('');
+  const [scope, setScope] = useState('all');
+  const [starting, setStarting] = useState(false);
+
+  const loadStocktakes = useCallback(async () => {
+    try {
+      const rows = await repositories.stocktakes.listLatestFirst();
+      setStocktakes(rows);
+      setSelectedId(prev => prev || rows.find(row => row.status === 'counting')?.id || null);
+    } catch (error) {
+      console.error('❌ Error loading stocktakes:', error);
+    }
+  }, []);
+
+  const loadSchedules = useCallback(async () => {
+    try {
+      setSchedules(await repositories.cycleCountSchedules.list({ orderBy: [{ column: 'next_due_date', ascending: true }] }));
+    } catch (error) {
+      console.error('❌ Error loading cycle counts:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadStocktakes();
+    loadSchedules();
+    repositories.prizes.list({ select: 'id, category' })
+      .then(rows => setCategories(
+        Array.from(new Set(rows.map(row => row.category).filter((category): category is string => !!category))).sort()
+      ))
+      .catch(error => console.error('❌ Error loading prize categories:', error));
+  }, [loadStocktakes, loadSchedules]);
+
+  const start = async (name: string, scopeKey: string, scheduleId?: string) => {
+    const { item_type, category } = scopeFromKey(scopeKey);
+    setStarting(true);
+    try {
+      const created = await repositories.stocktakes.start(name, item_type, category, scheduleId);
+      toast({ title: 'Stocktake Started', description: `${created.title}: expected quantities frozen, start counting` });
+      setTitle('');
+      setSelectedId(created.id);
+      await loadStocktakes();
+    } catch (error) {
+      console.error('❌ Error starting stocktake:', error);
+      toast({ title: 'Error', description: (error as Error).message || 'Failed to start stocktake', variant: 'destructive' });
+    } finally {
+      setStarting(false);
+    }
+  };
+
+  const handleStart = () => {
+    const label = scope.startsWith('category:') ? `${scope.slice('category:'.length)} prizes` : SCOPE_OPTIONS.find(option => option.value === scope)?.label;
+    start(title.trim() || `${label} · ${format(new Date(), 'd MMM yyyy')}`, scope);
+  };
+
+  const handleStartSchedule = (schedule: CycleCountScheduleRow) => {
+    const scopeKey = schedule.category ? `category:${schedule.category}` : schedule.item_type || 'all';
+    start(`${schedule.name} · ${format(new Date(), 'd MMM yyyy')}`, scopeKey, schedule.id);
+  };
+
+  // Approval moves stock and a schedule's next due date
+  const handleSessionChanged = async () => {
+    await Promise.all([loadStocktakes(), loadSchedules()]);
+    refreshData();
+  };
+
+  const selected = stocktakes.find(stocktake => stocktake.id === selectedId) || null;
+  const runningScheduleIds = stocktakes
+    .filter(stocktake => stocktake.status === 'counting' && stocktake.schedule_id)
+    .map(stocktake => stocktake.schedule_id as string);
+
+  return (
+    <div className="space-y-6">
+      <h2 className="text-2xl font-bold text-gray-900 flex items-center gap-2">
+        <ClipboardList className="h-6 w-6" />
+        Stocktake
+      </h2>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-4">
+        <div className="space-y-4">
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-sm">New Stocktake</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-2">
+              <Input placeholder="Title (optional)" value={title} onChange={(e) => setTitle(e.target.value)} />
+              <Select value={scope} onValueChange={setScope}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {SCOPE_OPTIONS.map(option => <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>)}
+                  {categories.map(category => (
+                    <SelectItem key={category} value={`category:${category}`}>{category} prizes</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Button className="w-full" onClick={handleStart} disabled={starting}>
+                <Play className="h-4 w-4 mr-1" />
+                {starting ? 'Starting...' : 'Start Counting'}
+              </Button>
+              <p className="text-xs text-gray-500">
+                Prizes are counted in the main warehouse; count vans from Stock Locations.
+              </p>
+            </CardContent>
+          </Card>
+
+          <CycleCountSchedules
+            schedules={schedules}
+            categories={categories}
+            runningScheduleIds={runningScheduleIds}
+            currentUserId={currentUserId}
+            onStart={handleStartSchedule}
+            onChanged={loadSchedules}
+          />
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-sm">Stocktakes</CardTitle>
+            </CardHeader>
+            <CardContent>
+              {stocktakes.length === 0 ? (
+                <p className="text-sm text-gray-500">No stocktakes yet</p>
+              ) : (
+                <div className="divide-y border rounded max-h-96 overflow-y-auto">
+                  {stocktakes.map(stocktake => {
+                    const status = STATUS_BADGES[stocktake.status];
+                    return (
+                      <button
+                        key={stocktake.id}
+                        type="button"
+                        onClick={() => setSelectedId(stocktake.id)}
+                        className={`w-full text-left px-3 py-2 text-sm ${stocktake.id === selectedId ? 'bg-blue-50' : 'hover:bg-gray-50'}`}
+                      >
+                        <div className="font-medium flex items-center justify-between gap-2">
+                          <span className="truncate">{stocktake.title}</span>
+                          <Badge className={status.className}>{status.label}</Badge>
+                        </div>
+                        <div className="text-xs text-gray-500">
+                          {describeScope(stocktake.item_type, stocktake.category)} · {new Date(stocktake.created_at).toLocaleDateString()}
+                        </div>
+                      </button>
+                    );
+                  })}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+
+        <div className="lg:col-span-2">
+          {selected ? (
+            <StocktakeSession
+              key={selected.id}
+              stocktake={selected}
+              currentUserId={currentUserId}
+              onChanged={handleSessionChanged}
+            />
+          ) : (
+            <Card>
+              <CardContent className="py-12 text-center text-sm text-gray-500">
+                Start a stocktake or pick one from the list
+              </CardContent>
+            </Card>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default StocktakeManager;
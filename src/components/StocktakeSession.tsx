@@ -0,0 +1,313 @@
+// src/components/StocktakeSession.tsx
+// One stocktake sheet: count by scanning or typing, see variances and their value, then approve
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { CheckCircle, ScanLine, XCircle } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import {
+  repositories,
+  type StockAdjustmentReason,
+  type StocktakeLineRow,
+  type StocktakeRow
+} from '@/lib/repositories';
+import {
+  REASON_LABELS,
+  describeScope,
+  findLineByBarcode,
+  lineValueImpact,
+  lineVariance,
+  summariseStocktake
+} from '@/lib/stocktakes';
+import AutoBarcodeScanner from './AutoBarcodeScanner';
+
+interface StocktakeSessionProps {
+  stocktake: StocktakeRow;
+  currentUserId?: string;
+  onChanged: () => void;
+}
+
+type LineFilter = 'all' | 'uncounted' | 'variances';
+
+const formatMoney = (value: number) => `${value < 0 ? '-' : ''}$${Math.abs(value).toFixed(2)}`;
+
+const StocktakeSession: React.FC<StocktakeSessionProps> = ({ stocktake, currentUserId, onChanged }) => {
+  const { toast } = useToast();
+  const [lines, setLines] = useState<StocktakeLineRow[]>([]);
+  const [drafts, setDrafts] = useState<Record<string, string>>({});
+  const [filter, setFilter] = useState<LineFilter>('all');
+  const [barcode, setBarcode] = useState('');
+  const [showScanner, setShowScanner] = useState(false);
+  const [approving, setApproving] = useState(false);
+  const scanInputRef = useRef<HTMLInputElement>(null);
+
+  const isOpen = stocktake.status === 'counting';
+
+  const loadLines = useCallback(async () => {
+    try {
+      setLines(await repositories.stocktakeLines.listForStocktake(stocktake.id));
+      setDrafts({});
+    } catch (error) {
+      console.error('❌ Error loading stocktake lines:', error);
+      toast({ title: 'Error', description: (error as Error).message || 'Failed to load stocktake', variant: 'destructive' });
+    }
+  }, [stocktake.id, toast]);
+
+  useEffect(() => {
+    loadLines();
+  }, [loadLines]);
+
+  const saveLine = async (line: StocktakeLineRow, changes: Partial<StocktakeLineRow>) => {
+    const stamped = 'counted_quantity' in changes
+      ? { ...changes, counted_by: currentUserId || null, counted_at: new Date().toISOString() }
+      : changes;
+    setLines(prev => prev.map(row => (row.id === line.id ? { ...row, ...stamped } : row)));
+    try {
+      await repositories.stocktakeLines.update(line.id, stamped);
+    } catch (error) {
+      console.error('❌ Error saving count:', error);
+      toast({ title: 'Error', description: (error as Error).message || 'Failed to save count', variant: 'destructive' });
+      await loadLines();
+    }
+  };
+
+  const commitDraft = (line: StocktakeLineRow) => {
+    const value = drafts[line.id];
+    if (value === undefined) return;
+    setDrafts(prev => {
+      const next = { ...prev };
+      delete next[line.id];
+      return next;
+    });
+    const counted = value.trim() === '' ? null : Math.max(0, parseInt(value) || 0);
+    if (counted === (line.counted_quantity ?? null)) return;
+    saveLine(line, { counted_quantity: counted });
+  };
+
+  // Each scan is one unit of that item
+  const handleScan = (code: string) => {
+    const line = findLineByBarcode(lines, code);
+    if (!line) {
+      toast({ title: 'Not on this Stocktake', description: `Nothing with barcode ${code} is being counted here`, variant: 'destructive' });
+      return;
+    }
+    const counted = (line.counted_quantity || 0) + 1;
+    saveLine(line, { counted_quantity: counted });
+    toast({ title: line.item_name, description: `Counted ${counted}` });
+  };
+
+  const handleBarcodeEntered = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!barcode.trim()) return;
+    handleScan(barcode);
+    setBarcode('');
+    scanInputRef.current?.focus();
+  };
+
+  const summary = summariseStocktake(lines);
+
+  const handleApprove = async () => {
+    if (summary.missingReasons > 0) {
+      toast({ title: 'Reasons Needed', description: `Give a reason for ${summary.missingReasons} variance${summary.missingReasons === 1 ? '' : 's'}`, variant: 'destructive' });
+      return;
+    }
+    const uncounted = summary.lines - summary.counted;
+    if (!confirm(`Approve ${stocktake.title}? ${summary.varianceLines} adjustment${summary.varianceLines === 1 ? '' : 's'} worth ${formatMoney(summary.valueImpact)} will be posted to stock.${uncounted > 0 ? ` ${uncounted} uncounted item${uncounted === 1 ? '' : 's'} will be left as they are.` : ''}`)) return;
+
+    setApproving(true);
+    try {
+      const posted = await repositories.stocktakes.approve(stocktake.id);
+      toast({ title: 'Stocktake Approved', description: `${posted} stock adjustment${posted === 1 ? '' : 's'} posted` });
+      onChanged();
+    } catch (error) {
+      console.error('❌ Error approving stocktake:', error);
+      toast({ title: 'Error', description: (error as Error).message || 'Failed to approve stocktake', variant: 'destructive' });
+    } finally {
+      setApproving(false);
+    }
+  };
+
+  const handleCancel = async () => {
+    if (!confirm(`Cancel ${stocktake.title}? Nothing will be posted to stock.`)) return;
+    try {
+      await repositories.stocktakes.update(stocktake.id, { status: 'cancelled' });
+      onChanged();
+    } catch (error) {
+      console.error('❌ Error cancelling stocktake:', error);
+      toast({ title: 'Error', description: (error as Error).message || 'Failed to cancel stocktake', variant: 'destructive' });
+    }
+  };
+
+  const visible = lines.filter(line => {
+    const variance = lineVariance(line);
+    if (filter === 'uncounted') return variance === null;
+    if (filter === 'variances') return variance !== null && variance !== 0;
+    return true;
+  });
+
+  return (
+    <Card>
+      <CardHeader className="space-y-3">
+        <div className="flex flex-wrap items-center justify-between gap-2">
+          <div>
+            <CardTitle className="text-base flex items-center gap-2">
+              {stocktake.title}
+              <Badge variant="outline">{stocktake.status === 'counting' ? 'Counting' : stocktake.status === 'approved' ? 'Approved' : 'Cancelled'}</Badge>
+            </CardTitle>
+            <p className="text-xs text-gray-500 mt-1">
+              {describeScope(stocktake.item_type, stocktake.category)} · started {new Date(stocktake.created_at).toLocaleString()}
+              {stocktake.approved_at && ` · approved ${new Date(stocktake.approved_at).toLocaleString()}`}
+            </p>
+          </div>
+          {isOpen && (
+            <div className="flex gap-2">
+              <Button size="sm" variant="outline" onClick={handleCancel}>
+                <XCircle className="h-4 w-4 mr-1" />
+                Cancel
+              </Button>
+              <Button size="sm" onClick={handleApprove} disabled={approving || summary.counted === 0}>
+                <CheckCircle className="h-4 w-4 mr-1" />
+                {approving ? 'Approving...' : 'Approve & Post'}
+              </Button>
+            </div>
+          )}
+        </div>
+
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-2 text-sm">
+          <div className="p-2 bg-gray-50 rounded">
+            <div className="text-xs text-gray-500">Counted</div>
+            <div className="font-bold">{summary.counted} / {summary.lines}</div>
+          </div>
+          <div className="p-2 bg-gray-50 rounded">
+            <div className="text-xs text-gray-500">Variances</div>
+            <div className="font-bold">{summary.varianceLines}</div>
+          </div>
+          <div className="p-2 bg-gray-50 rounded">
+            <div className="text-xs text-gray-500">Units over / short</div>
+            <div className="font-bold">
+              <span className="text-green-600">+{summary.unitsOver}</span> / <span className="text-red-600">-{summary.unitsShort}</span>
+            </div>
+          </div>
+          <div className="p-2 bg-gray-50 rounded">
+            <div className="text-xs text-gray-500">Value impact</div>
+            <div className={`font-bold ${summary.valueImpact < 0 ? 'text-red-600' : summary.valueImpact > 0 ? 'text-green-600' : ''}`}>
+              {formatMoney(summary.valueImpact)}
+            </div>
+          </div>
+        </div>
+
+        <div className="flex flex-col sm:flex-row gap-2">
+          {isOpen && (
+            <form onSubmit={handleBarcodeEntered} className="flex gap-2 flex-1">
+              <Input
+                ref={scanInputRef}
+                value={barcode}
+                onChange={(e) => setBarcode(e.target.value)}
+                placeholder="Scan or type a barcode, then Enter"
+              />
+              <Button type="button" variant="outline" onClick={() => setShowScanner(true)}>
+                <ScanLine className="h-4 w-4 mr-1" />
+                Camera
+              </Button>
+            </form>
+          )}
+          <Select value={filter} onValueChange={(value) => setFilter(value as LineFilter)}>
+            <SelectTrigger className="sm:w-44">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All items</SelectItem>
+              <SelectItem value="uncounted">Not counted yet</SelectItem>
+              <SelectItem value="variances">Variances only</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+      </CardHeader>
+      <CardContent className="overflow-x-auto">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Item</TableHead>
+              <TableHead className="text-right">Expected</TableHead>
+              <TableHead>Counted</TableHead>
+              <TableHead className="text-right">Variance</TableHead>
+              <TableHead className="text-right">Value</TableHead>
+              <TableHead>Reason</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {visible.length === 0 && (
+              <TableRow>
+                <TableCell colSpan={6} className="text-center text-gray-500">Nothing to show</TableCell>
+              </TableRow>
+            )}
+            {visible.map(line => {
+              const variance = lineVariance(line);
+              return (
+                <TableRow key={line.id}>
+                  <TableCell>
+                    {line.item_type === 'prize' ? '🎁' : '⚙️'} {line.item_name}
+                    {line.barcode && <div className="text-xs text-gray-400 font-mono">{line.barcode}</div>}
+                  </TableCell>
+                  <TableCell className="text-right">{line.expected_quantity}</TableCell>
+                  <TableCell>
+                    {isOpen ? (
+                      <Input
+                        type="number"
+                        min="0"
+                        className="w-24 h-8"
+                        value={drafts[line.id] ?? (line.counted_quantity ?? '').toString()}
+                        onChange={(e) => setDrafts(prev => ({ ...prev, [line.id]: e.target.value }))}
+                        onBlur={() => commitDraft(line)}
+                        onKeyDown={(e) => { if (e.key === 'Enter') commitDraft(line); }}
+                      />
+                    ) : (
+                      line.counted_quantity ?? '—'
+                    )}
+                  </TableCell>
+                  <TableCell className={`text-right ${variance ? (variance > 0 ? 'text-green-600' : 'text-red-600') : 'text-gray-500'}`}>
+                    {variance === null ? '—' : variance > 0 ? `+${variance}` : variance}
+                  </TableCell>
+                  <TableCell className="text-right">{variance ? formatMoney(lineValueImpact(line)) : '—'}</TableCell>
+                  <TableCell>
+                    {variance ? (
+                      isOpen ? (
+                        <Select
+                          value={line.reason_code || ''}
+                          onValueChange={(reason) => saveLine(line, { reason_code: reason as StockAdjustmentReason })}
+                        >
+                          <SelectTrigger className={`h-8 w-44 ${line.reason_code ? '' : 'border-orange-400'}`}>
+                            <SelectValue placeholder="Choose a reason" />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {Object.entries(REASON_LABELS).map(([code, label]) => (
+                              <SelectItem key={code} value={code}>{label}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      ) : (
+                        line.reason_code ? REASON_LABELS[line.reason_code] : '—'
+                      )
+                    ) : null}
+                  </TableCell>
+                </TableRow>
+              );
+            })}
+          </TableBody>
+        </Table>
+      </CardContent>
+
+      <AutoBarcodeScanner
+        isOpen={showScanner}
+        onClose={() => setShowScanner(false)}
+        onScan={handleScan}
+      />
+    </Card>
+  );
+};
+
+export default StocktakeSession;
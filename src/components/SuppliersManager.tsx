@@ -0,0 +1,298 @@
+// src/components/SuppliersManager.tsx
+// Suppliers, their contact details and lead times, and the price list of prizes and parts each sells
+import React, { useCallback, useEffect, useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Building2, Plus, Save, Trash2 } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { useAppContext } from '@/contexts/AppContext';
+import { repositories, type StockItemType, type SupplierItemRow, type SupplierRow } from '@/lib/repositories';
+
+interface SuppliersManagerProps {
+  suppliers: SupplierRow[];
+  onChanged: () => void;
+}
+
+const EMPTY_SUPPLIER = { name: '', contact_name: '', email: '', phone: '', address: '', lead_time_days: '7', notes: '' };
+const EMPTY_PRICE = { item_key: '', supplier_sku: '', unit_cost: '', min_order_quantity: '1' };
+
+const SuppliersManager: React.FC<SuppliersManagerProps> = ({ suppliers, onChanged }) => {
+  const { prizes = [], parts = [] } = useAppContext();
+  const { toast } = useToast();
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [form, setForm] = useState(EMPTY_SUPPLIER);
+  const [priceList, setPriceList] = useState<SupplierItemRow[]>([]);
+  const [priceForm, setPriceForm] = useState(EMPTY_PRICE);
+  const [saving, setSaving] = useState(false);
+
+  const selected = suppliers.find(supplier => supplier.id === selectedId) || null;
+
+  const loadPriceList = useCallback(async (supplierId: string) => {
+    try {
+      setPriceList(await repositories.supplierItems.listForSupplier(supplierId));
+    } catch (error) {
+      console.error('❌ Error loading price list:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (!selected) {
+      setForm(EMPTY_SUPPLIER);
+      setPriceList([]);
+      return;
+    }
+    setForm({
+      name: selected.name,
+      contact_name: selected.contact_name || '',
+      email: selected.email || '',
+      phone: selected.phone || '',
+      address: selected.address || '',
+      lead_time_days: String(selected.lead_time_days),
+      notes: selected.notes || ''
+    });
+    loadPriceList(selected.id);
+  }, [selected, loadPriceList]);
+
+  const itemName = (itemType: StockItemType, itemId: string) =>
+    (itemType === 'prize' ? prizes : parts).find(item => item.id === itemId)?.name || 'Removed item';
+
+  const handleSave = async () => {
+    if (!form.name.trim()) {
+      toast({ title: 'Validation Error', description: 'Supplier name is required', variant: 'destructive' });
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const values = {
+        name: form.name.trim(),
+        contact_name: form.contact_name.trim() || null,
+        email: form.email.trim() || null,
+        phone: form.phone.trim() || null,
+        address: form.address.trim() || null,
+        lead_time_days: Math.max(0, parseInt(form.lead_time_days) || 0),
+        notes: form.notes.trim() || null
+      };
+      if (selected) {
+        await repositories.suppliers.update(selected.id, values);
+      } else {
+        const created = await repositories.suppliers.create(values);
+        setSelectedId(created.id);
+      }
+      toast({ title: 'Supplier Saved', description: values.name });
+      onChanged();
+    } catch (error) {
+      console.error('❌ Error saving supplier:', error);
+      toast({ title: 'Error', description: (error as Error).message || 'Failed to save supplier', variant: 'destructive' });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleToggleActive = async (supplier: SupplierRow) => {
+    try {
+      await repositories.suppliers.update(supplier.id, { is_active: !supplier.is_active });
+      onChanged();
+    } catch (error) {
+      console.error('❌ Error updating supplier:', error);
+      toast({ title: 'Error', description: (error as Error).message || 'Failed to update supplier', variant: 'destructive' });
+    }
+  };
+
+  const handleAddPrice = async () => {
+    const [itemType, itemId] = priceForm.item_key.split(':') as [StockItemType, string];
+    const unitCost = parseFloat(priceForm.unit_cost);
+    if (!selected || !itemId || !(unitCost >= 0)) {
+      toast({ title: 'Validation Error', description: 'Choose an item and enter its price', variant: 'destructive' });
+      return;
+    }
+
+    try {
+      // Re-adding an item updates its price rather than listing it twice
+      await repositories.supplierItems.upsert([{
+        supplier_id: selected.id,
+        item_type: itemType,
+        item_id: itemId,
+        supplier_sku: priceForm.supplier_sku.trim() || null,
+        unit_cost: unitCost,
+        min_order_quantity: Math.max(1, parseInt(priceForm.min_order_quantity) || 1)
+      }], 'supplier_id,item_type,item_id');
+      setPriceForm(EMPTY_PRICE);
+      await loadPriceList(selected.id);
+    } catch (error) {
+      console.error('❌ Error saving price:', error);
+      toast({ title: 'Error', description: (error as Error).message || 'Failed to save price', variant: 'destructive' });
+    }
+  };
+
+  const handleRemovePrice = async (row: SupplierItemRow) => {
+    try {
+      await repositories.supplierItems.remove(row.id);
+      setPriceList(prev => prev.filter(item => item.id !== row.id));
+    } catch (error) {
+      console.error('❌ Error removing price:', error);
+      toast({ title: 'Error', description: (error as Error).message || 'Failed to remove price', variant: 'destructive' });
+    }
+  };
+
+  const update = (changes: Partial<typeof EMPTY_SUPPLIER>) => setForm(prev => ({ ...prev, ...changes }));
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-3 gap-4">
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between">
+          <CardTitle className="text-sm flex items-center gap-2">
+            <Building2 className="h-4 w-4" />
+            Suppliers
+          </CardTitle>
+          <Button size="sm" variant="outline" onClick={() => setSelectedId(null)}>
+            <Plus className="h-4 w-4 mr-1" />
+            New
+          </Button>
+        </CardHeader>
+        <CardContent>
+          {suppliers.length === 0 ? (
+            <p className="text-sm text-gray-500">No suppliers yet</p>
+          ) : (
+            <div className="divide-y border rounded">
+              {suppliers.map(supplier => (
+                <button
+                  key={supplier.id}
+                  type="button"
+                  onClick={() => setSelectedId(supplier.id)}
+                  className={`w-full text-left px-3 py-2 text-sm ${supplier.id === selectedId ? 'bg-blue-50' : 'hover:bg-gray-50'}`}
+                >
+                  <div className="font-medium flex items-center gap-2">
+                    {supplier.name}
+                    {!supplier.is_active && <Badge variant="outline">Inactive</Badge>}
+                  </div>
+                  <div className="text-xs text-gray-500">{supplier.lead_time_days} day lead time</div>
+                </button>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card className="lg:col-span-2">
+        <CardHeader>
+          <CardTitle className="text-sm">{selected ? selected.name : 'New Supplier'}</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+            <div>
+              <Label htmlFor="supplier_name">Name</Label>
+              <Input id="supplier_name" value={form.name} onChange={(e) => update({ name: e.target.value })} />
+            </div>
+            <div>
+              <Label htmlFor="supplier_contact">Contact</Label>
+              <Input id="supplier_contact" value={form.contact_name} onChange={(e) => update({ contact_name: e.target.value })} />
+            </div>
+            <div>
+              <Label htmlFor="supplier_email">Email</Label>
+              <Input id="supplier_email" type="email" value={form.email} onChange={(e) => update({ email: e.target.value })} />
+            </div>
+            <div>
+              <Label htmlFor="supplier_phone">Phone</Label>
+              <Input id="supplier_phone" value={form.phone} onChange={(e) => update({ phone: e.target.value })} />
+            </div>
+            <div>
+              <Label htmlFor="supplier_address">Address</Label>
+              <Input id="supplier_address" value={form.address} onChange={(e) => update({ address: e.target.value })} />
+            </div>
+            <div>
+              <Label htmlFor="supplier_lead">Lead Time (days)</Label>
+              <Input id="supplier_lead" type="number" min="0" value={form.lead_time_days} onChange={(e) => update({ lead_time_days: e.target.value })} />
+            </div>
+            <div className="md:col-span-2">
+              <Label htmlFor="supplier_notes">Notes</Label>
+              <Input id="supplier_notes" value={form.notes} onChange={(e) => update({ notes: e.target.value })} />
+            </div>
+          </div>
+          <div className="flex gap-2">
+            <Button onClick={handleSave} disabled={saving}>
+              <Save className="h-4 w-4 mr-1" />
+              {saving ? 'Saving...' : 'Save Supplier'}
+            </Button>
+            {selected && (
+              <Button variant="outline" onClick={() => handleToggleActive(selected)}>
+                {selected.is_active ? 'Mark Inactive' : 'Mark Active'}
+              </Button>
+            )}
+          </div>
+
+          {selected && (
+            <div className="space-y-2">
+              <h4 className="font-medium text-sm">Price List</h4>
+              <div className="grid grid-cols-2 md:grid-cols-5 gap-2">
+                <div className="col-span-2">
+                  <Select value={priceForm.item_key} onValueChange={(item_key) => setPriceForm(prev => ({ ...prev, item_key }))}>
+                    <SelectTrigger>
+                      <SelectValue placeholder="Prize or part" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {prizes.map(prize => <SelectItem key={`prize:${prize.id}`} value={`prize:${prize.id}`}>🎁 {prize.name}</SelectItem>)}
+                      {parts.map(part => <SelectItem key={`part:${part.id}`} value={`part:${part.id}`}>⚙️ {part.name}</SelectItem>)}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <Input
+                  placeholder="Their code"
+                  value={priceForm.supplier_sku}
+                  onChange={(e) => setPriceForm(prev => ({ ...prev, supplier_sku: e.target.value }))}
+                />
+                <Input
+                  type="number"
+                  step="0.01"
+                  min="0"
+                  placeholder="Unit $"
+                  value={priceForm.unit_cost}
+                  onChange={(e) => setPriceForm(prev => ({ ...prev, unit_cost: e.target.value }))}
+                />
+                <div className="flex gap-2">
+                  <Input
+                    type="number"
+                    min="1"
+                    title="Minimum order quantity"
+                    value={priceForm.min_order_quantity}
+                    onChange={(e) => setPriceForm(prev => ({ ...prev, min_order_quantity: e.target.value }))}
+                  />
+                  <Button size="sm" onClick={handleAddPrice} className="h-10">
+                    <Plus className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+              {priceList.length === 0 ? (
+                <p className="text-sm text-gray-500">Nothing on this supplier's price list yet</p>
+              ) : (
+                <div className="divide-y border rounded">
+                  {priceList.map(row => (
+                    <div key={row.id} className="flex items-center justify-between px-3 py-2 text-sm">
+                      <span>
+                        {itemName(row.item_type, row.item_id)}
+                        {row.supplier_sku && <span className="text-gray-500"> · {row.supplier_sku}</span>}
+                        {row.min_order_quantity > 1 && <span className="text-gray-500"> · min {row.min_order_quantity}</span>}
+                      </span>
+                      <div className="flex items-center gap-2">
+                        <span className="font-medium">${Number(row.unit_cost).toFixed(2)}</span>
+                        <Button variant="ghost" size="sm" onClick={() => handleRemovePrice(row)} className="text-red-600">
+                          <Trash2 className="h-3 w-3" />
+                        </Button>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default SuppliersManager;
@@ -0,0 +1,87 @@
+// src/components/ToyCounterEventFields.tsx
+// Counter event picker shown under a toy meter reading: reset, replacement or rollover,
+// plus the old meter's final reading, and what that means for toys dispensed.
+import React from 'react';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { AlertTriangle } from 'lucide-react';
+import { COUNTER_EVENTS, type CounterEvent, type CounterResolution } from '@/lib/toyCounter';
+
+interface ToyCounterEventFieldsProps {
+  event: CounterEvent | null;
+  onEventChange: (event: CounterEvent | null) => void;
+  finalReading: string;
+  onFinalReadingChange: (value: string) => void;
+  resolution: CounterResolution | null;
+}
+
+const NO_EVENT = 'none';
+
+const ToyCounterEventFields: React.FC<ToyCounterEventFieldsProps> = ({
+  event,
+  onEventChange,
+  finalReading,
+  onFinalReadingChange,
+  resolution
+}) => {
+  const needsFinalReading = event === 'reset' || event === 'replacement';
+
+  return (
+    <div className="space-y-2">
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+        <div>
+          <Label className="text-sm">Counter event</Label>
+          <Select
+            value={event || NO_EVENT}
+            onValueChange={(value) => onEventChange(value === NO_EVENT ? null : value as CounterEvent)}
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={NO_EVENT}>No change to the meter</SelectItem>
+              {COUNTER_EVENTS.map(item => (
+                <SelectItem key={item.value} value={item.value}>{item.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          {event && (
+            <p className="text-xs text-gray-500 mt-1">
+              {COUNTER_EVENTS.find(item => item.value === event)?.description}
+            </p>
+          )}
+        </div>
+        {needsFinalReading && (
+          <div>
+            <Label className="text-sm">Old meter final reading *</Label>
+            <Input
+              type="number"
+              min="0"
+              value={finalReading}
+              onChange={(e) => onFinalReadingChange(e.target.value)}
+              placeholder="Last reading before the reset"
+            />
+          </div>
+        )}
+      </div>
+
+      {resolution?.error && (
+        <div className="p-3 bg-red-50 border border-red-200 rounded-lg flex items-start gap-2">
+          <AlertTriangle className="h-4 w-4 text-red-600 mt-0.5 shrink-0" />
+          <p className="text-sm text-red-800">{resolution.error}</p>
+        </div>
+      )}
+      {resolution?.flagReason && (
+        <div className="p-3 bg-amber-50 border border-amber-200 rounded-lg flex items-start gap-2">
+          <AlertTriangle className="h-4 w-4 text-amber-600 mt-0.5 shrink-0" />
+          <p className="text-sm text-amber-800">
+            {resolution.flagReason}. The report will be saved with no toys dispensed and sent for review.
+          </p>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ToyCounterEventFields;
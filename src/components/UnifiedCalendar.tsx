@@ -17,7 +17,7 @@ import {
   format, startOfMonth, endOfMonth, eachDayOfInterval,
   isSameDay, parseISO, addMonths, subMonths, isToday, getDay, startOfWeek, addDays
 } from 'date-fns';
-import { supabase } from '@/lib/supabase';
+import { repositories, type JobRow, type MachineMoveRow, type RunScheduleRow } from '@/lib/repositories';
 import { useAppContext } from '@/contexts/AppContext';
 import { useToast } from '@/hooks/use-toast';
 
@@ -89,36 +89,25 @@ const UnifiedCalendar: React.FC = () => {
     try {
       // Jobs — fetch all jobs with a scheduled_date, filter client-side by month
       // (avoids timestamp vs date string comparison issues in PostgREST)
-      const { data: jobs, error: jobsError } = await supabase
-        .from('jobs')
-        .select('id, title, priority, scheduled_date, status, machine:machines(name, venue:venues(name))')
-        .not('scheduled_date', 'is', null)
-        .neq('archived', true);
-
-      if (jobsError) console.warn('Calendar jobs error:', jobsError.message);
+      let jobs: JobRow[] = [];
+      try {
+        jobs = await repositories.jobs.listScheduled();
+      } catch (e) {
+        console.warn('Calendar jobs error:', (e as Error).message);
+      }
 
       // Run schedules — use same query pattern as the working RunCalendar
-      const { data: runSchedules, error: runsError } = await supabase
-        .from('run_schedules')
-        .select('*, runs(*)')
-        .gte('scheduled_date', startStr)
-        .lte('scheduled_date', endStr)
-        .order('scheduled_date', { ascending: true });
-
-      if (runsError) console.warn('Calendar runs error:', runsError.message);
+      let runSchedules: RunScheduleRow[] = [];
+      try {
+        runSchedules = await repositories.runSchedules.listBetween(startStr, endStr);
+      } catch (e) {
+        console.warn('Calendar runs error:', (e as Error).message);
+      }
 
       // Machine moves — use simple wildcard select, resolve names from context
-      let moves: any[] = [];
+      let moves: MachineMoveRow[] = [];
       try {
-        const { data: movesData, error: movesError } = await supabase
-          .from('machine_moves')
-          .select('*')
-          .not('scheduled_date', 'is', null)
-          .gte('scheduled_date', startStr)
-          .lte('scheduled_date', endStr)
-          .neq('status', 'cancelled');
-        if (!movesError) moves = movesData || [];
-        else console.warn('Calendar moves error:', movesError.message);
+        moves = await repositories.machineMoves.listScheduledBetween(startStr, endStr);
       } catch (e) {
         console.warn('machine_moves table not available yet');
       }
@@ -162,6 +151,7 @@ const UnifiedCalendar: React.FC = () => {
           meta: {
             runId: run.id,
             completed: schedule.completed,
+            rescheduledFrom: schedule.rescheduled_from || null,
             repeat: run.repeat_type || run.schedule_type || null,
           },
         });
@@ -239,23 +229,23 @@ const UnifiedCalendar: React.FC = () => {
           toast({ title: 'Validation', description: 'Please select a machine', variant: 'destructive' });
           return;
         }
-        await supabase.from('jobs').insert([{
+        await repositories.jobs.create({
           title: addFormTitle.trim(),
           description: addFormNotes.trim() || null,
           machine_id: addFormMachineId,
           priority: addFormPriority,
           status: 'pending',
           scheduled_date: new Date(dateStr).toISOString(),
-        }]);
+        });
         toast({ title: 'Job created!' });
       } else {
-        await supabase.from('machine_moves').insert([{
+        await repositories.machineMoves.create({
           type: 'relocation',
           status: 'pending',
           to_venue_id: addFormVenueId || null,
           notes: addFormNotes.trim() || null,
           scheduled_date: dateStr,
-        }]);
+        });
         toast({ title: 'Move scheduled!' });
       }
       setShowAddForm(false);
@@ -273,11 +263,14 @@ const UnifiedCalendar: React.FC = () => {
     try {
       const dateStr = format(newDate, 'yyyy-MM-dd');
       if (event.type === 'job') {
-        await supabase.from('jobs').update({ scheduled_date: new Date(dateStr).toISOString() }).eq('id', event.id);
+        await repositories.jobs.reschedule(event.id, new Date(dateStr).toISOString());
       } else if (event.type === 'run') {
-        await supabase.from('run_schedules').update({ scheduled_date: dateStr }).eq('id', event.id);
+        await repositories.runSchedules.reschedule(
+          { id: event.id, scheduled_date: event.date, rescheduled_from: event.meta?.rescheduledFrom },
+          dateStr
+        );
       } else if (event.type === 'move') {
-        await supabase.from('machine_moves').update({ scheduled_date: dateStr }).eq('id', event.id);
+        await repositories.machineMoves.update(event.id, { scheduled_date: dateStr });
       }
       toast({ title: 'Rescheduled', description: `Moved to ${format(newDate, 'd MMM yyyy')}` });
       setSelectedEvent(null);
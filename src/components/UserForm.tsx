@@ -5,68 +5,84 @@ import { Label } from '@/components/ui/label';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Badge } from '@/components/ui/badge';
-import { Shield, Users, Eye, Wrench, Crown, Loader2 } from 'lucide-react';
+import { Shield, Users, Eye, Wrench, Crown, Loader2, Building2 } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
-import { supabase, supabaseAdmin } from '@/lib/supabase';
+import { createUser } from '@/lib/adminUsers';
+import { buildRoleHierarchy, getManageableRoles } from '@/lib/roleHierarchy';
+import type { RoleRow } from '@/lib/repositories';
 
 interface UserFormProps {
   onUserAdded: (newUser?: any) => void;
   currentUserRole?: string;
+  // Role definitions from the roles table; the built-in hierarchy is used when empty
+  roles?: RoleRow[];
 }
 
-type UserRole = 'super_admin' | 'admin' | 'manager' | 'technician' | 'viewer';
-
 const ROLE_CONFIGS = {
   super_admin: {
     name: 'Super Admin',
     description: 'Complete system access',
     icon: Crown,
-    color: 'bg-purple-100 text-purple-800',
-    canCreateRoles: ['super_admin', 'admin', 'manager', 'technician', 'viewer']
+    color: 'bg-purple-100 text-purple-800'
   },
   admin: {
     name: 'Admin', 
     description: 'Full operational access',
     icon: Shield,
-    color: 'bg-red-100 text-red-800',
-    canCreateRoles: ['manager', 'technician', 'viewer']
+    color: 'bg-red-100 text-red-800'
   },
   manager: {
     name: 'Manager',
     description: 'Operations management',
     icon: Users,
-    color: 'bg-blue-100 text-blue-800',
-    canCreateRoles: ['technician', 'viewer']
+    color: 'bg-blue-100 text-blue-800'
   },
   technician: {
     name: 'Technician',
     description: 'Field maintenance',
     icon: Wrench,
-    color: 'bg-green-100 text-green-800',
-    canCreateRoles: []
+    color: 'bg-green-100 text-green-800'
   },
   viewer: {
     name: 'Viewer',
     description: 'Read-only access',
     icon: Eye,
-    color: 'bg-gray-100 text-gray-800',
-    canCreateRoles: []
+    color: 'bg-gray-100 text-gray-800'
+  },
+  venue_partner: {
+    name: 'Venue Partner',
+    description: 'Own venue statements only',
+    icon: Building2,
+    color: 'bg-amber-100 text-amber-800'
   }
 };
 
-const UserForm: React.FC<UserFormProps> = ({ onUserAdded, currentUserRole = 'admin' }) => {
+// Roles added in the database have no preset icon or colour
+const getRoleConfig = (roleKey: string, roles: RoleRow[]) => {
+  const definition = roles.find(role => role.key === roleKey);
+  const preset = ROLE_CONFIGS[roleKey as keyof typeof ROLE_CONFIGS];
+  return {
+    name: definition?.name || preset?.name || roleKey,
+    description: definition?.description || preset?.description || '',
+    icon: preset?.icon || Users,
+    color: preset?.color || 'bg-gray-100 text-gray-800'
+  };
+};
+
+const UserForm: React.FC<UserFormProps> = ({ onUserAdded, currentUserRole = 'admin', roles = [] }) => {
   const [formData, setFormData] = useState({
     email: '',
     username: '',
     full_name: '',
     password: '',
     confirmPassword: '',
-    role: 'technician' as UserRole
+    role: 'technician'
   });
   const [loading, setLoading] = useState(false);
   const { toast } = useToast();
 
-  const availableRoles = ROLE_CONFIGS[currentUserRole as UserRole]?.canCreateRoles || [];
+  const availableRoles = getManageableRoles(currentUserRole, buildRoleHierarchy(roles));
+  const selectedRole = getRoleConfig(formData.role, roles);
 
   const validateForm = () => {
     if (!formData.email.trim() || !formData.email.includes('@')) {
@@ -125,166 +141,19 @@ const UserForm: React.FC<UserFormProps> = ({ onUserAdded, currentUserRole = 'adm
     try {
       console.log('🚀 Starting user creation with role:', formData.role);
 
-      // Step 1: Create auth user using ADMIN CLIENT
-      console.log('🔐 Creating auth user with admin privileges...');
-      const { data: authData, error: authError } = await supabaseAdmin.auth.admin.createUser({
+      // Creation, role checks and profile setup happen in the admin-users edge function
+      const createdUser = await createUser({
         email: formData.email,
         password: formData.password,
-        email_confirm: true, // Auto-confirm email
-        user_metadata: {
-          username: formData.username,
-          full_name: formData.full_name || formData.username,
-          role: formData.role // Ensure role is set in user_metadata
-        },
-        app_metadata: {
-          role: formData.role, // Also set in app_metadata for additional security
-          created_by: 'admin_panel',
-          created_at: new Date().toISOString()
-        }
+        username: formData.username,
+        full_name: formData.full_name || formData.username,
+        role: formData.role
       });
 
-      if (authError) {
-        console.error('❌ Auth creation error:', authError);
-        
-        // Provide more specific error messages
-        if (authError.message.includes('User not allowed')) {
-          throw new Error('Insufficient permissions to create users. Please contact your administrator.');
-        }
-        if (authError.message.includes('already registered')) {
-          throw new Error('A user with this email address already exists.');
-        }
-        
-        throw new Error(`Failed to create auth user: ${authError.message}`);
-      }
-
-      if (!authData.user) {
-        throw new Error('Auth user creation failed - no user data returned');
-      }
-
-      console.log('✅ Auth user created:', authData.user.email, 'ID:', authData.user.id, 'Role:', formData.role);
-
-      // Step 2: Check if profile already exists and handle accordingly
-      console.log('🔍 Checking if user profile already exists...');
-      const { data: existingProfile } = await supabaseAdmin
-        .from('users')
-        .select('id, email, role')
-        .eq('id', authData.user.id)
-        .single();
+      console.log('✅ User created:', createdUser.email, 'ID:', createdUser.id, 'Role:', formData.role);
 
-      if (existingProfile) {
-        console.log('⚠️ User profile already exists, updating instead...');
-        // Update existing profile
-        const { error: updateError } = await supabaseAdmin
-          .from('users')
-          .update({
-            email: formData.email,
-            username: formData.username,
-            full_name: formData.full_name || formData.username,
-            role: formData.role,
-            is_active: true,
-            updated_at: new Date().toISOString()
-          })
-          .eq('id', authData.user.id);
-
-        if (updateError) {
-          console.error('❌ Profile update error:', updateError);
-          
-          // Clean up auth user if profile update fails
-          try {
-            await supabaseAdmin.auth.admin.deleteUser(authData.user.id);
-            console.log('🧹 Cleaned up auth user after profile update failure');
-          } catch (cleanupError) {
-            console.error('❌ Failed to cleanup auth user:', cleanupError);
-          }
-          
-          throw new Error(`Profile update failed: ${updateError.message}`);
-        }
-        console.log('✅ Profile updated successfully with role:', formData.role);
-      } else {
-        // Create new profile
-        console.log('📝 Creating user profile with data:', {
-          id: authData.user.id,
-          email: formData.email,
-          username: formData.username,
-          full_name: formData.full_name || formData.username,
-          role: formData.role,
-          is_active: true
-        });
-
-        const { error: profileError } = await supabaseAdmin
-          .from('users')
-          .insert([
-            {
-              id: authData.user.id, // Use the auth user's ID
-              email: formData.email,
-              username: formData.username,
-              full_name: formData.full_name || formData.username,
-              role: formData.role, // Make sure role is properly set
-              is_active: true
-            }
-          ]);
-
-        if (profileError) {
-          console.error('❌ Profile creation error:', profileError);
-          
-          // Handle duplicate key error specifically
-          if (profileError.code === '23505' || profileError.message.includes('duplicate key')) {
-            console.log('🔄 Duplicate key detected, attempting to update existing record...');
-            
-            // Try to update the existing record
-            const { error: retryUpdateError } = await supabaseAdmin
-              .from('users')
-              .update({
-                email: formData.email,
-                username: formData.username,
-                full_name: formData.full_name || formData.username,
-                role: formData.role,
-                is_active: true,
-                updated_at: new Date().toISOString()
-              })
-              .eq('id', authData.user.id);
-
-            if (retryUpdateError) {
-              console.error('❌ Retry update error:', retryUpdateError);
-              
-              // Clean up auth user if retry update fails
-              try {
-                await supabaseAdmin.auth.admin.deleteUser(authData.user.id);
-                console.log('🧹 Cleaned up auth user after retry failure');
-              } catch (cleanupError) {
-                console.error('❌ Failed to cleanup auth user:', cleanupError);
-              }
-              
-              throw new Error(`Profile creation/update failed: ${retryUpdateError.message}`);
-            }
-            console.log('✅ Profile updated successfully on retry with role:', formData.role);
-          } else {
-            // Clean up auth user for other profile creation errors
-            try {
-              await supabaseAdmin.auth.admin.deleteUser(authData.user.id);
-              console.log('🧹 Cleaned up auth user after profile creation failure');
-            } catch (cleanupError) {
-              console.error('❌ Failed to cleanup auth user:', cleanupError);
-            }
-            
-            throw new Error(`Profile creation failed: ${profileError.message}`);
-          }
-        } else {
-          console.log('✅ Profile created successfully with role:', formData.role);
-        }
-      }
-
-      console.log('✅ Profile created successfully with role:', formData.role);
-
-      // Step 3: Provide optimistic feedback
       const newUser = {
-        id: authData.user.id,
-        email: formData.email,
-        username: formData.username,
-        full_name: formData.full_name || formData.username,
-        role: formData.role, // Ensure role is included
-        is_active: true,
-        created_at: new Date().toISOString(),
+        ...createdUser,
         email_confirmed: true,
         has_profile: true
       };
@@ -293,7 +162,7 @@ const UserForm: React.FC<UserFormProps> = ({ onUserAdded, currentUserRole = 'adm
 
       toast({
         title: "Success",
-        description: `User ${formData.username} created successfully with role ${ROLE_CONFIGS[formData.role].name}!`,
+        description: `User ${formData.username} created successfully with role ${selectedRole.name}!`,
       });
 
       // Reset form
@@ -424,7 +293,7 @@ const UserForm: React.FC<UserFormProps> = ({ onUserAdded, currentUserRole = 'adm
             <Label htmlFor="role">User Role *</Label>
             <Select 
               value={formData.role} 
-              onValueChange={(value: UserRole) => setFormData({ ...formData, role: value })}
+              onValueChange={(value) => setFormData({ ...formData, role: value })}
               disabled={loading}
             >
               <SelectTrigger>
@@ -432,7 +301,7 @@ const UserForm: React.FC<UserFormProps> = ({ onUserAdded, currentUserRole = 'adm
               </SelectTrigger>
               <SelectContent>
                 {availableRoles.map((roleKey) => {
-                  const role = ROLE_CONFIGS[roleKey as UserRole];
+                  const role = getRoleConfig(roleKey, roles);
                   const IconComponent = role.icon;
                   return (
                     <SelectItem key={roleKey} value={roleKey}>
@@ -449,11 +318,13 @@ const UserForm: React.FC<UserFormProps> = ({ onUserAdded, currentUserRole = 'adm
 
           <div className="p-3 bg-gray-50 rounded-lg">
             <div className="flex items-center gap-2 mb-2">
-              {React.createElement(ROLE_CONFIGS[formData.role].icon, { className: "h-4 w-4" })}
-              <span className="font-medium">{ROLE_CONFIGS[formData.role].name}</span>
-              <Badge className={ROLE_CONFIGS[formData.role].color}>
-                {ROLE_CONFIGS[formData.role].description}
-              </Badge>
+              {React.createElement(selectedRole.icon, { className: "h-4 w-4" })}
+              <span className="font-medium">{selectedRole.name}</span>
+              {selectedRole.description && (
+                <Badge className={selectedRole.color}>
+                  {selectedRole.description}
+                </Badge>
+              )}
             </div>
             <p className="text-sm text-gray-600">
               {formData.role === 'technician' && 
@@ -5,11 +5,20 @@ import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@
 import { Badge } from '@/components/ui/badge';
 import { Input } from '@/components/ui/input';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
-import { Trash2, Users, Plus, Search, Shield, Crown, Eye, Wrench, UserCheck, UserX, Loader2 } from 'lucide-react';
+import { Trash2, Users, Plus, Search, Shield, Crown, Eye, Wrench, UserCheck, UserX, Loader2, KeyRound, Building2 } from 'lucide-react';
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
+import { useAppContext } from '@/contexts/AppContext';
 import { useToast } from '@/hooks/use-toast';
-import { supabase, supabaseAdmin } from '@/lib/supabase';
+import { supabase } from '@/lib/supabase';
+import { changeUserRole, cleanupOrphanedUsers, deleteUser as deleteUserAccount, resetUserPassword, setUserActive } from '@/lib/adminUsers';
+import { buildRoleHierarchy, canManageRole, getManageableRoles } from '@/lib/roleHierarchy';
+import { repositories, type RoleRow } from '@/lib/repositories';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import UserForm from './UserForm';
 import ConfirmDeleteDialog from './ConfirmDeleteDialog';
+import RolePermissionsManager from './RolePermissionsManager';
 
 interface User {
   id: string;
@@ -57,6 +66,12 @@ const ROLE_CONFIGS = {
     icon: Eye,
     color: 'bg-gray-100 text-gray-800',
     description: 'Read-only access'
+  },
+  venue_partner: {
+    name: 'Venue Partner',
+    icon: Building2,
+    color: 'bg-amber-100 text-amber-800',
+    description: 'Own venue statements only'
   }
 };
 
@@ -69,14 +84,43 @@ const UsersManager: React.FC<UsersManagerProps> = ({ currentUserRole, hasPermiss
   const [searchTerm, setSearchTerm] = useState('');
   const [roleFilter, setRoleFilter] = useState<string>('all');
   const [statusFilter, setStatusFilter] = useState<string>('all');
+  const [passwordUser, setPasswordUser] = useState<User | null>(null);
+  const [newPassword, setNewPassword] = useState('');
+  const [savingPassword, setSavingPassword] = useState(false);
+  const [roles, setRoles] = useState<RoleRow[]>([]);
+  const [venueLinkUser, setVenueLinkUser] = useState<User | null>(null);
+  const [linkedVenueIds, setLinkedVenueIds] = useState<string[]>([]);
+  const [savingVenueLinks, setSavingVenueLinks] = useState(false);
+  const { venues = [] } = useAppContext();
   const { toast } = useToast();
 
   const canManageUsers = hasPermission('manage_users');
+  const canDeleteUsers = hasPermission('delete_users');
   const canViewUsers = hasPermission('view_users');
+  const canManageRoles = hasPermission('manage_roles');
+  const roleHierarchy = buildRoleHierarchy(roles);
+  const assignableRoles = getManageableRoles(currentUserRole, roleHierarchy);
+  const canManageUserRole = (role?: string) => canManageRole(currentUserRole, role, roleHierarchy);
+
+  // Roles added in the database have no preset icon or colour
+  const getRoleConfig = (role: string) => {
+    const definition = roles.find(item => item.key === role);
+    const preset = ROLE_CONFIGS[role as keyof typeof ROLE_CONFIGS];
+    return {
+      name: definition?.name || preset?.name || role,
+      icon: preset?.icon || Users,
+      color: preset?.color || 'bg-gray-100 text-gray-800'
+    };
+  };
+
+  // Venue-scoped roles see only the venues linked to them, so they need a venue picker
+  const isVenueScoped = (role?: string) =>
+    !!role && (roles.find(item => item.key === role)?.venue_scoped ?? role === 'venue_partner');
 
   useEffect(() => {
     if (canViewUsers) {
       fetchAllUsers();
+      fetchRoles();
     }
   }, [canViewUsers]);
 
@@ -114,6 +158,15 @@ const UsersManager: React.FC<UsersManagerProps> = ({ currentUserRole, hasPermiss
     }
   };
 
+  const fetchRoles = async () => {
+    try {
+      setRoles(await repositories.roles.listAll());
+    } catch (error) {
+      // Built-in role names and hierarchy still apply until the roles table exists
+      console.warn('⚠️ Could not load roles:', error);
+    }
+  };
+
   const filterUsers = () => {
     let filtered = users;
 
@@ -157,13 +210,7 @@ const UsersManager: React.FC<UsersManagerProps> = ({ currentUserRole, hasPermiss
     );
 
     try {
-      // Use admin client for updating user status to bypass RLS
-      const { error } = await supabaseAdmin
-        .from('users')
-        .update({ is_active: newStatus })
-        .eq('id', user.id);
-
-      if (error) throw error;
+      await setUserActive(user.id, newStatus);
 
       toast({
         title: "Success",
@@ -188,8 +235,103 @@ const UsersManager: React.FC<UsersManagerProps> = ({ currentUserRole, hasPermiss
     }
   };
 
+  const handleChangeRole = async (user: User, role: string) => {
+    if (role === user.role) return;
+
+    // Optimistic update
+    setUsers(prevUsers => prevUsers.map(u => (u.id === user.id ? { ...u, role } : u)));
+
+    try {
+      await changeUserRole(user.id, role);
+      toast({
+        title: "Success",
+        description: `${user.username || user.email} is now ${getRoleConfig(role).name}`,
+      });
+    } catch (error) {
+      console.error('❌ Error changing user role:', error);
+      setUsers(prevUsers => prevUsers.map(u => (u.id === user.id ? { ...u, role: user.role } : u)));
+      toast({
+        title: "Error",
+        description: (error as Error).message || "Failed to change role",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleResetPassword = async () => {
+    if (!passwordUser) return;
+
+    if (newPassword.length < 6) {
+      toast({
+        title: "Validation Error",
+        description: "Password must be at least 6 characters",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setSavingPassword(true);
+    try {
+      await resetUserPassword(passwordUser.id, newPassword);
+      toast({
+        title: "Password Reset",
+        description: `New password set for ${passwordUser.username || passwordUser.email}`,
+      });
+      setPasswordUser(null);
+      setNewPassword('');
+    } catch (error) {
+      console.error('❌ Error resetting password:', error);
+      toast({
+        title: "Error",
+        description: (error as Error).message || "Failed to reset password",
+        variant: "destructive",
+      });
+    } finally {
+      setSavingPassword(false);
+    }
+  };
+
+  const openVenueLinks = async (user: User) => {
+    setVenueLinkUser(user);
+    setLinkedVenueIds([]);
+    try {
+      const links = await repositories.venuePartnerLinks.listForUser(user.id);
+      setLinkedVenueIds(links.map(link => link.venue_id));
+    } catch (error) {
+      console.error('❌ Error loading venue links:', error);
+      toast({
+        title: "Error",
+        description: (error as Error).message || "Failed to load linked venues",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleSaveVenueLinks = async () => {
+    if (!venueLinkUser) return;
+
+    setSavingVenueLinks(true);
+    try {
+      await repositories.venuePartnerLinks.replaceForUser(venueLinkUser.id, linkedVenueIds);
+      toast({
+        title: "Venues Updated",
+        description: `${venueLinkUser.username || venueLinkUser.email} can see ${linkedVenueIds.length} venue(s)`,
+      });
+      setVenueLinkUser(null);
+    } catch (error) {
+      console.error('❌ Error saving venue links:', error);
+      toast({
+        title: "Error",
+        description: (error as Error).message || "Failed to save linked venues",
+        variant: "destructive",
+      });
+    } finally {
+      setSavingVenueLinks(false);
+    }
+  };
+
   const handleDeleteUser = async () => {
-    if (!deleteUser || !canManageUsers) return;
+    if (!deleteUser || !canDeleteUsers) return;
 
     const userToDelete = deleteUser;
 
@@ -203,47 +345,20 @@ const UsersManager: React.FC<UsersManagerProps> = ({ currentUserRole, hasPermiss
     try {
       console.log('🗑️ Deleting user:', userToDelete.email, 'ID:', userToDelete.id);
 
-      // Step 1: Delete from profile table using ADMIN CLIENT
-      console.log('📝 Deleting user profile...');
-      const { error: profileError } = await supabaseAdmin
-        .from('users')
-        .delete()
-        .eq('id', userToDelete.id);
+      const result = await deleteUserAccount(userToDelete.id);
 
-      if (profileError) {
-        console.error('❌ Profile deletion error:', profileError);
-        // Continue anyway to try auth deletion
-      } else {
-        console.log('✅ Profile deleted successfully');
-      }
+      if (result.partial) {
+        console.log('⚠️ Profile was deleted but auth deletion failed:', result.message);
 
-      // Step 2: Delete from Supabase Auth using ADMIN CLIENT
-      console.log('🔐 Deleting auth user...');
-      const { error: authError } = await supabaseAdmin.auth.admin.deleteUser(
-        userToDelete.id
-      );
+        // Remove from state anyway since profile is gone
+        setUsers(prevUsers => prevUsers.filter(u => u.id !== userToDelete.id));
 
-      if (authError) {
-        console.error('❌ Auth deletion error:', authError);
-        
-        // If profile was deleted but auth failed, that's still partial success
-        if (!profileError) {
-          console.log('⚠️ Profile was deleted but auth deletion failed');
-          
-          // Remove from state anyway since profile is gone
-          setUsers(prevUsers => prevUsers.filter(u => u.id !== userToDelete.id));
-          
-          toast({
-            title: "Partial Success",
-            description: "User profile deleted successfully. Auth record may need manual cleanup.",
-            variant: "default",
-          });
-          return;
-        } else {
-          throw new Error(`Both profile and auth deletion failed: ${authError.message}`);
-        }
-      } else {
-        console.log('✅ Auth user deleted successfully');
+        toast({
+          title: "Partial Success",
+          description: "User profile deleted successfully. Auth record may need manual cleanup.",
+          variant: "default",
+        });
+        return;
       }
 
       // Complete success - remove from state
@@ -294,54 +409,15 @@ const UsersManager: React.FC<UsersManagerProps> = ({ currentUserRole, hasPermiss
     try {
       console.log('🧹 Starting cleanup of orphaned records...');
       
-      // Get all users from the database
-      const { data: dbUsers, error: dbError } = await supabaseAdmin
-        .from('users')
-        .select('id, email');
-  
-      if (dbError) {
-        console.error('❌ Error fetching database users:', dbError);
-        return;
-      }
-  
-      // Get all auth users
-      const { data: authUsers, error: authError } = await supabaseAdmin.auth.admin.listUsers();
-  
-      if (authError) {
-        console.error('❌ Error fetching auth users:', authError);
-        return;
-      }
-  
-      const authUserIds = authUsers.users.map(user => user.id);
-      
-      // Find orphaned profile records (exist in database but not in auth)
-      const orphanedProfiles = dbUsers?.filter(dbUser => 
-        !authUserIds.includes(dbUser.id)
-      ) || [];
-  
-      if (orphanedProfiles.length > 0) {
-        console.log(`🗑️ Found ${orphanedProfiles.length} orphaned profile records`);
-        
-        for (const profile of orphanedProfiles) {
-          console.log(`🗑️ Removing orphaned profile: ${profile.email}`);
-          
-          const { error: deleteError } = await supabaseAdmin
-            .from('users')
-            .delete()
-            .eq('id', profile.id);
-            
-          if (deleteError) {
-            console.error(`❌ Error deleting orphaned profile ${profile.email}:`, deleteError);
-          } else {
-            console.log(`✅ Deleted orphaned profile: ${profile.email}`);
-          }
-        }
-        
+      const { removed } = await cleanupOrphanedUsers();
+
+      if (removed > 0) {
+        console.log(`✅ Removed ${removed} orphaned profile records`);
         toast({
           title: "Cleanup Complete",
-          description: `Removed ${orphanedProfiles.length} orphaned profile records`,
+          description: `Removed ${removed} orphaned profile records`,
         });
-        
+
         // Refresh the users list
         fetchAllUsers();
       } else {
@@ -432,216 +508,353 @@ const UsersManager: React.FC<UsersManagerProps> = ({ currentUserRole, hasPermiss
         )}
       </div>
 
-      {/* Filters */}
-      <Card>
-        <CardHeader>
-          <CardTitle className="text-lg">Filters</CardTitle>
-        </CardHeader>
-        <CardContent>
-          <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
-            <div>
-              <label className="text-sm font-medium text-gray-700 mb-1 block">
-                Search
-              </label>
-              <div className="relative">
-                <Search className="h-4 w-4 absolute left-3 top-3 text-gray-400" />
-                <Input
-                  placeholder="Search users..."
-                  value={searchTerm}
-                  onChange={(e) => setSearchTerm(e.target.value)}
-                  className="pl-10"
-                />
+      <Tabs defaultValue="users" className="w-full">
+        {canManageRoles && (
+          <TabsList>
+            <TabsTrigger value="users" className="flex items-center gap-2">
+              <Users className="h-4 w-4" />
+              Users
+            </TabsTrigger>
+            <TabsTrigger value="roles" className="flex items-center gap-2">
+              <Shield className="h-4 w-4" />
+              Roles & Permissions
+            </TabsTrigger>
+          </TabsList>
+        )}
+
+        <TabsContent value="users" className="space-y-6">
+          {/* Filters */}
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-lg">Filters</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+                <div>
+                  <label className="text-sm font-medium text-gray-700 mb-1 block">
+                    Search
+                  </label>
+                  <div className="relative">
+                    <Search className="h-4 w-4 absolute left-3 top-3 text-gray-400" />
+                    <Input
+                      placeholder="Search users..."
+                      value={searchTerm}
+                      onChange={(e) => setSearchTerm(e.target.value)}
+                      className="pl-10"
+                    />
+                  </div>
+                </div>
+                <div>
+                  <label className="text-sm font-medium text-gray-700 mb-1 block">
+                    Role
+                  </label>
+                  <Select value={roleFilter} onValueChange={setRoleFilter}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="all">All Roles</SelectItem>
+                      {(roles.length > 0 ? roles.map(role => role.key) : Object.keys(ROLE_CONFIGS)).map(role => (
+                        <SelectItem key={role} value={role}>
+                          {getRoleConfig(role).name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div>
+                  <label className="text-sm font-medium text-gray-700 mb-1 block">
+                    Status
+                  </label>
+                  <Select value={statusFilter} onValueChange={setStatusFilter}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="all">All Status</SelectItem>
+                      <SelectItem value="active">Active</SelectItem>
+                      <SelectItem value="inactive">Inactive</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="flex items-end">
+                  <Button
+                    variant="outline"
+                    onClick={() => {
+                      setSearchTerm('');
+                      setRoleFilter('all');
+                      setStatusFilter('all');
+                    }}
+                    className="w-full"
+                  >
+                    Clear Filters
+                  </Button>
+                </div>
               </div>
-            </div>
-            <div>
-              <label className="text-sm font-medium text-gray-700 mb-1 block">
-                Role
-              </label>
-              <Select value={roleFilter} onValueChange={setRoleFilter}>
-                <SelectTrigger>
-                  <SelectValue />
-                </SelectTrigger>
-                <SelectContent>
-                  <SelectItem value="all">All Roles</SelectItem>
-                  {Object.entries(ROLE_CONFIGS).map(([role, config]) => (
-                    <SelectItem key={role} value={role}>
-                      {config.name}
-                    </SelectItem>
-                  ))}
-                </SelectContent>
-              </Select>
-            </div>
-            <div>
-              <label className="text-sm font-medium text-gray-700 mb-1 block">
-                Status
-              </label>
-              <Select value={statusFilter} onValueChange={setStatusFilter}>
-                <SelectTrigger>
-                  <SelectValue />
-                </SelectTrigger>
-                <SelectContent>
-                  <SelectItem value="all">All Status</SelectItem>
-                  <SelectItem value="active">Active</SelectItem>
-                  <SelectItem value="inactive">Inactive</SelectItem>
-                </SelectContent>
-              </Select>
-            </div>
-            <div className="flex items-end">
-              <Button
-                variant="outline"
-                onClick={() => {
-                  setSearchTerm('');
-                  setRoleFilter('all');
-                  setStatusFilter('all');
-                }}
-                className="w-full"
-              >
-                Clear Filters
-              </Button>
-            </div>
-          </div>
-        </CardContent>
-      </Card>
-
-      {/* Add User Form */}
-      {showAddForm && canManageUsers && (
-        <UserForm 
-          onUserAdded={handleUserAdded}
-          currentUserRole={currentUserRole}
-        />
-      )}
-
-      {/* Users Table */}
-      <Card>
-        <CardHeader>
-          <CardTitle>
-            All Users ({filteredUsers.length}
-            {users.length !== filteredUsers.length && ` of ${users.length}`})
-          </CardTitle>
-        </CardHeader>
-        <CardContent>
-          {filteredUsers.length === 0 ? (
-            <p className="text-center text-gray-500 py-8">
-              {searchTerm || roleFilter !== 'all' || statusFilter !== 'all'
-                ? 'No users match your filters'
-                : 'No users found'
-              }
-            </p>
-          ) : (
-            <div className="overflow-x-auto">
-              <Table>
-                <TableHeader>
-                  <TableRow>
-                    <TableHead>User</TableHead>
-                    <TableHead>Email</TableHead>
-                    <TableHead>Role</TableHead>
-                    <TableHead>Status</TableHead>
-                    <TableHead>Created</TableHead>
-                    {canManageUsers && <TableHead>Actions</TableHead>}
-                  </TableRow>
-                </TableHeader>
-                <TableBody>
-                  {filteredUsers.map((user) => {
-                    const displayName = user.full_name || user.username || 'N/A';
-                    const roleConfig = user.role ? ROLE_CONFIGS[user.role as keyof typeof ROLE_CONFIGS] : null;
-                    const RoleIcon = roleConfig?.icon || Users;
-                    const createdAt = user.created_at 
-                      ? new Date(user.created_at).toLocaleDateString() 
-                      : 'N/A';
-                    
-                    return (
-                      <TableRow 
-                        key={user.id} 
-                        className={user.deleting ? 'opacity-50 bg-red-50' : ''}
-                      >
-                        <TableCell>
-                          <div className="flex items-center gap-2">
-                            <div className={`p-1 rounded-full ${roleConfig?.color || 'bg-gray-100'}`}>
-                              <RoleIcon className="h-4 w-4" />
-                            </div>
-                            <div>
-                              <div className="font-medium">{displayName}</div>
-                              {user.username && user.username !== displayName && (
-                                <div className="text-sm text-gray-500">@{user.username}</div>
-                              )}
-                              {user.deleting && (
-                                <div className="text-xs text-red-600 font-medium flex items-center gap-1">
-                                  <Loader2 className="h-3 w-3 animate-spin" />
-                                  Deleting...
+            </CardContent>
+          </Card>
+
+          {/* Add User Form */}
+          {showAddForm && canManageUsers && (
+            <UserForm 
+              onUserAdded={handleUserAdded}
+              currentUserRole={currentUserRole}
+              roles={roles}
+            />
+          )}
+
+          {/* Users Table */}
+          <Card>
+            <CardHeader>
+              <CardTitle>
+                All Users ({filteredUsers.length}
+                {users.length !== filteredUsers.length && ` of ${users.length}`})
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              {filteredUsers.length === 0 ? (
+                <p className="text-center text-gray-500 py-8">
+                  {searchTerm || roleFilter !== 'all' || statusFilter !== 'all'
+                    ? 'No users match your filters'
+                    : 'No users found'
+                  }
+                </p>
+              ) : (
+                <div className="overflow-x-auto">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>User</TableHead>
+                        <TableHead>Email</TableHead>
+                        <TableHead>Role</TableHead>
+                        <TableHead>Status</TableHead>
+                        <TableHead>Created</TableHead>
+                        {canManageUsers && <TableHead>Actions</TableHead>}
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {filteredUsers.map((user) => {
+                        const displayName = user.full_name || user.username || 'N/A';
+                        const roleConfig = user.role ? getRoleConfig(user.role) : null;
+                        const RoleIcon = roleConfig?.icon || Users;
+                        const createdAt = user.created_at 
+                          ? new Date(user.created_at).toLocaleDateString() 
+                          : 'N/A';
+                        
+                        return (
+                          <TableRow 
+                            key={user.id} 
+                            className={user.deleting ? 'opacity-50 bg-red-50' : ''}
+                          >
+                            <TableCell>
+                              <div className="flex items-center gap-2">
+                                <div className={`p-1 rounded-full ${roleConfig?.color || 'bg-gray-100'}`}>
+                                  <RoleIcon className="h-4 w-4" />
                                 </div>
+                                <div>
+                                  <div className="font-medium">{displayName}</div>
+                                  {user.username && user.username !== displayName && (
+                                    <div className="text-sm text-gray-500">@{user.username}</div>
+                                  )}
+                                  {user.deleting && (
+                                    <div className="text-xs text-red-600 font-medium flex items-center gap-1">
+                                      <Loader2 className="h-3 w-3 animate-spin" />
+                                      Deleting...
+                                    </div>
+                                  )}
+                                </div>
+                              </div>
+                            </TableCell>
+                            <TableCell>{user.email}</TableCell>
+                            <TableCell>
+                              {canManageUsers && !user.deleting && canManageUserRole(user.role) ? (
+                                <Select value={user.role} onValueChange={(role) => handleChangeRole(user, role)}>
+                                  <SelectTrigger className="h-8 w-36">
+                                    <SelectValue />
+                                  </SelectTrigger>
+                                  <SelectContent>
+                                    {assignableRoles.map(role => (
+                                      <SelectItem key={role} value={role}>
+                                        {getRoleConfig(role).name}
+                                      </SelectItem>
+                                    ))}
+                                  </SelectContent>
+                                </Select>
+                              ) : user.role ? (
+                                <Badge className={roleConfig?.color || 'bg-gray-100 text-gray-800'}>
+                                  {roleConfig?.name || user.role}
+                                </Badge>
+                              ) : (
+                                <Badge variant="outline">
+                                  No Role
+                                </Badge>
                               )}
-                            </div>
-                          </div>
-                        </TableCell>
-                        <TableCell>{user.email}</TableCell>
-                        <TableCell>
-                          {user.role ? (
-                            <Badge className={roleConfig?.color || 'bg-gray-100 text-gray-800'}>
-                              {roleConfig?.name || user.role}
-                            </Badge>
-                          ) : (
-                            <Badge variant="outline">
-                              No Role
-                            </Badge>
-                          )}
-                        </TableCell>
-                        <TableCell>
-                          <div className="flex items-center gap-2">
-                            <Badge variant={user.is_active ? 'default' : 'destructive'}>
-                              {user.is_active ? 'Active' : 'Inactive'}
-                            </Badge>
-                            {canManageUsers && !user.deleting && (
-                              <Button
-                                variant="ghost"
-                                size="sm"
-                                onClick={() => handleToggleUserStatus(user)}
-                                className="h-6 w-6 p-0"
-                                title={user.is_active ? 'Deactivate user' : 'Activate user'}
-                              >
-                                {user.is_active ? (
-                                  <UserX className="h-3 w-3 text-red-600" />
-                                ) : (
-                                  <UserCheck className="h-3 w-3 text-green-600" />
+                            </TableCell>
+                            <TableCell>
+                              <div className="flex items-center gap-2">
+                                <Badge variant={user.is_active ? 'default' : 'destructive'}>
+                                  {user.is_active ? 'Active' : 'Inactive'}
+                                </Badge>
+                                {canManageUsers && !user.deleting && (
+                                  <Button
+                                    variant="ghost"
+                                    size="sm"
+                                    onClick={() => handleToggleUserStatus(user)}
+                                    className="h-6 w-6 p-0"
+                                    title={user.is_active ? 'Deactivate user' : 'Activate user'}
+                                  >
+                                    {user.is_active ? (
+                                      <UserX className="h-3 w-3 text-red-600" />
+                                    ) : (
+                                      <UserCheck className="h-3 w-3 text-green-600" />
+                                    )}
+                                  </Button>
                                 )}
-                              </Button>
+                              </div>
+                            </TableCell>
+                            <TableCell>{createdAt}</TableCell>
+                            {canManageUsers && (
+                              <TableCell>
+                                <div className="flex items-center gap-2">
+                                  {isVenueScoped(user.role) && (
+                                    <Button
+                                      variant="outline"
+                                      size="sm"
+                                      onClick={() => openVenueLinks(user)}
+                                      className="h-8 w-8 p-0"
+                                      disabled={user.deleting}
+                                      title="Linked venues"
+                                    >
+                                      <Building2 className="h-3 w-3" />
+                                    </Button>
+                                  )}
+                                  <Button
+                                    variant="outline"
+                                    size="sm"
+                                    onClick={() => setPasswordUser(user)}
+                                    className="h-8 w-8 p-0"
+                                    disabled={user.deleting || !canManageUserRole(user.role)}
+                                    title="Reset password"
+                                  >
+                                    <KeyRound className="h-3 w-3" />
+                                  </Button>
+                                  <Button
+                                    variant="outline"
+                                    size="sm"
+                                    onClick={() => setDeleteUser(user)}
+                                    className="text-red-600 hover:text-red-700 h-8 w-8 p-0"
+                                    disabled={user.deleting || !canDeleteUsers || !canManageUserRole(user.role)}
+                                    title={
+                                      !canDeleteUsers
+                                        ? 'You need the delete_users permission'
+                                        : !canManageUserRole(user.role)
+                                        ? `Cannot delete ${user.role ? getRoleConfig(user.role).name : 'this user'}`
+                                        : 'Delete user'
+                                    }
+                                  >
+                                    {user.deleting ? (
+                                      <Loader2 className="h-3 w-3 animate-spin" />
+                                    ) : (
+                                      <Trash2 className="h-3 w-3" />
+                                    )}
+                                  </Button>
+                                </div>
+                              </TableCell>
                             )}
-                          </div>
-                        </TableCell>
-                        <TableCell>{createdAt}</TableCell>
-                        {canManageUsers && (
-                          <TableCell>
-                            <Button
-                              variant="outline"
-                              size="sm"
-                              onClick={() => setDeleteUser(user)}
-                              className="text-red-600 hover:text-red-700 h-8 w-8 p-0"
-                              disabled={
-                                user.deleting || 
-                                (user.role === 'super_admin' && currentUserRole !== 'super_admin')
-                              }
-                              title={
-                                user.role === 'super_admin' && currentUserRole !== 'super_admin'
-                                  ? 'Cannot delete Super Admin'
-                                  : 'Delete user'
-                              }
-                            >
-                              {user.deleting ? (
-                                <Loader2 className="h-3 w-3 animate-spin" />
-                              ) : (
-                                <Trash2 className="h-3 w-3" />
-                              )}
-                            </Button>
-                          </TableCell>
-                        )}
-                      </TableRow>
-                    );
-                  })}
-                </TableBody>
-              </Table>
-            </div>
-          )}
-        </CardContent>
-      </Card>
+                          </TableRow>
+                        );
+                      })}
+                    </TableBody>
+                  </Table>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </TabsContent>
+
+        {canManageRoles && (
+          <TabsContent value="roles">
+            <RolePermissionsManager users={users} onRolesChanged={setRoles} />
+          </TabsContent>
+        )}
+      </Tabs>
+
+      {/* Reset Password Dialog */}
+      <Dialog
+        open={!!passwordUser}
+        onOpenChange={(open) => {
+          if (!open) {
+            setPasswordUser(null);
+            setNewPassword('');
+          }
+        }}
+      >
+        <DialogContent className="max-w-sm">
+          <DialogHeader>
+            <DialogTitle>Reset Password</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="new-password">
+              New password for {passwordUser?.full_name || passwordUser?.username || passwordUser?.email}
+            </Label>
+            <Input
+              id="new-password"
+              type="password"
+              value={newPassword}
+              onChange={(e) => setNewPassword(e.target.value)}
+              placeholder="At least 6 characters"
+            />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setPasswordUser(null)} disabled={savingPassword}>
+              Cancel
+            </Button>
+            <Button onClick={handleResetPassword} disabled={savingPassword}>
+              {savingPassword && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Reset Password
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Linked Venues Dialog */}
+      <Dialog open={!!venueLinkUser} onOpenChange={(open) => !open && setVenueLinkUser(null)}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>
+              Linked Venues for {venueLinkUser?.full_name || venueLinkUser?.username || venueLinkUser?.email}
+            </DialogTitle>
+          </DialogHeader>
+          <p className="text-sm text-gray-600">
+            This user can only see statements for the venues ticked here.
+          </p>
+          <div className="max-h-72 overflow-y-auto space-y-2 border rounded-md p-3">
+            {venues.length === 0 ? (
+              <p className="text-sm text-gray-500">No venues found</p>
+            ) : venues.map(venue => (
+              <label key={venue.id} className="flex items-center gap-2 text-sm">
+                <Checkbox
+                  checked={linkedVenueIds.includes(venue.id)}
+                  onCheckedChange={(checked) => setLinkedVenueIds(prev =>
+                    checked === true ? [...prev, venue.id] : prev.filter(id => id !== venue.id)
+                  )}
+                  disabled={savingVenueLinks}
+                />
+                {venue.name}
+              </label>
+            ))}
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setVenueLinkUser(null)} disabled={savingVenueLinks}>
+              Cancel
+            </Button>
+            <Button onClick={handleSaveVenueLinks} disabled={savingVenueLinks}>
+              {savingVenueLinks && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Save Venues
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
 
       {/* Delete Confirmation Dialog */}
       <ConfirmDeleteDialog
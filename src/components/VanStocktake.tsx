@@ -0,0 +1,169 @@
+// src/components/VanStocktake.tsx
+// Counting what's actually in a van; differences go on or come off stock and are logged
+import React, { useEffect, useMemo, useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { ClipboardCheck, Truck } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { useAppContext } from '@/contexts/AppContext';
+import { repositories, type StockLocationRow } from '@/lib/repositories';
+import { countVariances, describeLocation, quantityAt } from '@/lib/stockLocations';
+
+interface VanStocktakeProps {
+  locations: StockLocationRow[];
+  quantities: Map<string, number>;
+  currentUserId?: string;
+  canManage: boolean;
+  onCounted: () => void;
+}
+
+const VanStocktake: React.FC<VanStocktakeProps> = ({ locations, quantities, currentUserId, canManage, onCounted }) => {
+  const { prizes = [] } = useAppContext();
+  const { toast } = useToast();
+  const [vanId, setVanId] = useState('');
+  const [counts, setCounts] = useState<Record<string, string>>({});
+  const [extraPrizeIds, setExtraPrizeIds] = useState<string[]>([]);
+  const [saving, setSaving] = useState(false);
+
+  // Technicians count their own van; stock managers can count any of them
+  const vans = useMemo(() => locations.filter(location =>
+    location.kind === 'vehicle' && (canManage || location.assigned_to === currentUserId)
+  ), [locations, canManage, currentUserId]);
+
+  useEffect(() => {
+    if (vanId && vans.some(van => van.id === vanId)) return;
+    const mine = vans.find(van => van.assigned_to === currentUserId);
+    setVanId(mine?.id || vans[0]?.id || '');
+  }, [vans, vanId, currentUserId]);
+
+  useEffect(() => {
+    setCounts({});
+    setExtraPrizeIds([]);
+  }, [vanId]);
+
+  const expected = useMemo(() => Object.fromEntries(
+    prizes.map(prize => [prize.id, vanId ? quantityAt(quantities, vanId, prize.id) : 0])
+  ), [prizes, quantities, vanId]);
+
+  const listed = prizes.filter(prize => expected[prize.id] > 0 || extraPrizeIds.includes(prize.id));
+  const notListed = prizes.filter(prize => !listed.includes(prize));
+  const variances = countVariances(expected, counts).filter(variance => variance.difference !== 0);
+
+  const handleSubmit = async () => {
+    const counted = countVariances(expected, counts);
+    if (!vanId || counted.length === 0) {
+      toast({ title: 'Nothing Counted', description: 'Enter a count for at least one prize', variant: 'destructive' });
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const changed = await repositories.locationStock.recordCount(
+        vanId,
+        counted.map(({ prize_id, counted: quantity }) => ({ prize_id, counted: quantity }))
+      );
+      toast({
+        title: 'Stocktake Saved',
+        description: changed > 0 ? `${changed} prize${changed === 1 ? '' : 's'} adjusted to match the count` : 'Everything matched'
+      });
+      setCounts({});
+      setExtraPrizeIds([]);
+      onCounted();
+    } catch (error) {
+      console.error('❌ Error saving van stocktake:', error);
+      toast({ title: 'Error', description: (error as Error).message || 'Failed to save stocktake', variant: 'destructive' });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (vans.length === 0) {
+    return (
+      <Card>
+        <CardContent className="py-8 text-center text-sm text-gray-500">
+          {canManage ? 'Add a vehicle location to count van stock' : 'No van is assigned to you'}
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between gap-2">
+        <CardTitle className="text-sm flex items-center gap-2">
+          <Truck className="h-4 w-4" />
+          Van Stocktake
+        </CardTitle>
+        <Select value={vanId} onValueChange={setVanId}>
+          <SelectTrigger className="w-56">
+            <SelectValue placeholder="Choose a van" />
+          </SelectTrigger>
+          <SelectContent>
+            {vans.map(van => <SelectItem key={van.id} value={van.id}>{describeLocation(van)}</SelectItem>)}
+          </SelectContent>
+        </Select>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Prize</TableHead>
+              <TableHead className="text-right">Expected</TableHead>
+              <TableHead>Counted</TableHead>
+              <TableHead className="text-right">Difference</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {listed.length === 0 && (
+              <TableRow>
+                <TableCell colSpan={4} className="text-center text-gray-500">Nothing expected in this van</TableCell>
+              </TableRow>
+            )}
+            {listed.map(prize => {
+              const value = counts[prize.id] ?? '';
+              const difference = value.trim() === '' ? null : Math.max(0, parseInt(value) || 0) - expected[prize.id];
+              return (
+                <TableRow key={prize.id}>
+                  <TableCell>{prize.name}</TableCell>
+                  <TableCell className="text-right">{expected[prize.id]}</TableCell>
+                  <TableCell>
+                    <Input
+                      type="number"
+                      min="0"
+                      className="w-24 h-8"
+                      value={value}
+                      onChange={(e) => setCounts(prev => ({ ...prev, [prize.id]: e.target.value }))}
+                    />
+                  </TableCell>
+                  <TableCell className={`text-right ${difference ? (difference > 0 ? 'text-green-600' : 'text-red-600') : 'text-gray-500'}`}>
+                    {difference === null ? '—' : difference > 0 ? `+${difference}` : difference}
+                  </TableCell>
+                </TableRow>
+              );
+            })}
+          </TableBody>
+        </Table>
+
+        <div className="flex flex-col sm:flex-row gap-2 justify-between">
+          <Select value="" onValueChange={(prizeId) => setExtraPrizeIds(prev => [...prev, prizeId])}>
+            <SelectTrigger className="sm:w-64">
+              <SelectValue placeholder="Found something else? Add it" />
+            </SelectTrigger>
+            <SelectContent>
+              {notListed.map(prize => <SelectItem key={prize.id} value={prize.id}>{prize.name}</SelectItem>)}
+            </SelectContent>
+          </Select>
+          <Button onClick={handleSubmit} disabled={saving || !vanId}>
+            <ClipboardCheck className="h-4 w-4 mr-1" />
+            {saving ? 'Saving...' : `Save Count${variances.length > 0 ? ` (${variances.length} to adjust)` : ''}`}
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default VanStocktake;
@@ -0,0 +1,268 @@
+// src/components/VenueCapacityPlanner.tsx
+// Floor space, floor load and power outlets per venue, and which machines could still go there
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Badge } from '@/components/ui/badge';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Edit, LayoutGrid, Search } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { useAppContext } from '@/contexts/AppContext';
+import { repositories, type MachineMeasurementRow, type VenueCapacityRow } from '@/lib/repositories';
+import { footprintM2, loadCapacityData, placeableMachines, venueUtilisation } from '@/lib/venueCapacity';
+
+interface VenueCapacityPlannerProps {
+  canManage?: boolean;
+}
+
+const EMPTY_PROFILE = {
+  usable_area_m2: '',
+  max_load_kg: '',
+  power_outlets: '',
+  doorway_width_cm: '',
+  doorway_height_cm: '',
+  notes: ''
+};
+
+const toNumber = (value: string) => (value.trim() ? Number(value) : null);
+
+const UsageBar: React.FC<{ label: string; used: number; limit: number | null | undefined; unit: string }> = ({ label, used, limit, unit }) => {
+  const percent = limit ? Math.min((used / limit) * 100, 100) : 0;
+  const over = !!limit && used > limit;
+  return (
+    <div>
+      <div className="flex justify-between text-xs text-gray-600">
+        <span>{label}</span>
+        <span className={over ? 'text-red-600 font-medium' : ''}>
+          {used.toFixed(unit === 'm²' ? 1 : 0)}{limit ? ` / ${Number(limit).toFixed(unit === 'm²' ? 1 : 0)}` : ''} {unit}
+        </span>
+      </div>
+      {limit ? (
+        <div className="h-2 bg-gray-100 rounded mt-1">
+          <div
+            className={`h-2 rounded ${over ? 'bg-red-500' : percent > 85 ? 'bg-orange-400' : 'bg-green-500'}`}
+            style={{ width: `${percent}%` }}
+          />
+        </div>
+      ) : (
+        <p className="text-xs text-gray-400">No limit set</p>
+      )}
+    </div>
+  );
+};
+
+const VenueCapacityPlanner: React.FC<VenueCapacityPlannerProps> = ({ canManage }) => {
+  const { venues, machines } = useAppContext();
+  const { toast } = useToast();
+  const [capacityByVenue, setCapacityByVenue] = useState<Map<string, VenueCapacityRow>>(new Map());
+  const [measurements, setMeasurements] = useState<Map<string, MachineMeasurementRow>>(new Map());
+  const [search, setSearch] = useState('');
+  const [expandedVenueId, setExpandedVenueId] = useState<string | null>(null);
+  const [editingVenueId, setEditingVenueId] = useState<string | null>(null);
+  const [form, setForm] = useState(EMPTY_PROFILE);
+  const [saving, setSaving] = useState(false);
+
+  const loadData = useCallback(async () => {
+    try {
+      const data = await loadCapacityData();
+      setCapacityByVenue(data.capacityByVenue);
+      setMeasurements(data.measurements);
+    } catch (error) {
+      console.error('❌ Error loading venue capacity:', error);
+      toast({ title: 'Error', description: (error as Error).message || 'Failed to load venue capacity', variant: 'destructive' });
+    }
+  }, [toast]);
+
+  useEffect(() => {
+    loadData();
+  }, [loadData]);
+
+  const rows = useMemo(() => {
+    const term = search.trim().toLowerCase();
+    return venues
+      .filter(venue => !term || venue.name.toLowerCase().includes(term))
+      .map(venue => {
+        const capacity = capacityByVenue.get(venue.id) || null;
+        return { venue, capacity, utilisation: venueUtilisation(venue.id, capacity, machines, measurements) };
+      })
+      .sort((a, b) => a.venue.name.localeCompare(b.venue.name));
+  }, [venues, machines, capacityByVenue, measurements, search]);
+
+  const openEditor = (venueId: string) => {
+    const capacity = capacityByVenue.get(venueId);
+    setForm(capacity ? {
+      usable_area_m2: capacity.usable_area_m2?.toString() || '',
+      max_load_kg: capacity.max_load_kg?.toString() || '',
+      power_outlets: capacity.power_outlets?.toString() || '',
+      doorway_width_cm: capacity.doorway_width_cm?.toString() || '',
+      doorway_height_cm: capacity.doorway_height_cm?.toString() || '',
+      notes: capacity.notes || ''
+    } : EMPTY_PROFILE);
+    setEditingVenueId(venueId);
+  };
+
+  const handleSave = async () => {
+    if (!editingVenueId) return;
+    const values = {
+      usable_area_m2: toNumber(form.usable_area_m2),
+      max_load_kg: toNumber(form.max_load_kg),
+      power_outlets: toNumber(form.power_outlets),
+      doorway_width_cm: toNumber(form.doorway_width_cm),
+      doorway_height_cm: toNumber(form.doorway_height_cm)
+    };
+    if (Object.values(values).some(value => value !== null && (isNaN(value) || value < 0))) {
+      toast({ title: 'Validation Error', description: 'Capacity figures must be positive numbers', variant: 'destructive' });
+      return;
+    }
+
+    setSaving(true);
+    try {
+      await repositories.venueCapacity.upsert([{
+        venue_id: editingVenueId,
+        ...values,
+        power_outlets: values.power_outlets === null ? null : Math.floor(values.power_outlets),
+        notes: form.notes.trim() || null,
+        updated_at: new Date().toISOString()
+      }], 'venue_id');
+      toast({ title: 'Success', description: 'Capacity profile saved' });
+      setEditingVenueId(null);
+      await loadData();
+    } catch (error) {
+      console.error('❌ Error saving venue capacity:', error);
+      toast({ title: 'Error', description: (error as Error).message || 'Failed to save capacity profile', variant: 'destructive' });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const editingVenue = venues.find(venue => venue.id === editingVenueId);
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between gap-4 flex-wrap">
+        <div>
+          <h2 className="text-2xl font-bold text-gray-900 flex items-center gap-2">
+            <LayoutGrid className="h-6 w-6" />
+            Venue Capacity
+          </h2>
+          <p className="text-sm text-gray-500 mt-1">Floor space, load and power used by machines, from their measurements</p>
+        </div>
+        <div className="relative w-64">
+          <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-gray-400" />
+          <Input placeholder="Search venues..." value={search} onChange={(e) => setSearch(e.target.value)} className="pl-9" />
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 gap-4">
+        {rows.map(({ venue, capacity, utilisation }) => {
+          const expanded = expandedVenueId === venue.id;
+          const candidates = expanded ? placeableMachines(venue.id, capacity, utilisation, machines, measurements) : [];
+          return (
+            <Card key={venue.id}>
+              <CardHeader className="pb-2 flex flex-row items-start justify-between gap-2">
+                <div className="min-w-0">
+                  <CardTitle className="text-base truncate">{venue.name}</CardTitle>
+                  <p className="text-xs text-gray-500">
+                    {utilisation.machineCount} machine{utilisation.machineCount === 1 ? '' : 's'}
+                    {capacity?.doorway_width_cm ? ` · doorway ${capacity.doorway_width_cm} cm` : ''}
+                  </p>
+                </div>
+                {canManage && (
+                  <Button size="sm" variant="outline" onClick={() => openEditor(venue.id)}>
+                    <Edit className="h-3 w-3" />
+                  </Button>
+                )}
+              </CardHeader>
+              <CardContent className="space-y-3">
+                {!capacity ? (
+                  <p className="text-sm text-gray-500">No capacity profile yet</p>
+                ) : (
+                  <>
+                    <UsageBar label="Floor space" used={utilisation.usedAreaM2} limit={capacity.usable_area_m2} unit="m²" />
+                    <UsageBar label="Floor load" used={utilisation.usedLoadKg} limit={capacity.max_load_kg} unit="kg" />
+                    <UsageBar label="Power outlets" used={utilisation.outletsUsed} limit={capacity.power_outlets} unit="" />
+                  </>
+                )}
+                {utilisation.unmeasured > 0 && (
+                  <Badge variant="outline" className="text-orange-700 border-orange-300">
+                    {utilisation.unmeasured} machine{utilisation.unmeasured === 1 ? '' : 's'} not measured
+                  </Badge>
+                )}
+                {capacity && (
+                  <div>
+                    <Button size="sm" variant="ghost" className="px-0 text-blue-600" onClick={() => setExpandedVenueId(expanded ? null : venue.id)}>
+                      {expanded ? 'Hide' : 'What could still go here?'}
+                    </Button>
+                    {expanded && (
+                      candidates.length === 0 ? (
+                        <p className="text-xs text-gray-500">No measured machine elsewhere would fit</p>
+                      ) : (
+                        <div className="divide-y border rounded max-h-48 overflow-y-auto">
+                          {candidates.map(({ machine, size }) => (
+                            <div key={machine.id} className="px-2 py-1 text-xs flex justify-between gap-2">
+                              <span className="truncate">{machine.name} <span className="text-gray-400">{machine.type}</span></span>
+                              <span className="text-gray-500 shrink-0">
+                                {footprintM2(size)?.toFixed(2)} m²{size.weight_kg ? ` · ${size.weight_kg} kg` : ''}
+                              </span>
+                            </div>
+                          ))}
+                        </div>
+                      )
+                    )}
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          );
+        })}
+      </div>
+
+      <Dialog open={!!editingVenueId} onOpenChange={(open) => !open && setEditingVenueId(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Capacity · {editingVenue?.name}</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-3">
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <Label>Usable Area (m²)</Label>
+                <Input type="number" min="0" step="0.1" value={form.usable_area_m2} onChange={(e) => setForm(prev => ({ ...prev, usable_area_m2: e.target.value }))} />
+              </div>
+              <div>
+                <Label>Max Floor Load (kg)</Label>
+                <Input type="number" min="0" value={form.max_load_kg} onChange={(e) => setForm(prev => ({ ...prev, max_load_kg: e.target.value }))} />
+              </div>
+              <div>
+                <Label>Power Outlets</Label>
+                <Input type="number" min="0" value={form.power_outlets} onChange={(e) => setForm(prev => ({ ...prev, power_outlets: e.target.value }))} />
+              </div>
+              <div />
+              <div>
+                <Label>Doorway Width (cm)</Label>
+                <Input type="number" min="0" value={form.doorway_width_cm} onChange={(e) => setForm(prev => ({ ...prev, doorway_width_cm: e.target.value }))} />
+              </div>
+              <div>
+                <Label>Doorway Height (cm)</Label>
+                <Input type="number" min="0" value={form.doorway_height_cm} onChange={(e) => setForm(prev => ({ ...prev, doorway_height_cm: e.target.value }))} />
+              </div>
+            </div>
+            <div>
+              <Label>Notes</Label>
+              <Textarea rows={2} value={form.notes} onChange={(e) => setForm(prev => ({ ...prev, notes: e.target.value }))} placeholder="e.g. loading dock at the rear" />
+            </div>
+            <p className="text-xs text-gray-500">Leave a figure blank if it doesn't limit this venue.</p>
+            <div className="flex gap-2">
+              <Button onClick={handleSave} disabled={saving}>{saving ? 'Saving...' : 'Save'}</Button>
+              <Button variant="outline" onClick={() => setEditingVenueId(null)}>Cancel</Button>
+            </div>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default VenueCapacityPlanner;
@@ -4,6 +4,7 @@ import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { useAppContext } from '@/contexts/AppContext';
+import { useToast } from '@/hooks/use-toast';
 import ImageUpload from '@/components/ImageUpload';
 import AddressAutocomplete from '@/components/AddressAutocomplete';
 
@@ -15,6 +16,7 @@ interface VenueEditDialogProps {
 
 const VenueEditDialog: React.FC<VenueEditDialogProps> = ({ isOpen, onClose, venueId }) => {
   const { venues, updateVenue } = useAppContext();
+  const { toast } = useToast();
   const [formData, setFormData] = useState({
     name: '',
     address: '',
@@ -23,7 +25,9 @@ const VenueEditDialog: React.FC<VenueEditDialogProps> = ({ isOpen, onClose, venu
     commission_percentage: 30,
     image_url: '',
     latitude: null as number | null,
-    longitude: null as number | null
+    longitude: null as number | null,
+    service_window_start: '',
+    service_window_end: ''
   });
 
   const venue = venues.find(v => v.id === venueId);
@@ -38,7 +42,9 @@ const VenueEditDialog: React.FC<VenueEditDialogProps> = ({ isOpen, onClose, venu
         commission_percentage: venue.commission_percentage || 30,
         image_url: venue.image_url || '',
         latitude: venue.latitude || null,
-        longitude: venue.longitude || null
+        longitude: venue.longitude || null,
+        service_window_start: venue.service_window_start?.slice(0, 5) || '',
+        service_window_end: venue.service_window_end?.slice(0, 5) || ''
       });
     }
   }, [venue]);
@@ -54,8 +60,17 @@ const VenueEditDialog: React.FC<VenueEditDialogProps> = ({ isOpen, onClose, venu
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
+    if (formData.service_window_start && formData.service_window_end &&
+        formData.service_window_start >= formData.service_window_end) {
+      toast({ title: 'Validation Error', description: 'The service window must end after it starts', variant: 'destructive' });
+      return;
+    }
     try {
-      await updateVenue(venueId, formData);
+      await updateVenue(venueId, {
+        ...formData,
+        service_window_start: formData.service_window_start || null,
+        service_window_end: formData.service_window_end || null
+      });
       onClose();
     } catch (error) {
       console.error('Error updating venue:', error);
@@ -117,6 +132,29 @@ const VenueEditDialog: React.FC<VenueEditDialogProps> = ({ isOpen, onClose, venu
               max="100"
             />
           </div>
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <Label htmlFor="service_window_start">Service From</Label>
+              <Input
+                id="service_window_start"
+                type="time"
+                value={formData.service_window_start}
+                onChange={(e) => setFormData({...formData, service_window_start: e.target.value})}
+              />
+            </div>
+            <div>
+              <Label htmlFor="service_window_end">Service Until</Label>
+              <Input
+                id="service_window_end"
+                type="time"
+                value={formData.service_window_end}
+                onChange={(e) => setFormData({...formData, service_window_end: e.target.value})}
+              />
+            </div>
+            <p className="col-span-2 text-xs text-gray-500">
+              When runs can arrive to service this venue. Leave blank for any time.
+            </p>
+          </div>
           <ImageUpload
             folder="venues"
             currentImage={formData.image_url}
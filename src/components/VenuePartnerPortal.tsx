@@ -0,0 +1,298 @@
+// src/components/VenuePartnerPortal.tsx
+// Read-only portal for venue partners. Everything here is filtered by row-level security
+// to the venues linked to the signed-in user in venue_partner_links.
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Building2, Download, Gamepad2, Loader2, LogOut, RefreshCw } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { repositories } from '@/lib/repositories';
+import type { VenueReportRow, VenueRow } from '@/lib/repositories';
+import { parseMachineData, openStatementWindow } from '@/lib/venueStatements';
+import { VenueReportTemplate } from '@/components/VenueReportTemplate';
+
+interface VenuePartnerPortalProps {
+  onLogout: () => Promise<void>;
+  userProfile: {
+    id: string;
+    email: string;
+    username?: string;
+    full_name?: string;
+  };
+}
+
+const ALL_VENUES = 'all';
+
+const formatCurrency = (amount: number) => `$${(amount || 0).toFixed(2)}`;
+
+const VenuePartnerPortal: React.FC<VenuePartnerPortalProps> = ({ onLogout, userProfile }) => {
+  const [venues, setVenues] = useState<VenueRow[]>([]);
+  const [statements, setStatements] = useState<VenueReportRow[]>([]);
+  const [selectedVenue, setSelectedVenue] = useState(ALL_VENUES);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [loggingOut, setLoggingOut] = useState(false);
+  const { toast } = useToast();
+
+  const companyLogo = localStorage.getItem('companyLogo') || '';
+  const displayName = userProfile.full_name || userProfile.username || userProfile.email;
+
+  const loadStatements = useCallback(async () => {
+    setLoading(true);
+    try {
+      const links = await repositories.venuePartnerLinks.listForUser(userProfile.id);
+      const linkedVenues = links.map(link => link.venues).filter(Boolean) as VenueRow[];
+      setVenues(linkedVenues);
+      setStatements(await repositories.venueReports.listForVenues(links.map(link => link.venue_id)));
+      console.log('✅ Loaded partner statements for', links.length, 'venues');
+    } catch (error) {
+      console.error('❌ Error loading partner statements:', error);
+      toast({
+        title: 'Error',
+        description: (error as Error).message || 'Failed to load your statements',
+        variant: 'destructive'
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [userProfile.id, toast]);
+
+  useEffect(() => {
+    loadStatements();
+  }, [loadStatements]);
+
+  const visibleStatements = useMemo(
+    () => selectedVenue === ALL_VENUES ? statements : statements.filter(s => s.venue_id === selectedVenue),
+    [statements, selectedVenue]
+  );
+
+  const totals = useMemo(() => visibleStatements.reduce(
+    (sum, statement) => ({
+      revenue: sum.revenue + (statement.total_revenue || 0),
+      commission: sum.commission + (statement.venue_commission_amount || 0),
+      outstanding: sum.outstanding + (statement.paid_status ? 0 : statement.venue_commission_amount || 0)
+    }),
+    { revenue: 0, commission: 0, outstanding: 0 }
+  ), [visibleStatements]);
+
+  const downloadStatement = (statement: VenueReportRow) => {
+    const venue = venues.find(v => v.id === statement.venue_id);
+    const template = VenueReportTemplate({
+      venue: {
+        id: statement.venue_id,
+        name: statement.venue_name,
+        address: statement.venue_address || undefined,
+        commission_percentage: statement.venue_commission_percentage,
+        image_url: venue?.image_url || undefined
+      },
+      // Partners cannot read the machines table; the statement carries its own machine rows
+      machines: [],
+      machineReports: parseMachineData(statement.machine_data),
+      dateRange: { start: statement.date_range_start, end: statement.date_range_end },
+      companyLogo
+    });
+
+    openStatementWindow(
+      template.generateHTML(),
+      `venue-statement-${statement.venue_name}-${statement.date_range_start}-${statement.date_range_end}.html`
+    );
+  };
+
+  const handleLogout = async () => {
+    setLoggingOut(true);
+    try {
+      await onLogout();
+    } catch {
+      toast({ title: 'Error', description: 'Failed to logout. Please try again.', variant: 'destructive' });
+      setLoggingOut(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-purple-50 via-pink-50 to-blue-50">
+      <header className="bg-gradient-to-r from-red-700 via-red-600 to-red-700 text-white shadow-xl">
+        <div className="container mx-auto px-4 flex items-center justify-between py-2.5">
+          <div className="flex items-center gap-3">
+            {companyLogo ? (
+              <img src={companyLogo} alt="Logo" className="h-9 w-9 object-contain bg-white/10 rounded-lg p-1" />
+            ) : (
+              <div className="h-9 w-9 bg-white/10 rounded-lg flex items-center justify-center shrink-0">
+                <Gamepad2 className="h-5 w-5 text-white" />
+              </div>
+            )}
+            <div>
+              <h1 className="text-lg font-bold leading-tight">Game On Entertainment</h1>
+              <p className="text-red-200 text-xs">Venue Partner Portal</p>
+            </div>
+          </div>
+          <div className="flex items-center gap-2">
+            <span className="hidden sm:block text-sm font-semibold">{displayName}</span>
+            <Button onClick={handleLogout} disabled={loggingOut} size="sm" variant="ghost"
+              className="text-white/85 hover:bg-white/15 hover:text-white gap-1.5 text-sm">
+              {loggingOut
+                ? <><Loader2 className="h-3.5 w-3.5 animate-spin" />Logging out…</>
+                : <><LogOut className="h-3.5 w-3.5" />Logout</>}
+            </Button>
+          </div>
+        </div>
+      </header>
+
+      <div className="container mx-auto px-4 py-8 space-y-6">
+        <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+          <div>
+            <h2 className="text-2xl font-bold">Your Statements</h2>
+            <p className="text-gray-600 text-sm">Revenue and commission for your venues</p>
+          </div>
+          <div className="flex items-center gap-2">
+            {venues.length > 1 && (
+              <Select value={selectedVenue} onValueChange={setSelectedVenue}>
+                <SelectTrigger className="w-56">
+                  <SelectValue placeholder="All venues" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL_VENUES}>All venues</SelectItem>
+                  {venues.map(venue => (
+                    <SelectItem key={venue.id} value={venue.id}>{venue.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
+            <Button variant="outline" size="sm" onClick={loadStatements} disabled={loading}>
+              <RefreshCw className={`h-4 w-4 mr-1 ${loading ? 'animate-spin' : ''}`} />
+              Refresh
+            </Button>
+          </div>
+        </div>
+
+        <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+          <Card>
+            <CardContent className="p-4">
+              <p className="text-sm text-gray-600">Total Revenue</p>
+              <p className="text-2xl font-bold text-green-600">{formatCurrency(totals.revenue)}</p>
+            </CardContent>
+          </Card>
+          <Card>
+            <CardContent className="p-4">
+              <p className="text-sm text-gray-600">Your Commission</p>
+              <p className="text-2xl font-bold text-blue-600">{formatCurrency(totals.commission)}</p>
+            </CardContent>
+          </Card>
+          <Card>
+            <CardContent className="p-4">
+              <p className="text-sm text-gray-600">Awaiting Payment</p>
+              <p className="text-2xl font-bold text-orange-600">{formatCurrency(totals.outstanding)}</p>
+            </CardContent>
+          </Card>
+        </div>
+
+        {loading ? (
+          <div className="flex justify-center py-12">
+            <Loader2 className="h-8 w-8 animate-spin text-gray-400" />
+          </div>
+        ) : venues.length === 0 ? (
+          <Card>
+            <CardContent className="p-8 text-center text-gray-600">
+              <Building2 className="h-10 w-10 mx-auto mb-3 text-gray-400" />
+              No venues are linked to your account yet. Please contact Game On Entertainment.
+            </CardContent>
+          </Card>
+        ) : visibleStatements.length === 0 ? (
+          <Card>
+            <CardContent className="p-8 text-center text-gray-600">No statements yet.</CardContent>
+          </Card>
+        ) : (
+          <div className="space-y-3">
+            {visibleStatements.map(statement => {
+              const machineRows = expandedId === statement.id ? parseMachineData(statement.machine_data) : [];
+              return (
+                <Card key={statement.id}>
+                  <CardHeader className="pb-2">
+                    <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-2">
+                      <CardTitle className="text-lg flex items-center gap-2">
+                        <Building2 className="h-5 w-5 text-blue-600" />
+                        {statement.venue_name}
+                      </CardTitle>
+                      <div className="flex items-center gap-2">
+                        <Badge className={statement.paid_status ? 'bg-green-600' : 'bg-orange-500'}>
+                          {statement.paid_status ? 'Paid' : 'Pending'}
+                        </Badge>
+                        <Button size="sm" variant="outline" onClick={() => downloadStatement(statement)}>
+                          <Download className="h-4 w-4 mr-1" />
+                          Statement
+                        </Button>
+                      </div>
+                    </div>
+                  </CardHeader>
+                  <CardContent>
+                    <div className="grid grid-cols-2 sm:grid-cols-4 gap-3 text-sm">
+                      <div>
+                        <p className="text-gray-500">Period</p>
+                        <p className="font-medium">
+                          {new Date(statement.date_range_start).toLocaleDateString()} – {new Date(statement.date_range_end).toLocaleDateString()}
+                        </p>
+                      </div>
+                      <div>
+                        <p className="text-gray-500">Revenue</p>
+                        <p className="font-medium text-green-600">{formatCurrency(statement.total_revenue)}</p>
+                      </div>
+                      <div>
+                        <p className="text-gray-500">Commission ({statement.venue_commission_percentage}%)</p>
+                        <p className="font-medium text-blue-600">{formatCurrency(statement.venue_commission_amount)}</p>
+                      </div>
+                      <div>
+                        <p className="text-gray-500">Machines</p>
+                        <p className="font-medium">{statement.total_machines}</p>
+                      </div>
+                    </div>
+
+                    <Button
+                      variant="link"
+                      size="sm"
+                      className="px-0 mt-2"
+                      onClick={() => setExpandedId(expandedId === statement.id ? null : statement.id)}
+                    >
+                      {expandedId === statement.id ? 'Hide machine breakdown' : 'Show machine breakdown'}
+                    </Button>
+
+                    {expandedId === statement.id && (
+                      machineRows.length === 0 ? (
+                        <p className="text-sm text-gray-500">No machine breakdown was saved with this statement.</p>
+                      ) : (
+                        <div className="overflow-x-auto">
+                          <table className="w-full text-sm">
+                            <thead>
+                              <tr className="text-left text-gray-500 border-b">
+                                <th className="py-2 pr-3">Machine</th>
+                                <th className="py-2 pr-3">Serial</th>
+                                <th className="py-2 pr-3">Revenue</th>
+                                <th className="py-2 pr-3">Commission</th>
+                              </tr>
+                            </thead>
+                            <tbody>
+                              {machineRows.map(row => (
+                                <tr key={row.machine_id} className="border-b last:border-0">
+                                  <td className="py-2 pr-3">{row.machine_name}</td>
+                                  <td className="py-2 pr-3">{row.machine_serial}</td>
+                                  <td className="py-2 pr-3">{row.has_data ? formatCurrency(row.total_turnover) : 'No data'}</td>
+                                  <td className="py-2 pr-3">{formatCurrency(row.commission_amount)}</td>
+                                </tr>
+                              ))}
+                            </tbody>
+                          </table>
+                        </div>
+                      )
+                    )}
+                  </CardContent>
+                </Card>
+              );
+            })}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default VenuePartnerPortal;
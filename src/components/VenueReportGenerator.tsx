@@ -10,6 +10,8 @@ import { supabase } from '@/lib/supabase';
 import { useToast } from '@/hooks/use-toast';
 import { Calculator, ArrowLeft, Building2, DollarSign, Calendar, FileCheck, AlertTriangle } from 'lucide-react';
 import { VenueReportTemplate, type MachineReportData } from '@/components/VenueReportTemplate';
+import { repositories } from '@/lib/repositories';
+import { totalCashless } from '@/lib/paywaveSettlements';
 
 interface VenueReportGeneratorProps {
   onBack?: () => void;
@@ -57,43 +59,53 @@ const VenueReportGenerator: React.FC<VenueReportGeneratorProps> = ({ onBack }) =
       const venue = venues.find(v => v.id === selectedVenue);
       if (!venue) throw new Error('Venue not found');
 
-      // Get all machines for this venue
-      const venueMachines = machines.filter(m => m.venue_id === selectedVenue);
-      console.log('🎮 Found machines for venue:', venueMachines.length);
-
-      if (venueMachines.length === 0) {
-        toast({
-          title: 'No Machines',
-          description: 'This venue has no machines assigned to it.',
-          variant: 'destructive'
-        });
-        setReportData(null);
-        return;
-      }
+      // Reports belong to the venue the machine was at when they were saved. Older reports
+      // without a venue go to the machine's current venue.
+      const currentMachineIds = machines.filter(m => m.venue_id === selectedVenue).map(m => m.id);
+      const venueOf = (report: { machine_id: string; venue_id?: string | null }) =>
+        report.venue_id || machines.find(m => m.id === report.machine_id)?.venue_id || null;
 
-      // Fetch machine reports for the date range using report_date field
-      console.log('🔍 Fetching machine reports with query:');
-      console.log('WHERE machine_id IN', venueMachines.map(m => m.id));
-      console.log('AND report_date >=', dateRange.start);
-      console.log('AND report_date <=', dateRange.end);
+      console.log('🔍 Fetching machine reports for', currentMachineIds.length, 'machines here now and any moved away');
 
-      const { data: machineReports, error } = await supabase
+      let reportQuery = supabase
         .from('machine_reports')
         .select('*')
-        .in('machine_id', venueMachines.map(m => m.id))
         .gte('report_date', dateRange.start)
         .lte('report_date', dateRange.end)
         .order('report_date', { ascending: false });
+      reportQuery = currentMachineIds.length > 0
+        ? reportQuery.or(`machine_id.in.(${currentMachineIds.join(',')}),venue_id.eq.${selectedVenue}`)
+        : reportQuery.eq('venue_id', selectedVenue);
+
+      const { data: fetchedReports, error } = await reportQuery;
 
       if (error) {
         console.error('❌ Error fetching machine reports:', error);
         throw error;
       }
 
-      console.log('📊 Found machine reports:', machineReports?.length || 0);
+      const machineReports = (fetchedReports || []).filter(report => venueOf(report) === selectedVenue);
+
+      // Machines here now, plus machines that were here during the period and have since moved
+      const venueMachines = machines.filter(m =>
+        currentMachineIds.includes(m.id) || machineReports.some(report => report.machine_id === m.id)
+      );
+      console.log('🎮 Found machines for venue:', venueMachines.length);
+
+      if (venueMachines.length === 0) {
+        toast({
+          title: 'No Machines',
+          description: 'This venue has no machines assigned to it.',
+          variant: 'destructive'
+        });
+        setReportData(null);
+        return;
+      }
+
+      console.log('📊 Found machine reports:', machineReports.length);
       
       // Log sample reports for debugging
-      if (machineReports && machineReports.length > 0) {
+      if (machineReports.length > 0) {
         console.log('📋 Sample report:', {
           machine_id: machineReports[0].machine_id,
           report_date: machineReports[0].report_date,
@@ -102,13 +114,26 @@ const VenueReportGenerator: React.FC<VenueReportGeneratorProps> = ({ onBack }) =
         });
       }
 
+      // PayWave card takings over the same dates count towards turnover and commission
+      const cardTransactions = await repositories.payWaveTransactions
+        .listForMachines(venueMachines.map(m => m.id), { from: dateRange.start, to: dateRange.end })
+        .catch(error => {
+          console.warn('⚠️ Could not load PayWave transactions:', error);
+          return [];
+        });
+
       // Aggregate data by machine
       const machineReportSummaries: MachineReportData[] = venueMachines.map(machine => {
-        const reportsForMachine = machineReports?.filter(r => r.machine_id === machine.id) || [];
+        const reportsForMachine = machineReports.filter(r => r.machine_id === machine.id);
         
         console.log(`🎰 Machine ${machine.name}: found ${reportsForMachine.length} reports in date range`);
         
-        const totalTurnover = reportsForMachine.reduce((sum, report) => sum + (report.money_collected || 0), 0);
+        // A machine that has moved on only earned card takings here up to its last report here
+        const lastReportHere = machine.venue_id === selectedVenue ? null : reportsForMachine[0]?.report_date;
+        const cashlessTurnover = totalCashless(cardTransactions.filter(t =>
+          t.machine_id === machine.id && (!lastReportHere || t.transacted_at.slice(0, 10) <= lastReportHere.slice(0, 10))
+        ));
+        const totalTurnover = reportsForMachine.reduce((sum, report) => sum + (report.money_collected || 0), 0) + cashlessTurnover;
         const totalTokens = reportsForMachine.reduce((sum, report) => sum + (report.tokens_in_game || 0), 0);
         const commissionAmount = totalTurnover * (venue.commission_percentage / 100);
 
@@ -117,10 +142,11 @@ const VenueReportGenerator: React.FC<VenueReportGeneratorProps> = ({ onBack }) =
           machine_name: machine.name,
           machine_serial: machine.serial_number || 'N/A',
           total_turnover: totalTurnover,
+          total_cashless: cashlessTurnover,
           total_tokens: totalTokens,
           commission_amount: commissionAmount,
           report_count: reportsForMachine.length,
-          has_data: reportsForMachine.length > 0
+          has_data: reportsForMachine.length > 0 || cashlessTurnover !== 0
         };
       });
 
@@ -443,7 +469,9 @@ const VenueReportGenerator: React.FC<VenueReportGeneratorProps> = ({ onBack }) =
                           </div>
                           <div className="text-center">
                             <div className="font-medium">${machine.total_turnover.toFixed(2)}</div>
-                            <div className="text-gray-500 text-xs">Turnover</div>
+                            <div className="text-gray-500 text-xs">
+                              Turnover{machine.total_cashless ? ` (incl. $${machine.total_cashless.toFixed(2)} PayWave)` : ''}
+                            </div>
                           </div>
                           <div className="text-center">
                             <div className="font-medium">{machine.total_tokens}</div>
@@ -499,7 +527,7 @@ const VenueReportGenerator: React.FC<VenueReportGeneratorProps> = ({ onBack }) =
               <ul className="list-disc list-inside space-y-1">
                 <li><strong>Data Source:</strong> Machine reports with individual report_date fields</li>
                 <li><strong>Filter Logic:</strong> WHERE report_date &gt;= start_date AND report_date &lt;= end_date</li>
-                <li><strong>Aggregation:</strong> Sums money_collected and tokens_in_game for each machine</li>
+                <li><strong>Aggregation:</strong> Sums money_collected, PayWave card takings and tokens_in_game for each machine</li>
                 <li><strong>Commission:</strong> Applied to total revenue from all filtered reports</li>
                 <li><strong>Crystal Clear:</strong> Shows which machines have reports vs. no data in the date range</li>
               </ul>
@@ -6,6 +6,8 @@ interface MachineReportData {
   machine_name: string;
   machine_serial: string;
   total_turnover: number;
+  // PayWave card takings, already included in total_turnover
+  total_cashless?: number;
   total_tokens: number;
   commission_amount: number;
   report_count: number;
@@ -8,11 +8,16 @@ import { Badge } from '@/components/ui/badge';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
 import { useAppContext } from '@/contexts/AppContext';
-import { supabase } from '@/lib/supabase';
+import { repositories, type CommissionPaymentRow, type VenueReportRow } from '@/lib/repositories';
+import { allocatePayments, type ReportBalance } from '@/lib/commissionLedger';
 import { Building2, FileText, QrCode, Search, Calendar, Filter, RefreshCw, Download, Printer, Check, X, Eye, AlertCircle } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
 import AutoBarcodeScanner from '@/components/AutoBarcodeScanner';
+import CommissionLedger from '@/components/CommissionLedger';
+import PayWaveSettlements from '@/components/PayWaveSettlements';
+import RecordPaymentDialog, { type PaymentTarget } from '@/components/RecordPaymentDialog';
 import { VenueReportTemplate, type MachineReportData } from '@/components/VenueReportTemplate';
+import { emptyMachineReport, openStatementWindow, parseMachineData } from '@/lib/venueStatements';
 
 interface MachineReport {
   id: string;
@@ -86,6 +91,11 @@ const ViewReportsPage: React.FC<ViewReportsPageProps> = ({ userProfile, hasPermi
   // Scanner state
   const [showScanner, setShowScanner] = useState(false);
 
+  // Commission payments ledger
+  const [payments, setPayments] = useState<CommissionPaymentRow[]>([]);
+  const [paymentTarget, setPaymentTarget] = useState<PaymentTarget | null>(null);
+  const canRecordPayments = hasPermission('edit_earnings');
+
   // Permission check
   if (!hasPermission('view_financial_reports') && !hasPermission('view_earnings')) {
     return (
@@ -117,24 +127,15 @@ const ViewReportsPage: React.FC<ViewReportsPageProps> = ({ userProfile, hasPermi
       console.log('📊 Fetching all reports...');
 
       // Fetch machine reports
-      const { data: machineData, error: machineError } = await supabase
-        .from('machine_reports')
-        .select(`
-          *,
-          machines(name, type, venue_id, serial_number)
-        `)
-        .order('report_date', { ascending: false });
-
-      if (machineError) {
-        console.error('Machine reports error:', machineError);
-        throw machineError;
-      }
+      const machineData = await repositories.machineReports.listWithMachines();
 
       // Enhance machine reports with venue data
       const enhancedMachineReports = machineData?.map(report => {
         const machine = report.machines;
         return {
           ...report,
+          tokens_in_game: report.tokens_in_game || 0,
+          notes: report.notes || '',
           machine_name: machine?.name || report.machine_name || 'Deleted Machine',
           machine_type: machine?.type || report.machine_type || 'Unknown Type',
           machine_serial: machine?.serial_number || report.machine_serial || 'N/A',
@@ -146,17 +147,17 @@ const ViewReportsPage: React.FC<ViewReportsPageProps> = ({ userProfile, hasPermi
       console.log('✅ Fetched machine reports:', enhancedMachineReports.length);
 
       // Fetch venue reports
-      const { data: venueData, error: venueError } = await supabase
-        .from('venue_reports')
-        .select('*')
-        .order('report_date', { ascending: false });
-
-      if (venueError) {
+      try {
+        const venueData = await repositories.venueReports.listLatestFirst();
+        setVenueReports(venueData);
+        console.log('✅ Fetched venue reports:', venueData.length);
+
+        const paymentData = await repositories.commissionPayments.listOldestFirst();
+        setPayments(paymentData);
+        console.log('✅ Fetched commission payments:', paymentData.length);
+      } catch (venueError) {
         console.warn('Venue reports error (table may not exist):', venueError);
         setVenueReports([]);
-      } else {
-        setVenueReports(venueData || []);
-        console.log('✅ Fetched venue reports:', venueData?.length || 0);
       }
 
     } catch (error) {
@@ -287,56 +288,14 @@ const ViewReportsPage: React.FC<ViewReportsPageProps> = ({ userProfile, hasPermi
     setShowScanner(false);
   };
 
-  // Update paid status
-  const updatePaidStatus = async (reportType: 'machine' | 'venue', reportId: string, newStatus: boolean) => {
+  // Update machine report paid status; venue reports are paid through the payments ledger
+  const updatePaidStatus = async (reportId: string, newStatus: boolean) => {
     try {
-      const tableName = reportType === 'machine' ? 'machine_reports' : 'venue_reports';
-      
-      const { error } = await supabase
-        .from(tableName)
-        .update({ paid_status: newStatus })
-        .eq('id', reportId);
-
-      if (error) throw error;
-
-      // When a venue report is marked as paid, auto-mark all associated machine reports paid too
-      if (reportType === 'venue' && newStatus === true) {
-        try {
-          // Find the venue report to get venue_id and date range
-          const venueReport = venueReports.find(r => r.id === reportId);
-          if (venueReport?.venue_id) {
-            // Match machine reports by venue_id and date range (if available)
-            let query = supabase
-              .from('machine_reports')
-              .update({ paid_status: true })
-              .eq('venue_id', venueReport.venue_id)
-              .eq('paid_status', false);
-
-            // Narrow to the report's date range if available
-            if (venueReport.date_range_start && venueReport.date_range_end) {
-              query = query
-                .gte('report_date', venueReport.date_range_start)
-                .lte('report_date', venueReport.date_range_end);
-            }
-
-            const { error: machineError } = await query;
-            if (machineError) {
-              console.warn('Could not auto-mark machine reports:', machineError);
-            } else {
-              console.log('✅ Associated machine reports marked as paid');
-            }
-          }
-        } catch (autoMarkError) {
-          console.warn('Error auto-marking machine reports:', autoMarkError);
-          // Don't fail the whole operation if this part errors
-        }
-      }
+      await repositories.machineReports.setPaidStatus(reportId, newStatus);
 
       toast({
         title: 'Success',
-        description: reportType === 'venue' && newStatus
-          ? 'Venue report marked paid — associated machine reports updated too'
-          : `Report marked as ${newStatus ? 'paid' : 'unpaid'}`
+        description: `Report marked as ${newStatus ? 'paid' : 'unpaid'}`
       });
 
       // Refresh data
@@ -351,6 +310,32 @@ const ViewReportsPage: React.FC<ViewReportsPageProps> = ({ userProfile, hasPermi
     }
   };
 
+  const handlePaymentRecorded = async (venueReport?: VenueReportRow | null, settled?: boolean) => {
+    // When a venue report is fully paid, auto-mark all associated machine reports paid too
+    if (venueReport?.venue_id && settled) {
+      try {
+        await repositories.machineReports.markVenueReportsPaid(venueReport.venue_id, {
+          start: venueReport.date_range_start,
+          end: venueReport.date_range_end
+        });
+        console.log('✅ Associated machine reports marked as paid');
+      } catch (autoMarkError) {
+        console.warn('Error auto-marking machine reports:', autoMarkError);
+        // Don't fail the whole operation if this part errors
+      }
+    }
+    fetchAllReports();
+  };
+
+  // Paid and outstanding commission per venue report, with payments on account applied oldest first
+  const reportBalances = new Map<string, ReportBalance>();
+  Array.from(new Set(venueReports.map(report => report.venue_id))).forEach(venueId => {
+    allocatePayments(
+      venueReports.filter(report => report.venue_id === venueId),
+      payments.filter(payment => payment.venue_id === venueId)
+    ).forEach(balance => reportBalances.set(balance.report.id, balance));
+  });
+
   // Generate Machine Report PDF using consistent template
   const generateMachineReportPDF = (report: MachineReport) => {
     const venue = venues.find(v => v.id === report.venue_id);
@@ -601,35 +586,10 @@ const ViewReportsPage: React.FC<ViewReportsPageProps> = ({ userProfile, hasPermi
 
       const venueMachines = machines.filter(m => m.venue_id === report.venue_id);
       
-      // Parse machine data from the stored report
-      let machineReports: MachineReportData[] = [];
-      
-      if (report.machine_data) {
-        try {
-          const parsedData = typeof report.machine_data === 'string' 
-            ? JSON.parse(report.machine_data) 
-            : report.machine_data;
-          
-          if (Array.isArray(parsedData)) {
-            machineReports = parsedData;
-          }
-        } catch (parseError) {
-          console.warn('Failed to parse machine_data:', parseError);
-        }
-      }
-
-      // If no machine data in report, create from venue machines
+      // Parse machine data from the stored report, or list the venue's machines with no data
+      let machineReports: MachineReportData[] = parseMachineData(report.machine_data);
       if (machineReports.length === 0) {
-        machineReports = venueMachines.map(machine => ({
-          machine_id: machine.id,
-          machine_name: machine.name,
-          machine_serial: machine.serial_number || 'N/A',
-          total_turnover: 0,
-          total_tokens: 0,
-          commission_amount: 0,
-          report_count: 0,
-          has_data: false
-        }));
+        machineReports = venueMachines.map(emptyMachineReport);
       }
 
       const dateRange = {
@@ -649,22 +609,7 @@ const ViewReportsPage: React.FC<ViewReportsPageProps> = ({ userProfile, hasPermi
 
       const htmlContent = reportTemplate.generateHTML();
 
-      // Open in new window for printing
-      const printWindow = window.open('', '_blank', 'width=1200,height=800');
-      if (printWindow) {
-        printWindow.document.write(htmlContent);
-        printWindow.document.close();
-        setTimeout(() => printWindow.print(), 1000);
-      } else {
-        // Fallback: download as HTML file
-        const blob = new Blob([htmlContent], { type: 'text/html' });
-        const url = URL.createObjectURL(blob);
-        const link = document.createElement('a');
-        link.href = url;
-        link.download = `venue-report-${venue.name}-${dateRange.start}-${dateRange.end}.html`;
-        link.click();
-        URL.revokeObjectURL(url);
-      }
+      openStatementWindow(htmlContent, `venue-report-${venue.name}-${dateRange.start}-${dateRange.end}.html`);
 
       toast({
         title: 'Success',
@@ -857,13 +802,19 @@ const ViewReportsPage: React.FC<ViewReportsPageProps> = ({ userProfile, hasPermi
 
         {/* Reports Tabs */}
         <Tabs value={activeTab} onValueChange={setActiveTab}>
-          <TabsList className="grid w-full grid-cols-2 mb-6">
+          <TabsList className="grid w-full grid-cols-4 mb-6">
             <TabsTrigger value="machine-reports">
               Machine Reports ({machineReports.length})
             </TabsTrigger>
             <TabsTrigger value="venue-reports">
               Venue Reports ({venueReports.length})
             </TabsTrigger>
+            <TabsTrigger value="commission">
+              Commission Ledger
+            </TabsTrigger>
+            <TabsTrigger value="paywave">
+              PayWave
+            </TabsTrigger>
           </TabsList>
 
           {/* Machine Reports Tab */}
@@ -953,7 +904,7 @@ const ViewReportsPage: React.FC<ViewReportsPageProps> = ({ userProfile, hasPermi
                               <Button
                                 size="sm"
                                 variant={report.paid_status ? "default" : "outline"}
-                                onClick={() => updatePaidStatus('machine', report.id, !report.paid_status)}
+                                onClick={() => updatePaidStatus(report.id, !report.paid_status)}
                                 className={report.paid_status 
                                   ? 'bg-green-600 hover:bg-green-700 text-white' 
                                   : 'border-orange-400 text-orange-600 hover:bg-orange-50'
@@ -1010,88 +961,119 @@ const ViewReportsPage: React.FC<ViewReportsPageProps> = ({ userProfile, hasPermi
             ) : (
               <ScrollArea className="h-[60vh]">
                 <div className="grid gap-4">
-                  {filteredVenueReports.map(report => (
-                    <Card key={report.id} className="hover:shadow-md transition-shadow">
-                      <CardContent className="p-4">
-                        <div className="flex flex-col md:flex-row md:items-center justify-between gap-4">
-                          <div className="flex-1 min-w-0">
-                            <div className="flex items-center gap-2 mb-2">
-                              <h3 className="font-semibold text-lg">{report.venue_name}</h3>
-                              <Badge variant={report.paid_status ? 'default' : 'secondary'}>
-                                {report.paid_status ? 'Paid' : 'Pending'}
-                              </Badge>
-                            </div>
-                            
-                            <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
-                              <div>
-                                <span className="text-gray-500">Total Revenue:</span>
-                                <div className="font-medium text-green-600">${report.total_revenue.toFixed(2)}</div>
-                              </div>
-                              <div>
-                                <span className="text-gray-500">Commission ({report.venue_commission_percentage}%):</span>
-                                <div className="font-medium text-blue-600">${report.venue_commission_amount.toFixed(2)}</div>
-                              </div>
-                              <div>
-                                <span className="text-gray-500">Machines:</span>
-                                <div className="font-medium">{report.total_machines}</div>
+                  {filteredVenueReports.map(report => {
+                    const balance = reportBalances.get(report.id);
+                    const outstanding = balance ? balance.outstanding : report.venue_commission_amount;
+                    const amountPaid = balance ? balance.paid : 0;
+
+                    return (
+                      <Card key={report.id} className="hover:shadow-md transition-shadow">
+                        <CardContent className="p-4">
+                          <div className="flex flex-col md:flex-row md:items-center justify-between gap-4">
+                            <div className="flex-1 min-w-0">
+                              <div className="flex items-center gap-2 mb-2">
+                                <h3 className="font-semibold text-lg">{report.venue_name}</h3>
+                                <Badge variant={outstanding <= 0 ? 'default' : 'secondary'}>
+                                  {outstanding <= 0 ? 'Paid' : amountPaid > 0 ? 'Part Paid' : 'Pending'}
+                                </Badge>
                               </div>
-                              <div>
-                                <span className="text-gray-500">Report Date:</span>
-                                <div className="font-medium">{new Date(report.report_date).toLocaleDateString()}</div>
+                            
+                              <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
+                                <div>
+                                  <span className="text-gray-500">Total Revenue:</span>
+                                  <div className="font-medium text-green-600">${report.total_revenue.toFixed(2)}</div>
+                                </div>
+                                <div>
+                                  <span className="text-gray-500">Commission ({report.venue_commission_percentage}%):</span>
+                                  <div className="font-medium text-blue-600">${report.venue_commission_amount.toFixed(2)}</div>
+                                  {amountPaid > 0 && outstanding > 0 && (
+                                    <div className="text-xs text-orange-600">${outstanding.toFixed(2)} outstanding</div>
+                                  )}
+                                </div>
+                                <div>
+                                  <span className="text-gray-500">Machines:</span>
+                                  <div className="font-medium">{report.total_machines}</div>
+                                </div>
+                                <div>
+                                  <span className="text-gray-500">Report Date:</span>
+                                  <div className="font-medium">{new Date(report.report_date).toLocaleDateString()}</div>
+                                </div>
                               </div>
-                            </div>
                             
-                            <div className="mt-2 text-xs text-gray-500">
-                              <span>Period: {new Date(report.date_range_start).toLocaleDateString()} - {new Date(report.date_range_end).toLocaleDateString()}</span>
-                              <span className="ml-4">Reports: {report.total_reports}</span>
-                              {report.venue_address && (
-                                <span className="ml-4">Address: {report.venue_address}</span>
-                              )}
+                              <div className="mt-2 text-xs text-gray-500">
+                                <span>Period: {new Date(report.date_range_start).toLocaleDateString()} - {new Date(report.date_range_end).toLocaleDateString()}</span>
+                                <span className="ml-4">Reports: {report.total_reports}</span>
+                                {report.venue_address && (
+                                  <span className="ml-4">Address: {report.venue_address}</span>
+                                )}
+                              </div>
                             </div>
-                          </div>
                           
-                          <div className="flex items-center gap-2">
-                            <Button
-                              size="sm"
-                              variant="outline"
-                              onClick={() => generateVenueReportPDF(report)}
-                            >
-                              <Download className="h-4 w-4 mr-1" />
-                              PDF
-                            </Button>
+                            <div className="flex items-center gap-2">
+                              <Button
+                                size="sm"
+                                variant="outline"
+                                onClick={() => generateVenueReportPDF(report)}
+                              >
+                                <Download className="h-4 w-4 mr-1" />
+                                PDF
+                              </Button>
                             
-                            <Button
-                              size="sm"
-                              variant={report.paid_status ? "default" : "outline"}
-                              onClick={() => updatePaidStatus('venue', report.id, !report.paid_status)}
-                              className={report.paid_status 
-                                ? 'bg-green-600 hover:bg-green-700 text-white' 
-                                : 'border-orange-400 text-orange-600 hover:bg-orange-50'
-                              }
-                            >
-                              {report.paid_status ? (
-                                <>
+                              {outstanding <= 0 ? (
+                                <Button size="sm" className="bg-green-600 hover:bg-green-700 text-white" disabled>
                                   <Check className="h-4 w-4 mr-1" />
                                   Paid
-                                </>
-                              ) : (
-                                <>
+                                </Button>
+                              ) : canRecordPayments && (
+                                <Button
+                                  size="sm"
+                                  variant="outline"
+                                  onClick={() => setPaymentTarget({
+                                    venueId: report.venue_id,
+                                    venueName: report.venue_name,
+                                    report,
+                                    outstanding
+                                  })}
+                                  className="border-orange-400 text-orange-600 hover:bg-orange-50"
+                                >
                                   <X className="h-4 w-4 mr-1" />
-                                  Mark Paid
-                                </>
+                                  Record Payment
+                                </Button>
                               )}
-                            </Button>
+                            </div>
                           </div>
-                        </div>
-                      </CardContent>
-                    </Card>
-                  ))}
+                        </CardContent>
+                      </Card>
+                    );
+                  })}
                 </div>
               </ScrollArea>
             )}
           </TabsContent>
+
+          {/* Commission Ledger Tab */}
+          <TabsContent value="commission">
+            <CommissionLedger
+              venueReports={venueReports}
+              payments={payments}
+              companyLogo={companyLogo}
+              canRecordPayments={canRecordPayments}
+              onRecordPayment={setPaymentTarget}
+            />
+          </TabsContent>
+
+          {/* PayWave Settlements Tab */}
+          <TabsContent value="paywave">
+            <PayWaveSettlements canImport={canRecordPayments} />
+          </TabsContent>
         </Tabs>
 
+        <RecordPaymentDialog
+          target={paymentTarget}
+          onClose={() => setPaymentTarget(null)}
+          onRecorded={handlePaymentRecorded}
+        />
+
         {/* Barcode Scanner */}
         <AutoBarcodeScanner
           isOpen={showScanner}
@@ -2,6 +2,7 @@ import React, { createContext, useContext, useState, useEffect } from 'react';
 import { supabase } from '@/lib/supabase';
 import { useToast } from '@/hooks/use-toast';
 import { findMachineByBarcode as findMachineByBarcodeMethod } from './AppContextMethods';
+import type { DepreciationMethod } from '@/lib/repositories';
 
 interface Venue {
   id: string;
@@ -13,6 +14,8 @@ interface Venue {
   commission_percentage: number;
   latitude?: number | null;  // ADD THIS LINE
   longitude?: number | null; // ADD THIS LINE
+  service_window_start?: string | null;
+  service_window_end?: string | null;
 }
 
 interface PayWaveTerminal {
@@ -36,6 +39,11 @@ interface Machine {
   serial_number?: string;
   barcode?: string;
   paywave_terminals?: PayWaveTerminal[];
+  purchase_cost?: number;
+  purchase_date?: string;
+  depreciation_method?: DepreciationMethod;
+  useful_life_years?: number;
+  residual_value?: number;
 }
 
 
@@ -51,6 +59,11 @@ interface Equipment {
   purchase_date?: string;
   purchase_cost?: number;
   current_value?: number;
+  depreciation_method?: DepreciationMethod;
+  useful_life_years?: number;
+  residual_value?: number;
+  written_down_value?: number;
+  written_down_on?: string;
   condition: string;
   status: string;
   venue_id?: string;
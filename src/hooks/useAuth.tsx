@@ -2,9 +2,19 @@
 import { useState, useEffect, useCallback, useRef } from 'react';
 import { supabase } from '@/lib/supabase';
 import { useToast } from '@/hooks/use-toast';
+import { canManageRole } from '@/lib/roleHierarchy';
+import {
+  DEFAULT_ACCESS_CONTROL,
+  isVenueScopedRole,
+  loadAccessControl,
+  onAccessControlChanged,
+  roleCanAccessView,
+  roleHasPermission,
+  type AccessControl
+} from '@/lib/permissions';
 import type { User, Session } from '@supabase/supabase-js';
 
-export type UserRole = 'super_admin' | 'admin' | 'manager' | 'technician' | 'viewer';
+export type UserRole = 'super_admin' | 'admin' | 'manager' | 'technician' | 'viewer' | 'venue_partner';
 
 export interface AuthUser extends User {
   role?: UserRole;
@@ -29,6 +39,7 @@ export const useAuth = () => {
   const [currentUser, setCurrentUser] = useState<AuthUser | null>(null);
   const [userProfile, setUserProfile] = useState<UserProfile | null>(null);
   const [session, setSession] = useState<Session | null>(null);
+  const [accessControl, setAccessControl] = useState<AccessControl>(DEFAULT_ACCESS_CONTROL);
   const { toast } = useToast();
   
   const isProcessingAuth = useRef(false);
@@ -237,6 +248,21 @@ export const useAuth = () => {
     return () => subscription.unsubscribe();
   }, [handleUserSession]);
 
+  const refreshAccessControl = useCallback(async () => {
+    if (!userProfile?.id) return;
+    setAccessControl(await loadAccessControl(userProfile.id));
+  }, [userProfile?.id]);
+
+  // Permissions live in the database; reload them per user and whenever an admin edits them
+  useEffect(() => {
+    if (!userProfile?.id) {
+      setAccessControl(DEFAULT_ACCESS_CONTROL);
+      return;
+    }
+    refreshAccessControl();
+    return onAccessControlChanged(refreshAccessControl);
+  }, [userProfile?.id, refreshAccessControl]);
+
   const login = async (email: string, password: string): Promise<boolean> => {
     if (isProcessingAuth.current) {
       console.log('Login already in progress');
@@ -321,112 +347,32 @@ export const useAuth = () => {
   // Helper function to check permissions
   const hasPermission = (permission: string): boolean => {
     if (!userProfile) return false;
-    
-    const rolePermissions = {
-      super_admin: ['*'],
-      admin: [
-        'view_users', 'manage_users', 'delete_users',
-        'view_financial_reports', 'view_earnings', 'edit_earnings',
-        'manage_machines', 'view_machines', 'edit_machine_reports',
-        'manage_venues', 'view_venues', 'manage_prizes', 'view_inventory',
-        'manage_stock', 'manage_jobs', 'view_jobs', 'create_jobs',
-        'update_job_status', 'manage_settings', 'view_analytics',
-        'manage_email_notifications', 'manage_equipment', 'view_equipment'
-      ],
-      manager: [
-        // Manager now has the same permissions as admin (full access)
-        'view_users', 'manage_users', 'delete_users',
-        'view_financial_reports', 'view_earnings', 'edit_earnings',
-        'manage_machines', 'view_machines', 'edit_machine_reports',
-        'manage_venues', 'view_venues', 'manage_prizes', 'view_inventory',
-        'manage_stock', 'manage_jobs', 'view_jobs', 'create_jobs',
-        'update_job_status', 'manage_settings', 'view_analytics',
-        'manage_email_notifications', 'manage_equipment', 'view_equipment'
-      ],
-      technician: [
-        'view_machines', 'edit_machine_reports', 'view_venues',
-        'view_inventory', 'view_jobs', 'create_jobs', 'update_job_status',
-        'view_equipment'
-      ],
-      viewer: [
-        'view_machines', 'view_venues', 'view_inventory', 'view_jobs',
-        'view_equipment'
-      ]
-    };
-  
-    const userPermissions = rolePermissions[userProfile.role] || [];
-    return userPermissions.includes('*') || userPermissions.includes(permission);
+    return roleHasPermission(accessControl, userProfile.role, permission);
   };
 
-  const canManageUsers = (): boolean => {
-    if (!userProfile) return false;
-    return userProfile.role === 'super_admin' || userProfile.role === 'admin' || userProfile.role === 'manager';
-  };
+  const canManageUsers = (): boolean => hasPermission('manage_users');
   
   const canViewUsers = (): boolean => {
     if (!userProfile) return false;
     return hasPermission('view_users') || hasPermission('manage_users');
   };
   
-  const canDeleteUsers = (): boolean => {
-    if (!userProfile) return false;
-    return userProfile.role === 'super_admin' || 
-           (userProfile.role === 'admin' && hasPermission('delete_users')) ||
-           (userProfile.role === 'manager' && hasPermission('delete_users'));
-  };
+  const canDeleteUsers = (): boolean => hasPermission('delete_users');
   
   const canCreateUserWithRole = (targetRole: string): boolean => {
     if (!userProfile) return false;
-    
-    const roleHierarchy = {
-      super_admin: ['super_admin', 'admin', 'manager', 'technician', 'viewer'],
-      admin: ['manager', 'technician', 'viewer'],
-      manager: ['manager', 'technician', 'viewer'],
-      technician: [],
-      viewer: []
-    };
-    
-    const allowedRoles = roleHierarchy[userProfile.role as keyof typeof roleHierarchy] || [];
-    return allowedRoles.includes(targetRole);
+    // Same hierarchy the admin-users edge function enforces server-side
+    return canManageRole(userProfile.role, targetRole, accessControl.roleHierarchy);
   };
 
   const canAccessView = (view: string): boolean => {
     if (!userProfile) return false;
-  
-    const viewPermissions = {
-      'users': 'view_users',
-      'reports': 'view_financial_reports',
-      'view-reports': 'view_financial_reports',
-      'machines': 'view_machines',
-      'venues': 'view_venues',
-      'prizes': 'view_inventory',
-      'jobs': 'view_jobs',
-      'analytics': 'view_analytics',
-      'email-notifications': 'manage_email_notifications',
-      'dashboard': 'always',
-      'map': 'view_venues',
-      'parts': 'manage_stock',
-      'equipment-hire': 'view_equipment',
-      'runs': 'view_venues', // NEW: Runs accessible to anyone who can view venues
-      'machine-moves': 'view_machines', // or any permission you want for this page
-    };
-  
-    const requiredPermission = viewPermissions[view];
-    if (requiredPermission === 'always') return true;
-  
-    // For view-reports, allow both view_financial_reports OR view_earnings permissions
-    if (view === 'view-reports') {
-      return hasPermission('view_financial_reports') || hasPermission('view_earnings');
-    }
-  
-    // For equipment-hire, allow both view_equipment OR manage_equipment permissions
-    if (view === 'equipment-hire') {
-      return hasPermission('view_equipment') || hasPermission('manage_equipment');
-    }
-  
-    return requiredPermission ? hasPermission(requiredPermission) : false;
+    return roleCanAccessView(accessControl, userProfile.role, view);
   };
 
+  // Venue partners get the partner portal instead of the staff app
+  const isVenuePartner = !!userProfile && isVenueScopedRole(accessControl, userProfile.role);
+
   return {
     isAuthenticated,
     loading,
@@ -440,6 +386,9 @@ export const useAuth = () => {
     canManageUsers,
     canViewUsers,
     canDeleteUsers,
-    canCreateUserWithRole
+    canCreateUserWithRole,
+    accessControl,
+    refreshAccessControl,
+    isVenuePartner
   };
 };
\ No newline at end of file
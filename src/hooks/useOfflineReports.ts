@@ -0,0 +1,87 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { useToast } from '@/hooks/use-toast';
+import { getPendingReports, onQueueChanged, type PendingReport } from '@/lib/offlineReportQueue';
+import { cacheToyCountSnapshots, isOnline, syncPendingReports } from '@/lib/reportSync';
+
+export function useOfflineReports(onSynced?: () => void) {
+  const { toast } = useToast();
+  const [online, setOnline] = useState(isOnline());
+  const [pendingReports, setPendingReports] = useState<PendingReport[]>([]);
+  const [syncing, setSyncing] = useState(false);
+  const onSyncedRef = useRef(onSynced);
+  onSyncedRef.current = onSynced;
+
+  const loadQueue = useCallback(async () => {
+    try {
+      setPendingReports(await getPendingReports());
+    } catch (error) {
+      console.warn('⚠️ Could not read offline report queue:', error);
+    }
+  }, []);
+
+  const syncNow = useCallback(async () => {
+    if (!isOnline()) return;
+
+    setSyncing(true);
+    try {
+      const result = await syncPendingReports();
+      if (result.synced > 0) {
+        toast({
+          title: 'Reports Synced',
+          description: `${result.synced} offline report${result.synced === 1 ? '' : 's'} uploaded`
+        });
+        onSyncedRef.current?.();
+      }
+      if (result.conflicts > 0) {
+        toast({
+          title: 'Sync Conflict',
+          description: `${result.conflicts} report${result.conflicts === 1 ? ' needs' : 's need'} review — another report landed for the same machine`,
+          variant: 'destructive'
+        });
+      }
+    } catch (error) {
+      console.warn('⚠️ Offline report sync failed:', error);
+      toast({
+        title: 'Sync Failed',
+        description: (error as Error).message || 'Failed to upload offline reports',
+        variant: 'destructive'
+      });
+    } finally {
+      setSyncing(false);
+      loadQueue();
+    }
+  }, [loadQueue, toast]);
+
+  useEffect(() => {
+    loadQueue();
+    const unsubscribe = onQueueChanged(loadQueue);
+    return unsubscribe;
+  }, [loadQueue]);
+
+  useEffect(() => {
+    const refreshSnapshots = () => {
+      cacheToyCountSnapshots().catch(error => console.warn('⚠️ Could not refresh toy count snapshots:', error));
+    };
+    const handleOnline = () => {
+      setOnline(true);
+      syncNow();
+      refreshSnapshots();
+    };
+    const handleOffline = () => setOnline(false);
+
+    window.addEventListener('online', handleOnline);
+    window.addEventListener('offline', handleOffline);
+
+    if (isOnline()) {
+      syncNow();
+      refreshSnapshots();
+    }
+
+    return () => {
+      window.removeEventListener('online', handleOnline);
+      window.removeEventListener('offline', handleOffline);
+    };
+  }, [syncNow]);
+
+  return { online, pendingReports, syncing, syncNow, refreshQueue: loadQueue };
+}
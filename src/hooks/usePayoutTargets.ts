@@ -0,0 +1,25 @@
+import { useCallback, useEffect, useState } from 'react';
+import type { PayoutTargetRow } from '@/lib/repositories';
+import { loadPayoutTargets, onPayoutTargetsChanged, resolvePayoutBand } from '@/lib/payoutTargets';
+
+export function usePayoutTargets() {
+  const [targets, setTargets] = useState<PayoutTargetRow[]>([]);
+  const [loaded, setLoaded] = useState(false);
+
+  const reload = useCallback(async () => {
+    setTargets(await loadPayoutTargets());
+    setLoaded(true);
+  }, []);
+
+  useEffect(() => {
+    reload();
+    return onPayoutTargetsChanged(reload);
+  }, [reload]);
+
+  const bandFor = useCallback(
+    (machine: { id: string; type?: string | null } | null | undefined) => resolvePayoutBand(targets, machine),
+    [targets]
+  );
+
+  return { targets, loaded, reload, bandFor };
+}
@@ -0,0 +1,57 @@
+// src/lib/adminUsers.ts
+// Client for the admin-users edge function. Privileged user operations run server-side
+// with the service-role key; the browser only sends the signed-in user's session.
+
+import { FunctionsHttpError } from '@supabase/supabase-js';
+import { supabase } from './supabase';
+
+export interface AdminUserProfile {
+  id: string;
+  email: string;
+  username?: string;
+  full_name?: string;
+  role?: string;
+  is_active?: boolean;
+  created_at: string;
+}
+
+export interface NewUserInput {
+  email: string;
+  password: string;
+  username: string;
+  full_name?: string;
+  role: string;
+}
+
+const callAdminUsers = async <T>(body: Record<string, unknown>): Promise<T> => {
+  const { data, error } = await supabase.functions.invoke('admin-users', { body });
+
+  if (error) {
+    // Non-2xx responses carry { error } in the body; surface that instead of the generic status text
+    if (error instanceof FunctionsHttpError) {
+      const payload = await (error.context as Response).json().catch(() => null);
+      throw new Error(payload?.error || error.message);
+    }
+    throw new Error(error.message);
+  }
+
+  return data.data as T;
+};
+
+export const createUser = (input: NewUserInput) =>
+  callAdminUsers<AdminUserProfile>({ action: 'create_user', ...input });
+
+export const setUserActive = (userId: string, isActive: boolean) =>
+  callAdminUsers<{ id: string; is_active: boolean }>({ action: 'set_active', user_id: userId, is_active: isActive });
+
+export const deleteUser = (userId: string) =>
+  callAdminUsers<{ id: string; partial: boolean; message?: string }>({ action: 'delete_user', user_id: userId });
+
+export const resetUserPassword = (userId: string, password: string) =>
+  callAdminUsers<{ id: string }>({ action: 'reset_password', user_id: userId, password });
+
+export const changeUserRole = (userId: string, role: string) =>
+  callAdminUsers<{ id: string; role: string }>({ action: 'change_role', user_id: userId, role });
+
+export const cleanupOrphanedUsers = () =>
+  callAdminUsers<{ removed: number }>({ action: 'cleanup_orphans' });
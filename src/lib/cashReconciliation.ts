@@ -0,0 +1,202 @@
+// src/lib/cashReconciliation.ts
+// What a machine should have taken since its last report, and whether the cash collected is
+// close enough to it. Collections outside the tolerance are filed in cash_reconciliations for
+// a manager to approve with a reason.
+//
+// Expected takings (cash + tokens) is the average of whichever of these we can work out:
+//   - prize value ÷ the middle of the machine's target payout band
+//   - the machine's usual takings per day × days since its last report
+// Tokens found in the machine are taken off to give the cash we expect to find.
+
+import { repositories, eq, gte, lte, type CashReconciliationSettingsRow } from './repositories';
+import { loadPayoutTargets, resolvePayoutBand, type PayoutBand } from './payoutTargets';
+import { calculateReport } from './payoutCalculations';
+
+export interface ReconciliationSettings {
+  tolerancePercent: number;
+  minVarianceAmount: number;
+  tokenPrice: number;
+  historyDays: number;
+}
+
+export const DEFAULT_RECONCILIATION_SETTINGS: ReconciliationSettings = {
+  tolerancePercent: 25,
+  minVarianceAmount: 20,
+  tokenPrice: 0.83,
+  historyDays: 90
+};
+
+export interface ExpectedCashBasis {
+  fromPrizes: number | null;
+  fromHistory: number | null;
+  tokenValue: number;
+  targetPayoutPercent: number;
+  takingsPerDay: number | null;
+  daysSinceLastReport: number | null;
+}
+
+// Everything about the machine needed to check a collection, loaded once per report
+export interface CashCheckContext {
+  settings: ReconciliationSettings;
+  band: PayoutBand;
+  takingsPerDay: number | null;
+  daysSinceLastReport: number | null;
+}
+
+export interface CashCollection {
+  collected: number;
+  prizeValue: number;
+  tokensInGame: number;
+}
+
+export interface CashCheck {
+  expectedCash: number | null;
+  basis: ExpectedCashBasis;
+  variance: number | null;
+  variancePercent: number | null;
+  outOfTolerance: boolean;
+}
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const daysBetween = (from: string, to: string) =>
+  Math.round((new Date(`${to.slice(0, 10)}T00:00:00Z`).getTime() - new Date(`${from.slice(0, 10)}T00:00:00Z`).getTime()) / DAY_MS);
+
+export const toReconciliationSettings = (row?: CashReconciliationSettingsRow | null): ReconciliationSettings =>
+  row
+    ? {
+        tolerancePercent: Number(row.tolerance_percent),
+        minVarianceAmount: Number(row.min_variance_amount),
+        tokenPrice: Number(row.token_price),
+        historyDays: Number(row.history_days)
+      }
+    : DEFAULT_RECONCILIATION_SETTINGS;
+
+export const loadReconciliationSettings = async (): Promise<ReconciliationSettings> => {
+  try {
+    const [row] = await repositories.cashReconciliationSettings.list({ limit: 1 });
+    return toReconciliationSettings(row);
+  } catch (error) {
+    console.warn('⚠️ Could not load reconciliation settings, using defaults:', error);
+    return DEFAULT_RECONCILIATION_SETTINGS;
+  }
+};
+
+/**
+ * Usual takings per day from earlier reports. Each report's takings cover the days since
+ * the report before it, so the first report only marks where the history starts.
+ */
+export const takingsPerDayFrom = (
+  reports: Array<{ machine_id: string; money_collected?: number | null; tokens_in_game?: number | null; report_date: string }>,
+  tokenPrice: number
+): number | null => {
+  if (reports.length < 2) return null;
+  const sorted = [...reports].sort((a, b) => a.report_date.localeCompare(b.report_date));
+  const days = daysBetween(sorted[0].report_date, sorted[sorted.length - 1].report_date);
+  if (days <= 0) return null;
+  const takings = sorted.slice(1).reduce((sum, report) => sum + calculateReport(report, { tokenValue: tokenPrice }).earnings, 0);
+  return round2(takings / days);
+};
+
+export const checkCashCollection = (context: CashCheckContext, collection: CashCollection): CashCheck => {
+  const { settings, band, takingsPerDay, daysSinceLastReport } = context;
+  const targetPayoutPercent = (band.min + band.max) / 2;
+
+  const fromPrizes = collection.prizeValue > 0 && targetPayoutPercent > 0
+    ? round2(collection.prizeValue / (targetPayoutPercent / 100))
+    : null;
+  const fromHistory = takingsPerDay !== null && daysSinceLastReport
+    ? round2(takingsPerDay * daysSinceLastReport)
+    : null;
+  const tokenValue = round2((collection.tokensInGame || 0) * settings.tokenPrice);
+
+  const basis: ExpectedCashBasis = {
+    fromPrizes,
+    fromHistory,
+    tokenValue,
+    targetPayoutPercent,
+    takingsPerDay,
+    daysSinceLastReport
+  };
+
+  const estimates = [fromPrizes, fromHistory].filter((value): value is number => value !== null);
+  if (estimates.length === 0) {
+    return { expectedCash: null, basis, variance: null, variancePercent: null, outOfTolerance: false };
+  }
+
+  const expectedTakings = estimates.reduce((sum, value) => sum + value, 0) / estimates.length;
+  const expectedCash = round2(Math.max(0, expectedTakings - tokenValue));
+  const variance = round2(collection.collected - expectedCash);
+  const variancePercent = expectedCash > 0 ? round2((variance / expectedCash) * 100) : null;
+
+  const outOfTolerance = Math.abs(variance) > settings.minVarianceAmount &&
+    (variancePercent === null || Math.abs(variancePercent) > settings.tolerancePercent);
+
+  return { expectedCash, basis, variance, variancePercent, outOfTolerance };
+};
+
+export const loadCashCheckContext = async (
+  machine: { id: string; type?: string | null },
+  reportDate: string,
+  excludeReportId?: string
+): Promise<CashCheckContext> => {
+  const settings = await loadReconciliationSettings();
+  const targets = await loadPayoutTargets();
+
+  const since = new Date(new Date(reportDate).getTime() - settings.historyDays * DAY_MS).toISOString().slice(0, 10);
+  const history = (await repositories.machineReports.findWhere(
+    [eq('machine_id', machine.id), gte('report_date', since), lte('report_date', reportDate)],
+    { select: 'id, machine_id, money_collected, tokens_in_game, report_date' }
+  )).filter(report => report.id !== excludeReportId);
+
+  const lastReportDate = history.map(report => report.report_date).sort().pop();
+
+  return {
+    settings,
+    band: resolvePayoutBand(targets, machine),
+    takingsPerDay: takingsPerDayFrom(history, settings.tokenPrice),
+    daysSinceLastReport: lastReportDate ? Math.max(1, daysBetween(lastReportDate, reportDate)) : null
+  };
+};
+
+/**
+ * Check a saved report and file it for reconciliation if the cash is out of tolerance.
+ * Never throws: a failed check must not stop the report itself being saved.
+ */
+export const reconcileMachineReport = async (report: {
+  id: string;
+  machine_id: string;
+  money_collected: number;
+  prize_value?: number | null;
+  tokens_in_game?: number | null;
+  report_date: string;
+}): Promise<CashCheck | null> => {
+  try {
+    const machine = await repositories.machines.getById(report.machine_id, 'id, type');
+    const context = await loadCashCheckContext(machine || { id: report.machine_id }, report.report_date, report.id);
+    const check = checkCashCollection(context, {
+      collected: report.money_collected || 0,
+      prizeValue: report.prize_value || 0,
+      tokensInGame: report.tokens_in_game || 0
+    });
+
+    if (check.outOfTolerance) {
+      await repositories.cashReconciliations.create({
+        machine_report_id: report.id,
+        machine_id: report.machine_id,
+        collected_amount: report.money_collected || 0,
+        expected_amount: check.expectedCash,
+        variance_amount: check.variance,
+        variance_percent: check.variancePercent,
+        expected_basis: check.basis
+      });
+      console.log('⚠️ Cash collection filed for reconciliation:', report.id, check);
+    }
+    return check;
+  } catch (error) {
+    console.warn('⚠️ Could not reconcile machine report:', error);
+    return null;
+  }
+};
@@ -0,0 +1,183 @@
+// src/lib/commissionLedger.ts
+// Venue commission balances from venue_reports (money owed) and commission_payments (money
+// paid). Payments tied to a report settle that report first; payments on account and any
+// overpayment are applied to the venue's oldest outstanding commission.
+
+import type { CommissionPaymentMethod, CommissionPaymentRow, VenueReportRow } from './repositories';
+
+export const PAYMENT_METHODS: Array<{ value: CommissionPaymentMethod; label: string }> = [
+  { value: 'bank_transfer', label: 'Bank Transfer' },
+  { value: 'cash', label: 'Cash' },
+  { value: 'cheque', label: 'Cheque' },
+  { value: 'direct_debit', label: 'Direct Debit' },
+  { value: 'other', label: 'Other' }
+];
+
+export const getPaymentMethodLabel = (method: string) =>
+  PAYMENT_METHODS.find(item => item.value === method)?.label || method;
+
+// Commission is due from the end of the period the report covers
+const dueDate = (report: VenueReportRow) => report.date_range_end || report.report_date;
+
+const roundCents = (amount: number) => Math.round(amount * 100) / 100;
+
+const daysBetween = (from: string, to: Date) =>
+  Math.floor((to.getTime() - new Date(from).getTime()) / (1000 * 60 * 60 * 24));
+
+export interface ReportBalance {
+  report: VenueReportRow;
+  paid: number;
+  outstanding: number;
+}
+
+// Outstanding commission per report for a single venue, oldest first, after allocating payments
+export const allocatePayments = (reports: VenueReportRow[], payments: CommissionPaymentRow[]): ReportBalance[] => {
+  const balances = [...reports]
+    .sort((a, b) => dueDate(a).localeCompare(dueDate(b)))
+    .map(report => ({ report, paid: 0, outstanding: report.venue_commission_amount || 0 }));
+
+  let credit = 0;
+  payments.forEach(payment => {
+    const target = payment.venue_report_id && balances.find(balance => balance.report.id === payment.venue_report_id);
+    if (!target) {
+      credit += payment.amount;
+      return;
+    }
+    const applied = Math.min(payment.amount, target.outstanding);
+    target.paid += applied;
+    target.outstanding -= applied;
+    credit += payment.amount - applied;
+  });
+
+  balances.forEach(balance => {
+    if (credit <= 0 || balance.outstanding <= 0) return;
+    const applied = Math.min(credit, balance.outstanding);
+    balance.paid += applied;
+    balance.outstanding -= applied;
+    credit -= applied;
+  });
+
+  return balances.map(balance => ({
+    ...balance,
+    paid: roundCents(balance.paid),
+    outstanding: roundCents(balance.outstanding)
+  }));
+};
+
+export interface VenueAging {
+  venue_id: string;
+  venue_name: string;
+  current: number;    // 0–30 days
+  days31to60: number;
+  over60: number;
+  total: number;
+  // Money paid on account that no report has used yet
+  credit: number;
+  oldestDays: number;
+}
+
+export const buildAgingSummary = (
+  reports: VenueReportRow[],
+  payments: CommissionPaymentRow[],
+  asOf: Date = new Date()
+): VenueAging[] => {
+  const venueIds = Array.from(new Set([...reports.map(r => r.venue_id), ...payments.map(p => p.venue_id)]));
+
+  return venueIds.map(venueId => {
+    const venueReports = reports.filter(r => r.venue_id === venueId);
+    const venuePayments = payments.filter(p => p.venue_id === venueId);
+    const aging: VenueAging = {
+      venue_id: venueId,
+      venue_name: venueReports[0]?.venue_name || 'Unknown Venue',
+      current: 0,
+      days31to60: 0,
+      over60: 0,
+      total: 0,
+      credit: 0,
+      oldestDays: 0
+    };
+
+    allocatePayments(venueReports, venuePayments).forEach(({ report, outstanding }) => {
+      if (outstanding <= 0) return;
+      const days = Math.max(0, daysBetween(dueDate(report), asOf));
+      if (days <= 30) aging.current += outstanding;
+      else if (days <= 60) aging.days31to60 += outstanding;
+      else aging.over60 += outstanding;
+      aging.total += outstanding;
+      aging.oldestDays = Math.max(aging.oldestDays, days);
+    });
+
+    const owed = venueReports.reduce((sum, r) => sum + (r.venue_commission_amount || 0), 0);
+    const paid = venuePayments.reduce((sum, p) => sum + p.amount, 0);
+    aging.credit = roundCents(Math.max(0, paid - owed));
+    aging.current = roundCents(aging.current);
+    aging.days31to60 = roundCents(aging.days31to60);
+    aging.over60 = roundCents(aging.over60);
+    aging.total = roundCents(aging.total);
+    return aging;
+  }).sort((a, b) => b.total - a.total);
+};
+
+export interface StatementLine {
+  date: string;
+  type: 'opening' | 'report' | 'payment';
+  description: string;
+  charge: number;
+  payment: number;
+  balance: number;
+}
+
+// Running balance for one venue: commission raises it, payments lower it. Activity before
+// `from` is carried forward as a single opening balance line.
+export const buildVenueStatement = (
+  reports: VenueReportRow[],
+  payments: CommissionPaymentRow[],
+  period: { from?: string; to?: string } = {}
+): StatementLine[] => {
+  const entries = [
+    ...reports.map(report => ({
+      date: dueDate(report).slice(0, 10),
+      type: 'report' as const,
+      description: `Commission ${new Date(report.date_range_start).toLocaleDateString()} – ${new Date(report.date_range_end).toLocaleDateString()} (${report.venue_commission_percentage}% of $${(report.total_revenue || 0).toFixed(2)})`,
+      charge: report.venue_commission_amount || 0,
+      payment: 0
+    })),
+    ...payments.map(payment => ({
+      date: payment.paid_at.slice(0, 10),
+      type: 'payment' as const,
+      description: [
+        `Payment – ${getPaymentMethodLabel(payment.method)}`,
+        payment.reference ? `ref ${payment.reference}` : null,
+        payment.venue_report_id ? null : 'on account'
+      ].filter(Boolean).join(', '),
+      charge: 0,
+      payment: payment.amount
+    }))
+  ].sort((a, b) => a.date.localeCompare(b.date) || (a.type === 'report' ? -1 : 1));
+
+  let balance = 0;
+  const lines: StatementLine[] = [];
+
+  entries.forEach(entry => {
+    balance = roundCents(balance + entry.charge - entry.payment);
+    if (period.from && entry.date < period.from) return;
+    if (period.to && entry.date > period.to) return;
+    lines.push({ ...entry, balance });
+  });
+
+  if (period.from) {
+    const opening = entries
+      .filter(entry => entry.date < period.from)
+      .reduce((sum, entry) => sum + entry.charge - entry.payment, 0);
+    lines.unshift({
+      date: period.from,
+      type: 'opening',
+      description: 'Balance brought forward',
+      charge: 0,
+      payment: 0,
+      balance: roundCents(opening)
+    });
+  }
+
+  return lines;
+};
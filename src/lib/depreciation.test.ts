@@ -0,0 +1,56 @@
+import { describe, expect, it } from 'vitest';
+import { accumulatedDepreciation, bookValue, depreciationProblem, type DepreciableAsset } from './depreciation';
+
+const asset = (overrides: Partial<DepreciableAsset>): DepreciableAsset => ({
+  purchase_cost: 1000,
+  purchase_date: '2024-01-01',
+  depreciation_method: 'straight_line',
+  useful_life_years: 5,
+  residual_value: 100,
+  ...overrides
+});
+
+describe('bookValue', () => {
+  it('takes the same amount off every year on straight line', () => {
+    expect(bookValue(asset({}), '2024-01-01')).toBe(1000);
+    expect(bookValue(asset({}), '2026-01-01')).toBe(639.75);
+    expect(accumulatedDepreciation(asset({}), '2026-01-01')).toBe(360.25);
+  });
+
+  it('takes a share of what is left each year on diminishing value', () => {
+    const item = asset({ depreciation_method: 'diminishing_value' });
+    expect(bookValue(item, '2025-01-01')).toBe(599.37);
+    expect(bookValue(item, '2026-01-01')).toBe(359.75);
+  });
+
+  it('never goes below the residual value', () => {
+    expect(bookValue(asset({}), '2034-01-01')).toBe(100);
+    expect(bookValue(asset({ depreciation_method: 'diminishing_value' }), '2034-01-01')).toBe(100);
+  });
+
+  it('depreciates a write-down over the useful life that is left', () => {
+    const item = asset({ written_down_value: 500, written_down_on: '2025-01-01' });
+    expect(bookValue(item, '2025-01-01')).toBe(500);
+    expect(bookValue(item, '2026-01-01')).toBe(400.02);
+    expect(bookValue(item, '2030-01-01')).toBe(100);
+  });
+
+  it('ignores a write-down made after the valuation date', () => {
+    const item = asset({ written_down_value: 500, written_down_on: '2025-06-01' });
+    expect(bookValue(item, '2025-01-01')).toBe(bookValue(asset({}), '2025-01-01'));
+  });
+
+  it('keeps the value entered by hand without a method', () => {
+    expect(bookValue(asset({ depreciation_method: null, current_value: 750 }), '2026-01-01')).toBe(750);
+    expect(bookValue(asset({ depreciation_method: null }), '2026-01-01')).toBe(1000);
+  });
+});
+
+describe('depreciationProblem', () => {
+  it('needs a cost, date and useful life to depreciate', () => {
+    expect(depreciationProblem(asset({}))).toBeNull();
+    expect(depreciationProblem(asset({ purchase_date: null }))).toBe('Depreciation needs a purchase cost and date');
+    expect(depreciationProblem(asset({ useful_life_years: 0 }))).toBe('Enter a useful life in years');
+    expect(depreciationProblem(asset({ residual_value: 2000 }))).toBe('Residual value can\'t be more than the purchase cost');
+  });
+});
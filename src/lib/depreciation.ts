@@ -0,0 +1,91 @@
+// src/lib/depreciation.ts
+// Book values for machines and hire equipment. Straight line takes the same amount off every
+// year until the useful life is used up; diminishing value takes a fixed share of what's left
+// each year, at twice the straight-line rate (2 ÷ useful life). Neither goes below the residual
+// value. A write-down from a return inspection becomes the new starting point, depreciated over
+// whatever useful life is left, for dates from the write-down on. Assets with no method keep the
+// value entered by hand.
+
+import { differenceInCalendarDays, parseISO } from 'date-fns';
+import type { DepreciationMethod } from './repositories';
+
+export const DEPRECIATION_METHODS: Array<{ value: DepreciationMethod; label: string }> = [
+  { value: 'straight_line', label: 'Straight line' },
+  { value: 'diminishing_value', label: 'Diminishing value' }
+];
+
+export interface DepreciableAsset {
+  purchase_cost?: number | string | null;
+  purchase_date?: string | null;
+  depreciation_method?: DepreciationMethod | null;
+  useful_life_years?: number | string | null;
+  residual_value?: number | string | null;
+  current_value?: number | string | null;
+  written_down_value?: number | string | null;
+  written_down_on?: string | null;
+}
+
+const DAYS_PER_YEAR = 365.25;
+
+const num = (value: number | string | null | undefined) =>
+  value === null || value === undefined || value === '' ? null : Number(value);
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+const toDate = (date: Date | string) => (typeof date === 'string' ? parseISO(date) : date);
+
+const yearsBetween = (from: string, to: Date | string) =>
+  Math.max(0, differenceInCalendarDays(toDate(to), parseISO(from)) / DAYS_PER_YEAR);
+
+export const depreciationLabel = (method?: DepreciationMethod | null) =>
+  DEPRECIATION_METHODS.find(option => option.value === method)?.label || 'Not depreciated';
+
+// Has everything the book value is worked out from
+export const isDepreciating = (asset: DepreciableAsset) =>
+  !!asset.depreciation_method && num(asset.purchase_cost) !== null && !!asset.purchase_date && (num(asset.useful_life_years) ?? 0) > 0;
+
+// null when the asset has neither a value nor a cost
+export const bookValue = (asset: DepreciableAsset, asOf: Date | string = new Date()): number | null => {
+  if (!isDepreciating(asset)) return num(asset.current_value) ?? num(asset.purchase_cost);
+
+  const life = num(asset.useful_life_years) as number;
+  const writtenDown = num(asset.written_down_value);
+  // A write-down made after asOf hadn't happened yet
+  const rebased = writtenDown !== null && !!asset.written_down_on &&
+    differenceInCalendarDays(toDate(asOf), parseISO(asset.written_down_on)) >= 0;
+  const base = rebased ? writtenDown : (num(asset.purchase_cost) as number);
+  const since = rebased ? asset.written_down_on : asset.purchase_date;
+  const residual = Math.min(num(asset.residual_value) ?? 0, base);
+  const elapsed = yearsBetween(since, asOf);
+
+  let value: number;
+  if (asset.depreciation_method === 'straight_line') {
+    const lifeLeft = life - (rebased ? yearsBetween(asset.purchase_date, since) : 0);
+    value = lifeLeft > 0 ? base - ((base - residual) * elapsed) / lifeLeft : residual;
+  } else {
+    value = base * Math.pow(1 - Math.min(1, 2 / life), elapsed);
+  }
+  return round2(Math.min(base, Math.max(residual, value)));
+};
+
+// Cost less book value; negative after a write-up. null without a cost.
+export const accumulatedDepreciation = (asset: DepreciableAsset, asOf: Date | string = new Date()): number | null => {
+  const cost = num(asset.purchase_cost);
+  const value = bookValue(asset, asOf);
+  return cost === null || value === null ? null : round2(cost - value);
+};
+
+// Why the depreciation settings can't be saved, or null when they can
+export const depreciationProblem = (asset: DepreciableAsset): string | null => {
+  const cost = num(asset.purchase_cost);
+  const life = num(asset.useful_life_years);
+  const residual = num(asset.residual_value);
+  if ((cost !== null && (isNaN(cost) || cost < 0)) || (residual !== null && (isNaN(residual) || residual < 0))) {
+    return 'Purchase cost and residual value must be positive amounts';
+  }
+  if (!asset.depreciation_method) return null;
+  if (cost === null || !asset.purchase_date) return 'Depreciation needs a purchase cost and date';
+  if (life === null || isNaN(life) || life <= 0) return 'Enter a useful life in years';
+  if (residual !== null && residual > cost) return 'Residual value can\'t be more than the purchase cost';
+  return null;
+};
@@ -0,0 +1,173 @@
+// src/lib/equipmentHire.ts
+// Hire pricing. Days are counted inclusively (out and back the same day is one day). The days
+// up to the expected return date are charged at the contract's rates: whole months (30 days)
+// at the monthly rate, then whole weeks, then days, rounding up to the next week or month
+// whenever that comes out cheaper. Days past the expected return date are charged at the late
+// fee instead, which is the daily rate when the contract doesn't set one.
+//
+// Overdue hires are chased with escalating reminders: a friendly reminder from the first day
+// overdue, a second notice after a week and a final notice after a fortnight. Each level is
+// sent once; a level skipped because nobody chased in time is superseded by the next. An email
+// that failed to send doesn't count, so its level stays due.
+
+import { differenceInCalendarDays, format, parseISO } from 'date-fns';
+import type { HireContractRow, HireInvoiceLine, HireInvoiceRow, HireReminderRow } from './repositories';
+
+type HireRates = Pick<HireContractRow, 'daily_rate' | 'weekly_rate' | 'monthly_rate'>;
+
+export interface HireCharges {
+  hireDays: number;
+  lateDays: number;
+  lines: HireInvoiceLine[];
+  subtotal: number;
+  lateFee: number;
+}
+
+export const DAYS_PER_WEEK = 7;
+export const DAYS_PER_MONTH = 30;
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+const rate = (value: number | string | null | undefined) =>
+  value === null || value === undefined || value === '' ? null : Number(value);
+
+export const hireDaysBetween = (start: string, end: string): number =>
+  Math.max(differenceInCalendarDays(parseISO(end), parseISO(start)) + 1, 0);
+
+// Days past the expected return date, 0 if returned on time
+export const lateDaysFor = (expectedReturnDate: string, returnedDate: string): number =>
+  Math.max(differenceInCalendarDays(parseISO(returnedDate), parseISO(expectedReturnDate)), 0);
+
+// The cheapest mix of months, weeks and days covering the number of days
+export const ratePeriods = (days: number, rates: HireRates) => {
+  const daily = rate(rates.daily_rate) || 0;
+  const weekly = rate(rates.weekly_rate);
+  const monthly = rate(rates.monthly_rate);
+  const cost = (p: { months: number; weeks: number; days: number }) =>
+    p.months * (monthly || 0) + p.weeks * (weekly || 0) + p.days * daily;
+
+  let months = monthly !== null ? Math.floor(days / DAYS_PER_MONTH) : 0;
+  const rest = days - months * DAYS_PER_MONTH;
+  let weeks = weekly !== null ? Math.floor(rest / DAYS_PER_WEEK) : 0;
+  let extraDays = rest - weeks * DAYS_PER_WEEK;
+
+  if (weekly !== null && extraDays > 0 && extraDays * daily > weekly) {
+    weeks += 1;
+    extraDays = 0;
+  }
+  if (monthly !== null && (weeks > 0 || extraDays > 0) && cost({ months: 0, weeks, days: extraDays }) > monthly) {
+    months += 1;
+    weeks = 0;
+    extraDays = 0;
+  }
+  return { months, weeks, days: extraDays, cost: round2(cost({ months, weeks, days: extraDays })) };
+};
+
+const formatDate = (date: string) => format(parseISO(date), 'd MMM yyyy');
+const plural = (count: number, unit: string) => `${count} ${unit}${count === 1 ? '' : 's'}`;
+
+export const hireCharges = (
+  contract: Pick<HireContractRow, 'daily_rate' | 'weekly_rate' | 'monthly_rate' | 'late_fee_per_day' | 'start_date' | 'expected_return_date'>,
+  returnedDate: string
+): HireCharges => {
+  const totalDays = hireDaysBetween(contract.start_date, returnedDate);
+  const lateDays = Math.min(lateDaysFor(contract.expected_return_date, returnedDate), totalDays);
+  const hireDays = totalDays - lateDays;
+  const periods = ratePeriods(hireDays, contract);
+  const lines: HireInvoiceLine[] = [];
+
+  const hireLine = (count: number, unit: string, unitPrice: number | null) => {
+    if (count <= 0) return;
+    const price = unitPrice || 0;
+    lines.push({
+      kind: 'hire',
+      description: `Hire, ${plural(count, unit)} at $${price.toFixed(2)}/${unit}`,
+      quantity: count,
+      unit,
+      unit_price: price,
+      amount: round2(count * price)
+    });
+  };
+  hireLine(periods.months, 'month', rate(contract.monthly_rate));
+  hireLine(periods.weeks, 'week', rate(contract.weekly_rate));
+  hireLine(periods.days, 'day', rate(contract.daily_rate));
+
+  const lateRate = rate(contract.late_fee_per_day) ?? (rate(contract.daily_rate) || 0);
+  if (lateDays > 0) {
+    lines.push({
+      kind: 'late_fee',
+      description: `Late return, ${plural(lateDays, 'day')} after ${formatDate(contract.expected_return_date)} at $${lateRate.toFixed(2)}/day`,
+      quantity: lateDays,
+      unit: 'day',
+      unit_price: lateRate,
+      amount: round2(lateDays * lateRate)
+    });
+  }
+
+  const lateFee = lines.filter(line => line.kind === 'late_fee').reduce((sum, line) => sum + line.amount, 0);
+  return {
+    hireDays,
+    lateDays,
+    lines,
+    subtotal: round2(lines.reduce((sum, line) => sum + line.amount, 0)),
+    lateFee: round2(lateFee)
+  };
+};
+
+// What the hire has cost so far, for contracts still out
+export const accruedCharges = (contract: Parameters<typeof hireCharges>[0], today = format(new Date(), 'yyyy-MM-dd')) =>
+  hireCharges(contract, today < contract.start_date ? contract.start_date : today);
+
+// Invoiced hire and late fees; voided invoices don't count
+export const hireRevenue = (invoices: Pick<HireInvoiceRow, 'subtotal' | 'status'>[]) =>
+  round2(invoices.filter(invoice => invoice.status !== 'void').reduce((sum, invoice) => sum + Number(invoice.subtotal || 0), 0));
+
+export const isOverdue = (contract: Pick<HireContractRow, 'status' | 'expected_return_date'>, today = format(new Date(), 'yyyy-MM-dd')) =>
+  contract.status === 'active' && contract.expected_return_date < today;
+
+// Hired without a contract (set by hand on the equipment) and past its return date
+export const isEquipmentOverdue = (
+  equipment: { status: string; expected_return_date?: string | null },
+  today = format(new Date(), 'yyyy-MM-dd')
+) => equipment.status === 'hired' && !!equipment.expected_return_date && equipment.expected_return_date < today;
+
+export interface ReminderLevel {
+  level: number;
+  afterDays: number;
+  label: string;
+}
+
+export const REMINDER_LEVELS: ReminderLevel[] = [
+  { level: 1, afterDays: 1, label: 'Friendly reminder' },
+  { level: 2, afterDays: 7, label: 'Second notice' },
+  { level: 3, afterDays: 14, label: 'Final notice' }
+];
+
+export const reminderLevelFor = (daysOverdue: number): ReminderLevel | null =>
+  REMINDER_LEVELS.filter(level => daysOverdue >= level.afterDays).pop() || null;
+
+export interface OverdueHire {
+  contract: HireContractRow;
+  daysOverdue: number;
+  lateFee: number;
+  lastReminder: HireReminderRow | null;
+  // The level reached and not yet sent, null when the customer is up to date
+  reminderDue: ReminderLevel | null;
+}
+
+export const overdueWatchlist = (contracts: HireContractRow[], today = format(new Date(), 'yyyy-MM-dd')): OverdueHire[] =>
+  contracts
+    .filter(contract => isOverdue(contract, today))
+    .map(contract => {
+      const daysOverdue = lateDaysFor(contract.expected_return_date, today);
+      const reminders = [...(contract.equipment_hire_reminders || [])].sort((a, b) => b.sent_at.localeCompare(a.sent_at));
+      const sentLevel = Math.max(0, ...reminders.filter(reminder => !reminder.delivery_error).map(reminder => reminder.level));
+      const reached = reminderLevelFor(daysOverdue);
+      return {
+        contract,
+        daysOverdue,
+        lateFee: hireCharges(contract, today).lateFee,
+        lastReminder: reminders[0] || null,
+        reminderDue: reached && reached.level > sentLevel ? reached : null
+      };
+    })
+    .sort((a, b) => b.daysOverdue - a.daysOverdue);
@@ -0,0 +1,34 @@
+// src/lib/equipmentInspection.ts
+// The check-in inspection done when hired equipment comes back. A failed check or a damaged
+// condition suggests damage, but the inspector decides: a scuff may fail "no visible damage"
+// without needing a repair job.
+
+import type { InspectionChecklistItem } from './repositories';
+
+export const EQUIPMENT_CONDITIONS = [
+  { value: 'excellent', label: 'Excellent' },
+  { value: 'good', label: 'Good' },
+  { value: 'fair', label: 'Fair' },
+  { value: 'poor', label: 'Poor' },
+  { value: 'damaged', label: 'Damaged' },
+  { value: 'needs_repair', label: 'Needs Repair' }
+];
+
+export const RETURN_CHECKLIST = [
+  'All parts and accessories returned',
+  'No visible damage',
+  'Powers on and works',
+  'Clean',
+  'Serial number / asset tag intact'
+];
+
+const DAMAGED_CONDITIONS = ['damaged', 'needs_repair'];
+
+export const freshChecklist = (): InspectionChecklistItem[] =>
+  RETURN_CHECKLIST.map(item => ({ item, passed: true }));
+
+export const failedChecks = (checklist: InspectionChecklistItem[]) =>
+  checklist.filter(check => !check.passed).map(check => check.item);
+
+export const damageSuspected = (checklist: InspectionChecklistItem[], condition: string) =>
+  failedChecks(checklist).length > 0 || DAMAGED_CONDITIONS.includes(condition);
@@ -0,0 +1,158 @@
+// src/lib/fleetValuation.ts
+// Fleet valuation for the accountant: every machine and piece of hire equipment at its book
+// value on a date, totalled per venue and per category, with a CSV export. Assets bought after
+// the date, and equipment retired or lost by then, are off the books and left out.
+
+import { repositories, type DepreciationMethod, type EquipmentRow, type MachineRow } from './repositories';
+import { accumulatedDepreciation, bookValue, depreciationLabel } from './depreciation';
+
+export type FleetAssetKind = 'machine' | 'equipment';
+export type FleetGrouping = 'venue' | 'category';
+
+export interface FleetAsset {
+  id: string;
+  kind: FleetAssetKind;
+  name: string;
+  // Serial number or asset tag
+  reference: string | null;
+  category: string;
+  venue: string;
+  purchaseDate: string | null;
+  method: DepreciationMethod | null;
+  usefulLifeYears: number | null;
+  cost: number;
+  accumulated: number;
+  bookValue: number;
+}
+
+export interface FleetValuationGroup {
+  label: string;
+  count: number;
+  cost: number;
+  accumulated: number;
+  bookValue: number;
+}
+
+const OFF_BOOKS_EQUIPMENT = ['retired', 'lost'];
+export const NO_VENUE = 'No venue';
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+const humanise = (key: string) => {
+  const words = key.replace(/_/g, ' ').trim();
+  return words ? words.charAt(0).toUpperCase() + words.slice(1) : 'Uncategorised';
+};
+
+const asset = (
+  kind: FleetAssetKind,
+  row: MachineRow | EquipmentRow,
+  details: Pick<FleetAsset, 'reference' | 'category' | 'venue'>,
+  asOf: string
+): FleetAsset => ({
+  id: row.id,
+  kind,
+  name: row.name,
+  ...details,
+  purchaseDate: row.purchase_date || null,
+  method: row.depreciation_method || null,
+  usefulLifeYears: row.useful_life_years ? Number(row.useful_life_years) : null,
+  cost: Number(row.purchase_cost || 0),
+  accumulated: accumulatedDepreciation(row, asOf) ?? 0,
+  bookValue: bookValue(row, asOf) ?? 0
+});
+
+const boughtBy = (row: MachineRow | EquipmentRow, asOf: string) => !row.purchase_date || row.purchase_date.slice(0, 10) <= asOf;
+
+// Equipment retired or lost before disposed_on was kept counts as gone on any date
+const disposedBy = (item: EquipmentRow, asOf: string) =>
+  OFF_BOOKS_EQUIPMENT.includes(item.status) && (!item.disposed_on || item.disposed_on <= asOf);
+
+export const fleetAssets = (machines: MachineRow[], equipment: EquipmentRow[], asOf: string): FleetAsset[] => [
+  ...machines.filter(machine => boughtBy(machine, asOf)).map(machine => asset('machine', machine, {
+    reference: machine.serial_number || null,
+    category: `Machine · ${machine.type || 'Other'}`,
+    venue: machine.venues?.name || NO_VENUE
+  }, asOf)),
+  ...equipment
+    .filter(item => boughtBy(item, asOf) && !disposedBy(item, asOf))
+    .map(item => asset('equipment', item, {
+      reference: item.asset_tag || item.serial_number || null,
+      category: `Equipment · ${humanise(item.category || '')}`,
+      venue: item.venue?.name || NO_VENUE
+    }, asOf))
+].sort((a, b) => a.name.localeCompare(b.name));
+
+export const fleetTotals = (assets: FleetAsset[], label = 'Total'): FleetValuationGroup => ({
+  label,
+  count: assets.length,
+  cost: round2(assets.reduce((sum, entry) => sum + entry.cost, 0)),
+  accumulated: round2(assets.reduce((sum, entry) => sum + entry.accumulated, 0)),
+  bookValue: round2(assets.reduce((sum, entry) => sum + entry.bookValue, 0))
+});
+
+// Alphabetical, with assets that aren't at a venue last
+export const groupFleet = (assets: FleetAsset[], by: FleetGrouping): FleetValuationGroup[] => {
+  const groups = new Map<string, FleetAsset[]>();
+  assets.forEach(entry => {
+    const key = by === 'venue' ? entry.venue : entry.category;
+    groups.set(key, [...(groups.get(key) || []), entry]);
+  });
+  return [...groups.entries()]
+    .map(([label, members]) => fleetTotals(members, label))
+    .sort((a, b) => (a.label === NO_VENUE ? 1 : b.label === NO_VENUE ? -1 : a.label.localeCompare(b.label)));
+};
+
+export const loadFleetValuation = async (asOf: string): Promise<FleetAsset[]> => {
+  const [machines, equipment] = await Promise.all([
+    repositories.machines.list(),
+    repositories.equipment.list()
+  ]);
+  return fleetAssets(machines, equipment, asOf);
+};
+
+const csvCell = (value: string | number | null) => {
+  const text = value === null ? '' : String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+// One line per asset, then the venue and category subtotals underneath
+export const fleetValuationCsv = (assets: FleetAsset[], asOf: string): string => {
+  const money = (value: number) => value.toFixed(2);
+  const lines: Array<Array<string | number | null>> = [
+    [`Fleet valuation as at ${asOf}`],
+    [],
+    ['Type', 'Name', 'Reference', 'Category', 'Venue', 'Purchase date', 'Method', 'Useful life (years)', 'Cost', 'Accumulated depreciation', 'Book value'],
+    ...assets.map(entry => [
+      entry.kind === 'machine' ? 'Machine' : 'Equipment',
+      entry.name,
+      entry.reference,
+      entry.category,
+      entry.venue,
+      entry.purchaseDate,
+      depreciationLabel(entry.method),
+      entry.usefulLifeYears,
+      money(entry.cost),
+      money(entry.accumulated),
+      money(entry.bookValue)
+    ])
+  ];
+  (['venue', 'category'] as FleetGrouping[]).forEach(by => {
+    lines.push([], [by === 'venue' ? 'Venue' : 'Category', 'Assets', 'Cost', 'Accumulated depreciation', 'Book value']);
+    groupFleet(assets, by).forEach(group => lines.push([group.label, group.count, money(group.cost), money(group.accumulated), money(group.bookValue)]));
+  });
+  const total = fleetTotals(assets);
+  lines.push([], [total.label, total.count, money(total.cost), money(total.accumulated), money(total.bookValue)]);
+  return lines.map(line => line.map(csvCell).join(',')).join('\n');
+};
+
+// asOf is 'yyyy-MM-dd'
+export const fleetValuationFilename = (asOf: string, extension: 'csv' | 'pdf') => `fleet-valuation-${asOf}.${extension}`;
+
+export const downloadFleetValuationCsv = (assets: FleetAsset[], asOf: string): void => {
+  const url = URL.createObjectURL(new Blob([fleetValuationCsv(assets, asOf)], { type: 'text/csv' }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fleetValuationFilename(asOf, 'csv');
+  link.click();
+  URL.revokeObjectURL(url);
+};
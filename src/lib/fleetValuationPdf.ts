@@ -0,0 +1,108 @@
+// src/lib/fleetValuationPdf.ts
+// The fleet valuation as a PDF for the accountant: totals per venue and per category up front,
+// then the asset register behind them.
+
+import { jsPDF } from 'jspdf';
+import { format, parseISO } from 'date-fns';
+import { depreciationLabel } from './depreciation';
+import { fleetTotals, fleetValuationFilename, groupFleet, type FleetAsset, type FleetValuationGroup } from './fleetValuation';
+
+const money = (value: number) => `$${value.toLocaleString('en-AU', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+const day = (date: string) => format(parseISO(date), 'd MMM yyyy');
+
+const LEFT = 15;
+const RIGHT = 282;
+const PAGE_BOTTOM = 195;
+
+export const buildFleetValuationPdf = (assets: FleetAsset[], asOf: string): jsPDF => {
+  const doc = new jsPDF({ unit: 'mm', format: 'a4', orientation: 'landscape' });
+  let y = 20;
+
+  const newPageIfNeeded = (height: number) => {
+    if (y + height > PAGE_BOTTOM) {
+      doc.addPage();
+      y = 20;
+    }
+  };
+
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(18);
+  doc.text('Fleet Valuation', LEFT, y);
+  doc.setFont('helvetica', 'normal');
+  doc.setFontSize(10);
+  doc.text(`As at ${day(asOf)}`, RIGHT, y, { align: 'right' });
+  y += 6;
+  doc.text(`Prepared ${format(new Date(), 'd MMM yyyy')}`, RIGHT, y, { align: 'right' });
+
+  const summary = (title: string, groups: FleetValuationGroup[]) => {
+    newPageIfNeeded(20);
+    y += 10;
+    doc.setFont('helvetica', 'bold');
+    doc.text(title, LEFT, y);
+    doc.text('Assets', 150, y, { align: 'right' });
+    doc.text('Cost', 195, y, { align: 'right' });
+    doc.text('Accumulated depreciation', 240, y, { align: 'right' });
+    doc.text('Book value', RIGHT, y, { align: 'right' });
+    y += 2;
+    doc.line(LEFT, y, RIGHT, y);
+    [...groups, fleetTotals(assets)].forEach((group, index) => {
+      newPageIfNeeded(6);
+      y += 6;
+      doc.setFont('helvetica', index === groups.length ? 'bold' : 'normal');
+      doc.text(group.label, LEFT, y);
+      doc.text(String(group.count), 150, y, { align: 'right' });
+      doc.text(money(group.cost), 195, y, { align: 'right' });
+      doc.text(money(group.accumulated), 240, y, { align: 'right' });
+      doc.text(money(group.bookValue), RIGHT, y, { align: 'right' });
+    });
+  };
+
+  summary('By venue', groupFleet(assets, 'venue'));
+  summary('By category', groupFleet(assets, 'category'));
+
+  // Asset register
+  doc.addPage();
+  y = 20;
+  doc.setFontSize(12);
+  doc.setFont('helvetica', 'bold');
+  doc.text('Asset register', LEFT, y);
+  doc.setFontSize(9);
+  const header = () => {
+    y += 8;
+    doc.setFont('helvetica', 'bold');
+    doc.text('Asset', LEFT, y);
+    doc.text('Category', 85, y);
+    doc.text('Venue', 130, y);
+    doc.text('Purchased', 170, y);
+    doc.text('Method', 195, y);
+    doc.text('Cost', 240, y, { align: 'right' });
+    doc.text('Book value', RIGHT, y, { align: 'right' });
+    y += 2;
+    doc.line(LEFT, y, RIGHT, y);
+    doc.setFont('helvetica', 'normal');
+  };
+  header();
+
+  assets.forEach(entry => {
+    if (y + 5 > PAGE_BOTTOM) {
+      doc.addPage();
+      y = 12;
+      header();
+    }
+    y += 5;
+    const name = entry.reference ? `${entry.name} (${entry.reference})` : entry.name;
+    doc.text(doc.splitTextToSize(name, 68)[0], LEFT, y);
+    doc.text(doc.splitTextToSize(entry.category, 43)[0], 85, y);
+    doc.text(doc.splitTextToSize(entry.venue, 38)[0], 130, y);
+    doc.text(entry.purchaseDate ? day(entry.purchaseDate) : '—', 170, y);
+    doc.text(entry.method ? `${depreciationLabel(entry.method)}, ${entry.usefulLifeYears} yrs` : 'Not depreciated', 195, y);
+    doc.text(money(entry.cost), 240, y, { align: 'right' });
+    doc.text(money(entry.bookValue), RIGHT, y, { align: 'right' });
+  });
+
+  return doc;
+};
+
+export const downloadFleetValuationPdf = (assets: FleetAsset[], asOf: string): void => {
+  buildFleetValuationPdf(assets, asOf).save(fleetValuationFilename(asOf, 'pdf'));
+};
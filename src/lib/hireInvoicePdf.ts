@@ -0,0 +1,123 @@
+// src/lib/hireInvoicePdf.ts
+// Builds the PDF for a hire invoice from the saved invoice row, so a reprint always matches
+// what was issued even if the contract's rates are edited later.
+
+import { jsPDF } from 'jspdf';
+import { format, parseISO } from 'date-fns';
+import type { HireContractRow, HireInvoiceRow } from './repositories';
+
+const money = (value: number | string | null | undefined) => `$${Number(value || 0).toFixed(2)}`;
+const day = (date: string) => format(parseISO(date), 'd MMM yyyy');
+
+const DEPOSIT_NOTES: Record<string, string> = {
+  applied: 'Deposit applied to this invoice',
+  refunded: 'Deposit refunded on return',
+  forfeited: 'Deposit retained',
+  held: 'Deposit held'
+};
+
+export const buildHireInvoicePdf = (invoice: HireInvoiceRow, contract: HireContractRow): jsPDF => {
+  const doc = new jsPDF({ unit: 'mm', format: 'a4' });
+  const left = 15;
+  const right = 195;
+  let y = 20;
+
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(20);
+  doc.text('TAX INVOICE', left, y);
+  doc.setFontSize(11);
+  doc.text(invoice.invoice_number, right, y, { align: 'right' });
+
+  doc.setFont('helvetica', 'normal');
+  doc.setFontSize(10);
+  y += 7;
+  doc.text(`Issued ${day(invoice.issue_date)}`, right, y, { align: 'right' });
+  y += 5;
+  doc.text(`Contract ${contract.contract_number}`, right, y, { align: 'right' });
+
+  // Bill to
+  y += 10;
+  doc.setFont('helvetica', 'bold');
+  doc.text('Bill to', left, y);
+  doc.setFont('helvetica', 'normal');
+  const customer = [
+    contract.customer_name,
+    contract.customer_company,
+    ...(contract.customer_address ? contract.customer_address.split('\n') : []),
+    contract.customer_email,
+    contract.customer_phone
+  ].filter(Boolean) as string[];
+  customer.forEach(line => {
+    y += 5;
+    doc.text(line, left, y);
+  });
+
+  // Equipment and period
+  y += 10;
+  const equipment = contract.equipment_hire;
+  doc.setFont('helvetica', 'bold');
+  doc.text('Equipment', left, y);
+  doc.setFont('helvetica', 'normal');
+  y += 5;
+  doc.text(
+    [equipment?.name || 'Equipment', equipment?.serial_number && `S/N ${equipment.serial_number}`, equipment?.asset_tag && `Tag ${equipment.asset_tag}`]
+      .filter(Boolean).join('  ·  '),
+    left,
+    y
+  );
+  y += 5;
+  doc.text(`Hired ${day(invoice.period_start)} to ${day(invoice.period_end)} (due back ${day(contract.expected_return_date)})`, left, y);
+
+  // Line items
+  y += 12;
+  doc.setFont('helvetica', 'bold');
+  doc.text('Description', left, y);
+  doc.text('Qty', 130, y, { align: 'right' });
+  doc.text('Rate', 160, y, { align: 'right' });
+  doc.text('Amount', right, y, { align: 'right' });
+  y += 2;
+  doc.line(left, y, right, y);
+  doc.setFont('helvetica', 'normal');
+
+  invoice.line_items.forEach(line => {
+    const description = doc.splitTextToSize(line.description, 100) as string[];
+    if (y + description.length * 5 > 270) {
+      doc.addPage();
+      y = 20;
+    }
+    y += 6;
+    doc.text(description, left, y);
+    doc.text(String(line.quantity), 130, y, { align: 'right' });
+    doc.text(`${money(line.unit_price)}/${line.unit}`, 160, y, { align: 'right' });
+    doc.text(money(line.amount), right, y, { align: 'right' });
+    y += (description.length - 1) * 5;
+  });
+
+  y += 3;
+  doc.line(left, y, right, y);
+
+  // Totals
+  const total = (label: string, value: string, bold = false) => {
+    y += 6;
+    doc.setFont('helvetica', bold ? 'bold' : 'normal');
+    doc.text(label, 160, y, { align: 'right' });
+    doc.text(value, right, y, { align: 'right' });
+  };
+  total('Subtotal', money(invoice.subtotal));
+  if (Number(invoice.late_fee) > 0) total('incl. late fees', money(invoice.late_fee));
+  if (Number(invoice.deposit_applied) > 0) total('Less deposit', `-${money(invoice.deposit_applied)}`);
+  total('Total due', money(invoice.total_due), true);
+
+  if (Number(contract.deposit_amount) > 0) {
+    y += 10;
+    doc.setFont('helvetica', 'normal');
+    doc.setFontSize(9);
+    doc.text(`${DEPOSIT_NOTES[contract.deposit_status] || 'Deposit'}: ${money(contract.deposit_amount)}`, left, y);
+  }
+
+  return doc;
+};
+
+export const downloadHireInvoicePdf = (invoice: HireInvoiceRow, contract: HireContractRow): void => {
+  buildHireInvoicePdf(invoice, contract).save(`${invoice.invoice_number}-${contract.customer_name.replace(/[^a-z0-9]+/gi, '-')}.pdf`);
+};
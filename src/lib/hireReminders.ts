@@ -0,0 +1,48 @@
+// src/lib/hireReminders.ts
+// Sends or logs the reminder an overdue hire has reached. Every attempt is recorded; an email
+// that couldn't be sent is kept with its delivery_error and doesn't count towards escalation.
+
+import { FunctionsHttpError } from '@supabase/supabase-js';
+import { supabase } from './supabase';
+import { repositories, type HireReminderChannel, type HireReminderRow } from './repositories';
+import type { OverdueHire } from './equipmentHire';
+
+const emailReminder = async ({ contract, daysOverdue, lateFee, reminderDue }: OverdueHire) => {
+  const { error } = await supabase.functions.invoke('send-hire-reminder-email', {
+    body: {
+      contract_id: contract.id,
+      subject: reminderDue.label,
+      days_overdue: daysOverdue,
+      late_fee: lateFee
+    }
+  });
+  if (!error) return;
+  if (error instanceof FunctionsHttpError) {
+    const payload = await (error.context as Response).json().catch(() => null);
+    throw new Error(payload?.error || error.message);
+  }
+  throw new Error(error.message);
+};
+
+export const sendHireReminder = async (entry: OverdueHire, channel: HireReminderChannel): Promise<HireReminderRow> => {
+  const { contract, daysOverdue, reminderDue } = entry;
+  let deliveryError: string | null = null;
+
+  if (channel === 'email') {
+    console.log('📧 Sending hire reminder...');
+    try {
+      await emailReminder(entry);
+    } catch (error) {
+      console.warn('⚠️ Hire reminder email failed:', error);
+      deliveryError = (error as Error).message || 'The email could not be sent';
+    }
+  }
+
+  return repositories.hireReminders.create({
+    contract_id: contract.id,
+    level: reminderDue.level,
+    channel,
+    days_overdue: daysOverdue,
+    delivery_error: deliveryError
+  });
+};
@@ -0,0 +1,219 @@
+// src/lib/maintenancePlans.ts
+// Preventive maintenance. Each plan repeats for every machine of its type, counted from when
+// the task was last done on that machine: by days, or by toys dispensed on the machine_reports
+// since then. When a plan comes due the scheduler opens a job and links it in
+// maintenance_plan_jobs along with the date it was due by, which is what compliance is judged on.
+
+import { addDays, differenceInCalendarDays, format, parseISO } from 'date-fns';
+import {
+  repositories,
+  gte,
+  inList,
+  DatabaseError,
+  type MaintenancePlanJobRow,
+  type MaintenancePlanRow,
+  type MachineRow
+} from './repositories';
+
+export type MaintenanceMachine = Pick<MachineRow, 'id' | 'name' | 'type' | 'created_at'>;
+
+export interface PlayReport {
+  machine_id: string;
+  toys_dispensed: number;
+  created_at: string;
+}
+
+// ok: not due yet · due: a job should be opened · scheduled: job open, not yet late ·
+// overdue: job open past its due date
+export type MaintenanceState = 'ok' | 'due' | 'scheduled' | 'overdue';
+
+export interface MaintenanceStatus {
+  plan: MaintenancePlanRow;
+  machineId: string;
+  // When the current cycle started: the last completion, else when the plan or machine started
+  cycleStart: string;
+  lastDoneAt: string | null;
+  openLink: MaintenancePlanJobRow | null;
+  // Days trigger: always known. Plays trigger: only once the counter has passed the interval.
+  dueDate: string | null;
+  playsSince: number | null;
+  state: MaintenanceState;
+}
+
+export type MaintenanceCompliance = 'on_time' | 'late' | 'open' | 'overdue' | 'skipped';
+
+const CLOSED_JOB_STATUSES = ['completed', 'cancelled'];
+
+const toDate = (value: Date) => format(value, 'yyyy-MM-dd');
+const dateOf = (timestamp: string) => toDate(parseISO(timestamp));
+const later = (a: string, b?: string | null) => (b && b > a ? b : a);
+
+export const isLinkOpen = (link: MaintenancePlanJobRow) =>
+  !link.jobs || !CLOSED_JOB_STATUSES.includes(link.jobs.status);
+
+export const describeTrigger = (plan: Pick<MaintenancePlanRow, 'trigger_type' | 'interval_days' | 'interval_plays'>) =>
+  plan.trigger_type === 'days'
+    ? `Every ${plan.interval_days} day${plan.interval_days === 1 ? '' : 's'}`
+    : `Every ${(plan.interval_plays || 0).toLocaleString()} plays`;
+
+/**
+ * On time when completed on or before the date it was due by. A cancelled job skips the
+ * cycle: it counts as neither, and the next cycle starts from when the job was opened.
+ */
+export const linkCompliance = (link: MaintenancePlanJobRow, today = toDate(new Date())): MaintenanceCompliance => {
+  const job = link.jobs;
+  if (job?.status === 'cancelled') return 'skipped';
+  if (job?.status === 'completed') {
+    const completedOn = job.completed_at ? dateOf(job.completed_at) : today;
+    return completedOn <= link.due_date ? 'on_time' : 'late';
+  }
+  return today > link.due_date ? 'overdue' : 'open';
+};
+
+// Where a finished link leaves the clock: at completion, or when a cancelled job was opened
+const cycleEndOf = (link: MaintenancePlanJobRow): string | null => {
+  if (link.jobs?.status === 'completed') return link.jobs.completed_at || link.created_at;
+  if (link.jobs?.status === 'cancelled') return link.created_at;
+  return null;
+};
+
+export const evaluatePlan = (
+  plan: MaintenancePlanRow,
+  machine: MaintenanceMachine,
+  links: MaintenancePlanJobRow[],
+  reports: PlayReport[],
+  today = toDate(new Date())
+): MaintenanceStatus => {
+  const ownLinks = links.filter(link => link.plan_id === plan.id && link.machine_id === machine.id);
+  const openLink = ownLinks.find(isLinkOpen) || null;
+
+  const lastDoneAt = ownLinks
+    .filter(link => link.jobs?.status === 'completed')
+    .map(cycleEndOf)
+    .reduce<string | null>((latest, end) => (end && (!latest || end > latest) ? end : latest), null);
+  const cycleStart = ownLinks
+    .map(cycleEndOf)
+    .reduce((latest, end) => later(latest, end), later(plan.created_at, machine.created_at));
+
+  const playsSince = plan.trigger_type === 'plays'
+    ? reports
+        .filter(report => report.machine_id === machine.id && report.created_at > cycleStart)
+        .reduce((sum, report) => sum + (report.toys_dispensed || 0), 0)
+    : null;
+
+  if (openLink) {
+    return {
+      plan, machineId: machine.id, cycleStart, lastDoneAt, openLink, playsSince,
+      dueDate: openLink.due_date,
+      state: today > openLink.due_date ? 'overdue' : 'scheduled'
+    };
+  }
+
+  let dueDate: string | null = null;
+  let due = false;
+  if (plan.trigger_type === 'days') {
+    dueDate = toDate(addDays(parseISO(dateOf(cycleStart)), plan.interval_days || 0));
+    due = differenceInCalendarDays(parseISO(dueDate), parseISO(today)) <= plan.lead_days;
+  } else if ((playsSince || 0) >= (plan.interval_plays || Infinity)) {
+    dueDate = toDate(addDays(parseISO(today), plan.grace_days));
+    due = true;
+  }
+
+  return { plan, machineId: machine.id, cycleStart, lastDoneAt, openLink: null, playsSince, dueDate, state: due ? 'due' : 'ok' };
+};
+
+const loadPlayReports = (machineIds: string[], since: string): Promise<PlayReport[]> =>
+  machineIds.length > 0
+    ? repositories.machineReports.findWhere(
+        [inList('machine_id', machineIds), gte('created_at', since)],
+        { select: 'machine_id, toys_dispensed, created_at' }
+      )
+    : Promise.resolve([]);
+
+/**
+ * Every active plan against every machine of its type. Pass machineIds to look at just those
+ * machines (e.g. one machine's history).
+ */
+export const loadMaintenanceStatus = async (machineIds?: string[]): Promise<MaintenanceStatus[]> => {
+  const plans = await repositories.maintenancePlans.listActive();
+  if (plans.length === 0) return [];
+
+  const types = Array.from(new Set(plans.map(plan => plan.machine_type)));
+  const machineFilters = [inList('type', types), ...(machineIds ? [inList('id', machineIds)] : [])];
+  const machines: MaintenanceMachine[] = await repositories.machines.findWhere(machineFilters, {
+    select: 'id, name, type, created_at'
+  });
+  if (machines.length === 0) return [];
+
+  const ids = machines.map(machine => machine.id);
+  const links = await repositories.maintenancePlanJobs.listForMachines(ids);
+
+  // Toys are only needed back to the earliest cycle any plays plan is still counting
+  const playsPlans = plans.filter(plan => plan.trigger_type === 'plays');
+  const earliestStart = playsPlans.length > 0
+    ? machines
+        .flatMap(machine => playsPlans
+          .filter(plan => plan.machine_type === machine.type)
+          .map(plan => evaluatePlan(plan, machine, links, []).cycleStart))
+        .sort()[0]
+    : undefined;
+  const reports = earliestStart ? await loadPlayReports(ids, earliestStart) : [];
+
+  return machines.flatMap(machine =>
+    plans
+      .filter(plan => plan.machine_type === machine.type)
+      .map(plan => evaluatePlan(plan, machine, links, reports))
+  );
+};
+
+/**
+ * Opens a job for every plan that has come due. The link is written first and is unique per
+ * cycle, so two people loading the jobs board at once open one job between them.
+ * Returns how many jobs were opened.
+ */
+export const runMaintenanceScheduler = async (): Promise<number> => {
+  const due = (await loadMaintenanceStatus()).filter(status => status.state === 'due' && status.dueDate);
+  const today = toDate(new Date());
+  let opened = 0;
+
+  for (const status of due) {
+    const { plan } = status;
+    let link: MaintenancePlanJobRow;
+    try {
+      link = await repositories.maintenancePlanJobs.create({
+        plan_id: plan.id,
+        machine_id: status.machineId,
+        cycle_start: status.cycleStart,
+        due_date: status.dueDate,
+        plays_at_creation: status.playsSince
+      }, '*');
+    } catch (error) {
+      if (error instanceof DatabaseError && error.code === '23505') continue;
+      throw error;
+    }
+
+    try {
+      const job = await repositories.jobs.create({
+        title: plan.title,
+        description: [plan.description, `Preventive maintenance: ${describeTrigger(plan).toLowerCase()}`]
+          .filter(Boolean)
+          .join('\n\n'),
+        machine_id: status.machineId,
+        priority: plan.priority,
+        status: 'pending',
+        // Jobs can't be scheduled in the past; the link keeps the real due date
+        scheduled_date: later(status.dueDate as string, today),
+        progress_updates: [`${new Date().toISOString()}: Opened by maintenance plan`]
+      }, 'id');
+      await repositories.maintenancePlanJobs.update(link.id, { job_id: job.id });
+      opened++;
+    } catch (error) {
+      // Without its job the link would hold the cycle shut; drop it so the next run retries
+      await repositories.maintenancePlanJobs.remove(link.id);
+      throw error;
+    }
+  }
+
+  if (opened > 0) console.log('🛠️ Opened maintenance jobs:', opened);
+  return opened;
+};
@@ -0,0 +1,192 @@
+// src/lib/offlineReportQueue.ts
+// IndexedDB-backed queue for machine reports captured without a connection
+
+import type { CounterEvent, CounterReviewStatus } from './toyCounter';
+
+const DB_NAME = 'game-on-offline';
+const DB_VERSION = 1;
+const REPORTS_STORE = 'pending_reports';
+const SNAPSHOTS_STORE = 'toy_count_snapshots';
+
+export type PendingReportStatus = 'pending' | 'syncing' | 'conflict' | 'error';
+
+export interface QueuedReportPayload {
+  machine_id: string;
+  venue_id?: string | null;
+  money_collected: number;
+  current_toy_count: number;
+  previous_toy_count: number;
+  toys_dispensed: number;
+  prize_value: number;
+  report_date: string;
+  tokens_in_game?: number;
+  notes?: string;
+  commission_percentage?: number;
+  counter_event?: CounterEvent;
+  counter_final_reading?: number;
+  counter_review_status?: CounterReviewStatus;
+  counter_review_reason?: string;
+}
+
+export interface PendingReport {
+  local_id: string;
+  payload: QueuedReportPayload;
+  machine_name?: string;
+  // The latest server report the technician's previous count was based on
+  baseline_report_id: string | null;
+  queued_at: string;
+  status: PendingReportStatus;
+  attempts: number;
+  last_error?: string;
+  conflict_report?: {
+    id: string;
+    current_toy_count: number;
+    created_at: string;
+  };
+}
+
+export interface ToyCountSnapshot {
+  machine_id: string;
+  report_id: string | null;
+  current_toy_count: number;
+  reported_at: string | null;
+  cached_at: string;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+export const isOfflineStorageAvailable = (): boolean =>
+  typeof window !== 'undefined' && 'indexedDB' in window;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (dbPromise) return dbPromise;
+
+  dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+    if (!isOfflineStorageAvailable()) {
+      reject(new Error('IndexedDB is not available in this browser'));
+      return;
+    }
+
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(REPORTS_STORE)) {
+        const store = db.createObjectStore(REPORTS_STORE, { keyPath: 'local_id' });
+        store.createIndex('machine_id', 'payload.machine_id', { unique: false });
+      }
+      if (!db.objectStoreNames.contains(SNAPSHOTS_STORE)) {
+        db.createObjectStore(SNAPSHOTS_STORE, { keyPath: 'machine_id' });
+      }
+    };
+
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      dbPromise = null;
+      reject(request.error);
+    };
+  });
+
+  return dbPromise;
+};
+
+const runTransaction = async <T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  action: (store: IDBObjectStore) => IDBRequest<T> | void
+): Promise<T | undefined> => {
+  const db = await openDatabase();
+
+  return new Promise<T | undefined>((resolve, reject) => {
+    const tx = db.transaction(storeName, mode);
+    const request = action(tx.objectStore(storeName));
+    let result: T | undefined;
+
+    if (request) {
+      request.onsuccess = () => {
+        result = request.result;
+      };
+    }
+
+    tx.oncomplete = () => resolve(result);
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+};
+
+// Notify listeners (the report form, the header badge) that the queue changed
+const QUEUE_EVENT = 'offlineReportQueueChanged';
+
+const notifyQueueChanged = () => {
+  window.dispatchEvent(new CustomEvent(QUEUE_EVENT, { detail: { timestamp: Date.now() } }));
+};
+
+export const onQueueChanged = (callback: () => void): (() => void) => {
+  window.addEventListener(QUEUE_EVENT, callback);
+  return () => window.removeEventListener(QUEUE_EVENT, callback);
+};
+
+const generateLocalId = (): string =>
+  `local_${Date.now()}_${Math.random().toString(36).substring(2, 8)}`;
+
+export const enqueueReport = async (
+  payload: QueuedReportPayload,
+  baselineReportId: string | null,
+  machineName?: string
+): Promise<PendingReport> => {
+  const pending: PendingReport = {
+    local_id: generateLocalId(),
+    payload,
+    machine_name: machineName,
+    baseline_report_id: baselineReportId,
+    queued_at: new Date().toISOString(),
+    status: 'pending',
+    attempts: 0
+  };
+
+  await runTransaction(REPORTS_STORE, 'readwrite', store => store.put(pending));
+  console.log('📥 Queued offline report:', pending.local_id);
+  notifyQueueChanged();
+  return pending;
+};
+
+export const getPendingReports = async (): Promise<PendingReport[]> => {
+  if (!isOfflineStorageAvailable()) return [];
+
+  const reports = await runTransaction<PendingReport[]>(REPORTS_STORE, 'readonly', store => store.getAll());
+  return (reports || []).sort((a, b) => a.queued_at.localeCompare(b.queued_at));
+};
+
+export const updatePendingReport = async (report: PendingReport): Promise<void> => {
+  await runTransaction(REPORTS_STORE, 'readwrite', store => store.put(report));
+  notifyQueueChanged();
+};
+
+export const removePendingReport = async (localId: string): Promise<void> => {
+  await runTransaction(REPORTS_STORE, 'readwrite', store => store.delete(localId));
+  notifyQueueChanged();
+};
+
+export const saveToyCountSnapshot = async (snapshot: Omit<ToyCountSnapshot, 'cached_at'>): Promise<void> => {
+  if (!isOfflineStorageAvailable()) return;
+
+  await runTransaction(SNAPSHOTS_STORE, 'readwrite', store =>
+    store.put({ ...snapshot, cached_at: new Date().toISOString() })
+  );
+};
+
+export const saveToyCountSnapshots = async (snapshots: Omit<ToyCountSnapshot, 'cached_at'>[]): Promise<void> => {
+  if (!isOfflineStorageAvailable() || snapshots.length === 0) return;
+
+  const cachedAt = new Date().toISOString();
+  await runTransaction(SNAPSHOTS_STORE, 'readwrite', store => {
+    snapshots.forEach(snapshot => store.put({ ...snapshot, cached_at: cachedAt }));
+  });
+};
+
+export const getToyCountSnapshot = async (machineId: string): Promise<ToyCountSnapshot | null> => {
+  if (!isOfflineStorageAvailable()) return null;
+
+  const snapshot = await runTransaction<ToyCountSnapshot>(SNAPSHOTS_STORE, 'readonly', store => store.get(machineId));
+  return snapshot || null;
+};
@@ -0,0 +1,212 @@
+import { describe, expect, it } from 'vitest';
+import {
+  calculateReport,
+  countToysDispensed,
+  payoutSeries,
+  summariseByMachine,
+  summarisePayout,
+  type PayoutReportInput
+} from './payoutCalculations';
+
+const report = (overrides: Partial<PayoutReportInput>): PayoutReportInput => ({
+  machine_id: 'm1',
+  report_date: '2026-10-01',
+  ...overrides
+});
+
+describe('countToysDispensed', () => {
+  it('takes the difference between two readings', () => {
+    expect(countToysDispensed(report({ previous_toy_count: 100, current_toy_count: 140 }))).toEqual({ toys: 40, method: 'counter' });
+  });
+
+  it('prefers toys_dispensed saved on the report', () => {
+    expect(countToysDispensed(report({ toys_dispensed: 12, previous_toy_count: 100, current_toy_count: 140 })))
+      .toEqual({ toys: 12, method: 'recorded' });
+  });
+
+  it('counts across a recorded rollover', () => {
+    expect(countToysDispensed(report({ previous_toy_count: 999990, current_toy_count: 5, counter_event: 'rollover' })))
+      .toEqual({ toys: 15, method: 'rollover' });
+  });
+
+  it('treats an old report dropping from the top of the meter to the bottom as a rollover', () => {
+    expect(countToysDispensed(report({ previous_toy_count: 998, current_toy_count: 3 }), 999))
+      .toEqual({ toys: 5, method: 'rollover' });
+  });
+
+  it('counts toys on the old meter up to its final reading on a reset', () => {
+    expect(countToysDispensed(report({
+      previous_toy_count: 500,
+      current_toy_count: 20,
+      counter_event: 'reset',
+      counter_final_reading: 530
+    }))).toEqual({ toys: 50, method: 'reset' });
+  });
+
+  it('counts from zero when an old report went backwards without wrapping', () => {
+    expect(countToysDispensed(report({ previous_toy_count: 500, current_toy_count: 20 })))
+      .toEqual({ toys: 20, method: 'reset' });
+  });
+
+  it('counts nothing for a reset with no final reading', () => {
+    expect(countToysDispensed(report({ previous_toy_count: 500, current_toy_count: 20, counter_event: 'replacement' })))
+      .toEqual({ toys: 0, method: 'none' });
+  });
+
+  it('counts nothing while a reading is waiting for review or was rejected', () => {
+    expect(countToysDispensed(report({ previous_toy_count: 0, current_toy_count: 4000, counter_review_status: 'pending' })))
+      .toEqual({ toys: 0, method: 'flagged' });
+    expect(countToysDispensed(report({ toys_dispensed: 4000, counter_review_status: 'rejected' })))
+      .toEqual({ toys: 0, method: 'flagged' });
+  });
+
+  it('counts nothing without both readings', () => {
+    expect(countToysDispensed(report({ current_toy_count: 40 }))).toEqual({ toys: 0, method: 'none' });
+  });
+});
+
+describe('calculateReport', () => {
+  it('uses the saved prize value when there is one', () => {
+    const calc = calculateReport(
+      report({ money_collected: 200, prize_value: 50, toys_dispensed: 10 }),
+      { prizeCost: () => 9 }
+    );
+    expect(calc.prizeValue).toBe(50);
+    expect(calc.prizeValueEstimated).toBe(false);
+    expect(calc.payoutPercent).toBe(25);
+  });
+
+  it('falls back to toys × prize cost when prize_value is missing', () => {
+    const costs: Array<[string, string]> = [];
+    const calc = calculateReport(
+      report({ money_collected: 100, prize_value: null, previous_toy_count: 10, current_toy_count: 18 }),
+      { prizeCost: (machineId, date) => { costs.push([machineId, date]); return 2.5; } }
+    );
+    expect(costs).toEqual([['m1', '2026-10-01']]);
+    expect(calc.prizeValue).toBe(20);
+    expect(calc.prizeValueEstimated).toBe(true);
+    expect(calc.payoutPercent).toBe(20);
+  });
+
+  it('does not price a counter jump waiting for review', () => {
+    const calc = calculateReport(
+      report({ money_collected: 100, prize_value: 0, toys_dispensed: 0, previous_toy_count: 10, current_toy_count: 5000, counter_review_status: 'pending' }),
+      { prizeCost: () => 2 }
+    );
+    expect(calc.toysDispensed).toBe(0);
+    expect(calc.prizeValue).toBe(0);
+    expect(calc.payoutPercent).toBeNull();
+  });
+
+  it('uses the toys saved when a counter jump was approved', () => {
+    const calc = calculateReport(
+      report({ money_collected: 4000, prize_value: 0, toys_dispensed: 1800, previous_toy_count: 10, current_toy_count: 1810, counter_review_status: 'approved' }),
+      { prizeCost: () => 1 }
+    );
+    expect(calc.toysDispensed).toBe(1800);
+    expect(calc.prizeValue).toBe(1800);
+  });
+
+  it('leaves payout unknown when there is no prize value or cost', () => {
+    const calc = calculateReport(report({ money_collected: 100, toys_dispensed: 8 }), { prizeCost: () => null });
+    expect(calc.prizeValue).toBe(0);
+    expect(calc.prizeValueEstimated).toBe(false);
+    expect(calc.payoutPercent).toBeNull();
+  });
+
+  it('adds cashless takings, and tokens only when they have a value', () => {
+    const input = report({ money_collected: 100, cashless_amount: 40, tokens_in_game: 10 });
+    expect(calculateReport(input).earnings).toBe(140);
+    expect(calculateReport(input, { tokenValue: 0.5 }).earnings).toBe(145);
+  });
+
+  it('dates a report by created_at when it has no report date', () => {
+    expect(calculateReport({ machine_id: 'm1', created_at: '2026-09-30T22:15:00Z' }).reportDate).toBe('2026-09-30');
+  });
+});
+
+describe('summarisePayout', () => {
+  const reports = [
+    report({ report_date: '2026-09-30', money_collected: 1000, prize_value: 900 }),
+    report({ report_date: '2026-10-01', money_collected: 100, prize_value: 30 }),
+    report({ report_date: '2026-10-15', money_collected: 300, prize_value: 60 }),
+    report({ report_date: '2026-10-31', money_collected: 100 }),
+    report({ report_date: '2026-11-01', money_collected: 500, prize_value: 500 })
+  ];
+
+  it('only counts reports inside the date range, bounds included', () => {
+    const summary = summarisePayout(reports, { from: '2026-10-01', to: '2026-10-31' });
+    expect(summary.reportCount).toBe(3);
+    expect(summary.earnings).toBe(500);
+    expect(summary.prizeValue).toBe(90);
+    expect(summary.firstReportDate).toBe('2026-10-01');
+    expect(summary.lastReportDate).toBe('2026-10-31');
+  });
+
+  it('works out payout % from priced reports only', () => {
+    const summary = summarisePayout(reports, { from: '2026-10-01', to: '2026-10-31' });
+    expect(summary.pricedReportCount).toBe(2);
+    expect(summary.payoutPercent).toBe(22.5);
+  });
+
+  it('counts rollovers, resets and flagged readings', () => {
+    const summary = summarisePayout([
+      report({ previous_toy_count: 999990, current_toy_count: 5, counter_event: 'rollover' }),
+      report({ previous_toy_count: 50, current_toy_count: 5 }),
+      report({ toys_dispensed: 3000, counter_review_status: 'pending' })
+    ]);
+    expect(summary).toMatchObject({ rollovers: 1, resets: 1, flagged: 1, toysDispensed: 20 });
+  });
+});
+
+describe('summariseByMachine', () => {
+  it('summarises each machine over the same date range', () => {
+    const summaries = summariseByMachine([
+      report({ machine_id: 'm1', report_date: '2026-10-02', money_collected: 100 }),
+      report({ machine_id: 'm1', report_date: '2026-11-02', money_collected: 999 }),
+      report({ machine_id: 'm2', report_date: '2026-09-02', money_collected: 50 }),
+      report({ machine_id: 'm2', report_date: '2026-10-20', money_collected: 70 })
+    ], { from: '2026-10-01', to: '2026-10-31' });
+
+    expect(summaries.get('m1')).toMatchObject({ reportCount: 1, earnings: 100 });
+    expect(summaries.get('m2')).toMatchObject({ reportCount: 1, earnings: 70 });
+  });
+
+  it('keeps machines whose reports are all out of range, with nothing counted', () => {
+    const summaries = summariseByMachine([report({ machine_id: 'm3', report_date: '2026-01-01', money_collected: 10 })], { from: '2026-10-01' });
+    expect(summaries.get('m3')).toMatchObject({ reportCount: 0, earnings: 0, payoutPercent: null, firstReportDate: null });
+  });
+});
+
+describe('payoutSeries', () => {
+  const reports = [
+    report({ report_date: '2026-10-04', money_collected: 10 }), // Sunday
+    report({ report_date: '2026-10-05', money_collected: 20 }), // Monday
+    report({ report_date: '2026-10-11', money_collected: 30 }), // Sunday
+    report({ report_date: '2026-11-02', money_collected: 40 })
+  ];
+
+  it('buckets by day', () => {
+    expect(payoutSeries(reports, 'day').map(point => [point.period, point.earnings])).toEqual([
+      ['2026-10-04', 10], ['2026-10-05', 20], ['2026-10-11', 30], ['2026-11-02', 40]
+    ]);
+  });
+
+  it('buckets by week, keyed by the Monday it starts on', () => {
+    expect(payoutSeries(reports, 'week').map(point => [point.period, point.earnings, point.reportCount])).toEqual([
+      ['2026-09-28', 10, 1], ['2026-10-05', 50, 2], ['2026-11-02', 40, 1]
+    ]);
+  });
+
+  it('buckets by month, oldest first', () => {
+    expect(payoutSeries([...reports].reverse(), 'month').map(point => [point.period, point.earnings])).toEqual([
+      ['2026-10', 60], ['2026-11', 40]
+    ]);
+  });
+
+  it('leaves out reports outside the range and reports with no date', () => {
+    const series = payoutSeries([...reports, { machine_id: 'm1', money_collected: 99 }], 'month', { from: '2026-10-05', to: '2026-10-31' });
+    expect(series).toHaveLength(1);
+    expect(series[0]).toMatchObject({ period: '2026-10', earnings: 50, reportCount: 2 });
+  });
+});
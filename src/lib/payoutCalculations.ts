@@ -0,0 +1,255 @@
+// src/lib/payoutCalculations.ts
+// The one place machine report numbers are turned into earnings, toys dispensed, prize value
+// and payout %. Pure functions only: callers fetch reports and pass in prize costs.
+
+import { DEFAULT_COUNTER_MAX, resolveToyCount, type CounterEvent, type CounterReviewStatus } from './toyCounter';
+
+export interface PayoutReportInput {
+  machine_id: string;
+  money_collected?: number | null;
+  tokens_in_game?: number | null;
+  current_toy_count?: number | null;
+  previous_toy_count?: number | null;
+  toys_dispensed?: number | null;
+  prize_value?: number | null;
+  report_date?: string | null;
+  created_at?: string | null;
+  counter_event?: CounterEvent | null;
+  counter_final_reading?: number | null;
+  counter_review_status?: CounterReviewStatus | null;
+  // PayWave card takings for the period the report covers (see allocateCashlessToReports)
+  cashless_amount?: number | null;
+}
+
+// The machine_reports columns a PayoutReportInput needs. The counter columns keep flagged
+// jumps out of toys dispensed until they are approved.
+export const PAYOUT_REPORT_COLUMNS =
+  'machine_id, money_collected, tokens_in_game, current_toy_count, previous_toy_count, toys_dispensed, prize_value, report_date, created_at, counter_event, counter_final_reading, counter_review_status';
+
+// How toysDispensed was worked out for a report
+export type ToyCountMethod =
+  | 'recorded'   // toys_dispensed saved on the report
+  | 'counter'    // current - previous toy count
+  | 'rollover'   // the meter wrapped past counterMax back to zero
+  | 'reset'      // the meter was reset or replaced, or went backwards without wrapping
+  | 'flagged'    // the reading is awaiting review or was rejected; no toys count
+  | 'none';
+
+export interface PayoutOptions {
+  // Cost of one prize for a machine on a date, e.g. the machine's current prize cost
+  prizeCost?: (machineId: string, reportDate: string) => number | null | undefined;
+  // Dollar value of a token; tokens count towards earnings only when this is set
+  tokenValue?: number;
+  // Highest reading the toy meter shows before wrapping to zero
+  counterMax?: number;
+  // Inclusive YYYY-MM-DD bounds on report date
+  from?: string;
+  to?: string;
+}
+
+export interface ReportCalculation {
+  machineId: string;
+  reportDate: string;
+  // Cash, cashless and (when tokenValue is set) tokens
+  earnings: number;
+  cashless: number;
+  toysDispensed: number;
+  toyCountMethod: ToyCountMethod;
+  prizeValue: number;
+  // True when prize_value was missing and worked out from toys × prize cost
+  prizeValueEstimated: boolean;
+  // null when there is nothing to divide by or no prize value to divide
+  payoutPercent: number | null;
+}
+
+export interface PayoutSummary {
+  earnings: number;
+  cashless: number;
+  toysDispensed: number;
+  prizeValue: number;
+  reportCount: number;
+  // Reports with both earnings and a prize value; only these count towards payoutPercent
+  pricedReportCount: number;
+  payoutPercent: number | null;
+  firstReportDate: string | null;
+  lastReportDate: string | null;
+  rollovers: number;
+  resets: number;
+  flagged: number;
+}
+
+export type PayoutPeriod = 'day' | 'week' | 'month';
+
+export interface PayoutSeriesPoint extends PayoutSummary {
+  period: string;
+}
+
+// A drop from the top tenth of the meter into the bottom tenth is treated as a wrap
+const ROLLOVER_WINDOW = 0.1;
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+export const reportDateOf = (report: PayoutReportInput): string =>
+  (report.report_date || report.created_at || '').slice(0, 10);
+
+export const countToysDispensed = (
+  report: PayoutReportInput,
+  counterMax: number = DEFAULT_COUNTER_MAX
+): { toys: number; method: ToyCountMethod } => {
+  if (report.counter_review_status === 'pending' || report.counter_review_status === 'rejected') {
+    return { toys: 0, method: 'flagged' };
+  }
+
+  const eventMethod: ToyCountMethod | null = report.counter_event
+    ? (report.counter_event === 'rollover' ? 'rollover' : 'reset')
+    : null;
+
+  if ((report.toys_dispensed || 0) > 0) {
+    return { toys: report.toys_dispensed, method: eventMethod || 'recorded' };
+  }
+
+  const current = report.current_toy_count;
+  const previous = report.previous_toy_count;
+  if (current === null || current === undefined || previous === null || previous === undefined) {
+    return { toys: 0, method: 'none' };
+  }
+
+  // Reports that recorded what happened to the meter
+  if (report.counter_event) {
+    const { toys, error } = resolveToyCount(
+      { previous, current, event: report.counter_event, finalReading: report.counter_final_reading, counterMax },
+      Infinity
+    );
+    return error ? { toys: 0, method: 'none' } : { toys, method: eventMethod };
+  }
+
+  if (current >= previous) {
+    const toys = current - previous;
+    return { toys, method: toys > 0 ? 'counter' : 'none' };
+  }
+
+  // Older reports with no event: a drop from the top of the meter to the bottom is a wrap
+  const window = (counterMax + 1) * ROLLOVER_WINDOW;
+  if (previous >= counterMax + 1 - window && current < window) {
+    return { toys: counterMax + 1 - previous + current, method: 'rollover' };
+  }
+
+  return { toys: current, method: 'reset' };
+};
+
+export const calculateReport = (report: PayoutReportInput, options: PayoutOptions = {}): ReportCalculation => {
+  const reportDate = reportDateOf(report);
+  const { toys, method } = countToysDispensed(report, options.counterMax);
+
+  const tokenEarnings = options.tokenValue ? (report.tokens_in_game || 0) * options.tokenValue : 0;
+  const cashless = Number(report.cashless_amount || 0);
+  const earnings = (report.money_collected || 0) + cashless + tokenEarnings;
+
+  let prizeValue = report.prize_value || 0;
+  let prizeValueEstimated = false;
+  if (prizeValue === 0 && toys > 0) {
+    const cost = Number(options.prizeCost?.(report.machine_id, reportDate) || 0);
+    if (cost > 0) {
+      prizeValue = toys * cost;
+      prizeValueEstimated = true;
+    }
+  }
+
+  return {
+    machineId: report.machine_id,
+    reportDate,
+    earnings: round2(earnings),
+    cashless: round2(cashless),
+    toysDispensed: toys,
+    toyCountMethod: method,
+    prizeValue: round2(prizeValue),
+    prizeValueEstimated,
+    payoutPercent: earnings > 0 && prizeValue > 0 ? round2((prizeValue / earnings) * 100) : null
+  };
+};
+
+const inRange = (date: string, options: PayoutOptions) =>
+  (!options.from || date >= options.from) && (!options.to || date <= options.to);
+
+const summariseCalculations = (calculations: ReportCalculation[]): PayoutSummary => {
+  const priced = calculations.filter(calc => calc.payoutPercent !== null);
+  const pricedEarnings = priced.reduce((sum, calc) => sum + calc.earnings, 0);
+  const pricedPrizeValue = priced.reduce((sum, calc) => sum + calc.prizeValue, 0);
+  const dates = calculations.map(calc => calc.reportDate).filter(Boolean).sort();
+
+  return {
+    earnings: round2(calculations.reduce((sum, calc) => sum + calc.earnings, 0)),
+    cashless: round2(calculations.reduce((sum, calc) => sum + calc.cashless, 0)),
+    toysDispensed: calculations.reduce((sum, calc) => sum + calc.toysDispensed, 0),
+    prizeValue: round2(calculations.reduce((sum, calc) => sum + calc.prizeValue, 0)),
+    reportCount: calculations.length,
+    pricedReportCount: priced.length,
+    payoutPercent: pricedEarnings > 0 ? round2((pricedPrizeValue / pricedEarnings) * 100) : null,
+    firstReportDate: dates[0] || null,
+    lastReportDate: dates[dates.length - 1] || null,
+    rollovers: calculations.filter(calc => calc.toyCountMethod === 'rollover').length,
+    resets: calculations.filter(calc => calc.toyCountMethod === 'reset').length,
+    flagged: calculations.filter(calc => calc.toyCountMethod === 'flagged').length
+  };
+};
+
+// Totals across reports. Payout % is total prize value over total earnings, using only
+// reports that have both, so a report with no prize data cannot drag the payout down.
+export const summarisePayout = (reports: PayoutReportInput[], options: PayoutOptions = {}): PayoutSummary =>
+  summariseCalculations(
+    reports.map(report => calculateReport(report, options)).filter(calc => inRange(calc.reportDate, options))
+  );
+
+export const summariseByMachine = (
+  reports: PayoutReportInput[],
+  options: PayoutOptions = {}
+): Map<string, PayoutSummary> => {
+  const byMachine = new Map<string, PayoutReportInput[]>();
+  reports.forEach(report => {
+    const list = byMachine.get(report.machine_id) || [];
+    list.push(report);
+    byMachine.set(report.machine_id, list);
+  });
+
+  const summaries = new Map<string, PayoutSummary>();
+  byMachine.forEach((machineReports, machineId) => summaries.set(machineId, summarisePayout(machineReports, options)));
+  return summaries;
+};
+
+const periodKey = (date: string, period: PayoutPeriod): string => {
+  if (period === 'day') return date;
+  if (period === 'month') return date.slice(0, 7);
+  // ISO weeks start on Monday; key by that Monday's date
+  const day = new Date(`${date}T00:00:00Z`);
+  const offset = (day.getUTCDay() + 6) % 7;
+  day.setUTCDate(day.getUTCDate() - offset);
+  return day.toISOString().slice(0, 10);
+};
+
+// Totals per day, week (keyed by Monday) or month (YYYY-MM), oldest first
+export const payoutSeries = (
+  reports: PayoutReportInput[],
+  period: PayoutPeriod,
+  options: PayoutOptions = {}
+): PayoutSeriesPoint[] => {
+  const groups = new Map<string, ReportCalculation[]>();
+  reports
+    .map(report => calculateReport(report, options))
+    .filter(calc => calc.reportDate && inRange(calc.reportDate, options))
+    .forEach(calc => {
+      const key = periodKey(calc.reportDate, period);
+      groups.set(key, [...(groups.get(key) || []), calc]);
+    });
+
+  return Array.from(groups.entries())
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([key, calculations]) => ({ period: key, ...summariseCalculations(calculations) }));
+};
+
+// Prize cost lookup from machines loaded with their current prize (AppContext machines)
+export const currentPrizeCost = (
+  machines: Array<{ id: string; current_prize?: { cost?: number | string | null } | null }>
+) => (machineId: string): number | null => {
+  const cost = machines.find(machine => machine.id === machineId)?.current_prize?.cost;
+  return cost !== null && cost !== undefined ? parseFloat(cost.toString()) : null;
+};
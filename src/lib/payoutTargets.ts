@@ -0,0 +1,90 @@
+// src/lib/payoutTargets.ts
+// Which payout % is "right" for a machine. Bands come from the payout_targets table: a
+// per-machine row beats a per-type row, which beats the built-in default.
+
+import { repositories, type PayoutTargetRow } from './repositories';
+
+export interface PayoutBand {
+  min: number;
+  max: number;
+  source: 'machine' | 'type' | 'default';
+}
+
+export type PayoutSeverity = 'high' | 'medium' | 'low';
+
+export interface PayoutAssessment {
+  status: 'too_low' | 'too_high' | 'ok';
+  band: PayoutBand;
+  // Fraction of the breached limit the payout is out by, e.g. 0.5 for 45% against a 30% max
+  deviation: number;
+  severity: PayoutSeverity | null;
+}
+
+// The band every payout view used before targets were configurable
+export const DEFAULT_PAYOUT_BAND: PayoutBand = { min: 10, max: 30, source: 'default' };
+
+const normaliseType = (type?: string | null) => (type || '').trim().toLowerCase();
+
+export const resolvePayoutBand = (
+  targets: PayoutTargetRow[],
+  machine: { id: string; type?: string | null } | null | undefined
+): PayoutBand => {
+  if (!machine) return DEFAULT_PAYOUT_BAND;
+
+  const machineTarget = targets.find(target => target.machine_id === machine.id);
+  if (machineTarget) {
+    return { min: Number(machineTarget.min_percent), max: Number(machineTarget.max_percent), source: 'machine' };
+  }
+
+  const type = normaliseType(machine.type);
+  const typeTarget = type && targets.find(target => normaliseType(target.machine_type) === type);
+  if (typeTarget) {
+    return { min: Number(typeTarget.min_percent), max: Number(typeTarget.max_percent), source: 'type' };
+  }
+
+  return DEFAULT_PAYOUT_BAND;
+};
+
+const severityFor = (deviation: number): PayoutSeverity =>
+  deviation >= 1 / 3 ? 'high' : deviation >= 0.15 ? 'medium' : 'low';
+
+export const assessPayout = (payout: number, band: PayoutBand): PayoutAssessment => {
+  if (payout < band.min) {
+    const deviation = band.min > 0 ? (band.min - payout) / band.min : 1;
+    return { status: 'too_low', band, deviation, severity: severityFor(deviation) };
+  }
+  if (payout > band.max) {
+    const deviation = band.max > 0 ? (payout - band.max) / band.max : 1;
+    return { status: 'too_high', band, deviation, severity: severityFor(deviation) };
+  }
+  return { status: 'ok', band, deviation: 0, severity: null };
+};
+
+export const formatPayoutBand = (band: PayoutBand) => `${band.min}–${band.max}%`;
+
+// Shared between every payout view on screen (one PayoutCalculator per machine card);
+// cleared by notifyPayoutTargetsChanged
+let cachedTargets: Promise<PayoutTargetRow[]> | null = null;
+
+export const loadPayoutTargets = (): Promise<PayoutTargetRow[]> => {
+  if (!cachedTargets) {
+    cachedTargets = repositories.payoutTargets.list().catch(error => {
+      console.warn('⚠️ Could not load payout targets, using the default band:', error);
+      cachedTargets = null;
+      return [];
+    });
+  }
+  return cachedTargets;
+};
+
+const PAYOUT_TARGETS_CHANGED_EVENT = 'payoutTargetsChanged';
+
+export const notifyPayoutTargetsChanged = (): void => {
+  cachedTargets = null;
+  window.dispatchEvent(new CustomEvent(PAYOUT_TARGETS_CHANGED_EVENT));
+};
+
+export const onPayoutTargetsChanged = (listener: () => void): (() => void) => {
+  window.addEventListener(PAYOUT_TARGETS_CHANGED_EVENT, listener);
+  return () => window.removeEventListener(PAYOUT_TARGETS_CHANGED_EVENT, listener);
+};
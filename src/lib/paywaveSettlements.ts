@@ -0,0 +1,269 @@
+// src/lib/paywaveSettlements.ts
+// Reads PayWave settlement exports (CSV or OFX) into transactions, imports them, and shares
+// cashless takings out to machine reports so card revenue sits alongside money_collected.
+
+import { repositories, type PayWaveTransactionRow } from './repositories';
+
+export interface ParsedTransaction {
+  terminal_number: string;
+  transaction_ref: string;
+  transacted_at: string;
+  settlement_date: string | null;
+  amount: number;
+  fee: number;
+}
+
+export interface ParsedSettlementFile {
+  format: 'csv' | 'ofx';
+  transactions: ParsedTransaction[];
+  // Lines that could not be read, with why
+  errors: string[];
+}
+
+export interface SettlementImportResult {
+  imported: number;
+  duplicates: number;
+  unmatched: number;
+}
+
+// Must match public.normalise_terminal_number() in the settlements migration
+export const normaliseTerminalNumber = (value: string) => (value || '').replace(/[^A-Za-z0-9]/g, '').toUpperCase();
+
+// Column names seen in provider exports, compared after lower-casing and dropping punctuation
+const CSV_COLUMNS: Record<keyof ParsedTransaction, string[]> = {
+  terminal_number: ['terminal', 'terminalid', 'terminalnumber', 'tid', 'terminalno', 'deviceid'],
+  transaction_ref: ['transactionid', 'reference', 'ref', 'receipt', 'receiptnumber', 'id', 'rrn'],
+  transacted_at: ['transactiondate', 'date', 'datetime', 'transactiontime', 'created', 'timestamp'],
+  settlement_date: ['settlementdate', 'settled', 'settlement', 'settledate'],
+  amount: ['amount', 'transactionamount', 'gross', 'grossamount', 'value', 'total'],
+  fee: ['fee', 'fees', 'msf', 'merchantfee']
+};
+
+const headerKey = (value: string) => value.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+// Splits one CSV line, honouring quotes and "" escapes
+const splitCsvLine = (line: string): string[] => {
+  const cells: string[] = [];
+  let cell = '';
+  let quoted = false;
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (quoted) {
+      if (char === '"' && line[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      cells.push(cell.trim());
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+  cells.push(cell.trim());
+  return cells;
+};
+
+// "$1,234.50", "(12.00)" and "-12.00" are all accepted
+const parseAmount = (value: string): number | null => {
+  if (!value) return null;
+  const negative = /^\(.*\)$/.test(value.trim()) || value.trim().startsWith('-');
+  const number = parseFloat(value.replace(/[^0-9.]/g, ''));
+  if (isNaN(number)) return null;
+  return negative ? -number : number;
+};
+
+// ISO dates, or day-first dates (dd/mm/yyyy [hh:mm[:ss]]) as our provider exports them
+const parseDateTime = (value: string): string | null => {
+  if (!value) return null;
+  const dayFirst = value.match(/^(\d{1,2})[/.-](\d{1,2})[/.-](\d{2,4})(?:[ T](\d{1,2}):(\d{2})(?::(\d{2}))?)?/);
+  if (dayFirst) {
+    const [, day, month, year, hours = '0', minutes = '0', seconds = '0'] = dayFirst;
+    const fullYear = year.length === 2 ? 2000 + parseInt(year) : parseInt(year);
+    const date = new Date(fullYear, parseInt(month) - 1, parseInt(day), parseInt(hours), parseInt(minutes), parseInt(seconds));
+    return isNaN(date.getTime()) ? null : date.toISOString();
+  }
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? null : date.toISOString();
+};
+
+// When the export has no transaction id, the terminal, time and amount identify the row
+const fallbackRef = (terminal: string, transactedAt: string, amount: number) =>
+  `${terminal}-${transactedAt}-${amount.toFixed(2)}`;
+
+export const parseSettlementCsv = (text: string): ParsedSettlementFile => {
+  const lines = text.split(/\r?\n/).filter(line => line.trim());
+  const errors: string[] = [];
+  if (lines.length === 0) return { format: 'csv', transactions: [], errors: ['The file is empty'] };
+
+  const headers = splitCsvLine(lines[0]).map(headerKey);
+  const columnIndex = Object.fromEntries(
+    Object.entries(CSV_COLUMNS).map(([field, names]) => [field, headers.findIndex(header => names.includes(header))])
+  ) as Record<keyof ParsedTransaction, number>;
+
+  const missing = (['terminal_number', 'transacted_at', 'amount'] as const).filter(field => columnIndex[field] < 0);
+  if (missing.length > 0) {
+    return {
+      format: 'csv',
+      transactions: [],
+      errors: [`Could not find the ${missing.map(field => field.replace('_', ' ')).join(', ')} column(s) in the header row`]
+    };
+  }
+
+  const cellOf = (cells: string[], field: keyof ParsedTransaction) =>
+    columnIndex[field] >= 0 ? cells[columnIndex[field]] || '' : '';
+
+  const transactions: ParsedTransaction[] = [];
+  lines.slice(1).forEach((line, index) => {
+    const cells = splitCsvLine(line);
+    const terminal = normaliseTerminalNumber(cellOf(cells, 'terminal_number'));
+    const transactedAt = parseDateTime(cellOf(cells, 'transacted_at'));
+    const amount = parseAmount(cellOf(cells, 'amount'));
+
+    if (!terminal || !transactedAt || amount === null) {
+      errors.push(`Line ${index + 2}: missing or unreadable terminal, date or amount`);
+      return;
+    }
+
+    const settlement = parseDateTime(cellOf(cells, 'settlement_date'));
+    transactions.push({
+      terminal_number: terminal,
+      transaction_ref: cellOf(cells, 'transaction_ref') || fallbackRef(terminal, transactedAt, amount),
+      transacted_at: transactedAt,
+      settlement_date: settlement ? settlement.slice(0, 10) : null,
+      amount,
+      fee: Math.abs(parseAmount(cellOf(cells, 'fee')) || 0)
+    });
+  });
+
+  return { format: 'csv', transactions, errors };
+};
+
+const ofxTag = (block: string, tag: string) => block.match(new RegExp(`<${tag}>([^<\\r\\n]*)`, 'i'))?.[1]?.trim() || '';
+
+// OFX dates are YYYYMMDD[HHMMSS[.XXX]][[offset:TZ]]
+const parseOfxDate = (value: string): string | null => {
+  const match = value.match(/^(\d{4})(\d{2})(\d{2})(?:(\d{2})(\d{2})(\d{2})?)?/);
+  if (!match) return null;
+  const [, year, month, day, hours = '00', minutes = '00', seconds = '00'] = match;
+  const date = new Date(`${year}-${month}-${day}T${hours}:${minutes}:${seconds}`);
+  return isNaN(date.getTime()) ? null : date.toISOString();
+};
+
+/**
+ * OFX has no terminal field. Our provider puts "TID 12345678" in each transaction's NAME or
+ * MEMO; files with one account per terminal use the account id instead.
+ */
+export const parseSettlementOfx = (text: string): ParsedSettlementFile => {
+  const errors: string[] = [];
+  const transactions: ParsedTransaction[] = [];
+  const accountId = normaliseTerminalNumber(ofxTag(text, 'ACCTID'));
+
+  const blocks = text.split(/<STMTTRN>/i).slice(1).map(block => block.split(/<\/STMTTRN>/i)[0]);
+  if (blocks.length === 0) errors.push('No transactions (STMTTRN) found in the file');
+
+  blocks.forEach((block, index) => {
+    const description = `${ofxTag(block, 'NAME')} ${ofxTag(block, 'MEMO')}`;
+    const terminalMatch = description.match(/(?:TID|TERMINAL(?:\s*(?:ID|NO|NUMBER))?)[\s:#]*([A-Z0-9-]+)/i);
+    const terminal = normaliseTerminalNumber(terminalMatch?.[1] || accountId);
+    const transactedAt = parseOfxDate(ofxTag(block, 'DTUSER') || ofxTag(block, 'DTPOSTED'));
+    const amount = parseAmount(ofxTag(block, 'TRNAMT'));
+
+    if (!terminal || !transactedAt || amount === null) {
+      errors.push(`Transaction ${index + 1}: missing or unreadable terminal, date or amount`);
+      return;
+    }
+
+    const posted = parseOfxDate(ofxTag(block, 'DTPOSTED'));
+    transactions.push({
+      terminal_number: terminal,
+      transaction_ref: ofxTag(block, 'FITID') || fallbackRef(terminal, transactedAt, amount),
+      transacted_at: transactedAt,
+      settlement_date: posted ? posted.slice(0, 10) : null,
+      amount,
+      fee: 0
+    });
+  });
+
+  return { format: 'ofx', transactions, errors };
+};
+
+export const parseSettlementFile = (fileName: string, text: string): ParsedSettlementFile =>
+  /\.(ofx|qfx)$/i.test(fileName) || /<OFX>/i.test(text) ? parseSettlementOfx(text) : parseSettlementCsv(text);
+
+const IMPORT_BATCH_SIZE = 500;
+
+export const importSettlementFile = async (
+  fileName: string,
+  parsed: ParsedSettlementFile
+): Promise<SettlementImportResult> => {
+  if (parsed.transactions.length === 0) {
+    throw new Error(`${fileName} has no transactions to import`);
+  }
+
+  const dates = parsed.transactions.map(transaction => transaction.transacted_at).sort();
+  const existing = await repositories.payWaveTransactions.existingRefs(
+    Array.from(new Set(parsed.transactions.map(transaction => transaction.terminal_number))),
+    { from: dates[0], to: dates[dates.length - 1] }
+  );
+
+  const seen = new Set(existing);
+  const fresh = parsed.transactions.filter(transaction => {
+    const key = `${transaction.terminal_number}|${transaction.transaction_ref}`;
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+
+  const importRow = await repositories.payWaveImports.create({
+    file_name: fileName,
+    format: parsed.format,
+    transaction_count: fresh.length,
+    duplicate_count: parsed.transactions.length - fresh.length,
+    total_amount: Math.round(fresh.reduce((sum, transaction) => sum + transaction.amount, 0) * 100) / 100
+  });
+
+  // Machines are matched by a trigger on insert
+  let unmatched = 0;
+  for (let i = 0; i < fresh.length; i += IMPORT_BATCH_SIZE) {
+    const saved = await repositories.payWaveTransactions.createMany(
+      fresh.slice(i, i + IMPORT_BATCH_SIZE).map(transaction => ({ ...transaction, import_id: importRow.id }))
+    );
+    unmatched += saved.filter(transaction => !transaction.machine_id).length;
+  }
+
+  console.log('✅ Imported PayWave settlement:', fileName, { imported: fresh.length, unmatched });
+  return { imported: fresh.length, duplicates: parsed.transactions.length - fresh.length, unmatched };
+};
+
+/**
+ * Cashless takings for each report: the card transactions since the machine's previous
+ * report, up to and including the report date. Reports must all be for one machine.
+ * Transactions are dated in UTC, the way report_date is written.
+ */
+export const allocateCashlessToReports = <R extends { report_date: string; created_at?: string | null }>(
+  reports: R[],
+  transactions: Array<Pick<PayWaveTransactionRow, 'transacted_at' | 'amount'>>
+): Array<R & { cashless_amount: number }> => {
+  const sorted = [...reports].sort((a, b) =>
+    a.report_date.localeCompare(b.report_date) || (a.created_at || '').localeCompare(b.created_at || '')
+  );
+  const totals = new Map<R, number>();
+
+  transactions.forEach(transaction => {
+    const date = new Date(transaction.transacted_at).toISOString().slice(0, 10);
+    const report = sorted.find(item => item.report_date >= date);
+    if (report) totals.set(report, (totals.get(report) || 0) + Number(transaction.amount));
+  });
+
+  return reports.map(report => ({ ...report, cashless_amount: Math.round((totals.get(report) || 0) * 100) / 100 }));
+};
+
+export const totalCashless = (transactions: Array<Pick<PayWaveTransactionRow, 'amount'>>) =>
+  Math.round(transactions.reduce((sum, transaction) => sum + Number(transaction.amount), 0) * 100) / 100;
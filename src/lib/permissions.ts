@@ -0,0 +1,151 @@
+// src/lib/permissions.ts
+// Role and permission data for hasPermission/canAccessView. The live values come from the
+// roles, role_permissions, view_permissions and user_permission_overrides tables; the
+// DEFAULT_* maps are what shipped before those tables existed and are only used as a
+// fallback when they cannot be read.
+
+import { repositories } from './repositories';
+import type { RoleRow } from './repositories';
+import { buildRoleHierarchy, ROLE_HIERARCHY, type RoleHierarchy } from './roleHierarchy';
+
+export const ALL_PERMISSIONS = '*';
+
+const FULL_OPERATIONAL_ACCESS = [
+  'view_users', 'manage_users', 'delete_users',
+  'view_financial_reports', 'view_earnings', 'edit_earnings',
+  'manage_machines', 'view_machines', 'edit_machine_reports',
+  'manage_venues', 'view_venues', 'manage_prizes', 'view_inventory',
+  'manage_stock', 'manage_jobs', 'view_jobs', 'create_jobs',
+  'update_job_status', 'manage_settings', 'view_analytics',
+  'manage_email_notifications', 'manage_equipment', 'view_equipment',
+  'reconcile_cash'
+];
+
+export const DEFAULT_ROLE_PERMISSIONS: Record<string, string[]> = {
+  super_admin: [ALL_PERMISSIONS],
+  admin: FULL_OPERATIONAL_ACCESS,
+  manager: FULL_OPERATIONAL_ACCESS,
+  technician: [
+    'view_machines', 'edit_machine_reports', 'view_venues',
+    'view_inventory', 'view_jobs', 'create_jobs', 'update_job_status',
+    'view_equipment'
+  ],
+  viewer: [
+    'view_machines', 'view_venues', 'view_inventory', 'view_jobs',
+    'view_equipment'
+  ],
+  venue_partner: ['view_partner_portal']
+};
+
+// Roles whose users only see venues linked to them; the roles table's venue_scoped flag wins
+const DEFAULT_VENUE_SCOPED_ROLES = ['venue_partner'];
+
+// A view opens with any one of its permissions; an empty list means every signed-in user
+export const DEFAULT_VIEW_PERMISSIONS: Record<string, string[]> = {
+  'dashboard': [],
+  'users': ['view_users'],
+  'reports': ['view_financial_reports'],
+  'view-reports': ['view_financial_reports', 'view_earnings'],
+  'machines': ['view_machines'],
+  'venues': ['view_venues'],
+  'venue-capacity': ['view_venues'],
+  'prizes': ['view_inventory'],
+  'stock_locations': ['view_inventory'],
+  'jobs': ['view_jobs'],
+  'analytics': ['view_analytics'],
+  'fleet-valuation': ['view_financial_reports'],
+  'email-notifications': ['manage_email_notifications'],
+  'map': ['view_venues'],
+  'parts': ['manage_stock'],
+  'purchasing': ['manage_stock'],
+  'stocktake': ['manage_stock'],
+  'equipment-hire': ['view_equipment', 'manage_equipment'],
+  'runs': ['view_venues'],
+  'machine-moves': ['view_machines'],
+  'partner-portal': ['view_partner_portal']
+};
+
+export interface AccessControl {
+  roles: RoleRow[];
+  rolePermissions: Record<string, string[]>;
+  viewPermissions: Record<string, string[]>;
+  roleHierarchy: RoleHierarchy;
+  // permission key -> granted (true) or revoked (false) for the signed-in user
+  overrides: Record<string, boolean>;
+}
+
+export const DEFAULT_ACCESS_CONTROL: AccessControl = {
+  roles: [],
+  rolePermissions: DEFAULT_ROLE_PERMISSIONS,
+  viewPermissions: DEFAULT_VIEW_PERMISSIONS,
+  roleHierarchy: ROLE_HIERARCHY,
+  overrides: {}
+};
+
+const groupBy = <T>(rows: T[], key: (row: T) => string, value: (row: T) => string | null) =>
+  rows.reduce<Record<string, string[]>>((groups, row) => {
+    const group = (groups[key(row)] = groups[key(row)] || []);
+    const item = value(row);
+    if (item !== null) group.push(item);
+    return groups;
+  }, {});
+
+export const loadAccessControl = async (userId: string): Promise<AccessControl> => {
+  try {
+    const [roles, rolePermissions, viewPermissions, overrides] = await Promise.all([
+      repositories.roles.listAll(),
+      repositories.rolePermissions.list(),
+      repositories.viewPermissions.list(),
+      repositories.userPermissionOverrides.listForUser(userId)
+    ]);
+
+    if (roles.length === 0) {
+      console.warn('⚠️ No roles found, using built-in permissions');
+      return DEFAULT_ACCESS_CONTROL;
+    }
+
+    console.log('✅ Loaded permissions for', roles.length, 'roles');
+    return {
+      roles,
+      rolePermissions: groupBy(rolePermissions, row => row.role_key, row => row.permission_key),
+      viewPermissions: groupBy(viewPermissions, row => row.view_key, row => row.permission_key),
+      roleHierarchy: buildRoleHierarchy(roles),
+      overrides: Object.fromEntries(overrides.map(override => [override.permission_key, override.granted]))
+    };
+  } catch (error) {
+    console.warn('⚠️ Could not load permissions, using built-in defaults:', error);
+    return DEFAULT_ACCESS_CONTROL;
+  }
+};
+
+export const roleHasPermission = (access: AccessControl, role: string | null | undefined, permission: string): boolean => {
+  if (!role) return false;
+  if (permission in access.overrides) return access.overrides[permission];
+  const permissions = access.rolePermissions[role] || [];
+  return permissions.includes(ALL_PERMISSIONS) || permissions.includes(permission);
+};
+
+export const roleCanAccessView = (access: AccessControl, role: string | null | undefined, view: string): boolean => {
+  const required = access.viewPermissions[view];
+  if (!required) return false;
+  if (required.length === 0) return true;
+  return required.some(permission => roleHasPermission(access, role, permission));
+};
+
+export const isVenueScopedRole = (access: AccessControl, role: string | null | undefined): boolean => {
+  if (!role) return false;
+  const definition = access.roles.find(item => item.key === role);
+  return definition ? definition.venue_scoped : DEFAULT_VENUE_SCOPED_ROLES.includes(role);
+};
+
+const ACCESS_CONTROL_CHANGED_EVENT = 'accessControlChanged';
+
+// Fired after roles or permissions are edited so useAuth reloads them without a sign-out
+export const notifyAccessControlChanged = (): void => {
+  window.dispatchEvent(new CustomEvent(ACCESS_CONTROL_CHANGED_EVENT));
+};
+
+export const onAccessControlChanged = (listener: () => void): (() => void) => {
+  window.addEventListener(ACCESS_CONTROL_CHANGED_EVENT, listener);
+  return () => window.removeEventListener(ACCESS_CONTROL_CHANGED_EVENT, listener);
+};
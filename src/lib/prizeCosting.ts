@@ -0,0 +1,97 @@
+// src/lib/prizeCosting.ts
+// Prize costs over time. Reports are valued at the cost of the prizes last loaded into the
+// machine by the end of their report date (machine_stock.unit_cost, the average cost where
+// they came from), or the prize's cost in force on that date when no load was costed. This is
+// the rule the database uses when a report is saved (machine_prize_cost_at), so payout % for
+// old reports doesn't move when a prize's cost is changed or a delivery is received.
+
+import { repositories, type MachineStockRow, type PrizeCostHistoryRow, type PrizeCostSource } from './repositories';
+
+interface CostedMachine {
+  id: string;
+  current_prize_id?: string | null;
+  current_prize?: { cost?: number | string | null } | null;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const COST_SOURCE_LABELS: Record<PrizeCostSource, string> = {
+  initial: 'Opening cost',
+  manual: 'Edited',
+  purchase: 'Purchase received',
+  transfer: 'Stock returned'
+};
+
+export const groupHistoryByPrize = (history: PrizeCostHistoryRow[]) => {
+  const byPrize = new Map<string, PrizeCostHistoryRow[]>();
+  history.forEach(row => {
+    byPrize.set(row.prize_id, [...(byPrize.get(row.prize_id) || []), row]);
+  });
+  byPrize.forEach(rows => rows.sort((a, b) => a.effective_from.localeCompare(b.effective_from)));
+  return byPrize;
+};
+
+const endOfDayUtc = (date: string) => Date.parse(`${date.slice(0, 10)}T00:00:00Z`) + DAY_MS;
+
+// Cost in force at the end of a YYYY-MM-DD (or ISO timestamp) date. The day ends at midnight
+// UTC, as (p_on + 1)::timestamptz does in the database. Dates before the history starts use
+// the earliest cost; no history at all gives null.
+export const costAt = (history: PrizeCostHistoryRow[], date: string): number | null => {
+  if (history.length === 0) return null;
+  const endOfDay = endOfDayUtc(date);
+  const sorted = [...history].sort((a, b) => a.effective_from.localeCompare(b.effective_from));
+  const inForce = sorted.filter(row => new Date(row.effective_from).getTime() < endOfDay);
+  return Number((inForce[inForce.length - 1] || sorted[0]).unit_cost);
+};
+
+// Unit cost of the last costed load of a prize into a machine by the end of a date, or null
+export const loadedCostAt = (loads: MachineStockRow[], machineId: string, prizeId: string, date: string): number | null => {
+  const endOfDay = endOfDayUtc(date);
+  const loaded = loads
+    .filter(load => load.machine_id === machineId && load.prize_id === prizeId && load.unit_cost !== null && load.unit_cost !== undefined)
+    .filter(load => !!load.created_at && new Date(load.created_at).getTime() < endOfDay)
+    .sort((a, b) => a.created_at.localeCompare(b.created_at));
+  return loaded.length > 0 ? Number(loaded[loaded.length - 1].unit_cost) : null;
+};
+
+// Drop-in for currentPrizeCost: each machine's current prize, at the cost it was loaded at or
+// the cost in force on the report date, falling back to today's cost when neither is known
+export const historicalPrizeCost = (machines: CostedMachine[], history: PrizeCostHistoryRow[], loads: MachineStockRow[] = []) => {
+  const byPrize = groupHistoryByPrize(history);
+  return (machineId: string, reportDate: string): number | null => {
+    const machine = machines.find(candidate => candidate.id === machineId);
+    const prizeId = machine?.current_prize_id;
+    const historical = prizeId && reportDate
+      ? loadedCostAt(loads, machineId, prizeId, reportDate) ?? costAt(byPrize.get(prizeId) || [], reportDate)
+      : null;
+    if (historical !== null) return historical;
+    const cost = machine?.current_prize?.cost;
+    return cost !== null && cost !== undefined ? parseFloat(cost.toString()) : null;
+  };
+};
+
+// The prizes currently in these machines
+export const machinePrizeIds = (machines: CostedMachine[]) =>
+  machines.map(machine => machine.current_prize_id).filter(Boolean) as string[];
+
+export const loadPrizeCostHistory = (prizeIds: string[]) =>
+  repositories.prizeCostHistory.listForPrizes(prizeIds);
+
+export const loadMachineStockCosts = (machineIds: string[]) =>
+  repositories.machineStock.listCostsForMachines(machineIds);
+
+// historicalPrizeCost for these machines, with their loads and their prizes' cost history.
+// Costs that can't be loaded fall back to today's cost rather than failing the screen.
+export const loadHistoricalPrizeCost = async (machines: CostedMachine[]) => {
+  const [history, loads] = await Promise.all([
+    loadPrizeCostHistory(machinePrizeIds(machines)).catch(error => {
+      console.warn('⚠️ Could not load prize cost history:', error);
+      return [] as PrizeCostHistoryRow[];
+    }),
+    loadMachineStockCosts(machines.map(machine => machine.id)).catch(error => {
+      console.warn('⚠️ Could not load machine stock costs:', error);
+      return [] as MachineStockRow[];
+    })
+  ]);
+  return historicalPrizeCost(machines, history, loads);
+};
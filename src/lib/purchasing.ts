@@ -0,0 +1,201 @@
+// src/lib/purchasing.ts
+// Reordering. An item needs ordering once what's in stock plus what's already on order won't
+// last through its supplier's lead time (plus a safety margin) at the rate it's been used, or
+// is at its low stock limit. The suggested quantity tops it up to cover another month.
+
+import { addDays, format } from 'date-fns';
+import {
+  repositories,
+  type PurchaseOrderLineRow,
+  type PurchaseOrderRow,
+  type StockItemType,
+  type StockMovementRow,
+  type SupplierItemRow,
+  type SupplierRow
+} from './repositories';
+
+export interface StockItem {
+  item_type: StockItemType;
+  item_id: string;
+  name: string;
+  stock_quantity: number;
+  low_stock_limit: number | null;
+  // What we pay now, for items no supplier lists a price for
+  unit_cost: number;
+}
+
+export interface ReorderSuggestion {
+  item: StockItem;
+  dailyUsage: number;
+  onOrder: number;
+  reorderPoint: number;
+  quantity: number;
+  supplier: SupplierRow | null;
+  unitCost: number;
+}
+
+export const USAGE_WINDOW_DAYS = 60;
+export const SAFETY_DAYS = 7;
+export const COVER_DAYS = 30;
+const DEFAULT_LEAD_TIME_DAYS = 7;
+const OPEN_ORDER_STATUSES = ['draft', 'ordered', 'partially_received'];
+
+export const stockKey = (itemType: StockItemType, itemId: string) => `${itemType}:${itemId}`;
+
+export const orderTotal = (lines: Pick<PurchaseOrderLineRow, 'quantity_ordered' | 'unit_cost'>[] = []) =>
+  lines.reduce((sum, line) => sum + line.quantity_ordered * Number(line.unit_cost || 0), 0);
+
+// Average used per day over the window, from stock taken out
+export const usagePerDay = (movements: Pick<StockMovementRow, 'item_type' | 'item_id' | 'quantity'>[], windowDays: number) => {
+  const used = new Map<string, number>();
+  movements.forEach(movement => {
+    const key = stockKey(movement.item_type, movement.item_id);
+    used.set(key, (used.get(key) || 0) + Math.abs(movement.quantity || 0));
+  });
+  return new Map(Array.from(used, ([key, total]) => [key, total / windowDays]));
+};
+
+// Still to arrive on open orders; drafts count so suggestions aren't raised twice
+export const quantitiesOnOrder = (orders: PurchaseOrderRow[]) => {
+  const onOrder = new Map<string, number>();
+  orders
+    .filter(order => OPEN_ORDER_STATUSES.includes(order.status))
+    .flatMap(order => order.purchase_order_lines || [])
+    .forEach(line => {
+      const key = stockKey(line.item_type, line.item_id);
+      onOrder.set(key, (onOrder.get(key) || 0) + line.quantity_ordered - line.quantity_received);
+    });
+  return onOrder;
+};
+
+// Cheapest active supplier for the item, then the quickest
+export const bestSupplierItem = (
+  item: Pick<StockItem, 'item_type' | 'item_id'>,
+  supplierItems: SupplierItemRow[],
+  suppliers: SupplierRow[]
+): { supplier: SupplierRow; supplierItem: SupplierItemRow } | null => {
+  const options = supplierItems
+    .filter(row => row.item_type === item.item_type && row.item_id === item.item_id)
+    .map(row => ({ supplierItem: row, supplier: suppliers.find(supplier => supplier.id === row.supplier_id && supplier.is_active) }))
+    .filter((option): option is { supplier: SupplierRow; supplierItem: SupplierItemRow } => !!option.supplier)
+    .sort((a, b) =>
+      Number(a.supplierItem.unit_cost) - Number(b.supplierItem.unit_cost) ||
+      a.supplier.lead_time_days - b.supplier.lead_time_days
+    );
+  return options[0] || null;
+};
+
+export const buildReorderSuggestions = (sources: {
+  items: StockItem[];
+  movements: Pick<StockMovementRow, 'item_type' | 'item_id' | 'quantity'>[];
+  supplierItems: SupplierItemRow[];
+  suppliers: SupplierRow[];
+  openOrders: PurchaseOrderRow[];
+  windowDays?: number;
+}): ReorderSuggestion[] => {
+  const usage = usagePerDay(sources.movements, sources.windowDays || USAGE_WINDOW_DAYS);
+  const onOrder = quantitiesOnOrder(sources.openOrders);
+
+  return sources.items.flatMap(item => {
+    const key = stockKey(item.item_type, item.item_id);
+    const dailyUsage = usage.get(key) || 0;
+    const choice = bestSupplierItem(item, sources.supplierItems, sources.suppliers);
+    const leadTime = choice?.supplier.lead_time_days ?? DEFAULT_LEAD_TIME_DAYS;
+    const limit = item.low_stock_limit || 0;
+
+    const reorderPoint = Math.max(limit, Math.ceil(dailyUsage * (leadTime + SAFETY_DAYS)));
+    const available = (item.stock_quantity || 0) + (onOrder.get(key) || 0);
+    if (reorderPoint === 0 || available > reorderPoint) return [];
+
+    // Unused items with a limit are brought back to twice the limit
+    const target = dailyUsage > 0 ? reorderPoint + Math.ceil(dailyUsage * COVER_DAYS) : limit * 2;
+    const quantity = Math.max(target - available, choice?.supplierItem.min_order_quantity || 1, 1);
+
+    return [{
+      item,
+      dailyUsage,
+      onOrder: onOrder.get(key) || 0,
+      reorderPoint,
+      quantity,
+      supplier: choice?.supplier || null,
+      unitCost: choice ? Number(choice.supplierItem.unit_cost) : item.unit_cost
+    }];
+  });
+};
+
+export const loadReorderSuggestions = async (): Promise<ReorderSuggestion[]> => {
+  const since = addDays(new Date(), -USAGE_WINDOW_DAYS).toISOString();
+  const [prizes, parts, movements, supplierItems, suppliers, openOrders] = await Promise.all([
+    repositories.prizes.list({ select: 'id, name, cost, stock_quantity' }),
+    repositories.parts.list({ select: 'id, name, cost_price, stock_quantity, low_stock_limit' }),
+    repositories.stockMovements.listOutSince(since),
+    repositories.supplierItems.list(),
+    repositories.suppliers.list(),
+    repositories.purchaseOrders.listOpen()
+  ]);
+
+  const items: StockItem[] = [
+    ...prizes.map(prize => ({
+      item_type: 'prize' as const,
+      item_id: prize.id,
+      name: prize.name,
+      stock_quantity: prize.stock_quantity,
+      low_stock_limit: null,
+      unit_cost: Number(prize.cost) || 0
+    })),
+    ...parts.map(part => ({
+      item_type: 'part' as const,
+      item_id: part.id,
+      name: part.name,
+      stock_quantity: part.stock_quantity,
+      low_stock_limit: part.low_stock_limit,
+      unit_cost: Number(part.cost_price) || 0
+    }))
+  ];
+
+  return buildReorderSuggestions({ items, movements, supplierItems, suppliers, openOrders });
+};
+
+/**
+ * One draft order per supplier for the chosen suggestions. Suggestions without a supplier are
+ * skipped. Returns the orders created.
+ */
+export const createDraftOrders = async (suggestions: ReorderSuggestion[], userId: string | null): Promise<PurchaseOrderRow[]> => {
+  const bySupplier = new Map<string, ReorderSuggestion[]>();
+  suggestions
+    .filter(suggestion => suggestion.supplier && suggestion.quantity > 0)
+    .forEach(suggestion => {
+      const supplierId = suggestion.supplier!.id;
+      bySupplier.set(supplierId, [...(bySupplier.get(supplierId) || []), suggestion]);
+    });
+
+  const created: PurchaseOrderRow[] = [];
+  for (const [supplierId, lines] of bySupplier) {
+    const order = await repositories.purchaseOrders.create({
+      supplier_id: supplierId,
+      status: 'draft',
+      notes: 'Suggested from low stock',
+      created_by: userId
+    }, '*');
+    await repositories.purchaseOrderLines.createMany(lines.map(line => ({
+      purchase_order_id: order.id,
+      item_type: line.item.item_type,
+      item_id: line.item.item_id,
+      item_name: line.item.name,
+      quantity_ordered: line.quantity,
+      unit_cost: line.unitCost
+    })));
+    created.push(order);
+  }
+
+  console.log('✅ Created draft purchase orders:', created.length);
+  return created;
+};
+
+// Sends a draft: stamps when it was ordered and when it should arrive from the lead time
+export const markOrdered = (order: PurchaseOrderRow) =>
+  repositories.purchaseOrders.update(order.id, {
+    status: 'ordered',
+    ordered_at: new Date().toISOString(),
+    expected_date: format(addDays(new Date(), order.suppliers?.lead_time_days ?? DEFAULT_LEAD_TIME_DAYS), 'yyyy-MM-dd')
+  });
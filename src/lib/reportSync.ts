@@ -0,0 +1,300 @@
+// src/lib/reportSync.ts
+// Submits machine reports and replays the offline queue once connectivity returns
+
+import { supabase } from '@/lib/supabase';
+import {
+  getPendingReports,
+  getToyCountSnapshot,
+  removePendingReport,
+  saveToyCountSnapshot,
+  saveToyCountSnapshots,
+  updatePendingReport,
+  type PendingReport,
+  type QueuedReportPayload,
+  type ToyCountSnapshot
+} from '@/lib/offlineReportQueue';
+import { resolveToyCount } from '@/lib/toyCounter';
+import { reconcileMachineReport } from '@/lib/cashReconciliation';
+
+export interface LatestToyCount {
+  current_toy_count: number;
+  report_id: string | null;
+  source: 'server' | 'cache' | 'queue' | 'none';
+}
+
+export interface SyncResult {
+  synced: number;
+  conflicts: number;
+  failed: number;
+}
+
+export const isOnline = (): boolean =>
+  typeof navigator === 'undefined' ? true : navigator.onLine;
+
+// Network failures are worth queueing; validation errors from the database are not
+export const isNetworkError = (error: unknown): boolean => {
+  if (!isOnline()) return true;
+  const message = error instanceof Error ? error.message : String(error);
+  return /failed to fetch|networkerror|network request failed|load failed|timeout/i.test(message);
+};
+
+const fetchLatestServerReport = async (machineId: string) => {
+  const { data, error } = await supabase
+    .from('machine_reports')
+    .select('id, current_toy_count, created_at')
+    .eq('machine_id', machineId)
+    .order('created_at', { ascending: false })
+    .limit(1);
+
+  if (error) throw error;
+  return data && data.length > 0 ? data[0] : null;
+};
+
+/**
+ * Resolve the previous toy counter reading for a machine.
+ * Reports still waiting in the queue win over the server, since they are newer
+ * than anything the server knows about. Falls back to the cached snapshot offline.
+ */
+export const fetchLatestToyCount = async (machineId: string): Promise<LatestToyCount> => {
+  const queued = (await getPendingReports().catch(() => [] as PendingReport[]))
+    .filter(r => r.payload.machine_id === machineId);
+
+  if (queued.length > 0) {
+    const latest = queued[queued.length - 1];
+    // Chain onto the queued report; it is swapped for the server id once that report syncs
+    return { current_toy_count: latest.payload.current_toy_count, report_id: latest.local_id, source: 'queue' };
+  }
+
+  if (isOnline()) {
+    try {
+      const latest = await fetchLatestServerReport(machineId);
+      if (latest) {
+        await saveToyCountSnapshot({
+          machine_id: machineId,
+          report_id: latest.id,
+          current_toy_count: latest.current_toy_count || 0,
+          reported_at: latest.created_at
+        }).catch(err => console.warn('⚠️ Could not cache toy count snapshot:', err));
+        return { current_toy_count: latest.current_toy_count || 0, report_id: latest.id, source: 'server' };
+      }
+
+      // Legacy reports table, used before machine_reports existed
+      const { data: legacy } = await supabase
+        .from('reports')
+        .select('toy_counter_reading')
+        .eq('machine_id', machineId)
+        .order('created_at', { ascending: false })
+        .limit(1);
+
+      if (legacy && legacy.length > 0) {
+        return { current_toy_count: legacy[0].toy_counter_reading || 0, report_id: null, source: 'server' };
+      }
+
+      return { current_toy_count: 0, report_id: null, source: 'none' };
+    } catch (error) {
+      console.warn('⚠️ Falling back to cached toy count:', error);
+    }
+  }
+
+  const snapshot = await getToyCountSnapshot(machineId).catch(() => null);
+  if (snapshot) {
+    return { current_toy_count: snapshot.current_toy_count, report_id: snapshot.report_id, source: 'cache' };
+  }
+
+  return { current_toy_count: 0, report_id: null, source: 'none' };
+};
+
+/**
+ * Cache the latest toy count of every machine so the form keeps working
+ * after the technician loses signal.
+ */
+export const cacheToyCountSnapshots = async (): Promise<void> => {
+  if (!isOnline()) return;
+
+  const { data, error } = await supabase
+    .from('latest_machine_reports')
+    .select('id, machine_id, current_toy_count, created_at');
+
+  if (error) {
+    console.warn('⚠️ Could not refresh toy count snapshots:', error);
+    return;
+  }
+
+  const snapshots: Omit<ToyCountSnapshot, 'cached_at'>[] = (data || []).map(report => ({
+    machine_id: report.machine_id,
+    report_id: report.id,
+    current_toy_count: report.current_toy_count || 0,
+    reported_at: report.created_at
+  }));
+
+  await saveToyCountSnapshots(snapshots);
+  console.log('📦 Cached toy count snapshots for', snapshots.length, 'machines');
+};
+
+/**
+ * Insert a report into machine_reports, file it for cash reconciliation if the takings look
+ * wrong, and mirror it into the legacy reports table.
+ */
+export const submitMachineReport = async (payload: QueuedReportPayload) => {
+  const { venue_id, commission_percentage, ...reportData } = payload;
+
+  const { data, error } = await supabase
+    .from('machine_reports')
+    .insert([reportData])
+    .select();
+
+  if (error) throw new Error(`Database error: ${error.message}`);
+
+  const inserted = data?.[0];
+  if (inserted) {
+    await saveToyCountSnapshot({
+      machine_id: payload.machine_id,
+      report_id: inserted.id,
+      current_toy_count: payload.current_toy_count,
+      reported_at: inserted.created_at || new Date().toISOString()
+    }).catch(err => console.warn('⚠️ Could not cache toy count snapshot:', err));
+
+    await reconcileMachineReport(inserted);
+  }
+
+  try {
+    const commissionRate = commission_percentage || 30;
+    const mainReportData = {
+      machine_id: payload.machine_id,
+      venue_id,
+      revenue: payload.money_collected,
+      toy_counter_reading: payload.current_toy_count,
+      toys_dispensed: payload.toys_dispensed,
+      tokens_in_game: payload.tokens_in_game || 0,
+      commission_rate: commissionRate,
+      commission_amount: payload.money_collected * (commissionRate / 100),
+      net_revenue: payload.money_collected * (1 - (commissionRate / 100)),
+      payout_percentage: payload.money_collected ? (payload.prize_value / payload.money_collected * 100) : 0,
+      report_date: payload.report_date,
+      notes: payload.notes || null
+    };
+    await supabase.from('reports').insert([mainReportData]);
+  } catch (mainReportError) {
+    console.warn('Failed to create main report entry:', mainReportError);
+  }
+
+  return inserted;
+};
+
+const syncOne = async (report: PendingReport): Promise<{ outcome: 'synced' | 'conflict' | 'failed'; serverId?: string }> => {
+  await updatePendingReport({ ...report, status: 'syncing' });
+
+  try {
+    // Another report for this machine landed while we were offline
+    const latest = await fetchLatestServerReport(report.payload.machine_id);
+    if (latest && latest.id !== report.baseline_report_id) {
+      await updatePendingReport({
+        ...report,
+        status: 'conflict',
+        conflict_report: {
+          id: latest.id,
+          current_toy_count: latest.current_toy_count || 0,
+          created_at: latest.created_at
+        }
+      });
+      return { outcome: 'conflict' };
+    }
+
+    const inserted = await submitMachineReport(report.payload);
+    await removePendingReport(report.local_id);
+
+    // Later readings for this machine were chained onto the local id
+    if (inserted?.id) {
+      const chained = (await getPendingReports()).filter(r => r.baseline_report_id === report.local_id);
+      for (const next of chained) {
+        await updatePendingReport({ ...next, baseline_report_id: inserted.id });
+      }
+    }
+    return { outcome: 'synced', serverId: inserted?.id };
+  } catch (error) {
+    await updatePendingReport({
+      ...report,
+      status: 'error',
+      attempts: report.attempts + 1,
+      last_error: error instanceof Error ? error.message : String(error)
+    });
+    return { outcome: 'failed' };
+  }
+};
+
+let syncInFlight: Promise<SyncResult> | null = null;
+
+/**
+ * Replay queued reports in the order they were captured.
+ * Conflicted reports are left for a person to resolve.
+ */
+export const syncPendingReports = (): Promise<SyncResult> => {
+  if (syncInFlight) return syncInFlight;
+
+  syncInFlight = (async () => {
+    const result: SyncResult = { synced: 0, conflicts: 0, failed: 0 };
+    if (!isOnline()) return result;
+
+    const queue = (await getPendingReports()).filter(r => r.status !== 'conflict');
+    const syncedIds = new Map<string, string>();
+
+    for (const queued of queue) {
+      const serverBaseline = queued.baseline_report_id && syncedIds.get(queued.baseline_report_id);
+      const report = serverBaseline ? { ...queued, baseline_report_id: serverBaseline } : queued;
+
+      const { outcome, serverId } = await syncOne(report);
+      if (serverId) syncedIds.set(report.local_id, serverId);
+      if (outcome === 'synced') result.synced++;
+      if (outcome === 'conflict') result.conflicts++;
+      if (outcome === 'failed') result.failed++;
+    }
+
+    console.log('🔁 Offline report sync finished:', result);
+    return result;
+  })().finally(() => {
+    syncInFlight = null;
+  });
+
+  return syncInFlight;
+};
+
+/**
+ * Accept a conflicted report by rebasing it onto the report that beat it to the server.
+ * Toys dispensed is recalculated from the newer reading; if that no longer adds up the
+ * report is saved for review instead.
+ */
+export const resolveConflictBySubmitting = async (report: PendingReport, prizeCost: number): Promise<void> => {
+  if (!report.conflict_report) return;
+
+  const previous = report.conflict_report.current_toy_count;
+  const { toys, error, flagReason } = resolveToyCount({
+    previous,
+    current: report.payload.current_toy_count,
+    event: report.payload.counter_event,
+    finalReading: report.payload.counter_final_reading
+  });
+  // Nobody is at the machine to explain a reading that no longer adds up, so send it for review
+  const reviewReason = error || flagReason;
+  const toysDispensed = reviewReason ? 0 : toys;
+  const rebased: PendingReport = {
+    ...report,
+    baseline_report_id: report.conflict_report.id,
+    conflict_report: undefined,
+    status: 'pending',
+    payload: {
+      ...report.payload,
+      previous_toy_count: previous,
+      toys_dispensed: toysDispensed,
+      prize_value: toysDispensed * prizeCost,
+      counter_review_status: reviewReason ? 'pending' : undefined,
+      counter_review_reason: reviewReason || undefined
+    }
+  };
+
+  await updatePendingReport(rebased);
+  await syncOne(rebased);
+};
+
+export const discardPendingReport = async (report: PendingReport): Promise<void> => {
+  await removePendingReport(report.local_id);
+};
@@ -0,0 +1,67 @@
+// src/lib/repositories/dataSource.ts
+// Storage-agnostic query contract shared by the Supabase client and the in-memory fake
+
+export type FilterOperator = 'eq' | 'neq' | 'gt' | 'gte' | 'lt' | 'lte' | 'in' | 'ilike' | 'is' | 'not_is';
+
+export interface Filter {
+  column: string;
+  op: FilterOperator;
+  value: unknown;
+}
+
+export interface OrderBy {
+  column: string;
+  ascending?: boolean;
+}
+
+export interface QueryOptions {
+  // PostgREST select string, e.g. "*, machine:machines(name, venue:venues(name))"
+  select?: string;
+  filters?: Filter[];
+  orderBy?: OrderBy[];
+  limit?: number;
+}
+
+export interface UpsertOptions {
+  // Skip rows that conflict instead of updating them
+  ignoreDuplicates?: boolean;
+}
+
+export type Row = Record<string, unknown>;
+
+export interface DataSource {
+  select<T>(table: string, options?: QueryOptions): Promise<T[]>;
+  insert<T>(table: string, rows: Row[], select?: string): Promise<T[]>;
+  update<T>(table: string, values: Row, filters: Filter[], select?: string): Promise<T[]>;
+  upsert<T>(table: string, rows: Row[], onConflict?: string, options?: UpsertOptions): Promise<T[]>;
+  remove(table: string, filters: Filter[]): Promise<void>;
+  rpc<T>(fn: string, args?: Row): Promise<T>;
+}
+
+/**
+ * Thrown for every failed repository call so components only have one error shape to handle.
+ * Keeps the Postgres/PostgREST error code for callers that branch on it (e.g. 23514, PGRST116).
+ */
+export class DatabaseError extends Error {
+  readonly code?: string;
+  readonly table?: string;
+
+  constructor(message: string, options: { code?: string; table?: string } = {}) {
+    super(`Database error: ${message}`);
+    this.name = 'DatabaseError';
+    this.code = options.code;
+    this.table = options.table;
+  }
+}
+
+// Filter builders
+export const eq = (column: string, value: unknown): Filter => ({ column, op: 'eq', value });
+export const neq = (column: string, value: unknown): Filter => ({ column, op: 'neq', value });
+export const gt = (column: string, value: unknown): Filter => ({ column, op: 'gt', value });
+export const gte = (column: string, value: unknown): Filter => ({ column, op: 'gte', value });
+export const lt = (column: string, value: unknown): Filter => ({ column, op: 'lt', value });
+export const lte = (column: string, value: unknown): Filter => ({ column, op: 'lte', value });
+export const inList = (column: string, values: unknown[]): Filter => ({ column, op: 'in', value: values });
+export const ilike = (column: string, pattern: string): Filter => ({ column, op: 'ilike', value: pattern });
+export const isNull = (column: string): Filter => ({ column, op: 'is', value: null });
+export const notNull = (column: string): Filter => ({ column, op: 'not_is', value: null });
@@ -0,0 +1,25 @@
+// src/lib/repositories/index.ts
+// Single entry point for database access. Components import `repositories` instead of
+// calling supabase.from(...) directly; tests swap the backing store with setDataSource().
+
+import type { DataSource } from './dataSource';
+import { createRepositories } from './repositories';
+import { supabaseDataSource } from './supabaseDataSource';
+
+let activeSource: DataSource = supabaseDataSource;
+
+export const setDataSource = (source: DataSource): void => {
+  activeSource = source;
+};
+
+export const resetDataSource = (): void => {
+  activeSource = supabaseDataSource;
+};
+
+export const repositories = createRepositories(() => activeSource);
+
+export * from './dataSource';
+export * from './types';
+export { MemoryDataSource, type RelationMap, type RelationConfig } from './memoryDataSource';
+export { TableRepository } from './tableRepository';
+export { createRepositories, type Repositories } from './repositories';
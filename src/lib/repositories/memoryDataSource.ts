@@ -0,0 +1,227 @@
+// src/lib/repositories/memoryDataSource.ts
+// In-memory DataSource for tests and local prototyping. Understands the subset of
+// PostgREST select syntax the repositories use: "*", column lists and embedded
+// relations such as "machine:machines(name, venue:venues(name))" or "prizes!inner(*)".
+
+import { v4 as uuidv4 } from 'uuid';
+import { DatabaseError, type DataSource, type Filter, type QueryOptions, type Row, type UpsertOptions } from './dataSource';
+
+export interface RelationConfig {
+  // Column holding the foreign key
+  foreignKey: string;
+  // 'one': parent[foreignKey] -> child.id, 'many': child[foreignKey] -> parent.id
+  type: 'one' | 'many';
+}
+
+// relations[parentTable][embeddedTable]
+export type RelationMap = Record<string, Record<string, RelationConfig>>;
+
+type RpcHandler = (args: Row, source: MemoryDataSource) => unknown;
+
+interface SelectNode {
+  columns: string[];
+  embeds: Array<{ alias: string; table: string; inner: boolean; node: SelectNode }>;
+}
+
+// Relations whose foreign key cannot be guessed from the table name
+const DEFAULT_RELATIONS: RelationMap = {
+  machines: {
+    prizes: { foreignKey: 'current_prize_id', type: 'one' }
+  }
+};
+
+const singular = (table: string): string => {
+  if (table.endsWith('ies')) return `${table.slice(0, -3)}y`;
+  if (table.endsWith('s')) return table.slice(0, -1);
+  return table;
+};
+
+const splitTopLevel = (value: string): string[] => {
+  const parts: string[] = [];
+  let depth = 0;
+  let current = '';
+  for (const char of value) {
+    if (char === '(') depth++;
+    if (char === ')') depth--;
+    if (char === ',' && depth === 0) {
+      parts.push(current.trim());
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  if (current.trim()) parts.push(current.trim());
+  return parts;
+};
+
+const parseSelect = (select = '*'): SelectNode => {
+  const node: SelectNode = { columns: [], embeds: [] };
+
+  splitTopLevel(select.replace(/\s+/g, ' ')).forEach(token => {
+    const open = token.indexOf('(');
+    if (open === -1) {
+      node.columns.push(token.trim());
+      return;
+    }
+
+    const head = token.slice(0, open).trim();
+    const body = token.slice(open + 1, token.lastIndexOf(')'));
+    const [aliasPart, tablePart] = head.includes(':') ? head.split(':') : [head, head];
+    const [table, ...hints] = tablePart.split('!');
+    node.embeds.push({
+      alias: aliasPart.split('!')[0].trim(),
+      table: table.trim(),
+      inner: hints.includes('inner'),
+      node: parseSelect(body)
+    });
+  });
+
+  return node;
+};
+
+const compare = (a: unknown, b: unknown): number => {
+  if (a === b) return 0;
+  if (a === null || a === undefined) return 1;
+  if (b === null || b === undefined) return -1;
+  return a < b ? -1 : 1;
+};
+
+const matches = (row: Row, filter: Filter): boolean => {
+  const value = row[filter.column];
+  switch (filter.op) {
+    case 'eq': return value === filter.value;
+    case 'neq': return value !== filter.value;
+    case 'gt': return compare(value, filter.value) > 0;
+    case 'gte': return compare(value, filter.value) >= 0;
+    case 'lt': return value !== null && value !== undefined && compare(value, filter.value) < 0;
+    case 'lte': return value !== null && value !== undefined && compare(value, filter.value) <= 0;
+    case 'in': return (filter.value as unknown[]).includes(value);
+    case 'ilike': {
+      const pattern = String(filter.value).replace(/[.+?^${}()|[\]\\]/g, '\\$&').replace(/%/g, '.*');
+      return new RegExp(`^${pattern}$`, 'i').test(String(value ?? ''));
+    }
+    case 'is': return (value ?? null) === filter.value;
+    case 'not_is': return (value ?? null) !== filter.value;
+    default: return true;
+  }
+};
+
+export class MemoryDataSource implements DataSource {
+  readonly tables: Map<string, Row[]> = new Map();
+  private readonly relations: RelationMap;
+  private readonly rpcHandlers: Map<string, RpcHandler> = new Map();
+
+  constructor(seed: Record<string, Row[]> = {}, relations: RelationMap = {}) {
+    Object.entries(seed).forEach(([table, rows]) => {
+      this.tables.set(table, rows.map(row => ({ ...row })));
+    });
+    this.relations = { ...DEFAULT_RELATIONS, ...relations };
+  }
+
+  registerRpc(name: string, handler: RpcHandler): void {
+    this.rpcHandlers.set(name, handler);
+  }
+
+  rows(table: string): Row[] {
+    if (!this.tables.has(table)) this.tables.set(table, []);
+    return this.tables.get(table)!;
+  }
+
+  private resolveRelation(parent: string, child: string): RelationConfig {
+    const configured = this.relations[parent]?.[child];
+    if (configured) return configured;
+
+    const sample = this.rows(parent)[0];
+    const localKey = `${singular(child)}_id`;
+    if (sample && localKey in sample) return { foreignKey: localKey, type: 'one' };
+    return { foreignKey: `${singular(parent)}_id`, type: 'many' };
+  }
+
+  private project(table: string, row: Row, node: SelectNode): Row | null {
+    const projected: Row = {};
+
+    if (node.columns.length === 0 || node.columns.includes('*')) {
+      Object.assign(projected, row);
+    } else {
+      node.columns.forEach(column => {
+        const [name, alias] = column.split(':').reverse();
+        projected[alias || name] = row[name];
+      });
+    }
+
+    for (const embed of node.embeds) {
+      const relation = this.resolveRelation(table, embed.table);
+      const related = relation.type === 'one'
+        ? this.rows(embed.table).filter(child => child.id === row[relation.foreignKey])
+        : this.rows(embed.table).filter(child => child[relation.foreignKey] === row.id);
+
+      const shaped = related
+        .map(child => this.project(embed.table, child, embed.node))
+        .filter((child): child is Row => child !== null);
+
+      if (embed.inner && shaped.length === 0) return null;
+      projected[embed.alias] = relation.type === 'one' ? (shaped[0] ?? null) : shaped;
+    }
+
+    return projected;
+  }
+
+  async select<T>(table: string, options: QueryOptions = {}): Promise<T[]> {
+    let rows = this.rows(table).filter(row => (options.filters || []).every(filter => matches(row, filter)));
+
+    (options.orderBy || []).slice().reverse().forEach(order => {
+      rows = [...rows].sort((a, b) => compare(a[order.column], b[order.column]) * (order.ascending === false ? -1 : 1));
+    });
+
+    if (options.limit) rows = rows.slice(0, options.limit);
+
+    const node = parseSelect(options.select);
+    return rows
+      .map(row => this.project(table, row, node))
+      .filter((row): row is Row => row !== null) as T[];
+  }
+
+  async insert<T>(table: string, rows: Row[], select?: string): Promise<T[]> {
+    const now = new Date().toISOString();
+    const inserted = rows.map(row => ({ id: uuidv4(), created_at: now, ...row }));
+    this.rows(table).push(...inserted);
+    return this.select<T>(table, { select, filters: [{ column: 'id', op: 'in', value: inserted.map(r => r.id) }] });
+  }
+
+  async update<T>(table: string, values: Row, filters: Filter[], select?: string): Promise<T[]> {
+    const ids: unknown[] = [];
+    this.tables.set(table, this.rows(table).map(row => {
+      if (!filters.every(filter => matches(row, filter))) return row;
+      ids.push(row.id);
+      return { ...row, ...values };
+    }));
+    return this.select<T>(table, { select, filters: [{ column: 'id', op: 'in', value: ids }] });
+  }
+
+  async upsert<T>(table: string, rows: Row[], onConflict = 'id', options: UpsertOptions = {}): Promise<T[]> {
+    const keys = onConflict.split(',').map(key => key.trim());
+    const results: T[] = [];
+
+    for (const row of rows) {
+      const existing = this.rows(table).find(candidate => keys.every(key => candidate[key] === row[key]));
+      if (existing && options.ignoreDuplicates) continue;
+      if (existing) {
+        results.push(...await this.update<T>(table, row, [{ column: 'id', op: 'eq', value: existing.id }]));
+      } else {
+        results.push(...await this.insert<T>(table, [row]));
+      }
+    }
+
+    return results;
+  }
+
+  async remove(table: string, filters: Filter[]): Promise<void> {
+    this.tables.set(table, this.rows(table).filter(row => !filters.every(filter => matches(row, filter))));
+  }
+
+  async rpc<T>(fn: string, args: Row = {}): Promise<T> {
+    const handler = this.rpcHandlers.get(fn);
+    if (!handler) throw new DatabaseError(`function ${fn} is not registered`, { code: 'PGRST202' });
+    return handler(args, this) as T;
+  }
+}
@@ -0,0 +1,803 @@
+// src/lib/repositories/repositories.ts
+// Table-specific repositories: joins, lookups and multi-row updates live here, not in components
+
+import { eq, gte, ilike, inList, isNull, lte, neq, notNull, type Filter } from './dataSource';
+import { TableRepository, type DataSourceProvider } from './tableRepository';
+import type {
+  CashReconciliationRow,
+  CashReconciliationSettingsRow,
+  CommissionPaymentRow,
+  CycleCountScheduleRow,
+  EquipmentInspectionRow,
+  EquipmentRow,
+  HireContractRow,
+  HireInvoiceLine,
+  HireInvoiceRow,
+  HireReminderRow,
+  JobPartRow,
+  JobRow,
+  LocationStockRow,
+  MachineMeasurementRow,
+  MachineMoveRow,
+  MaintenancePlanJobRow,
+  MaintenancePlanRow,
+  MachinePartRow,
+  MachineReportRow,
+  MachineRotationRow,
+  MachineRow,
+  MachineStockRow,
+  PartRow,
+  PayoutTargetRow,
+  PayWaveSettlementImportRow,
+  PayWaveTerminalRow,
+  PayWaveTransactionRow,
+  PermissionRow,
+  PrizeCostHistoryRow,
+  PrizeRow,
+  PublicHolidayRow,
+  PurchaseOrderLineRow,
+  PurchaseOrderRow,
+  ReturnInspection,
+  RolePermissionRow,
+  RoleRow,
+  RunRow,
+  RunScheduleRow,
+  RunSheetItemRow,
+  RunTaskRow,
+  RunVenueRow,
+  StaffMemberRow,
+  StockLocationRow,
+  StockMovementRow,
+  StocktakeLineRow,
+  StocktakeRow,
+  SupplierItemRow,
+  SupplierRow,
+  UserPermissionOverrideRow,
+  VenueCapacityRow,
+  VenuePartnerLinkRow,
+  VenueReportRow,
+  VenueRow,
+  ViewPermissionRow
+} from './types';
+
+export class MachinesRepository extends TableRepository<MachineRow> {
+  constructor(source: DataSourceProvider) {
+    super('machines', source, '*, venues(*), prizes(*)');
+  }
+
+  async findByBarcode(barcode: string): Promise<MachineRow | null> {
+    const exact = await this.findOne([eq('barcode', barcode)]);
+    if (exact) return exact;
+    return this.findOne([ilike('barcode', `%${barcode}%`)]);
+  }
+}
+
+export class MachineReportsRepository extends TableRepository<MachineReportRow> {
+  constructor(source: DataSourceProvider) {
+    super('machine_reports', source);
+  }
+
+  listWithMachines(): Promise<MachineReportRow[]> {
+    return this.list({
+      select: '*, machines(name, type, venue_id, serial_number)',
+      orderBy: [{ column: 'report_date', ascending: false }]
+    });
+  }
+
+  latestForMachine(machineId: string): Promise<MachineReportRow | null> {
+    return this.findOne([eq('machine_id', machineId)], {
+      orderBy: [{ column: 'created_at', ascending: false }]
+    });
+  }
+
+  listAwaitingCounterReview(): Promise<MachineReportRow[]> {
+    return this.findWhere([eq('counter_review_status', 'pending')], {
+      select: '*, machines(name, type, venue_id, serial_number)',
+      orderBy: [{ column: 'created_at', ascending: true }]
+    });
+  }
+
+  // Approving a flagged counter jump saves the toys it implies; rejecting keeps them at zero.
+  // The reviewer and time are stamped by a trigger.
+  reviewCounterJump(id: string, decision: { approved: boolean; toysDispensed: number; prizeValue: number }) {
+    return this.update(id, {
+      counter_review_status: decision.approved ? 'approved' : 'rejected',
+      toys_dispensed: decision.approved ? decision.toysDispensed : 0,
+      prize_value: decision.approved ? decision.prizeValue : 0
+    });
+  }
+
+  setPaidStatus(id: string, paid: boolean) {
+    return this.update(id, { paid_status: paid });
+  }
+
+  // Used when a venue statement is paid: settles every unpaid machine report it covers
+  markVenueReportsPaid(venueId: string, dateRange?: { start: string; end: string }) {
+    const filters: Filter[] = [eq('venue_id', venueId), eq('paid_status', false)];
+    if (dateRange?.start && dateRange?.end) {
+      filters.push(gte('report_date', dateRange.start), lte('report_date', dateRange.end));
+    }
+    return this.updateWhere(filters, { paid_status: true });
+  }
+}
+
+export class VenueReportsRepository extends TableRepository<VenueReportRow> {
+  constructor(source: DataSourceProvider) {
+    super('venue_reports', source);
+  }
+
+  listLatestFirst(): Promise<VenueReportRow[]> {
+    return this.list({ orderBy: [{ column: 'report_date', ascending: false }] });
+  }
+
+  listForVenues(venueIds: string[]): Promise<VenueReportRow[]> {
+    if (venueIds.length === 0) return Promise.resolve([]);
+    return this.findWhere([inList('venue_id', venueIds)], {
+      orderBy: [{ column: 'date_range_end', ascending: false }]
+    });
+  }
+
+  setPaidStatus(id: string, paid: boolean) {
+    return this.update(id, { paid_status: paid });
+  }
+}
+
+const JOB_WITH_MACHINE = '*, machine:machines(name, type, venue:venues(name, address)), equipment:equipment_hire(name)';
+
+export class JobsRepository extends TableRepository<JobRow> {
+  constructor(source: DataSourceProvider) {
+    super('jobs', source, JOB_WITH_MACHINE);
+  }
+
+  listForBoard(): Promise<JobRow[]> {
+    return this.list({
+      orderBy: [
+        { column: 'scheduled_date', ascending: true },
+        { column: 'created_at', ascending: false }
+      ]
+    });
+  }
+
+  listScheduled(): Promise<JobRow[]> {
+    return this.findWhere([notNull('scheduled_date'), neq('archived', true)]);
+  }
+
+  reschedule(id: string, scheduledDate: string) {
+    return this.update(id, { scheduled_date: scheduledDate });
+  }
+}
+
+export class JobPartsRepository extends TableRepository<JobPartRow> {
+  constructor(source: DataSourceProvider) {
+    super('job_parts', source);
+  }
+
+  listForJobs(jobIds: string[]): Promise<JobPartRow[]> {
+    if (jobIds.length === 0) return Promise.resolve([]);
+    return this.findWhere([inList('job_id', jobIds)], {
+      orderBy: [{ column: 'created_at', ascending: true }]
+    });
+  }
+
+  // Takes the parts out of stock, logs the movement and adds the cost to the job in one go
+  record(jobId: string, partId: string, quantity: number, notes?: string | null): Promise<JobPartRow> {
+    return this.source().rpc<JobPartRow>('record_job_part', {
+      p_job_id: jobId,
+      p_part_id: partId,
+      p_quantity: quantity,
+      p_notes: notes || null
+    });
+  }
+
+  // Puts the parts back in stock and takes the cost off the job
+  undo(id: string): Promise<void> {
+    return this.source().rpc<void>('remove_job_part', { p_job_part_id: id });
+  }
+}
+
+export class RunVenuesRepository extends TableRepository<RunVenueRow> {
+  constructor(source: DataSourceProvider) {
+    super('run_venues', source, '*, venues(*)');
+  }
+
+  listForRun(runId: string): Promise<RunVenueRow[]> {
+    return this.findWhere([eq('run_id', runId)], {
+      orderBy: [{ column: 'sequence_order', ascending: true }]
+    });
+  }
+
+  // Saves the whole order at once; the function checks the caller owns the run or manages venues
+  reorder(runId: string, venueIds: string[]): Promise<void> {
+    return this.source().rpc<void>('reorder_run_venues', { p_run_id: runId, p_venue_ids: venueIds });
+  }
+}
+
+export class RunSchedulesRepository extends TableRepository<RunScheduleRow> {
+  constructor(source: DataSourceProvider) {
+    super('run_schedules', source, '*, runs(*)');
+  }
+
+  listBetween(start: string, end: string): Promise<RunScheduleRow[]> {
+    return this.findWhere([gte('scheduled_date', start), lte('scheduled_date', end)], {
+      orderBy: [{ column: 'scheduled_date', ascending: true }]
+    });
+  }
+
+  async countCompleted(runId: string): Promise<number> {
+    const completed = await this.findWhere([eq('run_id', runId), eq('completed', true)], { select: 'id' });
+    return completed.length;
+  }
+
+  // Run numbers count a run's schedules from 1; the next one continues after the highest
+  async nextRunNumber(runId: string): Promise<number> {
+    const lastNumbered = await this.findOne([eq('run_id', runId), notNull('run_number')], {
+      select: 'run_number',
+      orderBy: [{ column: 'run_number', ascending: false }]
+    });
+    return (lastNumbered?.run_number || 0) + 1;
+  }
+
+  // Remembers the rule date the first time it's moved, so schedule sync leaves it be
+  reschedule(schedule: Pick<RunScheduleRow, 'id' | 'scheduled_date' | 'rescheduled_from'>, scheduledDate: string) {
+    return this.update(schedule.id, {
+      scheduled_date: scheduledDate,
+      rescheduled_from: schedule.rescheduled_from || schedule.scheduled_date
+    });
+  }
+}
+
+export class PublicHolidaysRepository extends TableRepository<PublicHolidayRow> {
+  constructor(source: DataSourceProvider) {
+    super('public_holidays', source);
+  }
+
+  listBetween(start: string, end: string): Promise<PublicHolidayRow[]> {
+    return this.findWhere([gte('holiday_date', start), lte('holiday_date', end)], {
+      orderBy: [{ column: 'holiday_date', ascending: true }]
+    });
+  }
+}
+
+export class MaintenancePlansRepository extends TableRepository<MaintenancePlanRow> {
+  constructor(source: DataSourceProvider) {
+    super('maintenance_plans', source);
+  }
+
+  listActive(): Promise<MaintenancePlanRow[]> {
+    return this.findWhere([eq('is_active', true)]);
+  }
+}
+
+export class MaintenancePlanJobsRepository extends TableRepository<MaintenancePlanJobRow> {
+  constructor(source: DataSourceProvider) {
+    super('maintenance_plan_jobs', source, '*, jobs(id, title, status, archived, completed_at, scheduled_date)');
+  }
+
+  listForMachines(machineIds: string[]): Promise<MaintenancePlanJobRow[]> {
+    if (machineIds.length === 0) return Promise.resolve([]);
+    return this.findWhere([inList('machine_id', machineIds)], {
+      orderBy: [{ column: 'cycle_start', ascending: true }]
+    });
+  }
+}
+
+export class RunSheetItemsRepository extends TableRepository<RunSheetItemRow> {
+  constructor(source: DataSourceProvider) {
+    super('run_sheet_items', source);
+  }
+
+  listForSchedule(scheduleId: string): Promise<RunSheetItemRow[]> {
+    return this.findWhere([eq('run_schedule_id', scheduleId)], {
+      orderBy: [{ column: 'sequence', ascending: true }]
+    });
+  }
+}
+
+export class MachineMovesRepository extends TableRepository<MachineMoveRow> {
+  constructor(source: DataSourceProvider) {
+    super('machine_moves', source);
+  }
+
+  listScheduledBetween(start: string, end: string): Promise<MachineMoveRow[]> {
+    return this.findWhere([
+      notNull('scheduled_date'),
+      gte('scheduled_date', start),
+      lte('scheduled_date', end),
+      neq('status', 'cancelled')
+    ]);
+  }
+
+  // Files the closing report at the old venue, moves the machine and records the history
+  complete(moveId: string, readings: { closingToyCount: number; moneyCollected: number; openingToyCount: number; notes?: string }): Promise<MachineMoveRow> {
+    return this.source().rpc<MachineMoveRow>('complete_machine_move', {
+      p_move_id: moveId,
+      p_closing_toy_count: readings.closingToyCount,
+      p_money_collected: readings.moneyCollected,
+      p_opening_toy_count: readings.openingToyCount,
+      p_notes: readings.notes || null
+    });
+  }
+}
+
+export class HireContractsRepository extends TableRepository<HireContractRow> {
+  constructor(source: DataSourceProvider) {
+    super(
+      'equipment_hire_contracts',
+      source,
+      '*, equipment_hire(id, name, serial_number, asset_tag, condition, current_value, purchase_cost, purchase_date, depreciation_method, useful_life_years, residual_value, written_down_value, written_down_on), equipment_hire_invoices(*), equipment_hire_reminders(*)'
+    );
+  }
+
+  listLatestFirst(): Promise<HireContractRow[]> {
+    return this.list({ orderBy: [{ column: 'start_date', ascending: false }] });
+  }
+
+  // Saves the check-in inspection, settles the deposit and raises the invoice. Damage opens a
+  // repair job and holds the equipment in maintenance; otherwise it's available again.
+  returnEquipment(
+    contractId: string,
+    details: {
+      returnedDate: string;
+      lineItems: HireInvoiceLine[];
+      inspection: ReturnInspection;
+      depositStatus: 'refunded' | 'applied' | 'forfeited';
+      notes?: string;
+    }
+  ): Promise<HireInvoiceRow> {
+    return this.source().rpc<HireInvoiceRow>('return_equipment_hire', {
+      p_contract_id: contractId,
+      p_returned_date: details.returnedDate,
+      p_line_items: details.lineItems,
+      p_inspection: details.inspection,
+      p_deposit_status: details.depositStatus,
+      p_notes: details.notes || null
+    });
+  }
+}
+
+export class HireInvoicesRepository extends TableRepository<HireInvoiceRow> {
+  constructor(source: DataSourceProvider) {
+    super('equipment_hire_invoices', source);
+  }
+
+  // Invoices that count as revenue (not voided) issued on or after the date
+  listIssuedSince(date: string): Promise<HireInvoiceRow[]> {
+    return this.findWhere([gte('issue_date', date), neq('status', 'void')]);
+  }
+}
+
+export class EquipmentInspectionsRepository extends TableRepository<EquipmentInspectionRow> {
+  constructor(source: DataSourceProvider) {
+    super('equipment_inspections', source);
+  }
+
+  listForEquipment(equipmentId: string): Promise<EquipmentInspectionRow[]> {
+    return this.findWhere([eq('equipment_id', equipmentId)], {
+      orderBy: [{ column: 'inspected_at', ascending: false }]
+    });
+  }
+}
+
+export class MachineStockRepository extends TableRepository<MachineStockRow> {
+  constructor(source: DataSourceProvider) {
+    super('machine_stock', source);
+  }
+
+  listForMachine(machineId: string): Promise<MachineStockRow[]> {
+    return this.findWhere([eq('machine_id', machineId)], {
+      select: 'id, machine_id, prize_id, quantity, notes, prizes!inner(id, name, cost, stock_quantity, image_url, barcode)'
+    });
+  }
+
+  // What each load of prizes into these machines cost, oldest first. Fetched 100 machines at a
+  // time to keep the request URL short.
+  async listCostsForMachines(machineIds: string[]): Promise<MachineStockRow[]> {
+    const ids = Array.from(new Set(machineIds.filter(Boolean)));
+    const batches: MachineStockRow[][] = [];
+    for (let start = 0; start < ids.length; start += 100) {
+      batches.push(await this.findWhere([inList('machine_id', ids.slice(start, start + 100)), notNull('unit_cost')], {
+        select: 'id, machine_id, prize_id, quantity, unit_cost, created_at',
+        orderBy: [{ column: 'created_at', ascending: true }]
+      }));
+    }
+    return batches.flat();
+  }
+}
+
+export class MachinePartsRepository extends TableRepository<MachinePartRow> {
+  constructor(source: DataSourceProvider) {
+    super('machine_parts', source);
+  }
+
+  listForMachine(machineId: string): Promise<MachinePartRow[]> {
+    return this.findWhere([eq('machine_id', machineId)], {
+      select: 'id, machine_id, part_id, quantity, notes, parts!inner(id, name, cost_price, stock_quantity, image_url, barcode)'
+    });
+  }
+}
+
+export class PayWaveTerminalsRepository extends TableRepository<PayWaveTerminalRow> {
+  constructor(source: DataSourceProvider) {
+    super('machine_paywave_terminals', source);
+  }
+
+  listForMachine(machineId: string): Promise<PayWaveTerminalRow[]> {
+    return this.findWhere([eq('machine_id', machineId)], {
+      orderBy: [{ column: 'created_at', ascending: true }]
+    });
+  }
+
+  async replaceForMachine(machineId: string, terminals: Array<{ name: string; terminal_number: string }>) {
+    await this.removeWhere([eq('machine_id', machineId)]);
+    return this.createMany(terminals.map(terminal => ({ ...terminal, machine_id: machineId })));
+  }
+}
+
+export class MachineRotationsRepository extends TableRepository<MachineRotationRow> {
+  constructor(source: DataSourceProvider) {
+    super('machine_rotations', source);
+  }
+
+  getForMachine(machineId: string): Promise<MachineRotationRow | null> {
+    return this.findOne([eq('machine_id', machineId)]);
+  }
+
+  saveSettings(settings: Omit<MachineRotationRow, 'id'>) {
+    return this.upsert([settings], 'machine_id');
+  }
+}
+
+export class StockRepository<T extends { id: string; stock_quantity: number }> extends TableRepository<T> {
+  setStock(id: string, quantity: number) {
+    return this.update(id, { stock_quantity: quantity });
+  }
+
+  findByBarcode(barcode: string): Promise<T | null> {
+    return this.findOne([eq('barcode', barcode)]);
+  }
+}
+
+export class UsersRepository extends TableRepository<StaffMemberRow> {
+  constructor(source: DataSourceProvider) {
+    super('users', source);
+  }
+
+  listActiveStaff(): Promise<StaffMemberRow[]> {
+    return this.findWhere([eq('is_active', true)], {
+      select: 'id, full_name, username, role',
+      orderBy: [{ column: 'full_name', ascending: true }]
+    });
+  }
+}
+
+export class RolesRepository extends TableRepository<RoleRow> {
+  constructor(source: DataSourceProvider) {
+    super('roles', source);
+  }
+
+  listAll(): Promise<RoleRow[]> {
+    return this.list({ orderBy: [{ column: 'created_at', ascending: true }] });
+  }
+
+  findByKey(key: string): Promise<RoleRow | null> {
+    return this.findOne([eq('key', key)]);
+  }
+}
+
+export class RolePermissionsRepository extends TableRepository<RolePermissionRow> {
+  constructor(source: DataSourceProvider) {
+    super('role_permissions', source);
+  }
+
+  async replaceForRole(roleKey: string, permissionKeys: string[]) {
+    await this.removeWhere([eq('role_key', roleKey)]);
+    return this.createMany(permissionKeys.map(permission_key => ({ role_key: roleKey, permission_key })));
+  }
+}
+
+export class UserPermissionOverridesRepository extends TableRepository<UserPermissionOverrideRow> {
+  constructor(source: DataSourceProvider) {
+    super('user_permission_overrides', source);
+  }
+
+  listForUser(userId: string): Promise<UserPermissionOverrideRow[]> {
+    return this.findWhere([eq('user_id', userId)]);
+  }
+
+  // granted === null removes the override so the user falls back to their role
+  async setOverride(userId: string, permissionKey: string, granted: boolean | null) {
+    if (granted === null) {
+      await this.removeWhere([eq('user_id', userId), eq('permission_key', permissionKey)]);
+      return null;
+    }
+    const [saved] = await this.upsert([{ user_id: userId, permission_key: permissionKey, granted }], 'user_id,permission_key');
+    return saved;
+  }
+}
+
+export class VenuePartnerLinksRepository extends TableRepository<VenuePartnerLinkRow> {
+  constructor(source: DataSourceProvider) {
+    super('venue_partner_links', source, '*, venues(*)');
+  }
+
+  listForUser(userId: string): Promise<VenuePartnerLinkRow[]> {
+    return this.findWhere([eq('user_id', userId)]);
+  }
+
+  async replaceForUser(userId: string, venueIds: string[]) {
+    await this.removeWhere([eq('user_id', userId)]);
+    return this.createMany(venueIds.map(venue_id => ({ user_id: userId, venue_id })));
+  }
+}
+
+export class CommissionPaymentsRepository extends TableRepository<CommissionPaymentRow> {
+  constructor(source: DataSourceProvider) {
+    super('commission_payments', source);
+  }
+
+  listOldestFirst(): Promise<CommissionPaymentRow[]> {
+    return this.list({ orderBy: [{ column: 'paid_at', ascending: true }, { column: 'created_at', ascending: true }] });
+  }
+
+  listForVenue(venueId: string): Promise<CommissionPaymentRow[]> {
+    return this.findWhere([eq('venue_id', venueId)], {
+      orderBy: [{ column: 'paid_at', ascending: true }, { column: 'created_at', ascending: true }]
+    });
+  }
+}
+
+export class CashReconciliationsRepository extends TableRepository<CashReconciliationRow> {
+  constructor(source: DataSourceProvider) {
+    super(
+      'cash_reconciliations',
+      source,
+      '*, machine_reports(report_date, money_collected, tokens_in_game, toys_dispensed), machines(name, venue_id)'
+    );
+  }
+
+  listPending(): Promise<CashReconciliationRow[]> {
+    return this.findWhere([eq('status', 'pending')], { orderBy: [{ column: 'created_at', ascending: true }] });
+  }
+
+  // Who approved it and when is stamped by a trigger
+  approve(id: string, reason: string) {
+    return this.update(id, { status: 'approved', resolution_reason: reason });
+  }
+}
+
+export class PayWaveTransactionsRepository extends TableRepository<PayWaveTransactionRow> {
+  constructor(source: DataSourceProvider) {
+    super('paywave_transactions', source);
+  }
+
+  // Inclusive YYYY-MM-DD range on when the card was tapped
+  listForMachines(machineIds: string[], range: { from?: string; to?: string } = {}): Promise<PayWaveTransactionRow[]> {
+    if (machineIds.length === 0) return Promise.resolve([]);
+    const filters: Filter[] = [inList('machine_id', machineIds)];
+    if (range.from) filters.push(gte('transacted_at', range.from));
+    if (range.to) filters.push(lte('transacted_at', `${range.to}T23:59:59.999Z`));
+    return this.findWhere(filters, { orderBy: [{ column: 'transacted_at', ascending: true }] });
+  }
+
+  listUnmatched(): Promise<PayWaveTransactionRow[]> {
+    return this.findWhere([isNull('machine_id')], { orderBy: [{ column: 'transacted_at', ascending: true }] });
+  }
+
+  // Refs already imported for these terminals over the file's dates, so re-importing adds nothing twice
+  async existingRefs(terminalNumbers: string[], range: { from: string; to: string }): Promise<Set<string>> {
+    if (terminalNumbers.length === 0) return new Set();
+    const rows = await this.findWhere(
+      [inList('terminal_number', terminalNumbers), gte('transacted_at', range.from), lte('transacted_at', range.to)],
+      { select: 'terminal_number, transaction_ref' }
+    );
+    return new Set(rows.map(row => `${row.terminal_number}|${row.transaction_ref}`));
+  }
+}
+
+export class StockMovementsRepository extends TableRepository<StockMovementRow> {
+  constructor(source: DataSourceProvider) {
+    super('stock_movements', source);
+  }
+
+  listOutSince(since: string): Promise<StockMovementRow[]> {
+    return this.findWhere([eq('movement_type', 'out'), gte('created_at', since)], {
+      select: 'item_type, item_id, quantity, created_at'
+    });
+  }
+}
+
+export class StockLocationsRepository extends TableRepository<StockLocationRow> {
+  constructor(source: DataSourceProvider) {
+    super('stock_locations', source, '*, users(full_name, username)');
+  }
+
+  listActive(): Promise<StockLocationRow[]> {
+    return this.findWhere([eq('is_active', true)], {
+      orderBy: [{ column: 'is_primary', ascending: false }, { column: 'name', ascending: true }]
+    });
+  }
+
+  // The signed-in user's van; the function hands back an empty row when they don't have one
+  async findMyVehicle(): Promise<StockLocationRow | null> {
+    const row = await this.source().rpc<StockLocationRow | null>('my_vehicle_location');
+    return row?.id ? row : null;
+  }
+}
+
+export class LocationStockRepository extends TableRepository<LocationStockRow> {
+  constructor(source: DataSourceProvider) {
+    super('location_stock', source);
+  }
+
+  listForLocation(locationId: string): Promise<LocationStockRow[]> {
+    return this.findWhere([eq('location_id', locationId)]);
+  }
+
+  transfer(fromLocationId: string, toLocationId: string, prizeId: string, quantity: number, notes?: string | null): Promise<void> {
+    return this.source().rpc<void>('transfer_stock', {
+      p_from_location_id: fromLocationId,
+      p_to_location_id: toLocationId,
+      p_prize_id: prizeId,
+      p_quantity: quantity,
+      p_notes: notes || null
+    });
+  }
+
+  // Takes prizes out of a location and into a machine, logging the machine_stock row and the movement
+  issueToMachine(locationId: string, machineId: string, prizeId: string, quantity: number, notes?: string | null): Promise<void> {
+    return this.source().rpc<void>('issue_stock_to_machine', {
+      p_location_id: locationId,
+      p_machine_id: machineId,
+      p_prize_id: prizeId,
+      p_quantity: quantity,
+      p_notes: notes || null
+    });
+  }
+
+  // Replaces what a location is expected to hold with what was counted; returns how many prizes were out
+  recordCount(locationId: string, counts: Array<{ prize_id: string; counted: number }>): Promise<number> {
+    return this.source().rpc<number>('count_location_stock', { p_location_id: locationId, p_counts: counts });
+  }
+}
+
+export class StocktakesRepository extends TableRepository<StocktakeRow> {
+  constructor(source: DataSourceProvider) {
+    super('stocktakes', source);
+  }
+
+  listLatestFirst(): Promise<StocktakeRow[]> {
+    return this.list({ orderBy: [{ column: 'created_at', ascending: false }] });
+  }
+
+  // Creates the stocktake and freezes the expected quantity of everything in scope
+  start(title: string, itemType: StocktakeRow['item_type'], category: string | null, scheduleId?: string | null): Promise<StocktakeRow> {
+    return this.source().rpc<StocktakeRow>('start_stocktake', {
+      p_title: title,
+      p_item_type: itemType,
+      p_category: category,
+      p_schedule_id: scheduleId || null
+    });
+  }
+
+  // Posts every variance to stock as an adjustment; returns how many lines were posted
+  approve(id: string): Promise<number> {
+    return this.source().rpc<number>('approve_stocktake', { p_stocktake_id: id });
+  }
+}
+
+export class StocktakeLinesRepository extends TableRepository<StocktakeLineRow> {
+  constructor(source: DataSourceProvider) {
+    super('stocktake_lines', source);
+  }
+
+  listForStocktake(stocktakeId: string): Promise<StocktakeLineRow[]> {
+    return this.findWhere([eq('stocktake_id', stocktakeId)], {
+      orderBy: [{ column: 'item_type', ascending: false }, { column: 'item_name', ascending: true }]
+    });
+  }
+}
+
+export class PrizeCostHistoryRepository extends TableRepository<PrizeCostHistoryRow> {
+  constructor(source: DataSourceProvider) {
+    super('prize_cost_history', source);
+  }
+
+  // Oldest first, the order costAt walks them in. Fetched 100 prizes at a time to keep the
+  // request URL short.
+  async listForPrizes(prizeIds: string[]): Promise<PrizeCostHistoryRow[]> {
+    const ids = Array.from(new Set(prizeIds.filter(Boolean)));
+    const orderBy = [{ column: 'effective_from', ascending: true }];
+    const batches: PrizeCostHistoryRow[][] = [];
+    for (let start = 0; start < ids.length; start += 100) {
+      batches.push(await this.findWhere([inList('prize_id', ids.slice(start, start + 100))], { orderBy }));
+    }
+    return batches.flat().sort((a, b) => a.effective_from.localeCompare(b.effective_from));
+  }
+}
+
+export class SupplierItemsRepository extends TableRepository<SupplierItemRow> {
+  constructor(source: DataSourceProvider) {
+    super('supplier_items', source);
+  }
+
+  listForSupplier(supplierId: string): Promise<SupplierItemRow[]> {
+    return this.findWhere([eq('supplier_id', supplierId)]);
+  }
+}
+
+export class PurchaseOrdersRepository extends TableRepository<PurchaseOrderRow> {
+  constructor(source: DataSourceProvider) {
+    super('purchase_orders', source, '*, suppliers(id, name, email, lead_time_days), purchase_order_lines(*)');
+  }
+
+  listLatestFirst(): Promise<PurchaseOrderRow[]> {
+    return this.list({ orderBy: [{ column: 'created_at', ascending: false }] });
+  }
+
+  // Orders placed but not fully received, for what is already on the way
+  listOpen(): Promise<PurchaseOrderRow[]> {
+    return this.findWhere([inList('status', ['draft', 'ordered', 'partially_received'])]);
+  }
+
+  // Adds to stock, logs the movements and moves the order on; quantities are this delivery's
+  receive(orderId: string, lines: Array<{ line_id: string; quantity: number }>): Promise<PurchaseOrderRow> {
+    return this.source().rpc<PurchaseOrderRow>('receive_purchase_order', { p_order_id: orderId, p_lines: lines });
+  }
+}
+
+export const createRepositories = (source: DataSourceProvider) => ({
+  venues: new TableRepository<VenueRow>('venues', source),
+  machines: new MachinesRepository(source),
+  prizes: new StockRepository<PrizeRow>('prizes', source),
+  parts: new StockRepository<PartRow>('parts', source),
+  prizeCostHistory: new PrizeCostHistoryRepository(source),
+  machineStock: new MachineStockRepository(source),
+  machineParts: new MachinePartsRepository(source),
+  payWaveTerminals: new PayWaveTerminalsRepository(source),
+  machineRotations: new MachineRotationsRepository(source),
+  machineReports: new MachineReportsRepository(source),
+  venueReports: new VenueReportsRepository(source),
+  jobs: new JobsRepository(source),
+  jobParts: new JobPartsRepository(source),
+  runs: new TableRepository<RunRow>('runs', source),
+  runVenues: new RunVenuesRepository(source),
+  runSchedules: new RunSchedulesRepository(source),
+  runTasks: new TableRepository<RunTaskRow>('run_tasks', source, '*, machines(*), venues(*)'),
+  runSheetItems: new RunSheetItemsRepository(source),
+  publicHolidays: new PublicHolidaysRepository(source),
+  maintenancePlans: new MaintenancePlansRepository(source),
+  maintenancePlanJobs: new MaintenancePlanJobsRepository(source),
+  machineMoves: new MachineMovesRepository(source),
+  machineMeasurements: new TableRepository<MachineMeasurementRow>('machine_measurements', source),
+  venueCapacity: new TableRepository<VenueCapacityRow>('venue_capacity', source),
+  equipment: new TableRepository<EquipmentRow>('equipment_hire', source, '*, venue:venues(id, name, address)'),
+  hireContracts: new HireContractsRepository(source),
+  hireInvoices: new HireInvoicesRepository(source),
+  hireReminders: new TableRepository<HireReminderRow>('equipment_hire_reminders', source),
+  equipmentInspections: new EquipmentInspectionsRepository(source),
+  stockMovements: new StockMovementsRepository(source),
+  stockLocations: new StockLocationsRepository(source),
+  locationStock: new LocationStockRepository(source),
+  stocktakes: new StocktakesRepository(source),
+  stocktakeLines: new StocktakeLinesRepository(source),
+  cycleCountSchedules: new TableRepository<CycleCountScheduleRow>('cycle_count_schedules', source),
+  suppliers: new TableRepository<SupplierRow>('suppliers', source),
+  supplierItems: new SupplierItemsRepository(source),
+  purchaseOrders: new PurchaseOrdersRepository(source),
+  purchaseOrderLines: new TableRepository<PurchaseOrderLineRow>('purchase_order_lines', source),
+  users: new UsersRepository(source),
+  roles: new RolesRepository(source),
+  permissions: new TableRepository<PermissionRow>('permissions', source),
+  rolePermissions: new RolePermissionsRepository(source),
+  userPermissionOverrides: new UserPermissionOverridesRepository(source),
+  viewPermissions: new TableRepository<ViewPermissionRow>('view_permissions', source),
+  venuePartnerLinks: new VenuePartnerLinksRepository(source),
+  commissionPayments: new CommissionPaymentsRepository(source),
+  payoutTargets: new TableRepository<PayoutTargetRow>('payout_targets', source),
+  cashReconciliations: new CashReconciliationsRepository(source),
+  cashReconciliationSettings: new TableRepository<CashReconciliationSettingsRow>('cash_reconciliation_settings', source),
+  payWaveImports: new TableRepository<PayWaveSettlementImportRow>('paywave_settlement_imports', source),
+  payWaveTransactions: new PayWaveTransactionsRepository(source)
+});
+
+export type Repositories = ReturnType<typeof createRepositories>;
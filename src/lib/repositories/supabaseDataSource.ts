@@ -0,0 +1,101 @@
+// src/lib/repositories/supabaseDataSource.ts
+// DataSource backed by the shared Supabase client, with reads retried through safeQuery
+
+import { supabase, safeQuery } from '@/lib/supabase';
+import { DatabaseError, type DataSource, type Filter, type QueryOptions, type Row, type UpsertOptions } from './dataSource';
+
+interface PostgrestLikeError {
+  message: string;
+  code?: string;
+}
+
+// Minimal shape of a PostgREST query builder — enough to chain filters generically
+interface PostgrestQuery extends PromiseLike<{ data: unknown; error: PostgrestLikeError | null }> {
+  select(columns?: string): PostgrestQuery;
+  eq(column: string, value: unknown): PostgrestQuery;
+  neq(column: string, value: unknown): PostgrestQuery;
+  gt(column: string, value: unknown): PostgrestQuery;
+  gte(column: string, value: unknown): PostgrestQuery;
+  lt(column: string, value: unknown): PostgrestQuery;
+  lte(column: string, value: unknown): PostgrestQuery;
+  in(column: string, values: unknown[]): PostgrestQuery;
+  ilike(column: string, pattern: string): PostgrestQuery;
+  is(column: string, value: null | boolean): PostgrestQuery;
+  not(column: string, operator: string, value: unknown): PostgrestQuery;
+  order(column: string, options: { ascending: boolean }): PostgrestQuery;
+  limit(count: number): PostgrestQuery;
+}
+
+interface PostgrestTable {
+  select(columns: string): PostgrestQuery;
+  insert(rows: Row[]): PostgrestQuery;
+  update(values: Row): PostgrestQuery;
+  upsert(rows: Row[], options?: { onConflict: string; ignoreDuplicates: boolean }): PostgrestQuery;
+  delete(): PostgrestQuery;
+}
+
+// Table names are dynamic here, so skip supabase-js's select-string type inference
+const from = (table: string) => supabase.from(table) as unknown as PostgrestTable;
+
+const applyFilters = (query: PostgrestQuery, filters: Filter[] = []): PostgrestQuery =>
+  filters.reduce((q, filter) => {
+    switch (filter.op) {
+      case 'eq': return q.eq(filter.column, filter.value);
+      case 'neq': return q.neq(filter.column, filter.value);
+      case 'gt': return q.gt(filter.column, filter.value);
+      case 'gte': return q.gte(filter.column, filter.value);
+      case 'lt': return q.lt(filter.column, filter.value);
+      case 'lte': return q.lte(filter.column, filter.value);
+      case 'in': return q.in(filter.column, filter.value as unknown[]);
+      case 'ilike': return q.ilike(filter.column, filter.value as string);
+      case 'is': return q.is(filter.column, filter.value as null | boolean);
+      case 'not_is': return q.not(filter.column, 'is', filter.value);
+      default: return q;
+    }
+  }, query);
+
+const unwrap = <T>(table: string, result: { data: unknown; error: PostgrestLikeError | null }): T => {
+  if (result.error) {
+    throw new DatabaseError(result.error.message, { code: result.error.code, table });
+  }
+  return result.data as T;
+};
+
+// Writes are not retried: a timed-out insert may still have landed
+const WRITE_ATTEMPTS = 1;
+
+export const supabaseDataSource: DataSource = {
+  select: <T>(table: string, options: QueryOptions = {}) =>
+    safeQuery(async () => {
+      let query = applyFilters(from(table).select(options.select || '*'), options.filters);
+      (options.orderBy || []).forEach(order => {
+        query = query.order(order.column, { ascending: order.ascending ?? true });
+      });
+      if (options.limit) query = query.limit(options.limit);
+
+      return unwrap<T[]>(table, await query) || [];
+    }),
+
+  insert: <T>(table: string, rows: Row[], select = '*') =>
+    safeQuery(async () => unwrap<T[]>(table, await from(table).insert(rows).select(select)) || [], WRITE_ATTEMPTS),
+
+  update: <T>(table: string, values: Row, filters: Filter[], select = '*') =>
+    safeQuery(async () => {
+      const query = applyFilters(from(table).update(values), filters);
+      return unwrap<T[]>(table, await query.select(select)) || [];
+    }, WRITE_ATTEMPTS),
+
+  upsert: <T>(table: string, rows: Row[], onConflict?: string, options: UpsertOptions = {}) =>
+    safeQuery(async () => {
+      const query = from(table).upsert(rows, onConflict ? { onConflict, ignoreDuplicates: !!options.ignoreDuplicates } : undefined);
+      return unwrap<T[]>(table, await query.select()) || [];
+    }, WRITE_ATTEMPTS),
+
+  remove: (table: string, filters: Filter[]) =>
+    safeQuery(async () => {
+      unwrap(table, await applyFilters(from(table).delete(), filters));
+    }, WRITE_ATTEMPTS),
+
+  rpc: <T>(fn: string, args: Row = {}) =>
+    safeQuery(async () => unwrap<T>(fn, await supabase.rpc(fn, args)), WRITE_ATTEMPTS)
+};
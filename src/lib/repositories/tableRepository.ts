@@ -0,0 +1,62 @@
+// src/lib/repositories/tableRepository.ts
+// Generic CRUD over one table; table-specific repositories extend it with their joins
+
+import { eq, type DataSource, type Filter, type QueryOptions, type Row, type UpsertOptions } from './dataSource';
+
+export type DataSourceProvider = () => DataSource;
+
+export class TableRepository<T extends { id: string }> {
+  constructor(
+    protected readonly table: string,
+    protected readonly source: DataSourceProvider,
+    protected readonly defaultSelect = '*'
+  ) {}
+
+  list(options: QueryOptions = {}): Promise<T[]> {
+    return this.source().select<T>(this.table, { select: this.defaultSelect, ...options });
+  }
+
+  findWhere(filters: Filter[], options: Omit<QueryOptions, 'filters'> = {}): Promise<T[]> {
+    return this.list({ ...options, filters });
+  }
+
+  async findOne(filters: Filter[], options: Omit<QueryOptions, 'filters' | 'limit'> = {}): Promise<T | null> {
+    const rows = await this.list({ ...options, filters, limit: 1 });
+    return rows[0] ?? null;
+  }
+
+  getById(id: string, select?: string): Promise<T | null> {
+    return this.findOne([eq('id', id)], select ? { select } : {});
+  }
+
+  async create(values: Partial<T> | Row, select?: string): Promise<T> {
+    const [created] = await this.source().insert<T>(this.table, [values as Row], select || this.defaultSelect);
+    return created;
+  }
+
+  createMany(values: Array<Partial<T> | Row>): Promise<T[]> {
+    if (values.length === 0) return Promise.resolve([]);
+    return this.source().insert<T>(this.table, values as Row[]);
+  }
+
+  async update(id: string, values: Partial<T> | Row): Promise<T | null> {
+    const [updated] = await this.source().update<T>(this.table, values as Row, [eq('id', id)]);
+    return updated ?? null;
+  }
+
+  updateWhere(filters: Filter[], values: Partial<T> | Row): Promise<T[]> {
+    return this.source().update<T>(this.table, values as Row, filters);
+  }
+
+  upsert(values: Array<Partial<T> | Row>, onConflict?: string, options?: UpsertOptions): Promise<T[]> {
+    return this.source().upsert<T>(this.table, values as Row[], onConflict, options);
+  }
+
+  remove(id: string): Promise<void> {
+    return this.source().remove(this.table, [eq('id', id)]);
+  }
+
+  removeWhere(filters: Filter[]): Promise<void> {
+    return this.source().remove(this.table, filters);
+  }
+}
@@ -0,0 +1,791 @@
+// src/lib/repositories/types.ts
+// Row shapes for the tables the repositories read and write
+
+export interface VenueRow {
+  id: string;
+  name: string;
+  address?: string | null;
+  contact_person?: string | null;
+  phone?: string | null;
+  email?: string | null;
+  image_url?: string | null;
+  commission_percentage: number;
+  latitude?: number | null;
+  longitude?: number | null;
+  // 'HH:MM[:SS]'; null means any time
+  service_window_start?: string | null;
+  service_window_end?: string | null;
+  created_at?: string;
+}
+
+export type DepreciationMethod = 'straight_line' | 'diminishing_value';
+
+export interface MachineRow {
+  id: string;
+  name: string;
+  type: string;
+  venue_id?: string | null;
+  status: string;
+  image_url?: string | null;
+  serial_number?: string | null;
+  barcode?: string | null;
+  current_prize_id?: string | null;
+  toy_counter_current?: number | null;
+  purchase_cost?: number | null;
+  purchase_date?: string | null;
+  depreciation_method?: DepreciationMethod | null;
+  useful_life_years?: number | null;
+  residual_value?: number | null;
+  created_at?: string;
+  venues?: VenueRow | null;
+  prizes?: PrizeRow | null;
+}
+
+export interface PrizeRow {
+  id: string;
+  name: string;
+  cost: number;
+  stock_quantity: number;
+  image_url?: string | null;
+  barcode?: string | null;
+  category?: string | null;
+  description?: string | null;
+  created_at?: string;
+}
+
+export interface PartRow {
+  id: string;
+  name: string;
+  cost_price: number;
+  stock_quantity: number;
+  low_stock_limit: number;
+  image_url?: string | null;
+  barcode?: string | null;
+  created_at?: string;
+}
+
+export interface MachineStockRow {
+  id: string;
+  machine_id: string;
+  prize_id: string;
+  quantity: number;
+  notes?: string | null;
+  // Average cost of the prizes where they were loaded from
+  unit_cost?: number | null;
+  created_at?: string;
+  prizes?: PrizeRow | null;
+}
+
+export interface MachinePartRow {
+  id: string;
+  machine_id: string;
+  part_id: string;
+  quantity: number;
+  notes?: string | null;
+  parts?: PartRow | null;
+}
+
+export interface PayWaveTerminalRow {
+  id: string;
+  machine_id: string;
+  name: string;
+  terminal_number: string;
+  created_at?: string;
+}
+
+export interface MachineRotationRow {
+  id: string;
+  machine_id: string;
+  rotation_period: number;
+  rotation_threshold: number;
+  last_rotation_date?: string | null;
+}
+
+export type JobPriority = 'low' | 'medium' | 'urgent';
+
+export interface JobRow {
+  id: string;
+  title: string;
+  description: string | null;
+  machine_id: string;
+  priority: JobPriority;
+  status: string;
+  scheduled_date?: string | null;
+  progress_updates?: string[] | null;
+  photo_urls?: string[] | null;
+  assigned_to?: string | null;
+  archived?: boolean | null;
+  completed_at?: string | null;
+  completed_by?: string | null;
+  // Running total of job_parts, kept by record_job_part / remove_job_part
+  parts_cost?: number | null;
+  // Repair jobs for hire equipment, which have no machine
+  equipment_id?: string | null;
+  created_at: string;
+  equipment?: { name: string } | null;
+  machine?: {
+    name: string;
+    type: string;
+    venue?: { name: string; address?: string | null } | null;
+  } | null;
+}
+
+export interface RunRow {
+  id: string;
+  name: string;
+  description?: string | null;
+  image_url?: string | null;
+  frequency: string;
+  frequency_details?: Record<string, unknown> | null;
+  assigned_to?: string | null;
+  is_active: boolean;
+  depot_name?: string | null;
+  depot_latitude?: number | null;
+  depot_longitude?: number | null;
+  start_time?: string | null;
+  created_at: string;
+  updated_at?: string;
+}
+
+export interface RunVenueRow {
+  id: string;
+  run_id: string;
+  venue_id: string;
+  sequence_order: number;
+  estimated_time_minutes?: number | null;
+  notes?: string | null;
+  venues?: VenueRow | null;
+}
+
+export interface RunScheduleRow {
+  id: string;
+  run_id: string;
+  scheduled_date: string;
+  completed?: boolean | null;
+  completed_at?: string | null;
+  completed_by?: string | null;
+  started_at?: string | null;
+  started_by?: string | null;
+  notes?: string | null;
+  // Numbers the run's schedules in date order as they're created
+  run_number?: number | null;
+  // The date the rule gave it, when it's been moved to another day
+  rescheduled_from?: string | null;
+  runs?: RunRow | null;
+}
+
+export interface RunTaskRow {
+  id: string;
+  run_id: string;
+  machine_id: string | null;
+  venue_id: string | null;
+  task_description: string;
+  // Due on every Nth run
+  frequency_interval: number;
+  machines?: MachineRow | null;
+  venues?: VenueRow | null;
+}
+
+export interface MachineMoveRow {
+  id: string;
+  type: 'request' | 'relocation';
+  status: 'pending' | 'approved' | 'in_progress' | 'completed' | 'cancelled';
+  requested_venue_id?: string | null;
+  machine_type?: string | null;
+  quantity?: number | null;
+  machine_id?: string | null;
+  from_venue_id?: string | null;
+  to_venue_id?: string | null;
+  reason?: string | null;
+  notes?: string | null;
+  scheduled_date?: string | null;
+  completed_at?: string | null;
+  completed_by?: string | null;
+  // Readings taken when a relocation is completed; the closing report is filed at the old venue
+  closing_toy_count?: number | null;
+  closing_money_collected?: number | null;
+  opening_toy_count?: number | null;
+  closing_report_id?: string | null;
+  created_at: string;
+}
+
+export interface MachineReportRow {
+  id: string;
+  machine_id: string;
+  money_collected: number;
+  current_toy_count: number;
+  previous_toy_count: number;
+  toys_dispensed: number;
+  prize_value: number;
+  // Prize cost in force on the report date; prize_value is toys_dispensed × this
+  prize_unit_cost?: number | null;
+  tokens_in_game?: number | null;
+  notes?: string | null;
+  report_date: string;
+  paid_status?: boolean | null;
+  venue_id?: string | null;
+  created_at: string;
+  // Snapshot of the machine kept on the report so it survives machine deletion
+  machine_name?: string | null;
+  machine_type?: string | null;
+  machine_serial?: string | null;
+  // Set when the toy meter was reset, replaced or rolled over since the previous report
+  counter_event?: 'reset' | 'replacement' | 'rollover' | null;
+  counter_final_reading?: number | null;
+  // 'pending' reports have an implausible counter jump and count no toys until approved
+  counter_review_status?: 'pending' | 'approved' | 'rejected' | null;
+  counter_review_reason?: string | null;
+  counter_reviewed_by?: string | null;
+  counter_reviewed_at?: string | null;
+  machines?: {
+    name: string;
+    type: string;
+    venue_id: string | null;
+    serial_number?: string | null;
+  } | null;
+}
+
+export interface VenueReportRow {
+  id: string;
+  venue_id: string;
+  venue_name: string;
+  venue_address?: string | null;
+  total_revenue: number;
+  venue_commission_percentage: number;
+  venue_commission_amount: number;
+  total_machines: number;
+  total_reports: number;
+  date_range_start: string;
+  date_range_end: string;
+  report_date: string;
+  paid_status?: boolean | null;
+  machine_data?: unknown;
+}
+
+export interface EquipmentRow {
+  id: string;
+  name: string;
+  description?: string | null;
+  category: string;
+  serial_number?: string | null;
+  asset_tag?: string | null;
+  brand?: string | null;
+  model?: string | null;
+  purchase_date?: string | null;
+  purchase_cost?: number | null;
+  current_value?: number | null;
+  depreciation_method?: DepreciationMethod | null;
+  useful_life_years?: number | null;
+  residual_value?: number | null;
+  // Set by a return inspection that revalued it; depreciation carries on from here
+  written_down_value?: number | null;
+  written_down_on?: string | null;
+  condition: string;
+  status: string;
+  // The day it was retired or lost
+  disposed_on?: string | null;
+  venue_id?: string | null;
+  hired_date?: string | null;
+  expected_return_date?: string | null;
+  notes?: string | null;
+  image_url?: string | null;
+  created_at: string;
+  updated_at: string;
+  venue?: { id: string; name: string; address?: string | null } | null;
+}
+
+export type StockItemType = 'prize' | 'part';
+export type StockMovementType = 'in' | 'out' | 'adjustment' | 'transfer';
+
+export interface StockMovementRow {
+  id: string;
+  item_type: StockItemType;
+  item_id: string;
+  movement_type: StockMovementType;
+  quantity: number;
+  reference_type: string;
+  reference_id?: string | null;
+  notes?: string | null;
+  created_by?: string | null;
+  from_location_id?: string | null;
+  to_location_id?: string | null;
+  reason_code?: StockAdjustmentReason | null;
+  created_at: string;
+}
+
+export interface StaffMemberRow {
+  id: string;
+  full_name?: string | null;
+  username?: string | null;
+  role?: string | null;
+}
+
+export interface RoleRow {
+  id: string;
+  key: string;
+  name: string;
+  description?: string | null;
+  manages: string[];
+  is_system: boolean;
+  // Venue-scoped roles (venue partners) only see venues linked in venue_partner_links
+  venue_scoped: boolean;
+  created_at?: string;
+}
+
+export interface PermissionRow {
+  id: string;
+  key: string;
+  description?: string | null;
+  category: string;
+}
+
+export interface RolePermissionRow {
+  id: string;
+  role_key: string;
+  permission_key: string;
+}
+
+export interface UserPermissionOverrideRow {
+  id: string;
+  user_id: string;
+  permission_key: string;
+  granted: boolean;
+}
+
+export interface ViewPermissionRow {
+  id: string;
+  view_key: string;
+  // null means the view is open to every signed-in user
+  permission_key: string | null;
+}
+
+export interface VenuePartnerLinkRow {
+  id: string;
+  user_id: string;
+  venue_id: string;
+  created_at?: string;
+  venues?: VenueRow | null;
+}
+
+export type CommissionPaymentMethod = 'bank_transfer' | 'cash' | 'cheque' | 'direct_debit' | 'other';
+
+export interface CommissionPaymentRow {
+  id: string;
+  venue_id: string;
+  // null for money paid on account, applied to the oldest outstanding commission
+  venue_report_id: string | null;
+  amount: number;
+  paid_at: string;
+  method: CommissionPaymentMethod;
+  reference?: string | null;
+  notes?: string | null;
+  recorded_by?: string | null;
+  created_at?: string;
+}
+
+export interface PayoutTargetRow {
+  id: string;
+  // Exactly one of machine_type / machine_id is set; a machine row overrides its type
+  machine_type: string | null;
+  machine_id: string | null;
+  min_percent: number;
+  max_percent: number;
+  notes?: string | null;
+  updated_at?: string;
+}
+
+export interface CashReconciliationSettingsRow {
+  id: string;
+  tolerance_percent: number;
+  min_variance_amount: number;
+  token_price: number;
+  history_days: number;
+  updated_at?: string;
+}
+
+export interface CashReconciliationRow {
+  id: string;
+  machine_report_id: string;
+  machine_id: string | null;
+  collected_amount: number;
+  expected_amount: number;
+  variance_amount: number;
+  variance_percent: number | null;
+  expected_basis: Record<string, number | null>;
+  status: 'pending' | 'approved';
+  resolution_reason?: string | null;
+  resolved_by?: string | null;
+  resolved_at?: string | null;
+  created_at: string;
+  machine_reports?: Pick<MachineReportRow, 'report_date' | 'money_collected' | 'tokens_in_game' | 'toys_dispensed'> | null;
+  machines?: { name: string; venue_id: string | null } | null;
+}
+
+export interface PayWaveSettlementImportRow {
+  id: string;
+  file_name: string;
+  format: 'csv' | 'ofx';
+  transaction_count: number;
+  duplicate_count: number;
+  total_amount: number;
+  imported_by?: string | null;
+  imported_at: string;
+}
+
+export interface PayWaveTransactionRow {
+  id: string;
+  import_id: string | null;
+  terminal_number: string;
+  transaction_ref: string;
+  transacted_at: string;
+  settlement_date?: string | null;
+  amount: number;
+  fee: number;
+  // Null until the terminal is registered to a machine
+  machine_id: string | null;
+  created_at?: string;
+}
+
+export type RunSheetItemKind = 'visit' | 'collection' | 'task' | 'job';
+
+export interface RunSheetItemRow {
+  id: string;
+  run_schedule_id: string;
+  item_key: string;
+  kind: RunSheetItemKind;
+  sequence: number;
+  venue_id: string | null;
+  machine_id: string | null;
+  run_task_id: string | null;
+  job_id: string | null;
+  label: string;
+  completed_at: string | null;
+  completed_by: string | null;
+  machine_report_id: string | null;
+  notes?: string | null;
+  created_at?: string;
+}
+
+export interface PublicHolidayRow {
+  id: string;
+  holiday_date: string;
+  name: string;
+  created_at?: string;
+}
+
+export type MaintenanceTrigger = 'days' | 'plays';
+
+export interface MaintenancePlanRow {
+  id: string;
+  machine_type: string;
+  title: string;
+  description?: string | null;
+  trigger_type: MaintenanceTrigger;
+  interval_days: number | null;
+  interval_plays: number | null;
+  lead_days: number;
+  grace_days: number;
+  priority: JobPriority;
+  is_active: boolean;
+  created_by?: string | null;
+  created_at: string;
+}
+
+export interface MaintenancePlanJobRow {
+  id: string;
+  plan_id: string;
+  machine_id: string;
+  job_id: string | null;
+  cycle_start: string;
+  due_date: string;
+  plays_at_creation?: number | null;
+  created_at: string;
+  jobs?: Pick<JobRow, 'id' | 'title' | 'status' | 'archived' | 'completed_at' | 'scheduled_date'> | null;
+}
+
+export interface JobPartRow {
+  id: string;
+  job_id: string;
+  part_id: string | null;
+  part_name: string;
+  quantity: number;
+  unit_cost: number;
+  notes?: string | null;
+  created_by?: string | null;
+  created_at: string;
+}
+
+export interface SupplierRow {
+  id: string;
+  name: string;
+  contact_name?: string | null;
+  email?: string | null;
+  phone?: string | null;
+  address?: string | null;
+  lead_time_days: number;
+  notes?: string | null;
+  is_active: boolean;
+  created_at?: string;
+}
+
+// One line of a supplier's price list
+export interface SupplierItemRow {
+  id: string;
+  supplier_id: string;
+  item_type: StockItemType;
+  item_id: string;
+  supplier_sku?: string | null;
+  unit_cost: number;
+  min_order_quantity: number;
+  created_at?: string;
+}
+
+export type PurchaseOrderStatus = 'draft' | 'ordered' | 'partially_received' | 'received' | 'cancelled';
+
+export interface PurchaseOrderLineRow {
+  id: string;
+  purchase_order_id: string;
+  item_type: StockItemType;
+  item_id: string;
+  item_name: string;
+  quantity_ordered: number;
+  quantity_received: number;
+  unit_cost: number;
+  created_at?: string;
+}
+
+export interface PurchaseOrderRow {
+  id: string;
+  po_number: string;
+  supplier_id: string;
+  status: PurchaseOrderStatus;
+  ordered_at?: string | null;
+  expected_date?: string | null;
+  received_at?: string | null;
+  notes?: string | null;
+  created_by?: string | null;
+  created_at: string;
+  suppliers?: Pick<SupplierRow, 'id' | 'name' | 'email' | 'lead_time_days'> | null;
+  purchase_order_lines?: PurchaseOrderLineRow[];
+}
+
+export type StockLocationKind = 'warehouse' | 'vehicle';
+
+// A warehouse or van that holds prizes. The primary warehouse keeps no location_stock rows:
+// it holds whatever of prizes.stock_quantity isn't somewhere else.
+export interface StockLocationRow {
+  id: string;
+  name: string;
+  kind: StockLocationKind;
+  assigned_to?: string | null;
+  is_primary: boolean;
+  is_active: boolean;
+  notes?: string | null;
+  created_at?: string;
+  users?: Pick<StaffMemberRow, 'full_name' | 'username'> | null;
+}
+
+export interface LocationStockRow {
+  id: string;
+  location_id: string;
+  prize_id: string;
+  quantity: number;
+  // Weighted average cost of what the van holds; the main warehouse uses prizes.cost
+  average_cost?: number | null;
+  updated_at?: string;
+}
+
+export type StockAdjustmentReason = 'damaged' | 'lost' | 'theft' | 'miscount' | 'found' | 'supplier_error' | 'other';
+
+export type StocktakeStatus = 'counting' | 'approved' | 'cancelled';
+
+export interface CycleCountScheduleRow {
+  id: string;
+  name: string;
+  item_type?: StockItemType | null;
+  category?: string | null;
+  interval_days: number;
+  next_due_date: string;
+  is_active: boolean;
+  created_by?: string | null;
+  created_at?: string;
+}
+
+export interface StocktakeRow {
+  id: string;
+  title: string;
+  item_type?: StockItemType | null;
+  category?: string | null;
+  schedule_id?: string | null;
+  status: StocktakeStatus;
+  notes?: string | null;
+  created_by?: string | null;
+  approved_by?: string | null;
+  approved_at?: string | null;
+  created_at: string;
+}
+
+// One item on a stocktake sheet; expected_quantity is frozen when the stocktake starts
+export interface StocktakeLineRow {
+  id: string;
+  stocktake_id: string;
+  item_type: StockItemType;
+  item_id: string;
+  item_name: string;
+  barcode?: string | null;
+  unit_cost: number;
+  expected_quantity: number;
+  counted_quantity?: number | null;
+  reason_code?: StockAdjustmentReason | null;
+  notes?: string | null;
+  counted_by?: string | null;
+  counted_at?: string | null;
+}
+
+export type PrizeCostSource = 'initial' | 'manual' | 'purchase' | 'transfer';
+
+export interface PrizeCostHistoryRow {
+  id: string;
+  prize_id: string;
+  unit_cost: number;
+  effective_from: string;
+  source: PrizeCostSource;
+  reference_id?: string | null;
+  notes?: string | null;
+  created_by?: string | null;
+  created_at?: string;
+}
+
+export interface MachineMeasurementRow {
+  id: string;
+  machine_id: string;
+  width_cm?: number | null;
+  depth_cm?: number | null;
+  height_cm?: number | null;
+  weight_kg?: number | null;
+  notes?: string | null;
+  updated_at?: string;
+}
+
+export interface VenueCapacityRow {
+  id: string;
+  venue_id: string;
+  usable_area_m2?: number | null;
+  max_load_kg?: number | null;
+  power_outlets?: number | null;
+  doorway_width_cm?: number | null;
+  doorway_height_cm?: number | null;
+  notes?: string | null;
+  updated_at?: string;
+}
+
+export type HireContractStatus = 'active' | 'returned' | 'cancelled';
+export type HireDepositStatus = 'held' | 'refunded' | 'applied' | 'forfeited';
+
+export interface HireContractRow {
+  id: string;
+  contract_number: string;
+  equipment_id: string;
+  customer_name: string;
+  customer_company?: string | null;
+  customer_email?: string | null;
+  customer_phone?: string | null;
+  customer_address?: string | null;
+  venue_id?: string | null;
+  daily_rate: number;
+  weekly_rate?: number | null;
+  monthly_rate?: number | null;
+  late_fee_per_day?: number | null;
+  deposit_amount: number;
+  deposit_status: HireDepositStatus;
+  start_date: string;
+  expected_return_date: string;
+  returned_date?: string | null;
+  status: HireContractStatus;
+  notes?: string | null;
+  created_by?: string | null;
+  created_at: string;
+  equipment_hire?: Pick<EquipmentRow, 'id' | 'name' | 'serial_number' | 'asset_tag' | 'condition' | 'current_value'
+    | 'purchase_cost' | 'purchase_date' | 'depreciation_method' | 'useful_life_years' | 'residual_value'
+    | 'written_down_value' | 'written_down_on'> | null;
+  equipment_hire_invoices?: HireInvoiceRow[];
+  equipment_hire_reminders?: HireReminderRow[];
+}
+
+export type HireInvoiceLineKind = 'hire' | 'late_fee' | 'other';
+
+export interface HireInvoiceLine {
+  kind: HireInvoiceLineKind;
+  description: string;
+  quantity: number;
+  unit: string;
+  unit_price: number;
+  amount: number;
+}
+
+export interface HireInvoiceRow {
+  id: string;
+  invoice_number: string;
+  contract_id: string;
+  issue_date: string;
+  period_start: string;
+  period_end: string;
+  line_items: HireInvoiceLine[];
+  subtotal: number;
+  late_fee: number;
+  deposit_applied: number;
+  total_due: number;
+  status: 'issued' | 'paid' | 'void';
+  paid_at?: string | null;
+  created_by?: string | null;
+  created_at: string;
+}
+
+export type HireReminderChannel = 'email' | 'phone';
+
+export interface HireReminderRow {
+  id: string;
+  contract_id: string;
+  level: number;
+  channel: HireReminderChannel;
+  days_overdue: number;
+  notes?: string | null;
+  // Why an email reminder didn't go out; it doesn't count as sent
+  delivery_error?: string | null;
+  sent_by?: string | null;
+  sent_at: string;
+}
+
+export interface InspectionChecklistItem {
+  item: string;
+  passed: boolean;
+}
+
+export interface EquipmentInspectionRow {
+  id: string;
+  equipment_id: string;
+  contract_id?: string | null;
+  checklist: InspectionChecklistItem[];
+  condition_before?: string | null;
+  condition_after: string;
+  value_before?: number | null;
+  value_after?: number | null;
+  damage_found: boolean;
+  damage_notes?: string | null;
+  photo_urls: string[];
+  job_id?: string | null;
+  inspected_by?: string | null;
+  inspected_at: string;
+}
+
+// The check-in inspection sent with a return
+export interface ReturnInspection {
+  checklist: InspectionChecklistItem[];
+  condition: string;
+  // Only when the inspector revalued it; book_value is what it was worth on paper
+  current_value: number | null;
+  book_value: number | null;
+  damage_found: boolean;
+  damage_notes: string | null;
+  photo_urls: string[];
+}
@@ -0,0 +1,3 @@
+// src/lib/roleHierarchy.ts
+// The role hierarchy lives with the edge functions so it deploys with admin-users
+export * from '../../supabase/functions/_shared/roleHierarchy';
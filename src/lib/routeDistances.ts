@@ -0,0 +1,127 @@
+// src/lib/routeDistances.ts
+// Distance matrices for the route optimiser. Road legs from the Google Distance Matrix service
+// are cached in localStorage so a run optimised once can be optimised again offline; any leg
+// not in the cache falls back to the straight-line estimate.
+
+import { loadGoogleMaps } from './googleMaps';
+import { buildStraightLineMatrix, type DistanceMatrix, type RoutePoint } from './routeOptimiser';
+
+const CACHE_KEY = 'route-distance-cache';
+// Roads rarely change; re-fetch a leg after a quarter
+const CACHE_MAX_AGE_MS = 90 * 24 * 60 * 60 * 1000;
+// The service allows 25 origins or destinations and 100 elements per request
+const MAX_DESTINATIONS_PER_REQUEST = 25;
+
+interface CachedLeg {
+  km: number;
+  minutes: number;
+  cached_at: number;
+}
+
+type LegCache = Record<string, CachedLeg>;
+
+// About a metre at five decimal places, so small edits to a venue's pin don't matter
+const legKey = (from: RoutePoint, to: RoutePoint) =>
+  `${from.latitude.toFixed(5)},${from.longitude.toFixed(5)}|${to.latitude.toFixed(5)},${to.longitude.toFixed(5)}`;
+
+const readCache = (): LegCache => {
+  try {
+    return JSON.parse(localStorage.getItem(CACHE_KEY) || '{}');
+  } catch {
+    return {};
+  }
+};
+
+const writeCache = (cache: LegCache) => {
+  const now = Date.now();
+  const fresh = Object.fromEntries(Object.entries(cache).filter(([, leg]) => now - leg.cached_at < CACHE_MAX_AGE_MS));
+  try {
+    localStorage.setItem(CACHE_KEY, JSON.stringify(fresh));
+  } catch (error) {
+    console.warn('⚠️ Could not cache route distances:', error);
+  }
+};
+
+export const clearRouteDistanceCache = () => localStorage.removeItem(CACHE_KEY);
+
+// Road legs from one origin to many destinations, keyed like the cache
+const fetchRoadLegs = async (origin: RoutePoint, destinations: RoutePoint[]): Promise<LegCache> => {
+  const service = new google.maps.DistanceMatrixService();
+  const legs: LegCache = {};
+
+  for (let i = 0; i < destinations.length; i += MAX_DESTINATIONS_PER_REQUEST) {
+    const batch = destinations.slice(i, i + MAX_DESTINATIONS_PER_REQUEST);
+    const response = await service.getDistanceMatrix({
+      origins: [{ lat: origin.latitude, lng: origin.longitude }],
+      destinations: batch.map(point => ({ lat: point.latitude, lng: point.longitude })),
+      travelMode: google.maps.TravelMode.DRIVING
+    });
+    response.rows[0]?.elements.forEach((element, index) => {
+      if (element.status !== 'OK') return;
+      legs[legKey(origin, batch[index])] = {
+        km: element.distance.value / 1000,
+        minutes: element.duration.value / 60,
+        cached_at: Date.now()
+      };
+    });
+  }
+  return legs;
+};
+
+/**
+ * Matrix for the depot (index 0, may be null) and stops. With `fetchRoads`, legs missing from
+ * the cache are fetched when online; failures are logged and those legs stay straight-line.
+ */
+export const buildDistanceMatrix = async (
+  depot: RoutePoint | null,
+  stops: RoutePoint[],
+  { fetchRoads }: { fetchRoads: boolean }
+): Promise<DistanceMatrix> => {
+  const matrix = buildStraightLineMatrix(depot, stops);
+  const points = [depot, ...stops];
+  const cache = readCache();
+  const now = Date.now();
+
+  const isCached = (from: RoutePoint, to: RoutePoint) => {
+    const leg = cache[legKey(from, to)];
+    return leg && now - leg.cached_at < CACHE_MAX_AGE_MS;
+  };
+
+  if (fetchRoads && typeof navigator !== 'undefined' && navigator.onLine) {
+    try {
+      await loadGoogleMaps();
+      let fetched = 0;
+      for (const from of points) {
+        if (!from) continue;
+        const missing = points.filter((to): to is RoutePoint => !!to && to !== from && !isCached(from, to));
+        if (missing.length === 0) continue;
+        const legs = await fetchRoadLegs(from, missing);
+        Object.assign(cache, legs);
+        fetched += Object.keys(legs).length;
+      }
+      if (fetched > 0) {
+        writeCache(cache);
+        console.log('✅ Cached road distances:', fetched);
+      }
+    } catch (error) {
+      console.warn('⚠️ Could not fetch road distances, using straight-line estimates:', error);
+    }
+  }
+
+  let roadLegs = 0;
+  let totalLegs = 0;
+  points.forEach((from, i) => points.forEach((to, j) => {
+    if (i === j || !from || !to) return;
+    totalLegs++;
+    const leg = isCached(from, to) ? cache[legKey(from, to)] : null;
+    if (!leg) return;
+    matrix.km[i][j] = leg.km;
+    matrix.minutes[i][j] = leg.minutes;
+    roadLegs++;
+  }));
+
+  return {
+    ...matrix,
+    source: roadLegs === 0 ? 'straight-line' : roadLegs === totalLegs ? 'road' : 'mixed'
+  };
+};
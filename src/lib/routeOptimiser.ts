@@ -0,0 +1,258 @@
+// src/lib/routeOptimiser.ts
+// Best visiting order for a run: leave the depot at the run's start time, service every venue
+// inside its service window, and come back. Small enough (a run is a few dozen stops at most)
+// to solve in the browser with nearest-neighbour followed by 2-opt and relocate passes.
+//
+// Arriving before a window opens means waiting; arriving after it closes is allowed but
+// penalised so heavily that any order without late stops wins.
+
+export interface RouteStop {
+  id: string;
+  name: string;
+  latitude: number;
+  longitude: number;
+  serviceMinutes: number;
+  // Minutes after midnight; null means no limit
+  windowStart: number | null;
+  windowEnd: number | null;
+}
+
+export interface RoutePoint {
+  latitude: number;
+  longitude: number;
+}
+
+/**
+ * Legs between the depot (index 0) and each stop (index i + 1, in the order passed in).
+ * Without a depot, row and column 0 are all zero, so the route may start and end anywhere.
+ */
+export interface DistanceMatrix {
+  km: number[][];
+  minutes: number[][];
+  source: 'straight-line' | 'road' | 'mixed';
+}
+
+export interface RouteVisit {
+  stop: RouteStop;
+  legKm: number;
+  legMinutes: number;
+  arrival: number;
+  waitMinutes: number;
+  serviceStart: number;
+  departure: number;
+  lateMinutes: number;
+}
+
+export interface RoutePlan {
+  visits: RouteVisit[];
+  totalKm: number;
+  driveMinutes: number;
+  serviceMinutes: number;
+  waitMinutes: number;
+  lateMinutes: number;
+  lateStops: number;
+  startMinutes: number;
+  // Back at the depot, or leaving the last stop when there is no depot
+  finishMinutes: number;
+  returnKm: number;
+}
+
+export interface OptimiseOptions {
+  startMinutes: number;
+  returnToDepot: boolean;
+}
+
+// Straight-line distance understates the road distance; 1.3 is typical for regional roads
+export const ROAD_DISTANCE_FACTOR = 1.3;
+export const AVERAGE_SPEED_KMH = 60;
+
+const LATE_PENALTY_PER_MINUTE = 1000;
+const EARTH_RADIUS_KM = 6371;
+
+const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+
+export const haversineKm = (a: RoutePoint, b: RoutePoint): number => {
+  const dLat = toRadians(b.latitude - a.latitude);
+  const dLng = toRadians(b.longitude - a.longitude);
+  const h = Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(a.latitude)) * Math.cos(toRadians(b.latitude)) * Math.sin(dLng / 2) ** 2;
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.min(1, Math.sqrt(h)));
+};
+
+export const straightLineLeg = (a: RoutePoint, b: RoutePoint) => {
+  const km = haversineKm(a, b) * ROAD_DISTANCE_FACTOR;
+  return { km, minutes: (km / AVERAGE_SPEED_KMH) * 60 };
+};
+
+// 'HH:MM' or 'HH:MM:SS' from a time column
+export const parseTimeOfDay = (value?: string | null): number | null => {
+  const match = (value || '').match(/^(\d{1,2}):(\d{2})/);
+  return match ? parseInt(match[1]) * 60 + parseInt(match[2]) : null;
+};
+
+export const formatTimeOfDay = (minutes: number): string => {
+  const rounded = Math.round(minutes);
+  const hours = Math.floor(rounded / 60);
+  const mins = rounded % 60;
+  return `${String(hours % 24).padStart(2, '0')}:${String(mins).padStart(2, '0')}${hours >= 24 ? ' (+1)' : ''}`;
+};
+
+export const formatDuration = (minutes: number): string => {
+  const rounded = Math.round(minutes);
+  return `${Math.floor(rounded / 60)}h ${rounded % 60}m`;
+};
+
+export const buildStraightLineMatrix = (depot: RoutePoint | null, stops: RoutePoint[]): DistanceMatrix => {
+  const points = [depot, ...stops];
+  const km = points.map(() => points.map(() => 0));
+  const minutes = points.map(() => points.map(() => 0));
+  points.forEach((from, i) => points.forEach((to, j) => {
+    if (i === j || !from || !to) return;
+    const leg = straightLineLeg(from, to);
+    km[i][j] = leg.km;
+    minutes[i][j] = leg.minutes;
+  }));
+  return { km, minutes, source: 'straight-line' };
+};
+
+/**
+ * Times an order of stops. `order` holds indexes into `stops`; the matrix indexes are one
+ * higher because the depot is index 0.
+ */
+export const planRoute = (
+  stops: RouteStop[],
+  order: number[],
+  matrix: DistanceMatrix,
+  options: OptimiseOptions
+): RoutePlan => {
+  let clock = options.startMinutes;
+  let previous = 0;
+  const visits: RouteVisit[] = order.map(index => {
+    const node = index + 1;
+    const stop = stops[index];
+    const legKm = matrix.km[previous][node];
+    const legMinutes = matrix.minutes[previous][node];
+    const arrival = clock + legMinutes;
+    const serviceStart = stop.windowStart !== null ? Math.max(arrival, stop.windowStart) : arrival;
+    const lateMinutes = stop.windowEnd !== null ? Math.max(0, serviceStart - stop.windowEnd) : 0;
+    const departure = serviceStart + stop.serviceMinutes;
+    clock = departure;
+    previous = node;
+    return { stop, legKm, legMinutes, arrival, waitMinutes: serviceStart - arrival, serviceStart, departure, lateMinutes };
+  });
+
+  const returnKm = options.returnToDepot ? matrix.km[previous][0] : 0;
+  const returnMinutes = options.returnToDepot ? matrix.minutes[previous][0] : 0;
+  const sum = (pick: (visit: RouteVisit) => number) => visits.reduce((total, visit) => total + pick(visit), 0);
+
+  return {
+    visits,
+    totalKm: sum(visit => visit.legKm) + returnKm,
+    driveMinutes: sum(visit => visit.legMinutes) + returnMinutes,
+    serviceMinutes: sum(visit => visit.stop.serviceMinutes),
+    waitMinutes: sum(visit => visit.waitMinutes),
+    lateMinutes: sum(visit => visit.lateMinutes),
+    lateStops: visits.filter(visit => visit.lateMinutes > 0).length,
+    startMinutes: options.startMinutes,
+    finishMinutes: clock + returnMinutes,
+    returnKm
+  };
+};
+
+// Lateness first, then the working day (driving and waiting; service time is fixed)
+const routeCost = (plan: RoutePlan) =>
+  plan.lateMinutes * LATE_PENALTY_PER_MINUTE + plan.driveMinutes + plan.waitMinutes;
+
+// Always drive to whichever stop can be started soonest, breaking ties on the earliest close
+const nearestNeighbourOrder = (stops: RouteStop[], matrix: DistanceMatrix, startMinutes: number): number[] => {
+  const remaining = new Set(stops.map((_, index) => index));
+  const order: number[] = [];
+  let clock = startMinutes;
+  let previous = 0;
+
+  while (remaining.size > 0) {
+    let best = -1;
+    let bestStart = Infinity;
+    remaining.forEach(index => {
+      const stop = stops[index];
+      const arrival = clock + matrix.minutes[previous][index + 1];
+      const serviceStart = stop.windowStart !== null ? Math.max(arrival, stop.windowStart) : arrival;
+      const closes = stop.windowEnd ?? Infinity;
+      const bestCloses = best >= 0 ? stops[best].windowEnd ?? Infinity : Infinity;
+      if (serviceStart < bestStart || (serviceStart === bestStart && closes < bestCloses)) {
+        best = index;
+        bestStart = serviceStart;
+      }
+    });
+    order.push(best);
+    remaining.delete(best);
+    clock = bestStart + stops[best].serviceMinutes;
+    previous = best + 1;
+  }
+  return order;
+};
+
+const MAX_IMPROVEMENT_PASSES = 50;
+
+/**
+ * Improves an order until no single 2-opt reversal or relocation of one stop makes it
+ * cheaper. Windows make the cost depend on the whole route, so every move is re-timed.
+ */
+const improveOrder = (stops: RouteStop[], start: number[], matrix: DistanceMatrix, options: OptimiseOptions) => {
+  let order = start;
+  let cost = routeCost(planRoute(stops, order, matrix, options));
+
+  const tryOrder = (candidate: number[]) => {
+    const candidateCost = routeCost(planRoute(stops, candidate, matrix, options));
+    if (candidateCost < cost - 1e-6) {
+      order = candidate;
+      cost = candidateCost;
+      return true;
+    }
+    return false;
+  };
+
+  for (let pass = 0; pass < MAX_IMPROVEMENT_PASSES; pass++) {
+    let improved = false;
+
+    for (let i = 0; i < order.length - 1; i++) {
+      for (let j = i + 1; j < order.length; j++) {
+        const reversed = [...order.slice(0, i), ...order.slice(i, j + 1).reverse(), ...order.slice(j + 1)];
+        if (tryOrder(reversed)) improved = true;
+      }
+    }
+
+    for (let i = 0; i < order.length; i++) {
+      for (let j = 0; j < order.length; j++) {
+        if (i === j) continue;
+        const moved = [...order];
+        const [stop] = moved.splice(i, 1);
+        moved.splice(j, 0, stop);
+        if (tryOrder(moved)) improved = true;
+      }
+    }
+
+    if (!improved) break;
+  }
+  return order;
+};
+
+/**
+ * Best order found for the stops, compared with the order they are in now. Both the
+ * current order and nearest-neighbour are improved, and the cheaper result wins, so the
+ * proposal is never worse than what the run already does.
+ */
+export const optimiseRoute = (stops: RouteStop[], matrix: DistanceMatrix, options: OptimiseOptions) => {
+  const currentOrder = stops.map((_, index) => index);
+  const current = planRoute(stops, currentOrder, matrix, options);
+  if (stops.length < 2) return { current, proposed: current, order: currentOrder };
+
+  const candidates = [currentOrder, nearestNeighbourOrder(stops, matrix, options.startMinutes)]
+    .map(order => improveOrder(stops, order, matrix, options))
+    .map(order => ({ order, plan: planRoute(stops, order, matrix, options) }));
+  const best = candidates.reduce((winner, candidate) =>
+    routeCost(candidate.plan) < routeCost(winner.plan) ? candidate : winner
+  );
+
+  return { current, proposed: best.plan, order: best.order };
+};
@@ -0,0 +1,409 @@
+// src/lib/runRecurrence.ts
+// When a run happens. Every rule is stored as an RRULE (the weekly, fortnightly and monthly
+// presets are just RRULEs the edit dialog builds) in runs.frequency_details, and future
+// run_schedules rows are materialised from it for a rolling horizon.
+//
+// Supported RRULE parts: FREQ=DAILY|WEEKLY|MONTHLY, INTERVAL, BYDAY (with ordinals such as
+// 2TU or -1FR for monthly rules), BYMONTHDAY, COUNT and UNTIL. Weeks start on Monday.
+// Dates are 'YYYY-MM-DD' strings handled in UTC so daylight saving never moves a run.
+
+import { eq, gte, inList, repositories, type RunScheduleRow } from './repositories';
+
+export type HolidayRule = 'ignore' | 'skip' | 'next_day' | 'previous_day';
+
+export interface RunRecurrence {
+  rrule: string;
+  starts_on: string;
+  holiday_rule: HolidayRule;
+}
+
+export type RecurrencePreset = 'weekly' | 'biweekly' | 'monthly' | 'custom';
+
+export const HOLIDAY_RULES: Array<{ value: HolidayRule; label: string }> = [
+  { value: 'ignore', label: 'Run on public holidays' },
+  { value: 'skip', label: 'Skip public holidays' },
+  { value: 'next_day', label: 'Move to the next day' },
+  { value: 'previous_day', label: 'Move to the day before' }
+];
+
+// RRULE weekday codes, indexed like Date.getUTCDay()
+export const WEEKDAY_CODES = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+export const WEEKDAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+export const DEFAULT_HORIZON_DAYS = 90;
+// Guards against rules that never produce a date (e.g. BYMONTHDAY=31;INTERVAL=12 from February)
+const MAX_PERIODS = 5000;
+
+interface ParsedRule {
+  freq: 'DAILY' | 'WEEKLY' | 'MONTHLY';
+  interval: number;
+  byDay: Array<{ ordinal: number | null; weekday: number }>;
+  byMonthDay: number[];
+  count: number | null;
+  until: string | null;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const toUtc = (date: string) => new Date(`${date}T00:00:00Z`);
+const toDateString = (date: Date) => date.toISOString().slice(0, 10);
+export const addDaysTo = (date: string, days: number) => toDateString(new Date(toUtc(date).getTime() + days * DAY_MS));
+const daysInMonth = (year: number, month: number) => new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+
+export const parseRRule = (rrule: string): ParsedRule => {
+  const parts = Object.fromEntries(
+    rrule.replace(/^RRULE:/i, '').split(';').filter(Boolean).map(part => {
+      const [key, value = ''] = part.split('=');
+      return [key.trim().toUpperCase(), value.trim().toUpperCase()];
+    })
+  );
+
+  if (!['DAILY', 'WEEKLY', 'MONTHLY'].includes(parts.FREQ)) {
+    throw new Error('The rule needs FREQ=DAILY, WEEKLY or MONTHLY');
+  }
+
+  const byDay = (parts.BYDAY ? parts.BYDAY.split(',') : []).map((code: string) => {
+    const match = code.match(/^([+-]?\d{1,2})?(SU|MO|TU|WE|TH|FR|SA)$/);
+    if (!match) throw new Error(`Unknown BYDAY value "${code}"`);
+    return { ordinal: match[1] ? parseInt(match[1]) : null, weekday: WEEKDAY_CODES.indexOf(match[2]) };
+  });
+  const byMonthDay = (parts.BYMONTHDAY ? parts.BYMONTHDAY.split(',') : []).map((value: string) => {
+    const day = parseInt(value);
+    if (isNaN(day) || day === 0 || Math.abs(day) > 31) throw new Error(`Unknown BYMONTHDAY value "${value}"`);
+    return day;
+  });
+  const interval = parts.INTERVAL ? parseInt(parts.INTERVAL) : 1;
+  if (isNaN(interval) || interval < 1) throw new Error('INTERVAL must be a whole number of at least 1');
+  const untilMatch = parts.UNTIL?.match(/^(\d{4})(\d{2})(\d{2})/);
+
+  return {
+    freq: parts.FREQ as ParsedRule['freq'],
+    interval,
+    byDay,
+    byMonthDay,
+    count: parts.COUNT ? parseInt(parts.COUNT) : null,
+    until: untilMatch ? `${untilMatch[1]}-${untilMatch[2]}-${untilMatch[3]}` : null
+  };
+};
+
+// The dates one period of the rule produces, in order
+const datesInPeriod = (rule: ParsedRule, start: string, period: number): string[] => {
+  const startDate = toUtc(start);
+
+  if (rule.freq === 'DAILY') {
+    return [addDaysTo(start, period * rule.interval)];
+  }
+
+  if (rule.freq === 'WEEKLY') {
+    const mondayOffset = (startDate.getUTCDay() + 6) % 7;
+    const weekStart = addDaysTo(start, period * rule.interval * 7 - mondayOffset);
+    const weekdays = rule.byDay.length > 0 ? rule.byDay.map(day => day.weekday) : [startDate.getUTCDay()];
+    return Array.from(new Set(weekdays.map(weekday => (weekday + 6) % 7)))
+      .sort((a, b) => a - b)
+      .map(offset => addDaysTo(weekStart, offset));
+  }
+
+  const monthIndex = startDate.getUTCMonth() + period * rule.interval;
+  const year = startDate.getUTCFullYear() + Math.floor(monthIndex / 12);
+  const month = monthIndex % 12;
+  const lastDay = daysInMonth(year, month);
+  const dateOf = (day: number) => toDateString(new Date(Date.UTC(year, month, day)));
+  const days: number[] = [];
+
+  rule.byMonthDay.forEach(day => {
+    const resolved = day > 0 ? day : lastDay + day + 1;
+    if (resolved >= 1 && resolved <= lastDay) days.push(resolved);
+  });
+
+  rule.byDay.forEach(({ ordinal, weekday }) => {
+    const firstWeekday = new Date(Date.UTC(year, month, 1)).getUTCDay();
+    const matching: number[] = [];
+    for (let day = 1 + ((weekday - firstWeekday + 7) % 7); day <= lastDay; day += 7) matching.push(day);
+    if (ordinal === null) days.push(...matching);
+    else {
+      const day = ordinal > 0 ? matching[ordinal - 1] : matching[matching.length + ordinal];
+      if (day) days.push(day);
+    }
+  });
+
+  if (rule.byMonthDay.length === 0 && rule.byDay.length === 0) {
+    const day = startDate.getUTCDate();
+    if (day <= lastDay) days.push(day);
+  }
+
+  return Array.from(new Set(days)).sort((a, b) => a - b).map(dateOf);
+};
+
+/**
+ * Dates the rule produces from `from` to `to` inclusive, before holiday rules. COUNT is
+ * counted from the rule's start, so earlier occurrences use it up as well.
+ */
+export const expandRecurrence = (rrule: string, startsOn: string, from: string, to: string): string[] => {
+  const rule = parseRRule(rrule);
+  const last = rule.until && rule.until < to ? rule.until : to;
+  const dates: string[] = [];
+  let produced = 0;
+
+  for (let period = 0; period < MAX_PERIODS; period++) {
+    const periodDates = datesInPeriod(rule, startsOn, period).filter(date => date >= startsOn);
+    for (const date of periodDates) {
+      if (date > last) return dates;
+      if (rule.count !== null && produced >= rule.count) return dates;
+      produced++;
+      if (date >= from) dates.push(date);
+    }
+  }
+  return dates;
+};
+
+/**
+ * Moves or drops dates that land on public holidays. A moved run keeps moving until it
+ * reaches a day that is not a holiday, and two runs never end up on one day.
+ */
+export const applyHolidayRule = (dates: string[], holidays: Set<string>, rule: HolidayRule): string[] => {
+  if (rule === 'ignore') return dates;
+  const adjusted = dates.flatMap(date => {
+    if (!holidays.has(date)) return [date];
+    if (rule === 'skip') return [];
+    const step = rule === 'next_day' ? 1 : -1;
+    let moved = addDaysTo(date, step);
+    while (holidays.has(moved)) moved = addDaysTo(moved, step);
+    return [moved];
+  });
+  return Array.from(new Set(adjusted)).sort();
+};
+
+// What an old-style run (frequency only, no rule) meant, anchored on a date it ran
+export const legacyRecurrence = (frequency: string, anchor: string): RunRecurrence | null => {
+  const weekday = WEEKDAY_CODES[toUtc(anchor).getUTCDay()];
+  const rrule = {
+    weekly: `FREQ=WEEKLY;BYDAY=${weekday}`,
+    biweekly: `FREQ=WEEKLY;INTERVAL=2;BYDAY=${weekday}`,
+    monthly: 'FREQ=MONTHLY'
+  }[frequency];
+  return rrule ? { rrule, starts_on: anchor, holiday_rule: 'ignore' } : null;
+};
+
+export const recurrenceOf = (run: { frequency: string; frequency_details?: unknown; created_at?: string }): RunRecurrence | null => {
+  const details = run.frequency_details as Partial<RunRecurrence> | null | undefined;
+  if (details?.rrule && details.starts_on) {
+    return { rrule: details.rrule, starts_on: details.starts_on, holiday_rule: details.holiday_rule || 'ignore' };
+  }
+  return legacyRecurrence(run.frequency, (run.created_at || new Date().toISOString()).slice(0, 10));
+};
+
+// What the run edit dialog works with; turned into an RRULE on save
+export interface RecurrenceDraft {
+  preset: RecurrencePreset;
+  // Date.getUTCDay() numbers, for weekly and fortnightly runs
+  weekdays: number[];
+  // 1-4, or -1 for the last one in the month
+  monthlyOrdinal: number;
+  monthlyWeekday: number;
+  customRRule: string;
+  startsOn: string;
+  holidayRule: HolidayRule;
+}
+
+export const draftFromRun = (run: { frequency: string; frequency_details?: unknown; created_at?: string } | null): RecurrenceDraft => {
+  const today = toDateString(new Date());
+  const recurrence = run ? recurrenceOf(run) : null;
+  const startsOn = recurrence?.starts_on || today;
+  const startWeekday = toUtc(startsOn).getUTCDay();
+  const draft: RecurrenceDraft = {
+    preset: (['weekly', 'biweekly', 'monthly', 'custom'].includes(run?.frequency || '') ? run?.frequency : 'weekly') as RecurrencePreset,
+    weekdays: [startWeekday],
+    monthlyOrdinal: Math.min(4, Math.ceil(toUtc(startsOn).getUTCDate() / 7)),
+    monthlyWeekday: startWeekday,
+    customRRule: recurrence?.rrule || '',
+    startsOn,
+    holidayRule: recurrence?.holiday_rule || 'ignore'
+  };
+  if (!recurrence) return draft;
+
+  try {
+    const rule = parseRRule(recurrence.rrule);
+    if (draft.preset !== 'custom' && rule.freq === 'WEEKLY' && rule.byDay.length > 0 && rule.byDay.every(day => day.ordinal === null)) {
+      draft.weekdays = rule.byDay.map(day => day.weekday);
+    }
+    if (draft.preset === 'monthly' && rule.byDay.length === 1 && rule.byDay[0].ordinal !== null) {
+      draft.monthlyOrdinal = rule.byDay[0].ordinal;
+      draft.monthlyWeekday = rule.byDay[0].weekday;
+    }
+  } catch {
+    draft.preset = 'custom';
+  }
+  return draft;
+};
+
+/** The rule to save, or null for a custom run with no rule (scheduled by hand). Throws if invalid. */
+export const draftToRecurrence = (draft: RecurrenceDraft): RunRecurrence | null => {
+  let rrule: string;
+  if (draft.preset === 'custom') {
+    if (!draft.customRRule.trim()) return null;
+    rrule = draft.customRRule.trim().replace(/^RRULE:/i, '').toUpperCase();
+  } else if (draft.preset === 'monthly') {
+    rrule = `FREQ=MONTHLY;BYDAY=${draft.monthlyOrdinal}${WEEKDAY_CODES[draft.monthlyWeekday]}`;
+  } else {
+    if (draft.weekdays.length === 0) throw new Error('Pick at least one day of the week');
+    const days = [...draft.weekdays].sort((a, b) => ((a + 6) % 7) - ((b + 6) % 7)).map(day => WEEKDAY_CODES[day]).join(',');
+    rrule = `FREQ=WEEKLY${draft.preset === 'biweekly' ? ';INTERVAL=2' : ''};BYDAY=${days}`;
+  }
+  parseRRule(rrule);
+  return { rrule, starts_on: draft.startsOn, holiday_rule: draft.holidayRule };
+};
+
+const ORDINAL_NAMES: Record<number, string> = { 1: 'first', 2: 'second', 3: 'third', 4: 'fourth', 5: 'fifth', [-1]: 'last' };
+
+export const describeRecurrence = (recurrence: RunRecurrence | null): string => {
+  if (!recurrence) return 'No schedule';
+  try {
+    const rule = parseRRule(recurrence.rrule);
+    const dayList = rule.byDay.map(day => WEEKDAY_NAMES[day.weekday]).join(', ');
+    let text: string;
+    if (rule.freq === 'DAILY') {
+      text = rule.interval === 1 ? 'Every day' : `Every ${rule.interval} days`;
+    } else if (rule.freq === 'WEEKLY') {
+      const every = rule.interval === 1 ? 'Every week' : rule.interval === 2 ? 'Every fortnight' : `Every ${rule.interval} weeks`;
+      text = dayList ? `${every} on ${dayList}` : every;
+    } else {
+      const every = rule.interval === 1 ? 'Every month' : `Every ${rule.interval} months`;
+      const nth = rule.byDay.filter(day => day.ordinal !== null)
+        .map(day => `the ${ORDINAL_NAMES[day.ordinal as number] || `#${day.ordinal}`} ${WEEKDAY_NAMES[day.weekday]}`);
+      const monthDays = rule.byMonthDay.map(day => (day === -1 ? 'the last day' : `day ${day}`));
+      const on = [...nth, ...monthDays].join(' and ');
+      text = on ? `${every} on ${on}` : every;
+    }
+    if (rule.count) text += `, ${rule.count} times`;
+    if (rule.until) text += `, until ${rule.until}`;
+    const holidays = HOLIDAY_RULES.find(option => option.value === recurrence.holiday_rule);
+    return recurrence.holiday_rule === 'ignore' || !holidays ? text : `${text} (${holidays.label.toLowerCase()})`;
+  } catch {
+    return 'Custom schedule';
+  }
+};
+
+export type ScheduleSyncMode = 'regenerate' | 'top_up';
+
+export interface ScheduleChanges {
+  toCreate: string[];
+  toRemove: RunScheduleRow[];
+}
+
+/**
+ * Compares wanted dates with the schedules from today on. A date that already has a schedule
+ * keeps it (and its notes), and a schedule moved on the calendar holds both its new date and
+ * the one the rule gave it. 'top_up' only adds dates after the last schedule, so nothing
+ * deleted or moved by hand comes back. 'regenerate' (the rule was just saved) also removes
+ * schedules the rule no longer gives, but never completed, started or moved ones.
+ */
+export const planScheduleChanges = (
+  wanted: string[],
+  existing: RunScheduleRow[],
+  today: string,
+  mode: ScheduleSyncMode = 'regenerate'
+): ScheduleChanges => {
+  const future = existing.filter(schedule => schedule.scheduled_date >= today);
+  const taken = new Set(future.flatMap(schedule =>
+    schedule.rescheduled_from ? [schedule.scheduled_date, schedule.rescheduled_from] : [schedule.scheduled_date]
+  ));
+  const lastTaken = Array.from(taken).sort().pop() || '';
+  const wantedDates = new Set(wanted.filter(date => date >= today && (mode === 'regenerate' || date > lastTaken)));
+
+  return {
+    toCreate: Array.from(wantedDates).filter(date => !taken.has(date)).sort(),
+    toRemove: mode === 'top_up' ? [] : future.filter(schedule =>
+      !schedule.completed && !schedule.started_at && !schedule.rescheduled_from && !wantedDates.has(schedule.scheduled_date)
+    )
+  };
+};
+
+export const loadPublicHolidays = async (from: string, to: string): Promise<Set<string>> => {
+  try {
+    const rows = await repositories.publicHolidays.listBetween(from, to);
+    return new Set(rows.map(row => row.holiday_date));
+  } catch (error) {
+    console.warn('⚠️ Could not load public holidays, scheduling without them:', error);
+    return new Set();
+  }
+};
+
+type SyncableRun = { id: string; frequency: string; frequency_details?: unknown; is_active: boolean };
+
+// The saved rule, or for an old-style run its frequency anchored on the last day it was
+// scheduled for (not the day it was created, which may be a different weekday)
+const syncRecurrence = async (run: SyncableRun): Promise<RunRecurrence | null> => {
+  const details = run.frequency_details as Partial<RunRecurrence> | null | undefined;
+  if (details?.rrule && details.starts_on) return recurrenceOf(run);
+  const latest = await repositories.runSchedules.findOne([eq('run_id', run.id)], {
+    select: '*',
+    orderBy: [{ column: 'scheduled_date', ascending: false }]
+  });
+  return latest ? legacyRecurrence(run.frequency, latest.rescheduled_from || latest.scheduled_date) : null;
+};
+
+/**
+ * Bring a run's future schedules in line with its rule for the next `horizonDays`; see
+ * planScheduleChanges for what each mode may change. Inactive runs and runs with no rule
+ * (scheduled by hand) are left alone.
+ */
+export const syncRunSchedules = async (
+  run: SyncableRun,
+  mode: ScheduleSyncMode = 'regenerate',
+  horizonDays = DEFAULT_HORIZON_DAYS,
+  holidays?: Set<string>
+): Promise<{ created: number; removed: number }> => {
+  const recurrence = run.is_active ? await syncRecurrence(run) : null;
+  if (!recurrence) return { created: 0, removed: 0 };
+
+  const today = toDateString(new Date());
+  const until = addDaysTo(today, horizonDays);
+
+  // A holiday move can pull a date in from just outside the window
+  const holidaySet = holidays || await loadPublicHolidays(addDaysTo(today, -7), addDaysTo(until, 7));
+  const wanted = applyHolidayRule(
+    expandRecurrence(recurrence.rrule, recurrence.starts_on, addDaysTo(today, -7), addDaysTo(until, 7)),
+    holidaySet,
+    recurrence.holiday_rule
+  ).filter(date => date >= today && date <= until);
+
+  const existing = await repositories.runSchedules.findWhere([eq('run_id', run.id), gte('scheduled_date', today)], { select: '*' });
+  const { toCreate, toRemove } = planScheduleChanges(wanted, existing, today, mode);
+
+  if (toRemove.length > 0) {
+    await repositories.runSchedules.removeWhere([inList('id', toRemove.map(schedule => schedule.id))]);
+  }
+  if (toCreate.length > 0) {
+    const firstNumber = await repositories.runSchedules.nextRunNumber(run.id);
+    // Someone else syncing the same run at the same moment may have added these dates already
+    await repositories.runSchedules.upsert(
+      toCreate.map((date, index) => ({ run_id: run.id, scheduled_date: date, completed: false, run_number: firstNumber + index })),
+      'run_id,scheduled_date',
+      { ignoreDuplicates: true }
+    );
+  }
+
+  if (toCreate.length > 0 || toRemove.length > 0) {
+    console.log('🗓️ Synced run schedules:', run.id, mode, { created: toCreate.length, removed: toRemove.length });
+  }
+  return { created: toCreate.length, removed: toRemove.length };
+};
+
+/**
+ * Top up every run's schedules to the horizon. Called when the runs screen loads, so the
+ * window rolls forward without a server job; it only ever adds dates. One failing run does
+ * not stop the others.
+ */
+export const syncAllRunSchedules = async (runs: SyncableRun[], horizonDays = DEFAULT_HORIZON_DAYS) => {
+  const today = toDateString(new Date());
+  const holidays = await loadPublicHolidays(addDaysTo(today, -7), addDaysTo(today, horizonDays + 7));
+  let created = 0;
+  for (const run of runs.filter(candidate => candidate.is_active)) {
+    try {
+      created += (await syncRunSchedules(run, 'top_up', horizonDays, holidays)).created;
+    } catch (error) {
+      console.warn('⚠️ Could not sync schedules for run:', run.id, error);
+    }
+  }
+  return created;
+};
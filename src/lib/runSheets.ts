@@ -0,0 +1,219 @@
+// src/lib/runSheets.ts
+// The checklist for doing a run. Starting a run generates its sheet once from the run's
+// venues, the run_tasks due this time round, machines not yet collected today and open jobs;
+// the sheet is stored so ticks survive a reload and two phones see the same list.
+
+import {
+  repositories,
+  eq,
+  inList,
+  type JobRow,
+  type RunScheduleRow,
+  type RunSheetItemRow,
+  type RunTaskRow,
+  type RunVenueRow
+} from './repositories';
+
+export type RunSheetItemDraft = Omit<RunSheetItemRow, 'id' | 'completed_at' | 'completed_by' | 'machine_report_id' | 'created_at'>;
+
+export interface RunSheetSources {
+  scheduleId: string;
+  runVenues: Pick<RunVenueRow, 'venue_id' | 'venues'>[];
+  runTasks: RunTaskRow[];
+  // The run being done is this many runs in, counting from 1
+  runNumber: number;
+  machines: Array<{ id: string; name: string; venue_id?: string | null }>;
+  // Machines with a report already saved today
+  collectedMachineIds: Set<string>;
+  openJobs: Pick<JobRow, 'id' | 'title' | 'machine_id'>[];
+}
+
+const CLOSED_JOB_STATUSES = ['completed', 'cancelled'];
+// Room for every item at a venue before the next venue's items start
+const VENUE_SEQUENCE_STEP = 1000;
+
+// A task "every N runs" is due on runs N, 2N, 3N…
+export const isRunTaskDue = (frequencyInterval: number, runNumber: number) =>
+  frequencyInterval <= 1 || runNumber % frequencyInterval === 0;
+
+export const buildRunSheetItems = (sources: RunSheetSources): RunSheetItemDraft[] => {
+  const { scheduleId, runVenues, runTasks, runNumber, machines, collectedMachineIds, openJobs } = sources;
+  const items: RunSheetItemDraft[] = [];
+  const machineName = (id: string | null) => machines.find(machine => machine.id === id)?.name || 'Machine';
+
+  const venueIds = runVenues.map(rv => rv.venue_id);
+  const taskVenue = (task: RunTaskRow) =>
+    task.venue_id || machines.find(machine => machine.id === task.machine_id)?.venue_id || null;
+  const dueTasks = runTasks.filter(task => isRunTaskDue(task.frequency_interval, runNumber));
+
+  // Due tasks for venues no longer on the run still go on the sheet, after the last venue
+  const strayVenueIds = Array.from(new Set(
+    dueTasks.map(taskVenue).filter((id): id is string => !!id && !venueIds.includes(id))
+  ));
+
+  [...venueIds, ...strayVenueIds].forEach((venueId, venueIndex) => {
+    let sequence = venueIndex * VENUE_SEQUENCE_STEP;
+    const add = (item: Omit<RunSheetItemDraft, 'run_schedule_id' | 'sequence' | 'venue_id'>) =>
+      items.push({ ...item, run_schedule_id: scheduleId, venue_id: venueId, sequence: sequence++ });
+
+    const venueName = runVenues.find(rv => rv.venue_id === venueId)?.venues?.name || 'venue';
+    add({ item_key: `visit:${venueId}`, kind: 'visit', machine_id: null, run_task_id: null, job_id: null, label: `Arrive at ${venueName}` });
+
+    const venueMachines = machines.filter(machine => machine.venue_id === venueId);
+    venueMachines
+      .filter(machine => !collectedMachineIds.has(machine.id))
+      .forEach(machine => add({
+        item_key: `collection:${machine.id}`,
+        kind: 'collection',
+        machine_id: machine.id,
+        run_task_id: null,
+        job_id: null,
+        label: `Collect ${machine.name}`
+      }));
+
+    dueTasks
+      .filter(task => taskVenue(task) === venueId)
+      .forEach(task => add({
+        item_key: `task:${task.id}`,
+        kind: 'task',
+        machine_id: task.machine_id,
+        run_task_id: task.id,
+        job_id: null,
+        label: task.machine_id ? `${machineName(task.machine_id)}: ${task.task_description}` : task.task_description
+      }));
+
+    openJobs
+      .filter(job => venueMachines.some(machine => machine.id === job.machine_id))
+      .forEach(job => add({
+        item_key: `job:${job.id}`,
+        kind: 'job',
+        machine_id: job.machine_id,
+        run_task_id: null,
+        job_id: job.id,
+        label: `${machineName(job.machine_id)}: ${job.title}`
+      }));
+  });
+
+  return items;
+};
+
+// Schedules made before run numbers were kept count the completed runs instead
+const runNumberOf = async (schedule: RunScheduleRow) =>
+  schedule.run_number || (await repositories.runSchedules.countCompleted(schedule.run_id)) + 1;
+
+const loadSheetSources = async (schedule: RunScheduleRow, today: string): Promise<RunSheetSources> => {
+  const [runVenues, runTasks, runNumber] = await Promise.all([
+    repositories.runVenues.listForRun(schedule.run_id),
+    repositories.runTasks.findWhere([eq('run_id', schedule.run_id)]),
+    runNumberOf(schedule)
+  ]);
+
+  const venueIds = Array.from(new Set([
+    ...runVenues.map(rv => rv.venue_id),
+    ...runTasks.map(task => task.venue_id).filter((id): id is string => !!id)
+  ]));
+  const machines = venueIds.length > 0
+    ? await repositories.machines.findWhere([inList('venue_id', venueIds)], { select: 'id, name, venue_id' })
+    : [];
+  const machineIds = machines.map(machine => machine.id);
+
+  const [todaysReports, jobs] = machineIds.length > 0
+    ? await Promise.all([
+        repositories.machineReports.findWhere([inList('machine_id', machineIds), eq('report_date', today)], { select: 'id, machine_id' }),
+        repositories.jobs.findWhere([inList('machine_id', machineIds)], { select: 'id, title, machine_id, status, archived' })
+      ])
+    : [[], []];
+
+  return {
+    scheduleId: schedule.id,
+    runVenues,
+    runTasks,
+    runNumber,
+    machines,
+    collectedMachineIds: new Set(todaysReports.map(report => report.machine_id)),
+    openJobs: jobs.filter(job => !job.archived && !CLOSED_JOB_STATUSES.includes(job.status))
+  };
+};
+
+/**
+ * Start (or carry on with) a run. Uses the given schedule, else today's schedule for the run,
+ * else records an unscheduled run for today. The sheet is only generated the first time.
+ */
+export const startRunSheet = async (
+  runId: string,
+  userId: string | null,
+  scheduleId?: string
+): Promise<{ schedule: RunScheduleRow; items: RunSheetItemRow[] }> => {
+  // UTC, the way report forms write report_date
+  const today = new Date().toISOString().split('T')[0];
+
+  let schedule = scheduleId
+    ? await repositories.runSchedules.getById(scheduleId)
+    : await repositories.runSchedules.findOne([eq('run_id', runId), eq('scheduled_date', today)]);
+  if (!schedule) {
+    // A second phone starting the same unscheduled run uses the schedule the first one made
+    await repositories.runSchedules.upsert([{
+      run_id: runId,
+      scheduled_date: today,
+      completed: false,
+      run_number: await repositories.runSchedules.nextRunNumber(runId)
+    }], 'run_id,scheduled_date', { ignoreDuplicates: true });
+    schedule = await repositories.runSchedules.findOne([eq('run_id', runId), eq('scheduled_date', today)]);
+  }
+
+  if (!schedule.started_at) {
+    schedule = await repositories.runSchedules.update(schedule.id, {
+      started_at: new Date().toISOString(),
+      started_by: userId
+    }) || schedule;
+  }
+
+  let items = await repositories.runSheetItems.listForSchedule(schedule.id);
+  if (items.length === 0) {
+    const drafts = buildRunSheetItems(await loadSheetSources(schedule, today));
+    // Upsert on the item key so a second phone starting at the same moment can't double the sheet
+    await repositories.runSheetItems.upsert(drafts, 'run_schedule_id,item_key');
+    items = await repositories.runSheetItems.listForSchedule(schedule.id);
+    console.log('✅ Generated run sheet:', schedule.id, items.length, 'items');
+  }
+
+  return { schedule, items };
+};
+
+/**
+ * Tick an item off (or un-tick it). Ticking a job item also completes and archives the job,
+ * the same as completing it from the jobs board.
+ */
+export const setRunSheetItemDone = async (
+  item: RunSheetItemRow,
+  done: boolean,
+  userId: string | null,
+  extras: { machineReportId?: string | null; notes?: string | null } = {}
+): Promise<RunSheetItemRow> => {
+  const updated = await repositories.runSheetItems.update(item.id, {
+    completed_at: done ? new Date().toISOString() : null,
+    completed_by: done ? userId : null,
+    ...(extras.machineReportId !== undefined ? { machine_report_id: extras.machineReportId } : {}),
+    ...(extras.notes !== undefined ? { notes: extras.notes } : {})
+  });
+
+  if (done && item.kind === 'job' && item.job_id) {
+    const job = await repositories.jobs.getById(item.job_id, 'id, progress_updates');
+    await repositories.jobs.update(item.job_id, {
+      status: 'completed',
+      completed_at: new Date().toISOString(),
+      completed_by: userId,
+      archived: true,
+      progress_updates: [...(job?.progress_updates || []), `${new Date().toISOString()}: Completed on a run`]
+    });
+  }
+
+  return updated || item;
+};
+
+export const completeRunSheet = (scheduleId: string, userId: string | null) =>
+  repositories.runSchedules.update(scheduleId, {
+    completed: true,
+    completed_at: new Date().toISOString(),
+    completed_by: userId
+  });
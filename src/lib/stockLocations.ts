@@ -0,0 +1,118 @@
+// src/lib/stockLocations.ts
+// Where prizes are. Every location except the primary warehouse has its own location_stock
+// rows; the primary warehouse holds the rest of prizes.stock_quantity. Prizes in machines have
+// left stock, so they're estimated from each machine's latest toy count.
+
+import { repositories, type LocationStockRow, type StockLocationRow } from './repositories';
+
+interface StockedPrize {
+  id: string;
+  name: string;
+  stock_quantity: number;
+}
+
+interface LoadedMachine {
+  id: string;
+  current_prize_id?: string | null;
+}
+
+export interface StockOverviewRow {
+  prize: StockedPrize;
+  byLocation: Record<string, number>;
+  inStock: number;
+  inMachines: number;
+}
+
+export interface CountVariance {
+  prize_id: string;
+  expected: number;
+  counted: number;
+  difference: number;
+}
+
+export const locationStockKey = (locationId: string, prizeId: string) => `${locationId}:${prizeId}`;
+
+export const primaryLocation = (locations: StockLocationRow[]) =>
+  locations.find(location => location.is_primary) || null;
+
+export const describeLocation = (location: StockLocationRow) => {
+  const holder = location.users?.full_name || location.users?.username;
+  return holder && location.kind === 'vehicle' ? `${location.name} (${holder})` : location.name;
+};
+
+// Quantity of each prize at each location, keyed by locationStockKey. Rows for inactive
+// locations still count against the primary warehouse's share until they're emptied.
+export const buildLocationQuantities = (
+  prizes: StockedPrize[],
+  locations: StockLocationRow[],
+  rows: LocationStockRow[]
+): Map<string, number> => {
+  const quantities = new Map<string, number>();
+  const elsewhere = new Map<string, number>();
+  const primaryId = primaryLocation(locations)?.id;
+
+  rows.forEach(row => {
+    if (row.location_id === primaryId) return;
+    quantities.set(locationStockKey(row.location_id, row.prize_id), row.quantity);
+    elsewhere.set(row.prize_id, (elsewhere.get(row.prize_id) || 0) + row.quantity);
+  });
+
+  if (primaryId) {
+    prizes.forEach(prize => {
+      quantities.set(locationStockKey(primaryId, prize.id), (prize.stock_quantity || 0) - (elsewhere.get(prize.id) || 0));
+    });
+  }
+  return quantities;
+};
+
+export const quantityAt = (quantities: Map<string, number>, locationId: string, prizeId: string) =>
+  quantities.get(locationStockKey(locationId, prizeId)) || 0;
+
+// Each machine's latest toy count, put against the prize it's currently loaded with
+export const prizesInMachines = (
+  machines: LoadedMachine[],
+  latestToyCount: (machineId: string) => number | null
+): Record<string, number> => {
+  const totals: Record<string, number> = {};
+  machines.forEach(machine => {
+    if (!machine.current_prize_id) return;
+    const count = latestToyCount(machine.id);
+    if (!count || count <= 0) return;
+    totals[machine.current_prize_id] = (totals[machine.current_prize_id] || 0) + count;
+  });
+  return totals;
+};
+
+export const buildStockOverview = (
+  prizes: StockedPrize[],
+  locations: StockLocationRow[],
+  quantities: Map<string, number>,
+  inMachines: Record<string, number>
+): StockOverviewRow[] =>
+  prizes
+    .map(prize => ({
+      prize,
+      byLocation: Object.fromEntries(locations.map(location => [location.id, quantityAt(quantities, location.id, prize.id)])),
+      inStock: prize.stock_quantity || 0,
+      inMachines: inMachines[prize.id] || 0
+    }))
+    .filter(row => row.inStock !== 0 || row.inMachines > 0)
+    .sort((a, b) => a.prize.name.localeCompare(b.prize.name));
+
+// Only prizes with a count typed in are compared; blanks are left as they were
+export const countVariances = (expected: Record<string, number>, counts: Record<string, string>): CountVariance[] =>
+  Object.entries(counts)
+    .filter(([, value]) => value.trim() !== '' && !isNaN(parseInt(value)))
+    .map(([prizeId, value]) => {
+      const counted = Math.max(0, parseInt(value));
+      const was = expected[prizeId] || 0;
+      return { prize_id: prizeId, expected: was, counted, difference: counted - was };
+    });
+
+export const loadStockLocations = async () => {
+  const [locations, rows] = await Promise.all([
+    repositories.stockLocations.listActive(),
+    repositories.locationStock.list()
+  ]);
+  return { locations, rows };
+};
@@ -0,0 +1,83 @@
+// src/lib/stocktakes.ts
+// Stocktake sheets. A line's variance is what was counted less what was expected when the
+// stocktake started; uncounted lines have no variance and aren't posted. Value impact uses the
+// unit cost frozen on the line.
+
+import { format } from 'date-fns';
+import type {
+  CycleCountScheduleRow,
+  StockAdjustmentReason,
+  StockItemType,
+  StocktakeLineRow
+} from './repositories';
+
+export const REASON_LABELS: Record<StockAdjustmentReason, string> = {
+  damaged: 'Damaged',
+  lost: 'Lost',
+  theft: 'Theft',
+  miscount: 'Previous miscount',
+  found: 'Found',
+  supplier_error: 'Supplier short/over',
+  other: 'Other'
+};
+
+export interface StocktakeSummary {
+  lines: number;
+  counted: number;
+  varianceLines: number;
+  unitsOver: number;
+  unitsShort: number;
+  valueImpact: number;
+  missingReasons: number;
+}
+
+export const lineVariance = (line: StocktakeLineRow): number | null =>
+  line.counted_quantity === null || line.counted_quantity === undefined
+    ? null
+    : line.counted_quantity - line.expected_quantity;
+
+export const lineValueImpact = (line: StocktakeLineRow) => (lineVariance(line) || 0) * Number(line.unit_cost || 0);
+
+export const summariseStocktake = (lines: StocktakeLineRow[]): StocktakeSummary =>
+  lines.reduce<StocktakeSummary>((summary, line) => {
+    const variance = lineVariance(line);
+    if (variance === null) return summary;
+    return {
+      ...summary,
+      counted: summary.counted + 1,
+      varianceLines: summary.varianceLines + (variance !== 0 ? 1 : 0),
+      unitsOver: summary.unitsOver + Math.max(variance, 0),
+      unitsShort: summary.unitsShort + Math.max(-variance, 0),
+      valueImpact: summary.valueImpact + lineValueImpact(line),
+      missingReasons: summary.missingReasons + (variance !== 0 && !line.reason_code ? 1 : 0)
+    };
+  }, { lines: lines.length, counted: 0, varianceLines: 0, unitsOver: 0, unitsShort: 0, valueImpact: 0, missingReasons: 0 });
+
+export const findLineByBarcode = (lines: StocktakeLineRow[], barcode: string) => {
+  const code = barcode.trim().toLowerCase();
+  if (!code) return null;
+  return lines.find(line => line.barcode?.trim().toLowerCase() === code) || null;
+};
+
+export const describeScope = (itemType?: StockItemType | null, category?: string | null) => {
+  if (category) return `${category} prizes`;
+  if (itemType === 'prize') return 'All prizes';
+  if (itemType === 'part') return 'All parts';
+  return 'All prizes and parts';
+};
+
+// Scope pickers use 'all', 'prize', 'part' or 'category:<name>'
+export const SCOPE_OPTIONS = [
+  { value: 'all', label: 'All prizes and parts' },
+  { value: 'prize', label: 'All prizes' },
+  { value: 'part', label: 'All parts' }
+];
+
+export const scopeFromKey = (key: string): { item_type: StockItemType | null; category: string | null } => {
+  if (key.startsWith('category:')) return { item_type: 'prize', category: key.slice('category:'.length) };
+  if (key === 'prize' || key === 'part') return { item_type: key, category: null };
+  return { item_type: null, category: null };
+};
+
+export const isScheduleDue = (schedule: CycleCountScheduleRow, today: Date = new Date()) =>
+  schedule.is_active && schedule.next_due_date <= format(today, 'yyyy-MM-dd');
@@ -0,0 +1,85 @@
+// src/lib/toyCounter.ts
+// Works out toys dispensed from two toy meter readings, including readings taken across a
+// meter reset, a replaced meter or a rollover. Jumps too big to be real are flagged for a
+// person to review rather than being saved as toys dispensed.
+
+export type CounterEvent = 'reset' | 'replacement' | 'rollover';
+
+export type CounterReviewStatus = 'pending' | 'approved' | 'rejected';
+
+export const COUNTER_EVENTS: Array<{ value: CounterEvent; label: string; description: string }> = [
+  { value: 'reset', label: 'Meter reset', description: 'The meter was zeroed since the last report' },
+  { value: 'replacement', label: 'Meter replaced', description: 'A new meter was fitted since the last report' },
+  { value: 'rollover', label: 'Rollover', description: 'The meter passed its maximum and started again from zero' }
+];
+
+export const getCounterEventLabel = (event?: string | null) =>
+  COUNTER_EVENTS.find(item => item.value === event)?.label || 'None';
+
+// Six-digit mechanical meters wrap from 999999 to 0
+export const DEFAULT_COUNTER_MAX = 999999;
+
+// No machine we run dispenses more than this between two collections
+export const MAX_TOYS_PER_REPORT = 1500;
+
+export interface CounterReading {
+  previous: number;
+  current: number;
+  event?: CounterEvent | null;
+  // Last reading on the old meter before it was reset or replaced
+  finalReading?: number | null;
+  counterMax?: number;
+}
+
+export interface CounterResolution {
+  toys: number;
+  // The reading cannot be saved as entered, e.g. it went backwards without an event
+  error: string | null;
+  // The reading can be saved but the toys need checking before they count
+  flagReason: string | null;
+}
+
+const isMissing = (value?: number | null) => value === null || value === undefined || isNaN(value);
+
+export const resolveToyCount = (
+  reading: CounterReading,
+  maxToys: number = MAX_TOYS_PER_REPORT
+): CounterResolution => {
+  const { previous, current, event, finalReading } = reading;
+  const counterMax = reading.counterMax || DEFAULT_COUNTER_MAX;
+
+  let toys: number;
+  if (!event) {
+    if (current < previous) {
+      return {
+        toys: 0,
+        error: `Reading ${current} is lower than the previous ${previous}. Mark it as a meter reset, replacement or rollover.`,
+        flagReason: null
+      };
+    }
+    toys = current - previous;
+  } else if (event === 'rollover') {
+    if (current >= previous) {
+      return { toys: 0, error: 'A rollover reading must be lower than the previous reading', flagReason: null };
+    }
+    toys = counterMax + 1 - previous + current;
+  } else {
+    if (isMissing(finalReading)) {
+      return { toys: 0, error: 'Enter the old meter\'s final reading', flagReason: null };
+    }
+    if (finalReading < previous) {
+      return {
+        toys: 0,
+        error: `The old meter's final reading cannot be lower than the previous reading (${previous})`,
+        flagReason: null
+      };
+    }
+    toys = finalReading - previous + current;
+  }
+
+  const flagReason = toys > maxToys
+    ? `${toys} toys since the last report is more than the ${maxToys} a machine can dispense`
+    : null;
+
+  return { toys, error: null, flagReason };
+};
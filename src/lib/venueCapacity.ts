@@ -0,0 +1,151 @@
+// src/lib/venueCapacity.ts
+// Floor-space planning. A machine takes width × depth of floor, its weight in floor load and
+// one power outlet, and gets through a doorway if its narrower side (it can be turned) and its
+// height clear it. Machines without measurements can't be checked, so they're counted
+// separately rather than guessed. New machine requests are sized from the average of existing
+// machines of the same type.
+
+import { repositories, type MachineMeasurementRow, type VenueCapacityRow } from './repositories';
+
+interface PlacedMachine {
+  id: string;
+  name: string;
+  type?: string | null;
+  venue_id?: string | null;
+}
+
+export type MachineSize = Pick<MachineMeasurementRow, 'width_cm' | 'depth_cm' | 'height_cm' | 'weight_kg'>;
+
+export interface VenueUtilisation {
+  machineCount: number;
+  unmeasured: number;
+  usedAreaM2: number;
+  usedLoadKg: number;
+  outletsUsed: number;
+  // null when the venue's profile doesn't give that limit
+  freeAreaM2: number | null;
+  freeLoadKg: number | null;
+  freeOutlets: number | null;
+}
+
+const num = (value: number | string | null | undefined) =>
+  value === null || value === undefined || value === '' ? null : Number(value);
+
+export const footprintM2 = (size: MachineSize): number | null => {
+  const width = num(size.width_cm);
+  const depth = num(size.depth_cm);
+  return width && depth ? (width * depth) / 10000 : null;
+};
+
+// null when either the doorway or the machine hasn't been measured
+export const fitsThroughDoor = (size: MachineSize, capacity?: VenueCapacityRow | null): boolean | null => {
+  const doorWidth = num(capacity?.doorway_width_cm);
+  const width = num(size.width_cm);
+  const depth = num(size.depth_cm);
+  if (!doorWidth || (!width && !depth)) return null;
+  const narrowest = Math.min(...[width, depth].filter((side): side is number => !!side));
+  const doorHeight = num(capacity?.doorway_height_cm);
+  const height = num(size.height_cm);
+  return narrowest <= doorWidth && (!doorHeight || !height || height <= doorHeight);
+};
+
+export const measurementsByMachine = (rows: MachineMeasurementRow[]) =>
+  new Map(rows.map(row => [row.machine_id, row]));
+
+// Average size of the measured machines of one type, for machines not bought yet
+export const typicalSize = (
+  machineType: string,
+  machines: PlacedMachine[],
+  measurements: Map<string, MachineMeasurementRow>
+): MachineSize | null => {
+  const type = machineType.trim().toLowerCase();
+  const sizes = machines
+    .filter(machine => machine.type?.trim().toLowerCase() === type)
+    .map(machine => measurements.get(machine.id))
+    .filter((size): size is MachineMeasurementRow => !!size);
+  if (sizes.length === 0) return null;
+  const average = (key: keyof MachineSize) => {
+    const values = sizes.map(size => num(size[key])).filter((value): value is number => value !== null);
+    return values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : null;
+  };
+  return { width_cm: average('width_cm'), depth_cm: average('depth_cm'), height_cm: average('height_cm'), weight_kg: average('weight_kg') };
+};
+
+export const venueUtilisation = (
+  venueId: string,
+  capacity: VenueCapacityRow | null | undefined,
+  machines: PlacedMachine[],
+  measurements: Map<string, MachineMeasurementRow>
+): VenueUtilisation => {
+  const here = machines.filter(machine => machine.venue_id === venueId);
+  const usedAreaM2 = here.reduce((sum, machine) => sum + (footprintM2(measurements.get(machine.id) || {}) || 0), 0);
+  const usedLoadKg = here.reduce((sum, machine) => sum + (num(measurements.get(machine.id)?.weight_kg) || 0), 0);
+  const area = num(capacity?.usable_area_m2);
+  const load = num(capacity?.max_load_kg);
+  const outlets = num(capacity?.power_outlets);
+  return {
+    machineCount: here.length,
+    unmeasured: here.filter(machine => footprintM2(measurements.get(machine.id) || {}) === null).length,
+    usedAreaM2,
+    usedLoadKg,
+    outletsUsed: here.length,
+    freeAreaM2: area === null ? null : area - usedAreaM2,
+    freeLoadKg: load === null ? null : load - usedLoadKg,
+    freeOutlets: outlets === null ? null : outlets - here.length
+  };
+};
+
+// Warnings for putting these machines into the venue (null for a machine of unknown size);
+// empty when nothing is known to be wrong
+export const placementWarnings = (
+  sizes: Array<MachineSize | null | undefined>,
+  capacity: VenueCapacityRow | null | undefined,
+  utilisation: VenueUtilisation
+): string[] => {
+  if (!capacity || sizes.length === 0) return [];
+  const warnings: string[] = [];
+  const blocked = sizes.filter(size => size && fitsThroughDoor(size, capacity) === false).length;
+  if (blocked > 0) {
+    warnings.push(sizes.length === 1
+      ? `Won't fit through the ${capacity.doorway_width_cm} cm doorway`
+      : `${blocked} of ${sizes.length} machines won't fit through the ${capacity.doorway_width_cm} cm doorway`);
+  }
+  const area = sizes.reduce((sum, size) => sum + ((size && footprintM2(size)) || 0), 0);
+  if (area > 0 && utilisation.freeAreaM2 !== null && area > utilisation.freeAreaM2) {
+    warnings.push(`Needs ${area.toFixed(1)} m² but only ${Math.max(utilisation.freeAreaM2, 0).toFixed(1)} m² is free`);
+  }
+  const weight = sizes.reduce((sum, size) => sum + (num(size?.weight_kg) || 0), 0);
+  if (weight > 0 && utilisation.freeLoadKg !== null && weight > utilisation.freeLoadKg) {
+    warnings.push(`Adds ${Math.round(weight)} kg but the floor only takes ${Math.max(Math.round(utilisation.freeLoadKg), 0)} kg more`);
+  }
+  if (utilisation.freeOutlets !== null && sizes.length > utilisation.freeOutlets) {
+    warnings.push(`Needs ${sizes.length} power outlet${sizes.length > 1 ? 's' : ''} but ${Math.max(utilisation.freeOutlets, 0)} free`);
+  }
+  return warnings;
+};
+
+// Measured machines elsewhere that would still fit, most floor space first
+export const placeableMachines = (
+  venueId: string,
+  capacity: VenueCapacityRow | null | undefined,
+  utilisation: VenueUtilisation,
+  machines: PlacedMachine[],
+  measurements: Map<string, MachineMeasurementRow>
+) =>
+  machines
+    .filter(machine => machine.venue_id !== venueId)
+    .map(machine => ({ machine, size: measurements.get(machine.id) }))
+    .filter((entry): entry is { machine: PlacedMachine; size: MachineMeasurementRow } =>
+      !!entry.size && footprintM2(entry.size) !== null && placementWarnings([entry.size], capacity, utilisation).length === 0)
+    .sort((a, b) => (footprintM2(b.size) || 0) - (footprintM2(a.size) || 0));
+
+export const loadCapacityData = async () => {
+  const [capacities, measurements] = await Promise.all([
+    repositories.venueCapacity.list(),
+    repositories.machineMeasurements.list()
+  ]);
+  return {
+    capacityByVenue: new Map(capacities.map(capacity => [capacity.venue_id, capacity])),
+    measurements: measurementsByMachine(measurements)
+  };
+};
@@ -0,0 +1,47 @@
+// src/lib/venueStatements.ts
+// Helpers for turning a saved venue_reports row into a printable statement. Used by the
+// staff reports page and the venue partner portal.
+
+import type { MachineReportData } from '@/components/VenueReportTemplate';
+
+// venue_reports.machine_data is stored as JSON, sometimes double-encoded as a string
+export const parseMachineData = (machineData: unknown): MachineReportData[] => {
+  if (!machineData) return [];
+  try {
+    const parsed = typeof machineData === 'string' ? JSON.parse(machineData) : machineData;
+    return Array.isArray(parsed) ? parsed : [];
+  } catch (error) {
+    console.warn('Failed to parse machine_data:', error);
+    return [];
+  }
+};
+
+export const emptyMachineReport = (machine: { id: string; name: string; serial_number?: string | null }): MachineReportData => ({
+  machine_id: machine.id,
+  machine_name: machine.name,
+  machine_serial: machine.serial_number || 'N/A',
+  total_turnover: 0,
+  total_tokens: 0,
+  commission_amount: 0,
+  report_count: 0,
+  has_data: false
+});
+
+// Opens the statement in a print window, or downloads it as HTML when pop-ups are blocked
+export const openStatementWindow = (htmlContent: string, filename: string): void => {
+  const printWindow = window.open('', '_blank', 'width=1200,height=800');
+  if (printWindow) {
+    printWindow.document.write(htmlContent);
+    printWindow.document.close();
+    setTimeout(() => printWindow.print(), 1000);
+    return;
+  }
+
+  const blob = new Blob([htmlContent], { type: 'text/html' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+};
@@ -6,6 +6,7 @@ import EquipmentHireManager from '@/components/EquipmentHireManager';
 interface IndexProps {
   onLogout: () => void;
   userProfile: {
+    id?: string;
     role: string;
     username?: string;
     full_name?: string;
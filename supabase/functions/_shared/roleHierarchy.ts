@@ -0,0 +1,29 @@
+// supabase/functions/_shared/roleHierarchy.ts
+// Which roles each role may create and manage. Shared by the admin-users edge function and
+// the SPA (re-exported from src/lib/roleHierarchy.ts), so keep this file free of imports.
+// ROLE_HIERARCHY is the built-in default; the live hierarchy comes from roles.manages.
+
+export type RoleHierarchy = Record<string, string[]>;
+
+export const ROLE_HIERARCHY: RoleHierarchy = {
+  super_admin: ['super_admin', 'admin', 'manager', 'technician', 'viewer', 'venue_partner'],
+  admin: ['manager', 'technician', 'viewer', 'venue_partner'],
+  manager: ['manager', 'technician', 'viewer', 'venue_partner'],
+  technician: [],
+  viewer: [],
+  venue_partner: []
+};
+
+export const buildRoleHierarchy = (roles: Array<{ key: string; manages?: string[] | null }>): RoleHierarchy =>
+  roles.length === 0
+    ? ROLE_HIERARCHY
+    : Object.fromEntries(roles.map(role => [role.key, role.manages || []]));
+
+export const getManageableRoles = (actorRole: string | null | undefined, hierarchy: RoleHierarchy = ROLE_HIERARCHY): string[] =>
+  (actorRole && hierarchy[actorRole]) || [];
+
+export const canManageRole = (
+  actorRole: string | null | undefined,
+  targetRole: string | null | undefined,
+  hierarchy: RoleHierarchy = ROLE_HIERARCHY
+): boolean => !!targetRole && getManageableRoles(actorRole, hierarchy).includes(targetRole);
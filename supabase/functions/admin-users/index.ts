@@ -0,0 +1,272 @@
+// supabase/functions/admin-users/index.ts
+// Privileged user management. The service-role key only exists here; the SPA calls this
+// function with the signed-in user's JWT and every action is checked against the caller's
+// permissions (manage_users, or delete_users to delete) and role, using the same hierarchy
+// as useAuth.canCreateUserWithRole.
+//
+// Run locally: supabase functions serve admin-users --env-file ./supabase/.env.local
+
+import { createClient, type SupabaseClient } from 'npm:@supabase/supabase-js@2';
+import { buildRoleHierarchy, canManageRole, getManageableRoles, type RoleHierarchy } from '../_shared/roleHierarchy.ts';
+
+type AdminAction =
+  | { action: 'create_user'; email: string; password: string; username: string; full_name?: string; role: string }
+  | { action: 'set_active'; user_id: string; is_active: boolean }
+  | { action: 'delete_user'; user_id: string }
+  | { action: 'reset_password'; user_id: string; password: string }
+  | { action: 'change_role'; user_id: string; role: string }
+  | { action: 'cleanup_orphans' };
+
+interface Profile {
+  id: string;
+  email: string;
+  role: string | null;
+  is_active: boolean | null;
+}
+
+interface Caller extends Profile {
+  hierarchy: RoleHierarchy;
+}
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS'
+};
+
+class HttpError extends Error {
+  constructor(readonly status: number, message: string) {
+    super(message);
+  }
+}
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), { status, headers: { ...corsHeaders, 'Content-Type': 'application/json' } });
+
+const MIN_PASSWORD_LENGTH = 6;
+
+const requirePassword = (password: string | undefined) => {
+  if (!password || password.length < MIN_PASSWORD_LENGTH) {
+    throw new HttpError(400, `Password must be at least ${MIN_PASSWORD_LENGTH} characters`);
+  }
+};
+
+const getProfile = async (admin: SupabaseClient, userId: string): Promise<Profile | null> => {
+  const { data, error } = await admin
+    .from('users')
+    .select('id, email, role, is_active')
+    .eq('id', userId)
+    .maybeSingle();
+  if (error) throw new HttpError(500, `Database error: ${error.message}`);
+  return data;
+};
+
+// Falls back to the built-in hierarchy until the roles table has been migrated
+const loadHierarchy = async (admin: SupabaseClient): Promise<RoleHierarchy> => {
+  const { data, error } = await admin.from('roles').select('key, manages');
+  if (error) {
+    console.warn('⚠️ Could not load roles, using built-in hierarchy:', error.message);
+    return buildRoleHierarchy([]);
+  }
+  return buildRoleHierarchy(data || []);
+};
+
+const getCaller = async (admin: SupabaseClient, req: Request): Promise<Caller> => {
+  const token = req.headers.get('Authorization')?.replace(/^Bearer\s+/i, '');
+  if (!token) throw new HttpError(401, 'Missing authorization token');
+
+  const { data, error } = await admin.auth.getUser(token);
+  if (error || !data.user) throw new HttpError(401, 'Invalid or expired session');
+
+  const profile = await getProfile(admin, data.user.id);
+  if (!profile || profile.is_active === false) throw new HttpError(403, 'Your account is not active');
+  return { ...profile, hierarchy: await loadHierarchy(admin) };
+};
+
+// Role permissions with the caller's own overrides, as user_has_permission works them out
+const requirePermission = async (admin: SupabaseClient, caller: Caller, permission: string) => {
+  const { data, error } = await admin.rpc('user_has_permission', { p_permission: permission, p_user_id: caller.id });
+  if (error) throw new HttpError(500, `Database error: ${error.message}`);
+  if (!data) throw new HttpError(403, `You need the ${permission} permission to do this`);
+};
+
+// Loads the target and checks the caller outranks it; callers never act on themselves here
+const getManagedTarget = async (admin: SupabaseClient, caller: Caller, userId: string): Promise<Profile> => {
+  if (!userId) throw new HttpError(400, 'user_id is required');
+  if (userId === caller.id) throw new HttpError(403, 'You cannot perform this action on your own account');
+
+  const target = await getProfile(admin, userId);
+  if (!target) throw new HttpError(404, 'User not found');
+  if (!canManageRole(caller.role, target.role, caller.hierarchy)) {
+    throw new HttpError(403, `Your role cannot manage ${target.role || 'this'} users`);
+  }
+  return target;
+};
+
+const createUser = async (admin: SupabaseClient, caller: Caller, body: Extract<AdminAction, { action: 'create_user' }>) => {
+  const email = body.email?.trim();
+  const username = body.username?.trim();
+  if (!email || !email.includes('@')) throw new HttpError(400, 'A valid email address is required');
+  if (!username || username.length < 3) throw new HttpError(400, 'Username must be at least 3 characters');
+  requirePassword(body.password);
+  if (!canManageRole(caller.role, body.role, caller.hierarchy)) {
+    throw new HttpError(403, `Your role cannot create ${body.role} users`);
+  }
+
+  const fullName = body.full_name?.trim() || username;
+  const { data: authData, error: authError } = await admin.auth.admin.createUser({
+    email,
+    password: body.password,
+    email_confirm: true,
+    user_metadata: { username, full_name: fullName, role: body.role },
+    app_metadata: { role: body.role, created_by: caller.id, created_at: new Date().toISOString() }
+  });
+
+  if (authError) {
+    if (authError.message.includes('already registered')) {
+      throw new HttpError(409, 'A user with this email address already exists.');
+    }
+    throw new HttpError(400, `Failed to create auth user: ${authError.message}`);
+  }
+
+  // A signup trigger may already have inserted the profile, so upsert rather than insert
+  const profile = {
+    id: authData.user.id,
+    email,
+    username,
+    full_name: fullName,
+    role: body.role,
+    is_active: true,
+    updated_at: new Date().toISOString()
+  };
+  const { data, error } = await admin
+    .from('users')
+    .upsert(profile, { onConflict: 'id' })
+    .select('id, email, username, full_name, role, is_active, created_at')
+    .single();
+
+  if (error) {
+    await admin.auth.admin.deleteUser(authData.user.id);
+    throw new HttpError(500, `Profile creation failed: ${error.message}`);
+  }
+
+  return data;
+};
+
+const setActive = async (admin: SupabaseClient, caller: Caller, userId: string, isActive: boolean) => {
+  const target = await getManagedTarget(admin, caller, userId);
+
+  const { error } = await admin.from('users').update({ is_active: isActive }).eq('id', target.id);
+  if (error) throw new HttpError(500, `Database error: ${error.message}`);
+
+  // Banning the auth user stops a deactivated account from signing in at all
+  const { error: banError } = await admin.auth.admin.updateUserById(target.id, {
+    ban_duration: isActive ? 'none' : '876000h'
+  });
+  if (banError) console.warn('⚠️ Could not update auth ban state:', banError.message);
+
+  return { id: target.id, is_active: isActive };
+};
+
+const deleteUser = async (admin: SupabaseClient, caller: Caller, userId: string) => {
+  const target = await getManagedTarget(admin, caller, userId);
+
+  const { error: profileError } = await admin.from('users').delete().eq('id', target.id);
+  if (profileError) throw new HttpError(500, `Profile deletion failed: ${profileError.message}`);
+
+  const { error: authError } = await admin.auth.admin.deleteUser(target.id);
+  if (authError) {
+    return { id: target.id, partial: true, message: `Profile deleted but auth deletion failed: ${authError.message}` };
+  }
+
+  return { id: target.id, partial: false };
+};
+
+const resetPassword = async (admin: SupabaseClient, caller: Caller, userId: string, password: string) => {
+  requirePassword(password);
+  const target = await getManagedTarget(admin, caller, userId);
+
+  const { error } = await admin.auth.admin.updateUserById(target.id, { password });
+  if (error) throw new HttpError(400, `Password reset failed: ${error.message}`);
+
+  return { id: target.id };
+};
+
+const changeRole = async (admin: SupabaseClient, caller: Caller, userId: string, role: string) => {
+  const target = await getManagedTarget(admin, caller, userId);
+  if (!canManageRole(caller.role, role, caller.hierarchy)) throw new HttpError(403, `Your role cannot assign the ${role} role`);
+
+  const { error } = await admin
+    .from('users')
+    .update({ role, updated_at: new Date().toISOString() })
+    .eq('id', target.id);
+  if (error) throw new HttpError(500, `Database error: ${error.message}`);
+
+  const { error: metaError } = await admin.auth.admin.updateUserById(target.id, { app_metadata: { role } });
+  if (metaError) console.warn('⚠️ Could not sync role to auth metadata:', metaError.message);
+
+  return { id: target.id, role };
+};
+
+// Removes profile rows whose auth user no longer exists, limited to roles the caller manages
+const cleanupOrphans = async (admin: SupabaseClient, caller: Caller) => {
+  const manageable = getManageableRoles(caller.role, caller.hierarchy);
+  if (manageable.length === 0) throw new HttpError(403, 'Your role cannot manage users');
+
+  const { data: profiles, error } = await admin.from('users').select('id, email, role').in('role', manageable);
+  if (error) throw new HttpError(500, `Database error: ${error.message}`);
+
+  const authIds = new Set<string>();
+  for (let page = 1; ; page++) {
+    const { data, error: listError } = await admin.auth.admin.listUsers({ page, perPage: 1000 });
+    if (listError) throw new HttpError(500, `Failed to list auth users: ${listError.message}`);
+    data.users.forEach(user => authIds.add(user.id));
+    if (data.users.length < 1000) break;
+  }
+
+  const orphans = (profiles || []).filter(profile => !authIds.has(profile.id) && profile.id !== caller.id);
+  if (orphans.length > 0) {
+    const { error: deleteError } = await admin.from('users').delete().in('id', orphans.map(orphan => orphan.id));
+    if (deleteError) throw new HttpError(500, `Database error: ${deleteError.message}`);
+  }
+
+  return { removed: orphans.length };
+};
+
+Deno.serve(async (req: Request) => {
+  if (req.method === 'OPTIONS') return new Response('ok', { headers: corsHeaders });
+  if (req.method !== 'POST') return json({ error: 'Method not allowed' }, 405);
+
+  try {
+    const admin = createClient(Deno.env.get('SUPABASE_URL')!, Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!, {
+      auth: { autoRefreshToken: false, persistSession: false }
+    });
+
+    const caller = await getCaller(admin, req);
+    const body = (await req.json()) as AdminAction;
+    console.log(`🔐 admin-users ${body.action} requested by ${caller.email} (${caller.role})`);
+
+    await requirePermission(admin, caller, body.action === 'delete_user' ? 'delete_users' : 'manage_users');
+
+    switch (body.action) {
+      case 'create_user':
+        return json({ data: await createUser(admin, caller, body) });
+      case 'set_active':
+        return json({ data: await setActive(admin, caller, body.user_id, body.is_active) });
+      case 'delete_user':
+        return json({ data: await deleteUser(admin, caller, body.user_id) });
+      case 'reset_password':
+        return json({ data: await resetPassword(admin, caller, body.user_id, body.password) });
+      case 'change_role':
+        return json({ data: await changeRole(admin, caller, body.user_id, body.role) });
+      case 'cleanup_orphans':
+        return json({ data: await cleanupOrphans(admin, caller) });
+      default:
+        return json({ error: 'Unknown action' }, 400);
+    }
+  } catch (error) {
+    if (error instanceof HttpError) return json({ error: error.message }, error.status);
+    console.error('❌ admin-users failed:', error);
+    return json({ error: (error as Error).message || 'Internal error' }, 500);
+  }
+});
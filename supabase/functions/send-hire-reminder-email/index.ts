@@ -0,0 +1,122 @@
+// supabase/functions/send-hire-reminder-email/index.ts
+// Emails an overdue hire customer the reminder the watchlist has reached. The recipient and
+// contract details are read from the contract here, not taken from the request, and the
+// caller needs manage_equipment. Mail goes out through Resend (RESEND_API_KEY), from
+// HIRE_REMINDER_FROM_EMAIL.
+//
+// Run locally: supabase functions serve send-hire-reminder-email --env-file ./supabase/.env.local
+
+import { createClient, type SupabaseClient } from 'npm:@supabase/supabase-js@2';
+
+interface ReminderRequest {
+  contract_id: string;
+  subject: string;
+  days_overdue: number;
+  late_fee: number;
+}
+
+interface Contract {
+  id: string;
+  contract_number: string;
+  customer_name: string;
+  customer_email: string | null;
+  expected_return_date: string;
+  status: string;
+  equipment_hire: { name: string } | null;
+}
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS'
+};
+
+class HttpError extends Error {
+  constructor(readonly status: number, message: string) {
+    super(message);
+  }
+}
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), { status, headers: { ...corsHeaders, 'Content-Type': 'application/json' } });
+
+const requireEquipmentManager = async (admin: SupabaseClient, req: Request) => {
+  const token = req.headers.get('Authorization')?.replace(/^Bearer\s+/i, '');
+  if (!token) throw new HttpError(401, 'Missing authorization token');
+
+  const { data, error } = await admin.auth.getUser(token);
+  if (error || !data.user) throw new HttpError(401, 'Invalid or expired session');
+
+  const { data: allowed, error: permissionError } = await admin.rpc('user_has_permission', {
+    p_permission: 'manage_equipment',
+    p_user_id: data.user.id
+  });
+  if (permissionError) throw new HttpError(500, `Database error: ${permissionError.message}`);
+  if (!allowed) throw new HttpError(403, 'You need the manage_equipment permission to do this');
+};
+
+const loadContract = async (admin: SupabaseClient, contractId: string): Promise<Contract> => {
+  if (!contractId) throw new HttpError(400, 'contract_id is required');
+  const { data, error } = await admin
+    .from('equipment_hire_contracts')
+    .select('id, contract_number, customer_name, customer_email, expected_return_date, status, equipment_hire(name)')
+    .eq('id', contractId)
+    .maybeSingle();
+  if (error) throw new HttpError(500, `Database error: ${error.message}`);
+  if (!data) throw new HttpError(404, 'Contract not found');
+  if (data.status !== 'active') throw new HttpError(409, 'This contract has already been returned');
+  if (!data.customer_email) throw new HttpError(400, 'The customer has no email address');
+  return data as unknown as Contract;
+};
+
+const reminderText = (contract: Contract, body: ReminderRequest) => [
+  `Dear ${contract.customer_name},`,
+  '',
+  `${contract.equipment_hire?.name || 'The equipment'} on hire contract ${contract.contract_number} was due back on ` +
+    `${contract.expected_return_date} and is now ${body.days_overdue} day${body.days_overdue === 1 ? '' : 's'} overdue.`,
+  `Late fees so far come to $${Number(body.late_fee || 0).toFixed(2)} and keep adding up until it is returned.`,
+  '',
+  'Please return it as soon as you can, or reply to this email to arrange a collection.',
+  '',
+  'Game On Entertainment'
+].join('\n');
+
+const sendEmail = async (to: string, subject: string, text: string) => {
+  const apiKey = Deno.env.get('RESEND_API_KEY');
+  const from = Deno.env.get('HIRE_REMINDER_FROM_EMAIL');
+  if (!apiKey || !from) throw new HttpError(500, 'Email is not set up: RESEND_API_KEY and HIRE_REMINDER_FROM_EMAIL are needed');
+
+  const response = await fetch('https://api.resend.com/emails', {
+    method: 'POST',
+    headers: { Authorization: `Bearer ${apiKey}`, 'Content-Type': 'application/json' },
+    body: JSON.stringify({ from, to: [to], subject, text })
+  });
+  if (!response.ok) {
+    throw new HttpError(502, `Email provider rejected the message: ${await response.text()}`);
+  }
+  return (await response.json()) as { id: string };
+};
+
+Deno.serve(async (req: Request) => {
+  if (req.method === 'OPTIONS') return new Response('ok', { headers: corsHeaders });
+  if (req.method !== 'POST') return json({ error: 'Method not allowed' }, 405);
+
+  try {
+    const admin = createClient(Deno.env.get('SUPABASE_URL')!, Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!, {
+      auth: { autoRefreshToken: false, persistSession: false }
+    });
+
+    await requireEquipmentManager(admin, req);
+    const body = (await req.json()) as ReminderRequest;
+    const contract = await loadContract(admin, body.contract_id);
+    const subject = `${body.subject || 'Overdue hire reminder'}: ${contract.contract_number}`;
+    const sent = await sendEmail(contract.customer_email!, subject, reminderText(contract, body));
+
+    console.log(`📧 Hire reminder for ${contract.contract_number} sent to ${contract.customer_email}`);
+    return json({ data: { id: sent.id } });
+  } catch (error) {
+    if (error instanceof HttpError) return json({ error: error.message }, error.status);
+    console.error('❌ send-hire-reminder-email failed:', error);
+    return json({ error: (error as Error).message || 'Internal error' }, 500);
+  }
+});
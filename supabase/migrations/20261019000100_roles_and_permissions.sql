@@ -0,0 +1,205 @@
+-- Roles and permissions stored in the database instead of hard-coded in useAuth.
+-- hasPermission/canAccessView and the admin-users edge function read these tables,
+-- so a new role (e.g. venue partner, contractor) can be added without a redeploy.
+
+create table if not exists public.roles (
+  id uuid primary key default gen_random_uuid(),
+  key text not null unique check (key ~ '^[a-z][a-z0-9_]*$'),
+  name text not null,
+  description text,
+  -- Roles a holder of this role may create and manage (see src/lib/roleHierarchy.ts)
+  manages text[] not null default '{}',
+  is_system boolean not null default false,
+  created_at timestamptz not null default now()
+);
+
+create table if not exists public.permissions (
+  id uuid primary key default gen_random_uuid(),
+  key text not null unique,
+  description text,
+  category text not null default 'General',
+  created_at timestamptz not null default now()
+);
+
+create table if not exists public.role_permissions (
+  id uuid primary key default gen_random_uuid(),
+  role_key text not null references public.roles(key) on update cascade on delete cascade,
+  permission_key text not null references public.permissions(key) on update cascade on delete cascade,
+  created_at timestamptz not null default now(),
+  unique (role_key, permission_key)
+);
+
+-- Per-user grants (granted = true) or revocations (granted = false) on top of the role
+create table if not exists public.user_permission_overrides (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references public.users(id) on delete cascade,
+  permission_key text not null references public.permissions(key) on update cascade on delete cascade,
+  granted boolean not null,
+  created_at timestamptz not null default now(),
+  unique (user_id, permission_key)
+);
+
+-- A view is accessible with any one of its permissions; a null permission makes it public
+create table if not exists public.view_permissions (
+  id uuid primary key default gen_random_uuid(),
+  view_key text not null,
+  permission_key text references public.permissions(key) on update cascade on delete cascade,
+  created_at timestamptz not null default now()
+);
+
+create unique index if not exists view_permissions_view_permission_idx
+  on public.view_permissions (view_key, coalesce(permission_key, ''));
+
+-- Seed data mirrors the previous hard-coded maps in useAuth.tsx
+insert into public.roles (key, name, description, manages, is_system) values
+  ('super_admin', 'Super Admin', 'Complete system access', '{super_admin,admin,manager,technician,viewer}', true),
+  ('admin', 'Admin', 'Full operational access', '{manager,technician,viewer}', true),
+  ('manager', 'Manager', 'Operations management', '{manager,technician,viewer}', true),
+  ('technician', 'Technician', 'Field maintenance', '{}', true),
+  ('viewer', 'Viewer', 'Read-only access', '{}', true)
+on conflict (key) do nothing;
+
+insert into public.permissions (key, description, category) values
+  ('*', 'All permissions, including any added later', 'System'),
+  ('manage_roles', 'Edit roles, role permissions and user overrides', 'System'),
+  ('manage_settings', 'Change system settings and download code', 'System'),
+  ('view_users', 'View the user list', 'Users'),
+  ('manage_users', 'Create, edit and disable users', 'Users'),
+  ('delete_users', 'Delete users', 'Users'),
+  ('view_financial_reports', 'View financial reports', 'Reports'),
+  ('view_earnings', 'View earnings', 'Reports'),
+  ('edit_earnings', 'Edit earnings and paid status', 'Reports'),
+  ('edit_machine_reports', 'Submit and edit machine reports', 'Reports'),
+  ('view_analytics', 'View stock analytics', 'Reports'),
+  ('view_machines', 'View machines', 'Machines'),
+  ('manage_machines', 'Add, edit and delete machines', 'Machines'),
+  ('view_venues', 'View venues, runs and the map', 'Venues'),
+  ('manage_venues', 'Add, edit and delete venues', 'Venues'),
+  ('view_inventory', 'View prizes and inventory', 'Inventory'),
+  ('manage_prizes', 'Add, edit and delete prizes', 'Inventory'),
+  ('manage_stock', 'Manage parts and stock levels', 'Inventory'),
+  ('view_jobs', 'View jobs', 'Jobs'),
+  ('create_jobs', 'Create jobs', 'Jobs'),
+  ('manage_jobs', 'Edit, archive and delete jobs', 'Jobs'),
+  ('update_job_status', 'Update job status and progress', 'Jobs'),
+  ('view_equipment', 'View hire equipment', 'Equipment'),
+  ('manage_equipment', 'Manage hire equipment', 'Equipment'),
+  ('manage_email_notifications', 'Configure email notifications', 'System')
+on conflict (key) do nothing;
+
+insert into public.role_permissions (role_key, permission_key)
+select r.role_key, r.permission_key
+from (
+  values ('super_admin', '*')
+) as r(role_key, permission_key)
+union all
+select role_key, unnest(array[
+  'view_users', 'manage_users', 'delete_users',
+  'view_financial_reports', 'view_earnings', 'edit_earnings',
+  'manage_machines', 'view_machines', 'edit_machine_reports',
+  'manage_venues', 'view_venues', 'manage_prizes', 'view_inventory',
+  'manage_stock', 'manage_jobs', 'view_jobs', 'create_jobs',
+  'update_job_status', 'manage_settings', 'view_analytics',
+  'manage_email_notifications', 'manage_equipment', 'view_equipment'
+]) from (values ('admin'), ('manager')) as full_access(role_key)
+union all
+select 'technician', unnest(array[
+  'view_machines', 'edit_machine_reports', 'view_venues',
+  'view_inventory', 'view_jobs', 'create_jobs', 'update_job_status',
+  'view_equipment'
+])
+union all
+select 'viewer', unnest(array[
+  'view_machines', 'view_venues', 'view_inventory', 'view_jobs',
+  'view_equipment'
+])
+on conflict (role_key, permission_key) do nothing;
+
+insert into public.view_permissions (view_key, permission_key) values
+  ('dashboard', null),
+  ('users', 'view_users'),
+  ('reports', 'view_financial_reports'),
+  ('view-reports', 'view_financial_reports'),
+  ('view-reports', 'view_earnings'),
+  ('machines', 'view_machines'),
+  ('venues', 'view_venues'),
+  ('prizes', 'view_inventory'),
+  ('jobs', 'view_jobs'),
+  ('analytics', 'view_analytics'),
+  ('email-notifications', 'manage_email_notifications'),
+  ('map', 'view_venues'),
+  ('parts', 'manage_stock'),
+  ('equipment-hire', 'view_equipment'),
+  ('equipment-hire', 'manage_equipment'),
+  ('runs', 'view_venues'),
+  ('machine-moves', 'view_machines')
+on conflict do nothing;
+
+-- users.role used to be limited to the five built-in roles by a check constraint
+alter table public.users drop constraint if exists users_role_check;
+alter table public.users
+  add constraint users_role_fkey foreign key (role) references public.roles(key) on update cascade;
+
+-- Permission check for RLS policies: per-user override first, then the user's role
+create or replace function public.user_has_permission(p_permission text, p_user_id uuid default auth.uid())
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select coalesce(
+    (select o.granted from user_permission_overrides o
+      where o.user_id = p_user_id and o.permission_key = p_permission),
+    exists (
+      select 1
+      from users u
+      join role_permissions rp on rp.role_key = u.role
+      where u.id = p_user_id
+        and coalesce(u.is_active, true)
+        and rp.permission_key in (p_permission, '*')
+    )
+  );
+$$;
+
+alter table public.roles enable row level security;
+alter table public.permissions enable row level security;
+alter table public.role_permissions enable row level security;
+alter table public.user_permission_overrides enable row level security;
+alter table public.view_permissions enable row level security;
+
+create policy "Authenticated users can read roles" on public.roles
+  for select to authenticated using (true);
+create policy "Role managers can change roles" on public.roles
+  for all to authenticated
+  using (public.user_has_permission('manage_roles'))
+  with check (public.user_has_permission('manage_roles'));
+
+create policy "Authenticated users can read permissions" on public.permissions
+  for select to authenticated using (true);
+create policy "Role managers can change permissions" on public.permissions
+  for all to authenticated
+  using (public.user_has_permission('manage_roles'))
+  with check (public.user_has_permission('manage_roles'));
+
+create policy "Authenticated users can read role permissions" on public.role_permissions
+  for select to authenticated using (true);
+create policy "Role managers can change role permissions" on public.role_permissions
+  for all to authenticated
+  using (public.user_has_permission('manage_roles'))
+  with check (public.user_has_permission('manage_roles'));
+
+create policy "Users can read their own overrides" on public.user_permission_overrides
+  for select to authenticated
+  using (user_id = auth.uid() or public.user_has_permission('manage_roles'));
+create policy "Role managers can change overrides" on public.user_permission_overrides
+  for all to authenticated
+  using (public.user_has_permission('manage_roles'))
+  with check (public.user_has_permission('manage_roles'));
+
+create policy "Authenticated users can read view permissions" on public.view_permissions
+  for select to authenticated using (true);
+create policy "Role managers can change view permissions" on public.view_permissions
+  for all to authenticated
+  using (public.user_has_permission('manage_roles'))
+  with check (public.user_has_permission('manage_roles'));
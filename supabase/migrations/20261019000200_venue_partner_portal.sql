@@ -0,0 +1,163 @@
+-- Venue partner portal: a venue-scoped role whose users can only read their own venues'
+-- statements. Access is enforced by row-level security, not by the UI.
+
+alter table public.roles
+  add column if not exists venue_scoped boolean not null default false;
+
+comment on column public.roles.venue_scoped is
+  'Users with this role only see venues linked to them in venue_partner_links and cannot write anything';
+
+create table if not exists public.venue_partner_links (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references public.users(id) on delete cascade,
+  venue_id uuid not null references public.venues(id) on delete cascade,
+  created_at timestamptz not null default now(),
+  unique (user_id, venue_id)
+);
+
+create index if not exists venue_partner_links_venue_idx on public.venue_partner_links (venue_id);
+
+insert into public.roles (key, name, description, manages, is_system, venue_scoped) values
+  ('venue_partner', 'Venue Partner', 'Venue owner or contact with read-only access to their own statements', '{}', true, true)
+on conflict (key) do nothing;
+
+update public.roles
+set manages = array_append(manages, 'venue_partner')
+where key in ('super_admin', 'admin', 'manager')
+  and not ('venue_partner' = any(manages));
+
+insert into public.permissions (key, description, category) values
+  ('view_partner_portal', 'View own venue statements in the partner portal', 'Venues')
+on conflict (key) do nothing;
+
+insert into public.role_permissions (role_key, permission_key) values
+  ('venue_partner', 'view_partner_portal')
+on conflict (role_key, permission_key) do nothing;
+
+insert into public.view_permissions (view_key, permission_key) values
+  ('partner-portal', 'view_partner_portal')
+on conflict do nothing;
+
+create or replace function public.is_venue_scoped_user(p_user_id uuid default auth.uid())
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (
+    select 1
+    from users u
+    join roles r on r.key = u.role
+    where u.id = p_user_id and r.venue_scoped
+  );
+$$;
+
+create or replace function public.partner_venue_ids(p_user_id uuid default auth.uid())
+returns setof uuid
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select venue_id from venue_partner_links where user_id = p_user_id;
+$$;
+
+alter table public.venue_partner_links enable row level security;
+
+create policy "Users read their own venue links" on public.venue_partner_links
+  for select to authenticated
+  using (user_id = auth.uid() or public.user_has_permission('manage_users'));
+create policy "User managers change venue links" on public.venue_partner_links
+  for all to authenticated
+  using (public.user_has_permission('manage_users'))
+  with check (public.user_has_permission('manage_users'));
+
+-- Locks a table down for venue-scoped users: they may read rows matching partner_read and
+-- never write. Tables that had no RLS keep full access for everyone else. New tables that
+-- venue partners must not see should call this from their own migration.
+create or replace function public.restrict_venue_partners(p_table text, p_partner_read text default 'false')
+returns void
+language plpgsql
+as $$
+declare
+  rls_enabled boolean;
+begin
+  select c.relrowsecurity into rls_enabled
+  from pg_class c
+  join pg_namespace n on n.oid = c.relnamespace
+  where n.nspname = 'public' and c.relname = p_table;
+
+  if not rls_enabled then
+    execute format('alter table public.%I enable row level security', p_table);
+    execute format(
+      'create policy "Staff have full access" on public.%I for all to authenticated '
+      'using (not public.is_venue_scoped_user()) with check (not public.is_venue_scoped_user())',
+      p_table
+    );
+  end if;
+
+  execute format(
+    'create policy "Venue partners read only their own data" on public.%I as restrictive for select to authenticated '
+    'using (not public.is_venue_scoped_user() or (%s))',
+    p_table, p_partner_read
+  );
+  execute format(
+    'create policy "Venue partners cannot insert" on public.%I as restrictive for insert to authenticated '
+    'with check (not public.is_venue_scoped_user())',
+    p_table
+  );
+  execute format(
+    'create policy "Venue partners cannot update" on public.%I as restrictive for update to authenticated '
+    'using (not public.is_venue_scoped_user())',
+    p_table
+  );
+  execute format(
+    'create policy "Venue partners cannot delete" on public.%I as restrictive for delete to authenticated '
+    'using (not public.is_venue_scoped_user())',
+    p_table
+  );
+end;
+$$;
+
+do $$
+declare
+  t record;
+begin
+  for t in
+    select c.relname
+    from pg_class c
+    join pg_namespace n on n.oid = c.relnamespace
+    where n.nspname = 'public' and c.relkind = 'r'
+  loop
+    perform public.restrict_venue_partners(
+      t.relname,
+      case t.relname
+        when 'venue_reports' then 'venue_id in (select public.partner_venue_ids())'
+        when 'venues' then 'id in (select public.partner_venue_ids())'
+        when 'venue_partner_links' then 'user_id = auth.uid()'
+        when 'users' then 'id = auth.uid()'
+        when 'user_permission_overrides' then 'user_id = auth.uid()'
+        when 'roles' then 'true'
+        when 'permissions' then 'true'
+        when 'role_permissions' then 'true'
+        when 'view_permissions' then 'true'
+        else 'false'
+      end
+    );
+  end loop;
+end;
+$$;
+
+-- Permissive read policies so partners can see their rows even where existing policies are staff-only
+create policy "Venue partners read their venues' statements" on public.venue_reports
+  for select to authenticated
+  using (venue_id in (select public.partner_venue_ids()));
+
+create policy "Venue partners read their venues" on public.venues
+  for select to authenticated
+  using (id in (select public.partner_venue_ids()));
+
+create policy "Users read their own profile" on public.users
+  for select to authenticated
+  using (id = auth.uid());
@@ -0,0 +1,58 @@
+-- Commission payments ledger. Each row is money paid to a venue, optionally against a
+-- specific venue report; payments without a report are held on account and applied to the
+-- oldest outstanding commission. venue_reports.paid_status is kept in sync from here.
+
+create table if not exists public.commission_payments (
+  id uuid primary key default gen_random_uuid(),
+  venue_id uuid not null references public.venues(id) on delete cascade,
+  venue_report_id uuid references public.venue_reports(id) on delete set null,
+  amount numeric(12, 2) not null check (amount > 0),
+  paid_at date not null default current_date,
+  method text not null default 'bank_transfer'
+    check (method in ('bank_transfer', 'cash', 'cheque', 'direct_debit', 'other')),
+  reference text,
+  notes text,
+  recorded_by uuid default auth.uid() references public.users(id) on delete set null,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists commission_payments_venue_idx on public.commission_payments (venue_id, paid_at);
+create index if not exists commission_payments_report_idx on public.commission_payments (venue_report_id);
+
+create or replace function public.sync_venue_report_paid_status()
+returns trigger
+language plpgsql
+as $$
+declare
+  report_ids uuid[];
+begin
+  report_ids := array_remove(array[
+    case when tg_op <> 'INSERT' then old.venue_report_id end,
+    case when tg_op <> 'DELETE' then new.venue_report_id end
+  ], null);
+
+  update public.venue_reports vr
+  set paid_status = coalesce((
+    select sum(cp.amount) from public.commission_payments cp where cp.venue_report_id = vr.id
+  ), 0) >= vr.venue_commission_amount - 0.005
+  where vr.id = any(report_ids);
+
+  return null;
+end;
+$$;
+
+create trigger commission_payments_sync_paid_status
+  after insert or update or delete on public.commission_payments
+  for each row execute function public.sync_venue_report_paid_status();
+
+-- Reports already marked paid become a single payment so balances start from the truth
+insert into public.commission_payments (venue_id, venue_report_id, amount, paid_at, method, notes)
+select vr.venue_id, vr.id, vr.venue_commission_amount, vr.report_date::date, 'other', 'Marked paid before the payments ledger'
+from public.venue_reports vr
+where vr.paid_status and vr.venue_commission_amount > 0 and vr.venue_id is not null;
+
+select public.restrict_venue_partners('commission_payments', 'venue_id in (select public.partner_venue_ids())');
+
+create policy "Venue partners read their venues' payments" on public.commission_payments
+  for select to authenticated
+  using (venue_id in (select public.partner_venue_ids()));
@@ -0,0 +1,39 @@
+-- Payout target bands. A row applies either to every machine of a type (machine_type,
+-- matched case-insensitively against machines.type) or to one machine (machine_id), which
+-- wins over its type. Machines with neither fall back to the built-in 10–30% band in
+-- src/lib/payoutTargets.ts.
+
+create table if not exists public.payout_targets (
+  id uuid primary key default gen_random_uuid(),
+  machine_type text,
+  machine_id uuid references public.machines(id) on delete cascade,
+  min_percent numeric(5, 2) not null check (min_percent >= 0),
+  max_percent numeric(5, 2) not null check (max_percent <= 100),
+  notes text,
+  updated_at timestamptz not null default now(),
+  check (min_percent < max_percent),
+  check ((machine_type is null) <> (machine_id is null))
+);
+
+create unique index if not exists payout_targets_type_idx
+  on public.payout_targets (lower(trim(machine_type))) where machine_type is not null;
+create unique index if not exists payout_targets_machine_idx
+  on public.payout_targets (machine_id) where machine_id is not null;
+
+insert into public.payout_targets (machine_type, min_percent, max_percent, notes) values
+  ('Claw Machine', 10, 30, 'Previous fixed band'),
+  ('Prize Locker', 20, 40, 'Higher-value prizes, fewer wins'),
+  ('Pusher', 40, 70, 'Most plays return tickets or small prizes')
+on conflict do nothing;
+
+alter table public.payout_targets enable row level security;
+
+create policy "Signed-in users read payout targets" on public.payout_targets
+  for select to authenticated
+  using (true);
+create policy "Machine managers change payout targets" on public.payout_targets
+  for all to authenticated
+  using (public.user_has_permission('manage_machines'))
+  with check (public.user_has_permission('manage_machines'));
+
+select public.restrict_venue_partners('payout_targets');
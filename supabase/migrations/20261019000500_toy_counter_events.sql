@@ -0,0 +1,48 @@
+-- Toy counter events on machine reports. A report taken after the meter was reset, replaced
+-- or rolled over records the event (and the old meter's final reading for resets and
+-- replacements) so toys dispensed can be worked out instead of being clamped to zero.
+-- Readings that imply more toys than a machine can dispense are saved with no toys and
+-- counter_review_status = 'pending' until someone approves or rejects them.
+
+alter table public.machine_reports
+  add column if not exists counter_event text
+    check (counter_event in ('reset', 'replacement', 'rollover')),
+  add column if not exists counter_final_reading integer check (counter_final_reading >= 0),
+  add column if not exists counter_review_status text
+    check (counter_review_status in ('pending', 'approved', 'rejected')),
+  add column if not exists counter_review_reason text,
+  add column if not exists counter_reviewed_by uuid references public.users(id) on delete set null,
+  add column if not exists counter_reviewed_at timestamptz;
+
+alter table public.machine_reports
+  drop constraint if exists machine_reports_counter_final_reading_required;
+alter table public.machine_reports
+  add constraint machine_reports_counter_final_reading_required
+  check (counter_event is null or counter_event = 'rollover' or counter_final_reading is not null);
+
+create index if not exists machine_reports_counter_review_idx
+  on public.machine_reports (created_at)
+  where counter_review_status = 'pending';
+
+-- Only people who can edit earnings settle a flagged reading; record who did it
+create or replace function public.stamp_counter_review()
+returns trigger
+language plpgsql
+as $$
+begin
+  if new.counter_review_status is distinct from old.counter_review_status
+     and old.counter_review_status = 'pending' then
+    if not public.user_has_permission('edit_earnings') then
+      raise exception 'Reviewing toy counter readings requires the edit_earnings permission';
+    end if;
+    new.counter_reviewed_by := auth.uid();
+    new.counter_reviewed_at := now();
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists machine_reports_counter_review on public.machine_reports;
+create trigger machine_reports_counter_review
+  before update of counter_review_status on public.machine_reports
+  for each row execute function public.stamp_counter_review();
@@ -0,0 +1,101 @@
+-- Cash collection reconciliation. Each machine report's money_collected is compared with
+-- what the machine was expected to take (src/lib/cashReconciliation.ts). Reports outside
+-- the tolerance get a cash_reconciliations row that stays pending until someone with
+-- reconcile_cash approves it with a reason.
+
+create table if not exists public.cash_reconciliation_settings (
+  id uuid primary key default gen_random_uuid(),
+  -- Flag when collected cash is off by more than this percentage of expected...
+  tolerance_percent numeric(5, 2) not null default 25 check (tolerance_percent > 0),
+  -- ...and by more than this many dollars, so small machines do not flag on loose change
+  min_variance_amount numeric(10, 2) not null default 20 check (min_variance_amount >= 0),
+  token_price numeric(8, 2) not null default 0.83 check (token_price >= 0),
+  -- How far back to look for a machine's usual takings per day
+  history_days integer not null default 90 check (history_days > 0),
+  updated_at timestamptz not null default now()
+);
+
+-- One settings row for the whole business
+create unique index if not exists cash_reconciliation_settings_singleton
+  on public.cash_reconciliation_settings ((true));
+
+insert into public.cash_reconciliation_settings (tolerance_percent) values (25)
+on conflict do nothing;
+
+create table if not exists public.cash_reconciliations (
+  id uuid primary key default gen_random_uuid(),
+  machine_report_id uuid not null unique references public.machine_reports(id) on delete cascade,
+  machine_id uuid references public.machines(id) on delete set null,
+  collected_amount numeric(12, 2) not null,
+  expected_amount numeric(12, 2) not null,
+  variance_amount numeric(12, 2) not null,
+  variance_percent numeric(8, 2),
+  -- The estimates the expected amount was built from, for the reviewer
+  expected_basis jsonb not null default '{}'::jsonb,
+  status text not null default 'pending' check (status in ('pending', 'approved')),
+  resolution_reason text,
+  resolved_by uuid references public.users(id) on delete set null,
+  resolved_at timestamptz,
+  created_at timestamptz not null default now(),
+  check (status = 'pending' or length(trim(coalesce(resolution_reason, ''))) > 0)
+);
+
+create index if not exists cash_reconciliations_pending_idx
+  on public.cash_reconciliations (created_at)
+  where status = 'pending';
+
+insert into public.permissions (key, description, category) values
+  ('reconcile_cash', 'Approve cash collections that differ from expected takings', 'Reports')
+on conflict (key) do nothing;
+
+insert into public.role_permissions (role_key, permission_key) values
+  ('admin', 'reconcile_cash'),
+  ('manager', 'reconcile_cash')
+on conflict (role_key, permission_key) do nothing;
+
+create or replace function public.stamp_cash_reconciliation()
+returns trigger
+language plpgsql
+as $$
+begin
+  if new.status is distinct from old.status then
+    if not public.user_has_permission('reconcile_cash') then
+      raise exception 'Approving cash variances requires the reconcile_cash permission';
+    end if;
+    new.resolved_by := auth.uid();
+    new.resolved_at := now();
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists cash_reconciliations_stamp on public.cash_reconciliations;
+create trigger cash_reconciliations_stamp
+  before update on public.cash_reconciliations
+  for each row execute function public.stamp_cash_reconciliation();
+
+alter table public.cash_reconciliation_settings enable row level security;
+alter table public.cash_reconciliations enable row level security;
+
+create policy "Signed-in users read reconciliation settings" on public.cash_reconciliation_settings
+  for select to authenticated
+  using (true);
+create policy "Settings managers change reconciliation settings" on public.cash_reconciliation_settings
+  for update to authenticated
+  using (public.user_has_permission('manage_settings'))
+  with check (public.user_has_permission('manage_settings'));
+
+create policy "Signed-in users read cash reconciliations" on public.cash_reconciliations
+  for select to authenticated
+  using (true);
+-- Whoever submits a report files its variance; only reconcilers can settle it
+create policy "Report submitters file cash variances" on public.cash_reconciliations
+  for insert to authenticated
+  with check (status = 'pending');
+create policy "Reconcilers approve cash variances" on public.cash_reconciliations
+  for update to authenticated
+  using (public.user_has_permission('reconcile_cash'))
+  with check (public.user_has_permission('reconcile_cash'));
+
+select public.restrict_venue_partners('cash_reconciliation_settings');
+select public.restrict_venue_partners('cash_reconciliations');
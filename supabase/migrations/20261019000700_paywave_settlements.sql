@@ -0,0 +1,111 @@
+-- PayWave (card) settlements. Transactions are imported from the payment provider's CSV or
+-- OFX exports and tied to machines through machine_paywave_terminals.terminal_number.
+-- Transactions from terminals nobody has registered stay unmatched (machine_id null) and are
+-- matched automatically as soon as that terminal is added to a machine.
+
+create table if not exists public.paywave_settlement_imports (
+  id uuid primary key default gen_random_uuid(),
+  file_name text not null,
+  format text not null check (format in ('csv', 'ofx')),
+  transaction_count integer not null default 0,
+  duplicate_count integer not null default 0,
+  total_amount numeric(12, 2) not null default 0,
+  imported_by uuid default auth.uid() references public.users(id) on delete set null,
+  imported_at timestamptz not null default now()
+);
+
+create table if not exists public.paywave_transactions (
+  id uuid primary key default gen_random_uuid(),
+  import_id uuid references public.paywave_settlement_imports(id) on delete cascade,
+  terminal_number text not null,
+  -- Provider's transaction id; built from terminal, time and amount when the file has none
+  transaction_ref text not null,
+  transacted_at timestamptz not null,
+  settlement_date date,
+  -- Refunds and chargebacks are negative
+  amount numeric(12, 2) not null,
+  fee numeric(12, 2) not null default 0,
+  machine_id uuid references public.machines(id) on delete set null,
+  created_at timestamptz not null default now(),
+  unique (terminal_number, transaction_ref)
+);
+
+create index if not exists paywave_transactions_machine_idx
+  on public.paywave_transactions (machine_id, transacted_at);
+create index if not exists paywave_transactions_unmatched_idx
+  on public.paywave_transactions (terminal_number)
+  where machine_id is null;
+
+create or replace function public.normalise_terminal_number(p_terminal text)
+returns text
+language sql
+immutable
+as $$
+  select upper(regexp_replace(coalesce(p_terminal, ''), '[^A-Za-z0-9]', '', 'g'));
+$$;
+
+-- Match each imported transaction to the machine its terminal is registered to
+create or replace function public.match_paywave_transaction()
+returns trigger
+language plpgsql
+as $$
+begin
+  new.terminal_number := public.normalise_terminal_number(new.terminal_number);
+  if new.machine_id is null then
+    select t.machine_id into new.machine_id
+    from public.machine_paywave_terminals t
+    where public.normalise_terminal_number(t.terminal_number) = new.terminal_number
+    order by t.created_at desc
+    limit 1;
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists paywave_transactions_match on public.paywave_transactions;
+create trigger paywave_transactions_match
+  before insert on public.paywave_transactions
+  for each row execute function public.match_paywave_transaction();
+
+-- Registering a terminal picks up everything it took before it was registered
+create or replace function public.match_unmatched_paywave_transactions()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  update public.paywave_transactions
+  set machine_id = new.machine_id
+  where machine_id is null
+    and terminal_number = public.normalise_terminal_number(new.terminal_number);
+  return null;
+end;
+$$;
+
+drop trigger if exists machine_paywave_terminals_match on public.machine_paywave_terminals;
+create trigger machine_paywave_terminals_match
+  after insert or update of terminal_number on public.machine_paywave_terminals
+  for each row execute function public.match_unmatched_paywave_transactions();
+
+alter table public.paywave_settlement_imports enable row level security;
+alter table public.paywave_transactions enable row level security;
+
+create policy "Signed-in users read settlement imports" on public.paywave_settlement_imports
+  for select to authenticated
+  using (true);
+create policy "Earnings editors import settlements" on public.paywave_settlement_imports
+  for all to authenticated
+  using (public.user_has_permission('edit_earnings'))
+  with check (public.user_has_permission('edit_earnings'));
+
+create policy "Signed-in users read PayWave transactions" on public.paywave_transactions
+  for select to authenticated
+  using (true);
+create policy "Earnings editors manage PayWave transactions" on public.paywave_transactions
+  for all to authenticated
+  using (public.user_has_permission('edit_earnings'))
+  with check (public.user_has_permission('edit_earnings'));
+
+select public.restrict_venue_partners('paywave_settlement_imports');
+select public.restrict_venue_partners('paywave_transactions');
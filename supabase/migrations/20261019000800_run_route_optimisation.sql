@@ -0,0 +1,57 @@
+-- Route optimisation for runs. Each run starts (and ends) at a depot, leaving at its start
+-- time. Venues can only be serviced inside their service window; how long each stop takes
+-- is run_venues.estimated_time_minutes. The optimiser runs in the browser from venue
+-- coordinates, so the only server side piece is saving an accepted order in one go.
+
+alter table public.venues
+  add column if not exists service_window_start time,
+  add column if not exists service_window_end time;
+
+alter table public.venues
+  drop constraint if exists venues_service_window_check;
+alter table public.venues
+  add constraint venues_service_window_check
+  check (service_window_start is null or service_window_end is null or service_window_start < service_window_end);
+
+alter table public.runs
+  add column if not exists depot_name text,
+  add column if not exists depot_latitude double precision,
+  add column if not exists depot_longitude double precision,
+  add column if not exists start_time time not null default '08:00';
+
+-- Save a new visiting order. Only the run's owner or someone who manages venues may do it,
+-- and the venues given must be exactly the venues already on the run.
+create or replace function public.reorder_run_venues(p_run_id uuid, p_venue_ids uuid[])
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_owner uuid;
+begin
+  select assigned_to into v_owner from public.runs where id = p_run_id;
+  if not found then
+    raise exception 'Run not found';
+  end if;
+
+  if v_owner is distinct from auth.uid() and not public.user_has_permission('manage_venues') then
+    raise exception 'Only the run owner or a venue manager can change the visiting order';
+  end if;
+
+  if (select count(*) from public.run_venues where run_id = p_run_id) <> coalesce(array_length(p_venue_ids, 1), 0)
+     or exists (
+       select 1 from public.run_venues rv
+       where rv.run_id = p_run_id and not (rv.venue_id = any(p_venue_ids))
+     ) then
+    raise exception 'The new order must include every venue on the run exactly once';
+  end if;
+
+  update public.run_venues rv
+  set sequence_order = ordered.position
+  from unnest(p_venue_ids) with ordinality as ordered(venue_id, position)
+  where rv.run_id = p_run_id and rv.venue_id = ordered.venue_id;
+end;
+$$;
+
+grant execute on function public.reorder_run_venues(uuid, uuid[]) to authenticated;
@@ -0,0 +1,45 @@
+-- Run sheets: the checklist a technician works through on the day of a run. A sheet is
+-- generated once, when the run is started, from the run's venues, the run_tasks due on that
+-- run, the machines still to be collected and the open jobs at each venue. Items are ticked
+-- off as they are done; completing the sheet completes the run_schedules row.
+
+alter table public.run_schedules
+  add column if not exists started_at timestamptz,
+  add column if not exists started_by uuid references public.users(id) on delete set null,
+  add column if not exists completed_by uuid references public.users(id) on delete set null;
+
+create table if not exists public.run_sheet_items (
+  id uuid primary key default gen_random_uuid(),
+  run_schedule_id uuid not null references public.run_schedules(id) on delete cascade,
+  -- Identifies the item within its sheet (e.g. 'collection:<machine id>') so generating a
+  -- sheet twice does not duplicate it
+  item_key text not null,
+  kind text not null check (kind in ('visit', 'collection', 'task', 'job')),
+  sequence integer not null default 0,
+  venue_id uuid references public.venues(id) on delete set null,
+  machine_id uuid references public.machines(id) on delete set null,
+  run_task_id uuid references public.run_tasks(id) on delete set null,
+  job_id uuid references public.jobs(id) on delete set null,
+  label text not null,
+  completed_at timestamptz,
+  completed_by uuid references public.users(id) on delete set null,
+  machine_report_id uuid references public.machine_reports(id) on delete set null,
+  notes text,
+  created_at timestamptz not null default now(),
+  unique (run_schedule_id, item_key)
+);
+
+create index if not exists run_sheet_items_schedule_idx
+  on public.run_sheet_items (run_schedule_id, sequence);
+
+alter table public.run_sheet_items enable row level security;
+
+create policy "Signed-in users read run sheets" on public.run_sheet_items
+  for select to authenticated
+  using (true);
+create policy "Report editors work run sheets" on public.run_sheet_items
+  for all to authenticated
+  using (public.user_has_permission('edit_machine_reports'))
+  with check (public.user_has_permission('edit_machine_reports'));
+
+select public.restrict_venue_partners('run_sheet_items');
@@ -0,0 +1,30 @@
+-- Run recurrence. runs.frequency_details now holds the run's rule as
+-- {"rrule": "FREQ=WEEKLY;BYDAY=MO,TH", "starts_on": "2026-10-19", "holiday_rule": "skip"};
+-- runs.frequency stays as the preset name for display. Future run_schedules rows are
+-- generated from the rule in the app; completed and started schedules are never changed.
+--
+-- public_holidays lists the days a run's holiday_rule ('skip', 'next_day', 'previous_day')
+-- applies to.
+
+create table if not exists public.public_holidays (
+  id uuid primary key default gen_random_uuid(),
+  holiday_date date not null unique,
+  name text not null,
+  created_at timestamptz not null default now()
+);
+
+alter table public.public_holidays enable row level security;
+
+create policy "Signed-in users read public holidays" on public.public_holidays
+  for select to authenticated
+  using (true);
+create policy "Settings managers manage public holidays" on public.public_holidays
+  for all to authenticated
+  using (public.user_has_permission('manage_settings'))
+  with check (public.user_has_permission('manage_settings'));
+
+select public.restrict_venue_partners('public_holidays');
+
+-- Lets regeneration find a run's future schedules quickly
+create index if not exists run_schedules_run_date_idx
+  on public.run_schedules (run_id, scheduled_date);
@@ -0,0 +1,71 @@
+-- Preventive maintenance plans. A plan belongs to a machine type and repeats either every
+-- interval_days since the task was last done, or every interval_plays toys dispensed (summed
+-- from machine_reports) since then. The app's scheduler opens a job in public.jobs for each
+-- machine of the type when its plan comes due, and records it in maintenance_plan_jobs with
+-- the date it was due by so compliance (on time / late / overdue) can be worked out later.
+
+create table if not exists public.maintenance_plans (
+  id uuid primary key default gen_random_uuid(),
+  machine_type text not null,
+  title text not null,
+  description text,
+  trigger_type text not null check (trigger_type in ('days', 'plays')),
+  interval_days integer check (interval_days > 0),
+  interval_plays integer check (interval_plays > 0),
+  -- Days trigger: open the job this many days before it is due
+  lead_days integer not null default 0 check (lead_days >= 0),
+  -- Plays trigger: the job is due this many days after the counter passes the interval
+  grace_days integer not null default 7 check (grace_days >= 0),
+  priority text not null default 'medium' check (priority in ('low', 'medium', 'urgent')),
+  is_active boolean not null default true,
+  created_by uuid references public.users(id) on delete set null,
+  created_at timestamptz not null default now(),
+  check (
+    (trigger_type = 'days' and interval_days is not null)
+    or (trigger_type = 'plays' and interval_plays is not null)
+  )
+);
+
+create index if not exists maintenance_plans_type_idx
+  on public.maintenance_plans (machine_type);
+
+create table if not exists public.maintenance_plan_jobs (
+  id uuid primary key default gen_random_uuid(),
+  plan_id uuid not null references public.maintenance_plans(id) on delete cascade,
+  machine_id uuid not null references public.machines(id) on delete cascade,
+  -- Deleting the job deletes this row, so the scheduler opens a fresh one next time
+  job_id uuid references public.jobs(id) on delete cascade,
+  -- When the previous cycle ended (last completion, or when the plan or machine started).
+  -- Unique per plan and machine so two schedulers running at once open one job, not two.
+  cycle_start timestamptz not null,
+  due_date date not null,
+  -- Plays trigger: toys dispensed since cycle_start when the job was opened
+  plays_at_creation integer,
+  created_at timestamptz not null default now(),
+  unique (plan_id, machine_id, cycle_start)
+);
+
+create index if not exists maintenance_plan_jobs_machine_idx
+  on public.maintenance_plan_jobs (machine_id, plan_id);
+
+alter table public.maintenance_plans enable row level security;
+alter table public.maintenance_plan_jobs enable row level security;
+
+create policy "Signed-in users read maintenance plans" on public.maintenance_plans
+  for select to authenticated
+  using (true);
+create policy "Job managers manage maintenance plans" on public.maintenance_plans
+  for all to authenticated
+  using (public.user_has_permission('manage_jobs'))
+  with check (public.user_has_permission('manage_jobs'));
+
+create policy "Signed-in users read maintenance plan jobs" on public.maintenance_plan_jobs
+  for select to authenticated
+  using (true);
+create policy "Job creators record maintenance plan jobs" on public.maintenance_plan_jobs
+  for all to authenticated
+  using (public.user_has_permission('create_jobs'))
+  with check (public.user_has_permission('create_jobs'));
+
+select public.restrict_venue_partners('maintenance_plans');
+select public.restrict_venue_partners('maintenance_plan_jobs');
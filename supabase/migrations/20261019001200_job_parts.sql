@@ -0,0 +1,120 @@
+-- Parts used on jobs. Recording a part against a job takes it out of parts.stock_quantity,
+-- logs a stock_movements 'out' row with reference_type 'job', and adds its cost to
+-- jobs.parts_cost, all in one transaction. The unit cost is copied onto the job_parts row so
+-- later price changes don't rewrite what past maintenance cost. Removing a recorded part
+-- reverses all three.
+
+alter table public.jobs
+  add column if not exists parts_cost numeric(10,2) not null default 0;
+
+create table if not exists public.job_parts (
+  id uuid primary key default gen_random_uuid(),
+  job_id uuid not null references public.jobs(id) on delete cascade,
+  part_id uuid references public.parts(id) on delete set null,
+  -- Snapshot of the part so the record survives the part being deleted
+  part_name text not null,
+  quantity integer not null check (quantity > 0),
+  unit_cost numeric(10,2) not null default 0,
+  notes text,
+  created_by uuid references public.users(id) on delete set null,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists job_parts_job_idx on public.job_parts (job_id);
+
+alter table public.job_parts enable row level security;
+
+create policy "Signed-in users read job parts" on public.job_parts
+  for select to authenticated
+  using (true);
+-- Writes go through record_job_part / remove_job_part so stock and cost stay in step
+
+select public.restrict_venue_partners('job_parts');
+
+create or replace function public.record_job_part(p_job_id uuid, p_part_id uuid, p_quantity integer, p_notes text default null)
+returns public.job_parts
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_part public.parts%rowtype;
+  v_row public.job_parts;
+begin
+  if not public.user_has_permission('update_job_status') then
+    raise exception 'You do not have permission to record parts on jobs';
+  end if;
+
+  if p_quantity is null or p_quantity <= 0 then
+    raise exception 'Quantity must be at least 1';
+  end if;
+
+  if not exists (select 1 from public.jobs where id = p_job_id) then
+    raise exception 'Job not found';
+  end if;
+
+  -- Locked so two technicians can't both take the last one
+  select * into v_part from public.parts where id = p_part_id for update;
+  if not found then
+    raise exception 'Part not found';
+  end if;
+
+  if v_part.stock_quantity < p_quantity then
+    raise exception 'Only % of % in stock', v_part.stock_quantity, v_part.name;
+  end if;
+
+  update public.parts
+  set stock_quantity = stock_quantity - p_quantity
+  where id = p_part_id;
+
+  insert into public.job_parts (job_id, part_id, part_name, quantity, unit_cost, notes, created_by)
+  values (p_job_id, p_part_id, v_part.name, p_quantity, coalesce(v_part.cost_price, 0), p_notes, auth.uid())
+  returning * into v_row;
+
+  insert into public.stock_movements (item_type, item_id, movement_type, quantity, reference_type, reference_id, notes, created_by)
+  values ('part', p_part_id, 'out', p_quantity, 'job', p_job_id, coalesce(p_notes, 'Used on job'), auth.uid());
+
+  update public.jobs
+  set parts_cost = parts_cost + p_quantity * coalesce(v_part.cost_price, 0)
+  where id = p_job_id;
+
+  return v_row;
+end;
+$$;
+
+create or replace function public.remove_job_part(p_job_part_id uuid)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_row public.job_parts%rowtype;
+begin
+  if not public.user_has_permission('update_job_status') then
+    raise exception 'You do not have permission to change parts on jobs';
+  end if;
+
+  delete from public.job_parts where id = p_job_part_id returning * into v_row;
+  if not found then
+    raise exception 'Job part not found';
+  end if;
+
+  -- A part deleted since can't be restocked; the cost still comes off the job
+  if v_row.part_id is not null then
+    update public.parts
+    set stock_quantity = stock_quantity + v_row.quantity
+    where id = v_row.part_id;
+
+    insert into public.stock_movements (item_type, item_id, movement_type, quantity, reference_type, reference_id, notes, created_by)
+    values ('part', v_row.part_id, 'in', v_row.quantity, 'job', v_row.job_id, 'Returned from job', auth.uid());
+  end if;
+
+  update public.jobs
+  set parts_cost = greatest(parts_cost - v_row.quantity * v_row.unit_cost, 0)
+  where id = v_row.job_id;
+end;
+$$;
+
+grant execute on function public.record_job_part(uuid, uuid, integer, text) to authenticated;
+grant execute on function public.remove_job_part(uuid) to authenticated;
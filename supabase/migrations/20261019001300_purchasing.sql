@@ -0,0 +1,195 @@
+-- Purchasing. Suppliers carry contact details, a lead time and a price list of the prizes and
+-- parts they sell. Purchase orders go draft → ordered → partially_received / received (or
+-- cancelled). Receiving goods goes through receive_purchase_order, which adds to
+-- stock_quantity and logs a stock_movements 'in' row per line in one transaction.
+--
+-- Prizes and parts live in separate tables, so price list entries and order lines refer to
+-- them by (item_type, item_id) the same way stock_movements does.
+
+create table if not exists public.suppliers (
+  id uuid primary key default gen_random_uuid(),
+  name text not null,
+  contact_name text,
+  email text,
+  phone text,
+  address text,
+  lead_time_days integer not null default 7 check (lead_time_days >= 0),
+  notes text,
+  is_active boolean not null default true,
+  created_at timestamptz not null default now()
+);
+
+create table if not exists public.supplier_items (
+  id uuid primary key default gen_random_uuid(),
+  supplier_id uuid not null references public.suppliers(id) on delete cascade,
+  item_type text not null check (item_type in ('prize', 'part')),
+  item_id uuid not null,
+  supplier_sku text,
+  unit_cost numeric(10,2) not null default 0 check (unit_cost >= 0),
+  min_order_quantity integer not null default 1 check (min_order_quantity > 0),
+  created_at timestamptz not null default now(),
+  unique (supplier_id, item_type, item_id)
+);
+
+create sequence if not exists public.purchase_order_number_seq;
+
+create table if not exists public.purchase_orders (
+  id uuid primary key default gen_random_uuid(),
+  po_number text not null unique default 'PO-' || lpad(nextval('public.purchase_order_number_seq')::text, 5, '0'),
+  supplier_id uuid not null references public.suppliers(id) on delete restrict,
+  status text not null default 'draft'
+    check (status in ('draft', 'ordered', 'partially_received', 'received', 'cancelled')),
+  ordered_at timestamptz,
+  expected_date date,
+  received_at timestamptz,
+  notes text,
+  created_by uuid references public.users(id) on delete set null,
+  created_at timestamptz not null default now()
+);
+
+create table if not exists public.purchase_order_lines (
+  id uuid primary key default gen_random_uuid(),
+  purchase_order_id uuid not null references public.purchase_orders(id) on delete cascade,
+  item_type text not null check (item_type in ('prize', 'part')),
+  item_id uuid not null,
+  -- Snapshot so the order still reads right if the item is renamed or deleted
+  item_name text not null,
+  quantity_ordered integer not null check (quantity_ordered > 0),
+  quantity_received integer not null default 0 check (quantity_received >= 0),
+  unit_cost numeric(10,2) not null default 0 check (unit_cost >= 0),
+  created_at timestamptz not null default now(),
+  check (quantity_received <= quantity_ordered)
+);
+
+create index if not exists supplier_items_item_idx on public.supplier_items (item_type, item_id);
+create index if not exists purchase_orders_status_idx on public.purchase_orders (status);
+create index if not exists purchase_order_lines_order_idx on public.purchase_order_lines (purchase_order_id);
+
+alter table public.suppliers enable row level security;
+alter table public.supplier_items enable row level security;
+alter table public.purchase_orders enable row level security;
+alter table public.purchase_order_lines enable row level security;
+
+create policy "Signed-in users read suppliers" on public.suppliers
+  for select to authenticated
+  using (true);
+create policy "Stock managers manage suppliers" on public.suppliers
+  for all to authenticated
+  using (public.user_has_permission('manage_stock'))
+  with check (public.user_has_permission('manage_stock'));
+
+create policy "Signed-in users read supplier price lists" on public.supplier_items
+  for select to authenticated
+  using (true);
+create policy "Stock managers manage supplier price lists" on public.supplier_items
+  for all to authenticated
+  using (public.user_has_permission('manage_stock'))
+  with check (public.user_has_permission('manage_stock'));
+
+create policy "Signed-in users read purchase orders" on public.purchase_orders
+  for select to authenticated
+  using (true);
+create policy "Stock managers manage purchase orders" on public.purchase_orders
+  for all to authenticated
+  using (public.user_has_permission('manage_stock'))
+  with check (public.user_has_permission('manage_stock'));
+
+create policy "Signed-in users read purchase order lines" on public.purchase_order_lines
+  for select to authenticated
+  using (true);
+create policy "Stock managers manage purchase order lines" on public.purchase_order_lines
+  for all to authenticated
+  using (public.user_has_permission('manage_stock'))
+  with check (public.user_has_permission('manage_stock'));
+
+select public.restrict_venue_partners('suppliers');
+select public.restrict_venue_partners('supplier_items');
+select public.restrict_venue_partners('purchase_orders');
+select public.restrict_venue_partners('purchase_order_lines');
+
+insert into public.view_permissions (view_key, permission_key) values
+  ('purchasing', 'manage_stock')
+on conflict do nothing;
+
+-- p_lines: [{"line_id": "...", "quantity": 5}, ...]. Each quantity is added to what the line
+-- has already received and may not take it past what was ordered.
+create or replace function public.receive_purchase_order(p_order_id uuid, p_lines jsonb)
+returns public.purchase_orders
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_order public.purchase_orders%rowtype;
+  v_entry jsonb;
+  v_line public.purchase_order_lines%rowtype;
+  v_quantity integer;
+  v_received integer := 0;
+begin
+  if not public.user_has_permission('manage_stock') then
+    raise exception 'You do not have permission to receive stock';
+  end if;
+
+  select * into v_order from public.purchase_orders where id = p_order_id for update;
+  if not found then
+    raise exception 'Purchase order not found';
+  end if;
+  if v_order.status not in ('ordered', 'partially_received') then
+    raise exception 'Only ordered purchase orders can be received (% is %)', v_order.po_number, v_order.status;
+  end if;
+
+  for v_entry in select * from jsonb_array_elements(coalesce(p_lines, '[]'::jsonb)) loop
+    v_quantity := (v_entry->>'quantity')::integer;
+    continue when v_quantity is null or v_quantity = 0;
+    if v_quantity < 0 then
+      raise exception 'Received quantities must be positive';
+    end if;
+
+    select * into v_line from public.purchase_order_lines
+    where id = (v_entry->>'line_id')::uuid and purchase_order_id = p_order_id
+    for update;
+    if not found then
+      raise exception 'Line is not on this purchase order';
+    end if;
+    if v_line.quantity_received + v_quantity > v_line.quantity_ordered then
+      raise exception 'Only % more of % are due on %',
+        v_line.quantity_ordered - v_line.quantity_received, v_line.item_name, v_order.po_number;
+    end if;
+
+    update public.purchase_order_lines
+    set quantity_received = quantity_received + v_quantity
+    where id = v_line.id;
+    v_received := v_received + v_quantity;
+
+    if v_line.item_type = 'prize' then
+      update public.prizes set stock_quantity = coalesce(stock_quantity, 0) + v_quantity where id = v_line.item_id;
+    else
+      update public.parts set stock_quantity = coalesce(stock_quantity, 0) + v_quantity where id = v_line.item_id;
+    end if;
+
+    insert into public.stock_movements (item_type, item_id, movement_type, quantity, reference_type, reference_id, notes, created_by)
+    values (v_line.item_type, v_line.item_id, 'in', v_quantity, 'purchase_order', p_order_id,
+            'Received on ' || v_order.po_number, auth.uid());
+  end loop;
+
+  if v_received = 0 then
+    raise exception 'Enter how many arrived for at least one line';
+  end if;
+
+  update public.purchase_orders
+  set status = case
+        when not exists (
+          select 1 from public.purchase_order_lines
+          where purchase_order_id = p_order_id and quantity_received < quantity_ordered
+        ) then 'received'
+        else 'partially_received'
+      end,
+      received_at = now()
+  where id = p_order_id
+  returning * into v_order;
+
+  return v_order;
+end;
+$$;
+
+grant execute on function public.receive_purchase_order(uuid, jsonb) to authenticated;
@@ -0,0 +1,333 @@
+-- Stock locations. Prizes sit in warehouses and in technicians' vans before they go into
+-- machines. location_stock holds how many of each prize every location has, except for the
+-- primary warehouse: its share is whatever prizes.stock_quantity has left once every other
+-- location is counted. That keeps prizes.stock_quantity the total held in stock (so
+-- purchasing, manual adjustments and reorder suggestions carry on unchanged) and means
+-- anything received or adjusted without naming a location lands in the primary warehouse.
+--
+-- Moving prizes between locations, loading a machine and counting a van all go through the
+-- functions below, which lock the prize row and log stock_movements with from/to locations.
+
+create table if not exists public.stock_locations (
+  id uuid primary key default gen_random_uuid(),
+  name text not null,
+  kind text not null default 'warehouse' check (kind in ('warehouse', 'vehicle')),
+  assigned_to uuid references public.users(id) on delete set null,
+  is_primary boolean not null default false,
+  is_active boolean not null default true,
+  notes text,
+  created_at timestamptz not null default now(),
+  check (not is_primary or kind = 'warehouse')
+);
+
+create unique index if not exists stock_locations_one_primary_idx
+  on public.stock_locations (is_primary) where is_primary;
+create index if not exists stock_locations_assigned_idx on public.stock_locations (assigned_to);
+
+create table if not exists public.location_stock (
+  id uuid primary key default gen_random_uuid(),
+  location_id uuid not null references public.stock_locations(id) on delete cascade,
+  prize_id uuid not null references public.prizes(id) on delete cascade,
+  quantity integer not null default 0 check (quantity >= 0),
+  updated_at timestamptz not null default now(),
+  unique (location_id, prize_id)
+);
+
+create index if not exists location_stock_prize_idx on public.location_stock (prize_id);
+
+alter table public.stock_movements
+  add column if not exists from_location_id uuid references public.stock_locations(id) on delete set null,
+  add column if not exists to_location_id uuid references public.stock_locations(id) on delete set null;
+
+-- Transfers move stock without changing the total, so they get their own movement type and
+-- stay out of usage figures built from 'out' rows
+alter table public.stock_movements drop constraint if exists stock_movements_movement_type_check;
+alter table public.stock_movements
+  add constraint stock_movements_movement_type_check
+  check (movement_type in ('in', 'out', 'adjustment', 'transfer'));
+
+alter table public.stock_locations enable row level security;
+alter table public.location_stock enable row level security;
+
+create policy "Signed-in users read stock locations" on public.stock_locations
+  for select to authenticated
+  using (true);
+create policy "Stock managers manage stock locations" on public.stock_locations
+  for all to authenticated
+  using (public.user_has_permission('manage_stock'))
+  with check (public.user_has_permission('manage_stock'));
+
+create policy "Signed-in users read location stock" on public.location_stock
+  for select to authenticated
+  using (true);
+create policy "Stock managers manage location stock" on public.location_stock
+  for all to authenticated
+  using (public.user_has_permission('manage_stock'))
+  with check (public.user_has_permission('manage_stock'));
+
+select public.restrict_venue_partners('stock_locations');
+select public.restrict_venue_partners('location_stock');
+
+insert into public.stock_locations (name, kind, is_primary)
+select 'Main Warehouse', 'warehouse', true
+where not exists (select 1 from public.stock_locations where is_primary);
+
+insert into public.view_permissions (view_key, permission_key) values
+  ('stock_locations', 'view_inventory')
+on conflict do nothing;
+
+-- How many of a prize a location holds; for the primary warehouse that's the remainder
+create or replace function public.stock_location_quantity(p_location_id uuid, p_prize_id uuid)
+returns integer
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select case
+    when l.is_primary then
+      coalesce((select stock_quantity from public.prizes where id = p_prize_id), 0)
+      - coalesce((
+          select sum(ls.quantity)::integer
+          from public.location_stock ls
+          join public.stock_locations other on other.id = ls.location_id
+          where ls.prize_id = p_prize_id and not other.is_primary
+        ), 0)
+    else
+      coalesce((select quantity from public.location_stock where location_id = l.id and prize_id = p_prize_id), 0)
+  end
+  from public.stock_locations l
+  where l.id = p_location_id;
+$$;
+
+-- Stock managers can use any location, technicians their own van, and anyone who fills
+-- machines can draw from a warehouse as they always could
+create or replace function public.can_draw_from_stock_location(p_location public.stock_locations)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select public.user_has_permission('manage_stock')
+    or coalesce(p_location.assigned_to = auth.uid(), false)
+    or (p_location.kind = 'warehouse' and public.user_has_permission('edit_machine_reports'));
+$$;
+
+-- Adds p_delta to a non-primary location's row; the primary warehouse needs no row
+create or replace function public.shift_location_stock(p_location public.stock_locations, p_prize_id uuid, p_delta integer)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if p_location.is_primary or p_delta = 0 then
+    return;
+  end if;
+
+  insert into public.location_stock (location_id, prize_id, quantity)
+  values (p_location.id, p_prize_id, p_delta)
+  on conflict (location_id, prize_id)
+  do update set quantity = public.location_stock.quantity + excluded.quantity, updated_at = now();
+end;
+$$;
+
+-- The van assigned to whoever is signed in, if any
+create or replace function public.my_vehicle_location()
+returns public.stock_locations
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select *
+  from public.stock_locations
+  where kind = 'vehicle' and is_active and assigned_to = auth.uid()
+  order by name
+  limit 1;
+$$;
+
+create or replace function public.transfer_stock(
+  p_from_location_id uuid,
+  p_to_location_id uuid,
+  p_prize_id uuid,
+  p_quantity integer,
+  p_notes text default null
+)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_from public.stock_locations%rowtype;
+  v_to public.stock_locations%rowtype;
+  v_prize public.prizes%rowtype;
+  v_available integer;
+begin
+  if p_quantity is null or p_quantity <= 0 then
+    raise exception 'Quantity must be at least 1';
+  end if;
+  if p_from_location_id = p_to_location_id then
+    raise exception 'Choose two different locations';
+  end if;
+
+  select * into v_from from public.stock_locations where id = p_from_location_id;
+  select * into v_to from public.stock_locations where id = p_to_location_id;
+  if v_from.id is null or v_to.id is null then
+    raise exception 'Stock location not found';
+  end if;
+  if not v_to.is_active then
+    raise exception '% is no longer in use', v_to.name;
+  end if;
+  if not public.can_draw_from_stock_location(v_from)
+    or not (public.user_has_permission('manage_stock') or coalesce(v_to.assigned_to = auth.uid(), false) or v_to.kind = 'warehouse') then
+    raise exception 'You do not have permission to move stock between these locations';
+  end if;
+
+  -- Locked so two transfers can't both take the last one
+  select * into v_prize from public.prizes where id = p_prize_id for update;
+  if not found then
+    raise exception 'Prize not found';
+  end if;
+
+  v_available := public.stock_location_quantity(v_from.id, p_prize_id);
+  if v_available < p_quantity then
+    raise exception 'Only % of % at %', greatest(v_available, 0), v_prize.name, v_from.name;
+  end if;
+
+  perform public.shift_location_stock(v_from, p_prize_id, -p_quantity);
+  perform public.shift_location_stock(v_to, p_prize_id, p_quantity);
+
+  insert into public.stock_movements (item_type, item_id, movement_type, quantity, reference_type, reference_id,
+                                      notes, created_by, from_location_id, to_location_id)
+  values ('prize', p_prize_id, 'transfer', p_quantity, 'transfer', null,
+          coalesce(p_notes, 'Moved from ' || v_from.name || ' to ' || v_to.name), auth.uid(), v_from.id, v_to.id);
+end;
+$$;
+
+-- Loading a machine takes the prizes out of stock altogether, same as before, but from a
+-- named location
+create or replace function public.issue_stock_to_machine(
+  p_location_id uuid,
+  p_machine_id uuid,
+  p_prize_id uuid,
+  p_quantity integer,
+  p_notes text default null
+)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_location public.stock_locations%rowtype;
+  v_prize public.prizes%rowtype;
+  v_available integer;
+begin
+  if p_quantity is null or p_quantity <= 0 then
+    raise exception 'Quantity must be at least 1';
+  end if;
+
+  select * into v_location from public.stock_locations where id = p_location_id;
+  if not found then
+    raise exception 'Stock location not found';
+  end if;
+  if not public.can_draw_from_stock_location(v_location) then
+    raise exception 'You do not have permission to take stock from %', v_location.name;
+  end if;
+  if not exists (select 1 from public.machines where id = p_machine_id) then
+    raise exception 'Machine not found';
+  end if;
+
+  select * into v_prize from public.prizes where id = p_prize_id for update;
+  if not found then
+    raise exception 'Prize not found';
+  end if;
+
+  v_available := public.stock_location_quantity(v_location.id, p_prize_id);
+  if v_available < p_quantity then
+    raise exception 'Only % of % at %', greatest(v_available, 0), v_prize.name, v_location.name;
+  end if;
+
+  perform public.shift_location_stock(v_location, p_prize_id, -p_quantity);
+  update public.prizes set stock_quantity = stock_quantity - p_quantity where id = p_prize_id;
+
+  insert into public.machine_stock (machine_id, prize_id, quantity, notes)
+  values (p_machine_id, p_prize_id, p_quantity, p_notes);
+
+  insert into public.stock_movements (item_type, item_id, movement_type, quantity, reference_type, reference_id,
+                                      notes, created_by, from_location_id)
+  values ('prize', p_prize_id, 'out', p_quantity, 'machine_stock', p_machine_id,
+          coalesce(p_notes, 'Added ' || p_quantity || ' prizes to machine from ' || v_location.name), auth.uid(), v_location.id);
+end;
+$$;
+
+-- p_counts: [{"prize_id": "...", "counted": 12}, ...]. Each count replaces what the location
+-- was expected to hold; the difference goes on (or comes off) the prize's total and is logged.
+-- Returns how many prizes were out.
+create or replace function public.count_location_stock(p_location_id uuid, p_counts jsonb)
+returns integer
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_location public.stock_locations%rowtype;
+  v_entry jsonb;
+  v_prize public.prizes%rowtype;
+  v_counted integer;
+  v_expected integer;
+  v_difference integer;
+  v_changed integer := 0;
+begin
+  select * into v_location from public.stock_locations where id = p_location_id;
+  if not found then
+    raise exception 'Stock location not found';
+  end if;
+  if not (public.user_has_permission('manage_stock') or coalesce(v_location.assigned_to = auth.uid(), false)) then
+    raise exception 'You do not have permission to count %', v_location.name;
+  end if;
+
+  for v_entry in select * from jsonb_array_elements(coalesce(p_counts, '[]'::jsonb)) loop
+    v_counted := (v_entry->>'counted')::integer;
+    continue when v_counted is null;
+    if v_counted < 0 then
+      raise exception 'Counts can''t be negative';
+    end if;
+
+    select * into v_prize from public.prizes where id = (v_entry->>'prize_id')::uuid for update;
+    if not found then
+      raise exception 'Prize not found';
+    end if;
+
+    v_expected := public.stock_location_quantity(v_location.id, v_prize.id);
+    v_difference := v_counted - v_expected;
+    continue when v_difference = 0;
+
+    perform public.shift_location_stock(v_location, v_prize.id, v_difference);
+    update public.prizes set stock_quantity = coalesce(stock_quantity, 0) + v_difference where id = v_prize.id;
+
+    insert into public.stock_movements (item_type, item_id, movement_type, quantity, reference_type, reference_id,
+                                        notes, created_by, from_location_id, to_location_id)
+    values ('prize', v_prize.id, case when v_difference > 0 then 'in' else 'out' end, abs(v_difference),
+            'location_count', v_location.id,
+            v_location.name || ' count: expected ' || v_expected || ', counted ' || v_counted, auth.uid(),
+            case when v_difference < 0 then v_location.id end,
+            case when v_difference > 0 then v_location.id end);
+    v_changed := v_changed + 1;
+  end loop;
+
+  return v_changed;
+end;
+$$;
+
+-- Only reachable through the functions above
+revoke execute on function public.shift_location_stock(public.stock_locations, uuid, integer) from public;
+
+grant execute on function public.stock_location_quantity(uuid, uuid) to authenticated;
+grant execute on function public.my_vehicle_location() to authenticated;
+grant execute on function public.transfer_stock(uuid, uuid, uuid, integer, text) to authenticated;
+grant execute on function public.issue_stock_to_machine(uuid, uuid, uuid, integer, text) to authenticated;
+grant execute on function public.count_location_stock(uuid, jsonb) to authenticated;
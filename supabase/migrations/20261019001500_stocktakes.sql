@@ -0,0 +1,226 @@
+-- Stocktakes. Starting one freezes the expected quantity of every prize and/or part in scope
+-- onto stocktake_lines; staff then record what they count, by scanning barcodes or typing. On
+-- approval each variance is posted to stock as an 'adjustment' stock_movements row (quantity
+-- signed, + for found and - for missing) carrying the reason code given for it.
+--
+-- Prizes are counted in the main warehouse: their expected quantity is the primary location's
+-- share (see stock_locations), and vans are counted with the van stocktake instead. Parts only
+-- have the one stock figure.
+--
+-- Variances are applied as differences, so stock moving in or out while a count is under way
+-- is kept rather than overwritten by the count.
+--
+-- Cycle count schedules start a partial stocktake (one item type and/or prize category) every
+-- interval_days; approving the stocktake moves the schedule's next_due_date on.
+
+alter table public.stock_movements
+  add column if not exists reason_code text;
+
+create table if not exists public.cycle_count_schedules (
+  id uuid primary key default gen_random_uuid(),
+  name text not null,
+  item_type text check (item_type in ('prize', 'part')),
+  category text,
+  interval_days integer not null default 30 check (interval_days > 0),
+  next_due_date date not null default current_date,
+  is_active boolean not null default true,
+  created_by uuid references public.users(id) on delete set null,
+  created_at timestamptz not null default now()
+);
+
+create table if not exists public.stocktakes (
+  id uuid primary key default gen_random_uuid(),
+  title text not null,
+  -- null item_type means prizes and parts; category narrows prizes
+  item_type text check (item_type in ('prize', 'part')),
+  category text,
+  schedule_id uuid references public.cycle_count_schedules(id) on delete set null,
+  status text not null default 'counting' check (status in ('counting', 'approved', 'cancelled')),
+  notes text,
+  created_by uuid references public.users(id) on delete set null,
+  approved_by uuid references public.users(id) on delete set null,
+  approved_at timestamptz,
+  created_at timestamptz not null default now()
+);
+
+create table if not exists public.stocktake_lines (
+  id uuid primary key default gen_random_uuid(),
+  stocktake_id uuid not null references public.stocktakes(id) on delete cascade,
+  item_type text not null check (item_type in ('prize', 'part')),
+  item_id uuid not null,
+  -- Snapshots, so the sheet reads the same however the item changes afterwards
+  item_name text not null,
+  barcode text,
+  unit_cost numeric(10,2) not null default 0,
+  expected_quantity integer not null,
+  counted_quantity integer check (counted_quantity >= 0),
+  reason_code text check (reason_code in ('damaged', 'lost', 'theft', 'miscount', 'found', 'supplier_error', 'other')),
+  notes text,
+  counted_by uuid references public.users(id) on delete set null,
+  counted_at timestamptz,
+  unique (stocktake_id, item_type, item_id)
+);
+
+create index if not exists stocktakes_status_idx on public.stocktakes (status);
+create index if not exists stocktake_lines_stocktake_idx on public.stocktake_lines (stocktake_id);
+
+alter table public.cycle_count_schedules enable row level security;
+alter table public.stocktakes enable row level security;
+alter table public.stocktake_lines enable row level security;
+
+create policy "Signed-in users read cycle count schedules" on public.cycle_count_schedules
+  for select to authenticated
+  using (true);
+create policy "Stock managers manage cycle count schedules" on public.cycle_count_schedules
+  for all to authenticated
+  using (public.user_has_permission('manage_stock'))
+  with check (public.user_has_permission('manage_stock'));
+
+create policy "Signed-in users read stocktakes" on public.stocktakes
+  for select to authenticated
+  using (true);
+create policy "Stock managers manage stocktakes" on public.stocktakes
+  for all to authenticated
+  using (public.user_has_permission('manage_stock'))
+  with check (public.user_has_permission('manage_stock'));
+
+create policy "Signed-in users read stocktake lines" on public.stocktake_lines
+  for select to authenticated
+  using (true);
+create policy "Stock managers manage stocktake lines" on public.stocktake_lines
+  for all to authenticated
+  using (public.user_has_permission('manage_stock'))
+  with check (public.user_has_permission('manage_stock'));
+
+select public.restrict_venue_partners('cycle_count_schedules');
+select public.restrict_venue_partners('stocktakes');
+select public.restrict_venue_partners('stocktake_lines');
+
+insert into public.view_permissions (view_key, permission_key) values
+  ('stocktake', 'manage_stock')
+on conflict do nothing;
+
+create or replace function public.start_stocktake(
+  p_title text,
+  p_item_type text default null,
+  p_category text default null,
+  p_schedule_id uuid default null
+)
+returns public.stocktakes
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_stocktake public.stocktakes;
+  v_primary uuid;
+begin
+  if not public.user_has_permission('manage_stock') then
+    raise exception 'You do not have permission to start a stocktake';
+  end if;
+
+  if exists (select 1 from public.stocktakes where status = 'counting' and schedule_id = p_schedule_id) then
+    raise exception 'This cycle count is already under way';
+  end if;
+
+  insert into public.stocktakes (title, item_type, category, schedule_id, created_by)
+  values (coalesce(nullif(trim(p_title), ''), 'Stocktake'), p_item_type, nullif(trim(p_category), ''), p_schedule_id, auth.uid())
+  returning * into v_stocktake;
+
+  select id into v_primary from public.stock_locations where is_primary;
+
+  if p_item_type is null or p_item_type = 'prize' then
+    insert into public.stocktake_lines (stocktake_id, item_type, item_id, item_name, barcode, unit_cost, expected_quantity)
+    select v_stocktake.id, 'prize', p.id, p.name, p.barcode, coalesce(p.cost, 0),
+           case when v_primary is null then coalesce(p.stock_quantity, 0)
+                else public.stock_location_quantity(v_primary, p.id) end
+    from public.prizes p
+    where v_stocktake.category is null or p.category = v_stocktake.category;
+  end if;
+
+  -- Parts have no category, so a category-only count is prizes only
+  if p_item_type = 'part' or (p_item_type is null and v_stocktake.category is null) then
+    insert into public.stocktake_lines (stocktake_id, item_type, item_id, item_name, barcode, unit_cost, expected_quantity)
+    select v_stocktake.id, 'part', p.id, p.name, p.barcode, coalesce(p.cost_price, 0), coalesce(p.stock_quantity, 0)
+    from public.parts p;
+  end if;
+
+  return v_stocktake;
+end;
+$$;
+
+create or replace function public.approve_stocktake(p_stocktake_id uuid)
+returns integer
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_stocktake public.stocktakes%rowtype;
+  v_line public.stocktake_lines%rowtype;
+  v_difference integer;
+  v_posted integer := 0;
+begin
+  if not public.user_has_permission('manage_stock') then
+    raise exception 'You do not have permission to approve stocktakes';
+  end if;
+
+  select * into v_stocktake from public.stocktakes where id = p_stocktake_id for update;
+  if not found then
+    raise exception 'Stocktake not found';
+  end if;
+  if v_stocktake.status <> 'counting' then
+    raise exception '% is already %', v_stocktake.title, v_stocktake.status;
+  end if;
+
+  if exists (
+    select 1 from public.stocktake_lines
+    where stocktake_id = p_stocktake_id
+      and counted_quantity is not null
+      and counted_quantity <> expected_quantity
+      and reason_code is null
+  ) then
+    raise exception 'Every variance needs a reason before the stocktake can be approved';
+  end if;
+
+  for v_line in
+    select * from public.stocktake_lines
+    where stocktake_id = p_stocktake_id
+      and counted_quantity is not null
+      and counted_quantity <> expected_quantity
+  loop
+    v_difference := v_line.counted_quantity - v_line.expected_quantity;
+
+    if v_line.item_type = 'prize' then
+      update public.prizes set stock_quantity = coalesce(stock_quantity, 0) + v_difference where id = v_line.item_id;
+    else
+      update public.parts set stock_quantity = coalesce(stock_quantity, 0) + v_difference where id = v_line.item_id;
+    end if;
+    -- The item may have been deleted since the count started
+    continue when not found;
+
+    insert into public.stock_movements (item_type, item_id, movement_type, quantity, reference_type, reference_id,
+                                        notes, reason_code, created_by)
+    values (v_line.item_type, v_line.item_id, 'adjustment', v_difference, 'stocktake', p_stocktake_id,
+            v_stocktake.title || ': expected ' || v_line.expected_quantity || ', counted ' || v_line.counted_quantity
+              || coalesce(' · ' || v_line.notes, ''),
+            v_line.reason_code, auth.uid());
+    v_posted := v_posted + 1;
+  end loop;
+
+  update public.stocktakes
+  set status = 'approved', approved_by = auth.uid(), approved_at = now()
+  where id = p_stocktake_id;
+
+  if v_stocktake.schedule_id is not null then
+    update public.cycle_count_schedules
+    set next_due_date = current_date + interval_days
+    where id = v_stocktake.schedule_id;
+  end if;
+
+  return v_posted;
+end;
+$$;
+
+grant execute on function public.start_stocktake(text, text, text, uuid) to authenticated;
+grant execute on function public.approve_stocktake(uuid) to authenticated;
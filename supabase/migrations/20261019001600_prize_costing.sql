@@ -0,0 +1,411 @@
+-- Prize costing. prizes.cost stays the one figure the app shows as "the" cost, but every change
+-- to it is now kept in prize_cost_history with when it took effect and what caused it, so a
+-- report can be valued at the cost in force when it was taken.
+--
+-- Costs are weighted averages. Receiving a purchase order blends the line's unit cost into the
+-- main warehouse's cost (prizes.cost) by quantity on hand; vans keep their own average on
+-- location_stock.average_cost, blended in as stock is transferred to them. Loading a machine
+-- stamps the average of wherever the prizes came from onto machine_stock.unit_cost.
+--
+-- Machine reports record the unit cost they were valued at (prize_unit_cost), and prize_value is
+-- worked out from it when the report is saved, so changing a prize's cost later no longer moves
+-- past payout percentages.
+
+create table if not exists public.prize_cost_history (
+  id uuid primary key default gen_random_uuid(),
+  prize_id uuid not null references public.prizes(id) on delete cascade,
+  unit_cost numeric(10,2) not null check (unit_cost >= 0),
+  effective_from timestamptz not null default now(),
+  source text not null default 'manual' check (source in ('initial', 'manual', 'purchase', 'transfer')),
+  -- The purchase order a 'purchase' cost came from
+  reference_id uuid,
+  notes text,
+  created_by uuid references public.users(id) on delete set null,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists prize_cost_history_prize_idx on public.prize_cost_history (prize_id, effective_from);
+
+alter table public.prize_cost_history enable row level security;
+
+create policy "Signed-in users read prize cost history" on public.prize_cost_history
+  for select to authenticated
+  using (true);
+create policy "Stock managers manage prize cost history" on public.prize_cost_history
+  for all to authenticated
+  using (public.user_has_permission('manage_stock'))
+  with check (public.user_has_permission('manage_stock'));
+
+select public.restrict_venue_partners('prize_cost_history');
+
+-- Every prize starts its history at the cost it has today, dated when the prize was created
+insert into public.prize_cost_history (prize_id, unit_cost, effective_from, source, notes)
+select p.id, coalesce(p.cost, 0), coalesce(p.created_at, now()), 'initial', 'Cost before history was kept'
+from public.prizes p
+where not exists (select 1 from public.prize_cost_history h where h.prize_id = p.id);
+
+alter table public.location_stock
+  add column if not exists average_cost numeric(10,2);
+
+alter table public.machine_stock
+  add column if not exists unit_cost numeric(10,2);
+
+alter table public.machine_reports
+  add column if not exists prize_unit_cost numeric(10,2);
+
+-- Reports saved before this kept only the value; recover the unit cost they used
+update public.machine_reports
+set prize_unit_cost = round(prize_value / toys_dispensed, 2)
+where prize_unit_cost is null and coalesce(toys_dispensed, 0) > 0 and coalesce(prize_value, 0) > 0;
+
+-- Functions that change prizes.cost say why with set_config('app.prize_cost_source', ...) and
+-- optionally 'app.prize_cost_reference'; anything else (editing a prize) is a manual change
+create or replace function public.record_prize_cost()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_source text := coalesce(nullif(current_setting('app.prize_cost_source', true), ''), 'manual');
+  v_reference text := nullif(current_setting('app.prize_cost_reference', true), '');
+begin
+  if tg_op = 'UPDATE' and new.cost is not distinct from old.cost then
+    return new;
+  end if;
+
+  insert into public.prize_cost_history (prize_id, unit_cost, source, reference_id, created_by)
+  values (new.id, coalesce(new.cost, 0), case when tg_op = 'INSERT' then 'initial' else v_source end,
+          v_reference::uuid, auth.uid());
+  return new;
+end;
+$$;
+
+drop trigger if exists prizes_record_cost on public.prizes;
+create trigger prizes_record_cost
+  after insert or update of cost on public.prizes
+  for each row execute function public.record_prize_cost();
+
+-- Cost of one prize in force at the end of a day. Days before the history starts use the
+-- earliest cost known.
+create or replace function public.prize_cost_at(p_prize_id uuid, p_on date)
+returns numeric
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select coalesce(
+    (select unit_cost from public.prize_cost_history
+     where prize_id = p_prize_id and effective_from < (p_on + 1)::timestamptz
+     order by effective_from desc, created_at desc limit 1),
+    (select unit_cost from public.prize_cost_history
+     where prize_id = p_prize_id
+     order by effective_from, created_at limit 1),
+    (select cost from public.prizes where id = p_prize_id)
+  );
+$$;
+
+create or replace function public.blend_average_cost(
+  p_on_hand integer,
+  p_current_cost numeric,
+  p_quantity integer,
+  p_unit_cost numeric
+)
+returns numeric
+language sql
+immutable
+as $$
+  select case
+    when greatest(p_on_hand, 0) + p_quantity <= 0 or p_current_cost is null then round(p_unit_cost, 2)
+    else round((greatest(p_on_hand, 0) * p_current_cost + p_quantity * p_unit_cost) / (greatest(p_on_hand, 0) + p_quantity), 2)
+  end;
+$$;
+
+-- Value new reports at the cost of the machine's prize on the report date. A counter reading
+-- approved later is revalued at the same unit cost.
+create or replace function public.stamp_report_prize_cost()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_prize_id uuid;
+begin
+  if tg_op = 'INSERT' then
+    select current_prize_id into v_prize_id from public.machines where id = new.machine_id;
+    if v_prize_id is not null then
+      new.prize_unit_cost := public.prize_cost_at(v_prize_id, coalesce(new.report_date::date, current_date));
+    end if;
+  end if;
+
+  if new.prize_unit_cost is not null and new.toys_dispensed is not null then
+    new.prize_value := round(new.toys_dispensed * new.prize_unit_cost, 2);
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists machine_reports_prize_cost on public.machine_reports;
+create trigger machine_reports_prize_cost
+  before insert or update of toys_dispensed on public.machine_reports
+  for each row execute function public.stamp_report_prize_cost();
+
+-- As in 20261019001300_purchasing, plus received prizes move prizes.cost to the weighted
+-- average of what the main warehouse held and what arrived
+create or replace function public.receive_purchase_order(p_order_id uuid, p_lines jsonb)
+returns public.purchase_orders
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_order public.purchase_orders%rowtype;
+  v_entry jsonb;
+  v_line public.purchase_order_lines%rowtype;
+  v_prize public.prizes%rowtype;
+  v_primary uuid;
+  v_on_hand integer;
+  v_quantity integer;
+  v_received integer := 0;
+begin
+  if not public.user_has_permission('manage_stock') then
+    raise exception 'You do not have permission to receive stock';
+  end if;
+
+  select * into v_order from public.purchase_orders where id = p_order_id for update;
+  if not found then
+    raise exception 'Purchase order not found';
+  end if;
+  if v_order.status not in ('ordered', 'partially_received') then
+    raise exception 'Only ordered purchase orders can be received (% is %)', v_order.po_number, v_order.status;
+  end if;
+
+  select id into v_primary from public.stock_locations where is_primary;
+  perform set_config('app.prize_cost_source', 'purchase', true);
+  perform set_config('app.prize_cost_reference', p_order_id::text, true);
+
+  for v_entry in select * from jsonb_array_elements(coalesce(p_lines, '[]'::jsonb)) loop
+    v_quantity := (v_entry->>'quantity')::integer;
+    continue when v_quantity is null or v_quantity = 0;
+    if v_quantity < 0 then
+      raise exception 'Received quantities must be positive';
+    end if;
+
+    select * into v_line from public.purchase_order_lines
+    where id = (v_entry->>'line_id')::uuid and purchase_order_id = p_order_id
+    for update;
+    if not found then
+      raise exception 'Line is not on this purchase order';
+    end if;
+    if v_line.quantity_received + v_quantity > v_line.quantity_ordered then
+      raise exception 'Only % more of % are due on %',
+        v_line.quantity_ordered - v_line.quantity_received, v_line.item_name, v_order.po_number;
+    end if;
+
+    update public.purchase_order_lines
+    set quantity_received = quantity_received + v_quantity
+    where id = v_line.id;
+    v_received := v_received + v_quantity;
+
+    if v_line.item_type = 'prize' then
+      select * into v_prize from public.prizes where id = v_line.item_id for update;
+      if found then
+        v_on_hand := case when v_primary is null then coalesce(v_prize.stock_quantity, 0)
+                          else public.stock_location_quantity(v_primary, v_prize.id) end;
+        update public.prizes
+        set stock_quantity = coalesce(stock_quantity, 0) + v_quantity,
+            cost = public.blend_average_cost(v_on_hand, v_prize.cost, v_quantity, v_line.unit_cost)
+        where id = v_prize.id;
+      end if;
+    else
+      update public.parts set stock_quantity = coalesce(stock_quantity, 0) + v_quantity where id = v_line.item_id;
+    end if;
+
+    insert into public.stock_movements (item_type, item_id, movement_type, quantity, reference_type, reference_id, notes, created_by)
+    values (v_line.item_type, v_line.item_id, 'in', v_quantity, 'purchase_order', p_order_id,
+            'Received on ' || v_order.po_number, auth.uid());
+  end loop;
+
+  perform set_config('app.prize_cost_source', '', true);
+  perform set_config('app.prize_cost_reference', '', true);
+
+  if v_received = 0 then
+    raise exception 'Enter how many arrived for at least one line';
+  end if;
+
+  update public.purchase_orders
+  set status = case
+        when not exists (
+          select 1 from public.purchase_order_lines
+          where purchase_order_id = p_order_id and quantity_received < quantity_ordered
+        ) then 'received'
+        else 'partially_received'
+      end,
+      received_at = now()
+  where id = p_order_id
+  returning * into v_order;
+
+  return v_order;
+end;
+$$;
+
+-- Average cost of a prize at a location: the van's own average, or prizes.cost for the main
+-- warehouse and for vans that have never been costed
+create or replace function public.stock_location_cost(p_location_id uuid, p_prize_id uuid)
+returns numeric
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select coalesce(
+    (select ls.average_cost
+     from public.location_stock ls
+     join public.stock_locations l on l.id = ls.location_id
+     where ls.location_id = p_location_id and ls.prize_id = p_prize_id and not l.is_primary),
+    (select cost from public.prizes where id = p_prize_id)
+  );
+$$;
+
+-- As in 20261019001400_stock_locations, plus the destination's average cost takes in the
+-- transferred prizes at the source's average
+create or replace function public.transfer_stock(
+  p_from_location_id uuid,
+  p_to_location_id uuid,
+  p_prize_id uuid,
+  p_quantity integer,
+  p_notes text default null
+)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_from public.stock_locations%rowtype;
+  v_to public.stock_locations%rowtype;
+  v_prize public.prizes%rowtype;
+  v_available integer;
+  v_unit_cost numeric;
+  v_to_on_hand integer;
+  v_to_cost numeric;
+begin
+  if p_quantity is null or p_quantity <= 0 then
+    raise exception 'Quantity must be at least 1';
+  end if;
+  if p_from_location_id = p_to_location_id then
+    raise exception 'Choose two different locations';
+  end if;
+
+  select * into v_from from public.stock_locations where id = p_from_location_id;
+  select * into v_to from public.stock_locations where id = p_to_location_id;
+  if v_from.id is null or v_to.id is null then
+    raise exception 'Stock location not found';
+  end if;
+  if not v_to.is_active then
+    raise exception '% is no longer in use', v_to.name;
+  end if;
+  if not public.can_draw_from_stock_location(v_from)
+    or not (public.user_has_permission('manage_stock') or coalesce(v_to.assigned_to = auth.uid(), false) or v_to.kind = 'warehouse') then
+    raise exception 'You do not have permission to move stock between these locations';
+  end if;
+
+  -- Locked so two transfers can't both take the last one
+  select * into v_prize from public.prizes where id = p_prize_id for update;
+  if not found then
+    raise exception 'Prize not found';
+  end if;
+
+  v_available := public.stock_location_quantity(v_from.id, p_prize_id);
+  if v_available < p_quantity then
+    raise exception 'Only % of % at %', greatest(v_available, 0), v_prize.name, v_from.name;
+  end if;
+
+  v_unit_cost := public.stock_location_cost(v_from.id, p_prize_id);
+  v_to_on_hand := public.stock_location_quantity(v_to.id, p_prize_id);
+  v_to_cost := public.stock_location_cost(v_to.id, p_prize_id);
+
+  perform public.shift_location_stock(v_from, p_prize_id, -p_quantity);
+  perform public.shift_location_stock(v_to, p_prize_id, p_quantity);
+
+  if v_to.is_primary then
+    if v_to_cost is distinct from v_unit_cost then
+      perform set_config('app.prize_cost_source', 'transfer', true);
+      update public.prizes
+      set cost = public.blend_average_cost(v_to_on_hand, v_to_cost, p_quantity, v_unit_cost)
+      where id = p_prize_id;
+      perform set_config('app.prize_cost_source', '', true);
+    end if;
+  else
+    update public.location_stock
+    set average_cost = public.blend_average_cost(v_to_on_hand, v_to_cost, p_quantity, v_unit_cost)
+    where location_id = v_to.id and prize_id = p_prize_id;
+  end if;
+
+  insert into public.stock_movements (item_type, item_id, movement_type, quantity, reference_type, reference_id,
+                                      notes, created_by, from_location_id, to_location_id)
+  values ('prize', p_prize_id, 'transfer', p_quantity, 'transfer', null,
+          coalesce(p_notes, 'Moved from ' || v_from.name || ' to ' || v_to.name), auth.uid(), v_from.id, v_to.id);
+end;
+$$;
+
+-- As in 20261019001400_stock_locations, plus the load is costed at the location's average
+create or replace function public.issue_stock_to_machine(
+  p_location_id uuid,
+  p_machine_id uuid,
+  p_prize_id uuid,
+  p_quantity integer,
+  p_notes text default null
+)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_location public.stock_locations%rowtype;
+  v_prize public.prizes%rowtype;
+  v_available integer;
+begin
+  if p_quantity is null or p_quantity <= 0 then
+    raise exception 'Quantity must be at least 1';
+  end if;
+
+  select * into v_location from public.stock_locations where id = p_location_id;
+  if not found then
+    raise exception 'Stock location not found';
+  end if;
+  if not public.can_draw_from_stock_location(v_location) then
+    raise exception 'You do not have permission to take stock from %', v_location.name;
+  end if;
+  if not exists (select 1 from public.machines where id = p_machine_id) then
+    raise exception 'Machine not found';
+  end if;
+
+  select * into v_prize from public.prizes where id = p_prize_id for update;
+  if not found then
+    raise exception 'Prize not found';
+  end if;
+
+  v_available := public.stock_location_quantity(v_location.id, p_prize_id);
+  if v_available < p_quantity then
+    raise exception 'Only % of % at %', greatest(v_available, 0), v_prize.name, v_location.name;
+  end if;
+
+  insert into public.machine_stock (machine_id, prize_id, quantity, notes, unit_cost)
+  values (p_machine_id, p_prize_id, p_quantity, p_notes, public.stock_location_cost(v_location.id, p_prize_id));
+
+  perform public.shift_location_stock(v_location, p_prize_id, -p_quantity);
+  update public.prizes set stock_quantity = stock_quantity - p_quantity where id = p_prize_id;
+
+  insert into public.stock_movements (item_type, item_id, movement_type, quantity, reference_type, reference_id,
+                                      notes, created_by, from_location_id)
+  values ('prize', p_prize_id, 'out', p_quantity, 'machine_stock', p_machine_id,
+          coalesce(p_notes, 'Added ' || p_quantity || ' prizes to machine from ' || v_location.name), auth.uid(), v_location.id);
+end;
+$$;
+
+grant execute on function public.prize_cost_at(uuid, date) to authenticated;
+grant execute on function public.stock_location_cost(uuid, uuid) to authenticated;
@@ -0,0 +1,185 @@
+-- Completing a relocation is one transaction, through complete_machine_move. It:
+--   * takes a closing reading at the old venue and saves it as a machine report there, with
+--     the cash collected, so the takings up to the move count towards the old venue's
+--     commission,
+--   * takes an opening reading at the new venue; if the meter doesn't read the same (reset or
+--     swapped in transit) a zero-takings 'reset' report carries the new baseline,
+--   * moves machines.venue_id and appends to machine_location_history.
+-- A move whose machine has been moved somewhere else since it was planned is rejected.
+--
+-- Machine reports now record the venue the machine was at when they were saved, so venue
+-- statements keep attributing them correctly after a machine moves on.
+
+alter table public.machine_moves
+  add column if not exists closing_toy_count integer check (closing_toy_count >= 0),
+  add column if not exists closing_money_collected numeric(10,2) check (closing_money_collected >= 0),
+  add column if not exists opening_toy_count integer check (opening_toy_count >= 0),
+  add column if not exists closing_report_id uuid references public.machine_reports(id) on delete set null,
+  add column if not exists completed_by uuid references public.users(id) on delete set null;
+
+alter table public.machine_location_history
+  add column if not exists move_id uuid references public.machine_moves(id) on delete set null,
+  add column if not exists closing_toy_count integer,
+  add column if not exists opening_toy_count integer;
+
+create or replace function public.stamp_report_venue()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if new.venue_id is null then
+    select venue_id into new.venue_id from public.machines where id = new.machine_id;
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists machine_reports_venue on public.machine_reports;
+create trigger machine_reports_venue
+  before insert on public.machine_reports
+  for each row execute function public.stamp_report_venue();
+
+-- Relocations only become 'completed' through complete_machine_move
+create or replace function public.guard_machine_move_completion()
+returns trigger
+language plpgsql
+as $$
+begin
+  if new.type = 'relocation'
+     and new.status = 'completed'
+     and old.status is distinct from 'completed'
+     and coalesce(current_setting('app.completing_machine_move', true), '') <> 'on' then
+    raise exception 'Complete a relocation with its closing and opening readings';
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists machine_moves_guard_completion on public.machine_moves;
+create trigger machine_moves_guard_completion
+  before update of status on public.machine_moves
+  for each row execute function public.guard_machine_move_completion();
+
+create or replace function public.complete_machine_move(
+  p_move_id uuid,
+  p_closing_toy_count integer,
+  p_money_collected numeric,
+  p_opening_toy_count integer,
+  p_notes text default null
+)
+returns public.machine_moves
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_move public.machine_moves%rowtype;
+  v_machine public.machines%rowtype;
+  v_from public.venues%rowtype;
+  v_to public.venues%rowtype;
+  v_previous integer;
+  v_closing_report uuid;
+  v_moved_by text;
+begin
+  if not public.user_has_permission('manage_machines') then
+    raise exception 'You do not have permission to move machines';
+  end if;
+  if p_closing_toy_count is null or p_opening_toy_count is null
+     or p_closing_toy_count < 0 or p_opening_toy_count < 0 then
+    raise exception 'Enter the closing and opening toy counter readings';
+  end if;
+  if coalesce(p_money_collected, 0) < 0 then
+    raise exception 'Cash collected can''t be negative';
+  end if;
+
+  select * into v_move from public.machine_moves where id = p_move_id for update;
+  if not found then
+    raise exception 'Machine move not found';
+  end if;
+  if v_move.type <> 'relocation' or v_move.machine_id is null or v_move.to_venue_id is null then
+    raise exception 'Only relocations of a machine to a venue can be completed this way';
+  end if;
+  if v_move.status not in ('approved', 'in_progress') then
+    raise exception 'This move is % and can''t be completed', v_move.status;
+  end if;
+
+  select * into v_machine from public.machines where id = v_move.machine_id for update;
+  if not found then
+    raise exception 'Machine not found';
+  end if;
+  select * into v_to from public.venues where id = v_move.to_venue_id;
+  if not found then
+    raise exception 'Destination venue not found';
+  end if;
+  select * into v_from from public.venues where id = v_machine.venue_id;
+
+  if v_machine.venue_id is not distinct from v_move.to_venue_id then
+    raise exception '% is already at %', v_machine.name, v_to.name;
+  end if;
+  if v_move.from_venue_id is not null and v_machine.venue_id is distinct from v_move.from_venue_id then
+    raise exception '% has been moved to % since this move was planned', v_machine.name, coalesce(v_from.name, 'storage');
+  end if;
+
+  select current_toy_count into v_previous
+  from public.machine_reports
+  where machine_id = v_machine.id
+  order by created_at desc
+  limit 1;
+
+  if p_closing_toy_count < coalesce(v_previous, 0) then
+    raise exception 'Closing reading % is below the last reading of %; record the counter reset on a machine report first',
+      p_closing_toy_count, v_previous;
+  end if;
+
+  -- Closing report at the old venue. Times come from clock_timestamp() so it sorts before the
+  -- opening report written in this same transaction.
+  insert into public.machine_reports (machine_id, venue_id, money_collected, current_toy_count, previous_toy_count,
+                                      toys_dispensed, prize_value, report_date, notes,
+                                      machine_name, machine_type, machine_serial, created_at)
+  values (v_machine.id, v_machine.venue_id, coalesce(p_money_collected, 0), p_closing_toy_count,
+          coalesce(v_previous, p_closing_toy_count), p_closing_toy_count - coalesce(v_previous, p_closing_toy_count), 0,
+          current_date, 'Closing reading before moving to ' || v_to.name,
+          v_machine.name, v_machine.type, v_machine.serial_number, clock_timestamp())
+  returning id into v_closing_report;
+
+  if p_opening_toy_count <> p_closing_toy_count then
+    insert into public.machine_reports (machine_id, venue_id, money_collected, current_toy_count, previous_toy_count,
+                                        toys_dispensed, prize_value, report_date, notes, counter_event, counter_final_reading,
+                                        machine_name, machine_type, machine_serial, created_at)
+    values (v_machine.id, v_to.id, 0, p_opening_toy_count, p_closing_toy_count, 0, 0, current_date,
+            'Opening reading after moving from ' || coalesce(v_from.name, 'storage'), 'reset', p_closing_toy_count,
+            v_machine.name, v_machine.type, v_machine.serial_number, clock_timestamp());
+  end if;
+
+  update public.machines set venue_id = v_to.id where id = v_machine.id;
+
+  select coalesce(full_name, username) into v_moved_by from public.users where id = auth.uid();
+
+  insert into public.machine_location_history (machine_id, venue_id, venue_name, moved_from_venue_id, moved_from_venue_name,
+                                               moved_date, reason, moved_by, move_id, closing_toy_count, opening_toy_count)
+  values (v_machine.id, v_to.id, v_to.name, v_machine.venue_id, v_from.name, now(),
+          coalesce(nullif(trim(p_notes), ''), v_move.reason), v_moved_by, v_move.id,
+          p_closing_toy_count, p_opening_toy_count);
+
+  perform set_config('app.completing_machine_move', 'on', true);
+  update public.machine_moves
+  set status = 'completed',
+      completed_at = now(),
+      completed_by = auth.uid(),
+      from_venue_id = v_machine.venue_id,
+      closing_toy_count = p_closing_toy_count,
+      closing_money_collected = coalesce(p_money_collected, 0),
+      opening_toy_count = p_opening_toy_count,
+      closing_report_id = v_closing_report,
+      notes = coalesce(nullif(trim(p_notes), ''), notes)
+  where id = v_move.id
+  returning * into v_move;
+  perform set_config('app.completing_machine_move', '', true);
+
+  return v_move;
+end;
+$$;
+
+grant execute on function public.complete_machine_move(uuid, integer, numeric, integer, text) to authenticated;
@@ -0,0 +1,35 @@
+-- Venue capacity profiles: the floor space, floor load, power outlets and doorway a venue has
+-- for machines. Placement checks compare them with machine_measurements (width, depth, height,
+-- weight); a machine takes width × depth of floor and one outlet, and gets through the door
+-- if its narrower side and its height clear the doorway. Checks only warn; nothing here stops
+-- a machine being placed.
+
+create table if not exists public.venue_capacity (
+  id uuid primary key default gen_random_uuid(),
+  venue_id uuid not null unique references public.venues(id) on delete cascade,
+  -- Floor area set aside for machines, after walkways
+  usable_area_m2 numeric(8,2) check (usable_area_m2 >= 0),
+  -- Total weight of machines the floor can take
+  max_load_kg numeric(10,2) check (max_load_kg >= 0),
+  power_outlets integer check (power_outlets >= 0),
+  doorway_width_cm numeric(6,1) check (doorway_width_cm > 0),
+  doorway_height_cm numeric(6,1) check (doorway_height_cm > 0),
+  notes text,
+  updated_at timestamptz not null default now()
+);
+
+alter table public.venue_capacity enable row level security;
+
+create policy "Signed-in users read venue capacity" on public.venue_capacity
+  for select to authenticated
+  using (true);
+create policy "Venue managers manage venue capacity" on public.venue_capacity
+  for all to authenticated
+  using (public.user_has_permission('manage_venues'))
+  with check (public.user_has_permission('manage_venues'));
+
+select public.restrict_venue_partners('venue_capacity');
+
+insert into public.view_permissions (view_key, permission_key) values
+  ('venue-capacity', 'view_venues')
+on conflict do nothing;
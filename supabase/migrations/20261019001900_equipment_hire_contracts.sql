@@ -0,0 +1,247 @@
+-- Equipment hire contracts and invoices. A contract records who has the equipment, the
+-- daily / weekly / monthly rates, the deposit taken and when it's due back. Opening a
+-- contract puts the equipment on hire; return_equipment_hire takes it back, settles the
+-- deposit and raises the invoice in one transaction.
+--
+-- Invoice line items are priced in the app (src/lib/equipmentHire.ts) so the preview and the
+-- invoice can't disagree; the totals here are always summed from the stored lines. Days past
+-- the expected return date are a 'late_fee' line.
+
+create sequence if not exists public.equipment_hire_contract_number_seq;
+create sequence if not exists public.equipment_hire_invoice_number_seq;
+
+create table if not exists public.equipment_hire_contracts (
+  id uuid primary key default gen_random_uuid(),
+  contract_number text not null unique default 'HC-' || lpad(nextval('public.equipment_hire_contract_number_seq')::text, 5, '0'),
+  equipment_id uuid not null references public.equipment_hire(id) on delete restrict,
+  customer_name text not null check (length(trim(customer_name)) > 0),
+  customer_company text,
+  customer_email text,
+  customer_phone text,
+  customer_address text,
+  -- Where the equipment is going, when that's one of our venues
+  venue_id uuid references public.venues(id) on delete set null,
+  daily_rate numeric(10,2) not null check (daily_rate >= 0),
+  weekly_rate numeric(10,2) check (weekly_rate >= 0),
+  monthly_rate numeric(10,2) check (monthly_rate >= 0),
+  -- Charged per day past expected_return_date; the daily rate when not set
+  late_fee_per_day numeric(10,2) check (late_fee_per_day >= 0),
+  deposit_amount numeric(10,2) not null default 0 check (deposit_amount >= 0),
+  deposit_status text not null default 'held'
+    check (deposit_status in ('held', 'refunded', 'applied', 'forfeited')),
+  start_date date not null,
+  expected_return_date date not null,
+  returned_date date,
+  status text not null default 'active' check (status in ('active', 'returned', 'cancelled')),
+  notes text,
+  created_by uuid references public.users(id) on delete set null,
+  created_at timestamptz not null default now(),
+  check (expected_return_date >= start_date),
+  check (returned_date is null or returned_date >= start_date)
+);
+
+-- One open contract per piece of equipment
+create unique index if not exists equipment_hire_contracts_active_idx
+  on public.equipment_hire_contracts (equipment_id) where status = 'active';
+
+create table if not exists public.equipment_hire_invoices (
+  id uuid primary key default gen_random_uuid(),
+  invoice_number text not null unique default 'INV-' || lpad(nextval('public.equipment_hire_invoice_number_seq')::text, 5, '0'),
+  contract_id uuid not null references public.equipment_hire_contracts(id) on delete cascade,
+  issue_date date not null default current_date,
+  period_start date not null,
+  period_end date not null,
+  -- [{"kind": "hire" | "late_fee" | "other", "description": "...", "quantity": 2, "unit": "week",
+  --   "unit_price": 120, "amount": 240}, ...]
+  line_items jsonb not null default '[]'::jsonb,
+  -- Hire and late fees: the revenue
+  subtotal numeric(10,2) not null default 0,
+  late_fee numeric(10,2) not null default 0,
+  -- Deposit set against the bill; total_due is what the customer still owes
+  deposit_applied numeric(10,2) not null default 0,
+  total_due numeric(10,2) not null default 0,
+  status text not null default 'issued' check (status in ('issued', 'paid', 'void')),
+  paid_at timestamptz,
+  created_by uuid references public.users(id) on delete set null,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists equipment_hire_contracts_equipment_idx on public.equipment_hire_contracts (equipment_id);
+create index if not exists equipment_hire_invoices_contract_idx on public.equipment_hire_invoices (contract_id);
+create index if not exists equipment_hire_invoices_issue_date_idx on public.equipment_hire_invoices (issue_date);
+
+alter table public.equipment_hire_contracts enable row level security;
+alter table public.equipment_hire_invoices enable row level security;
+
+create policy "Signed-in users read hire contracts" on public.equipment_hire_contracts
+  for select to authenticated
+  using (true);
+create policy "Equipment managers manage hire contracts" on public.equipment_hire_contracts
+  for all to authenticated
+  using (public.user_has_permission('manage_equipment'))
+  with check (public.user_has_permission('manage_equipment'));
+
+create policy "Signed-in users read hire invoices" on public.equipment_hire_invoices
+  for select to authenticated
+  using (true);
+create policy "Equipment managers manage hire invoices" on public.equipment_hire_invoices
+  for all to authenticated
+  using (public.user_has_permission('manage_equipment'))
+  with check (public.user_has_permission('manage_equipment'));
+
+select public.restrict_venue_partners('equipment_hire_contracts');
+select public.restrict_venue_partners('equipment_hire_invoices');
+
+-- Opening a contract puts the equipment on hire and logs it
+create or replace function public.open_equipment_hire()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_equipment public.equipment_hire%rowtype;
+  v_performed_by text;
+begin
+  select * into v_equipment from public.equipment_hire where id = new.equipment_id for update;
+  if not found then
+    raise exception 'Equipment not found';
+  end if;
+  if v_equipment.status <> 'available' then
+    raise exception '% is % and can''t be hired out', v_equipment.name, v_equipment.status;
+  end if;
+
+  new.created_by := coalesce(new.created_by, auth.uid());
+
+  update public.equipment_hire
+  set status = 'hired',
+      hired_date = new.start_date,
+      expected_return_date = new.expected_return_date,
+      venue_id = coalesce(new.venue_id, venue_id)
+  where id = new.equipment_id;
+
+  select coalesce(full_name, username) into v_performed_by from public.users where id = auth.uid();
+
+  insert into public.equipment_hire_history (equipment_id, action, from_venue_id, to_venue_id, action_date, notes, performed_by)
+  values (new.equipment_id, 'hired', v_equipment.venue_id, new.venue_id, new.start_date,
+          new.contract_number || ' to ' || new.customer_name, v_performed_by);
+
+  return new;
+end;
+$$;
+
+drop trigger if exists equipment_hire_contracts_open on public.equipment_hire_contracts;
+create trigger equipment_hire_contracts_open
+  before insert on public.equipment_hire_contracts
+  for each row execute function public.open_equipment_hire();
+
+-- A contract cancelled before the equipment went out puts it back, with nothing to invoice
+create or replace function public.cancel_equipment_hire()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if old.status = 'active' and new.status = 'cancelled' then
+    update public.equipment_hire
+    set status = 'available',
+        hired_date = null,
+        expected_return_date = null
+    where id = new.equipment_id and status = 'hired';
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists equipment_hire_contracts_cancel on public.equipment_hire_contracts;
+create trigger equipment_hire_contracts_cancel
+  after update of status on public.equipment_hire_contracts
+  for each row execute function public.cancel_equipment_hire();
+
+-- p_line_items as in equipment_hire_invoices.line_items. p_deposit_status says what happened
+-- to the deposit: 'applied' sets it against the invoice, 'refunded' and 'forfeited' don't.
+create or replace function public.return_equipment_hire(
+  p_contract_id uuid,
+  p_returned_date date,
+  p_line_items jsonb,
+  p_deposit_status text default 'refunded',
+  p_notes text default null
+)
+returns public.equipment_hire_invoices
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_contract public.equipment_hire_contracts%rowtype;
+  v_invoice public.equipment_hire_invoices%rowtype;
+  v_subtotal numeric;
+  v_late_fee numeric;
+  v_deposit_applied numeric := 0;
+  v_performed_by text;
+begin
+  if not public.user_has_permission('manage_equipment') then
+    raise exception 'You do not have permission to return hired equipment';
+  end if;
+  if p_deposit_status not in ('refunded', 'applied', 'forfeited') then
+    raise exception 'Unknown deposit outcome %', p_deposit_status;
+  end if;
+  if jsonb_typeof(p_line_items) <> 'array' or jsonb_array_length(p_line_items) = 0 then
+    raise exception 'An invoice needs at least one line';
+  end if;
+  if exists (select 1 from jsonb_array_elements(p_line_items) item where (item->>'amount')::numeric < 0) then
+    raise exception 'Invoice lines can''t be negative';
+  end if;
+
+  select * into v_contract from public.equipment_hire_contracts where id = p_contract_id for update;
+  if not found then
+    raise exception 'Hire contract not found';
+  end if;
+  if v_contract.status <> 'active' then
+    raise exception '% is % and can''t be returned', v_contract.contract_number, v_contract.status;
+  end if;
+  if p_returned_date is null or p_returned_date < v_contract.start_date then
+    raise exception 'Return date can''t be before the hire started on %', v_contract.start_date;
+  end if;
+
+  select coalesce(sum((item->>'amount')::numeric), 0),
+         coalesce(sum((item->>'amount')::numeric) filter (where item->>'kind' = 'late_fee'), 0)
+  into v_subtotal, v_late_fee
+  from jsonb_array_elements(p_line_items) item;
+
+  if p_deposit_status = 'applied' then
+    v_deposit_applied := least(v_contract.deposit_amount, v_subtotal);
+  end if;
+
+  insert into public.equipment_hire_invoices (contract_id, period_start, period_end, line_items, subtotal, late_fee,
+                                              deposit_applied, total_due, created_by)
+  values (v_contract.id, v_contract.start_date, p_returned_date, p_line_items, round(v_subtotal, 2), round(v_late_fee, 2),
+          round(v_deposit_applied, 2), round(v_subtotal - v_deposit_applied, 2), auth.uid())
+  returning * into v_invoice;
+
+  update public.equipment_hire_contracts
+  set status = 'returned',
+      returned_date = p_returned_date,
+      deposit_status = case when deposit_amount > 0 then p_deposit_status else deposit_status end,
+      notes = coalesce(nullif(trim(p_notes), ''), notes)
+  where id = v_contract.id;
+
+  update public.equipment_hire
+  set status = 'available',
+      hired_date = null,
+      expected_return_date = null
+  where id = v_contract.equipment_id;
+
+  select coalesce(full_name, username) into v_performed_by from public.users where id = auth.uid();
+
+  insert into public.equipment_hire_history (equipment_id, action, from_venue_id, action_date, notes, performed_by)
+  values (v_contract.equipment_id, 'returned', v_contract.venue_id, p_returned_date,
+          v_contract.contract_number || ' returned by ' || v_contract.customer_name || ', invoiced on ' || v_invoice.invoice_number,
+          v_performed_by);
+
+  return v_invoice;
+end;
+$$;
+
+grant execute on function public.return_equipment_hire(uuid, date, jsonb, text, text) to authenticated;
@@ -0,0 +1,224 @@
+-- Overdue hire reminders and return inspections.
+--
+-- Each reminder sent to a customer whose hire is past its expected return date is logged with
+-- its escalation level (1 friendly reminder, 2 second notice, 3 final notice); the app works
+-- out which level is due from the days overdue (src/lib/equipmentHire.ts).
+--
+-- Returning hired equipment now needs a check-in inspection: a condition checklist, photos and
+-- damage notes. return_equipment_hire saves it with the invoice, sets the equipment's
+-- condition and current value, and when damage is found opens a repair job and holds the
+-- equipment in maintenance instead of making it available. All of it goes to
+-- equipment_hire_history.
+
+create table if not exists public.equipment_hire_reminders (
+  id uuid primary key default gen_random_uuid(),
+  contract_id uuid not null references public.equipment_hire_contracts(id) on delete cascade,
+  level integer not null check (level between 1 and 3),
+  channel text not null check (channel in ('email', 'phone')),
+  days_overdue integer not null check (days_overdue >= 0),
+  notes text,
+  sent_by uuid references public.users(id) on delete set null,
+  sent_at timestamptz not null default now()
+);
+
+create table if not exists public.equipment_inspections (
+  id uuid primary key default gen_random_uuid(),
+  equipment_id uuid not null references public.equipment_hire(id) on delete cascade,
+  contract_id uuid references public.equipment_hire_contracts(id) on delete set null,
+  -- [{"item": "Powers on", "passed": true}, ...]
+  checklist jsonb not null default '[]'::jsonb,
+  condition_before text,
+  condition_after text not null,
+  value_before numeric(10,2),
+  value_after numeric(10,2) check (value_after >= 0),
+  damage_found boolean not null default false,
+  damage_notes text,
+  photo_urls text[] not null default '{}',
+  job_id uuid references public.jobs(id) on delete set null,
+  inspected_by uuid references public.users(id) on delete set null,
+  inspected_at timestamptz not null default now(),
+  check (not damage_found or length(trim(coalesce(damage_notes, ''))) > 0)
+);
+
+create index if not exists equipment_hire_reminders_contract_idx on public.equipment_hire_reminders (contract_id);
+create index if not exists equipment_inspections_equipment_idx on public.equipment_inspections (equipment_id);
+
+-- Repair jobs for hire equipment have no machine
+alter table public.jobs
+  add column if not exists equipment_id uuid references public.equipment_hire(id) on delete set null;
+alter table public.jobs alter column machine_id drop not null;
+
+alter table public.equipment_hire_reminders enable row level security;
+alter table public.equipment_inspections enable row level security;
+
+create policy "Signed-in users read hire reminders" on public.equipment_hire_reminders
+  for select to authenticated
+  using (true);
+create policy "Equipment managers manage hire reminders" on public.equipment_hire_reminders
+  for all to authenticated
+  using (public.user_has_permission('manage_equipment'))
+  with check (public.user_has_permission('manage_equipment'));
+
+create policy "Signed-in users read equipment inspections" on public.equipment_inspections
+  for select to authenticated
+  using (true);
+create policy "Equipment managers manage equipment inspections" on public.equipment_inspections
+  for all to authenticated
+  using (public.user_has_permission('manage_equipment'))
+  with check (public.user_has_permission('manage_equipment'));
+
+select public.restrict_venue_partners('equipment_hire_reminders');
+select public.restrict_venue_partners('equipment_inspections');
+
+-- p_inspection: {"checklist": [{"item": "...", "passed": true}], "condition": "good",
+--   "current_value": 250, "damage_found": false, "damage_notes": "...", "photo_urls": ["..."]}
+drop function if exists public.return_equipment_hire(uuid, date, jsonb, text, text);
+
+create or replace function public.return_equipment_hire(
+  p_contract_id uuid,
+  p_returned_date date,
+  p_line_items jsonb,
+  p_inspection jsonb,
+  p_deposit_status text default 'refunded',
+  p_notes text default null
+)
+returns public.equipment_hire_invoices
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_contract public.equipment_hire_contracts%rowtype;
+  v_equipment public.equipment_hire%rowtype;
+  v_invoice public.equipment_hire_invoices%rowtype;
+  v_subtotal numeric;
+  v_late_fee numeric;
+  v_deposit_applied numeric := 0;
+  v_condition text;
+  v_value numeric;
+  v_damage boolean;
+  v_damage_notes text;
+  v_failed text;
+  v_job uuid;
+  v_performed_by text;
+begin
+  if not public.user_has_permission('manage_equipment') then
+    raise exception 'You do not have permission to return hired equipment';
+  end if;
+  if p_deposit_status not in ('refunded', 'applied', 'forfeited') then
+    raise exception 'Unknown deposit outcome %', p_deposit_status;
+  end if;
+  if jsonb_typeof(p_line_items) <> 'array' or jsonb_array_length(p_line_items) = 0 then
+    raise exception 'An invoice needs at least one line';
+  end if;
+  if exists (select 1 from jsonb_array_elements(p_line_items) item where (item->>'amount')::numeric < 0) then
+    raise exception 'Invoice lines can''t be negative';
+  end if;
+
+  v_condition := nullif(trim(p_inspection->>'condition'), '');
+  v_value := (p_inspection->>'current_value')::numeric;
+  v_damage := coalesce((p_inspection->>'damage_found')::boolean, false);
+  v_damage_notes := nullif(trim(p_inspection->>'damage_notes'), '');
+  if p_inspection is null or v_condition is null then
+    raise exception 'Inspect the equipment and record its condition before returning it';
+  end if;
+  if v_value < 0 then
+    raise exception 'Current value can''t be negative';
+  end if;
+  if v_damage and v_damage_notes is null then
+    raise exception 'Describe the damage found';
+  end if;
+
+  select * into v_contract from public.equipment_hire_contracts where id = p_contract_id for update;
+  if not found then
+    raise exception 'Hire contract not found';
+  end if;
+  if v_contract.status <> 'active' then
+    raise exception '% is % and can''t be returned', v_contract.contract_number, v_contract.status;
+  end if;
+  if p_returned_date is null or p_returned_date < v_contract.start_date then
+    raise exception 'Return date can''t be before the hire started on %', v_contract.start_date;
+  end if;
+
+  select * into v_equipment from public.equipment_hire where id = v_contract.equipment_id for update;
+
+  select coalesce(sum((item->>'amount')::numeric), 0),
+         coalesce(sum((item->>'amount')::numeric) filter (where item->>'kind' = 'late_fee'), 0)
+  into v_subtotal, v_late_fee
+  from jsonb_array_elements(p_line_items) item;
+
+  if p_deposit_status = 'applied' then
+    v_deposit_applied := least(v_contract.deposit_amount, v_subtotal);
+  end if;
+
+  insert into public.equipment_hire_invoices (contract_id, period_start, period_end, line_items, subtotal, late_fee,
+                                              deposit_applied, total_due, created_by)
+  values (v_contract.id, v_contract.start_date, p_returned_date, p_line_items, round(v_subtotal, 2), round(v_late_fee, 2),
+          round(v_deposit_applied, 2), round(v_subtotal - v_deposit_applied, 2), auth.uid())
+  returning * into v_invoice;
+
+  update public.equipment_hire_contracts
+  set status = 'returned',
+      returned_date = p_returned_date,
+      deposit_status = case when deposit_amount > 0 then p_deposit_status else deposit_status end,
+      notes = coalesce(nullif(trim(p_notes), ''), notes)
+  where id = v_contract.id;
+
+  select coalesce(full_name, username) into v_performed_by from public.users where id = auth.uid();
+
+  if v_damage then
+    select string_agg(item->>'item', ', ') into v_failed
+    from jsonb_array_elements(coalesce(p_inspection->'checklist', '[]'::jsonb)) item
+    where not coalesce((item->>'passed')::boolean, true);
+
+    insert into public.jobs (title, description, equipment_id, priority, status, photo_urls, progress_updates)
+    values ('Repair ' || v_equipment.name,
+            v_damage_notes
+              || coalesce(E'\n\nFailed checks: ' || v_failed, '')
+              || E'\n\nFound on return from ' || v_contract.customer_name || ' (' || v_contract.contract_number || ')',
+            v_equipment.id, 'medium', 'pending',
+            coalesce(array(select jsonb_array_elements_text(p_inspection->'photo_urls')), '{}'),
+            array[to_char(now() at time zone 'utc', 'YYYY-MM-DD"T"HH24:MI:SS"Z"') || ': Opened by return inspection'])
+    returning id into v_job;
+  end if;
+
+  insert into public.equipment_inspections (equipment_id, contract_id, checklist, condition_before, condition_after,
+                                            value_before, value_after, damage_found, damage_notes, photo_urls,
+                                            job_id, inspected_by)
+  values (v_equipment.id, v_contract.id, coalesce(p_inspection->'checklist', '[]'::jsonb), v_equipment.condition, v_condition,
+          v_equipment.current_value, coalesce(v_value, v_equipment.current_value), v_damage, v_damage_notes,
+          coalesce(array(select jsonb_array_elements_text(p_inspection->'photo_urls')), '{}'),
+          v_job, auth.uid());
+
+  update public.equipment_hire
+  set status = case when v_damage then 'maintenance' else 'available' end,
+      condition = v_condition,
+      current_value = coalesce(v_value, current_value),
+      hired_date = null,
+      expected_return_date = null
+  where id = v_equipment.id;
+
+  insert into public.equipment_hire_history (equipment_id, action, from_venue_id, action_date, notes, performed_by)
+  values (v_equipment.id, 'returned', v_contract.venue_id, p_returned_date,
+          v_contract.contract_number || ' returned by ' || v_contract.customer_name || ', invoiced on ' || v_invoice.invoice_number,
+          v_performed_by);
+
+  insert into public.equipment_hire_history (equipment_id, action, action_date, notes, performed_by)
+  values (v_equipment.id, 'inspected', p_returned_date,
+          'Condition ' || coalesce(v_equipment.condition, 'unknown') || ' → ' || v_condition
+            || case when v_value is distinct from v_equipment.current_value and v_value is not null
+                    then ', value ' || coalesce(to_char(v_equipment.current_value, 'FM999999990.00'), '—')
+                         || ' → ' || to_char(v_value, 'FM999999990.00')
+                    else '' end,
+          v_performed_by);
+
+  if v_damage then
+    insert into public.equipment_hire_history (equipment_id, action, action_date, notes, performed_by)
+    values (v_equipment.id, 'damaged', p_returned_date, v_damage_notes || ' (repair job opened)', v_performed_by);
+  end if;
+
+  return v_invoice;
+end;
+$$;
+
+grant execute on function public.return_equipment_hire(uuid, date, jsonb, jsonb, text, text) to authenticated;
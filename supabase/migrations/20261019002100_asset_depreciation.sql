@@ -0,0 +1,186 @@
+-- Asset depreciation for machines and hire equipment.
+--
+-- Both get a purchase cost and date, a depreciation method (straight line, or diminishing value
+-- at twice the straight-line rate) with a useful life in years, and a residual value the book
+-- value never drops below. The app works out book values from these (src/lib/depreciation.ts)
+-- rather than anyone typing them in; current_value stays as the last value the app saved and as
+-- the hand-entered value for assets with no method set.
+--
+-- A return inspection that values equipment differently from its book value writes it down (or
+-- up): the new value and date become the base the depreciation continues from.
+
+alter table public.machines
+  add column if not exists purchase_cost numeric(10,2) check (purchase_cost >= 0),
+  add column if not exists purchase_date date,
+  add column if not exists depreciation_method text check (depreciation_method in ('straight_line', 'diminishing_value')),
+  add column if not exists useful_life_years numeric(5,2) check (useful_life_years > 0),
+  add column if not exists residual_value numeric(10,2) check (residual_value >= 0);
+
+alter table public.equipment_hire
+  add column if not exists depreciation_method text check (depreciation_method in ('straight_line', 'diminishing_value')),
+  add column if not exists useful_life_years numeric(5,2) check (useful_life_years > 0),
+  add column if not exists residual_value numeric(10,2) check (residual_value >= 0),
+  add column if not exists written_down_value numeric(10,2) check (written_down_value >= 0),
+  add column if not exists written_down_on date;
+
+-- p_inspection gains "book_value": the equipment's depreciated value on the return date, which
+-- "current_value" only needs to carry when the inspector changed it.
+create or replace function public.return_equipment_hire(
+  p_contract_id uuid,
+  p_returned_date date,
+  p_line_items jsonb,
+  p_inspection jsonb,
+  p_deposit_status text default 'refunded',
+  p_notes text default null
+)
+returns public.equipment_hire_invoices
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_contract public.equipment_hire_contracts%rowtype;
+  v_equipment public.equipment_hire%rowtype;
+  v_invoice public.equipment_hire_invoices%rowtype;
+  v_subtotal numeric;
+  v_late_fee numeric;
+  v_deposit_applied numeric := 0;
+  v_condition text;
+  v_value numeric;
+  v_book_value numeric;
+  v_value_before numeric;
+  v_damage boolean;
+  v_damage_notes text;
+  v_failed text;
+  v_job uuid;
+  v_performed_by text;
+begin
+  if not public.user_has_permission('manage_equipment') then
+    raise exception 'You do not have permission to return hired equipment';
+  end if;
+  if p_deposit_status not in ('refunded', 'applied', 'forfeited') then
+    raise exception 'Unknown deposit outcome %', p_deposit_status;
+  end if;
+  if jsonb_typeof(p_line_items) <> 'array' or jsonb_array_length(p_line_items) = 0 then
+    raise exception 'An invoice needs at least one line';
+  end if;
+  if exists (select 1 from jsonb_array_elements(p_line_items) item where (item->>'amount')::numeric < 0) then
+    raise exception 'Invoice lines can''t be negative';
+  end if;
+
+  v_condition := nullif(trim(p_inspection->>'condition'), '');
+  v_value := (p_inspection->>'current_value')::numeric;
+  v_book_value := (p_inspection->>'book_value')::numeric;
+  v_damage := coalesce((p_inspection->>'damage_found')::boolean, false);
+  v_damage_notes := nullif(trim(p_inspection->>'damage_notes'), '');
+  if p_inspection is null or v_condition is null then
+    raise exception 'Inspect the equipment and record its condition before returning it';
+  end if;
+  if v_value < 0 then
+    raise exception 'Current value can''t be negative';
+  end if;
+  if v_damage and v_damage_notes is null then
+    raise exception 'Describe the damage found';
+  end if;
+
+  select * into v_contract from public.equipment_hire_contracts where id = p_contract_id for update;
+  if not found then
+    raise exception 'Hire contract not found';
+  end if;
+  if v_contract.status <> 'active' then
+    raise exception '% is % and can''t be returned', v_contract.contract_number, v_contract.status;
+  end if;
+  if p_returned_date is null or p_returned_date < v_contract.start_date then
+    raise exception 'Return date can''t be before the hire started on %', v_contract.start_date;
+  end if;
+
+  select * into v_equipment from public.equipment_hire where id = v_contract.equipment_id for update;
+  v_value_before := coalesce(v_book_value, v_equipment.current_value);
+
+  select coalesce(sum((item->>'amount')::numeric), 0),
+         coalesce(sum((item->>'amount')::numeric) filter (where item->>'kind' = 'late_fee'), 0)
+  into v_subtotal, v_late_fee
+  from jsonb_array_elements(p_line_items) item;
+
+  if p_deposit_status = 'applied' then
+    v_deposit_applied := least(v_contract.deposit_amount, v_subtotal);
+  end if;
+
+  insert into public.equipment_hire_invoices (contract_id, period_start, period_end, line_items, subtotal, late_fee,
+                                              deposit_applied, total_due, created_by)
+  values (v_contract.id, v_contract.start_date, p_returned_date, p_line_items, round(v_subtotal, 2), round(v_late_fee, 2),
+          round(v_deposit_applied, 2), round(v_subtotal - v_deposit_applied, 2), auth.uid())
+  returning * into v_invoice;
+
+  update public.equipment_hire_contracts
+  set status = 'returned',
+      returned_date = p_returned_date,
+      deposit_status = case when deposit_amount > 0 then p_deposit_status else deposit_status end,
+      notes = coalesce(nullif(trim(p_notes), ''), notes)
+  where id = v_contract.id;
+
+  select coalesce(full_name, username) into v_performed_by from public.users where id = auth.uid();
+
+  if v_damage then
+    select string_agg(item->>'item', ', ') into v_failed
+    from jsonb_array_elements(coalesce(p_inspection->'checklist', '[]'::jsonb)) item
+    where not coalesce((item->>'passed')::boolean, true);
+
+    insert into public.jobs (title, description, equipment_id, priority, status, photo_urls, progress_updates)
+    values ('Repair ' || v_equipment.name,
+            v_damage_notes
+              || coalesce(E'\n\nFailed checks: ' || v_failed, '')
+              || E'\n\nFound on return from ' || v_contract.customer_name || ' (' || v_contract.contract_number || ')',
+            v_equipment.id, 'medium', 'pending',
+            coalesce(array(select jsonb_array_elements_text(p_inspection->'photo_urls')), '{}'),
+            array[to_char(now() at time zone 'utc', 'YYYY-MM-DD"T"HH24:MI:SS"Z"') || ': Opened by return inspection'])
+    returning id into v_job;
+  end if;
+
+  insert into public.equipment_inspections (equipment_id, contract_id, checklist, condition_before, condition_after,
+                                            value_before, value_after, damage_found, damage_notes, photo_urls,
+                                            job_id, inspected_by)
+  values (v_equipment.id, v_contract.id, coalesce(p_inspection->'checklist', '[]'::jsonb), v_equipment.condition, v_condition,
+          v_value_before, coalesce(v_value, v_value_before), v_damage, v_damage_notes,
+          coalesce(array(select jsonb_array_elements_text(p_inspection->'photo_urls')), '{}'),
+          v_job, auth.uid());
+
+  update public.equipment_hire
+  set status = case when v_damage then 'maintenance' else 'available' end,
+      condition = v_condition,
+      current_value = coalesce(v_value, v_book_value, current_value),
+      written_down_value = case when v_value is not null and depreciation_method is not null then v_value else written_down_value end,
+      written_down_on = case when v_value is not null and depreciation_method is not null then p_returned_date else written_down_on end,
+      hired_date = null,
+      expected_return_date = null
+  where id = v_equipment.id;
+
+  insert into public.equipment_hire_history (equipment_id, action, from_venue_id, action_date, notes, performed_by)
+  values (v_equipment.id, 'returned', v_contract.venue_id, p_returned_date,
+          v_contract.contract_number || ' returned by ' || v_contract.customer_name || ', invoiced on ' || v_invoice.invoice_number,
+          v_performed_by);
+
+  insert into public.equipment_hire_history (equipment_id, action, action_date, notes, performed_by)
+  values (v_equipment.id, 'inspected', p_returned_date,
+          'Condition ' || coalesce(v_equipment.condition, 'unknown') || ' → ' || v_condition
+            || case when v_value is distinct from v_value_before and v_value is not null
+                    then case when v_equipment.depreciation_method is not null then ', written down ' else ', value ' end
+                         || coalesce(to_char(v_value_before, 'FM999999990.00'), '—')
+                         || ' → ' || to_char(v_value, 'FM999999990.00')
+                    else '' end,
+          v_performed_by);
+
+  if v_damage then
+    insert into public.equipment_hire_history (equipment_id, action, action_date, notes, performed_by)
+    values (v_equipment.id, 'damaged', p_returned_date, v_damage_notes || ' (repair job opened)', v_performed_by);
+  end if;
+
+  return v_invoice;
+end;
+$$;
+
+grant execute on function public.return_equipment_hire(uuid, date, jsonb, jsonb, text, text) to authenticated;
+
+insert into public.view_permissions (view_key, permission_key) values
+  ('fleet-valuation', 'view_financial_reports')
+on conflict do nothing;
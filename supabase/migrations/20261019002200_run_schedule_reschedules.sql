@@ -0,0 +1,6 @@
+-- Run schedules moved off their rule date. rescheduled_from is the date the rule gave the
+-- schedule before someone moved it (on the calendar); schedule sync treats that date as taken
+-- and never deletes or re-dates a moved schedule.
+
+alter table public.run_schedules
+  add column if not exists rescheduled_from date;
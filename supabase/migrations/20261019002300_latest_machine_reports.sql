@@ -0,0 +1,14 @@
+-- The latest report of every machine, for caching toy counts on the device before a
+-- technician goes offline. Runs as the caller so the machine_reports policies still apply.
+
+create index if not exists machine_reports_machine_created_idx
+  on public.machine_reports (machine_id, created_at desc);
+
+create or replace view public.latest_machine_reports
+with (security_invoker = true)
+as
+select distinct on (machine_id) *
+from public.machine_reports
+order by machine_id, created_at desc;
+
+grant select on public.latest_machine_reports to authenticated;
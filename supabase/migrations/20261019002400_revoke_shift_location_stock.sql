@@ -0,0 +1,5 @@
+-- shift_location_stock is a security definer helper for the stock functions, which run as
+-- the owner and keep their access. Supabase grants execute on new public functions to anon
+-- and authenticated directly, so revoking from public alone left it callable over the API.
+
+revoke execute on function public.shift_location_stock(public.stock_locations, uuid, integer) from public, anon, authenticated;
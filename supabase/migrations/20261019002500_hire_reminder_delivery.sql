@@ -0,0 +1,5 @@
+-- Email reminders that could not be sent are still recorded, with why. They don't count as
+-- sent, so the watchlist keeps offering the same reminder level until one goes out.
+
+alter table public.equipment_hire_reminders
+  add column if not exists delivery_error text;
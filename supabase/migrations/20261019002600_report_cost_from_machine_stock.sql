@@ -0,0 +1,52 @@
+-- Value machine reports at what the machine's prizes cost where they were loaded from. Loading
+-- a machine stamps machine_stock.unit_cost with the van's or warehouse's average cost; a report
+-- now uses the last costed load of the machine's prize by the end of the report date, and only
+-- falls back to the prize's cost history (prize_cost_at) when there is none.
+
+alter table public.machine_stock
+  add column if not exists created_at timestamptz not null default now();
+
+create index if not exists machine_stock_machine_prize_idx
+  on public.machine_stock (machine_id, prize_id, created_at);
+
+create or replace function public.machine_prize_cost_at(p_machine_id uuid, p_prize_id uuid, p_on date)
+returns numeric
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select coalesce(
+    (select unit_cost from public.machine_stock
+     where machine_id = p_machine_id and prize_id = p_prize_id and unit_cost is not null
+       and created_at < (p_on + 1)::timestamptz
+     order by created_at desc limit 1),
+    public.prize_cost_at(p_prize_id, p_on)
+  );
+$$;
+
+-- As in 20261019001600_prize_costing, valued from the machine's loads
+create or replace function public.stamp_report_prize_cost()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_prize_id uuid;
+begin
+  if tg_op = 'INSERT' then
+    select current_prize_id into v_prize_id from public.machines where id = new.machine_id;
+    if v_prize_id is not null then
+      new.prize_unit_cost := public.machine_prize_cost_at(new.machine_id, v_prize_id, coalesce(new.report_date::date, current_date));
+    end if;
+  end if;
+
+  if new.prize_unit_cost is not null and new.toys_dispensed is not null then
+    new.prize_value := round(new.toys_dispensed * new.prize_unit_cost, 2);
+  end if;
+  return new;
+end;
+$$;
+
+grant execute on function public.machine_prize_cost_at(uuid, uuid, date) to authenticated;
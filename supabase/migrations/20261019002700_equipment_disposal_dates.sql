@@ -0,0 +1,32 @@
+-- When hire equipment went off the books. disposed_on is set the day its status becomes retired
+-- or lost and cleared if it comes back into service, so a backdated fleet valuation still
+-- includes equipment that was on the books on that date. Equipment already retired or lost
+-- is dated from its last update.
+
+alter table public.equipment_hire
+  add column if not exists disposed_on date;
+
+update public.equipment_hire
+set disposed_on = coalesce(updated_at, now())::date
+where status in ('retired', 'lost') and disposed_on is null;
+
+create or replace function public.stamp_equipment_disposal()
+returns trigger
+language plpgsql
+as $$
+begin
+  if new.status in ('retired', 'lost') then
+    if tg_op = 'INSERT' or old.status not in ('retired', 'lost') then
+      new.disposed_on := coalesce(new.disposed_on, current_date);
+    end if;
+  else
+    new.disposed_on := null;
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists equipment_hire_disposal on public.equipment_hire;
+create trigger equipment_hire_disposal
+  before insert or update of status on public.equipment_hire
+  for each row execute function public.stamp_equipment_disposal();
@@ -0,0 +1,18 @@
+-- One schedule per run per day. Schedule sync tops up every active run whenever the Runs
+-- screen opens, so two people opening it together could both add the same dates; sync now
+-- inserts with on conflict do nothing against this constraint. Existing doubles are merged
+-- first, keeping the completed or started one.
+
+delete from public.run_schedules s
+using (
+  select id,
+         row_number() over (
+           partition by run_id, scheduled_date
+           order by coalesce(completed, false) desc, (started_at is not null) desc, run_number nulls last, id
+         ) as position
+  from public.run_schedules
+) ranked
+where s.id = ranked.id and ranked.position > 1;
+
+alter table public.run_schedules
+  add constraint run_schedules_run_date_key unique (run_id, scheduled_date);
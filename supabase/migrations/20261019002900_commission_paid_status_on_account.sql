@@ -0,0 +1,81 @@
+-- venue_reports.paid_status from the whole ledger, the way allocatePayments in
+-- src/lib/commissionLedger.ts reads it. Payments tied to a report settle that report first;
+-- payments on account and any overpayment then go to the venue's oldest outstanding commission,
+-- oldest by the end of the period each report covers. Before this only payments tied to a
+-- report counted, so a venue paid on account still showed its reports as unpaid.
+
+create or replace function public.refresh_venue_paid_status(p_venue_id uuid)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_credit numeric;
+  v_report record;
+  v_applied numeric;
+  v_paid boolean;
+begin
+  if p_venue_id is null then
+    return;
+  end if;
+
+  -- Everything the venue has been paid, less what its reports took from their own payments
+  select coalesce((select sum(cp.amount) from public.commission_payments cp where cp.venue_id = p_venue_id), 0)
+       - coalesce(sum(least(coalesce(vr.venue_commission_amount, 0), coalesce((
+           select sum(cp.amount) from public.commission_payments cp where cp.venue_report_id = vr.id
+         ), 0))), 0)
+  into v_credit
+  from public.venue_reports vr
+  where vr.venue_id = p_venue_id;
+
+  for v_report in
+    select vr.id,
+           coalesce(vr.venue_commission_amount, 0) - coalesce((
+             select sum(cp.amount) from public.commission_payments cp where cp.venue_report_id = vr.id
+           ), 0) as outstanding
+    from public.venue_reports vr
+    where vr.venue_id = p_venue_id
+    order by coalesce(vr.date_range_end::date, vr.report_date::date), vr.id
+  loop
+    v_applied := least(greatest(v_credit, 0), greatest(v_report.outstanding, 0));
+    v_credit := v_credit - v_applied;
+    v_paid := v_report.outstanding - v_applied <= 0.005;
+
+    update public.venue_reports
+    set paid_status = v_paid
+    where id = v_report.id and paid_status is distinct from v_paid;
+  end loop;
+end;
+$$;
+
+revoke execute on function public.refresh_venue_paid_status(uuid) from public, anon, authenticated;
+
+-- Shared by commission_payments and venue_reports: both carry venue_id, and a change to either
+-- can move credit between the venue's reports
+create or replace function public.sync_venue_report_paid_status()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if tg_op <> 'INSERT' then
+    perform public.refresh_venue_paid_status(old.venue_id);
+  end if;
+  if tg_op = 'INSERT' or (tg_op = 'UPDATE' and new.venue_id is distinct from old.venue_id) then
+    perform public.refresh_venue_paid_status(new.venue_id);
+  end if;
+  return null;
+end;
+$$;
+
+-- Only touches paid_status, which is not in the column list, so it cannot fire itself
+drop trigger if exists venue_reports_sync_paid_status on public.venue_reports;
+create trigger venue_reports_sync_paid_status
+  after insert or delete or update of venue_id, venue_commission_amount, date_range_end, report_date
+  on public.venue_reports
+  for each row execute function public.sync_venue_report_paid_status();
+
+select public.refresh_venue_paid_status(venue_id)
+from (select distinct venue_id from public.venue_reports where venue_id is not null) venues;